@@ -0,0 +1,76 @@
+#!/usr/bin/env bun
+/**
+ * Intent Layer CLI
+ *
+ * Runs the intent layer analysis against a local git repository.
+ *
+ * Usage:
+ *   intent-layer analyze --base main --head HEAD          Print proposed diffs
+ *   intent-layer analyze --base main --head HEAD --write  Write updates in place
+ */
+
+import { runLocalAnalysis } from "./src/cli/analyze";
+import { CLI_USAGE, CliUsageError, parseCliArgs } from "./src/cli/args";
+import { loadConfigFile } from "./src/config/file";
+import { parseActionInputs } from "./src/config/schema";
+import { LocalGitRepository } from "./src/local/git";
+
+async function main(argv: string[]): Promise<number> {
+	let args: ReturnType<typeof parseCliArgs>;
+	try {
+		args = parseCliArgs(argv);
+	} catch (error) {
+		if (error instanceof CliUsageError) {
+			console.error(`${error.message}\n\n${CLI_USAGE}`);
+			return 2;
+		}
+		throw error;
+	}
+
+	if (args.command === "help") {
+		console.log(CLI_USAGE);
+		return 0;
+	}
+
+	// Flags take precedence over the configuration file at the head ref
+	const repo = await LocalGitRepository.open(process.cwd());
+	const configFile = await loadConfigFile((path) =>
+		repo.readFile(path, args.head),
+	);
+
+	const result = await runLocalAnalysis({
+		cwd: process.cwd(),
+		base: args.base,
+		head: args.head,
+		write: args.write,
+		config: parseActionInputs(args.inputs, configFile?.settings),
+	});
+
+	if (result.skippedReason) {
+		console.log(result.skippedReason);
+		return 0;
+	}
+	if (result.updates.length === 0) {
+		console.log("No updates suggested.");
+		return 0;
+	}
+
+	if (args.write) {
+		for (const path of result.writtenPaths) {
+			console.log(`wrote ${path}`);
+		}
+	} else {
+		console.log(result.diffs.join("\n"));
+	}
+	return 0;
+}
+
+main(process.argv.slice(2)).then(
+	(code) => {
+		process.exitCode = code;
+	},
+	(error: unknown) => {
+		console.error(error instanceof Error ? error.message : String(error));
+		process.exitCode = 1;
+	},
+);
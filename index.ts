@@ -7,26 +7,61 @@
  * Modes:
  * - analyze: Analyze PR changes and propose intent layer updates
  * - checkbox-handler: Handle checkbox toggles in PR comments
+ * - command-handler: Handle `/intent-layer` commands and feedback replies in PR
+ *   comments
+ * - audit: Audit every intent node on the default branch and optionally open
+ *   a refresh PR
  */
 
 import * as core from "@actions/core";
+import {
+	applyDirectoryIgnores,
+	loadDirectoryConfigs,
+} from "./src/config/directories";
+import {
+	annotateConfigFileError,
+	type ConfigFile,
+	ConfigFileError,
+	loadConfigFile,
+} from "./src/config/file";
 import { type ActionInputs, parseActionInputs } from "./src/config/schema";
 import {
 	debounceCheckboxToggle,
 	handleCheckedCheckbox,
 	handleUncheckedCheckbox,
+	reconstructIntentUpdateFromComment,
 	validateAndFailOnInsufficientHistory,
 	validateCheckboxEvent,
 } from "./src/github/checkbox-handler";
+import { publishCheckRun } from "./src/github/checks";
 import { createGitHubClient, type GitHubClient } from "./src/github/client";
 import {
+	applyAllSuggestions,
+	COMMAND_USAGE,
+	type CommandResult,
+	canRunCommands,
+	explainFileCoverage,
+	formatCommand,
+	formatCommandReply,
+	type IntentLayerCommand,
+	parseIntentLayerCommand,
+	revertAllSuggestions,
+	skipPendingSuggestions,
+	validateCommandEvent,
+} from "./src/github/commands";
+import {
+	addNotAppliedStatus,
 	hasIntentLayerMarker,
 	postIntentLayerLinkComment,
 	resolveAndPostComments,
 } from "./src/github/comments";
 import {
 	applyUpdatesToBranch,
+	createAuditBranch,
 	createIntentLayerBranch,
+	exportDerivedFiles,
+	generateAuditPRBody,
+	generateAuditPRTitle,
 	openIntentLayerPullRequest,
 } from "./src/github/commits";
 import {
@@ -39,43 +74,68 @@ import {
 	type PRMetadata,
 } from "./src/github/context";
 import {
-	determineNodesNeedingUpdate,
-	filterSemanticBoundariesForInitialization,
-	identifySemanticBoundaries,
-	mapChangedFilesToNodes,
-	type NodeUpdateCandidate,
-	reviewParentNodes,
-} from "./src/intent/analyzer";
+	type FeedbackTarget,
+	findFeedbackTarget,
+	generateRevisedComment,
+} from "./src/github/feedback";
+import { canPushToPRHead, resolveOutputTarget } from "./src/github/fork";
+import {
+	type AnalysisReport,
+	type AuditReport,
+	createAnalysisReport,
+	createAuditReport,
+	setActionOutputs,
+	setAuditOutputs,
+	writeAuditJobSummary,
+	writeJobSummary,
+} from "./src/github/outputs";
+import {
+	auditRepository,
+	formatAuditReport,
+	hasAuditFindings,
+} from "./src/intent/audit";
+import { detectIntentLayer } from "./src/intent/detector";
+import {
+	buildHierarchies,
+	getDirectory,
+	type IntentNode,
+} from "./src/intent/hierarchy";
+import { getIntentFileType } from "./src/intent/kinds";
 import {
-	detectIntentLayer,
-	hasIntentLayer,
-	validateSymlinkConfig,
-} from "./src/intent/detector";
-import { buildHierarchy } from "./src/intent/hierarchy";
+	type AnalysisPlan,
+	assignOtherNodePaths,
+	createAnalysisPromptResolver,
+	finalizeAnalysisUpdates,
+	getAnalyzedFileTypes,
+	getExportSourceType,
+	getNodeBudgetThresholds,
+	getNodeConfigs,
+	getNodeStaleness,
+	getOtherNodePath,
+	getSymlinkedFileTypes,
+	getSymlinkSource,
+	getTriggeringFiles,
+	planAnalysis,
+	planFileTypeAnalysis,
+	requestAnalysisUpdates,
+	requestAuditUpdates,
+	requestRevisedUpdate,
+	SymlinkConfigError,
+} from "./src/intent/pipeline";
 import {
 	createOpenCodeClientFromModel,
 	type OpenCodeClientResult,
 } from "./src/opencode/client";
-import type { IntentUpdate, LLMOutput } from "./src/opencode/output-schema";
-import {
-	buildAnalysisPrompt,
-	buildInitializationPrompt,
-	type IntentContext,
-	type NodeUpdateCandidateWithContent,
-	type ParentNodeReviewCandidateWithContent,
-	type PRContext,
-	type PromptConfig,
-} from "./src/opencode/prompts";
+import type { IntentUpdate } from "./src/opencode/output-schema";
+import type { PRContext } from "./src/opencode/prompts";
 import {
+	buildAuditSessionTitle,
 	buildSessionTitle,
 	checkAndHandleModelAccessError,
 	createSessionFromModelString,
 } from "./src/opencode/session";
-import {
-	type IntentLayerIgnore,
-	parseIntentLayerIgnore,
-} from "./src/patterns/ignore";
-import { createPromptResolver } from "./src/patterns/prompts";
+import { parseIntentLayerIgnore } from "./src/patterns/ignore";
+import { createRepositorySource } from "./src/repository/resolve";
 
 /**
  * Get action inputs from GitHub Actions environment.
@@ -87,164 +147,83 @@ function getActionInputs(): Record<string, string | undefined> {
 		files: core.getInput("files") || undefined,
 		symlink: core.getInput("symlink") || undefined,
 		symlink_source: core.getInput("symlink_source") || undefined,
+		export_targets: core.getInput("export_targets") || undefined,
 		output: core.getInput("output") || undefined,
+		check_conclusion: core.getInput("check_conclusion") || undefined,
 		new_nodes: core.getInput("new_nodes") || undefined,
 		split_large_nodes: core.getInput("split_large_nodes") || undefined,
 		token_budget_percent: core.getInput("token_budget_percent") || undefined,
 		skip_binary_files: core.getInput("skip_binary_files") || undefined,
 		file_max_lines: core.getInput("file_max_lines") || undefined,
+		staleness_threshold: core.getInput("staleness_threshold") || undefined,
 		prompts: core.getInput("prompts") || undefined,
 	};
 }
 
 /**
- * Fetch content for intent nodes that need updating.
+ * Load the repository's configuration file from the default branch.
+ *
+ * Reading from the default branch rather than the PR head means a PR cannot
+ * change the settings its own analysis runs with.
  */
-async function fetchNodeContents(
+async function loadRepositoryConfigFile(
 	client: GitHubClient,
-	candidates: NodeUpdateCandidate[],
-	ref: string,
-): Promise<NodeUpdateCandidateWithContent[]> {
-	const results: NodeUpdateCandidateWithContent[] = [];
-
-	for (const candidate of candidates) {
-		let currentContent = "";
-		try {
-			const fileData = await client.getFileContent(
-				candidate.node.file.path,
-				ref,
-			);
-			if (
-				!Array.isArray(fileData) &&
-				"content" in fileData &&
-				fileData.content
-			) {
-				currentContent = Buffer.from(fileData.content, "base64").toString(
-					"utf-8",
-				);
-			}
-		} catch {
-			// File might not exist, leave content empty
-		}
-
-		results.push({
-			...candidate,
-			currentContent,
-		});
+): Promise<ConfigFile | undefined> {
+	const baseBranch = await client.getDefaultBranch();
+	const ref = (await client.getRef(`heads/${baseBranch}`)).object.sha;
+	const source = await createRepositorySource(client, ref);
+	const configFile = await loadConfigFile((path) => source.readFile(path, ref));
+	if (configFile) {
+		core.info(`Loaded configuration from ${configFile.path} on ${baseBranch}`);
 	}
-
-	return results;
+	return configFile;
 }
 
 /**
- * Fetch content for parent nodes that might need review.
+ * Options for running analysis outside of a pull_request event.
  */
-async function fetchParentNodeContents(
-	client: GitHubClient,
-	candidates: ReturnType<typeof reviewParentNodes>["candidates"],
-	ref: string,
-): Promise<ParentNodeReviewCandidateWithContent[]> {
-	const results: ParentNodeReviewCandidateWithContent[] = [];
-
-	for (const candidate of candidates) {
-		let currentContent = "";
-		try {
-			const fileData = await client.getFileContent(
-				candidate.node.file.path,
-				ref,
-			);
-			if (
-				!Array.isArray(fileData) &&
-				"content" in fileData &&
-				fileData.content
-			) {
-				currentContent = Buffer.from(fileData.content, "base64").toString(
-					"utf-8",
-				);
-			}
-		} catch {
-			// File might not exist, leave content empty
-		}
-
-		results.push({
-			...candidate,
-			currentContent,
-		});
-	}
-
-	return results;
+interface AnalyzeModeOptions {
+	/** PR to analyze (default: the event's pull request) */
+	pullNumber?: number;
+	/** Only analyze, and reconcile comments for, these intent nodes */
+	nodePaths?: ReadonlySet<string>;
 }
 
 /**
  * Run the analyze mode to analyze PR changes and propose intent layer updates.
+ *
+ * @returns Report of the proposed updates and how they were delivered
  */
 async function runAnalyzeMode(
 	client: GitHubClient,
 	config: ActionInputs,
-): Promise<void> {
-	const pullNumber = client.pullRequestNumber;
+	options: AnalyzeModeOptions = {},
+): Promise<AnalysisReport> {
+	const report = createAnalysisReport(config.output);
+	const nodePaths = options.nodePaths;
+
+	const pullNumber = options.pullNumber ?? client.pullRequestNumber;
 	if (!pullNumber) {
 		core.setFailed("Analyze mode requires a pull request context");
-		return;
+		report.skippedReason = "Analyze mode requires a pull request context";
+		return report;
 	}
 
 	core.info(`Analyzing PR #${pullNumber} for intent layer updates`);
 
 	// Step 1: Extract PR metadata and check size
 	const prMetadata = await extractPRMetadata(client, pullNumber);
-	const sizeCheck = isPRTooLarge(prMetadata);
+	report.headSha = prMetadata.headSha;
+	const sizeCheck = isPRTooLarge(prMetadata, config.max_pr_lines_changed);
 
 	if (sizeCheck.isTooLarge) {
 		core.info(sizeCheck.message);
-		core.info("Skipping intent layer analysis for this large PR.");
-		return;
-	}
-
-	// Step 2: Detect existing intent layer structure
-	const ref = prMetadata.headBranch;
-	const detectionResult = await detectIntentLayer(client, ref);
-	const intentLayerExists = hasIntentLayer(detectionResult);
-
-	core.info(
-		intentLayerExists
-			? `Found existing intent layer: ${detectionResult.agentsFiles.length} AGENTS.md, ${detectionResult.claudeFiles.length} CLAUDE.md files`
-			: "No existing intent layer found in repository",
-	);
-
-	// Step 3: Validate symlink configuration
-	if (config.symlink) {
-		const symlinkValidation = validateSymlinkConfig(
-			detectionResult,
-			config.symlink,
-		);
-		if (!symlinkValidation.valid) {
-			core.setFailed(symlinkValidation.error ?? "Symlink validation failed");
-			return;
-		}
-	}
-
-	// Step 4: Load ignore patterns
-	let ignore: IntentLayerIgnore | undefined;
-	try {
-		const ignoreContent = await client.getFileContent(
-			".intentlayerignore",
-			ref,
-		);
-		if (
-			!Array.isArray(ignoreContent) &&
-			"content" in ignoreContent &&
-			ignoreContent.content
-		) {
-			const ignoreText = Buffer.from(ignoreContent.content, "base64").toString(
-				"utf-8",
-			);
-			ignore = parseIntentLayerIgnore(ignoreText);
-		}
-	} catch {
-		// No .intentlayerignore file, use default (no ignores)
+		core.info("Analyzing this large PR in per-node chunks.");
 	}
 
-	// Step 5: Extract PR context
+	// Step 2: Extract PR context
+	const ref = prMetadata.headSha;
+	const source = await createRepositorySource(client, ref);
 	const [commits, linkedIssues, reviewComments, diff] = await Promise.all([
 		extractPRCommits(client, pullNumber),
 		extractLinkedIssues(client, pullNumber),
@@ -252,189 +231,167 @@ async function runAnalyzeMode(
 		extractPRDiff(client, pullNumber, { includeRawDiff: false }),
 	]);
 
-	// Step 6: Build hierarchy and analyze changes
-	const fileType = config.files === "claude" ? "claude" : "agents";
-	const files =
-		fileType === "agents"
-			? detectionResult.agentsFiles
-			: detectionResult.claudeFiles;
-	const hierarchy = buildHierarchy(files, fileType);
-
-	const mapping = mapChangedFilesToNodes(diff, hierarchy, ignore);
-	const directUpdates = determineNodesNeedingUpdate(mapping);
-	const parentReview = reviewParentNodes(directUpdates);
-	let semanticBoundaries = identifySemanticBoundaries(
-		mapping,
-		config.new_nodes,
-		fileType,
-	);
-
-	// Filter semantic boundaries for initialization (only suggest root node)
-	if (!intentLayerExists && semanticBoundaries.hasCandidates) {
-		semanticBoundaries = filterSemanticBoundariesForInitialization(
-			semanticBoundaries,
-			fileType,
+	// Step 3: Detect the intent layer at the analyzed head and plan the analysis
+	let plan: AnalysisPlan;
+	try {
+		plan = await planAnalysis(
+			source,
+			ref,
+			prMetadata.baseSha,
+			diff,
+			config,
+			nodePaths,
 		);
+	} catch (error) {
+		if (error instanceof SymlinkConfigError) {
+			core.setFailed(error.message);
+			report.skippedReason = error.message;
+			return report;
+		}
+		throw error;
 	}
+	const { analyses, lint, moves } = plan;
 
-	// Step 7: If no updates needed and no new nodes suggested, we're done
-	if (
-		!directUpdates.hasUpdates &&
-		!parentReview.hasRecommendedUpdates &&
-		!semanticBoundaries.hasCandidates
-	) {
+	// Step 4: If no updates needed and no new nodes suggested, we're done
+	if (analyses.length === 0 && (lint.fixes.length > 0 || moves.length > 0)) {
+		core.info(
+			`Applying ${lint.fixes.length} reference fixes and ${moves.length} node moves without LLM analysis`,
+		);
+		report.updates = finalizeAnalysisUpdates([], plan, diff.files, config);
+		await handleOutput(client, report, prMetadata, config, nodePaths);
+		return report;
+	}
+	if (analyses.length === 0 && nodePaths) {
+		report.skippedReason = `${[...nodePaths].map((p) => `\`${p}\``).join(" / ")} is not affected by this PR's changes`;
+		core.info(report.skippedReason);
+		return report;
+	}
+	if (analyses.length === 0) {
 		core.info("No intent layer updates needed for this PR.");
-		return;
+		return report;
 	}
 
-	core.info(
-		`Found ${directUpdates.totalNodes} nodes to update, ${parentReview.totalParentNodes} parent nodes to review, ${semanticBoundaries.totalCandidates} potential new nodes`,
-	);
+	report.triggeringFiles = getTriggeringFiles(analyses);
+	report.nodeStaleness = getNodeStaleness(analyses);
+	report.nodeConfigs = getNodeConfigs(analyses);
+	for (const analysis of analyses) {
+		core.info(
+			`${analysis.fileType}: found ${analysis.directUpdates.totalNodes} nodes to update, ${analysis.parentReview.totalParentNodes} parent nodes to review, ${analysis.semanticBoundaries.totalCandidates} potential new nodes`,
+		);
+	}
 
-	// Step 8: Initialize OpenCode client
-	let opencodeResult: OpenCodeClientResult;
-	try {
-		opencodeResult = await createOpenCodeClientFromModel(config.model);
-	} catch (error) {
-		checkAndHandleModelAccessError(error);
-		throw error;
+	// Step 5: Get LLM analysis for each file type
+	const prContext: PRContext = {
+		metadata: prMetadata,
+		commits,
+		linkedIssues,
+		reviewComments,
+		changedFiles: diff.files,
+	};
+	const result = await requestAnalysisUpdates(
+		source,
+		plan,
+		prContext,
+		ref,
+		config,
+		{
+			sessionTitle: buildSessionTitle(pullNumber, client.repo.repo),
+			chunked: sizeCheck.isTooLarge,
+			nodePaths,
+		},
+	);
+	report.nodeBudgets = result.nodeBudgets;
+	report.promptBudgets = result.promptBudgets;
+
+	// Step 6: Process LLM output, adding reference fixes and node moves
+	const updates = finalizeAnalysisUpdates(
+		result.updates,
+		plan,
+		diff.files,
+		config,
+	);
+	if (updates.length === 0) {
+		core.info("LLM analysis complete: No updates suggested.");
+		// Regenerated nodes still reconcile, resolving their stale comments
+		if (!nodePaths) {
+			return report;
+		}
 	}
 
-	try {
-		// Step 9: Create analysis session and build prompt
-		const session = await createSessionFromModelString(
-			opencodeResult.client,
-			buildSessionTitle(pullNumber, client.repo.repo),
-			config.model,
-		);
+	core.info(`LLM suggested ${updates.length} intent layer updates`);
 
-		// Fetch content for nodes
-		const nodesToUpdateWithContent = await fetchNodeContents(
-			client,
-			directUpdates.candidates,
-			ref,
-		);
-		const parentNodesToReviewWithContent = await fetchParentNodeContents(
-			client,
-			parentReview.candidates,
-			ref,
-		);
-
-		// Build prompt resolver from config
-		const promptResolver = config.prompts
-			? createPromptResolver(
-					typeof config.prompts === "string" ? config.prompts : config.prompts,
-				)
-			: undefined;
-
-		const prContext: PRContext = {
-			metadata: prMetadata,
-			commits,
-			linkedIssues,
-			reviewComments,
-			changedFiles: diff.files,
-		};
+	report.updates = updates;
 
-		const intentContext: IntentContext = {
-			nodesToUpdate: nodesToUpdateWithContent,
-			parentNodesToReview: parentNodesToReviewWithContent,
-			potentialNewNodes: semanticBoundaries.candidates,
-		};
+	// Step 7: Output based on mode
+	await handleOutput(client, report, prMetadata, config, nodePaths);
+	return report;
+}
 
-		const promptConfig: PromptConfig = {
-			fileType: config.files === "both" ? "both" : fileType,
-			newNodesAllowed: config.new_nodes,
-			splitLargeNodes: config.split_large_nodes,
-			promptResolver,
-		};
+/**
+ * Regenerate the configured derived rule files after an intent commit lands
+ * on a branch. The intent commit is already on the branch, so a failed export
+ * is reported as a warning rather than failing the run.
+ *
+ * @returns SHA of the export commit, if the derived files changed
+ */
+async function exportDerivedRuleFiles(
+	client: GitHubClient,
+	config: ActionInputs,
+	branch: string,
+): Promise<string | undefined> {
+	const sourceType = getExportSourceType(config);
+	if (config.export_targets.length === 0 || !sourceType) {
+		return undefined;
+	}
 
-		// Build and send the analysis prompt
-		let prompt: string;
-		if (!intentLayerExists) {
-			// No existing intent layer - use initialization prompt
-			prompt = buildInitializationPrompt(
-				prMetadata,
-				diff.files,
-				fileType,
-				promptResolver,
+	try {
+		const result = await exportDerivedFiles(client, {
+			branch,
+			targets: config.export_targets,
+			sourceType,
+		});
+		if (result.skipped.length > 0) {
+			core.warning(
+				`Not exporting to hand-written files: ${result.skipped.join(", ")}`,
 			);
-		} else {
-			// Existing intent layer - use full analysis prompt
-			prompt = buildAnalysisPrompt(prContext, intentContext, promptConfig);
 		}
-
-		// Step 10: Get LLM analysis
-		let llmOutput: LLMOutput;
-		try {
-			core.info(
-				`Sending prompt to LLM (prompt length: ${prompt.length} chars)...`,
-			);
-			const result = await session.prompt({ prompt });
+		if (result.commit) {
 			core.info(
-				`LLM response received (raw length: ${result.rawResponse.length} chars)`,
+				`Regenerated ${result.commit.filePaths.length} derived rule files on branch ${branch} in ${result.commit.sha}`,
 			);
-			core.debug(`Raw LLM response: ${result.rawResponse.substring(0, 500)}`);
-			if (result.parsedOutput) {
-				llmOutput = result.parsedOutput;
-			} else {
-				core.error(
-					`LLM response parsing failed. Raw response (first 2000 chars): ${result.rawResponse.substring(0, 2000)}`,
-				);
-				throw new Error(
-					`Invalid LLM output: ${result.parseError ?? "Unknown parse error"}`,
-				);
-			}
-		} catch (error) {
-			checkAndHandleModelAccessError(error);
-			throw error;
-		}
-
-		// Clean up session
-		await session.delete();
-
-		// Step 11: Process LLM output
-		const updates = llmOutput.updates;
-
-		if (updates.length === 0) {
-			core.info("LLM analysis complete: No updates suggested.");
-			return;
 		}
-
-		core.info(`LLM suggested ${updates.length} intent layer updates`);
-
-		// Add otherNodePath if managing both files
-		const processedUpdates =
-			config.files === "both"
-				? updates.map((update) => ({
-						...update,
-						otherNodePath: update.nodePath.includes("AGENTS.md")
-							? update.nodePath.replace("AGENTS.md", "CLAUDE.md")
-							: update.nodePath.replace("CLAUDE.md", "AGENTS.md"),
-					}))
-				: updates;
-
-		// Step 12: Output based on mode
-		await handleOutput(client, processedUpdates, prMetadata, config);
-	} finally {
-		// Always close the OpenCode server
-		opencodeResult.server.close();
+		return result.commit?.sha;
+	} catch (error) {
+		core.warning(
+			`Failed to regenerate derived rule files on branch ${branch}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return undefined;
 	}
 }
 
 /**
- * Handle the output based on the configured output mode.
+ * Handle the output based on the configured output mode, recording created
+ * commits and pull requests on the report.
  */
 async function handleOutput(
 	client: GitHubClient,
-	updates: IntentUpdate[],
+	report: AnalysisReport,
 	prMetadata: PRMetadata,
 	config: ActionInputs,
+	nodePaths?: ReadonlySet<string>,
 ): Promise<void> {
+	const updates = report.updates;
 	const pullNumber = prMetadata.number;
 	const headSha = prMetadata.headSha;
 	const headBranch = prMetadata.headBranch;
+	const target = resolveOutputTarget(config.output, prMetadata);
 
-	switch (config.output) {
+	if (target.fallbackReason) {
+		core.warning(target.fallbackReason);
+	}
+	report.output = target.output;
+
+	switch (target.output) {
 		case "pr_comments": {
 			// Post one comment per update with approval checkbox
 			const result = await resolveAndPostComments(
@@ -442,39 +399,56 @@ async function handleOutput(
 				pullNumber,
 				updates,
 				headSha,
+				{ nodePaths },
 			);
 			core.info(
-				`Posted ${result.postedComments.length} comments, resolved ${result.resolvedComments.length} stale comments`,
+				`Posted ${result.postedComments.length} comments, updated ${result.updatedComments.length}, left ${result.unchangedComments.length} unchanged, resolved ${result.resolvedComments.length} stale comments`,
 			);
 			break;
 		}
 
 		case "pr_commit": {
-			// Apply all changes directly to the PR branch
+			// Apply all changes directly to the PR branch in a single commit,
+			// only if the branch still points at the analyzed head
 			const commitResult = await applyUpdatesToBranch(client, updates, {
 				branch: headBranch,
 				symlink: config.symlink,
-				symlinkSource: config.symlink_source,
+				symlinkSource: getSymlinkSource(config),
+				expectedHeadSha: headSha,
 			});
 
 			if (commitResult.errors.length > 0) {
 				core.warning(
-					`Applied ${commitResult.appliedCount}/${commitResult.totalCount} updates. Errors:\n${commitResult.errors.map((e) => `  - ${e.update.nodePath}: ${e.error}`).join("\n")}`,
+					`No intent layer updates were applied (${commitResult.totalCount} proposed). Errors:\n${commitResult.errors.map((e) => `  - ${e.update.nodePath}: ${e.error}`).join("\n")}`,
 				);
-			} else {
+			} else if (commitResult.commit) {
+				report.commitShas.push(commitResult.commit.sha);
 				core.info(
-					`Applied all ${commitResult.appliedCount} intent layer updates to branch ${headBranch}`,
+					`Applied all ${commitResult.appliedCount} intent layer updates to branch ${headBranch} in ${commitResult.commit.sha}`,
 				);
+				const exportSha = await exportDerivedRuleFiles(
+					client,
+					config,
+					headBranch,
+				);
+				if (exportSha) {
+					report.commitShas.push(exportSha);
+				}
 			}
 			break;
 		}
 
+		case "check":
+			// Reported through the check run once analysis completes
+			break;
+
 		case "new_pr": {
-			// Create a new branch and PR for intent layer updates
+			// Create a new branch and PR for intent layer updates, starting from
+			// the base commit when the head commits come from a fork
 			const branchResult = await createIntentLayerBranch(
 				client,
 				pullNumber,
-				headSha,
+				target.newPrStartSha,
 			);
 			core.info(`Created branch ${branchResult.branchName}`);
 
@@ -482,20 +456,39 @@ async function handleOutput(
 			const commitResult = await applyUpdatesToBranch(client, updates, {
 				branch: branchResult.branchName,
 				symlink: config.symlink,
-				symlinkSource: config.symlink_source,
+				symlinkSource: getSymlinkSource(config),
+				expectedHeadSha: branchResult.sha,
 			});
 
+			if (commitResult.commit) {
+				report.commitShas.push(commitResult.commit.sha);
+			}
+
 			if (commitResult.appliedCount === 0) {
-				core.warning("No updates were applied to the intent layer branch");
+				core.warning(
+					`No updates were applied to the intent layer branch${commitResult.errors.length > 0 ? `. Errors:\n${commitResult.errors.map((e) => `  - ${e.update.nodePath}: ${e.error}`).join("\n")}` : ""}`,
+				);
 				return;
 			}
 
-			// Open a PR targeting the original PR's head branch
+			const exportSha = await exportDerivedRuleFiles(
+				client,
+				config,
+				branchResult.branchName,
+			);
+			if (exportSha) {
+				report.commitShas.push(exportSha);
+			}
+
+			// Open a PR targeting the original PR's head branch (or its base
+			// branch when the head branch lives in a fork)
 			const prResult = await openIntentLayerPullRequest(client, {
 				originalPrNumber: pullNumber,
 				originalPrHeadBranch: headBranch,
+				baseBranch: target.newPrBaseBranch,
 			});
 			core.info(`Created intent layer PR #${prResult.number}: ${prResult.url}`);
+			report.pullRequest = { number: prResult.number, url: prResult.url };
 
 			// Post a link comment on the original PR
 			await postIntentLayerLinkComment(
@@ -549,6 +542,7 @@ async function runCheckboxHandlerMode(
 		client,
 		checkboxContext.commentId,
 		checkboxContext.commentBody,
+		{ delayMs: config.debounce_delay_ms },
 	);
 
 	if (!debounceResult.stable) {
@@ -567,6 +561,21 @@ async function runCheckboxHandlerMode(
 		return;
 	}
 
+	// Changes cannot be committed to a head branch that lives in a fork;
+	// leave the suggestion in the comment for the author to apply
+	if (!canPushToPRHead(prMetadata)) {
+		if (debounceResult.isChecked) {
+			await client.updateComment(
+				checkboxContext.commentId,
+				addNotAppliedStatus(debounceResult.commentBody, prMetadata.headRepo),
+			);
+		}
+		core.info(
+			`PR head branch lives in ${prMetadata.headRepo ?? "a deleted fork"}, which the action cannot push to; skipping commit for ${debounceResult.markerData.nodePath}`,
+		);
+		return;
+	}
+
 	// Handle based on checkbox state
 	if (debounceResult.isChecked) {
 		core.info(
@@ -581,12 +590,15 @@ async function runCheckboxHandlerMode(
 			{
 				branch: prMetadata.headBranch,
 				symlink: config.symlink,
-				symlinkSource: config.symlink_source,
+				symlinkSource: getSymlinkSource(config),
 			},
 		);
 
 		if (result.success) {
 			core.info(`Successfully applied change: ${result.commitResult?.sha}`);
+			if (result.commitResult) {
+				await exportDerivedRuleFiles(client, config, prMetadata.headBranch);
+			}
 		} else if (result.markedAsResolved) {
 			core.info(`Comment marked as resolved: ${result.error}`);
 		} else {
@@ -604,7 +616,7 @@ async function runCheckboxHandlerMode(
 			{
 				branch: prMetadata.headBranch,
 				symlink: config.symlink,
-				symlinkSource: config.symlink_source,
+				symlinkSource: getSymlinkSource(config),
 			},
 		);
 
@@ -613,6 +625,7 @@ async function runCheckboxHandlerMode(
 				core.info("No prior commit to revert, skipping");
 			} else {
 				core.info(`Successfully reverted change: ${result.commitResult?.sha}`);
+				await exportDerivedRuleFiles(client, config, prMetadata.headBranch);
 			}
 		} else {
 			core.setFailed(`Failed to revert change: ${result.error}`);
@@ -620,35 +633,570 @@ async function runCheckboxHandlerMode(
 	}
 }
 
+/**
+ * Run the command-handler mode to process `/intent-layer` commands in PR
+ * comments. Each command is acknowledged with a reaction and answered with a
+ * reply comment describing what it did.
+ */
+async function runCommandHandlerMode(
+	client: GitHubClient,
+	config: ActionInputs,
+): Promise<void> {
+	const eventPayload = client.context.payload as Record<string, unknown>;
+	const commandContext = validateCommandEvent(eventPayload);
+
+	if (!commandContext) {
+		core.info("Event is not a new comment, skipping");
+		return;
+	}
+
+	if (!commandContext.isPullRequest) {
+		core.info("Comment is not on a pull request, skipping");
+		return;
+	}
+
+	const { commentId, issueNumber } = commandContext;
+	const parsed = parseIntentLayerCommand(commandContext.commentBody);
+
+	// Check trust before replying or reading anything on the commenter's behalf
+	if (!canRunCommands(commandContext.authorAssociation)) {
+		if (parsed) {
+			await client.createCommentReaction(commentId, "-1");
+		}
+		core.info(
+			`Ignoring comment from ${commandContext.author} (${commandContext.authorAssociation})`,
+		);
+		return;
+	}
+
+	if (parsed && !parsed.command) {
+		await client.createCommentReaction(commentId, "confused");
+		await client.createComment(
+			issueNumber,
+			`${parsed.error ?? "Invalid command"}.\n\n${COMMAND_USAGE}\n`,
+		);
+		core.info(`Invalid intent layer command: ${parsed.error}`);
+		return;
+	}
+
+	// A comment is either a command or feedback on a suggestion
+	let label: string;
+	let execute: () => Promise<CommandResult>;
+	let formatReply: (result: CommandResult) => string;
+	const command = parsed?.command;
+	if (command) {
+		label = `\`${formatCommand(command)}\``;
+		execute = () => runCommand(client, config, command, issueNumber);
+		formatReply = (result) => formatCommandReply(command, result);
+	} else {
+		const target = findFeedbackTarget(
+			commandContext.commentBody,
+			await client.getIssueComments(issueNumber),
+		);
+		if (!target) {
+			core.info(
+				"Comment is neither an intent layer command nor feedback on a suggestion, skipping",
+			);
+			return;
+		}
+		label = `feedback on \`${target.marker.nodePath}\``;
+		execute = () =>
+			reviseSuggestion(
+				client,
+				config,
+				target,
+				issueNumber,
+				commandContext.author,
+			);
+		formatReply = (result) =>
+			`**Feedback on \`${target.marker.nodePath}\`**${result.success ? "" : " (with errors)"}\n\n${result.message}\n`;
+	}
+
+	core.info(
+		`Processing ${label} from ${commandContext.author} on PR #${issueNumber}`,
+	);
+	await client.createCommentReaction(commentId, "eyes");
+
+	let result: CommandResult;
+	try {
+		result = await execute();
+	} catch (error) {
+		result = {
+			success: false,
+			message: `Command failed: ${error instanceof Error ? error.message : String(error)}`,
+		};
+	}
+
+	await client.createComment(issueNumber, formatReply(result));
+	await client.createCommentReaction(
+		commentId,
+		result.success ? "+1" : "confused",
+	);
+
+	if (!result.success) {
+		core.setFailed(result.message);
+	}
+}
+
+/**
+ * Revise a suggestion after reviewer feedback and replace it in its comment.
+ *
+ * A new session is prompted with the node's single-node update prompt plus
+ * the previous proposal and the feedback. The revised comment keeps the
+ * marker's node paths.
+ */
+async function reviseSuggestion(
+	client: GitHubClient,
+	config: ActionInputs,
+	target: FeedbackTarget,
+	pullNumber: number,
+	reviewer: string,
+): Promise<CommandResult> {
+	const { marker } = target;
+	const nodePath = marker.nodePath;
+
+	if (marker.appliedCommit) {
+		return {
+			success: false,
+			message: `The suggestion for \`${nodePath}\` is already committed. Uncheck it to revert the commit before asking for a revision.`,
+		};
+	}
+
+	// Read the node and the changes that led to the suggestion at the PR head
+	const prMetadata = await extractPRMetadata(client, pullNumber);
+	const ref = prMetadata.headSha;
+	const source = await createRepositorySource(client, ref);
+	const hierarchies = buildHierarchies(await detectIntentLayer(source, ref));
+	const fileType = getIntentFileType(nodePath) ?? "agents";
+	const hierarchy = hierarchies[fileType];
+	const ignoreText = await source
+		.readFile(".intentlayerignore", ref)
+		.catch(() => undefined);
+	const directoryConfigs = await loadDirectoryConfigs(
+		await source.listTree(ref),
+		(path) => source.readFile(path, ref),
+	);
+	const diff = await extractPRDiff(client, pullNumber, {
+		includeRawDiff: false,
+	});
+	const changedFiles =
+		getTriggeringFiles([
+			planFileTypeAnalysis(
+				hierarchy,
+				diff,
+				config,
+				applyDirectoryIgnores(
+					ignoreText ? parseIntentLayerIgnore(ignoreText) : undefined,
+					directoryConfigs,
+				),
+				undefined,
+				directoryConfigs,
+			),
+		]).get(nodePath) ?? [];
+
+	const node: IntentNode = hierarchy.nodesByPath.get(nodePath) ?? {
+		file: { path: nodePath, type: fileType, sha: "", isSymlink: false },
+		directory: getDirectory(nodePath),
+		parent: undefined,
+		children: [],
+		depth: 0,
+	};
+	const currentContent = (await source.readFile(nodePath, ref)) ?? "";
+	const previousUpdate = reconstructIntentUpdateFromComment(
+		target.commentBody,
+		marker,
+		marker.action ??
+			(hierarchy.nodesByPath.has(nodePath) ? "update" : "create"),
+	);
+
+	let opencodeResult: OpenCodeClientResult;
+	try {
+		opencodeResult = await createOpenCodeClientFromModel(config.model);
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	}
+
+	let revised: IntentUpdate | undefined;
+	try {
+		const session = await createSessionFromModelString(
+			opencodeResult.client,
+			buildSessionTitle(pullNumber, client.repo.repo),
+			config.model,
+			config.session_timeout_ms,
+			config.output_repair_attempts,
+			config.context_window_tokens,
+		);
+		try {
+			revised = await requestRevisedUpdate(
+				session,
+				{ node, currentContent },
+				changedFiles,
+				prMetadata,
+				{ previousUpdate, feedback: target.feedback, reviewer },
+				createAnalysisPromptResolver(config, directoryConfigs),
+			);
+		} finally {
+			await session.delete().catch((error) => {
+				core.warning(`Failed to delete revision session: ${error}`);
+			});
+		}
+	} finally {
+		opencodeResult.server.close();
+	}
+
+	if (!revised) {
+		return {
+			success: true,
+			message: `No revision was proposed for \`${nodePath}\`; the suggestion is unchanged.`,
+		};
+	}
+
+	await client.updateComment(
+		target.commentId,
+		generateRevisedComment(
+			{ ...revised, currentContent: revised.currentContent ?? currentContent },
+			marker,
+			prMetadata.headSha,
+		),
+	);
+
+	return {
+		success: true,
+		message: `Revised the suggestion for \`${nodePath}\`: ${revised.reason}`,
+	};
+}
+
+/**
+ * Run a single intent layer command against a pull request.
+ */
+async function runCommand(
+	client: GitHubClient,
+	config: ActionInputs,
+	command: IntentLayerCommand,
+	pullNumber: number,
+): Promise<CommandResult> {
+	const prMetadata = await extractPRMetadata(client, pullNumber);
+	const commitOptions = {
+		branch: prMetadata.headBranch,
+		symlink: config.symlink,
+		symlinkSource: getSymlinkSource(config),
+	};
+
+	if (
+		(command.name === "apply-all" || command.name === "revert-all") &&
+		!canPushToPRHead(prMetadata)
+	) {
+		return {
+			success: false,
+			message: `The PR head branch lives in ${prMetadata.headRepo ?? "a deleted fork"}, which the action cannot push to. Apply the suggestions by hand instead.`,
+		};
+	}
+
+	switch (command.name) {
+		case "apply-all": {
+			const result = await applyAllSuggestions(
+				client,
+				pullNumber,
+				prMetadata.headSha,
+				commitOptions,
+			);
+			// Suggestions may have landed even if others failed
+			await exportDerivedRuleFiles(client, config, prMetadata.headBranch);
+			return result;
+		}
+
+		case "revert-all": {
+			// File-level reverts read the applied commits' parents
+			await validateAndFailOnInsufficientHistory();
+			const result = await revertAllSuggestions(
+				client,
+				pullNumber,
+				commitOptions,
+			);
+			// Reverts may have landed even if others failed
+			await exportDerivedRuleFiles(client, config, prMetadata.headBranch);
+			return result;
+		}
+
+		case "skip":
+			return skipPendingSuggestions(client, pullNumber);
+
+		case "explain": {
+			const ref = prMetadata.headSha;
+			const source = await createRepositorySource(client, ref);
+			const hierarchies = buildHierarchies(
+				await detectIntentLayer(source, ref),
+			);
+			const ignoreText = await source
+				.readFile(".intentlayerignore", ref)
+				.catch(() => undefined);
+			const directoryConfigs = await loadDirectoryConfigs(
+				await source.listTree(ref),
+				(path) => source.readFile(path, ref),
+			);
+			return explainFileCoverage(
+				command.filePath,
+				getAnalyzedFileTypes(config).map((fileType) => hierarchies[fileType]),
+				applyDirectoryIgnores(
+					ignoreText ? parseIntentLayerIgnore(ignoreText) : undefined,
+					directoryConfigs,
+				),
+			);
+		}
+
+		case "regenerate": {
+			// Suggestions are regenerated as comments, whatever the output mode
+			const report = await runAnalyzeMode(
+				client,
+				{ ...config, output: "pr_comments" },
+				{
+					pullNumber,
+					nodePaths: new Set([
+						command.nodePath,
+						getOtherNodePath(command.nodePath, getSymlinkedFileTypes(config)) ??
+							command.nodePath,
+					]),
+				},
+			);
+			if (report.skippedReason) {
+				return { success: true, message: report.skippedReason };
+			}
+			return {
+				success: true,
+				message:
+					report.updates.length === 0
+						? `No changes suggested for \`${command.nodePath}\`.`
+						: `Regenerated the suggestion for ${report.updates.map((u) => `\`${u.nodePath}\``).join(", ")}.`,
+			};
+		}
+	}
+}
+
+/**
+ * Run the audit mode to check every intent node on the default branch.
+ *
+ * Stale nodes and uncovered hotspots are always reported. With
+ * `output: new_pr`, the LLM is asked to refresh them and the updates are
+ * opened as a single PR against the default branch.
+ *
+ * @returns Report of the audit findings and the refresh PR
+ */
+async function runAuditMode(
+	client: GitHubClient,
+	config: ActionInputs,
+): Promise<AuditReport> {
+	const report = createAuditReport(config.output);
+
+	// Step 1: Resolve the default branch head
+	const baseBranch = await client.getDefaultBranch();
+	const ref = (await client.getRef(`heads/${baseBranch}`)).object.sha;
+	report.headSha = ref;
+	core.info(`Auditing intent layer on ${baseBranch} at ${ref.substring(0, 7)}`);
+
+	// Step 2: Detect the intent layer and load ignore patterns and directory
+	// configuration overrides
+	const source = await createRepositorySource(client, ref);
+	const detectionResult = await detectIntentLayer(source, ref);
+	const ignoreText = await source
+		.readFile(".intentlayerignore", ref)
+		.catch(() => undefined);
+	const directoryConfigs = await loadDirectoryConfigs(
+		await source.listTree(ref),
+		(path) => source.readFile(path, ref),
+	);
+	const ignore = applyDirectoryIgnores(
+		ignoreText ? parseIntentLayerIgnore(ignoreText) : undefined,
+		directoryConfigs,
+	);
+
+	// Step 3: Audit every node of each managed file type
+	const hierarchies = buildHierarchies(detectionResult);
+	const auditedHierarchies = getAnalyzedFileTypes(config).map(
+		(fileType) => hierarchies[fileType],
+	);
+	report.audits = await auditRepository(
+		source,
+		auditedHierarchies,
+		ref,
+		{
+			budgetThresholdPercent: config.token_budget_percent,
+			nodeBudgetThresholds: getNodeBudgetThresholds(
+				auditedHierarchies,
+				config,
+				directoryConfigs,
+			),
+			stalenessThreshold: config.staleness_threshold,
+			tokenCountOptions: {
+				skipBinaryFiles: config.skip_binary_files,
+				fileMaxLines: config.file_max_lines,
+			},
+		},
+		ignore,
+	);
+	for (const audit of report.audits) {
+		core.info(
+			`${audit.hierarchy.fileType}: audited ${audit.budget.totalNodes} nodes, found ${audit.staleNodes.length} stale nodes and ${audit.hotspots.length} uncovered hotspots`,
+		);
+	}
+
+	const auditsWithFindings = report.audits.filter(hasAuditFindings);
+	if (auditsWithFindings.length === 0) {
+		core.info("No stale intent nodes or uncovered hotspots found.");
+		return report;
+	}
+	if (config.output !== "new_pr") {
+		core.info("Set output: new_pr to open a refresh PR for these findings.");
+		return report;
+	}
+
+	// Step 4: Ask the LLM to refresh the flagged nodes
+	let opencodeResult: OpenCodeClientResult;
+	try {
+		opencodeResult = await createOpenCodeClientFromModel(config.model);
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	}
+
+	try {
+		const session = await createSessionFromModelString(
+			opencodeResult.client,
+			buildAuditSessionTitle(client.repo.repo),
+			config.model,
+			config.session_timeout_ms,
+			config.output_repair_attempts,
+			config.context_window_tokens,
+		);
+		const promptResolver = createAnalysisPromptResolver(
+			config,
+			directoryConfigs,
+		);
+
+		let updates: IntentUpdate[] = [];
+		for (const audit of auditsWithFindings) {
+			updates = [
+				...updates,
+				...(await requestAuditUpdates(
+					session,
+					audit,
+					config,
+					promptResolver,
+					directoryConfigs,
+				)),
+			];
+		}
+		await session.delete();
+
+		if (updates.length === 0) {
+			core.info("LLM audit complete: No updates suggested.");
+			return report;
+		}
+		report.updates = assignOtherNodePaths(updates, config);
+
+		// Step 5: Open one refresh PR against the default branch
+		const branchResult = await createAuditBranch(client, ref);
+		core.info(`Created branch ${branchResult.branchName}`);
+
+		const commitResult = await applyUpdatesToBranch(client, report.updates, {
+			branch: branchResult.branchName,
+			symlink: config.symlink,
+			symlinkSource: getSymlinkSource(config),
+			expectedHeadSha: branchResult.sha,
+		});
+		if (commitResult.commit) {
+			report.commitShas.push(commitResult.commit.sha);
+		}
+		if (commitResult.appliedCount === 0) {
+			core.warning(
+				`No updates were applied to the refresh branch${commitResult.errors.length > 0 ? `. Errors:\n${commitResult.errors.map((e) => `  - ${e.update.nodePath}: ${e.error}`).join("\n")}` : ""}`,
+			);
+			return report;
+		}
+
+		const exportSha = await exportDerivedRuleFiles(
+			client,
+			config,
+			branchResult.branchName,
+		);
+		if (exportSha) {
+			report.commitShas.push(exportSha);
+		}
+
+		const prResult = await openIntentLayerPullRequest(client, {
+			baseBranch,
+			headBranch: branchResult.branchName,
+			title: generateAuditPRTitle(),
+			body: generateAuditPRBody(formatAuditReport(report.audits)),
+		});
+		core.info(
+			`Created intent layer refresh PR #${prResult.number}: ${prResult.url}`,
+		);
+		report.pullRequest = { number: prResult.number, url: prResult.url };
+		return report;
+	} finally {
+		opencodeResult.server.close();
+	}
+}
+
 /**
  * Main entry point for the GitHub Action.
  */
 async function run(): Promise<void> {
 	try {
-		// Parse and validate inputs
+		// Create GitHub client
+		const client = createGitHubClient();
+
+		// Parse and validate inputs over the repository's configuration file
 		const rawInputs = getActionInputs();
-		const config = parseActionInputs(rawInputs);
+		const configFile = await loadRepositoryConfigFile(client);
+		const config = parseActionInputs(rawInputs, configFile?.settings);
 
 		core.info(`Running Intent Layer Action in ${config.mode} mode`);
 		core.debug(`Configuration: ${JSON.stringify(config, null, 2)}`);
 
-		// Create GitHub client
-		const client = createGitHubClient();
-
 		// Route based on mode
 		switch (config.mode) {
-			case "analyze":
-				await runAnalyzeMode(client, config);
+			case "analyze": {
+				const report = await runAnalyzeMode(client, config);
+				if (report.output === "check" && report.headSha) {
+					const checkRun = await publishCheckRun(
+						client,
+						report,
+						config.check_conclusion,
+					);
+					report.checkRun = { id: checkRun.id, url: checkRun.url };
+					core.info(
+						`Created check run with conclusion ${checkRun.conclusion} and ${checkRun.annotationCount} annotations: ${checkRun.url}`,
+					);
+				}
+				setActionOutputs(report);
+				await writeJobSummary(report);
 				break;
+			}
 
 			case "checkbox-handler":
 				await runCheckboxHandlerMode(client, config);
 				break;
 
+			case "command-handler":
+				await runCommandHandlerMode(client, config);
+				break;
+
+			case "audit": {
+				const report = await runAuditMode(client, config);
+				setAuditOutputs(report);
+				await writeAuditJobSummary(report);
+				break;
+			}
+
 			default:
 				core.setFailed(`Unknown mode: ${config.mode}`);
 		}
 	} catch (error) {
+		if (error instanceof ConfigFileError) {
+			annotateConfigFileError(error);
+		}
 		if (error instanceof Error) {
 			core.setFailed(error.message);
 			if (error.stack) {
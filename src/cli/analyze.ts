@@ -0,0 +1,211 @@
+/**
+ * Local Analyze Command
+ *
+ * Runs the intent layer analysis pipeline against a local git repository:
+ * detects the intent layer at the head ref, maps the changes between base
+ * and head onto it, prompts the LLM, and either returns the proposed diffs
+ * or writes the updates into the working tree.
+ */
+
+import { basename } from "node:path";
+import * as core from "@actions/core";
+import type { ActionInputs } from "../config/schema";
+import type { PRCommit, PRDiff, PRMetadata } from "../github/context";
+import { isPRTooLarge } from "../github/context";
+import {
+	finalizeAnalysisUpdates,
+	getSymlinkSource,
+	planAnalysis,
+	requestAnalysisUpdates,
+} from "../intent/pipeline";
+import { LocalGitRepository } from "../local/git";
+import { writeUpdatesToWorkingTree } from "../local/workspace";
+import type { IntentUpdate } from "../opencode/output-schema";
+import type { PRContext } from "../opencode/prompts";
+import { generateDiffForUpdate } from "../utils/diff";
+
+/**
+ * Options for a local analysis run.
+ */
+export interface LocalAnalysisOptions {
+	/** Directory inside the repository to analyze */
+	cwd: string;
+	/** Ref the changes are compared against */
+	base: string;
+	/** Ref containing the changes */
+	head: string;
+	/** Whether to write updates to the working tree */
+	write: boolean;
+	/** Parsed configuration */
+	config: ActionInputs;
+}
+
+/**
+ * Result of a local analysis run.
+ */
+export interface LocalAnalysisResult {
+	/** Updates proposed by the LLM, with deterministic reference fixes */
+	updates: IntentUpdate[];
+	/** Unified diff for each update, in the same order */
+	diffs: string[];
+	/** Paths written or removed (empty unless writing) */
+	writtenPaths: string[];
+	/** Why no analysis was run, when it was skipped */
+	skippedReason?: string;
+}
+
+/**
+ * Build PR-shaped metadata for a local range of commits.
+ *
+ * There is no pull request, so the number is 0 and the title comes from the
+ * single commit's subject or, for several commits, the range itself.
+ *
+ * @param repoName - Repository name, used for display
+ * @param base - Base ref as given by the user
+ * @param head - Head ref as given by the user
+ * @param baseSha - Merge base of base and head
+ * @param headSha - Resolved head SHA
+ * @param commits - Commits in the range, oldest first
+ * @param diff - Changes in the range
+ * @returns Metadata describing the range as if it were a pull request
+ */
+export function buildLocalPRMetadata(
+	repoName: string,
+	base: string,
+	head: string,
+	baseSha: string,
+	headSha: string,
+	commits: PRCommit[],
+	diff: PRDiff,
+): PRMetadata {
+	const [firstCommit] = commits;
+	const lastCommit = commits[commits.length - 1];
+	const [subject = "", ...bodyLines] = (firstCommit?.message ?? "").split("\n");
+	const body = bodyLines.join("\n").trim();
+	const singleCommit = commits.length === 1;
+
+	return {
+		number: 0,
+		title: singleCommit ? subject : `${repoName}: ${base}...${head}`,
+		description: singleCommit && body ? body : null,
+		labels: [],
+		author: {
+			login: lastCommit?.author.name ?? "",
+			id: 0,
+			avatarUrl: "",
+			isBot: false,
+		},
+		state: "open",
+		isDraft: false,
+		merged: false,
+		baseBranch: base,
+		headBranch: head,
+		headSha,
+		headRepo: repoName,
+		isFork: false,
+		baseSha,
+		createdAt: firstCommit?.author.date ?? "",
+		updatedAt: lastCommit?.committer.date ?? "",
+		commitsCount: commits.length,
+		changedFilesCount: diff.summary.totalFiles,
+		additions: diff.summary.totalAdditions,
+		deletions: diff.summary.totalDeletions,
+		url: "",
+	};
+}
+
+/**
+ * Analyze a local range of commits and propose intent layer updates.
+ *
+ * @param options - Refs, working directory, and configuration
+ * @returns Proposed updates with their diffs
+ * @throws {LocalGitError} If the repository or refs cannot be read
+ * @throws {SymlinkConfigError} If the symlink setting does not match the repository
+ * @throws {UnsafeUpdatePathError} If an update to write is not an intent file in the repository
+ */
+export async function runLocalAnalysis(
+	options: LocalAnalysisOptions,
+): Promise<LocalAnalysisResult> {
+	const { config } = options;
+	const repo = await LocalGitRepository.open(options.cwd);
+	const repoName = basename(repo.root);
+
+	const headSha = await repo.resolveRef(options.head);
+	const baseSha = await repo.getMergeBase(options.base, headSha);
+
+	const [diff, commits] = await Promise.all([
+		repo.getDiff(baseSha, headSha),
+		repo.getCommits(baseSha, headSha),
+	]);
+	const prMetadata = buildLocalPRMetadata(
+		repoName,
+		options.base,
+		options.head,
+		baseSha,
+		headSha,
+		commits,
+		diff,
+	);
+
+	const skipped = (reason: string): LocalAnalysisResult => ({
+		updates: [],
+		diffs: [],
+		writtenPaths: [],
+		skippedReason: reason,
+	});
+
+	const sizeCheck = isPRTooLarge(prMetadata, config.max_pr_lines_changed);
+	if (sizeCheck.isTooLarge) {
+		core.info(sizeCheck.message);
+		core.info("Analyzing these changes in per-node chunks.");
+	}
+
+	// Detect the intent layer at the head ref and plan the analysis
+	const plan = await planAnalysis(repo, headSha, baseSha, diff, config);
+	const { analyses, lint, moves } = plan;
+
+	if (analyses.length === 0 && lint.fixes.length === 0 && moves.length === 0) {
+		return skipped("No intent layer updates needed for these changes.");
+	}
+
+	const prContext: PRContext = {
+		metadata: prMetadata,
+		commits,
+		linkedIssues: [],
+		reviewComments: [],
+		changedFiles: diff.files,
+	};
+	let updates: IntentUpdate[] = [];
+	if (analyses.length > 0) {
+		const result = await requestAnalysisUpdates(
+			repo,
+			plan,
+			prContext,
+			headSha,
+			config,
+			{
+				sessionTitle: `Intent Layer Analysis for ${prMetadata.title} (${repoName})`,
+				chunked: sizeCheck.isTooLarge,
+			},
+		);
+		updates = result.updates;
+	}
+
+	const processedUpdates = finalizeAnalysisUpdates(
+		updates,
+		plan,
+		diff.files,
+		config,
+	);
+	const diffs = processedUpdates.map(
+		(update) => generateDiffForUpdate(update).unifiedDiff,
+	);
+	const writtenPaths = options.write
+		? await writeUpdatesToWorkingTree(repo.root, processedUpdates, {
+				symlink: config.symlink,
+				symlinkSource: getSymlinkSource(config),
+			})
+		: [];
+
+	return { updates: processedUpdates, diffs, writtenPaths };
+}
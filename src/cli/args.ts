@@ -0,0 +1,160 @@
+/**
+ * CLI Argument Parsing
+ *
+ * Parses `intent-layer` command line arguments. Configuration flags mirror
+ * the action inputs (`--token-budget-percent` maps to `token_budget_percent`)
+ * so the same values can be validated with parseActionInputs.
+ */
+
+import { parseArgs } from "node:util";
+
+/**
+ * Usage text printed for --help and on argument errors.
+ */
+export const CLI_USAGE = `Usage: intent-layer analyze --base <ref> [--head <ref>] [--write] [options]
+
+Analyze the changes between two refs of the local git repository and propose
+intent layer (AGENTS.md / CLAUDE.md) updates.
+
+Options:
+  --base <ref>                  Ref the changes are compared against (required)
+  --head <ref>                  Ref containing the changes (default: HEAD)
+  --write                       Write updates to the working tree instead of printing diffs
+  --model <provider/model>      LLM model to use
+  --files <kinds>               Intent file kinds to manage, comma-separated
+                                (agents, claude, gemini, copilot, cursor, both)
+  --symlink <true|false>        Symlink the two managed symlinkable kinds together
+  --symlink-source <kind>
+  --new-nodes <true|false>      Allow creating new intent nodes
+  --split-large-nodes <true|false>
+  --token-budget-percent <n>
+  --skip-binary-files <true|false>
+  --file-max-lines <n>
+  --staleness-threshold <n>     Staleness score at which node drift is flagged (0 disables)
+  --prompts <yaml>              Pattern-matched prompts
+  -h, --help                    Show this help`;
+
+/**
+ * Action inputs that can be set from the command line.
+ */
+const CONFIG_FLAGS = [
+	"model",
+	"files",
+	"symlink",
+	"symlink-source",
+	"new-nodes",
+	"split-large-nodes",
+	"token-budget-percent",
+	"skip-binary-files",
+	"file-max-lines",
+	"staleness-threshold",
+	"prompts",
+] as const;
+
+/**
+ * Parsed `intent-layer analyze` arguments.
+ */
+export interface CliAnalyzeArgs {
+	/** Subcommand to run */
+	command: "analyze";
+	/** Ref the changes are compared against */
+	base: string;
+	/** Ref containing the changes */
+	head: string;
+	/** Whether to write updates to the working tree instead of printing diffs */
+	write: boolean;
+	/** Raw configuration inputs, keyed by action input name */
+	inputs: Record<string, string | undefined>;
+}
+
+/**
+ * Result of parsing CLI arguments.
+ */
+export type CliArgs = CliAnalyzeArgs | { command: "help" };
+
+/**
+ * Error thrown for invalid command line usage.
+ */
+export class CliUsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CliUsageError";
+	}
+}
+
+/**
+ * Parse command line arguments.
+ *
+ * @param argv - Arguments after the executable and script path
+ * @returns Parsed command
+ * @throws {CliUsageError} If the command or flags are invalid
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+	let parsed: ReturnType<typeof parseCommandLine>;
+	try {
+		parsed = parseCommandLine(argv);
+	} catch (error) {
+		throw new CliUsageError(
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+
+	const { values, positionals } = parsed;
+	if (values.help) {
+		return { command: "help" };
+	}
+
+	const [command, ...extra] = positionals;
+	if (command !== "analyze") {
+		throw new CliUsageError(
+			command ? `Unknown command: ${command}` : "Missing command",
+		);
+	}
+	if (extra.length > 0) {
+		throw new CliUsageError(`Unexpected argument: ${extra[0]}`);
+	}
+	if (!values.base) {
+		throw new CliUsageError("--base is required");
+	}
+
+	const inputs: Record<string, string | undefined> = {};
+	for (const flag of CONFIG_FLAGS) {
+		inputs[flag.replaceAll("-", "_")] = values[flag];
+	}
+
+	return {
+		command,
+		base: values.base,
+		head: values.head ?? "HEAD",
+		write: values.write ?? false,
+		inputs,
+	};
+}
+
+/**
+ * Run node's argument parser with the CLI's flag definitions.
+ */
+function parseCommandLine(argv: string[]) {
+	return parseArgs({
+		args: argv,
+		allowPositionals: true,
+		strict: true,
+		options: {
+			base: { type: "string" },
+			head: { type: "string" },
+			write: { type: "boolean" },
+			help: { type: "boolean", short: "h" },
+			model: { type: "string" },
+			files: { type: "string" },
+			symlink: { type: "string" },
+			"symlink-source": { type: "string" },
+			"new-nodes": { type: "string" },
+			"split-large-nodes": { type: "string" },
+			"token-budget-percent": { type: "string" },
+			"skip-binary-files": { type: "string" },
+			"file-max-lines": { type: "string" },
+			"staleness-threshold": { type: "string" },
+			prompts: { type: "string" },
+		},
+	});
+}
@@ -1,4 +1,5 @@
-import type { Files, Mode, Output, SymlinkSource } from "./schema";
+import type { IntentFileType } from "../intent/kinds";
+import type { CheckConclusion, Mode, Output, SymlinkSource } from "./schema";
 
 /**
  * Default configuration values for the Intent Layer GitHub Action.
@@ -12,8 +13,8 @@ export const DEFAULTS = {
 	/** Default model to use (provider/model format) */
 	model: "anthropic/claude-sonnet-4-20250514",
 
-	/** Default file management mode */
-	files: "agents" as Files,
+	/** Default intent file kinds to manage */
+	files: "agents" as IntentFileType,
 
 	/** Default symlink setting */
 	symlink: false,
@@ -21,9 +22,15 @@ export const DEFAULTS = {
 	/** Default symlink source of truth */
 	symlinkSource: "agents" as SymlinkSource,
 
+	/** Default derived rule files to export (none) */
+	exportTargets: "",
+
 	/** Default output mode */
 	output: "pr_comments" as Output,
 
+	/** Default check run conclusion when intent nodes need updates */
+	checkConclusion: "failure" as CheckConclusion,
+
 	/** Default new node creation setting */
 	newNodes: true,
 
@@ -38,10 +45,85 @@ export const DEFAULTS = {
 
 	/** Default maximum file lines to process */
 	fileMaxLines: 8000,
+
+	/** Default staleness score at which a node's drift is flagged */
+	stalenessThreshold: 10,
+
+	/** Default thresholds for suggesting new semantic boundaries */
+	boundaryThresholds: {
+		/** Minimum files in a directory to suggest a new node */
+		minFilesForNode: 3,
+		/** Minimum total changes (additions + deletions) to suggest a new node */
+		minChangesForNode: 50,
+		/** Confidence boost for directories with "standard" names */
+		standardDirConfidenceBoost: 0.2,
+		/** Confidence boost for directories at common package boundaries */
+		packageBoundaryConfidenceBoost: 0.15,
+		/** Base confidence for any candidate */
+		baseConfidence: 0.3,
+		/** Confidence boost per additional file (capped) */
+		perFileConfidenceBoost: 0.05,
+		/** Maximum confidence from file count */
+		maxFileCountConfidence: 0.3,
+		/** Minimum confidence for package roots declared by workspace manifests */
+		workspacePackageConfidence: 0.9,
+	},
+
+	/** Default directory names that commonly represent semantic boundaries */
+	standardBoundaryDirs: [
+		"src",
+		"lib",
+		"packages",
+		"apps",
+		"services",
+		"components",
+		"modules",
+		"api",
+		"web",
+		"core",
+		"utils",
+		"shared",
+		"common",
+		"features",
+		"pages",
+		"routes",
+		"handlers",
+		"controllers",
+		"models",
+		"views",
+		"tests",
+		"test",
+		"__tests__",
+		"spec",
+		"e2e",
+		"integration",
+	],
+
+	/** Default maximum lines changed in a PR before it is analyzed in chunks */
+	maxPrLinesChanged: 100_000,
+
+	/** Default number of node prompts run at once when analyzing in chunks */
+	analysisConcurrency: 4,
+
+	/** Default context window in tokens (0 uses the window OpenCode reports for the model) */
+	contextWindowTokens: 0,
+
+	/** Default checkbox debounce delay in milliseconds */
+	debounceDelayMs: 1500,
+
+	/** Default maximum patch lines per changed file in prompts */
+	maxPatchLines: 100,
+
+	/** Default time to wait for an LLM response in milliseconds */
+	sessionTimeoutMs: 300_000,
+
+	/** Default number of times an invalid LLM response is sent back for repair */
+	outputRepairAttempts: 2,
 } as const;
 
 /**
- * Maximum lines changed in a PR before skipping analysis entirely.
- * PRs exceeding this threshold exit early with an informational message.
+ * Maximum lines changed in a PR before it is analyzed in chunks.
+ * PRs exceeding this threshold get one prompt per affected node instead of a
+ * single prompt covering every change.
  */
-export const MAX_PR_LINES_CHANGED = 100_000;
+export const MAX_PR_LINES_CHANGED = DEFAULTS.maxPrLinesChanged;
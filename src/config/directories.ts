@@ -0,0 +1,214 @@
+/**
+ * Directory Configuration
+ *
+ * Loads `.intentlayer.yml` files below the repository root, which override
+ * analysis settings for their directory's subtree (e.g. one package of a
+ * monorepo). Each setting comes from the nearest ancestor directory that sets
+ * it, the same way a file's covering node is the nearest ancestor node.
+ *
+ * Directory files are read at the analyzed ref, like `.intentlayerignore`,
+ * and only hold settings that tune the analysis. Settings that control where
+ * updates go or which model runs stay in the root configuration.
+ */
+
+import { z } from "zod";
+import { IntentLayerIgnore } from "../patterns/ignore";
+import type { RepositoryTreeEntry } from "../repository/source";
+import { parseConfigFile } from "./file";
+import {
+	type ActionInputs,
+	type PromptConfig,
+	PromptConfigSchema,
+} from "./schema";
+
+/**
+ * File name of directory configuration files.
+ */
+export const DIRECTORY_CONFIG_FILENAME = ".intentlayer.yml";
+
+/**
+ * Schema for a directory configuration file.
+ *
+ * Prompt and ignore patterns are relative to the file's directory.
+ */
+export const DirectoryConfigSchema = z
+	.object({
+		/** Max token budget as percentage of covered code */
+		token_budget_percent: z.number().optional(),
+		/** Allow new node creation */
+		new_nodes: z.boolean().optional(),
+		/** Pattern-matched custom prompts */
+		prompts: z.array(PromptConfigSchema).optional(),
+		/** Gitignore-style patterns excluded from analysis */
+		ignore: z.array(z.string()).optional(),
+	})
+	.strict();
+export type DirectorySettings = z.infer<typeof DirectoryConfigSchema>;
+
+/**
+ * Settings overridden for a directory's subtree.
+ */
+export interface DirectoryConfig {
+	/** Directory the settings apply to */
+	directory: string;
+	/** Path of the configuration file */
+	path: string;
+	/** Settings in the file */
+	settings: DirectorySettings;
+}
+
+/**
+ * Settings in effect for a directory.
+ */
+export interface EffectiveConfig {
+	/** Action settings with directory overrides applied */
+	config: ActionInputs;
+	/** Directory configuration files that apply, from shallowest to deepest */
+	sources: string[];
+	/** Prompts from directory configuration files, with repository-relative patterns */
+	prompts: PromptConfig[];
+	/** Ignore patterns from directory configuration files, relative to the repository root */
+	ignore: string[];
+}
+
+/**
+ * Load every directory configuration file in a tree.
+ *
+ * @param entries - Recursive tree listing
+ * @param readFile - Reads a file from the repository, or undefined if missing
+ * @returns Directory configurations, shallowest first
+ * @throws {ConfigFileError} If a file is not valid YAML or has invalid settings
+ */
+export async function loadDirectoryConfigs(
+	entries: RepositoryTreeEntry[],
+	readFile: (path: string) => Promise<string | undefined>,
+): Promise<DirectoryConfig[]> {
+	const paths = entries
+		.filter(
+			(entry) =>
+				entry.type === "blob" &&
+				entry.path.endsWith(`/${DIRECTORY_CONFIG_FILENAME}`),
+		)
+		.map((entry) => entry.path)
+		.sort((a, b) => a.split("/").length - b.split("/").length);
+
+	const configs: DirectoryConfig[] = [];
+	for (const path of paths) {
+		const text = await readFile(path);
+		if (text === undefined) {
+			continue;
+		}
+		const file = parseConfigFile(path, text, DirectoryConfigSchema);
+		configs.push({
+			directory: path.slice(0, -DIRECTORY_CONFIG_FILENAME.length - 1),
+			path,
+			settings: DirectoryConfigSchema.parse(file.settings),
+		});
+	}
+	return configs;
+}
+
+/**
+ * Resolve the settings in effect for a directory.
+ *
+ * @param config - Settings from the action inputs and root configuration
+ * @param directoryConfigs - Directory configurations, shallowest first
+ * @param directory - Directory to resolve settings for
+ * @returns Settings with the overrides of the directory and its ancestors applied
+ */
+export function resolveDirectoryConfig(
+	config: ActionInputs,
+	directoryConfigs: DirectoryConfig[],
+	directory: string,
+): EffectiveConfig {
+	const effective: EffectiveConfig = {
+		config: { ...config },
+		sources: [],
+		prompts: [],
+		ignore: [],
+	};
+
+	for (const directoryConfig of directoryConfigs) {
+		if (!isWithinDirectory(directory, directoryConfig.directory)) {
+			continue;
+		}
+		const { settings } = directoryConfig;
+		effective.sources.push(directoryConfig.path);
+		if (settings.token_budget_percent !== undefined) {
+			effective.config.token_budget_percent = settings.token_budget_percent;
+		}
+		if (settings.new_nodes !== undefined) {
+			effective.config.new_nodes = settings.new_nodes;
+		}
+		effective.prompts.push(...getDirectoryPrompts([directoryConfig]));
+		effective.ignore.push(...getDirectoryIgnorePatterns(directoryConfig));
+	}
+
+	return effective;
+}
+
+/**
+ * Get the prompts of directory configurations, with patterns rewritten to be
+ * relative to the repository root.
+ *
+ * Prompts from a directory only match files below it, so they are more
+ * specific than root prompts with the same pattern.
+ *
+ * @param directoryConfigs - Directory configurations
+ * @returns Prompt configurations for the prompt resolver
+ */
+export function getDirectoryPrompts(
+	directoryConfigs: DirectoryConfig[],
+): PromptConfig[] {
+	return directoryConfigs.flatMap(({ directory, settings }) =>
+		(settings.prompts ?? []).map((prompt) => ({
+			...prompt,
+			pattern: `${directory}/${prompt.pattern.replace(/^\.?\//, "")}`,
+		})),
+	);
+}
+
+/**
+ * Add the ignore patterns of directory configurations to the ignore rules.
+ *
+ * @param ignore - Ignore rules from .intentlayerignore, if any
+ * @param directoryConfigs - Directory configurations
+ * @returns Ignore rules including directory patterns, or the original rules if there are none
+ */
+export function applyDirectoryIgnores(
+	ignore: IntentLayerIgnore | undefined,
+	directoryConfigs: DirectoryConfig[],
+): IntentLayerIgnore | undefined {
+	const patterns = directoryConfigs.flatMap(getDirectoryIgnorePatterns);
+	if (patterns.length === 0) {
+		return ignore;
+	}
+	return (ignore ?? new IntentLayerIgnore()).addPatterns(patterns);
+}
+
+/**
+ * Rewrite a directory's gitignore-style patterns relative to the repository
+ * root. Patterns without a slash match at any depth below the directory, and
+ * patterns with one are anchored to it.
+ */
+function getDirectoryIgnorePatterns({
+	directory,
+	settings,
+}: DirectoryConfig): string[] {
+	return (settings.ignore ?? []).map((raw) => {
+		const negated = raw.startsWith("!");
+		const pattern = negated ? raw.slice(1) : raw;
+		const anchored = pattern.replace(/\/$/, "").includes("/");
+		const rewritten = anchored
+			? `/${directory}/${pattern.replace(/^\//, "")}`
+			: `/${directory}/**/${pattern}`;
+		return negated ? `!${rewritten}` : rewritten;
+	});
+}
+
+/**
+ * Check whether a directory is the given directory or below it.
+ */
+function isWithinDirectory(directory: string, ancestor: string): boolean {
+	return directory === ancestor || directory.startsWith(`${ancestor}/`);
+}
@@ -0,0 +1,223 @@
+/**
+ * Repository Configuration File
+ *
+ * Loads action settings from a file committed to the repository, so they can
+ * be shared across workflows and written as plain YAML instead of strings
+ * embedded in workflow inputs. Inputs set in the workflow take precedence
+ * over the file, and the file takes precedence over the built-in defaults.
+ */
+
+import * as core from "@actions/core";
+import YAML, { isMap, isScalar, LineCounter, type Node } from "yaml";
+import type { z } from "zod";
+import { ActionInputsSchema, BoundaryThresholdsSchema } from "./schema";
+
+/**
+ * Paths checked for a configuration file, in order of precedence.
+ */
+export const CONFIG_FILE_PATHS = [
+	".github/intent-layer.yml",
+	".intentlayer.yml",
+] as const;
+
+/**
+ * Schema for the configuration file.
+ *
+ * Accepts every action input except `mode`, which belongs to the workflow
+ * that triggers the action, plus settings that have no action input. Unknown
+ * keys are rejected to catch typos.
+ */
+export const ConfigFileSchema = ActionInputsSchema.omit({ mode: true })
+	.extend({
+		boundary_thresholds: BoundaryThresholdsSchema.strict().prefault({}),
+	})
+	.strict();
+
+/**
+ * A configuration file read from the repository.
+ */
+export interface ConfigFile {
+	/** Path of the file in the repository */
+	path: string;
+	/** Settings in the file, as written (defaults are applied on merge) */
+	settings: Record<string, unknown>;
+}
+
+/**
+ * A problem with a setting in a configuration file.
+ */
+export interface ConfigFileIssue {
+	/** Dotted path of the setting, or undefined for the whole file */
+	key?: string;
+	/** 1-based line of the setting in the file */
+	line: number;
+	/** 1-based column of the setting in the file */
+	column: number;
+	/** Description of the problem */
+	message: string;
+}
+
+/**
+ * Error thrown when a configuration file is not valid YAML or has invalid
+ * settings.
+ */
+export class ConfigFileError extends Error {
+	public readonly path: string;
+	public readonly issues: ConfigFileIssue[];
+
+	constructor(path: string, issues: ConfigFileIssue[]) {
+		super(
+			[
+				`Invalid configuration in ${path}:`,
+				...issues.map((issue) => `  ${formatConfigFileIssue(path, issue)}`),
+			].join("\n"),
+		);
+		this.name = "ConfigFileError";
+		this.path = path;
+		this.issues = issues;
+	}
+}
+
+/**
+ * Parse and validate a configuration file.
+ *
+ * @param path - Path of the file, for error locations
+ * @param text - File content
+ * @param schema - Schema the settings must match (default: ConfigFileSchema)
+ * @returns The file's settings
+ * @throws {ConfigFileError} If the file is not valid YAML or has invalid settings
+ */
+export function parseConfigFile(
+	path: string,
+	text: string,
+	schema: z.ZodType = ConfigFileSchema,
+): ConfigFile {
+	const lineCounter = new LineCounter();
+	const document = YAML.parseDocument(text, { lineCounter });
+	const locate = (offset: number) => {
+		const { line, col } = lineCounter.linePos(offset);
+		return { line, column: col };
+	};
+
+	if (document.errors.length > 0) {
+		throw new ConfigFileError(
+			path,
+			document.errors.map((error) => ({
+				...locate(error.pos[0]),
+				message: error.message.split("\n")[0] ?? error.message,
+			})),
+		);
+	}
+
+	const settings: unknown = document.toJS() ?? {};
+	if (typeof settings !== "object" || Array.isArray(settings)) {
+		throw new ConfigFileError(path, [
+			{
+				...locate(document.contents?.range?.[0] ?? 0),
+				message: "Expected a mapping of settings",
+			},
+		]);
+	}
+
+	const result = schema.safeParse(settings);
+	if (!result.success) {
+		throw new ConfigFileError(
+			path,
+			result.error.issues.map((issue) => {
+				const keyPath =
+					issue.code === "unrecognized_keys"
+						? [...issue.path, ...issue.keys.slice(0, 1)]
+						: issue.path;
+				return {
+					key: keyPath.map(String).join("."),
+					...locate(findNodeOffset(document, issue)),
+					message: issue.message,
+				};
+			}),
+		);
+	}
+
+	return { path, settings: settings as Record<string, unknown> };
+}
+
+/**
+ * Load the first configuration file found in the repository.
+ *
+ * @param readFile - Reads a file from the repository, or undefined if missing
+ * @returns The configuration file, or undefined if the repository has none
+ * @throws {ConfigFileError} If the file is not valid YAML or has invalid settings
+ */
+export async function loadConfigFile(
+	readFile: (path: string) => Promise<string | undefined>,
+): Promise<ConfigFile | undefined> {
+	for (const path of CONFIG_FILE_PATHS) {
+		const text = await readFile(path);
+		if (text !== undefined) {
+			return parseConfigFile(path, text);
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Report configuration file issues as error annotations on the file.
+ *
+ * @param error - Error from parsing the configuration file
+ */
+export function annotateConfigFileError(error: ConfigFileError): void {
+	for (const issue of error.issues) {
+		core.error(issue.key ? `${issue.key}: ${issue.message}` : issue.message, {
+			title: "Invalid intent layer configuration",
+			file: error.path,
+			startLine: issue.line,
+			startColumn: issue.column,
+		});
+	}
+}
+
+/**
+ * Format an issue as `path:line:column: key: message`.
+ */
+function formatConfigFileIssue(path: string, issue: ConfigFileIssue): string {
+	const location = `${path}:${issue.line}:${issue.column}`;
+	return issue.key
+		? `${location}: ${issue.key}: ${issue.message}`
+		: `${location}: ${issue.message}`;
+}
+
+/**
+ * Find the offset of the YAML node an issue refers to.
+ *
+ * Points at the offending key for unknown keys, and otherwise at the deepest
+ * node along the issue's path that exists in the file.
+ */
+function findNodeOffset(
+	document: YAML.Document,
+	issue: z.core.$ZodIssue,
+): number {
+	const path = issue.path.map((segment) =>
+		typeof segment === "symbol" ? String(segment) : segment,
+	);
+
+	for (let length = path.length; length >= 0; length--) {
+		const node = document.getIn(path.slice(0, length), true) as
+			| Node
+			| undefined;
+		if (!node?.range) {
+			continue;
+		}
+		if (
+			length === path.length &&
+			issue.code === "unrecognized_keys" &&
+			isMap(node)
+		) {
+			const pair = node.items.find(
+				(item) => isScalar(item.key) && item.key.value === issue.keys[0],
+			);
+			const keyNode = pair?.key as Node | undefined;
+			return keyNode?.range?.[0] ?? node.range[0];
+		}
+		return node.range[0];
+	}
+	return 0;
+}
@@ -1,29 +1,102 @@
 import { z } from "zod";
+import {
+	INTENT_FILE_TYPES,
+	type IntentFileType,
+	isSymlinkableKind,
+} from "../intent/kinds";
 import { DEFAULTS } from "./defaults";
 
 /**
  * Operation mode for the action:
  * - analyze: Run LLM analysis on PR changes and output results
  * - checkbox-handler: Handle checkbox toggles in PR comments
+ * - command-handler: Handle `/intent-layer` commands and feedback replies in
+ *   PR comments
+ * - audit: Audit every intent node on the default branch (for scheduled runs)
  */
-export const ModeSchema = z.enum(["analyze", "checkbox-handler"]);
+export const ModeSchema = z.enum([
+	"analyze",
+	"checkbox-handler",
+	"command-handler",
+	"audit",
+]);
 export type Mode = z.infer<typeof ModeSchema>;
 
 /**
- * Which intent layer files to manage:
- * - agents: Only AGENTS.md files
- * - claude: Only CLAUDE.md files
- * - both: Both AGENTS.md and CLAUDE.md files
+ * A single intent file kind, or `both` for AGENTS.md and CLAUDE.md.
  */
-export const FilesSchema = z.enum(["agents", "claude", "both"]);
+const FilesEntrySchema = z.enum([...INTENT_FILE_TYPES, "both"]);
+
+/**
+ * Which intent layer files to manage, as a list of intent file kinds:
+ * - agents: AGENTS.md files
+ * - claude: CLAUDE.md files
+ * - gemini: GEMINI.md files
+ * - copilot: The .github/copilot-instructions.md file
+ * - cursor: .cursor/rules/*.mdc files
+ * - both: AGENTS.md and CLAUDE.md files
+ *
+ * Accepts a single kind, a comma-separated list, or an array, and parses to
+ * the list of kinds without duplicates.
+ */
+export const FilesSchema = z
+	.union([
+		z.string().transform((value) =>
+			value
+				.split(",")
+				.map((entry) => entry.trim())
+				.filter(Boolean),
+		),
+		z.array(z.string()),
+	])
+	.pipe(z.array(FilesEntrySchema).min(1))
+	.transform((entries): IntentFileType[] => [
+		...new Set(
+			entries.flatMap((entry): IntentFileType[] =>
+				entry === "both" ? ["agents", "claude"] : [entry],
+			),
+		),
+	]);
 export type Files = z.infer<typeof FilesSchema>;
 
 /**
- * Symlink source of truth when symlinking is enabled:
- * - agents: AGENTS.md is the source, CLAUDE.md is symlinked
- * - claude: CLAUDE.md is the source, AGENTS.md is symlinked
+ * Intent file kinds that can be exported from the intent hierarchy for tools
+ * that do not read nested AGENTS.md files.
+ */
+export const EXPORT_TARGETS = [
+	"copilot",
+	"cursor",
+] as const satisfies readonly IntentFileType[];
+
+/**
+ * Derived rule files to regenerate from the intent hierarchy whenever an
+ * intent commit lands:
+ * - copilot: A single .github/copilot-instructions.md
+ * - cursor: One .cursor/rules/*.mdc file per node, scoped by glob
+ *
+ * Accepts a comma-separated list or an array, and parses to the list of
+ * targets without duplicates. Empty disables exporting.
+ */
+export const ExportTargetsSchema = z
+	.union([
+		z.string().transform((value) =>
+			value
+				.split(",")
+				.map((entry) => entry.trim())
+				.filter(Boolean),
+		),
+		z.array(z.string()),
+	])
+	.pipe(z.array(z.enum(EXPORT_TARGETS)))
+	.transform((entries) => [...new Set(entries)]);
+export type ExportTarget = (typeof EXPORT_TARGETS)[number];
+
+/**
+ * Symlink source of truth when symlinking is enabled. The source kind's
+ * files hold the content and the other symlinkable kind's files link to
+ * them (e.g. agents: AGENTS.md is the source, CLAUDE.md is symlinked).
  */
-export const SymlinkSourceSchema = z.enum(["agents", "claude"]);
+export const SymlinkSourceSchema = z.enum(INTENT_FILE_TYPES);
 export type SymlinkSource = z.infer<typeof SymlinkSourceSchema>;
 
 /**
@@ -31,10 +104,24 @@ export type SymlinkSource = z.infer<typeof SymlinkSourceSchema>;
  * - pr_comments: Post per-node comments with approval checkboxes
  * - pr_commit: Apply all changes immediately in a single commit
  * - new_pr: Open a new PR with all proposed changes
+ * - check: Report proposed changes in a check run on the PR head
  */
-export const OutputSchema = z.enum(["pr_comments", "pr_commit", "new_pr"]);
+export const OutputSchema = z.enum([
+	"pr_comments",
+	"pr_commit",
+	"new_pr",
+	"check",
+]);
 export type Output = z.infer<typeof OutputSchema>;
 
+/**
+ * Check run conclusion when intent nodes need updates (output: check):
+ * - failure: Fail the check, blocking merges when the check is required
+ * - neutral: Report the updates without failing the check
+ */
+export const CheckConclusionSchema = z.enum(["failure", "neutral"]);
+export type CheckConclusion = z.infer<typeof CheckConclusionSchema>;
+
 /**
  * Schema for a single pattern-matched prompt configuration
  */
@@ -74,6 +161,45 @@ const numberFromString = z.union([z.number(), z.string()]).transform((val) => {
 	return parsed;
 });
 
+/**
+ * Schema for the thresholds used to suggest new semantic boundaries
+ */
+export const BoundaryThresholdsSchema = z.object({
+	/** Minimum files in a directory to suggest a new node */
+	min_files_for_node: numberFromString.default(
+		DEFAULTS.boundaryThresholds.minFilesForNode,
+	),
+	/** Minimum total changes (additions + deletions) to suggest a new node */
+	min_changes_for_node: numberFromString.default(
+		DEFAULTS.boundaryThresholds.minChangesForNode,
+	),
+	/** Confidence boost for directories with "standard" names */
+	standard_dir_confidence_boost: numberFromString.default(
+		DEFAULTS.boundaryThresholds.standardDirConfidenceBoost,
+	),
+	/** Confidence boost for directories at common package boundaries */
+	package_boundary_confidence_boost: numberFromString.default(
+		DEFAULTS.boundaryThresholds.packageBoundaryConfidenceBoost,
+	),
+	/** Base confidence for any candidate */
+	base_confidence: numberFromString.default(
+		DEFAULTS.boundaryThresholds.baseConfidence,
+	),
+	/** Confidence boost per additional file (capped) */
+	per_file_confidence_boost: numberFromString.default(
+		DEFAULTS.boundaryThresholds.perFileConfidenceBoost,
+	),
+	/** Maximum confidence from file count */
+	max_file_count_confidence: numberFromString.default(
+		DEFAULTS.boundaryThresholds.maxFileCountConfidence,
+	),
+	/** Minimum confidence for package roots declared by workspace manifests */
+	workspace_package_confidence: numberFromString.default(
+		DEFAULTS.boundaryThresholds.workspacePackageConfidence,
+	),
+});
+export type BoundaryThresholdsConfig = z.infer<typeof BoundaryThresholdsSchema>;
+
 /**
  * Schema for pattern-matched prompts input (YAML string or parsed array)
  * Returns: PromptConfig[] if empty/whitespace string or array provided
@@ -105,17 +231,23 @@ export const ActionInputsSchema = z.object({
 	model: z.string().default(DEFAULTS.model),
 
 	/** Which files to manage */
-	files: FilesSchema.default(DEFAULTS.files),
+	files: FilesSchema.prefault(DEFAULTS.files),
 
-	/** Create symlinks between AGENTS.md and CLAUDE.md */
+	/** Create symlinks between the two managed symlinkable kinds */
 	symlink: booleanFromString.default(DEFAULTS.symlink),
 
 	/** Which file is source of truth when symlinking */
 	symlink_source: SymlinkSourceSchema.default(DEFAULTS.symlinkSource),
 
+	/** Derived rule files to regenerate from the intent hierarchy */
+	export_targets: ExportTargetsSchema.prefault(DEFAULTS.exportTargets),
+
 	/** Output mode for analyze results */
 	output: OutputSchema.default(DEFAULTS.output),
 
+	/** Check run conclusion when intent nodes need updates */
+	check_conclusion: CheckConclusionSchema.default(DEFAULTS.checkConclusion),
+
 	/** Allow new node creation */
 	new_nodes: booleanFromString.default(DEFAULTS.newNodes),
 
@@ -131,8 +263,42 @@ export const ActionInputsSchema = z.object({
 	/** Skip token counting for files exceeding this many lines */
 	file_max_lines: numberFromString.default(DEFAULTS.fileMaxLines),
 
+	/** Staleness score at which a node's drift is flagged (0 disables) */
+	staleness_threshold: numberFromString.default(DEFAULTS.stalenessThreshold),
+
 	/** Pattern-matched custom prompts (YAML string or parsed array) */
 	prompts: promptsFromInput.optional(),
+
+	/** Thresholds for suggesting new semantic boundaries */
+	boundary_thresholds: BoundaryThresholdsSchema.prefault({}),
+
+	/** Directory names that get a confidence boost as semantic boundaries */
+	standard_boundary_dirs: z
+		.array(z.string())
+		.default(() => [...DEFAULTS.standardBoundaryDirs]),
+
+	/** Maximum lines changed in a PR before it is analyzed in chunks */
+	max_pr_lines_changed: numberFromString.default(DEFAULTS.maxPrLinesChanged),
+
+	/** Node prompts run at once when a PR is analyzed in chunks */
+	analysis_concurrency: numberFromString.default(DEFAULTS.analysisConcurrency),
+
+	/** Context window prompts are fit into (0 for the model's own) */
+	context_window_tokens: numberFromString.default(DEFAULTS.contextWindowTokens),
+
+	/** Checkbox debounce delay in milliseconds */
+	debounce_delay_ms: numberFromString.default(DEFAULTS.debounceDelayMs),
+
+	/** Maximum patch lines per changed file in prompts */
+	max_patch_lines: numberFromString.default(DEFAULTS.maxPatchLines),
+
+	/** Time to wait for an LLM response in milliseconds */
+	session_timeout_ms: numberFromString.default(DEFAULTS.sessionTimeoutMs),
+
+	/** Times an LLM response that fails validation is sent back for repair */
+	output_repair_attempts: numberFromString.default(
+		DEFAULTS.outputRepairAttempts,
+	),
 });
 
 export type ActionInputs = z.infer<typeof ActionInputsSchema>;
@@ -140,10 +306,12 @@ export type ActionInputs = z.infer<typeof ActionInputsSchema>;
 /**
  * Parse and validate action inputs with defaults applied
  * @param rawInputs - Raw inputs from GitHub Action (all strings)
+ * @param fileSettings - Settings from a configuration file, overridden by inputs that are set
  * @returns Validated and typed action inputs
  */
 export function parseActionInputs(
 	rawInputs: Record<string, string | undefined>,
+	fileSettings: Record<string, unknown> = {},
 ): ActionInputs {
 	// Filter out undefined values and let Zod apply defaults
 	const filtered: Record<string, string> = {};
@@ -153,5 +321,35 @@ export function parseActionInputs(
 		}
 	}
 
-	return ActionInputsSchema.parse(filtered);
+	const inputs = ActionInputsSchema.parse({ ...fileSettings, ...filtered });
+
+	// Symlinks pair exactly two kinds, so more would be ambiguous
+	const symlinkable = inputs.files.filter(isSymlinkableKind);
+	if (inputs.symlink && symlinkable.length > 2) {
+		throw new z.ZodError([
+			{
+				code: "custom",
+				path: ["symlink"],
+				message: `symlink pairs two kinds of intent file, but ${symlinkable.length} symlinkable kinds are managed (${symlinkable.join(", ")})`,
+				input: inputs.symlink,
+			},
+		]);
+	}
+
+	// An exported kind is generated, so it cannot also be maintained directly
+	const managedTargets = inputs.export_targets.filter((target) =>
+		inputs.files.includes(target),
+	);
+	if (managedTargets.length > 0) {
+		throw new z.ZodError([
+			{
+				code: "custom",
+				path: ["export_targets"],
+				message: `export_targets cannot include kinds that are also managed in files (${managedTargets.join(", ")})`,
+				input: inputs.export_targets,
+			},
+		]);
+	}
+
+	return inputs;
 }
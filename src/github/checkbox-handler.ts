@@ -9,6 +9,7 @@
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
 import * as core from "@actions/core";
+import { DEFAULTS } from "../config/defaults.js";
 import type { SymlinkSource } from "../config/schema.js";
 import type { IntentUpdate } from "../opencode/output-schema.js";
 import type { GitHubClient } from "./client.js";
@@ -23,11 +24,14 @@ import {
 	isCheckboxChecked,
 	markCommentAsResolved,
 	parseCommentMarker,
+	parseContentPayload,
+	stripContentPayload,
 	updateCommentMarkerWithCommit,
 } from "./comments.js";
 import {
 	type CommitResult,
 	createIntentAddCommit,
+	createIntentDeleteCommit,
 	createIntentRevertCommit,
 	createIntentUpdateCommit,
 	getFileSha,
@@ -39,7 +43,7 @@ import {
  * Default debounce delay in milliseconds.
  * Prevents processing rapid checkbox toggles.
  */
-export const DEFAULT_DEBOUNCE_DELAY_MS = 1500;
+export const DEFAULT_DEBOUNCE_DELAY_MS = DEFAULTS.debounceDelayMs;
 
 /**
  * Result of the debounce check.
@@ -246,23 +250,66 @@ export interface HandleCheckedCheckboxResult {
 	error?: string;
 }
 
+/**
+ * Extract the reason from a comment body: the rendered `**Reason:**` line, or
+ * for older comments a "Reason" or "Why" line. The hidden payload is removed
+ * first so the encoded content cannot match.
+ */
+function extractReason(commentBody: string): string | undefined {
+	const visibleBody = stripContentPayload(commentBody);
+	const reasonMatch =
+		visibleBody.match(/^\*\*Reason:\*\*[ \t]*(.+)$/m) ??
+		visibleBody.match(/(?:Reason|Why)[:\s]*([^\n]+)/i);
+	return reasonMatch?.[1]?.trim();
+}
+
 /**
  * Reconstruct an IntentUpdate from the comment body.
  *
  * When handling checkbox approval, we need to reconstruct the IntentUpdate
- * from the comment. The comment contains the suggested content in a diff
- * code block, which we extract here.
+ * from the comment. Comments carry the exact suggested content in a hidden
+ * checksummed payload, which is used verbatim when present. Comments posted
+ * before the payload existed fall back to extracting content from the
+ * rendered diff code block.
+ *
+ * When the payload is used, currentContent is left unset so callers read it
+ * from the branch rather than from the rendered diff. Delete actions carry
+ * no suggested content.
  *
  * @param commentBody - The full comment body
  * @param markerData - Parsed marker data with node paths
- * @param action - The action type (create or update)
+ * @param action - The action type (create, update, or delete)
  * @returns Reconstructed IntentUpdate
+ * @throws ContentPayloadError if the payload is malformed or fails its checksum
  */
 export function reconstructIntentUpdateFromComment(
 	commentBody: string,
 	markerData: CommentMarkerData,
-	action: "create" | "update",
+	action: IntentUpdate["action"],
 ): IntentUpdate {
+	const reason = extractReason(commentBody) || "Approved via checkbox";
+
+	if (action === "delete") {
+		return {
+			nodePath: markerData.nodePath,
+			otherNodePath: markerData.otherNodePath,
+			action,
+			reason,
+		};
+	}
+
+	// Prefer the exact content stored in the hidden payload
+	const payload = parseContentPayload(commentBody);
+	if (payload) {
+		return {
+			nodePath: markerData.nodePath,
+			otherNodePath: markerData.otherNodePath,
+			action,
+			reason,
+			suggestedContent: payload.content,
+		};
+	}
+
 	// Extract suggested content from the comment diff block.
 	// The diff format shows additions with + prefix. We need to extract the actual content.
 	// The comment format includes a markdown code block with the diff.
@@ -310,10 +357,6 @@ export function reconstructIntentUpdateFromComment(
 		}
 	}
 
-	// Extract reason from comment (typically in a "Reason" section or after the diff)
-	const reasonMatch = commentBody.match(/(?:Reason|Why)[:\s]*([^\n]+)/i);
-	const reason = reasonMatch?.[1]?.trim() || "Approved via checkbox";
-
 	const update: IntentUpdate = {
 		nodePath: markerData.nodePath,
 		otherNodePath: markerData.otherNodePath,
@@ -335,7 +378,7 @@ export function reconstructIntentUpdateFromComment(
  * This function:
  * 1. Verifies the current PR headSha matches the marker's headSha
  * 2. If not matching, marks the comment as RESOLVED (stale)
- * 3. If matching, determines whether to create ADD or UPDATE commit
+ * 3. If matching, determines whether to create an ADD, UPDATE, or DELETE commit
  * 4. Creates the commit
  * 5. Updates the comment marker with the appliedCommit SHA
  *
@@ -369,21 +412,41 @@ export async function handleCheckedCheckbox(
 		};
 	}
 
-	// Step 2: Determine if this is a create or update action
-	// Check if the file already exists on the branch
+	// Step 2: Determine the action
+	// Deletes are recorded in the marker; otherwise check if the file already exists
 	const existingSha = await getFileSha(
 		client,
 		markerData.nodePath,
 		options.branch,
 	);
-	const action = existingSha ? "update" : "create";
+	let action: IntentUpdate["action"];
+	if (markerData.action === "delete") {
+		if (!existingSha) {
+			return {
+				success: false,
+				error: `Cannot delete ${markerData.nodePath}: file does not exist on branch ${options.branch}`,
+			};
+		}
+		action = "delete";
+	} else {
+		action = existingSha ? "update" : "create";
+	}
 
 	// Step 3: Reconstruct the IntentUpdate from the comment
-	const update = reconstructIntentUpdateFromComment(
-		commentBody,
-		markerData,
-		action,
-	);
+	// A corrupted payload must never be committed
+	let update: IntentUpdate;
+	try {
+		update = reconstructIntentUpdateFromComment(
+			commentBody,
+			markerData,
+			action,
+		);
+	} catch (error) {
+		return {
+			success: false,
+			error: `Refusing to apply change: ${error instanceof Error ? error.message : String(error)}`,
+		};
+	}
 
 	// For updates, we need to ensure we have currentContent
 	if (action === "update" && !update.currentContent) {
@@ -414,6 +477,12 @@ export async function handleCheckedCheckbox(
 	try {
 		if (action === "create") {
 			commitResult = await createIntentAddCommit(client, update, commitOptions);
+		} else if (action === "delete") {
+			commitResult = await createIntentDeleteCommit(
+				client,
+				update,
+				commitOptions,
+			);
 		} else {
 			commitResult = await createIntentUpdateCommit(
 				client,
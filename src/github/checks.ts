@@ -0,0 +1,222 @@
+/**
+ * Intent Layer Check Runs
+ *
+ * Reports analysis results as a check run on the PR head (`output: check`).
+ * The check fails (or stays neutral) while covered intent nodes need
+ * updates, so "intent layer up to date" can be made a required status check.
+ * Changed files that triggered each node are annotated, and the proposed
+ * diffs are shown on the check's details page.
+ */
+
+import type { CheckConclusion } from "../config/schema.js";
+import type { IntentUpdate } from "../opencode/output-schema.js";
+import { formatDiffForComment, generateDiffForUpdate } from "../utils/diff.js";
+import type {
+	CheckRunAnnotation,
+	CheckRunOutput,
+	GitHubClient,
+} from "./client.js";
+import type { PRChangedFile } from "./context.js";
+import type { AnalysisReport } from "./outputs.js";
+
+/**
+ * Name of the check run created by the action.
+ */
+export const INTENT_LAYER_CHECK_NAME = "Intent Layer";
+
+/**
+ * Maximum annotations GitHub accepts in a single check run request.
+ */
+export const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+/**
+ * Maximum length of the check run details text.
+ */
+export const MAX_CHECK_TEXT_LENGTH = 65535;
+
+/**
+ * Result of publishing the intent layer check run.
+ */
+export interface CheckRunResult {
+	/** ID of the created check run */
+	id: number;
+	/** URL of the check run's details page */
+	url: string;
+	/** Conclusion the check run was completed with */
+	conclusion: "success" | CheckConclusion;
+	/** Number of annotations attached */
+	annotationCount: number;
+}
+
+/**
+ * Determine the check run conclusion for a report.
+ *
+ * @param report - Analysis report
+ * @param conclusionOnUpdates - Conclusion used when updates are proposed
+ * @returns The configured conclusion when updates are proposed, neutral when
+ *   analysis was skipped, otherwise success
+ */
+export function getCheckConclusion(
+	report: AnalysisReport,
+	conclusionOnUpdates: CheckConclusion,
+): "success" | CheckConclusion {
+	if (report.updates.length > 0) {
+		return conclusionOnUpdates;
+	}
+	return report.skippedReason ? "neutral" : "success";
+}
+
+/**
+ * Build annotations on the changed files that triggered each proposed update.
+ *
+ * Removed files cannot be annotated at the head commit and are skipped.
+ *
+ * @param updates - Proposed intent updates
+ * @param triggeringFiles - Changed files keyed by node path
+ * @param level - Annotation severity
+ * @returns One annotation per triggering file and update
+ */
+export function buildCheckRunAnnotations(
+	updates: IntentUpdate[],
+	triggeringFiles: Map<string, PRChangedFile[]>,
+	level: CheckRunAnnotation["annotation_level"],
+): CheckRunAnnotation[] {
+	const annotations: CheckRunAnnotation[] = [];
+
+	for (const update of updates) {
+		const files = triggeringFiles.get(update.nodePath) ?? [];
+		for (const file of files) {
+			if (file.status === "removed") {
+				continue;
+			}
+			annotations.push({
+				path: file.filename,
+				start_line: 1,
+				end_line: 1,
+				annotation_level: level,
+				title: `${getActionVerb(update.action)} ${update.nodePath}`,
+				message: update.reason,
+			});
+		}
+	}
+
+	return annotations;
+}
+
+/**
+ * Build the check run title, summary, and details text for a report.
+ *
+ * @param report - Analysis report
+ * @returns Check run output without annotations
+ */
+export function buildCheckRunOutput(report: AnalysisReport): CheckRunOutput {
+	if (report.skippedReason) {
+		return {
+			title: "Intent layer analysis skipped",
+			summary: report.skippedReason,
+		};
+	}
+	if (report.updates.length === 0) {
+		return {
+			title: "Intent layer is up to date",
+			summary: "No intent layer updates needed.",
+		};
+	}
+
+	const count = report.updates.length;
+	const summary = [
+		`${count} intent node${count === 1 ? " needs" : "s need"} updating:`,
+		"",
+		...report.updates.map(
+			(update) =>
+				`- \`${update.nodePath}\` (${update.action}): ${update.reason}`,
+		),
+	].join("\n");
+
+	const sections = report.updates.map((update) =>
+		formatDiffForComment(generateDiffForUpdate(update), update),
+	);
+	let text = sections.join("\n\n---\n\n");
+	if (text.length > MAX_CHECK_TEXT_LENGTH) {
+		const notice = "\n\n_Diffs truncated._";
+		text = `${text.slice(0, MAX_CHECK_TEXT_LENGTH - notice.length)}${notice}`;
+	}
+
+	return {
+		title: `${count} intent node${count === 1 ? "" : "s"} out of date`,
+		summary,
+		text,
+	};
+}
+
+/**
+ * Create the intent layer check run for a report.
+ *
+ * GitHub limits annotations per request, so the check run is created with
+ * the first batch and further batches are appended with updates.
+ *
+ * @param client - GitHub client for API operations
+ * @param report - Analysis report with the analyzed head SHA
+ * @param conclusionOnUpdates - Conclusion used when updates are proposed
+ * @returns Created check run details
+ * @throws Error if the report has no head SHA or the check run cannot be created
+ */
+export async function publishCheckRun(
+	client: GitHubClient,
+	report: AnalysisReport,
+	conclusionOnUpdates: CheckConclusion,
+): Promise<CheckRunResult> {
+	if (!report.headSha) {
+		throw new Error("Cannot create a check run without the analyzed head SHA");
+	}
+
+	const conclusion = getCheckConclusion(report, conclusionOnUpdates);
+	const output = buildCheckRunOutput(report);
+	const annotations = buildCheckRunAnnotations(
+		report.updates,
+		report.triggeringFiles,
+		conclusion === "failure" ? "failure" : "warning",
+	);
+
+	const checkRun = await client.createCheckRun(
+		INTENT_LAYER_CHECK_NAME,
+		report.headSha,
+		conclusion,
+		{
+			...output,
+			annotations: annotations.slice(0, MAX_ANNOTATIONS_PER_REQUEST),
+		},
+	);
+
+	for (
+		let i = MAX_ANNOTATIONS_PER_REQUEST;
+		i < annotations.length;
+		i += MAX_ANNOTATIONS_PER_REQUEST
+	) {
+		await client.updateCheckRun(checkRun.id, {
+			...output,
+			annotations: annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST),
+		});
+	}
+
+	return {
+		id: checkRun.id,
+		url: checkRun.html_url ?? "",
+		conclusion,
+		annotationCount: annotations.length,
+	};
+}
+
+/**
+ * Get the verb describing an update action in annotation titles.
+ */
+function getActionVerb(action: IntentUpdate["action"]): string {
+	switch (action) {
+		case "create":
+			return "Create";
+		case "update":
+			return "Update";
+		case "delete":
+			return "Delete";
+	}
+}
@@ -206,6 +206,87 @@ export type OctokitClient = ReturnType<typeof github.getOctokit>;
 /** GitHub context from the action environment */
 export type GitHubContext = typeof github.context;
 
+/**
+ * A single file change applied through the Git Data API
+ */
+export interface FileChange {
+	/** File path relative to repository root */
+	path: string;
+	/** New content (symlink target for symlinks), or null to delete the file */
+	content: string | null;
+	/** Whether the file is written as a symlink (mode 120000) */
+	isSymlink?: boolean;
+}
+
+/**
+ * Reactions that can be added to a comment
+ */
+export type CommentReaction =
+	| "+1"
+	| "-1"
+	| "laugh"
+	| "confused"
+	| "heart"
+	| "hooray"
+	| "rocket"
+	| "eyes";
+
+/**
+ * An annotation attached to a file in a check run
+ */
+export interface CheckRunAnnotation {
+	/** File path relative to repository root */
+	path: string;
+	/** First line of the annotated range */
+	start_line: number;
+	/** Last line of the annotated range */
+	end_line: number;
+	/** Severity shown for the annotation */
+	annotation_level: "notice" | "warning" | "failure";
+	/** Annotation message */
+	message: string;
+	/** Short annotation title */
+	title?: string;
+}
+
+/**
+ * Output shown on a check run's details page
+ */
+export interface CheckRunOutput {
+	/** Title of the check run output */
+	title: string;
+	/** Markdown summary */
+	summary: string;
+	/** Markdown details */
+	text?: string;
+	/** File annotations (at most 50 per request) */
+	annotations?: CheckRunAnnotation[];
+}
+
+/**
+ * Error thrown when a branch moved while changes were being committed to it
+ */
+export class BranchConflictError extends Error {
+	public readonly originalCause?: unknown;
+
+	constructor(message: string, cause?: unknown) {
+		super(message);
+		this.name = "BranchConflictError";
+		this.originalCause = cause;
+	}
+}
+
+/**
+ * Check if an error is a rejected (non-fast-forward) ref update
+ */
+function isRefConflictError(error: unknown): boolean {
+	if (error && typeof error === "object" && "status" in error) {
+		const status = (error as { status: number }).status;
+		return status === 409 || status === 422;
+	}
+	return false;
+}
+
 /**
  * Configuration for creating a GitHub client
  */
@@ -412,6 +493,20 @@ export class GitHubClient {
 		}, `getComment(${commentId})`);
 	}
 
+	/**
+	 * Add a reaction to an issue/PR comment
+	 */
+	async createCommentReaction(commentId: number, content: CommentReaction) {
+		return withRetry(async () => {
+			const { data } = await this.octokit.rest.reactions.createForIssueComment({
+				...this.repo,
+				comment_id: commentId,
+				content,
+			});
+			return data;
+		}, `createCommentReaction(${commentId})`);
+	}
+
 	/**
 	 * Get review comments on a pull request
 	 */
@@ -541,6 +636,75 @@ export class GitHubClient {
 		);
 	}
 
+	/**
+	 * List commits reachable from a ref that changed a path, newest first
+	 */
+	async listCommits(sha: string, path: string, perPage: number) {
+		return withRetry(
+			async () => {
+				const { data } = await this.octokit.rest.repos.listCommits({
+					...this.repo,
+					sha,
+					path: path || undefined,
+					per_page: perPage,
+				});
+				return data;
+			},
+			`listCommits(${sha.substring(0, 7)}, ${path || "/"})`,
+		);
+	}
+
+	/**
+	 * Compare two commits, listing the changes on head since its merge base with base
+	 */
+	async compareCommits(base: string, head: string) {
+		return withRetry(async () => {
+			const { data } = await this.octokit.rest.repos.compareCommitsWithBasehead(
+				{
+					...this.repo,
+					basehead: `${base}...${head}`,
+				},
+			);
+			return data;
+		}, `compareCommits(${base}...${head})`);
+	}
+
+	/**
+	 * Create a completed check run on a commit
+	 */
+	async createCheckRun(
+		name: string,
+		headSha: string,
+		conclusion: "success" | "failure" | "neutral",
+		output: CheckRunOutput,
+	) {
+		return withRetry(async () => {
+			const { data } = await this.octokit.rest.checks.create({
+				...this.repo,
+				name,
+				head_sha: headSha,
+				status: "completed",
+				conclusion,
+				output,
+			});
+			return data;
+		}, `createCheckRun(${name})`);
+	}
+
+	/**
+	 * Update the output of a check run (annotations are appended)
+	 */
+	async updateCheckRun(checkRunId: number, output: CheckRunOutput) {
+		return withRetry(async () => {
+			const { data } = await this.octokit.rest.checks.update({
+				...this.repo,
+				check_run_id: checkRunId,
+				output,
+			});
+			return data;
+		}, `updateCheckRun(${checkRunId})`);
+	}
+
 	/**
 	 * Delete a file from the repository
 	 */
@@ -643,6 +807,39 @@ export class GitHubClient {
 		}, `getRef(${ref})`);
 	}
 
+	/**
+	 * Get a tree from the repository, optionally expanding all subtrees
+	 */
+	async getTree(treeSha: string, recursive = false) {
+		return withRetry(
+			async () => {
+				const { data } = await this.octokit.rest.git.getTree({
+					...this.repo,
+					tree_sha: treeSha,
+					recursive: recursive ? "true" : undefined,
+				});
+				return data;
+			},
+			`getTree(${treeSha.substring(0, 7)})`,
+		);
+	}
+
+	/**
+	 * Get a blob from the repository (content is base64 encoded)
+	 */
+	async getBlob(sha: string) {
+		return withRetry(
+			async () => {
+				const { data } = await this.octokit.rest.git.getBlob({
+					...this.repo,
+					file_sha: sha,
+				});
+				return data;
+			},
+			`getBlob(${sha.substring(0, 7)})`,
+		);
+	}
+
 	/**
 	 * Create multiple files including symlinks in a single commit.
 	 *
@@ -662,6 +859,52 @@ export class GitHubClient {
 		}>,
 		message: string,
 		branch: string,
+	): Promise<{ sha: string; url: string }> {
+		return this.commitFileChanges(files, message, branch);
+	}
+
+	/**
+	 * Delete multiple files (including symlinks) in a single commit.
+	 *
+	 * This uses the Git Tree API so that related files, such as an
+	 * AGENTS.md and its CLAUDE.md symlink, are removed atomically.
+	 *
+	 * @param paths - Paths of the files to delete
+	 * @param message - Commit message
+	 * @param branch - Branch to commit to
+	 * @returns Commit result with SHA and URL
+	 */
+	async deleteFiles(
+		paths: string[],
+		message: string,
+		branch: string,
+	): Promise<{ sha: string; url: string }> {
+		return this.commitFileChanges(
+			paths.map((path) => ({ path, content: null })),
+			message,
+			branch,
+		);
+	}
+
+	/**
+	 * Apply a set of file changes to a branch as a single commit.
+	 *
+	 * The changes are built into one tree on top of the branch head using the
+	 * Git Data API. The branch is then moved with a non-forced ref update, so
+	 * the commit is only published if nothing else was pushed in the meantime.
+	 *
+	 * @param changes - Files to write, symlink, or delete
+	 * @param message - Commit message
+	 * @param branch - Branch to commit to
+	 * @param expectedHeadSha - Optional SHA the branch head must still point at
+	 * @returns Commit result with SHA and URL
+	 * @throws BranchConflictError if the branch moved away from the expected head
+	 */
+	async commitFileChanges(
+		changes: FileChange[],
+		message: string,
+		branch: string,
+		expectedHeadSha?: string,
 	): Promise<{ sha: string; url: string }> {
 		const { owner, repo } = this.repo;
 
@@ -669,6 +912,12 @@ export class GitHubClient {
 		const refData = await this.getRef(`heads/${branch}`);
 		const currentCommitSha = refData.object.sha;
 
+		if (expectedHeadSha && currentCommitSha !== expectedHeadSha) {
+			throw new BranchConflictError(
+				`Branch ${branch} moved from ${expectedHeadSha.substring(0, 7)} to ${currentCommitSha.substring(0, 7)}`,
+			);
+		}
+
 		// Get the current commit to find the tree SHA
 		const commitData = await withRetry(
 			async () => {
@@ -683,21 +932,29 @@ export class GitHubClient {
 		);
 		const baseTreeSha = commitData.tree.sha;
 
-		// Create tree entries for each file
+		// Create tree entries for each change
 		const treeEntries: Array<{
 			path: string;
 			mode: "100644" | "100755" | "040000" | "160000" | "120000";
 			type: "blob" | "tree" | "commit";
-			sha?: string;
+			sha?: string | null;
 			content?: string;
 		}> = [];
 
-		for (const file of files) {
-			if (file.isSymlink) {
+		for (const change of changes) {
+			if (change.content === null) {
+				// A null SHA removes the path from the base tree
+				treeEntries.push({
+					path: change.path,
+					mode: "100644",
+					type: "blob",
+					sha: null,
+				});
+			} else if (change.isSymlink) {
 				// For symlinks, create a blob with the target path and use mode 120000
-				const blob = await this.createBlob(file.content, "utf-8");
+				const blob = await this.createBlob(change.content, "utf-8");
 				treeEntries.push({
-					path: file.path,
+					path: change.path,
 					mode: "120000", // Symlink mode
 					type: "blob",
 					sha: blob.sha,
@@ -705,10 +962,10 @@ export class GitHubClient {
 			} else {
 				// For regular files, we can include the content directly
 				treeEntries.push({
-					path: file.path,
+					path: change.path,
 					mode: "100644",
 					type: "blob",
-					content: file.content,
+					content: change.content,
 				});
 			}
 		}
@@ -721,8 +978,18 @@ export class GitHubClient {
 			currentCommitSha,
 		]);
 
-		// Update the branch to point to the new commit
-		await this.updateRef(`heads/${branch}`, newCommit.sha);
+		// Update the branch without forcing, so a concurrent push is never overwritten
+		try {
+			await this.updateRef(`heads/${branch}`, newCommit.sha, false);
+		} catch (error) {
+			if (isRefConflictError(error)) {
+				throw new BranchConflictError(
+					`Branch ${branch} was updated while committing; no changes were applied`,
+					error,
+				);
+			}
+			throw error;
+		}
 
 		return {
 			sha: newCommit.sha,
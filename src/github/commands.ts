@@ -0,0 +1,467 @@
+/**
+ * Slash Commands for Intent Layer Comments
+ *
+ * Parses `/intent-layer <command>` comments on pull requests and runs the
+ * commands that act on existing intent layer comments: applying or reverting
+ * every suggestion at once, dismissing pending suggestions, and explaining
+ * which intent nodes cover a file. Regeneration re-runs analysis and is
+ * orchestrated by the action entry point.
+ */
+
+import {
+	findCoveringNode,
+	getAncestors,
+	type IntentHierarchy,
+} from "../intent/hierarchy.js";
+import { getIntentFileKind, isIntentFilePath } from "../intent/kinds.js";
+import type { IntentLayerIgnore } from "../patterns/ignore.js";
+import {
+	type HandleCheckedCheckboxOptions,
+	type HandleUncheckedCheckboxOptions,
+	handleCheckedCheckbox,
+	handleUncheckedCheckbox,
+} from "./checkbox-handler.js";
+import type { GitHubClient } from "./client.js";
+import {
+	type CommentMarkerData,
+	findIntentLayerComments,
+	isCommentResolved,
+	markCommentAsResolved,
+	parseCommentMarker,
+	updateCheckboxState,
+} from "./comments.js";
+
+/**
+ * Prefix that starts an intent layer command in a comment.
+ */
+export const COMMAND_PREFIX = "/intent-layer";
+
+/**
+ * Comment author associations allowed to run commands.
+ * Commands create commits, so they are limited to people with write access.
+ */
+export const TRUSTED_AUTHOR_ASSOCIATIONS = ["OWNER", "MEMBER", "COLLABORATOR"];
+
+/**
+ * Usage text listing the supported commands.
+ */
+export const COMMAND_USAGE = [
+	"Supported commands:",
+	"",
+	`- \`${COMMAND_PREFIX} regenerate <path/to/AGENTS.md>\` - re-run analysis for one intent node`,
+	`- \`${COMMAND_PREFIX} apply-all\` - commit every pending suggestion`,
+	`- \`${COMMAND_PREFIX} revert-all\` - revert every committed suggestion`,
+	`- \`${COMMAND_PREFIX} skip\` - dismiss every pending suggestion`,
+	`- \`${COMMAND_PREFIX} explain <path/to/file>\` - show which intent nodes cover a file`,
+].join("\n");
+
+/**
+ * A parsed intent layer command.
+ */
+export type IntentLayerCommand =
+	| { name: "regenerate"; nodePath: string }
+	| { name: "apply-all" }
+	| { name: "revert-all" }
+	| { name: "skip" }
+	| { name: "explain"; filePath: string };
+
+/**
+ * Result of parsing a command comment.
+ */
+export interface CommandParseResult {
+	/** The parsed command, if the comment contains a valid one */
+	command?: IntentLayerCommand;
+	/** Why the command could not be parsed */
+	error?: string;
+}
+
+/**
+ * Parse the intent layer command in a comment.
+ *
+ * The first line starting with `/intent-layer` outside a fenced code block
+ * is parsed; paths may be wrapped in backticks.
+ *
+ * @param commentBody - The comment body
+ * @returns Parsed command or parse error, or null if the comment has no command
+ */
+export function parseIntentLayerCommand(
+	commentBody: string,
+): CommandParseResult | null {
+	let inCodeBlock = false;
+	let commandLine: string | undefined;
+	for (const rawLine of commentBody.split("\n")) {
+		const line = rawLine.trim();
+		if (line.startsWith("```")) {
+			inCodeBlock = !inCodeBlock;
+			continue;
+		}
+		if (
+			!inCodeBlock &&
+			(line === COMMAND_PREFIX || line.startsWith(`${COMMAND_PREFIX} `))
+		) {
+			commandLine = line;
+			break;
+		}
+	}
+
+	if (commandLine === undefined) {
+		return null;
+	}
+
+	const [, name, ...args] = commandLine.split(/\s+/);
+	switch (name) {
+		case "apply-all":
+		case "revert-all":
+		case "skip":
+			if (args.length > 0) {
+				return { error: `\`${name}\` does not take arguments` };
+			}
+			return { command: { name } };
+
+		case "regenerate": {
+			const nodePath = args.length === 1 ? normalizePath(args[0]) : "";
+			if (!nodePath) {
+				return { error: "`regenerate` takes the path of one intent file" };
+			}
+			if (!isIntentFilePath(nodePath)) {
+				return {
+					error: `\`regenerate\` takes an intent file path such as AGENTS.md or CLAUDE.md, got \`${nodePath}\``,
+				};
+			}
+			return { command: { name, nodePath } };
+		}
+
+		case "explain": {
+			const filePath = args.length === 1 ? normalizePath(args[0]) : "";
+			if (!filePath) {
+				return { error: "`explain` takes the path of one file" };
+			}
+			return { command: { name, filePath } };
+		}
+
+		case undefined:
+			return { error: "No command given" };
+
+		default:
+			return { error: `Unknown command \`${name}\`` };
+	}
+}
+
+/**
+ * Format a command for display in replies and logs.
+ *
+ * @param command - The parsed command
+ * @returns Command as it would be typed
+ */
+export function formatCommand(command: IntentLayerCommand): string {
+	switch (command.name) {
+		case "regenerate":
+			return `${COMMAND_PREFIX} regenerate ${command.nodePath}`;
+		case "explain":
+			return `${COMMAND_PREFIX} explain ${command.filePath}`;
+		default:
+			return `${COMMAND_PREFIX} ${command.name}`;
+	}
+}
+
+/**
+ * Context of a command comment extracted from the event payload.
+ */
+export interface CommandHandlerContext {
+	/** The ID of the command comment */
+	commentId: number;
+	/** The body of the command comment */
+	commentBody: string;
+	/** The issue/PR number where the comment was made */
+	issueNumber: number;
+	/** Whether this is a PR (vs an issue) */
+	isPullRequest: boolean;
+	/** Login of the comment author */
+	author: string;
+	/** The author's association with the repository (e.g. MEMBER) */
+	authorAssociation: string;
+}
+
+/**
+ * Validate that the event payload is a newly created comment.
+ *
+ * Edited comments are ignored so that commands are not run twice.
+ *
+ * @param payload - The GitHub event payload
+ * @returns Extracted context if valid, or null if not a command event
+ */
+export function validateCommandEvent(
+	payload: Record<string, unknown>,
+): CommandHandlerContext | null {
+	if (payload.action !== "created") {
+		return null;
+	}
+
+	const comment = payload.comment as Record<string, unknown> | undefined;
+	const issue = payload.issue as Record<string, unknown> | undefined;
+	if (!comment || !issue) {
+		return null;
+	}
+
+	const commentId = comment.id as number | undefined;
+	const commentBody = comment.body as string | undefined;
+	const issueNumber = issue.number as number | undefined;
+	if (!commentId || !commentBody || !issueNumber) {
+		return null;
+	}
+
+	const user = comment.user as Record<string, unknown> | undefined;
+
+	return {
+		commentId,
+		commentBody,
+		issueNumber,
+		isPullRequest: "pull_request" in issue,
+		author: (user?.login as string | undefined) ?? "unknown",
+		authorAssociation: (comment.author_association as string) ?? "NONE",
+	};
+}
+
+/**
+ * Check whether a comment author may run commands.
+ *
+ * @param authorAssociation - The author's association with the repository
+ * @returns True for owners, members, and collaborators
+ */
+export function canRunCommands(authorAssociation: string): boolean {
+	return TRUSTED_AUTHOR_ASSOCIATIONS.includes(authorAssociation);
+}
+
+/**
+ * Outcome of running a command.
+ */
+export interface CommandResult {
+	/** Whether every part of the command succeeded */
+	success: boolean;
+	/** Markdown describing what the command did, used in the reply */
+	message: string;
+}
+
+/**
+ * An unresolved intent layer suggestion comment.
+ */
+interface SuggestionComment {
+	id: number;
+	body: string;
+	marker: CommentMarkerData;
+}
+
+/**
+ * Get the unresolved intent layer suggestion comments on a PR, oldest first.
+ */
+async function getOpenSuggestionComments(
+	client: GitHubClient,
+	pullNumber: number,
+): Promise<SuggestionComment[]> {
+	const comments = await client.getIssueComments(pullNumber);
+	const suggestions: SuggestionComment[] = [];
+
+	for (const comment of findIntentLayerComments(comments)) {
+		if (!comment.body || isCommentResolved(comment.body)) continue;
+		const marker = parseCommentMarker(comment.body);
+		if (marker) {
+			suggestions.push({ id: comment.id, body: comment.body, marker });
+		}
+	}
+
+	return suggestions.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Commit every pending suggestion on a PR.
+ *
+ * Each suggestion is applied as if its checkbox had been checked, so it gets
+ * its own commit and its comment records the applied commit.
+ *
+ * @param client - GitHub client for API operations
+ * @param pullNumber - PR number to operate on
+ * @param currentHeadSha - Current PR head SHA
+ * @param options - Commit options (branch, symlink settings)
+ * @returns Outcome of the command
+ */
+export async function applyAllSuggestions(
+	client: GitHubClient,
+	pullNumber: number,
+	currentHeadSha: string,
+	options: HandleCheckedCheckboxOptions,
+): Promise<CommandResult> {
+	const pending = (await getOpenSuggestionComments(client, pullNumber)).filter(
+		(comment) => !comment.marker.appliedCommit,
+	);
+	if (pending.length === 0) {
+		return {
+			success: true,
+			message: "No pending intent layer suggestions to apply.",
+		};
+	}
+
+	const lines: string[] = [];
+	let failed = 0;
+	for (const comment of pending) {
+		const result = await handleCheckedCheckbox(
+			client,
+			comment.id,
+			updateCheckboxState(comment.body, true),
+			comment.marker,
+			currentHeadSha,
+			options,
+		);
+		const nodePath = comment.marker.nodePath;
+		if (result.success) {
+			lines.push(
+				`- \`${nodePath}\`: committed ${result.commitResult?.sha.substring(0, 7)}`,
+			);
+		} else if (result.markedAsResolved) {
+			lines.push(`- \`${nodePath}\`: resolved (PR head has changed)`);
+		} else {
+			failed++;
+			lines.push(`- \`${nodePath}\`: failed (${result.error})`);
+		}
+	}
+
+	return { success: failed === 0, message: lines.join("\n") };
+}
+
+/**
+ * Revert every committed suggestion on a PR, newest first.
+ *
+ * Each suggestion is reverted as if its checkbox had been unchecked.
+ *
+ * @param client - GitHub client for API operations
+ * @param pullNumber - PR number to operate on
+ * @param options - Revert options (branch, symlink settings)
+ * @returns Outcome of the command
+ */
+export async function revertAllSuggestions(
+	client: GitHubClient,
+	pullNumber: number,
+	options: HandleUncheckedCheckboxOptions,
+): Promise<CommandResult> {
+	const committed = (await getOpenSuggestionComments(client, pullNumber))
+		.filter((comment) => comment.marker.appliedCommit)
+		.reverse();
+	if (committed.length === 0) {
+		return {
+			success: true,
+			message: "No committed intent layer suggestions to revert.",
+		};
+	}
+
+	const lines: string[] = [];
+	let failed = 0;
+	for (const comment of committed) {
+		const result = await handleUncheckedCheckbox(
+			client,
+			comment.id,
+			updateCheckboxState(comment.body, false),
+			comment.marker,
+			options,
+		);
+		const nodePath = comment.marker.nodePath;
+		if (result.success) {
+			lines.push(
+				`- \`${nodePath}\`: reverted in ${result.commitResult?.sha.substring(0, 7)}`,
+			);
+		} else {
+			failed++;
+			lines.push(`- \`${nodePath}\`: failed (${result.error})`);
+		}
+	}
+
+	return { success: failed === 0, message: lines.join("\n") };
+}
+
+/**
+ * Dismiss every pending suggestion on a PR by marking it as resolved.
+ *
+ * Committed suggestions are kept so they can still be reverted.
+ *
+ * @param client - GitHub client for API operations
+ * @param pullNumber - PR number to operate on
+ * @returns Outcome of the command
+ */
+export async function skipPendingSuggestions(
+	client: GitHubClient,
+	pullNumber: number,
+): Promise<CommandResult> {
+	const pending = (await getOpenSuggestionComments(client, pullNumber)).filter(
+		(comment) => !comment.marker.appliedCommit,
+	);
+
+	for (const comment of pending) {
+		await client.updateComment(comment.id, markCommentAsResolved(comment.body));
+	}
+
+	return {
+		success: true,
+		message:
+			pending.length === 0
+				? "No pending intent layer suggestions to skip."
+				: `Skipped ${pending.length} pending suggestion${pending.length === 1 ? "" : "s"}: ${pending.map((c) => `\`${c.marker.nodePath}\``).join(", ")}`,
+	};
+}
+
+/**
+ * Explain which intent nodes cover a file.
+ *
+ * @param filePath - Path of the file to explain
+ * @param hierarchies - Hierarchies of the managed intent file types
+ * @param ignore - Optional IntentLayerIgnore instance for excluded files
+ * @returns Outcome of the command
+ */
+export function explainFileCoverage(
+	filePath: string,
+	hierarchies: IntentHierarchy[],
+	ignore?: IntentLayerIgnore,
+): CommandResult {
+	const lines: string[] = [];
+
+	if (ignore?.ignores(filePath)) {
+		lines.push(
+			`\`${filePath}\` is excluded by \`.intentlayerignore\`, so changes to it never trigger intent layer updates.`,
+			"",
+		);
+	}
+
+	for (const hierarchy of hierarchies) {
+		const fileName = getIntentFileKind(hierarchy.fileType).label;
+		const node = findCoveringNode(filePath, hierarchy);
+		if (!node) {
+			lines.push(`- ${fileName}: no intent node covers \`${filePath}\``);
+			continue;
+		}
+		const chain = [node, ...getAncestors(node)]
+			.map((n) => `\`${n.file.path}\``)
+			.join(" → ");
+		lines.push(`- ${fileName}: covered by ${chain} (nearest first)`);
+	}
+
+	return { success: true, message: lines.join("\n") };
+}
+
+/**
+ * Build the reply comment for a command.
+ *
+ * @param command - The command that was run
+ * @param result - Outcome of the command
+ * @returns Markdown reply body
+ */
+export function formatCommandReply(
+	command: IntentLayerCommand,
+	result: CommandResult,
+): string {
+	const status = result.success ? "" : " (with errors)";
+	return `**\`${formatCommand(command)}\`**${status}\n\n${result.message}\n`;
+}
+
+/**
+ * Normalize a path argument: strip backticks and a leading `./`.
+ */
+function normalizePath(arg: string | undefined): string {
+	return (arg ?? "").replace(/^`|`$/g, "").replace(/^\.\//, "");
+}
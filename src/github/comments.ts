@@ -6,6 +6,8 @@
  * for identification and tracking of applied changes.
  */
 
+import { createHash } from "node:crypto";
+import { gunzipSync, gzipSync } from "node:zlib";
 import type { IntentUpdate } from "../opencode/output-schema.js";
 import {
 	type DiffOptions,
@@ -36,6 +38,8 @@ export interface CommentMarkerData {
 	appliedCommit?: string;
 	/** SHA of the PR head when this comment was created */
 	headSha: string;
+	/** Proposed action (absent on comments created before actions were recorded) */
+	action?: IntentUpdate["action"];
 }
 
 /**
@@ -70,6 +74,10 @@ export function generateCommentMarker(data: CommentMarkerData): string {
 	parts.push(`appliedCommit=${data.appliedCommit ?? ""}`);
 	parts.push(`headSha=${data.headSha}`);
 
+	if (data.action) {
+		parts.push(`action=${data.action}`);
+	}
+
 	return `${INTENT_LAYER_MARKER_PREFIX} ${parts.join(" ")} ${INTENT_LAYER_MARKER_SUFFIX}`;
 }
 
@@ -99,6 +107,7 @@ export function parseCommentMarker(
 	const otherNodeMatch = markerContent.match(/otherNode=([^\s]+)/);
 	const appliedCommitMatch = markerContent.match(/appliedCommit=([^\s]*)/);
 	const headShaMatch = markerContent.match(/headSha=([^\s]+)/);
+	const actionMatch = markerContent.match(/action=(create|update|delete)\b/);
 
 	if (!nodeMatch?.[1] || !headShaMatch?.[1]) {
 		return null;
@@ -111,6 +120,7 @@ export function parseCommentMarker(
 			: undefined,
 		appliedCommit: appliedCommitMatch?.[1] || undefined,
 		headSha: headShaMatch[1],
+		action: actionMatch?.[1] as IntentUpdate["action"] | undefined,
 	};
 }
 
@@ -124,11 +134,124 @@ export function hasIntentLayerMarker(commentBody: string): boolean {
 	return commentBody.includes(INTENT_LAYER_MARKER_PREFIX);
 }
 
+/**
+ * Hidden payload format for storing the exact suggested content.
+ * The content is gzip-compressed and base64 encoded so that it survives
+ * markdown rendering byte-for-byte, and carries a SHA-256 checksum of the
+ * original content so tampering or truncation can be detected.
+ */
+export const INTENT_LAYER_CONTENT_MARKER_PREFIX = "<!-- INTENT_LAYER_CONTENT";
+
+/**
+ * Suggested content decoded from a hidden comment payload.
+ */
+export interface ContentPayload {
+	/** The exact suggested content */
+	content: string;
+	/** SHA-256 checksum (hex) of the content */
+	checksum: string;
+}
+
+/**
+ * Error thrown when a hidden content payload cannot be decoded or
+ * does not match its checksum.
+ */
+export class ContentPayloadError extends Error {
+	public readonly originalCause?: unknown;
+
+	constructor(message: string, cause?: unknown) {
+		super(message);
+		this.name = "ContentPayloadError";
+		this.originalCause = cause;
+	}
+}
+
+/**
+ * Compute the SHA-256 checksum of content as stored in a payload.
+ *
+ * @param content - The content to checksum
+ * @returns Hex-encoded SHA-256 digest of the UTF-8 content
+ */
+export function computeContentChecksum(content: string): string {
+	return createHash("sha256").update(content, "utf-8").digest("hex");
+}
+
+/**
+ * Generate a hidden payload comment holding the exact suggested content.
+ *
+ * @param content - The suggested content to store
+ * @returns Hidden HTML comment with checksum and compressed content
+ */
+export function generateContentPayload(content: string): string {
+	const checksum = computeContentChecksum(content);
+	const encoded = gzipSync(Buffer.from(content, "utf-8")).toString("base64");
+
+	return `${INTENT_LAYER_CONTENT_MARKER_PREFIX} sha256=${checksum}\n${encoded}\n${INTENT_LAYER_MARKER_SUFFIX}`;
+}
+
+/**
+ * Parse the hidden content payload from a comment body.
+ *
+ * @param commentBody - The full comment body to parse
+ * @returns Decoded payload, or null if the comment has no payload
+ * @throws ContentPayloadError if the payload is malformed or fails its checksum
+ */
+export function parseContentPayload(
+	commentBody: string,
+): ContentPayload | null {
+	const start = commentBody.indexOf(INTENT_LAYER_CONTENT_MARKER_PREFIX);
+	if (start === -1) {
+		return null;
+	}
+
+	const payloadRegex = new RegExp(
+		`${escapeRegex(INTENT_LAYER_CONTENT_MARKER_PREFIX)} sha256=([0-9a-f]{64})\\r?\\n([A-Za-z0-9+/=]*)\\r?\\n${escapeRegex(INTENT_LAYER_MARKER_SUFFIX)}`,
+	);
+	const match = commentBody.slice(start).match(payloadRegex);
+	if (!match?.[1] || match[2] === undefined) {
+		throw new ContentPayloadError("Suggested content payload is malformed");
+	}
+
+	const checksum = match[1];
+	let content: string;
+	try {
+		content = gunzipSync(Buffer.from(match[2], "base64")).toString("utf-8");
+	} catch (error) {
+		throw new ContentPayloadError(
+			"Suggested content payload could not be decoded",
+			error,
+		);
+	}
+
+	if (computeContentChecksum(content) !== checksum) {
+		throw new ContentPayloadError(
+			"Suggested content payload does not match its checksum",
+		);
+	}
+
+	return { content, checksum };
+}
+
+/**
+ * Remove the hidden content payload from a comment body, so text searches do
+ * not match inside the encoded content.
+ *
+ * @param commentBody - The full comment body
+ * @returns The comment body without its payload
+ */
+export function stripContentPayload(commentBody: string): string {
+	const payloadRegex = new RegExp(
+		`${escapeRegex(INTENT_LAYER_CONTENT_MARKER_PREFIX)}[\\s\\S]*?${escapeRegex(INTENT_LAYER_MARKER_SUFFIX)}`,
+	);
+	return commentBody.replace(payloadRegex, "");
+}
+
 /**
  * Generate a full PR comment for an intent update.
  *
  * The comment includes:
  * - Hidden marker for identification
+ * - Hidden payload with the exact suggested content (create/update only)
  * - Formatted diff showing the proposed changes
  * - Approval checkbox (if enabled)
  *
@@ -149,6 +272,7 @@ export function generateComment(
 		nodePath: update.nodePath,
 		otherNodePath: update.otherNodePath,
 		headSha,
+		action: update.action,
 	};
 
 	// Generate the diff for display
@@ -160,6 +284,9 @@ export function generateComment(
 
 	// Hidden marker (must be first for easy detection)
 	lines.push(generateCommentMarker(markerData));
+	if (update.suggestedContent !== undefined) {
+		lines.push(generateContentPayload(update.suggestedContent));
+	}
 	lines.push("");
 
 	// Diff content
@@ -370,6 +497,11 @@ export const COMMITTED_STATUS_MARKER = "**COMMITTED**";
  */
 export const REVERTED_STATUS_MARKER = "**REVERTED**";
 
+/**
+ * Status marker prefix for changes that cannot be pushed to a fork.
+ */
+export const NOT_APPLIED_STATUS_MARKER = "**NOT APPLIED**";
+
 /**
  * Add a committed status message to a comment.
  *
@@ -430,10 +562,35 @@ export function addRevertedStatus(
 	return cleanBody;
 }
 
+/**
+ * Add a not-applied status message to a comment.
+ *
+ * This is called when a checkbox is checked on a pull request whose head
+ * branch lives in a fork the action cannot push to. The suggestion stays in
+ * the comment so the PR author can apply it by hand.
+ *
+ * @param commentBody - The existing comment body
+ * @param headRepo - Full name of the fork holding the head branch, if known
+ * @returns Updated comment body with not-applied status
+ */
+export function addNotAppliedStatus(
+	commentBody: string,
+	headRepo: string | null,
+): string {
+	// Remove any existing status message first
+	const cleanBody = removeStatusMessage(commentBody);
+	const location = headRepo ? `\`${headRepo}\`` : "a fork";
+
+	return cleanBody.replace(
+		/- \[[ xX]\] Apply this change/,
+		`$&\n\n${NOT_APPLIED_STATUS_MARKER} - The PR branch lives in ${location}, which this action cannot push to. Apply the suggested content to the branch manually.`,
+	);
+}
+
 /**
  * Remove any existing status message from a comment.
  *
- * Status messages include COMMITTED, REVERTED markers that appear after the checkbox.
+ * Status messages include COMMITTED, REVERTED, and NOT APPLIED markers that appear after the checkbox.
  *
  * @param commentBody - The comment body to clean
  * @returns Comment body with status message removed
@@ -451,6 +608,9 @@ export function removeStatusMessage(commentBody: string): string {
 		"",
 	);
 
+	// Remove NOT APPLIED status
+	cleanBody = cleanBody.replace(/\n\n\*\*NOT APPLIED\*\* - [^\n]*/g, "");
+
 	return cleanBody;
 }
 
@@ -734,64 +894,228 @@ export async function postIntentLayerLinkComment(
 }
 
 /**
- * Resolve (mark as stale) existing intent layer comments and post new ones.
+ * Result of reconciling intent layer comments with new updates.
+ */
+export interface ReconcileCommentsResult {
+	/** Open comments marked as resolved because their node no longer needs changes */
+	resolvedComments: ResolvedCommentResult[];
+	/** Comments posted for nodes without an open comment */
+	postedComments: PostedComment[];
+	/** Existing comments rewritten in place with a changed proposal */
+	updatedComments: PostedComment[];
+	/** Existing comments whose proposal did not change */
+	unchangedComments: PostedComment[];
+}
+
+/**
+ * Options for reconciling comments.
+ */
+export interface ReconcileCommentsOptions extends PostCommentsOptions {
+	/** Only reconcile comments for these node paths (default: all nodes) */
+	nodePaths?: ReadonlySet<string>;
+}
+
+/**
+ * An unresolved intent layer comment found on the PR.
+ */
+interface OpenIntentComment {
+	id: number;
+	body: string;
+	url: string;
+	marker: CommentMarkerData;
+}
+
+/**
+ * Check whether a comment already shows the proposal for an update.
  *
- * This function:
- * 1. Finds all existing intent layer comments on the PR
- * 2. Marks them as RESOLVED (stale)
- * 3. Posts new comments for the provided updates
+ * The comment is compared with a freshly generated comment for the update,
+ * ignoring the head SHA it was generated at, its checkbox state, status
+ * messages, and applied commit.
+ *
+ * @param commentBody - Existing comment body
+ * @param update - Proposed intent update
+ * @param options - Options the comment would be generated with
+ * @returns True if the comment shows the same proposal
+ */
+export function isCommentForProposal(
+	commentBody: string,
+	update: IntentUpdate,
+	options: CommentOptions = {},
+): boolean {
+	const marker = parseCommentMarker(commentBody);
+	if (!marker || marker.nodePath !== update.nodePath) {
+		return false;
+	}
+
+	const normalizedBody = clearCommentMarkerAppliedCommit(
+		removeStatusMessage(updateCheckboxState(commentBody, false)),
+	);
+	return normalizedBody === generateComment(update, marker.headSha, options);
+}
+
+/**
+ * Update the head SHA recorded in a comment marker.
+ *
+ * @param commentBody - The existing comment body
+ * @param headSha - PR head SHA the proposal was confirmed at
+ * @returns Updated comment body with new marker
+ */
+export function updateCommentMarkerHeadSha(
+	commentBody: string,
+	headSha: string,
+): string {
+	const existingMarker = parseCommentMarker(commentBody);
+	if (!existingMarker) {
+		return commentBody;
+	}
+
+	const newMarker = generateCommentMarker({
+		...existingMarker,
+		headSha,
+	});
+
+	// Replace the old marker with the new one
+	const markerRegex = new RegExp(
+		`${escapeRegex(INTENT_LAYER_MARKER_PREFIX)}\\s+.+?\\s+${escapeRegex(INTENT_LAYER_MARKER_SUFFIX)}`,
+	);
+
+	return commentBody.replace(markerRegex, newMarker);
+}
+
+/**
+ * Reconcile existing intent layer comments with a new set of updates.
+ *
+ * Open (unresolved) comments are matched to updates by node path:
+ * 1. A pending comment whose proposal changed is rewritten in place
+ * 2. A pending comment whose proposal is identical is left as is, apart from
+ *    recording the new head SHA so its checkbox stays usable
+ * 3. Pending comments for nodes that no longer need changes are RESOLVED
+ * 4. Committed comments are never rewritten or resolved, so their applied
+ *    commit can still be reverted; a changed proposal for the same node gets
+ *    a new comment
+ * 5. Updates without a matching comment get a new comment
+ *
+ * When `nodePaths` is given, comments for other nodes are left untouched.
  *
  * @param client - GitHub client for API operations
  * @param pullNumber - PR number to operate on
- * @param updates - New intent updates to create comments for
+ * @param updates - New intent updates to show
  * @param headSha - Current PR head SHA
- * @param options - Optional configuration for comment posting
- * @returns Object with resolved comments and newly posted comments
+ * @param options - Optional configuration for comment posting and scope
+ * @returns Resolved, posted, updated, and unchanged comments
  */
 export async function resolveAndPostComments(
 	client: GitHubClient,
 	pullNumber: number,
 	updates: IntentUpdate[],
 	headSha: string,
-	options: PostCommentsOptions = {},
-): Promise<{
-	resolvedComments: ResolvedCommentResult[];
-	postedComments: PostedComment[];
-}> {
-	// Get existing comments on the PR
+	options: ReconcileCommentsOptions = {},
+): Promise<ReconcileCommentsResult> {
 	const existingComments = await client.getIssueComments(pullNumber);
 
-	// Find and resolve existing intent layer comments
-	const intentComments = findIntentLayerComments(existingComments);
-	const resolvedComments: ResolvedCommentResult[] = [];
-
-	for (const comment of intentComments) {
-		if (!comment.body) continue;
-
-		// Skip if already resolved
-		if (isCommentResolved(comment.body)) continue;
+	// Group open intent layer comments by node, newest first
+	const openComments = new Map<string, OpenIntentComment[]>();
+	for (const comment of findIntentLayerComments(existingComments)) {
+		if (!comment.body || isCommentResolved(comment.body)) continue;
 
 		const marker = parseCommentMarker(comment.body);
 		if (!marker) continue;
+		if (options.nodePaths && !options.nodePaths.has(marker.nodePath)) continue;
+
+		const group = openComments.get(marker.nodePath) ?? [];
+		group.push({
+			id: comment.id,
+			body: comment.body,
+			url: comment.html_url,
+			marker,
+		});
+		openComments.set(marker.nodePath, group);
+	}
+	for (const group of openComments.values()) {
+		group.sort((a, b) => b.id - a.id);
+	}
 
-		// Mark as resolved
-		const resolvedBody = markCommentAsResolved(comment.body);
-		await client.updateComment(comment.id, resolvedBody);
+	const result: ReconcileCommentsResult = {
+		resolvedComments: [],
+		postedComments: [],
+		updatedComments: [],
+		unchangedComments: [],
+	};
+	const updatesToPost: IntentUpdate[] = [];
 
-		resolvedComments.push({
+	const resolve = async (comment: OpenIntentComment) => {
+		await client.updateComment(comment.id, markCommentAsResolved(comment.body));
+		result.resolvedComments.push({
 			commentId: comment.id,
-			nodePath: marker.nodePath,
+			nodePath: comment.marker.nodePath,
 		});
+	};
+
+	for (const update of updates) {
+		const group = openComments.get(update.nodePath) ?? [];
+		openComments.delete(update.nodePath);
+		const committed = group.filter((c) => c.marker.appliedCommit);
+		const pending = group.filter((c) => !c.marker.appliedCommit);
+
+		const applied = committed.find((c) =>
+			isCommentForProposal(c.body, update, options.commentOptions),
+		);
+		const [latest, ...stale] = pending;
+		for (const comment of applied ? pending : stale) {
+			await resolve(comment);
+		}
+
+		if (applied) {
+			result.unchangedComments.push({
+				update,
+				commentId: applied.id,
+				commentUrl: applied.url,
+			});
+		} else if (!latest) {
+			updatesToPost.push(update);
+		} else if (
+			isCommentForProposal(latest.body, update, options.commentOptions)
+		) {
+			if (latest.marker.headSha !== headSha) {
+				await client.updateComment(
+					latest.id,
+					updateCommentMarkerHeadSha(latest.body, headSha),
+				);
+			}
+			result.unchangedComments.push({
+				update,
+				commentId: latest.id,
+				commentUrl: latest.url,
+			});
+		} else {
+			await client.updateComment(
+				latest.id,
+				generateComment(update, headSha, options.commentOptions),
+			);
+			result.updatedComments.push({
+				update,
+				commentId: latest.id,
+				commentUrl: latest.url,
+			});
+		}
+	}
+
+	// Nodes that no longer need changes: resolve pending proposals only
+	for (const group of openComments.values()) {
+		for (const comment of group) {
+			if (!comment.marker.appliedCommit) {
+				await resolve(comment);
+			}
+		}
 	}
 
-	// Post new comments
-	const postedComments = await postCommentsForUpdates(
+	result.postedComments = await postCommentsForUpdates(
 		client,
 		pullNumber,
-		updates,
+		updatesToPost,
 		headSha,
 		options,
 	);
 
-	return { resolvedComments, postedComments };
+	return result;
 }
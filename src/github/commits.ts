@@ -1,18 +1,29 @@
 /**
  * Commit Operations for Intent Layer
  *
- * Provides utilities for creating commits that add, update, or revert
+ * Provides utilities for creating commits that add, update, delete, or revert
  * intent layer files (AGENTS.md, CLAUDE.md) in a pull request.
  *
  * Commit message conventions:
  * - [INTENT:ADD] path/to/AGENTS.md - Description
  * - [INTENT:UPDATE] path/to/AGENTS.md - Description
+ * - [INTENT:DELETE] path/to/AGENTS.md - Description
  * - [INTENT:REVERT] path/to/AGENTS.md - Description
+ * - [INTENT:EXPORT] regenerate derived rule files
  */
 
-import type { SymlinkSource } from "../config/schema.js";
+import type { ExportTarget, SymlinkSource } from "../config/schema.js";
+import { detectIntentLayer, getDetectedFiles } from "../intent/detector.js";
+import {
+	getDerivedFileChanges,
+	isExportPath,
+	renderDerivedFiles,
+} from "../intent/export.js";
+import { buildHierarchy } from "../intent/hierarchy.js";
+import { getIntentFileType, type IntentFileType } from "../intent/kinds.js";
 import type { IntentUpdate } from "../opencode/output-schema.js";
-import type { GitHubClient } from "./client.js";
+import { GitHubRepositorySource } from "../repository/github.js";
+import type { FileChange, GitHubClient } from "./client.js";
 
 /**
  * Result of a commit operation.
@@ -77,6 +88,22 @@ export function generateUpdateCommitMessage(
 	return `[INTENT:UPDATE] ${nodePath} - ${truncatedReason}`;
 }
 
+/**
+ * Generate a commit message for an INTENT:DELETE operation.
+ *
+ * @param nodePath - Path to the intent file being deleted
+ * @param reason - Human-readable reason for the change
+ * @returns Formatted commit message
+ */
+export function generateDeleteCommitMessage(
+	nodePath: string,
+	reason: string,
+): string {
+	const truncatedReason =
+		reason.length > 100 ? `${reason.substring(0, 97)}...` : reason;
+	return `[INTENT:DELETE] ${nodePath} - ${truncatedReason}`;
+}
+
 /**
  * Generate a commit message for an INTENT:REVERT operation.
  *
@@ -107,33 +134,7 @@ export async function getFileSha(
 	filePath: string,
 	ref: string,
 ): Promise<string | undefined> {
-	try {
-		const content = await client.getFileContent(filePath, ref);
-		// Handle the case where content is an array (directory listing)
-		if (Array.isArray(content)) {
-			return undefined;
-		}
-		return content.sha;
-	} catch (error) {
-		// File doesn't exist
-		if (isNotFoundError(error)) {
-			return undefined;
-		}
-		throw error;
-	}
-}
-
-/**
- * Check if an error is a GitHub 404 Not Found error.
- *
- * @param error - The error to check
- * @returns True if this is a 404 error
- */
-function isNotFoundError(error: unknown): boolean {
-	if (error && typeof error === "object" && "status" in error) {
-		return (error as { status: number }).status === 404;
-	}
-	return false;
+	return new GitHubRepositorySource(client).getFileSha(filePath, ref);
 }
 
 /**
@@ -265,6 +266,51 @@ export async function createIntentAddCommit(
 	};
 }
 
+/**
+ * Check whether a path is the symlink source for the given source setting.
+ *
+ * @param path - Path of an intent file
+ * @param symlinkSource - Which file type is the source
+ * @returns True if the file holds the content rather than the symlink
+ */
+function isSymlinkSourcePath(
+	path: string,
+	symlinkSource: SymlinkSource,
+): boolean {
+	return getIntentFileType(path) === symlinkSource;
+}
+
+/**
+ * Build the file changes for a source file and its symlink.
+ *
+ * @param nodePath - Path to the primary intent file
+ * @param otherNodePath - Path to the secondary intent file
+ * @param content - Content for the source file
+ * @param symlinkSource - Which file type is the source (agents or claude)
+ * @returns Source file change followed by the symlink change
+ */
+function getSymlinkFileChanges(
+	nodePath: string,
+	otherNodePath: string,
+	content: string,
+	symlinkSource: SymlinkSource,
+): Array<{ path: string; content: string; isSymlink: boolean }> {
+	// Determine which file is the source and which is the symlink
+	const nodeIsSource = isSymlinkSourcePath(nodePath, symlinkSource);
+	const sourcePath = nodeIsSource ? nodePath : otherNodePath;
+	const symlinkPath = nodeIsSource ? otherNodePath : nodePath;
+
+	return [
+		{ path: sourcePath, content, isSymlink: false },
+		{
+			path: symlinkPath,
+			// Relative symlink target, just the filename
+			content: getSymlinkTarget(symlinkPath, sourcePath),
+			isSymlink: true,
+		},
+	];
+}
+
 /**
  * Create both source file and symlink in a single commit.
  *
@@ -286,40 +332,9 @@ async function createFilesWithSymlink(
 	branch: string,
 	symlinkSource: SymlinkSource,
 ): Promise<CommitResult> {
-	// Determine which file is the source and which is the symlink
-	const nodeFilename = getFilename(nodePath);
-	const isNodeAgents = nodeFilename === "AGENTS.md";
-
-	let sourcePath: string;
-	let symlinkPath: string;
-
-	if (symlinkSource === "agents") {
-		// AGENTS.md is source, CLAUDE.md is symlink
-		sourcePath = isNodeAgents ? nodePath : otherNodePath;
-		symlinkPath = isNodeAgents ? otherNodePath : nodePath;
-	} else {
-		// CLAUDE.md is source, AGENTS.md is symlink
-		sourcePath = isNodeAgents ? otherNodePath : nodePath;
-		symlinkPath = isNodeAgents ? nodePath : otherNodePath;
-	}
-
-	// Create the symlink target (relative path, just the filename)
-	const symlinkTarget = getSymlinkTarget(symlinkPath, sourcePath);
-
 	// Create both files using the Git Tree API
 	const result = await client.createFilesWithSymlinks(
-		[
-			{
-				path: sourcePath,
-				content: content,
-				isSymlink: false,
-			},
-			{
-				path: symlinkPath,
-				content: symlinkTarget,
-				isSymlink: true,
-			},
-		],
+		getSymlinkFileChanges(nodePath, otherNodePath, content, symlinkSource),
 		message,
 		branch,
 	);
@@ -340,14 +355,14 @@ async function createFilesWithSymlink(
  */
 export function getCommitPrefix(
 	action: IntentUpdate["action"],
-): "[INTENT:ADD]" | "[INTENT:UPDATE]" | "[INTENT:REVERT]" {
+): "[INTENT:ADD]" | "[INTENT:UPDATE]" | "[INTENT:DELETE]" {
 	switch (action) {
 		case "create":
 			return "[INTENT:ADD]";
 		case "update":
 			return "[INTENT:UPDATE]";
 		case "delete":
-			return "[INTENT:REVERT]";
+			return "[INTENT:DELETE]";
 	}
 }
 
@@ -358,19 +373,19 @@ export function getCommitPrefix(
  * @returns Parsed information or null if not an intent commit
  */
 export function parseIntentCommitMessage(message: string): {
-	type: "ADD" | "UPDATE" | "REVERT";
+	type: "ADD" | "UPDATE" | "DELETE" | "REVERT";
 	nodePath: string;
 	reason: string;
 } | null {
 	const match = message.match(
-		/^\[INTENT:(ADD|UPDATE|REVERT)\]\s+([^\s]+)\s+-\s+(.+)$/,
+		/^\[INTENT:(ADD|UPDATE|DELETE|REVERT)\]\s+([^\s]+)\s+-\s+(.+)$/,
 	);
 	if (!match) {
 		return null;
 	}
 
 	return {
-		type: match[1] as "ADD" | "UPDATE" | "REVERT",
+		type: match[1] as "ADD" | "UPDATE" | "DELETE" | "REVERT",
 		nodePath: match[2] ?? "",
 		reason: match[3] ?? "",
 	};
@@ -383,7 +398,7 @@ export function parseIntentCommitMessage(message: string): {
  * @returns True if this is an intent layer commit
  */
 export function isIntentCommit(message: string): boolean {
-	return /^\[INTENT:(ADD|UPDATE|REVERT)\]/.test(message);
+	return /^\[INTENT:(ADD|UPDATE|DELETE|REVERT)\]/.test(message);
 }
 
 /**
@@ -459,15 +474,11 @@ export async function createIntentUpdateCommit(
 	// When symlink mode is enabled, we only need to update the source file
 	// The symlink will automatically point to the updated content
 	if (options.symlink && update.otherNodePath) {
-		// Determine which file is the source based on symlinkSource
-		const nodeFilename = getFilename(update.nodePath);
-		const isNodeAgents = nodeFilename === "AGENTS.md";
-		const symlinkSource = options.symlinkSource ?? "agents";
-
-		// Check if nodePath is the source file
-		const nodeIsSource =
-			(symlinkSource === "agents" && isNodeAgents) ||
-			(symlinkSource === "claude" && !isNodeAgents);
+		// Check if nodePath is the source file based on symlinkSource
+		const nodeIsSource = isSymlinkSourcePath(
+			update.nodePath,
+			options.symlinkSource ?? "agents",
+		);
 
 		if (nodeIsSource) {
 			// nodePath is the source, just update it
@@ -546,6 +557,79 @@ export async function createIntentUpdateCommit(
 	};
 }
 
+/**
+ * Create an [INTENT:DELETE] commit that removes an existing intent file.
+ *
+ * When otherNodePath is specified and exists on the branch (either as a
+ * symlink or a synced copy), both files are removed in a single commit so
+ * that reverting the commit restores them together.
+ *
+ * @param client - GitHub client for API operations
+ * @param update - The intent update with action="delete"
+ * @param options - Commit options including branch and symlink settings
+ * @returns Result of the commit operation
+ * @throws Error if the file doesn't exist or update is not a delete action
+ */
+export async function createIntentDeleteCommit(
+	client: GitHubClient,
+	update: IntentUpdate,
+	options: IntentCommitOptions,
+): Promise<CommitResult> {
+	// Validate the update is a delete action
+	if (update.action !== "delete") {
+		throw new Error(
+			`createIntentDeleteCommit requires action="delete", got "${update.action}"`,
+		);
+	}
+
+	// Get the existing file SHA (required for deleting)
+	const existingSha = await getFileSha(client, update.nodePath, options.branch);
+	if (!existingSha) {
+		throw new Error(
+			`Cannot delete ${update.nodePath}: file does not exist on branch ${options.branch}`,
+		);
+	}
+
+	// Generate commit message
+	const commitMessage = generateDeleteCommitMessage(
+		update.nodePath,
+		update.reason,
+	);
+
+	const otherExistingSha = update.otherNodePath
+		? await getFileSha(client, update.otherNodePath, options.branch)
+		: undefined;
+
+	// Remove both files in one commit when the other file is managed alongside
+	if (update.otherNodePath && otherExistingSha) {
+		const result = await client.deleteFiles(
+			[update.nodePath, update.otherNodePath],
+			commitMessage,
+			options.branch,
+		);
+		return {
+			sha: result.sha,
+			url: result.url,
+			filePath: update.nodePath,
+			message: commitMessage,
+		};
+	}
+
+	const result = await client.deleteFile(
+		update.nodePath,
+		commitMessage,
+		options.branch,
+		existingSha,
+	);
+
+	return {
+		sha: result.commit.sha ?? "",
+		url: result.commit.html_url ?? "",
+		filePath: update.nodePath,
+		message: commitMessage,
+	};
+}
+
 /**
  * Get the content of a file at a specific commit.
  * Returns undefined if the file didn't exist at that commit.
@@ -560,39 +644,9 @@ async function getFileContentAtCommit(
 	filePath: string,
 	ref: string,
 ): Promise<string | undefined> {
-	try {
-		const content = await client.getFileContent(filePath, ref);
-		// Handle the case where content is an array (directory listing)
-		if (Array.isArray(content)) {
-			return undefined;
-		}
-		// Content is base64 encoded
-		if ("content" in content && content.content) {
-			return Buffer.from(content.content, "base64").toString("utf-8");
-		}
-		return undefined;
-	} catch (error) {
-		// File doesn't exist at this commit
-		if (isNotFoundError(error)) {
-			return undefined;
-		}
-		throw error;
-	}
+	return new GitHubRepositorySource(client).readFile(filePath, ref);
 }
 
-/**
- * Create an [INTENT:REVERT] commit that restores an intent file to its pre-commit state.
- *
- * This performs a file-level revert by:
- * 1. Getting the parent commit of the appliedCommit
- * 2. Fetching the file content from the parent commit
- * 3. Either restoring that content or deleting the file if it didn't exist before
- *
- * @param client - GitHub client for API operations
- * @param options - Revert options including appliedCommit SHA
- * @returns Result of the commit operation
- * @throws Error if the appliedCommit cannot be found or has no parent
- */
 /**
  * Result of creating an intent layer branch.
  */
@@ -624,7 +678,8 @@ export function generateIntentLayerBranchName(prNumber: number): string {
  *
  * @param client - GitHub client for API operations
  * @param prNumber - The pull request number (used in branch name)
- * @param baseSha - The SHA to base the new branch on (typically the PR's head SHA)
+ * @param baseSha - The SHA to base the new branch on (the PR's head SHA, or its
+ *   base SHA when the head branch lives in a fork)
  * @returns Result containing the branch name and ref info
  * @throws Error if the branch already exists or creation fails
  */
@@ -644,6 +699,53 @@ export async function createIntentLayerBranch(
 	};
 }
 
+/**
+ * Generate the branch name for an audit refresh PR.
+ *
+ * @param baseSha - The audited commit SHA
+ * @returns Branch name in the format `intent-layer/audit-<short-sha>`
+ */
+export function generateAuditBranchName(baseSha: string): string {
+	return `intent-layer/audit-${baseSha.substring(0, 7)}`;
+}
+
+/**
+ * Create a branch for the updates proposed by a repository audit.
+ *
+ * @param client - GitHub client for API operations
+ * @param baseSha - The audited commit SHA (typically the default branch head)
+ * @returns Result containing the branch name and ref info
+ * @throws Error if the branch already exists or creation fails
+ */
+export async function createAuditBranch(
+	client: GitHubClient,
+	baseSha: string,
+): Promise<IntentLayerBranchResult> {
+	const branchName = generateAuditBranchName(baseSha);
+
+	const refData = await client.createBranch(branchName, baseSha);
+
+	return {
+		branchName,
+		sha: refData.object.sha,
+		ref: refData.ref,
+	};
+}
+
+/**
+ * Create an [INTENT:REVERT] commit that restores an intent file to its pre-commit state.
+ *
+ * This performs a file-level revert by:
+ * 1. Getting the parent commit of the appliedCommit
+ * 2. Fetching the file content from the parent commit
+ * 3. Restoring that content, recreating the file if the intent commit deleted it,
+ *    or deleting the file if it didn't exist before
+ *
+ * @param client - GitHub client for API operations
+ * @param options - Revert options including appliedCommit SHA
+ * @returns Result of the commit operation
+ * @throws Error if the appliedCommit cannot be found or has no parent
+ */
 export async function createIntentRevertCommit(
 	client: GitHubClient,
 	options: RevertCommitOptions,
@@ -676,11 +778,11 @@ export async function createIntentRevertCommit(
 	// Generate commit message
 	const commitMessage = generateRevertCommitMessage(nodePath, reason);
 
+	const currentSha = await getFileSha(client, nodePath, branch);
 	let result: { commit: { sha?: string; html_url?: string } };
 
 	if (previousContent === undefined) {
 		// File didn't exist before the intent commit - delete it
-		const currentSha = await getFileSha(client, nodePath, branch);
 		if (!currentSha) {
 			throw new Error(
 				`Cannot revert ${nodePath}: file no longer exists on branch ${branch}`,
@@ -693,15 +795,34 @@ export async function createIntentRevertCommit(
 			branch,
 			currentSha,
 		);
-	} else {
-		// File existed before - restore its previous content
-		const currentSha = await getFileSha(client, nodePath, branch);
-		if (!currentSha) {
-			throw new Error(
-				`Cannot revert ${nodePath}: file no longer exists on branch ${branch}`,
+	} else if (!currentSha) {
+		// File was removed by the intent commit (INTENT:DELETE) - recreate it
+		const otherCurrentSha = otherNodePath
+			? await getFileSha(client, otherNodePath, branch)
+			: undefined;
+
+		if (options.symlink && otherNodePath && !otherCurrentSha) {
+			// Restore the source file and its symlink together
+			return createFilesWithSymlink(
+				client,
+				nodePath,
+				otherNodePath,
+				previousContent,
+				commitMessage,
+				branch,
+				options.symlinkSource ?? "agents",
 			);
 		}
 
+		result = await client.createOrUpdateFile(
+			nodePath,
+			previousContent,
+			commitMessage,
+			branch,
+			undefined,
+		);
+	} else {
+		// File existed before - restore its previous content
 		result = await client.createOrUpdateFile(
 			nodePath,
 			previousContent,
@@ -719,10 +840,18 @@ export async function createIntentRevertCommit(
 			parentSha,
 		);
 		const otherCurrentSha = await getFileSha(client, otherNodePath, branch);
+		const otherCommitMessage = `[INTENT:REVERT] ${otherNodePath} - Sync with ${nodePath}`;
 
-		if (otherCurrentSha) {
-			const otherCommitMessage = `[INTENT:REVERT] ${otherNodePath} - Sync with ${nodePath}`;
-
+		if (!otherCurrentSha && otherPreviousContent !== undefined) {
+			// Other file was removed alongside nodePath - recreate it
+			await client.createOrUpdateFile(
+				otherNodePath,
+				otherPreviousContent,
+				otherCommitMessage,
+				branch,
+				undefined,
+			);
+		} else if (otherCurrentSha) {
 			if (otherPreviousContent === undefined) {
 				// Other file didn't exist before - delete it
 				await client.deleteFile(
@@ -756,104 +885,246 @@ export async function createIntentRevertCommit(
  * Result of applying multiple intent updates to a branch.
  */
 export interface ApplyUpdatesResult {
-	/** Array of commit results for each successfully applied update */
-	commits: CommitResult[];
+	/** The single commit containing every update (undefined if nothing was applied) */
+	commit?: BatchCommitResult;
 	/** Number of updates successfully applied */
 	appliedCount: number;
 	/** Total number of updates attempted */
 	totalCount: number;
-	/** Any errors that occurred during application */
+	/** Any errors that prevented the updates from being applied */
 	errors: Array<{ update: IntentUpdate; error: string }>;
 }
 
+/**
+ * Result of committing a batch of intent updates.
+ */
+export interface BatchCommitResult {
+	/** SHA of the created commit */
+	sha: string;
+	/** URL to view the commit on GitHub */
+	url: string;
+	/** The commit message used */
+	message: string;
+	/** Paths of every file written or deleted by the commit */
+	filePaths: string[];
+}
+
 /**
  * Options for applying updates to a branch.
  */
 export interface ApplyUpdatesOptions extends IntentCommitOptions {
 	/**
-	 * Whether to stop on first error (default: false).
-	 * When false, continues applying remaining updates even if one fails.
+	 * SHA the branch head is expected to point at (typically the analyzed
+	 * PR head). Defaults to the branch head when the run starts. If the
+	 * branch moves away from it, no updates are applied.
 	 */
-	stopOnError?: boolean;
+	expectedHeadSha?: string;
 }
 
 /**
- * Apply all suggested intent layer changes to a branch.
+ * Apply all suggested intent layer changes to a branch in a single commit.
  *
- * This function is used by `output: new_pr` mode to apply all proposed
- * intent layer updates to a branch without requiring approval checkboxes.
- * Each update is applied in sequence, creating individual commits.
+ * This function is used by `output: pr_commit` and `output: new_pr` modes to
+ * apply all proposed intent layer updates without requiring approval
+ * checkboxes. Every update is validated against the same head commit and the
+ * resulting file changes are written as one tree, so the branch either
+ * receives all updates or none of them.
  *
  * The function handles:
- * - Create actions: Creates new intent files using `createIntentAddCommit`
- * - Update actions: Updates existing intent files using `createIntentUpdateCommit`
- * - Delete actions: Not yet implemented (rare use case)
+ * - Create actions: the file must not exist yet
+ * - Update actions: the file must already exist
+ * - Delete actions: the file must exist and is removed
+ *
+ * When otherNodePath is specified, the other file is kept in sync the same way
+ * the individual commit functions do (as a symlink or a copy).
  *
  * @param client - GitHub client for API operations
  * @param updates - Array of intent updates to apply
  * @param options - Options including branch name and symlink settings
- * @returns Result containing all commit results and any errors
+ * @returns Result containing the batch commit and any errors
  */
 export async function applyUpdatesToBranch(
 	client: GitHubClient,
 	updates: IntentUpdate[],
 	options: ApplyUpdatesOptions,
 ): Promise<ApplyUpdatesResult> {
-	const commits: CommitResult[] = [];
+	const totalCount = updates.length;
+
+	if (updates.length === 0) {
+		return { appliedCount: 0, totalCount, errors: [] };
+	}
+
+	const headSha =
+		options.expectedHeadSha ??
+		(await client.getRef(`heads/${options.branch}`)).object.sha;
+
+	// Validate every update against the same head before writing anything
+	const changes = new Map<string, FileChange>();
 	const errors: Array<{ update: IntentUpdate; error: string }> = [];
-	const stopOnError = options.stopOnError ?? false;
 
 	for (const update of updates) {
 		try {
-			let result: CommitResult;
-
-			switch (update.action) {
-				case "create":
-					result = await createIntentAddCommit(client, update, options);
-					break;
-
-				case "update":
-					result = await createIntentUpdateCommit(client, update, options);
-					break;
-
-				case "delete":
-					// Delete actions are rare and typically handled via revert
-					// For now, skip delete actions in batch apply
-					// TODO: Implement delete handling if needed
-					continue;
-
-				default:
-					// TypeScript exhaustive check
-					throw new Error(
-						`Unknown action type: ${(update as IntentUpdate).action}`,
-					);
+			for (const change of await getUpdateFileChanges(
+				client,
+				update,
+				headSha,
+				options,
+			)) {
+				if (changes.has(change.path)) {
+					throw new Error(`${change.path} is changed by more than one update`);
+				}
+				changes.set(change.path, change);
 			}
-
-			commits.push(result);
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
 			errors.push({ update, error: errorMessage });
+		}
+	}
 
-			if (stopOnError) {
-				break;
+	if (errors.length > 0) {
+		return { appliedCount: 0, totalCount, errors };
+	}
+
+	const message = generateBatchCommitMessage();
+
+	try {
+		const result = await client.commitFileChanges(
+			[...changes.values()],
+			message,
+			options.branch,
+			headSha,
+		);
+
+		return {
+			commit: {
+				sha: result.sha,
+				url: result.url,
+				message,
+				filePaths: [...changes.keys()],
+			},
+			appliedCount: totalCount,
+			totalCount,
+			errors: [],
+		};
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		return {
+			appliedCount: 0,
+			totalCount,
+			errors: updates.map((update) => ({ update, error: errorMessage })),
+		};
+	}
+}
+
+/**
+ * Compute the file changes needed to apply a single intent update.
+ *
+ * @param client - GitHub client for API operations
+ * @param update - The intent update to apply
+ * @param ref - Commit SHA the update is validated against
+ * @param options - Commit options including symlink settings
+ * @returns File changes for the intent file and its synced counterpart
+ * @throws Error if the update is incomplete or does not match the file state
+ */
+async function getUpdateFileChanges(
+	client: GitHubClient,
+	update: IntentUpdate,
+	ref: string,
+	options: IntentCommitOptions,
+): Promise<FileChange[]> {
+	const existingSha = await getFileSha(client, update.nodePath, ref);
+	const otherExistingSha = update.otherNodePath
+		? await getFileSha(client, update.otherNodePath, ref)
+		: undefined;
+
+	switch (update.action) {
+		case "create": {
+			if (!update.suggestedContent) {
+				throw new Error(
+					`Cannot create ${update.nodePath}: no suggested content`,
+				);
+			}
+			if (existingSha) {
+				throw new Error(
+					`Cannot create ${update.nodePath}: file already exists. Use update action instead.`,
+				);
 			}
+			if (!update.otherNodePath || otherExistingSha) {
+				return [{ path: update.nodePath, content: update.suggestedContent }];
+			}
+			if (options.symlink) {
+				return getSymlinkFileChanges(
+					update.nodePath,
+					update.otherNodePath,
+					update.suggestedContent,
+					options.symlinkSource ?? "agents",
+				);
+			}
+			return [
+				{ path: update.nodePath, content: update.suggestedContent },
+				{ path: update.otherNodePath, content: update.suggestedContent },
+			];
 		}
-	}
 
-	return {
-		commits,
-		appliedCount: commits.length,
-		totalCount: updates.length,
-		errors,
-	};
+		case "update": {
+			if (!update.suggestedContent) {
+				throw new Error(
+					`Cannot update ${update.nodePath}: no suggested content`,
+				);
+			}
+			if (!existingSha) {
+				throw new Error(
+					`Cannot update ${update.nodePath}: file does not exist. Use create action instead.`,
+				);
+			}
+			if (!update.otherNodePath || !otherExistingSha) {
+				return [{ path: update.nodePath, content: update.suggestedContent }];
+			}
+			if (options.symlink) {
+				// Only the source file holds content; the symlink follows it
+				const sourcePath = isSymlinkSourcePath(
+					update.nodePath,
+					options.symlinkSource ?? "agents",
+				)
+					? update.nodePath
+					: update.otherNodePath;
+				return [{ path: sourcePath, content: update.suggestedContent }];
+			}
+			return [
+				{ path: update.nodePath, content: update.suggestedContent },
+				{ path: update.otherNodePath, content: update.suggestedContent },
+			];
+		}
+
+		case "delete": {
+			if (!existingSha) {
+				throw new Error(
+					`Cannot delete ${update.nodePath}: file does not exist on branch ${options.branch}`,
+				);
+			}
+			if (update.otherNodePath && otherExistingSha) {
+				return [
+					{ path: update.nodePath, content: null },
+					{ path: update.otherNodePath, content: null },
+				];
+			}
+			return [{ path: update.nodePath, content: null }];
+		}
+
+		default:
+			// TypeScript exhaustive check
+			throw new Error(
+				`Unknown action type: ${(update as IntentUpdate).action}`,
+			);
+	}
 }
 
 /**
  * Generate a summary commit message for batch intent layer updates.
  *
- * This is used when `output: pr_commit` mode applies all changes in a single
- * logical operation (though technically still individual commits via API).
+ * This is used when `output: pr_commit` and `output: new_pr` modes apply all
+ * changes in a single commit.
  *
  * @returns Standard batch commit message
  */
@@ -861,6 +1132,103 @@ export function generateBatchCommitMessage(): string {
 	return "[INTENT] apply intent layer updates";
 }
 
+/**
+ * Options for exporting derived rule files to a branch.
+ */
+export interface ExportDerivedFilesOptions {
+	/** Branch to read the intent layer from and commit to */
+	branch: string;
+	/** Derived rule files to regenerate */
+	targets: ExportTarget[];
+	/** Intent file kind whose hierarchy the files are rendered from */
+	sourceType: IntentFileType;
+}
+
+/**
+ * Result of exporting derived rule files.
+ */
+export interface ExportDerivedFilesResult {
+	/** The commit updating the derived files (undefined if they were current) */
+	commit?: BatchCommitResult;
+	/** Paths not written because they hold a hand-written file */
+	skipped: string[];
+}
+
+/**
+ * Regenerate the derived rule files on a branch from its intent hierarchy.
+ *
+ * Called after an intent commit lands so the derived files never drift from
+ * the intent files they are rendered from. The files are rendered from the
+ * branch head and committed only when they changed.
+ *
+ * @param client - GitHub client for API operations
+ * @param options - Branch, export targets, and source kind
+ * @returns Result containing the export commit, if one was needed
+ */
+export async function exportDerivedFiles(
+	client: GitHubClient,
+	options: ExportDerivedFilesOptions,
+): Promise<ExportDerivedFilesResult> {
+	const headSha = (await client.getRef(`heads/${options.branch}`)).object.sha;
+	const source = new GitHubRepositorySource(client);
+
+	const detection = await detectIntentLayer(source, headSha);
+	const hierarchy = buildHierarchy(
+		getDetectedFiles(detection, options.sourceType),
+		options.sourceType,
+	);
+
+	const contents = new Map<string, string>();
+	for (const path of hierarchy.nodesByPath.keys()) {
+		const content = await source.readFile(path, headSha);
+		if (content !== undefined) {
+			contents.set(path, content);
+		}
+	}
+
+	const existing = new Map<string, string>();
+	for (const entry of await source.listTree(headSha)) {
+		if (entry.type === "blob" && isExportPath(entry.path, options.targets)) {
+			existing.set(entry.path, await source.readBlob(entry.sha));
+		}
+	}
+
+	const { changes, skipped } = getDerivedFileChanges(
+		renderDerivedFiles(hierarchy, options.targets, contents),
+		existing,
+	);
+	if (changes.length === 0) {
+		return { skipped };
+	}
+
+	const message = generateExportCommitMessage();
+	const result = await client.commitFileChanges(
+		changes,
+		message,
+		options.branch,
+		headSha,
+	);
+
+	return {
+		commit: {
+			sha: result.sha,
+			url: result.url,
+			message,
+			filePaths: changes.map((change) => change.path),
+		},
+		skipped,
+	};
+}
+
+/**
+ * Generate the commit message for regenerating derived rule files.
+ *
+ * @returns Standard export commit message
+ */
+export function generateExportCommitMessage(): string {
+	return "[INTENT:EXPORT] regenerate derived rule files";
+}
+
 /**
  * Result of opening an intent layer pull request.
  */
@@ -873,7 +1241,7 @@ export interface IntentLayerPullRequestResult {
 	url: string;
 	/** The head branch (intent-layer/<pr-number>) */
 	headBranch: string;
-	/** The base branch (original PR's head branch) */
+	/** The base branch (original PR's head branch unless overridden) */
 	baseBranch: string;
 }
 
@@ -881,10 +1249,14 @@ export interface IntentLayerPullRequestResult {
  * Options for opening an intent layer pull request.
  */
 export interface OpenIntentLayerPullRequestOptions {
-	/** The original PR number that triggered the intent layer analysis */
-	originalPrNumber: number;
+	/** The original PR number that triggered the intent layer analysis (omitted for audits) */
+	originalPrNumber?: number;
 	/** The head branch of the original PR (base for the new PR) */
-	originalPrHeadBranch: string;
+	originalPrHeadBranch?: string;
+	/** Branch the new PR targets (defaults to originalPrHeadBranch) */
+	baseBranch?: string;
+	/** Branch holding the updates (defaults to intent-layer/<originalPrNumber>) */
+	headBranch?: string;
 	/** Optional custom title for the intent layer PR */
 	title?: string;
 	/** Optional custom body/description for the intent layer PR */
@@ -929,38 +1301,94 @@ This PR contains automated intent layer updates based on the changes in #${origi
 *This PR was automatically generated by the Intent Layer GitHub Action.*`;
 }
 
+/**
+ * Generate the title for an audit refresh PR.
+ *
+ * @returns Audit PR title
+ */
+export function generateAuditPRTitle(): string {
+	return "[Intent Layer] Refresh stale intent nodes";
+}
+
+/**
+ * Generate the body for an audit refresh PR.
+ *
+ * @param auditReport - Markdown audit findings the updates address
+ * @returns Audit PR body with markdown formatting
+ */
+export function generateAuditPRBody(auditReport: string): string {
+	return `## Intent Layer Refresh
+
+This PR contains intent layer updates proposed by a scheduled audit of the repository.
+
+### Audit findings
+
+${auditReport}
+
+### How to review
+
+1. Check that each refreshed node still matches the code it covers
+2. Merge this PR after approving the changes
+
+---
+
+*This PR was automatically generated by the Intent Layer GitHub Action.*`;
+}
+
 /**
  * Open a pull request for intent layer updates targeting the original PR's branch.
  *
  * This is used by `output: new_pr` mode to create a separate PR containing
  * all the intent layer updates, which targets the original PR's head branch.
  * This allows the original PR author to review and merge intent layer changes
- * independently.
+ * independently. Fork PRs pass `baseBranch` because their head branch does
+ * not exist in this repository. Audits have no original PR and pass the
+ * branches, title, and body explicitly.
  *
  * @param client - GitHub client for API operations
  * @param options - Options including original PR info
  * @returns Result containing the created PR details
- * @throws Error if the PR cannot be created
+ * @throws Error if the PR cannot be created or its branches, title, or body
+ *   cannot be determined
  */
 export async function openIntentLayerPullRequest(
 	client: GitHubClient,
 	options: OpenIntentLayerPullRequestOptions,
 ): Promise<IntentLayerPullRequestResult> {
-	const { originalPrNumber, originalPrHeadBranch, title, body } = options;
+	const { originalPrNumber, originalPrHeadBranch } = options;
+	const baseBranch = options.baseBranch ?? originalPrHeadBranch;
 
 	// Generate branch name for the intent layer PR
-	const headBranch = generateIntentLayerBranchName(originalPrNumber);
+	const headBranch =
+		options.headBranch ??
+		(originalPrNumber === undefined
+			? undefined
+			: generateIntentLayerBranchName(originalPrNumber));
 
 	// Use custom or default title/body
-	const prTitle = title ?? generateIntentLayerPRTitle(originalPrNumber);
-	const prBody = body ?? generateIntentLayerPRBody(originalPrNumber);
+	const prTitle =
+		options.title ??
+		(originalPrNumber === undefined
+			? undefined
+			: generateIntentLayerPRTitle(originalPrNumber));
+	const prBody =
+		options.body ??
+		(originalPrNumber === undefined
+			? undefined
+			: generateIntentLayerPRBody(originalPrNumber));
+
+	if (!baseBranch || !headBranch || !prTitle || !prBody) {
+		throw new Error(
+			"Opening an intent layer PR without an original PR requires a base branch, head branch, title, and body",
+		);
+	}
 
 	// Create the pull request
 	const pr = await client.createPullRequest(
 		prTitle,
 		prBody,
 		headBranch,
-		originalPrHeadBranch,
+		baseBranch,
 	);
 
 	return {
@@ -968,6 +1396,6 @@ export async function openIntentLayerPullRequest(
 		title: pr.title,
 		url: pr.html_url,
 		headBranch,
-		baseBranch: originalPrHeadBranch,
+		baseBranch,
 	};
 }
@@ -6,6 +6,20 @@
 import { MAX_PR_LINES_CHANGED } from "../config/defaults";
 import type { GitHubClient } from "./client";
 
+/**
+ * Commit as returned by the GitHub pull request commits API
+ */
+type GitHubCommitData = Awaited<
+	ReturnType<GitHubClient["getPullRequestCommits"]>
+>[number];
+
+/**
+ * File as returned by the GitHub pull request files API
+ */
+type GitHubDiffEntryData = Awaited<
+	ReturnType<GitHubClient["getPullRequestFiles"]>
+>[number];
+
 /**
  * Represents a label on a PR or issue
  */
@@ -58,6 +72,10 @@ export interface PRMetadata {
 	headBranch: string;
 	/** Head SHA (latest commit) */
 	headSha: string;
+	/** Full name (owner/repo) of the repository the head branch lives in, null if it was deleted */
+	headRepo: string | null;
+	/** Whether the head branch lives in a different repository than the base branch */
+	isFork: boolean;
 	/** Base SHA (merge base) */
 	baseSha: string;
 	/** PR creation timestamp (ISO 8601) */
@@ -88,6 +106,8 @@ export async function extractPRMetadata(
 	pullNumber: number,
 ): Promise<PRMetadata> {
 	const pr = await client.getPullRequest(pullNumber);
+	const headRepo = pr.head.repo?.full_name ?? null;
+	const baseRepo = pr.base.repo?.full_name ?? null;
 
 	return {
 		number: pr.number,
@@ -120,6 +140,8 @@ export async function extractPRMetadata(
 		baseBranch: pr.base.ref,
 		headBranch: pr.head.ref,
 		headSha: pr.head.sha,
+		headRepo,
+		isFork: headRepo !== baseRepo,
 		baseSha: pr.base.sha,
 		url: pr.html_url,
 		createdAt: pr.created_at,
@@ -210,7 +232,17 @@ export async function extractPRCommits(
 ): Promise<PRCommit[]> {
 	const commits = await client.getPullRequestCommits(pullNumber);
 
-	return commits.map((commit) => ({
+	return commits.map(toPRCommit);
+}
+
+/**
+ * Convert a GitHub API commit to a PRCommit
+ *
+ * @param commit - Commit from the pull request commits or compare API
+ * @returns Commit in the shape used by the analysis pipeline
+ */
+export function toPRCommit(commit: GitHubCommitData): PRCommit {
+	return {
 		sha: commit.sha,
 		message: commit.commit.message,
 		author: {
@@ -242,7 +274,7 @@ export async function extractPRCommits(
 		url: commit.html_url,
 		commentCount: commit.commit.comment_count,
 		parentShas: commit.parents.map((parent) => parent.sha),
-	}));
+	};
 }
 
 /**
@@ -627,7 +659,32 @@ export async function extractPRDiff(
 	const filesData = await client.getPullRequestFiles(pullNumber);
 
 	// Map API response to our interface
-	const files: PRChangedFile[] = filesData.map((file) => ({
+	const files = filesData.map(toPRChangedFile);
+
+	// Calculate summary statistics
+	const summary = summarizeChangedFiles(files);
+
+	// Optionally fetch raw diff
+	let rawDiff: string | null = null;
+	if (includeRawDiff) {
+		rawDiff = await client.getPullRequestDiff(pullNumber);
+	}
+
+	return {
+		files,
+		summary,
+		rawDiff,
+	};
+}
+
+/**
+ * Convert a GitHub API diff entry to a PRChangedFile
+ *
+ * @param file - File from the pull request files or compare API
+ * @returns Changed file in the shape used by the analysis pipeline
+ */
+export function toPRChangedFile(file: GitHubDiffEntryData): PRChangedFile {
+	return {
 		sha: file.sha,
 		filename: file.filename,
 		status: file.status as PRFileStatus,
@@ -639,10 +696,17 @@ export async function extractPRDiff(
 		contentsUrl: file.contents_url,
 		patch: file.patch ?? null,
 		previousFilename: file.previous_filename ?? null,
-	}));
+	};
+}
 
-	// Calculate summary statistics
-	const summary: PRDiffSummary = {
+/**
+ * Calculate summary statistics for a set of changed files
+ *
+ * @param files - Changed files to summarize
+ * @returns Diff summary with totals per change type
+ */
+export function summarizeChangedFiles(files: PRChangedFile[]): PRDiffSummary {
+	return {
 		totalFiles: files.length,
 		totalAdditions: files.reduce((sum, f) => sum + f.additions, 0),
 		totalDeletions: files.reduce((sum, f) => sum + f.deletions, 0),
@@ -653,18 +717,6 @@ export async function extractPRDiff(
 		).length,
 		filesRenamed: files.filter((f) => f.status === "renamed").length,
 	};
-
-	// Optionally fetch raw diff
-	let rawDiff: string | null = null;
-	if (includeRawDiff) {
-		rawDiff = await client.getPullRequestDiff(pullNumber);
-	}
-
-	return {
-		files,
-		summary,
-		rawDiff,
-	};
 }
 
 /**
@@ -705,7 +757,8 @@ export interface PRSizeCheckResult {
 
 /**
  * Check if a PR exceeds the maximum lines changed threshold.
- * PRs exceeding 100,000 lines changed should be skipped entirely.
+ * PRs exceeding 100,000 lines changed are analyzed in per-node chunks rather
+ * than in a single prompt.
  *
  * @param metadata - PR metadata containing additions and deletions counts
  * @param threshold - Optional custom threshold (defaults to MAX_PR_LINES_CHANGED = 100,000)
@@ -719,7 +772,7 @@ export function isPRTooLarge(
 	const isTooLarge = totalLinesChanged > threshold;
 
 	const message = isTooLarge
-		? `PR exceeds maximum size limit: ${totalLinesChanged.toLocaleString()} lines changed (threshold: ${threshold.toLocaleString()}). Skipping analysis.`
+		? `PR exceeds maximum size limit: ${totalLinesChanged.toLocaleString()} lines changed (threshold: ${threshold.toLocaleString()}).`
 		: `PR size is within limits: ${totalLinesChanged.toLocaleString()} lines changed (threshold: ${threshold.toLocaleString()}).`;
 
 	return {
@@ -0,0 +1,156 @@
+/**
+ * Reviewer Feedback on Intent Layer Comments
+ *
+ * Reviewers can ask for a suggestion to be revised by quote-replying to its
+ * comment, or by linking to it, with guidance such as "don't mention the
+ * cache, mention the retry policy". This module finds the suggestion a reply
+ * refers to and extracts the feedback; the revision itself is requested by
+ * the action entry point.
+ */
+
+import type { IntentUpdate } from "../opencode/output-schema.js";
+import {
+	type CommentMarkerData,
+	type CommentOptions,
+	findIntentLayerComments,
+	generateComment,
+	hasIntentLayerMarker,
+	isCommentResolved,
+	parseCommentMarker,
+} from "./comments.js";
+
+/**
+ * The suggestion a feedback reply refers to.
+ */
+export interface FeedbackTarget {
+	/** ID of the suggestion comment */
+	commentId: number;
+	/** Current body of the suggestion comment */
+	commentBody: string;
+	/** Parsed marker of the suggestion comment */
+	marker: CommentMarkerData;
+	/** The reviewer's guidance, without quoted text */
+	feedback: string;
+}
+
+/**
+ * Pattern matching a link to an issue comment.
+ */
+const COMMENT_LINK_PATTERN = /\S*#issuecomment-(\d+)\S*/g;
+
+/**
+ * Extract the reviewer's own words from a reply, dropping quoted lines and
+ * links to the comment being replied to.
+ *
+ * @param commentBody - The reply comment body
+ * @returns The feedback text, or an empty string if there is none
+ */
+export function extractFeedbackText(commentBody: string): string {
+	return commentBody
+		.split("\n")
+		.filter((line) => !line.trimStart().startsWith(">"))
+		.join("\n")
+		.replace(COMMENT_LINK_PATTERN, "")
+		.trim();
+}
+
+/**
+ * Find the open suggestion a reply gives feedback on.
+ *
+ * A reply that links to a suggestion comment refers to that comment.
+ * Otherwise the quoted text of a quote-reply is matched against the node
+ * paths shown in the suggestions; the most specific path wins, and the newest
+ * comment wins between comments for the same node.
+ *
+ * @param commentBody - The reply comment body
+ * @param comments - Comments on the PR
+ * @returns The suggestion and feedback, or null if the reply is not feedback
+ */
+export function findFeedbackTarget<
+	T extends { body?: string | null; id: number },
+>(commentBody: string, comments: T[]): FeedbackTarget | null {
+	if (hasIntentLayerMarker(commentBody)) {
+		return null;
+	}
+
+	const feedback = extractFeedbackText(commentBody);
+	if (!feedback) {
+		return null;
+	}
+
+	const suggestions = findIntentLayerComments(comments).flatMap((comment) => {
+		if (!comment.body || isCommentResolved(comment.body)) return [];
+		const marker = parseCommentMarker(comment.body);
+		return marker ? [{ id: comment.id, body: comment.body, marker }] : [];
+	});
+
+	const toTarget = (suggestion: (typeof suggestions)[number]) => ({
+		commentId: suggestion.id,
+		commentBody: suggestion.body,
+		marker: suggestion.marker,
+		feedback,
+	});
+
+	// Linked comment
+	for (const match of commentBody.matchAll(COMMENT_LINK_PATTERN)) {
+		const linked = suggestions.find((s) => s.id === Number(match[1]));
+		if (linked) {
+			return toTarget(linked);
+		}
+	}
+
+	// Quote-reply mentioning the node path
+	const quoted = commentBody
+		.split("\n")
+		.filter((line) => line.trimStart().startsWith(">"))
+		.join("\n");
+	if (!quoted) {
+		return null;
+	}
+
+	const [best] = suggestions
+		.filter((s) => mentionsPath(quoted, s.marker.nodePath))
+		.sort(
+			(a, b) =>
+				b.marker.nodePath.length - a.marker.nodePath.length || b.id - a.id,
+		);
+
+	return best ? toTarget(best) : null;
+}
+
+/**
+ * Generate the body of a suggestion comment revised after feedback.
+ *
+ * The comment keeps the node paths recorded in its marker, so the revision
+ * is applied to and reverted from the same files as the original suggestion.
+ *
+ * @param update - The revised update
+ * @param marker - Marker of the suggestion being revised
+ * @param headSha - Current PR head SHA the revision was generated at
+ * @param options - Optional comment generation options
+ * @returns Complete comment body string
+ */
+export function generateRevisedComment(
+	update: IntentUpdate,
+	marker: CommentMarkerData,
+	headSha: string,
+	options: CommentOptions = {},
+): string {
+	return generateComment(
+		{
+			...update,
+			nodePath: marker.nodePath,
+			otherNodePath: marker.otherNodePath,
+		},
+		headSha,
+		options,
+	);
+}
+
+/**
+ * Check whether text mentions a path as a whole word.
+ */
+function mentionsPath(text: string, path: string): boolean {
+	const escaped = path.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	return new RegExp(`(^|[\\s\`(*])${escaped}($|[\\s\`)*,.:])`, "m").test(text);
+}
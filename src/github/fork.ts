@@ -0,0 +1,87 @@
+/**
+ * Fork Pull Request Handling
+ *
+ * Pull requests opened from forks have a head branch that lives in another
+ * repository. The workflow token can read the fork's commits through the
+ * base repository but cannot push to the fork's branch, so outputs that
+ * write to the PR branch are redirected to targets in the base repository.
+ * Branches created there start from the base commit, so the contributor's
+ * unreviewed commits never land on a base repository branch, where they would
+ * run workflows with the repository's secrets.
+ */
+
+import type { Output } from "../config/schema.js";
+import type { PRMetadata } from "./context.js";
+
+/**
+ * Where the action delivers its updates for a pull request.
+ */
+export interface OutputTarget {
+	/** Output mode actually used */
+	output: Output;
+	/** Branch the intent layer PR targets when output is new_pr */
+	newPrBaseBranch: string;
+	/** Commit the intent layer branch starts from when output is new_pr */
+	newPrStartSha: string;
+	/** Why the configured output was changed, if it was */
+	fallbackReason?: string;
+}
+
+/**
+ * Check whether the action can push commits to a pull request's head branch.
+ *
+ * @param prMetadata - Metadata of the pull request
+ * @returns True if the head branch lives in the base repository
+ */
+export function canPushToPRHead(prMetadata: PRMetadata): boolean {
+	return !prMetadata.isFork;
+}
+
+/**
+ * Resolve the output target for a pull request.
+ *
+ * When the head branch lives in a fork, `pr_commit` falls back to
+ * `pr_comments`, and `new_pr` branches from the original PR's base commit and
+ * opens its PR against the base branch instead of the unreachable fork
+ * branch, so the new branch holds only the intent file changes.
+ *
+ * @param output - Configured output mode
+ * @param prMetadata - Metadata of the pull request
+ * @returns Output mode and branches to use
+ */
+export function resolveOutputTarget(
+	output: Output,
+	prMetadata: PRMetadata,
+): OutputTarget {
+	if (canPushToPRHead(prMetadata)) {
+		return {
+			output,
+			newPrBaseBranch: prMetadata.headBranch,
+			newPrStartSha: prMetadata.headSha,
+		};
+	}
+
+	const forkName = prMetadata.headRepo ?? "a deleted fork";
+	switch (output) {
+		case "pr_commit":
+			return {
+				output: "pr_comments",
+				newPrBaseBranch: prMetadata.baseBranch,
+				newPrStartSha: prMetadata.baseSha,
+				fallbackReason: `Head branch lives in ${forkName}, which the action cannot push to; posting suggestions as comments instead`,
+			};
+		case "new_pr":
+			return {
+				output,
+				newPrBaseBranch: prMetadata.baseBranch,
+				newPrStartSha: prMetadata.baseSha,
+				fallbackReason: `Head branch lives in ${forkName}, which the action cannot push to; opening the intent layer PR from ${prMetadata.baseBranch} with only the intent file changes instead`,
+			};
+		default:
+			return {
+				output,
+				newPrBaseBranch: prMetadata.baseBranch,
+				newPrStartSha: prMetadata.baseSha,
+			};
+	}
+}
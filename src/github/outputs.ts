@@ -0,0 +1,426 @@
+/**
+ * Action Outputs and Job Summary
+ *
+ * Publishes the result of an analysis or audit run as step outputs, so later
+ * steps and jobs can gate on it, and in the job summary.
+ */
+
+import * as core from "@actions/core";
+import type { EffectiveConfig } from "../config/directories.js";
+import type { Output } from "../config/schema.js";
+import { formatAuditReport, type HierarchyAudit } from "../intent/audit.js";
+import type { NodeStaleness } from "../intent/staleness.js";
+import {
+	countTokens,
+	type NodeTokenBudgetResult,
+} from "../intent/tokenizer.js";
+import type { IntentUpdate, LLMOutput } from "../opencode/output-schema.js";
+import {
+	formatPromptBudgetReport,
+	isPromptTrimmed,
+	type PromptBudgetReport,
+} from "../opencode/prompt-budget.js";
+import { calculateDiffStats } from "../utils/diff.js";
+import type { PRChangedFile } from "./context.js";
+
+/**
+ * Result of an analyze run, as reported to the workflow.
+ */
+export interface AnalysisReport {
+	/** Output mode the updates were delivered with */
+	output: Output;
+	/** Commit the analysis ran against */
+	headSha?: string;
+	/** Proposed intent updates */
+	updates: IntentUpdate[];
+	/** Changed files that led each node to be analyzed, keyed by node path */
+	triggeringFiles: Map<string, PRChangedFile[]>;
+	/** Token budget results for evaluated existing nodes, keyed by node path */
+	nodeBudgets: Map<string, NodeTokenBudgetResult>;
+	/** Staleness of existing nodes with direct updates, keyed by node path */
+	nodeStaleness: Map<string, NodeStaleness>;
+	/** Settings in effect for analyzed nodes, keyed by node path */
+	nodeConfigs: Map<string, EffectiveConfig>;
+	/** What was cut from each budgeted analysis prompt, keyed by file type */
+	promptBudgets: Map<string, PromptBudgetReport>;
+	/** SHAs of commits created for the updates */
+	commitShas: string[];
+	/** Pull request opened for the updates (output: new_pr) */
+	pullRequest?: { number: number; url: string };
+	/** Check run reporting the updates (output: check) */
+	checkRun?: { id: number; url: string };
+	/** Why the analysis stopped before proposing updates, if it did */
+	skippedReason?: string;
+}
+
+/**
+ * Result of an audit run, as reported to the workflow.
+ */
+export interface AuditReport extends AnalysisReport {
+	/** Audit findings for each managed file type */
+	audits: HierarchyAudit[];
+}
+
+/**
+ * One row of the job summary table.
+ */
+export interface UpdateSummaryRow {
+	/** Path to the intent file */
+	nodePath: string;
+	/** Proposed action */
+	action: IntentUpdate["action"];
+	/** Why the change is proposed */
+	reason: string;
+	/** Lines added by the change */
+	additions: number;
+	/** Lines removed by the change */
+	deletions: number;
+	/** Budget of the proposed content against its covered code, when known */
+	budgetPercent?: number;
+	/** Staleness score of the node before the change, when known */
+	stalenessScore?: number;
+}
+
+/**
+ * One row of the job summary's effective configuration table.
+ */
+export interface ConfigSummaryRow {
+	/** Path to the intent file */
+	nodePath: string;
+	/** Directory configuration files that apply, from shallowest to deepest */
+	sources: string[];
+	/** Token budget threshold in effect */
+	tokenBudgetPercent: number;
+	/** Whether new nodes may be created */
+	newNodes: boolean;
+	/** Patterns of prompts added by directory configuration files */
+	promptPatterns: string[];
+	/** Ignore patterns added by directory configuration files */
+	ignorePatterns: string[];
+}
+
+/**
+ * Create an empty report for an analyze run.
+ *
+ * @param output - Output mode the run is configured with
+ * @returns Report with no updates
+ */
+export function createAnalysisReport(output: Output): AnalysisReport {
+	return {
+		output,
+		updates: [],
+		triggeringFiles: new Map(),
+		nodeBudgets: new Map(),
+		nodeStaleness: new Map(),
+		nodeConfigs: new Map(),
+		promptBudgets: new Map(),
+		commitShas: [],
+	};
+}
+
+/**
+ * Create an empty report for an audit run.
+ *
+ * @param output - Output mode the run is configured with
+ * @returns Report with no findings or updates
+ */
+export function createAuditReport(output: Output): AuditReport {
+	return { ...createAnalysisReport(output), audits: [] };
+}
+
+/**
+ * Build the job summary rows for a report's updates.
+ *
+ * The budget percentage is computed for the proposed content against the
+ * covered code measured for the node, so it is only known for existing nodes
+ * whose budget was evaluated. Likewise, staleness is only known for existing
+ * nodes whose history was read.
+ *
+ * @param report - Analysis report
+ * @returns One row per update
+ */
+export function buildUpdateSummaryRows(
+	report: AnalysisReport,
+): UpdateSummaryRow[] {
+	return report.updates.map((update) => {
+		const stats = calculateDiffStats(
+			update.currentContent ?? "",
+			update.suggestedContent ?? "",
+		);
+		const budget = report.nodeBudgets.get(update.nodePath);
+		const budgetPercent =
+			budget && budget.coveredCodeTokens > 0 && update.action !== "delete"
+				? (countTokens(update.suggestedContent ?? "") /
+						budget.coveredCodeTokens) *
+					100
+				: undefined;
+
+		return {
+			nodePath: update.nodePath,
+			action: update.action,
+			reason: update.reason,
+			additions: stats.additions,
+			deletions: stats.deletions,
+			budgetPercent,
+			stalenessScore: report.nodeStaleness.get(update.nodePath)?.score,
+		};
+	});
+}
+
+/**
+ * Build the job summary rows for the settings in effect for each node.
+ *
+ * Returns no rows when no directory configuration file applies to any node,
+ * since every node then uses the same settings.
+ *
+ * @param report - Analysis report
+ * @returns One row per analyzed node, sorted by path
+ */
+export function buildConfigSummaryRows(
+	report: AnalysisReport,
+): ConfigSummaryRow[] {
+	const entries = [...report.nodeConfigs.entries()];
+	if (!entries.some(([, effective]) => effective.sources.length > 0)) {
+		return [];
+	}
+
+	return entries
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([nodePath, effective]) => ({
+			nodePath,
+			sources: effective.sources,
+			tokenBudgetPercent: effective.config.token_budget_percent,
+			newNodes: effective.config.new_nodes,
+			promptPatterns: effective.prompts.map((prompt) => prompt.pattern),
+			ignorePatterns: effective.ignore,
+		}));
+}
+
+/**
+ * Build the step outputs for a report.
+ *
+ * @param report - Analysis report
+ * @returns Output names mapped to their string values
+ */
+export function buildActionOutputs(
+	report: AnalysisReport,
+): Record<string, string> {
+	const llmOutput: LLMOutput = { updates: report.updates };
+
+	return {
+		updates_count: String(report.updates.length),
+		node_paths: JSON.stringify(report.updates.map((u) => u.nodePath)),
+		commit_shas: JSON.stringify(report.commitShas),
+		pr_number: report.pullRequest ? String(report.pullRequest.number) : "",
+		pr_url: report.pullRequest?.url ?? "",
+		check_run_url: report.checkRun?.url ?? "",
+		llm_output: JSON.stringify(llmOutput),
+	};
+}
+
+/**
+ * Set the step outputs for a report.
+ *
+ * @param report - Analysis report
+ */
+export function setActionOutputs(report: AnalysisReport): void {
+	setOutputs(buildActionOutputs(report));
+}
+
+/**
+ * Build the step outputs for an audit report.
+ *
+ * Includes the analysis outputs for the refresh updates, plus the flagged
+ * node paths and the suggested node paths for uncovered hotspots.
+ *
+ * @param report - Audit report
+ * @returns Output names mapped to their string values
+ */
+export function buildAuditOutputs(report: AuditReport): Record<string, string> {
+	return {
+		...buildActionOutputs(report),
+		stale_nodes: JSON.stringify(
+			report.audits.flatMap((audit) =>
+				audit.staleNodes.map((stale) => stale.node.file.path),
+			),
+		),
+		uncovered_hotspots: JSON.stringify(
+			report.audits.flatMap((audit) =>
+				audit.hotspots.map((hotspot) => hotspot.suggestedNodePath),
+			),
+		),
+	};
+}
+
+/**
+ * Set the step outputs for an audit report.
+ *
+ * @param report - Audit report
+ */
+export function setAuditOutputs(report: AuditReport): void {
+	setOutputs(buildAuditOutputs(report));
+}
+
+/**
+ * Write the report to the job summary.
+ *
+ * Does nothing outside GitHub Actions, where no summary file is configured.
+ *
+ * @param report - Analysis report
+ */
+export async function writeJobSummary(report: AnalysisReport): Promise<void> {
+	if (!process.env.GITHUB_STEP_SUMMARY) {
+		return;
+	}
+
+	const summary = core.summary.addHeading("Intent Layer", 2);
+
+	if (report.skippedReason) {
+		summary.addRaw(report.skippedReason, true);
+	} else if (report.updates.length === 0) {
+		summary.addRaw("No intent layer updates suggested.", true);
+	} else {
+		summary.addRaw(
+			`Proposed ${report.updates.length} intent layer update${report.updates.length === 1 ? "" : "s"} (output: \`${report.output}\`).`,
+			true,
+		);
+		summary.addTable([
+			[
+				{ data: "Node", header: true },
+				{ data: "Action", header: true },
+				{ data: "Reason", header: true },
+				{ data: "Diff", header: true },
+				{ data: "Budget", header: true },
+				{ data: "Staleness", header: true },
+			],
+			...buildUpdateSummaryRows(report).map((row) => [
+				`<code>${escapeHtml(row.nodePath)}</code>`,
+				row.action,
+				escapeHtml(row.reason),
+				`+${row.additions} / -${row.deletions}`,
+				row.budgetPercent === undefined
+					? "—"
+					: `${row.budgetPercent.toFixed(1)}%`,
+				row.stalenessScore === undefined ? "—" : String(row.stalenessScore),
+			]),
+		]);
+	}
+
+	const configRows = buildConfigSummaryRows(report);
+	if (configRows.length > 0) {
+		summary.addHeading("Effective Configuration", 3);
+		summary.addTable([
+			[
+				{ data: "Node", header: true },
+				{ data: "Configuration", header: true },
+				{ data: "Budget", header: true },
+				{ data: "New Nodes", header: true },
+				{ data: "Prompts", header: true },
+				{ data: "Ignore", header: true },
+			],
+			...configRows.map((row) => [
+				`<code>${escapeHtml(row.nodePath)}</code>`,
+				formatCodeList(row.sources, "root"),
+				`${row.tokenBudgetPercent}%`,
+				row.newNodes ? "yes" : "no",
+				formatCodeList(row.promptPatterns, "—"),
+				formatCodeList(row.ignorePatterns, "—"),
+			]),
+		]);
+	}
+
+	const trimmedPrompts = [...report.promptBudgets].filter(([, budget]) =>
+		isPromptTrimmed(budget),
+	);
+	if (trimmedPrompts.length > 0) {
+		summary.addHeading("Prompt Budget", 3);
+		summary.addRaw(
+			"Material was cut from the analysis prompt to fit the model's context window:",
+			true,
+		);
+		summary.addList(
+			trimmedPrompts.map(
+				([fileType, budget]) =>
+					`<code>${fileType}</code>: ${escapeHtml(formatPromptBudgetReport(budget))}`,
+			),
+		);
+	}
+
+	if (report.commitShas.length > 0) {
+		summary.addRaw(
+			`Commits: ${report.commitShas.map((sha) => `<code>${sha.substring(0, 7)}</code>`).join(", ")}`,
+			true,
+		);
+	}
+	if (report.checkRun) {
+		summary.addRaw("Check run: ").addLink("details", report.checkRun.url);
+		summary.addEOL();
+	}
+	if (report.pullRequest) {
+		summary
+			.addRaw("Pull request: ")
+			.addLink(`#${report.pullRequest.number}`, report.pullRequest.url);
+		summary.addEOL();
+	}
+
+	await summary.write();
+}
+
+/**
+ * Write an audit report to the job summary.
+ *
+ * Does nothing outside GitHub Actions, where no summary file is configured.
+ *
+ * @param report - Audit report
+ */
+export async function writeAuditJobSummary(report: AuditReport): Promise<void> {
+	if (!process.env.GITHUB_STEP_SUMMARY) {
+		return;
+	}
+
+	const summary = core.summary.addHeading("Intent Layer Audit", 2);
+
+	if (report.skippedReason) {
+		summary.addRaw(report.skippedReason, true);
+	} else {
+		summary.addRaw(formatAuditReport(report.audits), true);
+	}
+
+	if (report.pullRequest) {
+		summary
+			.addRaw("Refresh pull request: ")
+			.addLink(`#${report.pullRequest.number}`, report.pullRequest.url);
+		summary.addEOL();
+	}
+
+	await summary.write();
+}
+
+/**
+ * Set each step output.
+ */
+function setOutputs(outputs: Record<string, string>): void {
+	for (const [name, value] of Object.entries(outputs)) {
+		core.setOutput(name, value);
+	}
+}
+
+/**
+ * Format values as a comma-separated list of code spans for a table cell.
+ */
+function formatCodeList(values: string[], empty: string): string {
+	return values.length > 0
+		? values.map((value) => `<code>${escapeHtml(value)}</code>`).join(", ")
+		: empty;
+}
+
+/**
+ * Escape text for use inside summary table cells.
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/\n/g, " ");
+}
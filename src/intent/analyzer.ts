@@ -5,6 +5,7 @@
  * This module bridges between PR diff information and the intent layer hierarchy.
  */
 
+import { DEFAULTS } from "../config/defaults";
 import type { PRChangedFile, PRDiff } from "../github/context";
 import type { IntentLayerIgnore } from "../patterns/ignore";
 import {
@@ -14,6 +15,9 @@ import {
 	type IntentHierarchy,
 	type IntentNode,
 } from "./hierarchy";
+import { getIntentFilePath, type IntentFileType } from "./kinds";
+import { formatStaleness, type NodeStaleness } from "./staleness";
+import { findContainingPackage, type WorkspacePackage } from "./workspaces";
 
 /**
  * Result of mapping a single changed file to its covering intent node.
@@ -23,6 +27,8 @@ export interface ChangedFileCoverage {
 	file: PRChangedFile;
 	/** The intent node that covers this file, or undefined if no coverage */
 	coveringNode: IntentNode | undefined;
+	/** The intent node that covered the file's previous path, when it was renamed out of a different node's coverage */
+	previousCoveringNode?: IntentNode;
 	/** Whether this file was ignored by .intentlayerignore */
 	isIgnored: boolean;
 }
@@ -63,6 +69,9 @@ export const UNCOVERED_KEY = "__uncovered__";
 /**
  * Map a single changed file to its covering intent node.
  *
+ * A renamed file is also attributed to the node covering its previous path,
+ * since moving code out of a node's area changes what the node describes.
+ *
  * @param file - The changed file from a PR diff
  * @param hierarchy - The intent hierarchy to search
  * @param ignore - Optional IntentLayerIgnore instance for excluding files
@@ -81,10 +90,18 @@ export function mapChangedFileToCoveringNode(
 	// Find the covering node (even for ignored files, for completeness)
 	const coveringNode = findCoveringNode(filename, hierarchy);
 
+	const previousCoveringNode =
+		file.status === "renamed" && file.previousFilename
+			? findCoveringNode(file.previousFilename, hierarchy)
+			: undefined;
+
 	return {
 		file,
 		coveringNode,
 		isIgnored,
+		...(previousCoveringNode && previousCoveringNode !== coveringNode
+			? { previousCoveringNode }
+			: {}),
 	};
 }
 
@@ -125,13 +142,14 @@ export function mapChangedFilesToNodes(
 			ignoredCount++;
 		}
 
-		// Group by covering node
-		const nodeKey = coverage.coveringNode?.file.path ?? UNCOVERED_KEY;
-
-		if (!byNode.has(nodeKey)) {
-			byNode.set(nodeKey, []);
+		// Group by covering node (and the node covering a renamed file's
+		// previous path)
+		for (const nodeKey of getCoverageNodeKeys(coverage)) {
+			if (!byNode.has(nodeKey)) {
+				byNode.set(nodeKey, []);
+			}
+			byNode.get(nodeKey)?.push(coverage);
 		}
-		byNode.get(nodeKey)?.push(coverage);
 
 		// Count covered vs uncovered (ignoring the ignored status for this count)
 		if (coverage.coveringNode) {
@@ -161,6 +179,17 @@ export function mapChangedFilesToNodes(
 	};
 }
 
+/**
+ * Get the byNode keys a changed file is grouped under.
+ */
+function getCoverageNodeKeys(coverage: ChangedFileCoverage): string[] {
+	const keys = [coverage.coveringNode?.file.path ?? UNCOVERED_KEY];
+	if (coverage.previousCoveringNode) {
+		keys.push(coverage.previousCoveringNode.file.path);
+	}
+	return keys;
+}
+
 /**
  * Get a list of affected intent nodes from a mapping result.
  *
@@ -177,9 +206,11 @@ export function getAffectedNodes(
 	const seen = new Set<string>();
 
 	for (const coverage of mapping.files) {
-		if (coverage.coveringNode && !seen.has(coverage.coveringNode.file.path)) {
-			seen.add(coverage.coveringNode.file.path);
-			nodes.push(coverage.coveringNode);
+		for (const node of [coverage.coveringNode, coverage.previousCoveringNode]) {
+			if (node && !seen.has(node.file.path)) {
+				seen.add(node.file.path);
+				nodes.push(node);
+			}
 		}
 	}
 
@@ -249,6 +280,8 @@ export interface NodeUpdateCandidate {
 	changeSummary: NodeChangeSummary;
 	/** Human-readable explanation of why this node needs an update */
 	updateReason: string;
+	/** How far the node has drifted from its code across earlier commits, if known */
+	staleness?: NodeStaleness;
 }
 
 /**
@@ -269,6 +302,16 @@ export interface NodeChangeSummary {
 	totalDeletions: number;
 }
 
+/**
+ * Options for determining which nodes need updates.
+ */
+export interface DetermineNodesOptions {
+	/** Staleness of affected nodes, keyed by node path */
+	staleness?: Map<string, NodeStaleness>;
+	/** Score at or above which a node's drift is called out in its update reason */
+	stalenessThreshold?: number;
+}
+
 /**
  * Result of determining which nodes need updates.
  */
@@ -290,13 +333,17 @@ export interface NodesNeedingUpdateResult {
  * separate concern handled by reviewParentNodes).
  *
  * A node is considered to need an update if it has at least one non-ignored
- * changed file in its coverage area.
+ * changed file in its coverage area. When staleness is provided, nodes whose
+ * score reaches the threshold have their drift added to the update reason, so
+ * a light touch to a long-neglected node is still treated as significant.
  *
  * @param mapping - The result of mapping changed files to nodes
+ * @param options - Optional staleness information
  * @returns Result containing all nodes that need updates with their change details
  */
 export function determineNodesNeedingUpdate(
 	mapping: ChangedFilesMappingResult,
+	options: DetermineNodesOptions = {},
 ): NodesNeedingUpdateResult {
 	const candidates: NodeUpdateCandidate[] = [];
 
@@ -319,13 +366,25 @@ export function determineNodesNeedingUpdate(
 		const changeSummary = calculateChangeSummary(nonIgnoredFiles);
 
 		// Generate human-readable update reason
-		const updateReason = generateUpdateReason(changeSummary, nonIgnoredFiles);
+		let updateReason = generateUpdateReason(changeSummary, nonIgnoredFiles);
+
+		// Call out drift accumulated before this change
+		const staleness = options.staleness?.get(node.file.path);
+		if (
+			staleness &&
+			options.stalenessThreshold !== undefined &&
+			options.stalenessThreshold > 0 &&
+			staleness.score >= options.stalenessThreshold
+		) {
+			updateReason += `; drifted: ${formatStaleness(staleness)}`;
+		}
 
 		candidates.push({
 			node,
 			changedFiles: nonIgnoredFiles,
 			changeSummary,
 			updateReason,
+			staleness,
 		});
 	}
 
@@ -507,11 +566,12 @@ export function filterIgnoredFiles(
 	// Rebuild byNode map
 	const byNode = new Map<string, ChangedFileCoverage[]>();
 	for (const coverage of files) {
-		const nodeKey = coverage.coveringNode?.file.path ?? UNCOVERED_KEY;
-		if (!byNode.has(nodeKey)) {
-			byNode.set(nodeKey, []);
+		for (const nodeKey of getCoverageNodeKeys(coverage)) {
+			if (!byNode.has(nodeKey)) {
+				byNode.set(nodeKey, []);
+			}
+			byNode.get(nodeKey)?.push(coverage);
 		}
-		byNode.get(nodeKey)?.push(coverage);
 	}
 
 	// Recalculate summary
@@ -761,57 +821,54 @@ export interface SemanticBoundaryResult {
 
 /**
  * Thresholds for identifying semantic boundaries.
- * These are conservative to avoid suggesting too many new nodes.
+ * The defaults are conservative to avoid suggesting too many new nodes.
  */
-const BOUNDARY_THRESHOLDS = {
+export interface BoundaryThresholds {
 	/** Minimum files in a directory to suggest a new node */
-	MIN_FILES_FOR_NODE: 3,
+	minFilesForNode: number;
 	/** Minimum total changes (additions + deletions) to suggest a new node */
-	MIN_CHANGES_FOR_NODE: 50,
+	minChangesForNode: number;
 	/** Confidence boost for directories with "standard" names */
-	STANDARD_DIR_CONFIDENCE_BOOST: 0.2,
+	standardDirConfidenceBoost: number;
 	/** Confidence boost for directories at common package boundaries */
-	PACKAGE_BOUNDARY_CONFIDENCE_BOOST: 0.15,
+	packageBoundaryConfidenceBoost: number;
 	/** Base confidence for any candidate */
-	BASE_CONFIDENCE: 0.3,
+	baseConfidence: number;
 	/** Confidence boost per additional file (capped) */
-	PER_FILE_CONFIDENCE_BOOST: 0.05,
+	perFileConfidenceBoost: number;
 	/** Maximum confidence from file count */
-	MAX_FILE_COUNT_CONFIDENCE: 0.3,
-};
+	maxFileCountConfidence: number;
+	/** Minimum confidence for package roots declared by workspace manifests */
+	workspacePackageConfidence: number;
+}
+
+/**
+ * Options for identifying semantic boundaries.
+ */
+export interface SemanticBoundaryOptions {
+	/** Thresholds for suggesting and scoring candidates */
+	thresholds?: BoundaryThresholds;
+	/**
+	 * Directory names that commonly represent semantic boundaries.
+	 * These get a confidence boost when identified as candidates.
+	 */
+	standardDirs?: readonly string[];
+	/**
+	 * Package roots from workspace manifests. When given, uncovered files are
+	 * grouped under the package that contains them, and package roots replace
+	 * the `packages/*` naming heuristic.
+	 */
+	packages?: WorkspacePackage[];
+}
 
 /**
- * Directory names that commonly represent semantic boundaries.
- * These get a confidence boost when identified as candidates.
+ * Resolved settings for scoring semantic boundary candidates.
  */
-const STANDARD_BOUNDARY_DIRS = new Set([
-	"src",
-	"lib",
-	"packages",
-	"apps",
-	"services",
-	"components",
-	"modules",
-	"api",
-	"web",
-	"core",
-	"utils",
-	"shared",
-	"common",
-	"features",
-	"pages",
-	"routes",
-	"handlers",
-	"controllers",
-	"models",
-	"views",
-	"tests",
-	"test",
-	"__tests__",
-	"spec",
-	"e2e",
-	"integration",
-]);
+interface BoundarySettings {
+	thresholds: BoundaryThresholds;
+	standardDirs: Set<string>;
+	packages: Map<string, WorkspacePackage> | undefined;
+}
 
 /**
  * Identify potential new semantic boundaries in uncovered changed files.
@@ -826,15 +883,21 @@ const STANDARD_BOUNDARY_DIRS = new Set([
  * - The changes are significant enough to warrant dedicated documentation
  * - The directory represents a logical boundary (packages, features, etc.)
  *
+ * When workspace packages are known, files inside a package are grouped under
+ * the package root, so suggestions land on the package rather than one of its
+ * subdirectories.
+ *
  * @param mapping - The result of mapping changed files to nodes
  * @param newNodesAllowed - Whether new node creation is allowed (from config)
- * @param fileType - The type of intent file to suggest ('agents' or 'claude')
+ * @param fileType - The type of intent file to suggest
+ * @param options - Thresholds, standard directory names (defaults from DEFAULTS), and workspace packages
  * @returns Potential semantic boundaries for new intent nodes
  */
 export function identifySemanticBoundaries(
 	mapping: ChangedFilesMappingResult,
 	newNodesAllowed: boolean,
-	fileType: "agents" | "claude" = "agents",
+	fileType: IntentFileType = "agents",
+	options: SemanticBoundaryOptions = {},
 ): SemanticBoundaryResult {
 	// If new nodes are not allowed, return empty result immediately
 	if (!newNodesAllowed) {
@@ -860,15 +923,30 @@ export function identifySemanticBoundaries(
 		};
 	}
 
-	// Group uncovered files by directory
-	const filesByDirectory = groupFilesByDirectory(uncoveredFiles);
+	// Group uncovered files by package root or directory
+	const filesByDirectory = groupFilesByDirectory(
+		uncoveredFiles,
+		options.packages,
+	);
+	const settings: BoundarySettings = {
+		thresholds: options.thresholds ?? DEFAULTS.boundaryThresholds,
+		standardDirs: new Set(
+			(options.standardDirs ?? DEFAULTS.standardBoundaryDirs).map((dir) =>
+				dir.toLowerCase(),
+			),
+		),
+		packages: options.packages?.length
+			? new Map(options.packages.map((pkg) => [pkg.directory, pkg]))
+			: undefined,
+	};
+	const { thresholds } = settings;
 
 	// Build candidates for directories with enough files
 	const candidates: SemanticBoundaryCandidate[] = [];
 
 	for (const [directory, files] of filesByDirectory) {
 		// Skip if not enough files in this directory
-		if (files.length < BOUNDARY_THRESHOLDS.MIN_FILES_FOR_NODE) {
+		if (files.length < thresholds.minFilesForNode) {
 			continue;
 		}
 
@@ -877,7 +955,7 @@ export function identifySemanticBoundaries(
 			changeSummary.totalAdditions + changeSummary.totalDeletions;
 
 		// Skip if changes are too minimal
-		if (totalChanges < BOUNDARY_THRESHOLDS.MIN_CHANGES_FOR_NODE) {
+		if (totalChanges < thresholds.minChangesForNode) {
 			continue;
 		}
 
@@ -886,16 +964,19 @@ export function identifySemanticBoundaries(
 			directory,
 			files,
 			changeSummary,
+			settings,
 		);
 
 		// Generate the suggested node path
-		const intentFileName = fileType === "agents" ? "AGENTS.md" : "CLAUDE.md";
-		const suggestedNodePath = directory
-			? `${directory}/${intentFileName}`
-			: intentFileName;
+		const suggestedNodePath = getIntentFilePath(fileType, directory);
 
 		// Generate reason
-		const reason = generateBoundaryReason(directory, files, changeSummary);
+		const reason = generateBoundaryReason(
+			directory,
+			files,
+			changeSummary,
+			settings,
+		);
 
 		candidates.push({
 			directory,
@@ -925,15 +1006,19 @@ export function identifySemanticBoundaries(
 
 /**
  * Group files by their directory path.
- * Files in subdirectories are grouped into the most specific common directory.
+ * Files in subdirectories are grouped into the most specific common directory,
+ * or into the root of the workspace package containing them.
  */
 function groupFilesByDirectory(
 	files: ChangedFileCoverage[],
+	packages: WorkspacePackage[] = [],
 ): Map<string, ChangedFileCoverage[]> {
 	const byDirectory = new Map<string, ChangedFileCoverage[]>();
 
 	for (const file of files) {
-		const directory = getDirectory(file.file.filename);
+		const directory =
+			findContainingPackage(file.file.filename, packages)?.directory ??
+			getDirectory(file.file.filename);
 
 		if (!byDirectory.has(directory)) {
 			byDirectory.set(directory, []);
@@ -951,26 +1036,28 @@ function calculateBoundaryConfidence(
 	directory: string,
 	files: ChangedFileCoverage[],
 	changeSummary: NodeChangeSummary,
+	{ thresholds, standardDirs, packages }: BoundarySettings,
 ): number {
-	let confidence = BOUNDARY_THRESHOLDS.BASE_CONFIDENCE;
+	let confidence = thresholds.baseConfidence;
 
 	// Boost for file count (capped)
 	const fileCountBoost = Math.min(
-		(files.length - BOUNDARY_THRESHOLDS.MIN_FILES_FOR_NODE) *
-			BOUNDARY_THRESHOLDS.PER_FILE_CONFIDENCE_BOOST,
-		BOUNDARY_THRESHOLDS.MAX_FILE_COUNT_CONFIDENCE,
+		(files.length - thresholds.minFilesForNode) *
+			thresholds.perFileConfidenceBoost,
+		thresholds.maxFileCountConfidence,
 	);
 	confidence += fileCountBoost;
 
 	// Boost for standard directory names
 	const dirName = directory.split("/").pop() || directory;
-	if (STANDARD_BOUNDARY_DIRS.has(dirName.toLowerCase())) {
-		confidence += BOUNDARY_THRESHOLDS.STANDARD_DIR_CONFIDENCE_BOOST;
+	if (standardDirs.has(dirName.toLowerCase())) {
+		confidence += thresholds.standardDirConfidenceBoost;
 	}
 
-	// Boost for package boundary patterns (e.g., packages/*, apps/*)
-	if (isPackageBoundary(directory)) {
-		confidence += BOUNDARY_THRESHOLDS.PACKAGE_BOUNDARY_CONFIDENCE_BOOST;
+	// Boost for package boundary patterns (e.g., packages/*, apps/*) when
+	// there are no workspace manifests to say where packages are
+	if (!packages && isPackageBoundary(directory)) {
+		confidence += thresholds.packageBoundaryConfidenceBoost;
 	}
 
 	// Boost for structural changes (new files being added suggests new semantic area)
@@ -978,6 +1065,11 @@ function calculateBoundaryConfidence(
 		confidence += 0.1;
 	}
 
+	// Package roots declared by a workspace manifest are strong boundaries
+	if (packages?.has(directory)) {
+		confidence = Math.max(confidence, thresholds.workspacePackageConfidence);
+	}
+
 	// Cap confidence at 1.0
 	return Math.min(confidence, 1.0);
 }
@@ -1002,6 +1094,7 @@ function generateBoundaryReason(
 	directory: string,
 	files: ChangedFileCoverage[],
 	changeSummary: NodeChangeSummary,
+	{ standardDirs, packages }: BoundarySettings,
 ): string {
 	const reasons: string[] = [];
 
@@ -1016,12 +1109,15 @@ function generateBoundaryReason(
 	}
 
 	// Standard directory boost
-	if (STANDARD_BOUNDARY_DIRS.has(dirName.toLowerCase())) {
+	if (standardDirs.has(dirName.toLowerCase())) {
 		reasons.push(`"${dirName}" is a common semantic boundary`);
 	}
 
 	// Package boundary
-	if (isPackageBoundary(directory)) {
+	const workspacePackage = packages?.get(directory);
+	if (workspacePackage) {
+		reasons.push(`package root declared by ${workspacePackage.manifest}`);
+	} else if (!packages && isPackageBoundary(directory)) {
 		reasons.push("represents a package/module boundary");
 	}
 
@@ -1056,21 +1152,21 @@ export function getAffectedDirectories(
  * "When no intent layer exists: Only suggest creating root AGENTS.md"
  *
  * @param boundaries - The original semantic boundary result
- * @param fileType - The type of intent file being created ('agents' or 'claude')
+ * @param fileType - The type of intent file being created
  * @returns Filtered semantic boundary result with only root node (if applicable)
  */
 export function filterSemanticBoundariesForInitialization(
 	boundaries: SemanticBoundaryResult,
-	fileType: "agents" | "claude" = "agents",
+	fileType: IntentFileType = "agents",
 ): SemanticBoundaryResult {
 	// If no candidates or new nodes not allowed, return as-is
 	if (!boundaries.hasCandidates || !boundaries.newNodesAllowed) {
 		return boundaries;
 	}
 
-	const intentFileName = fileType === "agents" ? "AGENTS.md" : "CLAUDE.md";
+	const intentFileName = getIntentFilePath(fileType, "");
 
-	// Find the root candidate (directory is empty string, suggestedNodePath is just the filename)
+	// Find the root candidate (directory is empty string, suggestedNodePath is the root file)
 	const rootCandidate = boundaries.candidates.find(
 		(c) => c.directory === "" && c.suggestedNodePath === intentFileName,
 	);
@@ -0,0 +1,550 @@
+/**
+ * Repository-Wide Intent Layer Audit
+ *
+ * PR analysis only looks at a diff, so nodes can drift through direct pushes
+ * or old merges without ever being flagged. The audit (`mode: audit`) walks
+ * every node of a hierarchy at a single commit, measures each node against
+ * the token budget and its drift since it was last updated, and reports stale
+ * nodes and hotspots of code that no nearby node documents.
+ */
+
+import * as core from "@actions/core";
+import type { IntentLayerIgnore } from "../patterns/ignore";
+import type { RepositorySource } from "../repository/source";
+import { fetchFileContents, listRepositoryFiles } from "./budget";
+import {
+	type CoveredFilesResult,
+	findCoveringNode,
+	getCoveredFilesForHierarchy,
+	getDirectory,
+	type IntentHierarchy,
+	type IntentNode,
+} from "./hierarchy";
+import {
+	getIntentFileKind,
+	getIntentFilePath,
+	isIntentFilePath,
+} from "./kinds";
+import {
+	calculateStalenessForNodes,
+	DEFAULT_STALENESS_HISTORY_LIMIT,
+	formatStaleness,
+	type NodeStaleness,
+} from "./staleness";
+import {
+	calculateCoveredCodeTokens,
+	calculateHierarchyTokenBudget,
+	type HierarchyTokenBudgetResult,
+	type NodeTokenBudgetResult,
+	type TokenCountOptions,
+} from "./tokenizer";
+
+/**
+ * Why a node was flagged as stale:
+ * - over-budget: The node exceeds the token budget for its covered code
+ * - no-covered-code: The node no longer covers any files
+ * - drifted: Its covered code changed enough since the node was last updated
+ *   to reach the staleness threshold
+ */
+export type StaleNodeReason = "over-budget" | "no-covered-code" | "drifted";
+
+/**
+ * An intent node flagged by the audit.
+ */
+export interface StaleNode {
+	/** The intent node */
+	node: IntentNode;
+	/** Current content of the node */
+	currentContent: string;
+	/** Why the node was flagged */
+	reason: StaleNodeReason;
+	/** Human-readable explanation of the finding */
+	description: string;
+	/** Token budget result for the node */
+	budget: NodeTokenBudgetResult;
+	/** Drift of the node since it was last updated, if measured */
+	staleness?: NodeStaleness;
+}
+
+/**
+ * A directory with substantial code that has no intent node of its own.
+ */
+export interface UncoveredHotspot {
+	/** Directory without an intent node (empty string for the root) */
+	directory: string;
+	/** Path of the intent file that would document the directory */
+	suggestedNodePath: string;
+	/** Node currently covering the directory, if any */
+	coveringNodePath?: string;
+	/** Files in the directory that the node would cover */
+	files: string[];
+	/** Approximate token count of the files */
+	tokens: number;
+	/** Share of the covering node's code in this directory, when covered */
+	coveragePercent?: number;
+}
+
+/**
+ * Audit findings for a single intent file type.
+ */
+export interface HierarchyAudit {
+	/** The audited hierarchy */
+	hierarchy: IntentHierarchy;
+	/** Covered files for every node, keyed by node path */
+	coveredFilesMap: Map<string, CoveredFilesResult>;
+	/** Token budget results for every node */
+	budget: HierarchyTokenBudgetResult;
+	/** Nodes that need a refresh */
+	staleNodes: StaleNode[];
+	/** Directories that should get an intent node, most code first */
+	hotspots: UncoveredHotspot[];
+	/** Files not covered by any node */
+	uncoveredFiles: string[];
+}
+
+/**
+ * Options controlling the audit.
+ */
+export interface AuditOptions {
+	/** Maximum allowed budget percentage before a node is flagged */
+	budgetThresholdPercent: number;
+	/** Budget percentages overriding budgetThresholdPercent, keyed by node path */
+	nodeBudgetThresholds?: Map<string, number>;
+	/** Staleness score at which a node is flagged (0 or unset to disable) */
+	stalenessThreshold?: number;
+	/** Options for filtering binary/large files when counting tokens */
+	tokenCountOptions?: TokenCountOptions;
+}
+
+/**
+ * Minimum files in a directory to report it as a hotspot.
+ */
+const MIN_FILES_FOR_HOTSPOT = 3;
+
+/**
+ * Minimum share of its covering node's code a directory must hold to be
+ * reported as a hotspot. Uncovered directories only need enough files.
+ */
+const MIN_COVERAGE_PERCENT_FOR_HOTSPOT = 25;
+
+/**
+ * Audit every node of a hierarchy using pre-fetched contents.
+ *
+ * @param hierarchy - The intent hierarchy to audit
+ * @param nodeContents - Map of node path to current node content
+ * @param allFiles - All file paths in the repository
+ * @param fileContents - Map of file path to content
+ * @param options - Audit options
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @param staleness - Staleness of the nodes, keyed by node path
+ * @returns Audit findings for the hierarchy
+ */
+export function auditHierarchy(
+	hierarchy: IntentHierarchy,
+	nodeContents: Map<string, string>,
+	allFiles: string[],
+	fileContents: Map<string, string>,
+	options: AuditOptions,
+	ignore?: IntentLayerIgnore,
+	staleness?: Map<string, NodeStaleness>,
+): HierarchyAudit {
+	const tokenCountOptions = options.tokenCountOptions ?? {};
+	const coveredFilesMap = getCoveredFilesForHierarchy(
+		hierarchy,
+		allFiles,
+		ignore,
+	);
+	const thresholdOf = (nodePath: string) =>
+		options.nodeBudgetThresholds?.get(nodePath) ??
+		options.budgetThresholdPercent;
+	const budget = calculateBudgetByThreshold(
+		coveredFilesMap,
+		nodeContents,
+		fileContents,
+		thresholdOf,
+		tokenCountOptions,
+	);
+
+	const staleNodes: StaleNode[] = [];
+	for (const [nodePath, result] of budget.nodeResults) {
+		const covered = coveredFilesMap.get(nodePath);
+		const node = covered?.node;
+		if (!node) {
+			continue;
+		}
+		const currentContent = nodeContents.get(nodePath) ?? "";
+		const nodeStaleness = staleness?.get(nodePath);
+
+		if (covered.coveredFiles.length === 0) {
+			staleNodes.push({
+				node,
+				currentContent,
+				reason: "no-covered-code",
+				description:
+					covered.ignoredFiles.length > 0
+						? "Every file in this directory is excluded by .intentlayerignore"
+						: "No files remain in this directory",
+				budget: result,
+			});
+		} else if (result.exceedsBudget) {
+			staleNodes.push({
+				node,
+				currentContent,
+				reason: "over-budget",
+				description: `Uses ${result.budgetPercent.toFixed(1)}% of its covered code's tokens (budget: ${thresholdOf(nodePath)}%)`,
+				budget: result,
+				staleness: nodeStaleness,
+			});
+		} else if (
+			nodeStaleness &&
+			options.stalenessThreshold !== undefined &&
+			options.stalenessThreshold > 0 &&
+			nodeStaleness.score >= options.stalenessThreshold
+		) {
+			staleNodes.push({
+				node,
+				currentContent,
+				reason: "drifted",
+				description: `Staleness score ${nodeStaleness.score} (threshold: ${options.stalenessThreshold}): ${formatStaleness(nodeStaleness)}`,
+				budget: result,
+				staleness: nodeStaleness,
+			});
+		}
+	}
+
+	const uncoveredFiles = allFiles
+		.filter(
+			(path) =>
+				!isIntentFilePath(path) &&
+				!ignore?.ignores(path) &&
+				!findCoveringNode(path, hierarchy),
+		)
+		.sort();
+
+	const hotspots = findUncoveredHotspots(
+		hierarchy,
+		coveredFilesMap,
+		budget,
+		uncoveredFiles,
+		fileContents,
+		tokenCountOptions,
+	);
+
+	return {
+		hierarchy,
+		coveredFilesMap,
+		budget,
+		staleNodes,
+		hotspots,
+		uncoveredFiles,
+	};
+}
+
+/**
+ * Find directories with substantial code that lack an intent node.
+ *
+ * Covered files are grouped by the subdirectory directly below their
+ * covering node, and uncovered files by their top-level directory. A group
+ * is a hotspot when it has enough files and, if covered, holds a large share
+ * of its covering node's code.
+ *
+ * @param hierarchy - The intent hierarchy
+ * @param coveredFilesMap - Covered files for every node
+ * @param budget - Token budget results for every node
+ * @param uncoveredFiles - Files not covered by any node
+ * @param fileContents - Map of file path to content
+ * @param options - Options for filtering binary/large files
+ * @returns Hotspots, most code first
+ */
+export function findUncoveredHotspots(
+	hierarchy: IntentHierarchy,
+	coveredFilesMap: Map<string, CoveredFilesResult>,
+	budget: HierarchyTokenBudgetResult,
+	uncoveredFiles: string[],
+	fileContents: Map<string, string>,
+	options: TokenCountOptions = {},
+): UncoveredHotspot[] {
+	const hotspots: UncoveredHotspot[] = [];
+
+	const addHotspots = (
+		groups: Map<string, string[]>,
+		coveringNodePath?: string,
+	) => {
+		const nodeTokens = coveringNodePath
+			? budget.nodeResults.get(coveringNodePath)?.coveredCodeTokens
+			: undefined;
+
+		for (const [directory, files] of groups) {
+			if (files.length < MIN_FILES_FOR_HOTSPOT) {
+				continue;
+			}
+			const tokens = calculateCoveredCodeTokens(
+				files,
+				fileContents,
+				options,
+			).totalTokens;
+			const coveragePercent =
+				coveringNodePath === undefined
+					? undefined
+					: nodeTokens
+						? (tokens / nodeTokens) * 100
+						: 0;
+			if (
+				coveragePercent !== undefined &&
+				coveragePercent < MIN_COVERAGE_PERCENT_FOR_HOTSPOT
+			) {
+				continue;
+			}
+
+			hotspots.push({
+				directory,
+				suggestedNodePath: getIntentFilePath(hierarchy.fileType, directory),
+				coveringNodePath,
+				files,
+				tokens,
+				coveragePercent,
+			});
+		}
+	};
+
+	for (const [nodePath, { node, coveredFiles }] of coveredFilesMap) {
+		addHotspots(groupBySubdirectory(coveredFiles, node.directory), nodePath);
+	}
+	addHotspots(groupBySubdirectory(uncoveredFiles, "", true));
+
+	return hotspots.sort(
+		(a, b) => b.tokens - a.tokens || a.directory.localeCompare(b.directory),
+	);
+}
+
+/**
+ * List the repository at a commit and audit each hierarchy.
+ *
+ * The tree and file contents are fetched once and shared between
+ * hierarchies. Node staleness is read from the history at the audited
+ * commit when a staleness threshold is set; if history cannot be read, nodes
+ * are audited without it.
+ *
+ * @param source - Repository data source
+ * @param hierarchies - Hierarchies to audit (one per managed file type)
+ * @param ref - Commit SHA to audit
+ * @param options - Audit options
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @returns Audit findings for each hierarchy, in the given order
+ */
+export async function auditRepository(
+	source: RepositorySource,
+	hierarchies: IntentHierarchy[],
+	ref: string,
+	options: AuditOptions,
+	ignore?: IntentLayerIgnore,
+): Promise<HierarchyAudit[]> {
+	const treeFiles = await listRepositoryFiles(source, ref);
+	const allFiles = treeFiles.map((file) => file.path);
+	const fileContents = await fetchFileContents(
+		source,
+		treeFiles,
+		allFiles.filter(
+			(path) => !isIntentFilePath(path) && !ignore?.ignores(path),
+		),
+	);
+
+	const audits: HierarchyAudit[] = [];
+	for (const hierarchy of hierarchies) {
+		const nodeContents = new Map<string, string>();
+		for (const nodePath of hierarchy.nodesByPath.keys()) {
+			nodeContents.set(nodePath, (await source.readFile(nodePath, ref)) ?? "");
+		}
+		audits.push(
+			auditHierarchy(
+				hierarchy,
+				nodeContents,
+				allFiles,
+				fileContents,
+				options,
+				ignore,
+				await readHierarchyStaleness(source, hierarchy, ref, options, ignore),
+			),
+		);
+	}
+
+	return audits;
+}
+
+/**
+ * Check whether an audit found anything to refresh.
+ *
+ * @param audit - Audit findings for a hierarchy
+ * @returns True if there are stale nodes or hotspots
+ */
+export function hasAuditFindings(audit: HierarchyAudit): boolean {
+	return audit.staleNodes.length > 0 || audit.hotspots.length > 0;
+}
+
+/**
+ * Format audit findings as Markdown for the job summary and refresh PR.
+ *
+ * @param audits - Audit findings for each hierarchy
+ * @returns Markdown report
+ */
+export function formatAuditReport(audits: HierarchyAudit[]): string {
+	const lines: string[] = [];
+
+	for (const audit of audits) {
+		lines.push(`### ${getIntentFileKind(audit.hierarchy.fileType).label}`);
+		lines.push("");
+		lines.push(
+			`Audited ${audit.budget.totalNodes} node${audit.budget.totalNodes === 1 ? "" : "s"}; ${audit.uncoveredFiles.length} file${audit.uncoveredFiles.length === 1 ? " is" : "s are"} not covered by any node.`,
+		);
+		lines.push("");
+
+		if (!hasAuditFindings(audit)) {
+			lines.push("No stale nodes or uncovered hotspots found.");
+			lines.push("");
+			continue;
+		}
+
+		if (audit.staleNodes.length > 0) {
+			lines.push("**Stale nodes**");
+			lines.push("");
+			for (const stale of audit.staleNodes) {
+				lines.push(`- \`${stale.node.file.path}\`: ${stale.description}`);
+			}
+			lines.push("");
+		}
+
+		if (audit.hotspots.length > 0) {
+			lines.push("**Uncovered hotspots**");
+			lines.push("");
+			for (const hotspot of audit.hotspots) {
+				const coverage = hotspot.coveringNodePath
+					? `${hotspot.coveragePercent?.toFixed(0)}% of \`${hotspot.coveringNodePath}\`'s code`
+					: "not covered by any node";
+				lines.push(
+					`- \`${hotspot.directory || "."}/\`: ${hotspot.files.length} files, ~${hotspot.tokens} tokens, ${coverage} (suggested: \`${hotspot.suggestedNodePath}\`)`,
+				);
+			}
+			lines.push("");
+		}
+	}
+
+	return lines.join("\n").trimEnd();
+}
+
+/**
+ * Calculate the token budget of every node, each against its own threshold.
+ * Nodes sharing a threshold are calculated together.
+ */
+function calculateBudgetByThreshold(
+	coveredFilesMap: Map<string, CoveredFilesResult>,
+	nodeContents: Map<string, string>,
+	fileContents: Map<string, string>,
+	thresholdOf: (nodePath: string) => number,
+	options: TokenCountOptions,
+): HierarchyTokenBudgetResult {
+	const groups = new Map<number, Map<string, CoveredFilesResult>>();
+	for (const [nodePath, covered] of coveredFilesMap) {
+		const threshold = thresholdOf(nodePath);
+		const group = groups.get(threshold) ?? new Map();
+		group.set(nodePath, covered);
+		groups.set(threshold, group);
+	}
+
+	const nodeResults = new Map<string, NodeTokenBudgetResult>();
+	for (const [threshold, group] of groups) {
+		const groupBudget = calculateHierarchyTokenBudget(
+			group,
+			nodeContents,
+			fileContents,
+			threshold,
+			options,
+		);
+		for (const [nodePath, result] of groupBudget.nodeResults) {
+			nodeResults.set(nodePath, result);
+		}
+	}
+
+	// Keep the hierarchy's node order regardless of grouping
+	const ordered = new Map(
+		[...coveredFilesMap.keys()].flatMap((nodePath) => {
+			const result = nodeResults.get(nodePath);
+			return result ? [[nodePath, result] as const] : [];
+		}),
+	);
+	const nodesExceedingBudget = [...ordered.values()].filter(
+		(result) => result.exceedsBudget,
+	);
+	return {
+		nodeResults: ordered,
+		nodesExceedingBudget,
+		totalNodes: ordered.size,
+		exceedingCount: nodesExceedingBudget.length,
+	};
+}
+
+/**
+ * Read the staleness of every node of a hierarchy, or nothing when staleness
+ * is disabled or history cannot be read.
+ */
+async function readHierarchyStaleness(
+	source: RepositorySource,
+	hierarchy: IntentHierarchy,
+	ref: string,
+	options: AuditOptions,
+	ignore?: IntentLayerIgnore,
+): Promise<Map<string, NodeStaleness> | undefined> {
+	if (!options.stalenessThreshold || options.stalenessThreshold <= 0) {
+		return undefined;
+	}
+
+	try {
+		return await calculateStalenessForNodes(
+			source,
+			[...hierarchy.nodesByPath.values()],
+			hierarchy,
+			ref,
+			{ historyLimit: DEFAULT_STALENESS_HISTORY_LIMIT },
+			ignore,
+		);
+	} catch (error) {
+		core.warning(
+			`Could not read history for node staleness: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return undefined;
+	}
+}
+
+/**
+ * Group files by the directory directly below a parent directory.
+ *
+ * Files directly in the parent are left out unless `includeParent` is set,
+ * since they are already documented by the parent's node.
+ */
+function groupBySubdirectory(
+	files: string[],
+	parentDir: string,
+	includeParent = false,
+): Map<string, string[]> {
+	const groups = new Map<string, string[]>();
+
+	for (const file of files) {
+		const fileDir = getDirectory(file);
+		let directory: string;
+		if (fileDir === parentDir) {
+			if (!includeParent) continue;
+			directory = parentDir;
+		} else {
+			const relative = parentDir
+				? fileDir.slice(parentDir.length + 1)
+				: fileDir;
+			const segment = relative.split("/")[0] ?? relative;
+			directory = parentDir ? `${parentDir}/${segment}` : segment;
+		}
+
+		const group = groups.get(directory) ?? [];
+		group.push(file);
+		groups.set(directory, group);
+	}
+
+	return groups;
+}
@@ -0,0 +1,294 @@
+/**
+ * Intent Node Budget Evaluation
+ *
+ * Fetches the code covered by intent nodes and evaluates each node against
+ * the configured token budget. Nodes that exceed the budget are analyzed for
+ * potential splits into smaller, directory-focused child nodes.
+ */
+
+import type { IntentLayerIgnore } from "../patterns/ignore";
+import { type RepositorySource, SYMLINK_MODE } from "../repository/source";
+import {
+	type CoveredFilesResult,
+	getCoveredFilesForNode,
+	type IntentHierarchy,
+} from "./hierarchy";
+import { getIntentFilePath } from "./kinds";
+import {
+	analyzeHierarchyForSplits,
+	calculateHierarchyTokenBudget,
+	type HierarchySplitAnalysis,
+	type HierarchyTokenBudgetResult,
+	type TokenCountOptions,
+} from "./tokenizer";
+
+/**
+ * A regular file entry from the repository tree.
+ */
+export interface RepositoryTreeFile {
+	/** File path relative to repository root */
+	path: string;
+	/** Blob SHA of the file */
+	sha: string;
+	/** File size in bytes, when reported by the tree API */
+	size?: number;
+}
+
+/**
+ * Options controlling node budget evaluation.
+ */
+export interface NodeBudgetOptions {
+	/** Maximum allowed budget percentage before a node is considered too large */
+	budgetThresholdPercent: number;
+	/** Whether to analyze over-budget nodes for split suggestions */
+	splitLargeNodes: boolean;
+	/** Options for filtering binary/large files when counting tokens */
+	tokenCountOptions?: TokenCountOptions;
+}
+
+/**
+ * Result of evaluating a set of intent nodes against the token budget.
+ */
+export interface NodeBudgetEvaluation {
+	/** Covered files for each evaluated node, keyed by node path */
+	coveredFilesMap: Map<string, CoveredFilesResult>;
+	/** Token budget results for the evaluated nodes */
+	budget: HierarchyTokenBudgetResult;
+	/** Split analysis for over-budget nodes (empty when splitting is disabled) */
+	splitAnalysis: HierarchySplitAnalysis;
+}
+
+/**
+ * Number of blobs fetched concurrently when loading covered file contents.
+ */
+const BLOB_FETCH_CONCURRENCY = 10;
+
+/**
+ * List all regular files in the repository tree at a given ref.
+ *
+ * Symlinks and submodules are excluded since they do not contribute
+ * covered code of their own.
+ *
+ * @param source - Repository data source
+ * @param ref - Branch, tag, or commit SHA to list files for
+ * @returns Array of repository files with their blob SHAs
+ * @throws {RepositoryTreeTooLargeError} If the GitHub source cannot list the full tree
+ */
+export async function listRepositoryFiles(
+	source: RepositorySource,
+	ref: string,
+): Promise<RepositoryTreeFile[]> {
+	const tree = await source.listTree(ref);
+
+	const files: RepositoryTreeFile[] = [];
+	for (const item of tree) {
+		if (item.type !== "blob" || item.mode === SYMLINK_MODE) {
+			continue;
+		}
+		files.push({ path: item.path, sha: item.sha, size: item.size });
+	}
+
+	return files;
+}
+
+/**
+ * Fetch the contents of the given paths from the repository tree.
+ *
+ * Paths not present in the tree, or whose blobs cannot be read, are omitted
+ * from the result so they are treated as uncounted by the tokenizer.
+ *
+ * @param source - Repository data source
+ * @param treeFiles - Repository files (from listRepositoryFiles)
+ * @param paths - Paths whose contents should be fetched
+ * @returns Map of file path to decoded UTF-8 content
+ */
+export async function fetchFileContents(
+	source: RepositorySource,
+	treeFiles: RepositoryTreeFile[],
+	paths: Iterable<string>,
+): Promise<Map<string, string>> {
+	const shaByPath = new Map(treeFiles.map((file) => [file.path, file.sha]));
+	const pending = [...new Set(paths)].filter((path) => shaByPath.has(path));
+	const contents = new Map<string, string>();
+
+	for (let i = 0; i < pending.length; i += BLOB_FETCH_CONCURRENCY) {
+		const batch = pending.slice(i, i + BLOB_FETCH_CONCURRENCY);
+		await Promise.all(
+			batch.map(async (path) => {
+				try {
+					contents.set(
+						path,
+						await source.readBlob(shaByPath.get(path) as string),
+					);
+				} catch {
+					// Unreadable blob, leave it out of the token count
+				}
+			}),
+		);
+	}
+
+	return contents;
+}
+
+/**
+ * Evaluate intent nodes against the token budget using pre-fetched contents.
+ *
+ * Only nodes present in `nodeContents` are evaluated. Split analysis is run
+ * when `options.splitLargeNodes` is enabled, treating every directory in the
+ * hierarchy as already having an intent node.
+ *
+ * @param hierarchy - The intent hierarchy the nodes belong to
+ * @param nodeContents - Map of node path to current node content
+ * @param allFiles - All file paths in the repository
+ * @param fileContents - Map of file path to content for covered files
+ * @param options - Budget evaluation options
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @returns Budget evaluation for the requested nodes
+ */
+export function evaluateNodeBudgets(
+	hierarchy: IntentHierarchy,
+	nodeContents: Map<string, string>,
+	allFiles: string[],
+	fileContents: Map<string, string>,
+	options: NodeBudgetOptions,
+	ignore?: IntentLayerIgnore,
+): NodeBudgetEvaluation {
+	const coveredFilesMap = getCoveredFilesForNodes(
+		hierarchy,
+		nodeContents,
+		allFiles,
+		ignore,
+	);
+
+	return evaluateCoveredNodeBudgets(
+		hierarchy,
+		coveredFilesMap,
+		nodeContents,
+		fileContents,
+		options,
+	);
+}
+
+/**
+ * Fetch covered code for intent nodes and evaluate them against the token budget.
+ *
+ * Fetches the contents of files covered by each node in `nodeContents` and
+ * runs the budget and split analysis. The tree is listed by the caller, so
+ * it can be shared between evaluations of the same ref.
+ *
+ * @param source - Repository data source
+ * @param hierarchy - The intent hierarchy the nodes belong to
+ * @param nodeContents - Map of node path to current node content
+ * @param treeFiles - Repository files (from listRepositoryFiles)
+ * @param options - Budget evaluation options
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @returns Budget evaluation for the requested nodes
+ */
+export async function analyzeNodeBudgets(
+	source: RepositorySource,
+	hierarchy: IntentHierarchy,
+	nodeContents: Map<string, string>,
+	treeFiles: RepositoryTreeFile[],
+	options: NodeBudgetOptions,
+	ignore?: IntentLayerIgnore,
+): Promise<NodeBudgetEvaluation> {
+	const allFiles = treeFiles.map((file) => file.path);
+
+	// Only fetch contents for files covered by the nodes being evaluated
+	const coveredFilesMap = getCoveredFilesForNodes(
+		hierarchy,
+		nodeContents,
+		allFiles,
+		ignore,
+	);
+	const coveredPaths = [...coveredFilesMap.values()].flatMap(
+		(result) => result.coveredFiles,
+	);
+	const fileContents = await fetchFileContents(source, treeFiles, coveredPaths);
+
+	return evaluateCoveredNodeBudgets(
+		hierarchy,
+		coveredFilesMap,
+		nodeContents,
+		fileContents,
+		options,
+	);
+}
+
+/**
+ * Calculate covered files for the hierarchy nodes present in `nodeContents`.
+ */
+function getCoveredFilesForNodes(
+	hierarchy: IntentHierarchy,
+	nodeContents: Map<string, string>,
+	allFiles: string[],
+	ignore?: IntentLayerIgnore,
+): Map<string, CoveredFilesResult> {
+	const results = new Map<string, CoveredFilesResult>();
+
+	for (const nodePath of nodeContents.keys()) {
+		const node = hierarchy.nodesByPath.get(nodePath);
+		if (!node) {
+			continue;
+		}
+		results.set(
+			nodePath,
+			getCoveredFilesForNode(node, allFiles, hierarchy, ignore),
+		);
+	}
+
+	return results;
+}
+
+/**
+ * Run budget and split analysis for nodes whose covered files are known.
+ */
+function evaluateCoveredNodeBudgets(
+	hierarchy: IntentHierarchy,
+	coveredFilesMap: Map<string, CoveredFilesResult>,
+	nodeContents: Map<string, string>,
+	fileContents: Map<string, string>,
+	options: NodeBudgetOptions,
+): NodeBudgetEvaluation {
+	const tokenCountOptions = options.tokenCountOptions ?? {};
+
+	const budget = calculateHierarchyTokenBudget(
+		coveredFilesMap,
+		nodeContents,
+		fileContents,
+		options.budgetThresholdPercent,
+		tokenCountOptions,
+	);
+
+	if (!options.splitLargeNodes) {
+		return {
+			coveredFilesMap,
+			budget,
+			splitAnalysis: {
+				nodeAnalyses: [],
+				totalSuggestions: 0,
+				nodesToSplit: [],
+			},
+		};
+	}
+
+	const nodeDirectories = new Map<string, string>();
+	const existingNodeDirectories = new Set<string>();
+	for (const node of hierarchy.nodesByPath.values()) {
+		nodeDirectories.set(node.file.path, node.directory);
+		existingNodeDirectories.add(node.directory);
+	}
+
+	const splitAnalysis = analyzeHierarchyForSplits(
+		budget,
+		coveredFilesMap,
+		nodeDirectories,
+		fileContents,
+		options.budgetThresholdPercent,
+		existingNodeDirectories,
+		tokenCountOptions,
+		getIntentFilePath(hierarchy.fileType, ""),
+	);
+
+	return { coveredFilesMap, budget, splitAnalysis };
+}
@@ -1,20 +1,29 @@
 /**
  * Intent Layer Detection
  *
- * Detects existing AGENTS.md and CLAUDE.md files in a repository
- * to build a map of the current intent layer structure.
+ * Detects existing intent files (AGENTS.md, CLAUDE.md, and the other kinds in
+ * the registry) in a repository to build a map of the current intent layer
+ * structure.
  */
 
-import type { GitHubClient } from "../github/client";
+import type {
+	RepositorySource,
+	RepositoryTreeEntry,
+} from "../repository/source";
+import {
+	getIntentFileKind,
+	getIntentFileType,
+	INTENT_FILE_TYPES,
+	type IntentFileType,
+} from "./kinds";
 
-/** Intent file types */
-export type IntentFileType = "agents" | "claude";
+export type { IntentFileType } from "./kinds";
 
 /** Information about a detected intent file */
 export interface IntentFile {
 	/** File path relative to repository root */
 	path: string;
-	/** Type of intent file (agents or claude) */
+	/** Type of intent file (see the kinds registry) */
 	type: IntentFileType;
 	/** Git SHA of the file */
 	sha: string;
@@ -30,9 +39,11 @@ export interface IntentLayerDetectionResult {
 	agentsFiles: IntentFile[];
 	/** All detected CLAUDE.md files */
 	claudeFiles: IntentFile[];
+	/** Detected files of the other registered kinds, keyed by type */
+	otherFiles?: Partial<Record<IntentFileType, IntentFile[]>>;
 }
 
-/** Represents a symlink relationship between an AGENTS.md and CLAUDE.md file at the same path */
+/** Represents a symlink relationship between two intent files at the same path */
 export interface SymlinkRelationship {
 	/** Directory path (empty string for root) */
 	directory: string;
@@ -40,147 +51,165 @@ export interface SymlinkRelationship {
 	source: IntentFile;
 	/** The symlink file (points to source) */
 	symlink: IntentFile;
-	/** Which file type is the source: 'agents' or 'claude' */
+	/** Which file type is the source */
 	sourceType: IntentFileType;
 }
 
-/** File names for intent layer files */
-const AGENTS_FILENAME = "AGENTS.md";
-const CLAUDE_FILENAME = "CLAUDE.md";
-
 /**
  * Detect all AGENTS.md files in the repository.
  *
- * Uses the GitHub Git Trees API to recursively search for AGENTS.md files
- * at all levels of the repository.
+ * Searches the full recursive tree at `ref` so files at every level of the
+ * repository are found.
  *
- * @param client - GitHub API client
- * @param ref - Git ref (branch, tag, or commit SHA) to search. Defaults to default branch.
+ * @param source - Repository data source
+ * @param ref - Git ref (branch, tag, or commit SHA) to search
  * @returns Array of detected AGENTS.md intent files
  */
 export async function detectAgentsFiles(
-	client: GitHubClient,
-	ref?: string,
+	source: RepositorySource,
+	ref: string,
 ): Promise<IntentFile[]> {
-	return detectIntentFiles(client, AGENTS_FILENAME, "agents", ref);
+	return (await detectIntentLayer(source, ref)).agentsFiles;
 }
 
 /**
  * Detect all CLAUDE.md files in the repository.
  *
- * Uses the GitHub Git Trees API to recursively search for CLAUDE.md files
- * at all levels of the repository.
+ * Searches the full recursive tree at `ref` so files at every level of the
+ * repository are found.
  *
- * @param client - GitHub API client
- * @param ref - Git ref (branch, tag, or commit SHA) to search. Defaults to default branch.
+ * @param source - Repository data source
+ * @param ref - Git ref (branch, tag, or commit SHA) to search
  * @returns Array of detected CLAUDE.md intent files
  */
 export async function detectClaudeFiles(
-	client: GitHubClient,
-	ref?: string,
+	source: RepositorySource,
+	ref: string,
 ): Promise<IntentFile[]> {
-	return detectIntentFiles(client, CLAUDE_FILENAME, "claude", ref);
+	return (await detectIntentLayer(source, ref)).claudeFiles;
 }
 
 /**
- * Detect all intent layer files (both AGENTS.md and CLAUDE.md) in the repository.
+ * Detect all intent layer files of every registered kind in the repository.
  *
- * @param client - GitHub API client
- * @param ref - Git ref (branch, tag, or commit SHA) to search. Defaults to default branch.
- * @returns Detection result containing both agents and claude files
+ * @param source - Repository data source
+ * @param ref - Git ref (branch, tag, or commit SHA) to search
+ * @returns Detection result containing the files of each kind
  */
 export async function detectIntentLayer(
-	client: GitHubClient,
-	ref?: string,
+	source: RepositorySource,
+	ref: string,
+): Promise<IntentLayerDetectionResult> {
+	const tree = await source.listTree(ref);
+	return detectIntentLayerInTree(tree, (sha) => source.readBlob(sha));
+}
+
+/**
+ * Detect all intent layer files in an already-listed repository tree.
+ *
+ * Useful when the caller already has the tree listing and wants to avoid
+ * listing it again.
+ *
+ * @param entries - Recursive tree listing of the repository
+ * @param readSymlinkTarget - Reads the target path stored in a symlink blob
+ * @returns Detection result containing the files of each kind
+ */
+export async function detectIntentLayerInTree(
+	entries: RepositoryTreeEntry[],
+	readSymlinkTarget: (sha: string) => Promise<string>,
 ): Promise<IntentLayerDetectionResult> {
-	// Fetch both in parallel for efficiency
-	const [agentsFiles, claudeFiles] = await Promise.all([
-		detectAgentsFiles(client, ref),
-		detectClaudeFiles(client, ref),
-	]);
+	const [agentsFiles = [], claudeFiles = [], ...others] = await Promise.all(
+		INTENT_FILE_TYPES.map((type) =>
+			findIntentFilesInTree(entries, type, readSymlinkTarget),
+		),
+	);
+
+	const otherFiles: Partial<Record<IntentFileType, IntentFile[]>> = {};
+	INTENT_FILE_TYPES.slice(2).forEach((type, index) => {
+		const files = others[index] ?? [];
+		if (files.length > 0) {
+			otherFiles[type] = files;
+		}
+	});
 
 	return {
 		agentsFiles,
 		claudeFiles,
+		...(Object.keys(otherFiles).length > 0 ? { otherFiles } : {}),
 	};
 }
 
 /**
- * Internal helper to detect intent files of a specific type.
+ * Get the detected files of one kind.
  *
- * @param client - GitHub API client
- * @param filename - File name to search for (e.g., "AGENTS.md")
+ * @param result - Detection result from detectIntentLayer
  * @param type - Intent file type
- * @param ref - Git ref to search
- * @returns Array of detected intent files
+ * @returns Detected files of the kind, root first
  */
-async function detectIntentFiles(
-	client: GitHubClient,
-	filename: string,
+export function getDetectedFiles(
+	result: IntentLayerDetectionResult,
 	type: IntentFileType,
-	ref?: string,
-): Promise<IntentFile[]> {
-	const targetRef = ref ?? (await client.getDefaultBranch());
-	const { owner, repo } = client.repo;
-
-	// Get the tree SHA for the ref
-	const { data: refData } = await client.raw.rest.git.getRef({
-		owner,
-		repo,
-		ref: `heads/${targetRef}`,
-	});
-
-	const commitSha = refData.object.sha;
-
-	// Get the commit to find the tree SHA
-	const { data: commitData } = await client.raw.rest.git.getCommit({
-		owner,
-		repo,
-		commit_sha: commitSha,
-	});
-
-	const treeSha = commitData.tree.sha;
+): IntentFile[] {
+	switch (type) {
+		case "agents":
+			return result.agentsFiles;
+		case "claude":
+			return result.claudeFiles;
+		default:
+			return result.otherFiles?.[type] ?? [];
+	}
+}
 
-	// Get the full tree recursively
-	const { data: treeData } = await client.raw.rest.git.getTree({
-		owner,
-		repo,
-		tree_sha: treeSha,
-		recursive: "true",
-	});
+/**
+ * Summarize the detected files of each kind, e.g. "2 AGENTS.md, 1 CLAUDE.md".
+ *
+ * @param result - Detection result from detectIntentLayer
+ * @returns Counts of the kinds with files, or of AGENTS.md and CLAUDE.md if there are none
+ */
+export function formatDetectedFileCounts(
+	result: IntentLayerDetectionResult,
+): string {
+	const counts = INTENT_FILE_TYPES.map(
+		(type) => [type, getDetectedFiles(result, type).length] as const,
+	).filter(
+		([type, count]) => count > 0 || type === "agents" || type === "claude",
+	);
+	return counts
+		.map(([type, count]) => `${count} ${getIntentFileKind(type).label}`)
+		.join(", ");
+}
 
+/**
+ * Internal helper to find intent files of a specific type in a tree listing.
+ *
+ * @param entries - Recursive tree listing of the repository
+ * @param type - Intent file type
+ * @param readSymlinkTarget - Reads the target path stored in a symlink blob
+ * @returns Array of detected intent files, root first
+ */
+async function findIntentFilesInTree(
+	entries: RepositoryTreeEntry[],
+	type: IntentFileType,
+	readSymlinkTarget: (sha: string) => Promise<string>,
+): Promise<IntentFile[]> {
 	// Filter for matching files
-	const matchingFiles = treeData.tree.filter(
-		(item) =>
-			item.type === "blob" &&
-			item.path !== undefined &&
-			(item.path === filename || item.path.endsWith(`/${filename}`)),
+	const matchingFiles = entries.filter(
+		(item) => item.type === "blob" && getIntentFileType(item.path) === type,
 	);
 
 	// Convert to IntentFile objects
 	const intentFiles: IntentFile[] = [];
 
 	for (const file of matchingFiles) {
-		if (!file.path || !file.sha) continue;
-
 		// Check if it's a symlink by looking at the mode
 		// Git mode 120000 indicates a symbolic link
 		const isSymlink = file.mode === "120000";
 		let symlinkTarget: string | undefined;
 
 		if (isSymlink) {
-			// For symlinks, we need to fetch the blob content to get the target
+			// For symlinks, we need to read the blob content to get the target
 			try {
-				const { data: blobData } = await client.raw.rest.git.getBlob({
-					owner,
-					repo,
-					file_sha: file.sha,
-				});
-
-				// Blob content is base64 encoded
-				symlinkTarget = Buffer.from(blobData.content, "base64").toString(
-					"utf-8",
-				);
+				symlinkTarget = await readSymlinkTarget(file.sha);
 			} catch {
 				// If we can't read the symlink target, just mark it as unknown
 				symlinkTarget = undefined;
@@ -211,10 +240,12 @@ async function detectIntentFiles(
  * Check if an intent layer exists in the repository.
  *
  * @param result - Detection result from detectIntentLayer
- * @returns True if at least one AGENTS.md or CLAUDE.md file exists
+ * @returns True if at least one intent file of any kind exists
  */
 export function hasIntentLayer(result: IntentLayerDetectionResult): boolean {
-	return result.agentsFiles.length > 0 || result.claudeFiles.length > 0;
+	return INTENT_FILE_TYPES.some(
+		(type) => getDetectedFiles(result, type).length > 0,
+	);
 }
 
 /**
@@ -254,7 +285,7 @@ function getFilename(path: string): string {
  *
  * @param symlinkPath - Path of the symlink file
  * @param symlinkTarget - Target of the symlink (relative or absolute)
- * @param targetFilename - Expected filename of the target (e.g., "AGENTS.md" or "CLAUDE.md")
+ * @param targetFilename - Expected filename of the target (e.g., "AGENTS.md")
  * @returns True if the symlink points to the target file in the same directory
  */
 function symlinkPointsToFile(
@@ -305,81 +336,98 @@ export interface SymlinkValidationResult {
 	conflictDirectories?: string[];
 }
 
+/**
+ * Index the files of one kind by the directory they sit in.
+ *
+ * @param result - Detection result from detectIntentLayer
+ * @param type - Intent file type
+ * @returns Map from directory to intent file
+ */
+function getFilesByDirectory(
+	result: IntentLayerDetectionResult,
+	type: IntentFileType,
+): Map<string, IntentFile> {
+	const byDir = new Map<string, IntentFile>();
+	for (const file of getDetectedFiles(result, type)) {
+		byDir.set(getDirectory(file.path), file);
+	}
+	return byDir;
+}
+
+/**
+ * Check whether an intent file is a symlink to a file of another kind in the
+ * same directory.
+ *
+ * @param file - Intent file to check
+ * @param targetType - Kind of the expected target
+ * @returns True if the file is a symlink to the target kind's file
+ */
+function isSymlinkTo(file: IntentFile, targetType: IntentFileType): boolean {
+	return Boolean(
+		file.isSymlink &&
+			file.symlinkTarget &&
+			symlinkPointsToFile(
+				file.path,
+				file.symlinkTarget,
+				getIntentFileKind(targetType).filename,
+			),
+	);
+}
+
 /**
  * Validate symlink configuration against the actual repository state.
  *
  * When `symlink: true` is configured, this function checks that intent files
- * at the same directory level are properly symlinked. If both AGENTS.md and
- * CLAUDE.md exist in a directory but neither is a symlink to the other,
- * validation fails.
+ * of the symlinked kinds at the same directory level are properly symlinked.
+ * If both files (e.g. AGENTS.md and CLAUDE.md) exist in a directory but
+ * neither is a symlink to the other, validation fails.
  *
  * @param result - Detection result from detectIntentLayer
  * @param symlinkEnabled - Whether symlink: true is configured
+ * @param types - The two symlinked kinds (defaults to AGENTS.md and CLAUDE.md)
  * @returns Validation result with error details if failed
  */
 export function validateSymlinkConfig(
 	result: IntentLayerDetectionResult,
 	symlinkEnabled: boolean,
+	types: readonly [IntentFileType, IntentFileType] = ["agents", "claude"],
 ): SymlinkValidationResult {
 	// If symlink is disabled, validation always passes
 	if (!symlinkEnabled) {
 		return { valid: true };
 	}
 
-	// Build lookup maps by directory
-	const agentsByDir = new Map<string, IntentFile>();
-	const claudeByDir = new Map<string, IntentFile>();
-
-	for (const file of result.agentsFiles) {
-		agentsByDir.set(getDirectory(file.path), file);
-	}
-
-	for (const file of result.claudeFiles) {
-		claudeByDir.set(getDirectory(file.path), file);
-	}
+	const [firstType, secondType] = types;
+	const firstByDir = getFilesByDirectory(result, firstType);
+	const secondByDir = getFilesByDirectory(result, secondType);
 
 	// Find all directories that have both files
 	const conflictDirectories: string[] = [];
 
-	for (const dir of agentsByDir.keys()) {
-		const agentsFile = agentsByDir.get(dir);
-		const claudeFile = claudeByDir.get(dir);
+	for (const [dir, firstFile] of firstByDir) {
+		const secondFile = secondByDir.get(dir);
 
 		// If only one exists, no conflict
-		if (!agentsFile || !claudeFile) {
+		if (!secondFile) {
 			continue;
 		}
 
-		// Both exist - check if at least one is a proper symlink to the other
-		const agentsPointsToClaude =
-			agentsFile.isSymlink &&
-			agentsFile.symlinkTarget &&
-			symlinkPointsToFile(
-				agentsFile.path,
-				agentsFile.symlinkTarget,
-				"CLAUDE.md",
-			);
-
-		const claudePointsToAgents =
-			claudeFile.isSymlink &&
-			claudeFile.symlinkTarget &&
-			symlinkPointsToFile(
-				claudeFile.path,
-				claudeFile.symlinkTarget,
-				"AGENTS.md",
-			);
-
 		// If neither is a symlink to the other, this is a conflict
-		if (!agentsPointsToClaude && !claudePointsToAgents) {
+		if (
+			!isSymlinkTo(firstFile, secondType) &&
+			!isSymlinkTo(secondFile, firstType)
+		) {
 			conflictDirectories.push(dir || "(root)");
 		}
 	}
 
 	if (conflictDirectories.length > 0) {
 		const dirList = conflictDirectories.join(", ");
+		const firstName = getIntentFileKind(firstType).filename;
+		const secondName = getIntentFileKind(secondType).filename;
 		return {
 			valid: false,
-			error: `Symlink configuration conflict: 'symlink: true' is set, but both AGENTS.md and CLAUDE.md exist as separate files (not symlinked) in: ${dirList}. Either remove one file, convert one to a symlink, or set 'symlink: false'.`,
+			error: `Symlink configuration conflict: 'symlink: true' is set, but both ${firstName} and ${secondName} exist as separate files (not symlinked) in: ${dirList}. Either remove one file, convert one to a symlink, or set 'symlink: false'.`,
 			conflictDirectories,
 		};
 	}
@@ -388,78 +436,52 @@ export function validateSymlinkConfig(
 }
 
 /**
- * Detect symlink relationships between AGENTS.md and CLAUDE.md files.
+ * Detect symlink relationships between intent files of two kinds.
  *
  * Finds pairs of files at the same directory level where one is a symlink
  * pointing to the other. This helps identify the source of truth for each
  * intent layer location.
  *
  * @param result - Detection result from detectIntentLayer
+ * @param types - The two symlinked kinds (defaults to AGENTS.md and CLAUDE.md)
  * @returns Array of symlink relationships found
  */
 export function detectSymlinkRelationships(
 	result: IntentLayerDetectionResult,
+	types: readonly [IntentFileType, IntentFileType] = ["agents", "claude"],
 ): SymlinkRelationship[] {
 	const relationships: SymlinkRelationship[] = [];
 
-	// Build lookup maps by directory
-	const agentsByDir = new Map<string, IntentFile>();
-	const claudeByDir = new Map<string, IntentFile>();
-
-	for (const file of result.agentsFiles) {
-		agentsByDir.set(getDirectory(file.path), file);
-	}
-
-	for (const file of result.claudeFiles) {
-		claudeByDir.set(getDirectory(file.path), file);
-	}
-
-	// Check for relationships in each directory that has both files
-	const allDirs = new Set([...agentsByDir.keys(), ...claudeByDir.keys()]);
+	const [firstType, secondType] = types;
+	const firstByDir = getFilesByDirectory(result, firstType);
+	const secondByDir = getFilesByDirectory(result, secondType);
 
-	for (const dir of allDirs) {
-		const agentsFile = agentsByDir.get(dir);
-		const claudeFile = claudeByDir.get(dir);
+	for (const [dir, firstFile] of firstByDir) {
+		const secondFile = secondByDir.get(dir);
 
 		// Both files must exist in the same directory
-		if (!agentsFile || !claudeFile) {
+		if (!secondFile) {
 			continue;
 		}
 
-		// Check if AGENTS.md is a symlink pointing to CLAUDE.md
-		if (
-			agentsFile.isSymlink &&
-			agentsFile.symlinkTarget &&
-			symlinkPointsToFile(
-				agentsFile.path,
-				agentsFile.symlinkTarget,
-				CLAUDE_FILENAME,
-			)
-		) {
+		// Check if the first file is a symlink pointing to the second
+		if (isSymlinkTo(firstFile, secondType)) {
 			relationships.push({
 				directory: dir,
-				source: claudeFile,
-				symlink: agentsFile,
-				sourceType: "claude",
+				source: secondFile,
+				symlink: firstFile,
+				sourceType: secondType,
 			});
 			continue;
 		}
 
-		// Check if CLAUDE.md is a symlink pointing to AGENTS.md
-		if (
-			claudeFile.isSymlink &&
-			claudeFile.symlinkTarget &&
-			symlinkPointsToFile(
-				claudeFile.path,
-				claudeFile.symlinkTarget,
-				AGENTS_FILENAME,
-			)
-		) {
+		// Check if the second file is a symlink pointing to the first
+		if (isSymlinkTo(secondFile, firstType)) {
 			relationships.push({
 				directory: dir,
-				source: agentsFile,
-				symlink: claudeFile,
-				sourceType: "agents",
+				source: firstFile,
+				symlink: secondFile,
+				sourceType: firstType,
 			});
 		}
 	}
@@ -0,0 +1,261 @@
+/**
+ * Derived Rule File Export
+ *
+ * Renders tool-specific rule files from the intent hierarchy for tools that do
+ * not read nested AGENTS.md files: a single GitHub Copilot instructions file,
+ * and one Cursor rule per node whose glob is scoped to the node's directory.
+ *
+ * Derived files carry a generated-file notice, so they can be told apart from
+ * hand-written ones and removed once their node is gone.
+ */
+
+import { createHash } from "node:crypto";
+import type { ExportTarget } from "../config/schema";
+import {
+	type IntentHierarchy,
+	type IntentNode,
+	traversePreOrder,
+} from "./hierarchy";
+import {
+	getCoveredDirectory,
+	getIntentFileKind,
+	getIntentFilePath,
+	getIntentFileType,
+} from "./kinds";
+
+/**
+ * Start of the notice marking a file as generated by the export.
+ */
+export const GENERATED_FILE_MARKER = "<!-- Generated by Intent Layer";
+
+/**
+ * A rule file rendered from the intent hierarchy.
+ */
+export interface DerivedFile {
+	/** File path relative to repository root */
+	path: string;
+	/** Rendered file content */
+	content: string;
+}
+
+/**
+ * A change needed to bring the exported files up to date.
+ */
+export interface DerivedFileChange {
+	/** File path relative to repository root */
+	path: string;
+	/** New file content, or null to delete the file */
+	content: string | null;
+}
+
+/**
+ * Changes needed to bring the exported files up to date.
+ */
+export interface DerivedFileChanges {
+	/** Files to write or delete */
+	changes: DerivedFileChange[];
+	/** Paths left alone because they hold a hand-written file */
+	skipped: string[];
+}
+
+/**
+ * Render the derived files for every export target.
+ *
+ * @param hierarchy - Hierarchy of the source intent files
+ * @param targets - Export targets to render
+ * @param contents - Content of each node, keyed by file path
+ * @returns Rendered files (empty when the hierarchy has no nodes)
+ */
+export function renderDerivedFiles(
+	hierarchy: IntentHierarchy,
+	targets: ExportTarget[],
+	contents: Map<string, string>,
+): DerivedFile[] {
+	const nodes = getExportedNodes(hierarchy, contents);
+	if (nodes.length === 0) {
+		return [];
+	}
+
+	const sourceLabel = getIntentFileKind(hierarchy.fileType).label;
+	return targets.flatMap((target) =>
+		target === "copilot"
+			? [renderCopilotInstructions(nodes, sourceLabel, contents)]
+			: renderCursorRules(nodes, sourceLabel, contents),
+	);
+}
+
+/**
+ * Render the Copilot instructions file. The root node's content comes first,
+ * followed by a section per nested node in pre-order, each naming the files it
+ * applies to.
+ *
+ * @param nodes - Nodes to export, in pre-order
+ * @param sourceLabel - Label of the source intent file kind
+ * @param contents - Content of each node, keyed by file path
+ * @returns The rendered instructions file
+ */
+export function renderCopilotInstructions(
+	nodes: IntentNode[],
+	sourceLabel: string,
+	contents: Map<string, string>,
+): DerivedFile {
+	const sections = nodes.map((node) => {
+		const content = (contents.get(node.file.path) ?? "").trim();
+		if (!node.directory) {
+			return content;
+		}
+		return `## ${node.directory}\n\nApplies to files matching \`${getNodeGlob(node)}\`.\n\n${content}`;
+	});
+
+	return {
+		path: getIntentFilePath("copilot", ""),
+		content: `${formatGeneratedNotice(sourceLabel)}\n\n${sections.join("\n\n")}\n`,
+	};
+}
+
+/**
+ * Render a Cursor rule for each node. Each rule's glob covers the node's
+ * directory, and the root node's rule always applies.
+ *
+ * @param nodes - Nodes to export, in pre-order
+ * @param sourceLabel - Label of the source intent file kind
+ * @param contents - Content of each node, keyed by file path
+ * @returns The rendered rule files
+ */
+export function renderCursorRules(
+	nodes: IntentNode[],
+	sourceLabel: string,
+	contents: Map<string, string>,
+): DerivedFile[] {
+	return nodes.map((node) => {
+		const content = (contents.get(node.file.path) ?? "").trim();
+		const scope = node.directory || "the repository";
+		const frontmatter = [
+			"---",
+			`description: Intent layer context for ${scope}, generated from ${node.file.path}`,
+			...(node.directory ? [`globs: ${getNodeGlob(node)}`] : []),
+			`alwaysApply: ${!node.directory}`,
+			"---",
+		];
+
+		return {
+			path: getCursorRulePath(node.directory),
+			content: `${frontmatter.join("\n")}\n\n${formatGeneratedNotice(sourceLabel)}\n\n${content}\n`,
+		};
+	});
+}
+
+/**
+ * Compute the changes needed to replace the existing exported files with the
+ * rendered ones. Hand-written files at a rendered path are never overwritten,
+ * and generated files that are no longer rendered are deleted.
+ *
+ * @param derived - Rendered files
+ * @param existing - Content of the files currently at export paths, keyed by path
+ * @returns Changes to commit and paths that were skipped
+ */
+export function getDerivedFileChanges(
+	derived: DerivedFile[],
+	existing: Map<string, string>,
+): DerivedFileChanges {
+	const changes: DerivedFileChange[] = [];
+	const skipped: string[] = [];
+
+	for (const file of derived) {
+		const current = existing.get(file.path);
+		if (current === file.content) {
+			continue;
+		}
+		if (current !== undefined && !isGeneratedFile(current)) {
+			skipped.push(file.path);
+			continue;
+		}
+		changes.push(file);
+	}
+
+	const derivedPaths = new Set(derived.map((file) => file.path));
+	for (const [path, content] of existing) {
+		if (!derivedPaths.has(path) && isGeneratedFile(content)) {
+			changes.push({ path, content: null });
+		}
+	}
+
+	return { changes, skipped };
+}
+
+/**
+ * Check whether a path is where an export target writes its files: the root
+ * Copilot instructions file, or a rule file in the root Cursor rules directory.
+ *
+ * @param path - File path relative to the repository root
+ * @param targets - Configured export targets
+ * @returns True if the path may hold an exported file
+ */
+export function isExportPath(path: string, targets: ExportTarget[]): boolean {
+	const type = getIntentFileType(path);
+	return (
+		type !== undefined &&
+		targets.some((target) => target === type) &&
+		getCoveredDirectory(path, type) === ""
+	);
+}
+
+/**
+ * Check whether a file was generated by the export.
+ *
+ * @param content - File content
+ * @returns True if the file carries the generated-file notice
+ */
+export function isGeneratedFile(content: string): boolean {
+	return content.includes(GENERATED_FILE_MARKER);
+}
+
+/**
+ * Collect the nodes to export in pre-order, skipping nodes without content.
+ */
+function getExportedNodes(
+	hierarchy: IntentHierarchy,
+	contents: Map<string, string>,
+): IntentNode[] {
+	const nodes: IntentNode[] = [];
+	traversePreOrder(hierarchy, (node) => {
+		if (contents.get(node.file.path)?.trim()) {
+			nodes.push(node);
+		}
+	});
+	return nodes;
+}
+
+/**
+ * Get the glob matching every file a node covers.
+ */
+function getNodeGlob(node: IntentNode): string {
+	return node.directory ? `${node.directory}/**` : "**";
+}
+
+/**
+ * Get the path of the Cursor rule exported for a directory.
+ *
+ * Slashes become dashes. A directory with any other character that has to be
+ * replaced, dashes included, gets a hash of its path after a double dash, which
+ * no plain slug contains, so two directories never share a rule.
+ */
+function getCursorRulePath(directory: string): string {
+	const { subdirectory, filename } = getIntentFileKind("cursor");
+	if (!directory) {
+		return `${subdirectory}/${filename}`;
+	}
+	let slug = directory.replace(/\//g, "-");
+	if (/[^A-Za-z0-9._/]/.test(directory)) {
+		const hash = createHash("sha1").update(directory).digest("hex");
+		slug = `${slug.replace(/[^A-Za-z0-9._-]+/g, "-")}--${hash.slice(0, 8)}`;
+	}
+	return `${subdirectory}/${filename.replace(/\.mdc$/, `-${slug}.mdc`)}`;
+}
+
+/**
+ * Format the notice marking a file as generated.
+ */
+function formatGeneratedNotice(sourceLabel: string): string {
+	return `${GENERATED_FILE_MARKER} from ${sourceLabel} files. Do not edit: it is regenerated whenever an intent commit lands. -->`;
+}
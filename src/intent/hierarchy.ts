@@ -2,17 +2,29 @@
  * Intent Layer Hierarchy
  *
  * Builds and traverses a hierarchical tree of intent nodes.
- * Intent nodes (AGENTS.md/CLAUDE.md) cover their directory and all subdirectories.
+ * Intent nodes (AGENTS.md, CLAUDE.md, and the other registered kinds) cover
+ * their directory and all subdirectories.
  * The hierarchy is determined by the file system structure - each node's parent
  * is the nearest ancestor intent file.
  */
 
 import type { IntentLayerIgnore } from "../patterns/ignore";
-import type { IntentFile, IntentLayerDetectionResult } from "./detector";
+import {
+	getDetectedFiles,
+	type IntentFile,
+	type IntentLayerDetectionResult,
+} from "./detector";
+import {
+	getCoveredDirectory,
+	getIntentFileKind,
+	INTENT_FILE_TYPES,
+	type IntentFileType,
+	isIntentFilePath,
+} from "./kinds";
 
 /**
  * A node in the intent layer hierarchy tree.
- * Each node represents an AGENTS.md or CLAUDE.md file and its coverage.
+ * Each node represents an intent file (e.g. AGENTS.md) and its coverage.
  */
 export interface IntentNode {
 	/** The intent file this node represents */
@@ -35,8 +47,8 @@ export interface IntentHierarchy {
 	roots: IntentNode[];
 	/** All nodes indexed by their file path for quick lookup */
 	nodesByPath: Map<string, IntentNode>;
-	/** File type this hierarchy represents: 'agents' or 'claude' */
-	fileType: "agents" | "claude";
+	/** File type this hierarchy represents */
+	fileType: IntentFileType;
 }
 
 /**
@@ -108,21 +120,34 @@ export function findNearestParentDirectory(
 /**
  * Build a hierarchy tree from a list of intent files.
  *
- * @param files - Array of intent files (all same type: agents or claude)
+ * A directory holds at most one node. When a kind allows several files per
+ * directory (e.g. Cursor rules), the file named as the kind's node file is
+ * preferred, otherwise the first one.
+ *
+ * @param files - Array of intent files (all of the same type)
  * @param fileType - The type of files being processed
  * @returns The hierarchical tree structure
  */
 export function buildHierarchy(
 	files: IntentFile[],
-	fileType: "agents" | "claude",
+	fileType: IntentFileType,
 ): IntentHierarchy {
 	const nodesByPath = new Map<string, IntentNode>();
 	const nodesByDirectory = new Map<string, IntentNode>();
 	const roots: IntentNode[] = [];
 
+	const nodeFilename = getIntentFileKind(fileType).filename;
+
 	// First pass: create all nodes
 	for (const file of files) {
-		const directory = getDirectory(file.path);
+		const directory = getCoveredDirectory(file.path, fileType);
+		const existing = nodesByDirectory.get(directory);
+		if (existing) {
+			if (!file.path.endsWith(`/${nodeFilename}`)) {
+				continue;
+			}
+			nodesByPath.delete(existing.file.path);
+		}
 		const node: IntentNode = {
 			file,
 			directory,
@@ -182,19 +207,20 @@ export function buildHierarchy(
 }
 
 /**
- * Build hierarchies for both agents and claude files from detection results.
+ * Build a hierarchy for every intent file kind from detection results.
  *
  * @param detectionResult - Results from detectIntentLayer
- * @returns Object containing both hierarchies
+ * @returns Object containing the hierarchy of each kind
  */
-export function buildHierarchies(detectionResult: IntentLayerDetectionResult): {
-	agents: IntentHierarchy;
-	claude: IntentHierarchy;
-} {
-	return {
-		agents: buildHierarchy(detectionResult.agentsFiles, "agents"),
-		claude: buildHierarchy(detectionResult.claudeFiles, "claude"),
-	};
+export function buildHierarchies(
+	detectionResult: IntentLayerDetectionResult,
+): Record<IntentFileType, IntentHierarchy> {
+	return Object.fromEntries(
+		INTENT_FILE_TYPES.map((type) => [
+			type,
+			buildHierarchy(getDetectedFiles(detectionResult, type), type),
+		]),
+	) as Record<IntentFileType, IntentHierarchy>;
 }
 
 /**
@@ -436,9 +462,8 @@ export function getCoveredFilesForNode(
 			continue;
 		}
 
-		// Skip other intent files (AGENTS.md / CLAUDE.md)
-		const fileName = filePath.substring(filePath.lastIndexOf("/") + 1);
-		if (fileName === "AGENTS.md" || fileName === "CLAUDE.md") {
+		// Skip other intent files
+		if (isIntentFilePath(filePath)) {
 			continue;
 		}
 
@@ -0,0 +1,226 @@
+/**
+ * Intent File Kinds
+ *
+ * Registry of the agent context file formats the intent layer can manage.
+ * Each kind describes where its files live relative to the directory they
+ * cover and whether they form a hierarchy, so detection, hierarchy building,
+ * and commits can handle every format the same way.
+ */
+
+import { posix } from "node:path";
+
+/**
+ * Registered intent file types.
+ */
+export const INTENT_FILE_TYPES = [
+	"agents",
+	"claude",
+	"gemini",
+	"copilot",
+	"cursor",
+] as const;
+
+/** Intent file types */
+export type IntentFileType = (typeof INTENT_FILE_TYPES)[number];
+
+/**
+ * A format of agent context file.
+ */
+export interface IntentFileKind {
+	/** Type identifier, as used in the `files` input */
+	type: IntentFileType;
+	/** How the files are referred to in messages and prompts */
+	label: string;
+	/** File name of nodes created by the action */
+	filename: string;
+	/**
+	 * Directory the files live in, relative to the directory they cover
+	 * (empty when the file sits in the covered directory itself)
+	 */
+	subdirectory: string;
+	/**
+	 * Extension of the files when a directory may hold several of them; any
+	 * file with it in the subdirectory is a node. Otherwise only `filename` is.
+	 */
+	extension?: string;
+	/**
+	 * Whether nodes can be placed in any directory, each covering its subtree.
+	 * Non-hierarchical kinds have a single node at the repository root.
+	 */
+	hierarchical: boolean;
+	/** Format requirements for the file content, when it is not plain markdown */
+	contentFormat?: string;
+}
+
+/**
+ * Every registered intent file kind, keyed by type.
+ */
+export const INTENT_FILE_KINDS: Record<IntentFileType, IntentFileKind> = {
+	agents: {
+		type: "agents",
+		label: "AGENTS.md",
+		filename: "AGENTS.md",
+		subdirectory: "",
+		hierarchical: true,
+	},
+	claude: {
+		type: "claude",
+		label: "CLAUDE.md",
+		filename: "CLAUDE.md",
+		subdirectory: "",
+		hierarchical: true,
+	},
+	gemini: {
+		type: "gemini",
+		label: "GEMINI.md",
+		filename: "GEMINI.md",
+		subdirectory: "",
+		hierarchical: true,
+	},
+	copilot: {
+		type: "copilot",
+		label: ".github/copilot-instructions.md",
+		filename: "copilot-instructions.md",
+		subdirectory: ".github",
+		hierarchical: false,
+	},
+	cursor: {
+		type: "cursor",
+		label: ".cursor/rules/*.mdc",
+		filename: "intent-layer.mdc",
+		subdirectory: ".cursor/rules",
+		extension: ".mdc",
+		hierarchical: true,
+		contentFormat:
+			"Cursor rule files start with YAML frontmatter between `---` lines, with a `description` and `alwaysApply: true`, followed by the markdown content.",
+	},
+};
+
+/**
+ * Get the kind of an intent file type.
+ *
+ * @param type - Intent file type
+ * @returns The registered kind
+ */
+export function getIntentFileKind(type: IntentFileType): IntentFileKind {
+	return INTENT_FILE_KINDS[type];
+}
+
+/**
+ * Determine the intent file type of a path.
+ *
+ * @param path - File path relative to the repository root
+ * @returns The type of intent file at the path, or undefined if it is not one
+ */
+export function getIntentFileType(path: string): IntentFileType | undefined {
+	return INTENT_FILE_TYPES.find((type) =>
+		matchesKind(path, INTENT_FILE_KINDS[type]),
+	);
+}
+
+/**
+ * Check whether a path is an intent file of any registered kind.
+ *
+ * @param path - File path relative to the repository root
+ * @returns True if the path is an intent file
+ */
+export function isIntentFilePath(path: string): boolean {
+	return getIntentFileType(path) !== undefined;
+}
+
+/**
+ * Check whether a path names an intent file inside the repository, so it is
+ * safe to write or delete: relative, not leaving the repository root, and of
+ * a registered kind.
+ *
+ * @param path - File path, for example from the LLM's output
+ * @returns True if the path is an intent file inside the repository
+ */
+export function isRepositoryIntentFilePath(path: string): boolean {
+	const normalized = posix.normalize(path);
+	return (
+		!posix.isAbsolute(normalized) &&
+		normalized !== ".." &&
+		!normalized.startsWith("../") &&
+		isIntentFilePath(normalized)
+	);
+}
+
+/**
+ * Get the path of the node of a kind that covers a directory.
+ *
+ * @param type - Intent file type
+ * @param directory - Covered directory (empty string for the root)
+ * @returns Path of the intent file for the directory
+ */
+export function getIntentFilePath(
+	type: IntentFileType,
+	directory: string,
+): string {
+	const { subdirectory, filename } = INTENT_FILE_KINDS[type];
+	return [directory, subdirectory, filename].filter(Boolean).join("/");
+}
+
+/**
+ * Get the directory an intent file covers.
+ *
+ * @param path - Path of an intent file
+ * @param type - Type of the intent file
+ * @returns Covered directory (empty string for the root)
+ */
+export function getCoveredDirectory(
+	path: string,
+	type: IntentFileType,
+): string {
+	const { subdirectory } = INTENT_FILE_KINDS[type];
+	const fileDirectory = getParentDirectory(path);
+	if (!subdirectory) {
+		return fileDirectory;
+	}
+	return fileDirectory === subdirectory
+		? ""
+		: fileDirectory.slice(0, -subdirectory.length - 1);
+}
+
+/**
+ * Check whether files of a kind can be symlinked to each other: they must sit
+ * directly in the directory they cover, under a fixed name.
+ *
+ * @param type - Intent file type
+ * @returns True if the kind can be a symlink source or target
+ */
+export function isSymlinkableKind(type: IntentFileType): boolean {
+	const kind = INTENT_FILE_KINDS[type];
+	return kind.hierarchical && !kind.subdirectory && !kind.extension;
+}
+
+/**
+ * Check whether a path is an intent file of a kind.
+ */
+function matchesKind(path: string, kind: IntentFileKind): boolean {
+	const fileDirectory = getParentDirectory(path);
+	const fileName = path.slice(fileDirectory ? fileDirectory.length + 1 : 0);
+	const nameMatches = kind.extension
+		? fileName.endsWith(kind.extension)
+		: fileName === kind.filename;
+	if (!nameMatches) {
+		return false;
+	}
+
+	if (!kind.hierarchical) {
+		return fileDirectory === kind.subdirectory;
+	}
+	return (
+		!kind.subdirectory ||
+		fileDirectory === kind.subdirectory ||
+		fileDirectory.endsWith(`/${kind.subdirectory}`)
+	);
+}
+
+/**
+ * Get the parent directory of a path.
+ */
+function getParentDirectory(path: string): string {
+	const lastSlash = path.lastIndexOf("/");
+	return lastSlash === -1 ? "" : path.substring(0, lastSlash);
+}
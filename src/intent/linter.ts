@@ -0,0 +1,596 @@
+/**
+ * Intent Node Linter
+ *
+ * Deterministically checks the paths intent nodes refer to against the
+ * repository tree: relative markdown links, inline code such as
+ * `src/github/commits.ts`, and bare paths in prose. Broken references are
+ * reported as annotations, and references broken by files the PR renamed are
+ * fixed without involving the LLM.
+ */
+
+import { posix } from "node:path";
+import * as core from "@actions/core";
+import type { PRChangedFile } from "../github/context";
+import type { IntentUpdate } from "../opencode/output-schema";
+import type {
+	RepositorySource,
+	RepositoryTreeEntry,
+} from "../repository/source";
+import { getDirectory, type IntentNode } from "./hierarchy";
+
+/**
+ * Where in a node a path reference was found.
+ */
+export type PathReferenceKind = "link" | "code" | "text";
+
+/**
+ * A path mentioned in an intent node.
+ */
+export interface PathReference {
+	/** Reference as written in the node, without link fragments or queries */
+	raw: string;
+	/** Repository-relative path the reference resolves to */
+	path: string;
+	/** Whether the reference is relative to the node's directory rather than the repository root */
+	relativeToNode: boolean;
+	/** Line the reference appears on (1-based) */
+	line: number;
+	/** Where the reference was found */
+	kind: PathReferenceKind;
+}
+
+/**
+ * A reference to a path that does not exist in the tree.
+ */
+export interface BrokenReference {
+	/** Path to the intent node containing the reference */
+	nodePath: string;
+	/** The broken reference */
+	reference: PathReference;
+	/** Explanation of why the reference is broken */
+	message: string;
+	/** Text to replace the reference with, when the PR explains the breakage */
+	replacement?: string;
+}
+
+/**
+ * Result of linting the intent layer.
+ */
+export interface IntentLayerLintResult {
+	/** Broken references across all linted nodes */
+	findings: BrokenReference[];
+	/** Deterministic updates fixing references to renamed paths */
+	fixes: IntentUpdate[];
+}
+
+/**
+ * Paths renamed or removed by a PR.
+ */
+interface PathChanges {
+	/** New path of each renamed file, keyed by its previous path */
+	renames: Map<string, string>;
+	/** Files removed by the PR */
+	removed: Set<string>;
+	/** Previous paths of renamed and removed files, with their directories */
+	previousPaths: Set<string>;
+}
+
+/**
+ * Pattern matching markdown links and images, capturing the target.
+ */
+const LINK_PATTERN = /\[[^\]\n]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"\n]*")?\s*\)/g;
+
+/**
+ * Pattern matching inline code spans, capturing their content.
+ */
+const INLINE_CODE_PATTERN = /`([^`\n]+)`/g;
+
+/**
+ * Pattern an inline code span must match to be treated as a path.
+ */
+const CODE_PATH_PATTERN = /^(?:\.{1,2}\/|\/)?[\w.-]+(?:\/[\w.-]+)*\/?$/;
+
+/**
+ * Pattern matching slash-separated paths in prose.
+ */
+const TEXT_PATH_PATTERN =
+	/(?<![\w@$./-])(?:\.{1,2}\/)?[\w-][\w.-]*(?:\/[\w.-]+)+\/?/g;
+
+/**
+ * Pattern matching link targets that are not repository paths.
+ */
+const EXTERNAL_LINK_PATTERN = /^(?:[a-z][a-z\d+.-]*:|#|\/\/)/i;
+
+/**
+ * Pattern matching the opening or closing fence of a code block.
+ */
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Collect every path in a tree listing, including the directories of files.
+ *
+ * @param entries - Recursive tree listing of the repository
+ * @returns Set of repository-relative paths ("" is the root)
+ */
+export function buildPathIndex(entries: RepositoryTreeEntry[]): Set<string> {
+	const paths = new Set<string>([""]);
+	for (const entry of entries) {
+		paths.add(entry.path);
+		for (
+			let dir = getDirectory(entry.path);
+			dir && !paths.has(dir);
+			dir = getDirectory(dir)
+		) {
+			paths.add(dir);
+		}
+	}
+	return paths;
+}
+
+/**
+ * Extract the path references from an intent node's content.
+ *
+ * Markdown links and references starting with `./`, `../`, or `/` are always
+ * treated as paths. Other inline code and prose only count when they contain
+ * a slash and their first segment is a known path relative to the node or
+ * the repository root, so that package names like `@actions/core` or MIME
+ * types are not mistaken for files. Fenced code blocks are skipped.
+ *
+ * @param content - Intent node content
+ * @param nodeDirectory - Directory containing the node ("" for the root)
+ * @param isKnownPath - Whether a repository-relative path exists (or existed)
+ * @returns References by line; within a line, links come first, then inline
+ *   code, then prose
+ */
+export function extractPathReferences(
+	content: string,
+	nodeDirectory: string,
+	isKnownPath: (path: string) => boolean,
+): PathReference[] {
+	const references: PathReference[] = [];
+	let inCodeBlock = false;
+
+	content.split("\n").forEach((lineText, index) => {
+		if (CODE_FENCE_PATTERN.test(lineText)) {
+			inCodeBlock = !inCodeBlock;
+			return;
+		}
+		if (inCodeBlock) {
+			return;
+		}
+
+		const line = index + 1;
+		const add = (raw: string, kind: PathReferenceKind) => {
+			const resolved = resolveReference(raw, kind, nodeDirectory, isKnownPath);
+			if (resolved) {
+				references.push({ raw, ...resolved, line, kind });
+			}
+		};
+
+		// Links, then inline code, then prose, blanking out each match so it is
+		// not seen again
+		let rest = lineText.replace(LINK_PATTERN, (match, target: string) => {
+			if (!EXTERNAL_LINK_PATTERN.test(target)) {
+				const path = target.replace(/[#?].*$/, "");
+				if (path) add(path, "link");
+			}
+			return " ".repeat(match.length);
+		});
+		rest = rest.replace(INLINE_CODE_PATTERN, (match, code: string) => {
+			const candidate = code.trim();
+			if (candidate.includes("/") && CODE_PATH_PATTERN.test(candidate)) {
+				add(candidate, "code");
+			}
+			return " ".repeat(match.length);
+		});
+		for (const match of rest.matchAll(TEXT_PATH_PATTERN)) {
+			add(match[0].replace(/\.+$/, ""), "text");
+		}
+	});
+
+	return references;
+}
+
+/**
+ * Find the broken path references in an intent node.
+ *
+ * A reference to a path the PR renamed (or a directory whose files it all
+ * moved) gets a replacement pointing at the new location.
+ *
+ * @param nodePath - Path to the intent node
+ * @param content - Intent node content
+ * @param paths - Paths in the tree, from buildPathIndex
+ * @param changedFiles - Files changed by the PR, used to explain breakages
+ * @returns Broken references by line
+ */
+export function lintIntentNode(
+	nodePath: string,
+	content: string,
+	paths: ReadonlySet<string>,
+	changedFiles: PRChangedFile[] = [],
+): BrokenReference[] {
+	const nodeDirectory = getDirectory(nodePath);
+	const changes = indexPathChanges(changedFiles);
+	const references = extractPathReferences(
+		content,
+		nodeDirectory,
+		(path) => paths.has(path) || changes.previousPaths.has(path),
+	);
+
+	return references
+		.filter((reference) => !paths.has(reference.path))
+		.map((reference) => {
+			const newPath = findNewPath(reference.path, changes);
+			if (newPath !== undefined) {
+				return {
+					nodePath,
+					reference,
+					message: `References \`${reference.raw}\`, which was renamed to \`${newPath}\` in this PR`,
+					replacement: formatReplacement(reference, nodeDirectory, newPath),
+				};
+			}
+
+			const removed =
+				changes.removed.has(reference.path) ||
+				[...changes.removed].some((file) =>
+					file.startsWith(`${reference.path}/`),
+				);
+			return {
+				nodePath,
+				reference,
+				message: `References \`${reference.raw}\`, which ${removed ? "was removed in this PR" : "does not exist"}`,
+			};
+		});
+}
+
+/**
+ * Replace broken references that have a replacement.
+ *
+ * References are replaced wherever they appear as a whole path, so fixes can
+ * also be applied to content the LLM rewrote.
+ *
+ * @param content - Intent node content
+ * @param findings - Broken references found in the node
+ * @returns Content with the references replaced
+ */
+export function applyReferenceFixes(
+	content: string,
+	findings: BrokenReference[],
+): string {
+	const replacements = new Map<string, string>();
+	for (const finding of findings) {
+		if (finding.replacement !== undefined) {
+			replacements.set(finding.reference.raw, finding.replacement);
+		}
+	}
+	return replaceReferences(content, replacements);
+}
+
+/**
+ * Rewrite a node's path references for a new location.
+ *
+ * References relative to the node are recomputed from the new directory, and
+ * references to paths the PR renamed point at their new location, so every
+ * reference that resolved at the old location still resolves at the new one.
+ *
+ * @param content - Intent node content
+ * @param fromNodePath - Current path of the node
+ * @param toNodePath - Path the node is moving to
+ * @param paths - Paths in the tree, from buildPathIndex
+ * @param changedFiles - Files changed by the PR
+ * @returns Content with rewritten references
+ */
+export function rebaseReferences(
+	content: string,
+	fromNodePath: string,
+	toNodePath: string,
+	paths: ReadonlySet<string>,
+	changedFiles: PRChangedFile[] = [],
+): string {
+	const changes = indexPathChanges(changedFiles);
+	const references = extractPathReferences(
+		content,
+		getDirectory(fromNodePath),
+		(path) => paths.has(path) || changes.previousPaths.has(path),
+	);
+
+	const toDirectory = getDirectory(toNodePath);
+	const replacements = new Map<string, string>();
+	for (const reference of references) {
+		const target = paths.has(reference.path)
+			? reference.path
+			: findNewPath(reference.path, changes);
+		if (target === undefined) {
+			continue;
+		}
+		const replacement = formatReplacement(reference, toDirectory, target);
+		if (replacement !== reference.raw) {
+			replacements.set(reference.raw, replacement);
+		}
+	}
+	return replaceReferences(content, replacements);
+}
+
+/**
+ * Lint intent nodes against a tree listing.
+ *
+ * Symlinked nodes are skipped, since their content is linted at the target.
+ *
+ * @param source - Repository data source
+ * @param nodes - Intent nodes to lint
+ * @param entries - Recursive tree listing at the ref
+ * @param ref - Ref to read node content from
+ * @param changedFiles - Files changed by the PR, used to explain breakages
+ * @returns Broken references and deterministic fixes
+ */
+export async function lintIntentLayer(
+	source: RepositorySource,
+	nodes: IntentNode[],
+	entries: RepositoryTreeEntry[],
+	ref: string,
+	changedFiles: PRChangedFile[],
+): Promise<IntentLayerLintResult> {
+	const paths = buildPathIndex(entries);
+	const findings: BrokenReference[] = [];
+	const fixes: IntentUpdate[] = [];
+
+	for (const node of nodes) {
+		if (node.file.isSymlink) {
+			continue;
+		}
+		const content = await source.readFile(node.file.path, ref);
+		if (content === undefined) {
+			continue;
+		}
+
+		const nodeFindings = lintIntentNode(
+			node.file.path,
+			content,
+			paths,
+			changedFiles,
+		);
+		findings.push(...nodeFindings);
+
+		const fixed = applyReferenceFixes(content, nodeFindings);
+		if (fixed !== content) {
+			const renamed = [
+				...new Set(
+					nodeFindings.flatMap((finding) =>
+						finding.replacement === undefined
+							? []
+							: [`\`${finding.reference.raw}\` → \`${finding.replacement}\``],
+					),
+				),
+			];
+			fixes.push({
+				nodePath: node.file.path,
+				action: "update",
+				reason: `Update references to paths renamed in this PR: ${renamed.join(", ")}`,
+				currentContent: content,
+				suggestedContent: fixed,
+			});
+		}
+	}
+
+	return { findings, fixes };
+}
+
+/**
+ * Combine LLM updates with the linter's deterministic fixes.
+ *
+ * Fixes are applied to the suggested content of nodes the LLM already
+ * updates; nodes the LLM left alone get the fix as their own update.
+ *
+ * @param updates - Updates proposed by the LLM
+ * @param lint - Lint result for the same nodes
+ * @returns Updates including reference fixes
+ */
+export function applyLintFixes(
+	updates: IntentUpdate[],
+	lint: IntentLayerLintResult,
+): IntentUpdate[] {
+	const merged = updates.map((update) => {
+		if (update.action !== "update" || !update.suggestedContent) {
+			return update;
+		}
+		const suggestedContent = applyReferenceFixes(
+			update.suggestedContent,
+			lint.findings.filter((finding) => finding.nodePath === update.nodePath),
+		);
+		return suggestedContent === update.suggestedContent
+			? update
+			: { ...update, suggestedContent };
+	});
+
+	const updatedPaths = new Set(merged.map((update) => update.nodePath));
+	return [
+		...merged,
+		...lint.fixes.filter((fix) => !updatedPaths.has(fix.nodePath)),
+	];
+}
+
+/**
+ * Report broken references as warning annotations on the intent nodes.
+ *
+ * @param findings - Broken references to report
+ */
+export function annotateBrokenReferences(findings: BrokenReference[]): void {
+	for (const finding of findings) {
+		core.warning(finding.message, {
+			title: "Broken intent layer reference",
+			file: finding.nodePath,
+			startLine: finding.reference.line,
+		});
+	}
+}
+
+/**
+ * Resolve a reference to a repository-relative path.
+ *
+ * Returns undefined when the reference is not a repository path: it leaves
+ * the repository, or it is implicit and its first segment is not a known path.
+ */
+function resolveReference(
+	raw: string,
+	kind: PathReferenceKind,
+	nodeDirectory: string,
+	isKnownPath: (path: string) => boolean,
+): Omit<PathReference, "raw" | "line" | "kind"> | undefined {
+	const target = raw.replace(/\/+$/, "");
+	if (!target) {
+		return undefined;
+	}
+
+	const candidates: Array<Omit<PathReference, "raw" | "line" | "kind">> = [];
+	if (target.startsWith("/")) {
+		candidates.push({
+			path: posix.normalize(target.slice(1)),
+			relativeToNode: false,
+		});
+	} else {
+		candidates.push({
+			path: posix.join(nodeDirectory, target),
+			relativeToNode: nodeDirectory !== "",
+		});
+		const explicitlyRelative = kind === "link" || /^\.{1,2}\//.test(target);
+		if (!explicitlyRelative && nodeDirectory !== "") {
+			candidates.push({ path: posix.normalize(target), relativeToNode: false });
+		}
+	}
+
+	const inRepository = candidates.filter(
+		(candidate) => candidate.path !== ".." && !candidate.path.startsWith("../"),
+	);
+	const existing = inRepository.find((candidate) =>
+		isKnownPath(candidate.path),
+	);
+	if (existing) {
+		return existing;
+	}
+
+	// Links and explicit paths are always references; anything else only
+	// when it starts inside a known directory
+	const explicit = kind === "link" || /^(\.{1,2}\/|\/)/.test(target);
+	if (explicit) {
+		return inRepository[0];
+	}
+	const firstSegment = target.split("/")[0] ?? "";
+	return inRepository.find((candidate) =>
+		isKnownPath(
+			candidate.relativeToNode
+				? posix.join(nodeDirectory, firstSegment)
+				: firstSegment,
+		),
+	);
+}
+
+/**
+ * Replace whole-path occurrences of references in a single pass, so a
+ * replacement is never replaced again.
+ */
+function replaceReferences(
+	content: string,
+	replacements: Map<string, string>,
+): string {
+	if (replacements.size === 0) {
+		return content;
+	}
+	const alternatives = [...replacements.keys()]
+		.sort((a, b) => b.length - a.length)
+		.map((raw) => raw.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+		.join("|");
+	return content.replace(
+		new RegExp(`(?<![\\w@$./-])(?:${alternatives})(?![\\w/-]|\\.\\w)`, "g"),
+		(match) => replacements.get(match) ?? match,
+	);
+}
+
+/**
+ * Index the renamed and removed files of a PR.
+ */
+function indexPathChanges(changedFiles: PRChangedFile[]): PathChanges {
+	const renames = new Map<string, string>();
+	const removed = new Set<string>();
+	for (const file of changedFiles) {
+		if (file.status === "renamed" && file.previousFilename) {
+			renames.set(file.previousFilename, file.filename);
+		} else if (file.status === "removed") {
+			removed.add(file.filename);
+		}
+	}
+
+	const previousPaths = new Set<string>();
+	for (const path of [...renames.keys(), ...removed]) {
+		for (let dir = path; dir; dir = getDirectory(dir)) {
+			previousPaths.add(dir);
+		}
+	}
+
+	return { renames, removed, previousPaths };
+}
+
+/**
+ * Find where a renamed file, or a directory whose renamed files all moved to
+ * the same place, now lives.
+ */
+function findNewPath(path: string, changes: PathChanges): string | undefined {
+	const renamed = changes.renames.get(path);
+	if (renamed !== undefined) {
+		return renamed;
+	}
+
+	const targets = new Set<string | undefined>();
+	for (const [previous, current] of changes.renames) {
+		if (!previous.startsWith(`${path}/`)) continue;
+		const suffix = previous.slice(path.length);
+		targets.add(
+			current.endsWith(suffix) ? current.slice(0, -suffix.length) : undefined,
+		);
+	}
+
+	const [target] = targets;
+	return targets.size === 1 ? target : undefined;
+}
+
+/**
+ * Write a new path the way the original reference was written.
+ */
+function formatReplacement(
+	reference: PathReference,
+	nodeDirectory: string,
+	newPath: string,
+): string {
+	const trailingSlash = reference.raw.endsWith("/") ? "/" : "";
+	if (reference.raw.startsWith("/")) {
+		return `/${newPath}${trailingSlash}`;
+	}
+	if (!reference.relativeToNode) {
+		return `${newPath}${trailingSlash}`;
+	}
+
+	const relative = relativePath(nodeDirectory, newPath);
+	const prefix =
+		reference.raw.startsWith("./") && !relative.startsWith("../") ? "./" : "";
+	return `${prefix}${relative}${trailingSlash}`;
+}
+
+/**
+ * Compute the path of a repository path relative to a directory.
+ */
+function relativePath(fromDirectory: string, to: string): string {
+	const fromParts = fromDirectory ? fromDirectory.split("/") : [];
+	const toParts = to.split("/");
+	let common = 0;
+	while (
+		common < fromParts.length &&
+		common < toParts.length &&
+		fromParts[common] === toParts[common]
+	) {
+		common++;
+	}
+	const parts = [
+		...Array<string>(fromParts.length - common).fill(".."),
+		...toParts.slice(common),
+	];
+	return parts.length > 0 ? parts.join("/") : ".";
+}
@@ -0,0 +1,221 @@
+/**
+ * Intent Node Moves
+ *
+ * Detects directories that a PR moved wholesale while leaving their intent
+ * node behind, and proposes moving the node with them. A move is proposed as
+ * a delete of the old node and a create of the new one; applied in a single
+ * commit, git records it as a rename.
+ */
+
+import type { PRChangedFile } from "../github/context";
+import type { IntentUpdate } from "../opencode/output-schema";
+import type {
+	RepositorySource,
+	RepositoryTreeEntry,
+} from "../repository/source";
+import { findCoveringNode, type IntentHierarchy } from "./hierarchy";
+import { isIntentFilePath } from "./kinds";
+import { buildPathIndex, rebaseReferences } from "./linter";
+
+/**
+ * An intent node whose directory was moved by the PR.
+ */
+export interface NodeMove {
+	/** Current path of the intent node */
+	fromPath: string;
+	/** Path the intent node should move to */
+	toPath: string;
+	/** Directory the node's code moved from */
+	fromDirectory: string;
+	/** Directory the node's code moved to */
+	toDirectory: string;
+	/** Current content of the intent node */
+	currentContent: string;
+}
+
+/**
+ * Find intent nodes whose directory the PR moved wholesale.
+ *
+ * A node is moved when every file it covered that the PR renamed went to the
+ * same new directory, nothing but intent files is left in its old directory,
+ * and no intent file of the same name exists at the destination.
+ *
+ * @param source - Repository data source
+ * @param hierarchy - Hierarchy of intent files at the ref
+ * @param changedFiles - Files changed by the PR
+ * @param entries - Recursive tree listing at the ref
+ * @param ref - Ref to read node content from
+ * @returns Moves for the affected nodes
+ */
+export async function findNodeMoves(
+	source: RepositorySource,
+	hierarchy: IntentHierarchy,
+	changedFiles: PRChangedFile[],
+	entries: RepositoryTreeEntry[],
+	ref: string,
+): Promise<NodeMove[]> {
+	const blobs = new Set(
+		entries.filter((entry) => entry.type === "blob").map((entry) => entry.path),
+	);
+	const directoriesWithFiles = getDirectoriesWithNonIntentFiles(blobs);
+	const moves: NodeMove[] = [];
+
+	for (const node of hierarchy.nodesByPath.values()) {
+		const fromDirectory = node.directory;
+		if (fromDirectory === "" || node.file.isSymlink) {
+			continue;
+		}
+
+		const renamedOut = changedFiles.filter(
+			(file) =>
+				file.status === "renamed" &&
+				file.previousFilename?.startsWith(`${fromDirectory}/`) &&
+				findCoveringNode(file.previousFilename, hierarchy) === node,
+		);
+		const toDirectory = getCommonDestination(renamedOut, fromDirectory);
+		if (toDirectory === undefined || toDirectory === fromDirectory) {
+			continue;
+		}
+
+		const leftBehind = directoriesWithFiles.has(fromDirectory);
+		const toPath = `${toDirectory}/${node.file.path.slice(fromDirectory.length + 1)}`;
+		if (leftBehind || blobs.has(toPath)) {
+			continue;
+		}
+
+		const currentContent = await source.readFile(node.file.path, ref);
+		if (currentContent === undefined) {
+			continue;
+		}
+
+		moves.push({
+			fromPath: node.file.path,
+			toPath,
+			fromDirectory,
+			toDirectory,
+			currentContent,
+		});
+	}
+
+	return moves;
+}
+
+/**
+ * Turn node moves into updates, combining them with proposed updates.
+ *
+ * An update proposed for a moving node becomes the content of the node at its
+ * new path; otherwise the current content moves as is. Either way, path
+ * references are rewritten to resolve from the new location. A proposed
+ * deletion of a moving node is kept instead of the move.
+ *
+ * @param updates - Updates proposed for the PR
+ * @param moves - Node moves from findNodeMoves
+ * @param entries - Recursive tree listing at the ref
+ * @param changedFiles - Files changed by the PR
+ * @returns Updates including a delete and create for each move
+ */
+export function applyNodeMoves(
+	updates: IntentUpdate[],
+	moves: NodeMove[],
+	entries: RepositoryTreeEntry[],
+	changedFiles: PRChangedFile[],
+): IntentUpdate[] {
+	if (moves.length === 0) {
+		return updates;
+	}
+
+	const paths = buildPathIndex(entries);
+	const movesByPath = new Map(moves.map((move) => [move.fromPath, move]));
+	const toMoveUpdates = (move: NodeMove, update?: IntentUpdate) => {
+		const content = update?.suggestedContent ?? move.currentContent;
+		const reason = `Move with its directory from \`${move.fromDirectory}/\` to \`${move.toDirectory}/\``;
+		return [
+			{
+				nodePath: move.fromPath,
+				action: "delete" as const,
+				reason: `Moved to \`${move.toPath}\` with its directory`,
+				currentContent: move.currentContent,
+			},
+			{
+				nodePath: move.toPath,
+				action: "create" as const,
+				reason: update ? `${reason}; ${update.reason}` : reason,
+				suggestedContent: rebaseReferences(
+					content,
+					move.fromPath,
+					move.toPath,
+					paths,
+					changedFiles,
+				),
+			},
+		];
+	};
+
+	const moved = new Set<string>();
+	const result = updates.flatMap((update) => {
+		const move = movesByPath.get(update.nodePath);
+		if (!move || update.action === "delete") {
+			return [update];
+		}
+		moved.add(move.fromPath);
+		return toMoveUpdates(move, update);
+	});
+
+	for (const move of moves) {
+		if (
+			!moved.has(move.fromPath) &&
+			!updates.some((update) => update.nodePath === move.fromPath)
+		) {
+			result.push(...toMoveUpdates(move));
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Find the directory renamed files all moved to, keeping their paths below
+ * the directory they came from.
+ */
+function getCommonDestination(
+	files: PRChangedFile[],
+	fromDirectory: string,
+): string | undefined {
+	const destinations = new Set<string | undefined>();
+	for (const file of files) {
+		const suffix = file.previousFilename?.slice(fromDirectory.length) ?? "";
+		destinations.add(
+			file.filename.endsWith(suffix)
+				? file.filename.slice(0, -suffix.length)
+				: undefined,
+		);
+	}
+
+	const [destination] = destinations;
+	return destinations.size === 1 ? destination : undefined;
+}
+
+/**
+ * Collect every directory that holds, at any depth, a file other than an
+ * intent file.
+ */
+function getDirectoriesWithNonIntentFiles(blobs: Set<string>): Set<string> {
+	const directories = new Set<string>();
+	for (const path of blobs) {
+		if (isIntentFilePath(path)) {
+			continue;
+		}
+		for (
+			let slash = path.lastIndexOf("/");
+			slash > 0;
+			slash = path.lastIndexOf("/", slash - 1)
+		) {
+			const directory = path.slice(0, slash);
+			if (directories.has(directory)) {
+				break;
+			}
+			directories.add(directory);
+		}
+	}
+	return directories;
+}
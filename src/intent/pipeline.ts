@@ -0,0 +1,1733 @@
+/**
+ * Intent Layer Analysis Pipeline
+ *
+ * Shared steps of the analysis pipeline that do not depend on where the
+ * repository data comes from: planning which nodes need attention for each
+ * intent file type, collecting split contexts for over-budget nodes, and
+ * prompting the LLM for intent updates.
+ *
+ * Used by both the GitHub Action and the local CLI, which only differ in how
+ * they read the changes and deliver the updates: planAnalysis,
+ * requestAnalysisUpdates, and finalizeAnalysisUpdates run everything in
+ * between.
+ */
+
+import * as core from "@actions/core";
+import {
+	applyDirectoryIgnores,
+	type DirectoryConfig,
+	type EffectiveConfig,
+	getDirectoryPrompts,
+	loadDirectoryConfigs,
+	resolveDirectoryConfig,
+} from "../config/directories";
+import type { ActionInputs } from "../config/schema";
+import type { PRChangedFile, PRDiff, PRMetadata } from "../github/context";
+import {
+	createOpenCodeClientFromModel,
+	type OpenCodeClientResult,
+} from "../opencode/client";
+import {
+	type IntentUpdate,
+	mergeIntentUpdates,
+} from "../opencode/output-schema";
+import {
+	formatPromptBudgetReport,
+	isPromptTrimmed,
+	type PromptBudgetReport,
+} from "../opencode/prompt-budget";
+import {
+	assembleAnalysisPrompt,
+	assembleAuditPrompt,
+	assembleInitializationPrompt,
+	assembleNodeSplitPrompt,
+	assembleReconciliationPrompt,
+	assembleSingleNodeUpdatePrompt,
+	type IntentContext,
+	type IntentNodeWithContent,
+	type NodeSplitContext,
+	type NodeUpdateCandidateWithContent,
+	type PRContext,
+	type PromptConfig,
+	type ReviewerFeedback,
+} from "../opencode/prompts";
+import {
+	checkAndHandleModelAccessError,
+	createSessionFromModelString,
+	type IntentAnalysisSession,
+} from "../opencode/session";
+import {
+	type IntentLayerIgnore,
+	parseIntentLayerIgnore,
+} from "../patterns/ignore";
+import {
+	createPromptResolver,
+	type PatternMatchedPromptResolver,
+} from "../patterns/prompts";
+import type {
+	RepositorySource,
+	RepositoryTreeEntry,
+} from "../repository/source";
+import {
+	determineNodesNeedingUpdate,
+	filterSemanticBoundariesForInitialization,
+	getAffectedNodes,
+	identifySemanticBoundaries,
+	mapChangedFilesToNodes,
+	type NodesNeedingUpdateResult,
+	type ParentNodesReviewResult,
+	reviewParentNodes,
+	type SemanticBoundaryCandidate,
+	type SemanticBoundaryOptions,
+	type SemanticBoundaryResult,
+} from "./analyzer";
+import type { HierarchyAudit } from "./audit";
+import {
+	analyzeNodeBudgets,
+	listRepositoryFiles,
+	type NodeBudgetEvaluation,
+} from "./budget";
+import {
+	detectIntentLayerInTree,
+	formatDetectedFileCounts,
+	hasIntentLayer,
+	validateSymlinkConfig,
+} from "./detector";
+import {
+	buildHierarchies,
+	type IntentHierarchy,
+	type IntentNode,
+} from "./hierarchy";
+import {
+	getCoveredDirectory,
+	getIntentFilePath,
+	getIntentFileType,
+	type IntentFileType,
+	isRepositoryIntentFilePath,
+	isSymlinkableKind,
+} from "./kinds";
+import {
+	annotateBrokenReferences,
+	applyLintFixes,
+	type IntentLayerLintResult,
+	lintIntentLayer,
+} from "./linter";
+import { applyNodeMoves, findNodeMoves, type NodeMove } from "./moves";
+import {
+	calculateStalenessForNodes,
+	DEFAULT_STALENESS_HISTORY_LIMIT,
+	type NodeStaleness,
+} from "./staleness";
+import type { NodeTokenBudgetResult } from "./tokenizer";
+import { findWorkspacePackages, type WorkspacePackage } from "./workspaces";
+
+/**
+ * Change analysis for a single intent file type.
+ */
+export interface FileTypeAnalysis {
+	/** Which intent file type this analysis covers */
+	fileType: IntentFileType;
+	/** Hierarchy of existing intent files of this type */
+	hierarchy: IntentHierarchy;
+	/** Whether any intent files of this type exist */
+	intentLayerExists: boolean;
+	/** Nodes directly covering changed files */
+	directUpdates: NodesNeedingUpdateResult;
+	/** Parent nodes that may need review */
+	parentReview: ParentNodesReviewResult;
+	/** Potential new nodes */
+	semanticBoundaries: SemanticBoundaryResult;
+	/** Settings in effect for each analyzed node, keyed by node path */
+	nodeConfigs: Map<string, EffectiveConfig>;
+}
+
+/**
+ * Outcome of analyzing a single intent file type.
+ */
+export interface FileTypeAnalysisResult {
+	/** Proposed intent updates */
+	updates: IntentUpdate[];
+	/** Token budget results for the evaluated existing nodes, keyed by node path */
+	nodeBudgets: Map<string, NodeTokenBudgetResult>;
+	/** What was cut from the analysis prompt to fit the context window, if it was budgeted */
+	promptBudget?: PromptBudgetReport;
+}
+
+/**
+ * Outcome of prompting for updates to a single intent file type.
+ */
+export interface IntentUpdatesResult {
+	/** Proposed intent updates */
+	updates: IntentUpdate[];
+	/** What was cut from the analysis prompt to fit the context window, if it was budgeted */
+	promptBudget?: PromptBudgetReport;
+}
+
+/**
+ * Creates a new analysis session, for prompting in parallel.
+ */
+export type SessionFactory = () => Promise<IntentAnalysisSession>;
+
+/**
+ * What is known about a set of changes before the LLM is prompted.
+ */
+export interface AnalysisPlan {
+	/** Recursive tree listing at the analyzed ref */
+	tree: RepositoryTreeEntry[];
+	/** Ignore rules, including those of directory configurations */
+	ignore?: IntentLayerIgnore;
+	/** Directory configuration overrides */
+	directoryConfigs: DirectoryConfig[];
+	/** Analysis plans for every analyzed file type */
+	plans: FileTypeAnalysis[];
+	/** Plans with work for the LLM, restricted to the requested nodes */
+	analyses: FileTypeAnalysis[];
+	/** Broken references in the analyzed nodes and their deterministic fixes */
+	lint: IntentLayerLintResult;
+	/** Nodes whose directories the changes moved */
+	moves: NodeMove[];
+}
+
+/**
+ * Options for prompting the LLM for the updates of an analysis plan.
+ */
+export interface AnalysisRequestOptions {
+	/** Title of the analysis sessions */
+	sessionTitle: string;
+	/** Whether to analyze the changes in per-node chunks */
+	chunked: boolean;
+	/** Only keep updates to these intent nodes */
+	nodePaths?: ReadonlySet<string>;
+}
+
+/**
+ * Outcome of prompting the LLM for the updates of an analysis plan.
+ */
+export interface AnalysisUpdatesResult {
+	/** Proposed intent updates across file types */
+	updates: IntentUpdate[];
+	/** Token budget results for the evaluated existing nodes, keyed by node path */
+	nodeBudgets: Map<string, NodeTokenBudgetResult>;
+	/** What was cut from each budgeted analysis prompt, keyed by file type */
+	promptBudgets: Map<string, PromptBudgetReport>;
+}
+
+/**
+ * Error thrown when the symlink setting does not match the intent files in
+ * the repository.
+ */
+export class SymlinkConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "SymlinkConfigError";
+	}
+}
+
+/**
+ * Determine which two managed intent file kinds are symlinked together.
+ *
+ * Symlinking applies when it is enabled and two symlinkable kinds are
+ * managed. The source is `symlink_source` when it is one of them, otherwise
+ * the first one.
+ *
+ * @param config - Parsed action inputs
+ * @returns The source kind and the symlinked kind, or undefined if none are
+ */
+export function getSymlinkedFileTypes(
+	config: ActionInputs,
+): [IntentFileType, IntentFileType] | undefined {
+	const symlinkable = config.files.filter(isSymlinkableKind);
+	const [first, second] = symlinkable;
+	if (!config.symlink || !first || !second) {
+		return undefined;
+	}
+	return config.symlink_source === second ? [second, first] : [first, second];
+}
+
+/**
+ * Determine which kind holds the content when symlinking.
+ *
+ * @param config - Parsed action inputs
+ * @returns The source kind of the symlinked pair, or `symlink_source` if no
+ *   kinds are symlinked
+ */
+export function getSymlinkSource(config: ActionInputs): IntentFileType {
+	return getSymlinkedFileTypes(config)?.[0] ?? config.symlink_source;
+}
+
+/**
+ * Determine which intent file types are analyzed.
+ *
+ * When two kinds are symlinked, the files share content so only the
+ * symlink source is analyzed. Every other managed type is analyzed
+ * independently so its content can be tailored to that file.
+ *
+ * @param config - Parsed action inputs
+ * @returns Intent file types to analyze
+ */
+export function getAnalyzedFileTypes(config: ActionInputs): IntentFileType[] {
+	const symlinked = getSymlinkedFileTypes(config)?.[1];
+	return config.files.filter((type) => type !== symlinked);
+}
+
+/**
+ * Determine which intent file kind derived rule files are exported from.
+ *
+ * Exports are rendered from a hierarchy of plain markdown nodes, so the
+ * source is the first analyzed kind that sits directly in the directories it
+ * covers (normally AGENTS.md).
+ *
+ * @param config - Parsed action inputs
+ * @returns The export source kind, or undefined if no managed kind can be one
+ */
+export function getExportSourceType(
+	config: ActionInputs,
+): IntentFileType | undefined {
+	return getAnalyzedFileTypes(config).find(isSymlinkableKind);
+}
+
+/**
+ * Determine the file type prompts are written for.
+ *
+ * Symlinked AGENTS.md and CLAUDE.md files share content, so guidance for both
+ * file types applies.
+ *
+ * @param config - Parsed action inputs
+ * @param fileType - The analyzed file type
+ * @returns The prompt file type
+ */
+function getPromptFileType(
+	config: ActionInputs,
+	fileType: IntentFileType,
+): PromptConfig["fileType"] {
+	const symlinked = getSymlinkedFileTypes(config);
+	return symlinked?.includes("agents") && symlinked.includes("claude")
+		? "both"
+		: fileType;
+}
+
+/**
+ * Map changed files onto a hierarchy and determine what needs attention.
+ *
+ * @param hierarchy - Hierarchy of existing intent files of one type
+ * @param diff - Changed files to analyze
+ * @param config - Parsed action inputs
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @param staleness - Optional staleness of affected nodes, keyed by node path
+ * @param directoryConfigs - Directory configurations overriding settings for their subtrees
+ * @param workspacePackages - Package roots declared by workspace manifests
+ * @returns Analysis plan for the hierarchy's file type
+ */
+export function planFileTypeAnalysis(
+	hierarchy: IntentHierarchy,
+	diff: PRDiff,
+	config: ActionInputs,
+	ignore?: IntentLayerIgnore,
+	staleness?: Map<string, NodeStaleness>,
+	directoryConfigs: DirectoryConfig[] = [],
+	workspacePackages: WorkspacePackage[] = [],
+): FileTypeAnalysis {
+	const fileType = hierarchy.fileType;
+	const intentLayerExists = hierarchy.nodesByPath.size > 0;
+
+	const mapping = mapChangedFilesToNodes(diff, hierarchy, ignore);
+	const directUpdates = determineNodesNeedingUpdate(mapping, {
+		staleness,
+		stalenessThreshold: config.staleness_threshold,
+	});
+	const parentReview = reviewParentNodes(directUpdates);
+	const resolveConfig = (directory: string) =>
+		resolveDirectoryConfig(config, directoryConfigs, directory);
+
+	// New nodes may be allowed in some directories only
+	let semanticBoundaries = identifySemanticBoundaries(
+		mapping,
+		config.new_nodes ||
+			directoryConfigs.some(({ settings }) => settings.new_nodes),
+		fileType,
+		getSemanticBoundaryOptions(config, workspacePackages),
+	);
+	semanticBoundaries = filterSemanticBoundaries(
+		semanticBoundaries,
+		(candidate) => resolveConfig(candidate.directory).config.new_nodes,
+	);
+
+	// Filter semantic boundaries for initialization (only suggest root node)
+	if (!intentLayerExists && semanticBoundaries.hasCandidates) {
+		semanticBoundaries = filterSemanticBoundariesForInitialization(
+			semanticBoundaries,
+			fileType,
+		);
+	}
+
+	const nodeConfigs = new Map<string, EffectiveConfig>();
+	for (const { node } of [
+		...directUpdates.candidates,
+		...parentReview.candidates,
+	]) {
+		nodeConfigs.set(node.file.path, resolveConfig(node.directory));
+	}
+	for (const candidate of semanticBoundaries.candidates) {
+		nodeConfigs.set(
+			candidate.suggestedNodePath,
+			resolveConfig(candidate.directory),
+		);
+	}
+
+	return {
+		fileType,
+		hierarchy,
+		intentLayerExists,
+		directUpdates,
+		parentReview,
+		semanticBoundaries,
+		nodeConfigs,
+	};
+}
+
+/**
+ * Keep only the semantic boundary candidates that pass a check.
+ */
+function filterSemanticBoundaries(
+	result: SemanticBoundaryResult,
+	keep: (candidate: SemanticBoundaryCandidate) => boolean,
+): SemanticBoundaryResult {
+	const candidates = result.candidates.filter(keep);
+	return {
+		...result,
+		candidates,
+		totalCandidates: candidates.length,
+		hasCandidates: candidates.length > 0,
+	};
+}
+
+/**
+ * Get the semantic boundary settings from the action inputs and workspace
+ * packages.
+ */
+function getSemanticBoundaryOptions(
+	config: ActionInputs,
+	packages: WorkspacePackage[],
+): SemanticBoundaryOptions {
+	const thresholds = config.boundary_thresholds;
+	return {
+		thresholds: {
+			minFilesForNode: thresholds.min_files_for_node,
+			minChangesForNode: thresholds.min_changes_for_node,
+			standardDirConfidenceBoost: thresholds.standard_dir_confidence_boost,
+			packageBoundaryConfidenceBoost:
+				thresholds.package_boundary_confidence_boost,
+			baseConfidence: thresholds.base_confidence,
+			perFileConfidenceBoost: thresholds.per_file_confidence_boost,
+			maxFileCountConfidence: thresholds.max_file_count_confidence,
+			workspacePackageConfidence: thresholds.workspace_package_confidence,
+		},
+		standardDirs: config.standard_boundary_dirs,
+		packages,
+	};
+}
+
+/**
+ * Score the staleness of the nodes covering a diff's changed files.
+ *
+ * History is read at the base of the changes, so the changes' own commits do
+ * not count as drift, and nodes the changes add are not scored. Returns an
+ * empty map without reading history when the staleness threshold is 0, and
+ * with a warning when history cannot be read, since staleness only adds
+ * context to the analysis.
+ *
+ * @param source - Repository data source
+ * @param hierarchy - Hierarchy of existing intent files of one type
+ * @param diff - Changed files to analyze
+ * @param baseRef - Base ref of the changes to read history from
+ * @param config - Parsed action inputs
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @returns Staleness of affected nodes, keyed by node path
+ */
+export async function calculateAffectedNodeStaleness(
+	source: RepositorySource,
+	hierarchy: IntentHierarchy,
+	diff: PRDiff,
+	baseRef: string,
+	config: ActionInputs,
+	ignore?: IntentLayerIgnore,
+): Promise<Map<string, NodeStaleness>> {
+	if (config.staleness_threshold <= 0) {
+		return new Map();
+	}
+
+	const mapping = mapChangedFilesToNodes(diff, hierarchy, ignore);
+	const addedPaths = new Set(
+		diff.files
+			.filter((file) => file.status === "added")
+			.map((file) => file.filename),
+	);
+	try {
+		return await calculateStalenessForNodes(
+			source,
+			getAffectedNodes(mapping).filter(
+				(node) => !addedPaths.has(node.file.path),
+			),
+			hierarchy,
+			baseRef,
+			{ historyLimit: DEFAULT_STALENESS_HISTORY_LIMIT },
+			ignore,
+		);
+	} catch (error) {
+		core.warning(
+			`Could not read history for node staleness: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return new Map();
+	}
+}
+
+/**
+ * Plan the analysis of a set of changes.
+ *
+ * Detects the intent layer at the analyzed ref, validates the symlink
+ * setting, loads ignore rules, directory configurations, and workspace
+ * packages, plans each analyzed file type with node staleness, and finds
+ * broken references and moved nodes. Broken references are reported as
+ * annotations.
+ *
+ * @param source - Repository data source
+ * @param ref - Ref containing the changes
+ * @param baseRef - Base ref of the changes, to read staleness history from
+ * @param diff - Changes to analyze
+ * @param config - Parsed action inputs
+ * @param nodePaths - Only plan updates, reference fixes, and moves for these
+ *   intent nodes
+ * @returns The analysis plan
+ * @throws {SymlinkConfigError} If the symlink setting does not match the repository
+ */
+export async function planAnalysis(
+	source: RepositorySource,
+	ref: string,
+	baseRef: string,
+	diff: PRDiff,
+	config: ActionInputs,
+	nodePaths?: ReadonlySet<string>,
+): Promise<AnalysisPlan> {
+	const tree = await source.listTree(ref);
+	const detectionResult = await detectIntentLayerInTree(tree, (sha) =>
+		source.readBlob(sha),
+	);
+	core.info(
+		hasIntentLayer(detectionResult)
+			? `Found existing intent layer: ${formatDetectedFileCounts(detectionResult)} files`
+			: "No existing intent layer found in repository",
+	);
+
+	const symlinkedFileTypes = getSymlinkedFileTypes(config);
+	if (symlinkedFileTypes) {
+		const symlinkValidation = validateSymlinkConfig(
+			detectionResult,
+			config.symlink,
+			symlinkedFileTypes,
+		);
+		if (!symlinkValidation.valid) {
+			throw new SymlinkConfigError(
+				symlinkValidation.error ?? "Symlink validation failed",
+			);
+		}
+	}
+
+	const ignoreText = await source
+		.readFile(".intentlayerignore", ref)
+		.catch(() => undefined);
+	const directoryConfigs = await loadDirectoryConfigs(tree, (path) =>
+		source.readFile(path, ref),
+	);
+	const ignore = applyDirectoryIgnores(
+		ignoreText ? parseIntentLayerIgnore(ignoreText) : undefined,
+		directoryConfigs,
+	);
+	const workspacePackages = await findWorkspacePackages(
+		tree,
+		(path) => source.readFile(path, ref),
+		ignore,
+	);
+
+	const hierarchies = buildHierarchies(detectionResult);
+	const plans: FileTypeAnalysis[] = [];
+	for (const fileType of getAnalyzedFileTypes(config)) {
+		const hierarchy = hierarchies[fileType];
+		const staleness = await calculateAffectedNodeStaleness(
+			source,
+			hierarchy,
+			diff,
+			baseRef,
+			config,
+			ignore,
+		);
+		plans.push(
+			planFileTypeAnalysis(
+				hierarchy,
+				diff,
+				config,
+				ignore,
+				staleness,
+				directoryConfigs,
+				workspacePackages,
+			),
+		);
+	}
+	const analyses = plans
+		.map((analysis) =>
+			nodePaths ? focusAnalysisOnNodes(analysis, nodePaths) : analysis,
+		)
+		.filter(hasAnalysisWork);
+
+	// Check the analyzed intent nodes for broken path references
+	const lint = await lintIntentLayer(
+		source,
+		plans.flatMap((plan) => [...plan.hierarchy.nodesByPath.values()]),
+		tree,
+		ref,
+		diff.files,
+	);
+	annotateBrokenReferences(lint.findings);
+	if (nodePaths) {
+		lint.fixes = lint.fixes.filter((fix) => nodePaths.has(fix.nodePath));
+	}
+
+	// Move intent nodes whose directories the changes moved
+	const moves = (
+		await Promise.all(
+			plans.map((plan) =>
+				findNodeMoves(source, plan.hierarchy, diff.files, tree, ref),
+			),
+		)
+	)
+		.flat()
+		.filter(
+			(move) =>
+				!nodePaths ||
+				nodePaths.has(move.fromPath) ||
+				nodePaths.has(move.toPath),
+		);
+
+	return {
+		tree,
+		ignore,
+		directoryConfigs,
+		plans,
+		analyses,
+		lint,
+		moves,
+	};
+}
+
+/**
+ * Build the prompt resolver for the configured prompts and the prompts of
+ * directory configurations.
+ *
+ * @param config - Parsed action inputs
+ * @param directoryConfigs - Directory configuration overrides
+ * @returns The prompt resolver, or undefined if no prompts are configured
+ */
+export function createAnalysisPromptResolver(
+	config: ActionInputs,
+	directoryConfigs: DirectoryConfig[],
+): PatternMatchedPromptResolver | undefined {
+	const directoryPrompts = getDirectoryPrompts(directoryConfigs);
+	return config.prompts || directoryPrompts.length > 0
+		? createPromptResolver(config.prompts).addConfigs(directoryPrompts)
+		: undefined;
+}
+
+/**
+ * Resolve the token budget in effect for every node of some hierarchies,
+ * for nodes whose directory configuration overrides it.
+ *
+ * @param hierarchies - Hierarchies of existing intent files
+ * @param config - Parsed action inputs
+ * @param directoryConfigs - Directory configuration overrides
+ * @returns Budget percentages keyed by node path
+ */
+export function getNodeBudgetThresholds(
+	hierarchies: IntentHierarchy[],
+	config: ActionInputs,
+	directoryConfigs: DirectoryConfig[],
+): Map<string, number> {
+	const thresholds = new Map<string, number>();
+	for (const hierarchy of hierarchies) {
+		for (const node of hierarchy.nodesByPath.values()) {
+			const effective = resolveDirectoryConfig(
+				config,
+				directoryConfigs,
+				node.directory,
+			);
+			if (
+				effective.config.token_budget_percent !== config.token_budget_percent
+			) {
+				thresholds.set(node.file.path, effective.config.token_budget_percent);
+			}
+		}
+	}
+	return thresholds;
+}
+
+/**
+ * Collect the staleness of the nodes with direct updates across analyses.
+ *
+ * @param analyses - Analysis plans for each file type
+ * @returns Staleness keyed by node path
+ */
+export function getNodeStaleness(
+	analyses: FileTypeAnalysis[],
+): Map<string, NodeStaleness> {
+	const staleness = new Map<string, NodeStaleness>();
+	for (const analysis of analyses) {
+		for (const candidate of analysis.directUpdates.candidates) {
+			if (candidate.staleness) {
+				staleness.set(candidate.node.file.path, candidate.staleness);
+			}
+		}
+	}
+	return staleness;
+}
+
+/**
+ * Collect the settings in effect for analyzed nodes across analyses.
+ *
+ * @param analyses - Analysis plans for each file type
+ * @returns Effective settings keyed by node path
+ */
+export function getNodeConfigs(
+	analyses: FileTypeAnalysis[],
+): Map<string, EffectiveConfig> {
+	const configs = new Map<string, EffectiveConfig>();
+	for (const analysis of analyses) {
+		for (const [path, config] of analysis.nodeConfigs) {
+			configs.set(path, config);
+		}
+	}
+	return configs;
+}
+
+/**
+ * Check whether an analysis has anything for the LLM to look at.
+ *
+ * @param analysis - Analysis plan for one file type
+ * @returns True if there are nodes to update, review, or create
+ */
+export function hasAnalysisWork(analysis: FileTypeAnalysis): boolean {
+	return (
+		analysis.directUpdates.hasUpdates ||
+		analysis.parentReview.hasRecommendedUpdates ||
+		analysis.semanticBoundaries.hasCandidates
+	);
+}
+
+/**
+ * Restrict an analysis to specific intent nodes.
+ *
+ * Used when a reviewer asks for specific nodes to be regenerated. Requested
+ * parent nodes are always recommended for update, since the reviewer asked
+ * for them explicitly.
+ *
+ * @param analysis - Analysis plan for one file type
+ * @param nodePaths - Paths of the intent nodes (or suggested new nodes) to keep
+ * @returns Analysis plan covering only the requested nodes
+ */
+export function focusAnalysisOnNodes(
+	analysis: FileTypeAnalysis,
+	nodePaths: ReadonlySet<string>,
+): FileTypeAnalysis {
+	const directCandidates = analysis.directUpdates.candidates.filter(
+		(candidate) => nodePaths.has(candidate.node.file.path),
+	);
+	const parentCandidates = analysis.parentReview.candidates
+		.filter((candidate) => nodePaths.has(candidate.node.file.path))
+		.map((candidate) => ({ ...candidate, recommendUpdate: true }));
+	const boundaryCandidates = analysis.semanticBoundaries.candidates.filter(
+		(candidate) => nodePaths.has(candidate.suggestedNodePath),
+	);
+
+	return {
+		...analysis,
+		directUpdates: {
+			candidates: directCandidates,
+			totalNodes: directCandidates.length,
+			hasUpdates: directCandidates.length > 0,
+		},
+		parentReview: {
+			candidates: parentCandidates,
+			totalParentNodes: parentCandidates.length,
+			hasRecommendedUpdates: parentCandidates.length > 0,
+		},
+		semanticBoundaries: {
+			...analysis.semanticBoundaries,
+			candidates: boundaryCandidates,
+			totalCandidates: boundaryCandidates.length,
+			hasCandidates: boundaryCandidates.length > 0,
+		},
+	};
+}
+
+/**
+ * Collect the changed files that led each node to be analyzed.
+ *
+ * Directly updated nodes are triggered by the changed files they cover,
+ * parent nodes by the files changed under their updated children, and
+ * suggested new nodes by the uncovered files in their directory.
+ *
+ * @param analyses - Analysis plans for the analyzed file types
+ * @returns Changed files keyed by node path (or suggested node path)
+ */
+export function getTriggeringFiles(
+	analyses: FileTypeAnalysis[],
+): Map<string, PRChangedFile[]> {
+	const triggers = new Map<string, PRChangedFile[]>();
+	const add = (nodePath: string, files: PRChangedFile[]) => {
+		const existing = triggers.get(nodePath) ?? [];
+		const known = new Set(existing.map((file) => file.filename));
+		triggers.set(nodePath, [
+			...existing,
+			...files.filter((file) => !known.has(file.filename)),
+		]);
+	};
+
+	for (const analysis of analyses) {
+		for (const candidate of analysis.directUpdates.candidates) {
+			add(
+				candidate.node.file.path,
+				candidate.changedFiles.map((coverage) => coverage.file),
+			);
+		}
+		for (const candidate of analysis.parentReview.candidates) {
+			add(
+				candidate.node.file.path,
+				candidate.updatedChildren.flatMap((child) =>
+					child.changedFiles.map((coverage) => coverage.file),
+				),
+			);
+		}
+		for (const candidate of analysis.semanticBoundaries.candidates) {
+			add(
+				candidate.suggestedNodePath,
+				candidate.uncoveredFiles.map((coverage) => coverage.file),
+			);
+		}
+	}
+
+	return triggers;
+}
+
+/**
+ * Get the path of the counterpart intent file in the same directory.
+ *
+ * @param nodePath - Path to an intent file of one of the paired kinds
+ * @param types - The paired kinds (defaults to AGENTS.md and CLAUDE.md)
+ * @returns Path to the other kind's file in the same directory, or undefined
+ *   if the node is of neither kind
+ */
+export function getOtherNodePath(
+	nodePath: string,
+	types: readonly [IntentFileType, IntentFileType] = ["agents", "claude"],
+): string | undefined {
+	const type = getIntentFileType(nodePath);
+	const otherType =
+		type === types[0] ? types[1] : type === types[1] ? types[0] : undefined;
+	if (!type || !otherType) {
+		return undefined;
+	}
+	return getIntentFilePath(otherType, getCoveredDirectory(nodePath, type));
+}
+
+/**
+ * Attach counterpart paths to updates when both files are symlinked.
+ *
+ * Symlinked files share content, so each update also targets the other file.
+ * Independently managed files each get their own proposals.
+ *
+ * @param updates - Updates returned by the LLM
+ * @param config - Parsed action inputs
+ * @returns Updates with otherNodePath set where applicable
+ */
+export function assignOtherNodePaths(
+	updates: IntentUpdate[],
+	config: ActionInputs,
+): IntentUpdate[] {
+	const symlinked = getSymlinkedFileTypes(config);
+	return updates.map((update) => ({
+		...update,
+		otherNodePath: symlinked
+			? getOtherNodePath(update.nodePath, symlinked)
+			: undefined,
+	}));
+}
+
+/**
+ * Collect split contexts for nodes that exceed the token budget.
+ *
+ * Over-budget nodes without split suggestions (or with splitting disabled)
+ * are reported as warnings instead.
+ *
+ * @param evaluation - Budget evaluation for the affected nodes
+ * @param hierarchy - The intent hierarchy the nodes belong to
+ * @param nodeContents - Map of node path to current node content
+ * @param config - Parsed action inputs
+ * @returns Split contexts for nodes with viable split suggestions
+ */
+export function getSplitContexts(
+	evaluation: NodeBudgetEvaluation,
+	hierarchy: IntentHierarchy,
+	nodeContents: Map<string, string>,
+	config: ActionInputs,
+): NodeSplitContext[] {
+	core.info(
+		`Token budget: ${evaluation.budget.exceedingCount}/${evaluation.budget.totalNodes} affected nodes exceed ${config.token_budget_percent}%`,
+	);
+
+	const splitContexts: NodeSplitContext[] = [];
+	for (const nodeResult of evaluation.budget.nodesExceedingBudget) {
+		const analysis = evaluation.splitAnalysis.nodeAnalyses.find(
+			(a) => a.nodePath === nodeResult.nodePath,
+		);
+		const node = hierarchy.nodesByPath.get(nodeResult.nodePath);
+
+		if (!analysis || analysis.suggestions.length === 0 || !node) {
+			core.warning(
+				`${nodeResult.nodePath} uses ${nodeResult.budgetPercent.toFixed(1)}% of its covered code tokens (threshold ${config.token_budget_percent}%)${config.split_large_nodes ? " but no split candidates were found" : ""}`,
+			);
+			continue;
+		}
+
+		splitContexts.push({
+			nodePath: nodeResult.nodePath,
+			currentContent: nodeContents.get(nodeResult.nodePath) ?? "",
+			nodeDirectory: node.directory,
+			budgetPercent: nodeResult.budgetPercent,
+			budgetThreshold: config.token_budget_percent,
+			splitSuggestions: analysis.suggestions,
+		});
+	}
+
+	return splitContexts;
+}
+
+/**
+ * Load the current content of each candidate's intent file.
+ *
+ * Files that cannot be read are given empty content.
+ *
+ * @param source - Repository data source
+ * @param candidates - Candidates whose node files should be read
+ * @param ref - Ref to read the files at
+ * @returns Candidates with their current content
+ */
+export async function fetchCandidateContents<T extends { node: IntentNode }>(
+	source: RepositorySource,
+	candidates: T[],
+	ref: string,
+): Promise<Array<T & { currentContent: string }>> {
+	const results: Array<T & { currentContent: string }> = [];
+
+	for (const candidate of candidates) {
+		let currentContent = "";
+		try {
+			currentContent =
+				(await source.readFile(candidate.node.file.path, ref)) ?? "";
+		} catch {
+			// File might not exist, leave content empty
+		}
+
+		results.push({
+			...candidate,
+			currentContent,
+		});
+	}
+
+	return results;
+}
+
+/**
+ * Load node contents, evaluate token budgets, and prompt the LLM for updates
+ * to a single intent file type.
+ *
+ * @param source - Repository data source
+ * @param createSession - Creates the sessions the prompts run on
+ * @param analysis - Analysis plan for the file type
+ * @param prContext - Context about the changes being analyzed
+ * @param ref - Ref to read intent files and covered code from
+ * @param config - Parsed action inputs
+ * @param promptResolver - Optional resolver for pattern-matched prompts
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @param chunked - Whether to analyze the changes in chunks (see
+ *   requestChunkedIntentUpdates)
+ * @returns Proposed intent updates and the budgets of the evaluated nodes
+ */
+export async function analyzeFileType(
+	source: RepositorySource,
+	createSession: SessionFactory,
+	analysis: FileTypeAnalysis,
+	prContext: PRContext,
+	ref: string,
+	config: ActionInputs,
+	promptResolver?: PatternMatchedPromptResolver,
+	ignore?: IntentLayerIgnore,
+	chunked = false,
+): Promise<FileTypeAnalysisResult> {
+	const nodesToUpdate = await fetchCandidateContents(
+		source,
+		analysis.directUpdates.candidates,
+		ref,
+	);
+	const parentNodesToReview = await fetchCandidateContents(
+		source,
+		analysis.parentReview.candidates,
+		ref,
+	);
+
+	// Evaluate token budget for nodes needing updates, grouped by the budget
+	// in effect for each node's directory
+	const splitContexts: NodeSplitContext[] = [];
+	const nodeBudgets = new Map<string, NodeTokenBudgetResult>();
+	const budgetGroups = new Map<number, Map<string, string>>();
+	for (const { node, currentContent } of nodesToUpdate) {
+		const budgetPercent =
+			analysis.nodeConfigs.get(node.file.path)?.config.token_budget_percent ??
+			config.token_budget_percent;
+		const group = budgetGroups.get(budgetPercent) ?? new Map();
+		group.set(node.file.path, currentContent);
+		budgetGroups.set(budgetPercent, group);
+	}
+	// Every group is evaluated against the same tree, so it is listed once
+	const treeFiles =
+		budgetGroups.size > 0 ? await listRepositoryFiles(source, ref) : [];
+	for (const [budgetPercent, nodeContents] of budgetGroups) {
+		const evaluation = await analyzeNodeBudgets(
+			source,
+			analysis.hierarchy,
+			nodeContents,
+			treeFiles,
+			{
+				budgetThresholdPercent: budgetPercent,
+				splitLargeNodes: config.split_large_nodes,
+				tokenCountOptions: {
+					skipBinaryFiles: config.skip_binary_files,
+					fileMaxLines: config.file_max_lines,
+				},
+			},
+			ignore,
+		);
+		for (const [path, result] of evaluation.budget.nodeResults) {
+			nodeBudgets.set(path, result);
+		}
+		splitContexts.push(
+			...getSplitContexts(evaluation, analysis.hierarchy, nodeContents, {
+				...config,
+				token_budget_percent: budgetPercent,
+			}),
+		);
+	}
+
+	const intentContext: IntentContext = {
+		nodesToUpdate,
+		parentNodesToReview,
+		potentialNewNodes: analysis.semanticBoundaries.candidates,
+	};
+	// Without an intent layer there are no nodes to chunk the changes by; the
+	// initialization prompt is cut to fit the context window instead
+	const { updates, promptBudget } =
+		chunked && analysis.intentLayerExists
+			? {
+					updates: await requestChunkedIntentUpdates(
+						createSession,
+						analysis,
+						prContext,
+						intentContext,
+						splitContexts,
+						config,
+						promptResolver,
+					),
+				}
+			: await requestIntentUpdates(
+					createSession,
+					analysis,
+					prContext,
+					intentContext,
+					splitContexts,
+					config,
+					promptResolver,
+				);
+
+	return { updates, nodeBudgets, promptBudget };
+}
+
+/**
+ * Start OpenCode and prompt the LLM for updates to every file type of an
+ * analysis plan, with directory prompt overrides applied.
+ *
+ * @param source - Repository data source
+ * @param plan - Analysis plan from planAnalysis
+ * @param prContext - Context about the changes being analyzed
+ * @param ref - Ref to read intent files and covered code from
+ * @param config - Parsed action inputs
+ * @param options - Session title, chunking, and nodes to keep
+ * @returns Proposed intent updates with node and prompt budgets
+ * @throws ModelAccessError if the model cannot be accessed
+ */
+export async function requestAnalysisUpdates(
+	source: RepositorySource,
+	plan: AnalysisPlan,
+	prContext: PRContext,
+	ref: string,
+	config: ActionInputs,
+	options: AnalysisRequestOptions,
+): Promise<AnalysisUpdatesResult> {
+	let opencodeResult: OpenCodeClientResult;
+	try {
+		opencodeResult = await createOpenCodeClientFromModel(config.model);
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	}
+
+	try {
+		const createSession = () =>
+			createSessionFromModelString(
+				opencodeResult.client,
+				options.sessionTitle,
+				config.model,
+				config.session_timeout_ms,
+				config.output_repair_attempts,
+				config.context_window_tokens,
+			);
+
+		const promptResolver = createAnalysisPromptResolver(
+			config,
+			plan.directoryConfigs,
+		);
+
+		const result: AnalysisUpdatesResult = {
+			updates: [],
+			nodeBudgets: new Map(),
+			promptBudgets: new Map(),
+		};
+		for (const analysis of plan.analyses) {
+			const fileTypeResult = await analyzeFileType(
+				source,
+				createSession,
+				analysis,
+				prContext,
+				ref,
+				config,
+				promptResolver,
+				plan.ignore,
+				options.chunked,
+			);
+			result.updates.push(
+				...fileTypeResult.updates.filter(
+					(update) =>
+						!options.nodePaths || options.nodePaths.has(update.nodePath),
+				),
+			);
+			for (const [nodePath, budget] of fileTypeResult.nodeBudgets) {
+				result.nodeBudgets.set(nodePath, budget);
+			}
+			if (fileTypeResult.promptBudget) {
+				result.promptBudgets.set(
+					analysis.fileType,
+					fileTypeResult.promptBudget,
+				);
+			}
+		}
+
+		return result;
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	} finally {
+		// Always close the OpenCode server
+		opencodeResult.server.close();
+	}
+}
+
+/**
+ * Add an analysis plan's reference fixes and node moves to the proposed
+ * updates, and pair each update with its symlinked counterpart.
+ *
+ * Updates to paths that are not intent files inside the repository are
+ * dropped with a warning, so a response naming another file is never
+ * written. So are proposed node creations in directories whose
+ * configuration does not allow new nodes.
+ *
+ * @param updates - Updates proposed by the LLM (empty if it was not prompted)
+ * @param plan - Analysis plan from planAnalysis
+ * @param changedFiles - Files changed by the analyzed changes
+ * @param config - Parsed action inputs
+ * @returns Updates ready to deliver
+ */
+export function finalizeAnalysisUpdates(
+	updates: IntentUpdate[],
+	plan: AnalysisPlan,
+	changedFiles: PRChangedFile[],
+	config: ActionInputs,
+): IntentUpdate[] {
+	return assignOtherNodePaths(
+		applyNodeMoves(
+			applyLintFixes(
+				updates.filter((update) =>
+					isNodeCreationAllowed(update, config, plan.directoryConfigs),
+				),
+				plan.lint,
+			),
+			plan.moves,
+			plan.tree,
+			changedFiles,
+		),
+		config,
+	).filter((update) => {
+		const unsafePath = [update.nodePath, update.otherNodePath].find(
+			(path) => path !== undefined && !isRepositoryIntentFilePath(path),
+		);
+		if (unsafePath !== undefined) {
+			core.warning(
+				`Dropping the ${update.action} of ${unsafePath}: not an intent file in the repository`,
+			);
+		}
+		return unsafePath === undefined;
+	});
+}
+
+/**
+ * Check whether a proposed update may be applied given the `new_nodes`
+ * setting in effect for the directory it would create a node in.
+ */
+function isNodeCreationAllowed(
+	update: IntentUpdate,
+	config: ActionInputs,
+	directoryConfigs: DirectoryConfig[],
+): boolean {
+	const type = getIntentFileType(update.nodePath);
+	if (update.action !== "create" || !type) {
+		return true;
+	}
+
+	const directory = getCoveredDirectory(update.nodePath, type);
+	if (
+		resolveDirectoryConfig(config, directoryConfigs, directory).config.new_nodes
+	) {
+		return true;
+	}
+	core.warning(
+		`Dropping the creation of ${update.nodePath}: new nodes are not allowed in ${directory || "the repository root"}`,
+	);
+	return false;
+}
+
+/**
+ * Prompt the LLM for updates to a single intent file type.
+ *
+ * Sends the initialization prompt when no intent layer exists yet, otherwise
+ * the full analysis prompt, then requests splits for over-budget nodes. Each
+ * prompt runs on a new session, so no earlier conversation is sent along
+ * with it, and is cut to fit what the session leaves of the context window,
+ * either configured or reported for its model.
+ *
+ * @param createSession - Creates the sessions the prompts run on
+ * @param analysis - Analysis plan for the file type
+ * @param prContext - Context about the changes being analyzed
+ * @param intentContext - Intent nodes with their current content
+ * @param splitContexts - Over-budget nodes to request splits for
+ * @param config - Parsed action inputs
+ * @param promptResolver - Optional resolver for pattern-matched prompts
+ * @returns Proposed intent updates and what was cut from the analysis or
+ *   initialization prompt
+ * @throws Error if the LLM response cannot be parsed
+ */
+export async function requestIntentUpdates(
+	createSession: SessionFactory,
+	analysis: FileTypeAnalysis,
+	prContext: PRContext,
+	intentContext: IntentContext,
+	splitContexts: NodeSplitContext[],
+	config: ActionInputs,
+	promptResolver?: PatternMatchedPromptResolver,
+): Promise<IntentUpdatesResult> {
+	const { fileType } = analysis;
+	const prMetadata = prContext.metadata;
+
+	try {
+		const { llmOutput, promptBudget } = await withNewSession(
+			createSession,
+			async (session) => {
+				const promptConfig: PromptConfig = {
+					fileType: getPromptFileType(config, fileType),
+					newNodesAllowed:
+						config.new_nodes || analysis.semanticBoundaries.hasCandidates,
+					splitLargeNodes: config.split_large_nodes,
+					maxPatchLines: config.max_patch_lines,
+					tokenBudget: session.getPromptTokenBudget(),
+					promptResolver,
+				};
+
+				// Build and send the analysis prompt: the initialization prompt
+				// when no intent layer exists yet, otherwise the full analysis
+				const { prompt, report } = analysis.intentLayerExists
+					? assembleAnalysisPrompt(prContext, intentContext, promptConfig)
+					: assembleInitializationPrompt(
+							prMetadata,
+							prContext.changedFiles,
+							fileType,
+							promptResolver,
+							promptConfig.tokenBudget,
+						);
+				let promptBudget: PromptBudgetReport | undefined;
+				if (promptConfig.tokenBudget !== undefined) {
+					promptBudget = report;
+					logPromptBudget(
+						`${analysis.intentLayerExists ? "Analysis" : "Initialization"} prompt for ${fileType}`,
+						promptBudget,
+					);
+				}
+
+				core.info(
+					`Sending ${fileType} prompt to LLM (prompt length: ${prompt.length} chars)...`,
+				);
+				const result = await session.prompt({ prompt });
+				core.info(
+					`LLM response received (raw length: ${result.rawResponse.length} chars)`,
+				);
+				core.debug(`Raw LLM response: ${result.rawResponse.substring(0, 500)}`);
+
+				if (!result.parsedOutput) {
+					core.error(
+						`LLM response parsing failed. Raw response (first 2000 chars): ${result.rawResponse.substring(0, 2000)}`,
+					);
+					throw new Error(
+						`Invalid LLM output: ${result.parseError ?? "Unknown parse error"}`,
+					);
+				}
+				return { llmOutput: result.parsedOutput, promptBudget };
+			},
+		);
+
+		// Request splits for nodes exceeding the token budget
+		const updates = await requestNodeSplits(
+			createSession,
+			splitContexts,
+			llmOutput.updates,
+			prMetadata,
+			fileType,
+		);
+		return { updates, promptBudget };
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	}
+}
+
+/**
+ * Prompt the LLM for updates to a single intent file type in chunks, for PRs
+ * too large to analyze in one prompt.
+ *
+ * Each node covering changed files gets its own prompt with just its changes.
+ * Up to `analysis_concurrency` of these prompts run at once. A final
+ * reconciliation pass then decides on parent nodes and new nodes given the
+ * per-node outcomes, and splits are requested for over-budget nodes. Every
+ * prompt runs on a new session and is cut to fit its context window.
+ *
+ * @param createSession - Creates the sessions the prompts run on
+ * @param analysis - Analysis plan for the file type
+ * @param prContext - Context about the changes being analyzed
+ * @param intentContext - Intent nodes with their current content
+ * @param splitContexts - Over-budget nodes to request splits for
+ * @param config - Parsed action inputs
+ * @param promptResolver - Optional resolver for pattern-matched prompts
+ * @returns Proposed intent updates
+ */
+export async function requestChunkedIntentUpdates(
+	createSession: SessionFactory,
+	analysis: FileTypeAnalysis,
+	prContext: PRContext,
+	intentContext: IntentContext,
+	splitContexts: NodeSplitContext[],
+	config: ActionInputs,
+	promptResolver?: PatternMatchedPromptResolver,
+): Promise<IntentUpdate[]> {
+	const { fileType } = analysis;
+	const prMetadata = prContext.metadata;
+	const newNodesAllowed =
+		config.new_nodes || analysis.semanticBoundaries.hasCandidates;
+
+	try {
+		core.info(
+			`Analyzing ${intentContext.nodesToUpdate.length} ${fileType} nodes in chunks (concurrency ${config.analysis_concurrency})...`,
+		);
+		const nodeUpdates = await requestNodeUpdatesInParallel(
+			createSession,
+			intentContext.nodesToUpdate,
+			prMetadata,
+			fileType,
+			config.analysis_concurrency,
+			promptResolver,
+		);
+
+		const reviewedNodePaths = intentContext.nodesToUpdate.map(
+			(candidate) => candidate.node.file.path,
+		);
+		const reconciled = await requestReconciliation(
+			createSession,
+			prContext,
+			nodeUpdates,
+			reviewedNodePaths,
+			intentContext,
+			{
+				fileType: getPromptFileType(config, fileType),
+				newNodesAllowed,
+				splitLargeNodes: config.split_large_nodes,
+				promptResolver,
+			},
+		);
+
+		return await requestNodeSplits(
+			createSession,
+			splitContexts,
+			[...nodeUpdates, ...reconciled],
+			prMetadata,
+			fileType,
+		);
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	}
+}
+
+/**
+ * Prompt for each node's update on its own, running up to `concurrency`
+ * prompts at once. Each prompt runs on a new session, since a session answers
+ * one prompt at a time and would otherwise send the earlier nodes along.
+ *
+ * Nodes whose response cannot be parsed are skipped with a warning.
+ *
+ * @returns Updates for the nodes, in the order of the candidates
+ */
+async function requestNodeUpdatesInParallel(
+	createSession: SessionFactory,
+	candidates: NodeUpdateCandidateWithContent[],
+	prMetadata: PRMetadata,
+	fileType: IntentFileType,
+	concurrency: number,
+	promptResolver?: PatternMatchedPromptResolver,
+): Promise<IntentUpdate[]> {
+	const pending = [...candidates];
+	const updatesByPath = new Map<string, IntentUpdate>();
+
+	const requestNodeUpdate = (
+		candidate: NodeUpdateCandidateWithContent,
+	): Promise<void> =>
+		withNewSession(createSession, async (session) => {
+			const nodePath = candidate.node.file.path;
+			const { prompt, report } = assembleSingleNodeUpdatePrompt(
+				candidate,
+				candidate.changedFiles.map((coverage) => coverage.file),
+				candidate.updateReason,
+				prMetadata,
+				fileType,
+				promptResolver,
+				undefined,
+				session.getPromptTokenBudget(),
+			);
+			if (isPromptTrimmed(report)) {
+				logPromptBudget(`Prompt for ${nodePath}`, report);
+			}
+
+			const result = await session.prompt({ prompt });
+			if (!result.parsedOutput) {
+				core.warning(
+					`Response for ${nodePath} could not be parsed, skipping the node: ${result.parseError ?? "Unknown parse error"}`,
+				);
+				return;
+			}
+			const update = result.parsedOutput.updates.find(
+				(u) => u.nodePath === nodePath,
+			);
+			if (update) {
+				updatesByPath.set(nodePath, update);
+			}
+		});
+
+	const runWorker = async (): Promise<void> => {
+		for (
+			let candidate = pending.shift();
+			candidate;
+			candidate = pending.shift()
+		) {
+			await requestNodeUpdate(candidate);
+		}
+	};
+
+	const workerCount = Math.min(Math.max(1, concurrency), candidates.length);
+	await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+	return candidates.flatMap((candidate) => {
+		const update = updatesByPath.get(candidate.node.file.path);
+		return update ? [update] : [];
+	});
+}
+
+/**
+ * Prompt for parent node and new node updates given the per-node outcomes of
+ * a chunked analysis.
+ *
+ * Updates for nodes that were already decided, and creations when new nodes
+ * are not allowed, are dropped. An unparseable response is skipped with a
+ * warning so the per-node updates are kept.
+ *
+ * @returns Updates for parent nodes and new nodes
+ */
+async function requestReconciliation(
+	createSession: SessionFactory,
+	prContext: PRContext,
+	nodeUpdates: IntentUpdate[],
+	reviewedNodePaths: string[],
+	intentContext: IntentContext,
+	promptConfig: PromptConfig,
+): Promise<IntentUpdate[]> {
+	const hasNewNodeCandidates =
+		promptConfig.newNodesAllowed && intentContext.potentialNewNodes.length > 0;
+	if (intentContext.parentNodesToReview.length === 0 && !hasNewNodeCandidates) {
+		return [];
+	}
+
+	core.info("Sending reconciliation prompt for parent and new nodes...");
+	const result = await withNewSession(createSession, (session) => {
+		const { prompt, report } = assembleReconciliationPrompt(
+			prContext,
+			nodeUpdates,
+			reviewedNodePaths,
+			intentContext,
+			{ ...promptConfig, tokenBudget: session.getPromptTokenBudget() },
+		);
+		if (isPromptTrimmed(report)) {
+			logPromptBudget("Reconciliation prompt", report);
+		}
+		return session.prompt({ prompt });
+	});
+	if (!result.parsedOutput) {
+		core.warning(
+			`Reconciliation response could not be parsed, keeping per-node updates only: ${result.parseError ?? "Unknown parse error"}`,
+		);
+		return [];
+	}
+
+	const decided = new Set(reviewedNodePaths);
+	return result.parsedOutput.updates.filter(
+		(update) =>
+			!decided.has(update.nodePath) &&
+			(promptConfig.newNodesAllowed || update.action !== "create"),
+	);
+}
+
+/**
+ * Request split updates for each over-budget node.
+ *
+ * Split updates take precedence over updates from the main analysis for the
+ * same node path. Each split prompt runs on a new session, so the analysis
+ * conversation is not sent along. Unparseable split responses are skipped
+ * with a warning.
+ */
+async function requestNodeSplits(
+	createSession: SessionFactory,
+	splitContexts: NodeSplitContext[],
+	updates: IntentUpdate[],
+	prMetadata: PRMetadata,
+	fileType: IntentFileType,
+): Promise<IntentUpdate[]> {
+	let merged = updates;
+
+	for (const splitContext of splitContexts) {
+		core.info(
+			`Requesting split for ${splitContext.nodePath} (${splitContext.splitSuggestions.length} suggested child nodes)`,
+		);
+		const result = await withNewSession(createSession, (session) => {
+			const { prompt, report } = assembleNodeSplitPrompt(
+				splitContext,
+				prMetadata,
+				fileType,
+				session.getPromptTokenBudget(),
+			);
+			if (isPromptTrimmed(report)) {
+				logPromptBudget(`Split prompt for ${splitContext.nodePath}`, report);
+			}
+			return session.prompt({ prompt });
+		});
+
+		if (!result.parsedOutput) {
+			core.warning(
+				`Split response for ${splitContext.nodePath} could not be parsed: ${result.parseError ?? "Unknown parse error"}`,
+			);
+			continue;
+		}
+
+		merged = mergeIntentUpdates(merged, result.parsedOutput.updates);
+	}
+
+	return merged;
+}
+
+/**
+ * Run prompts on a new session, deleting it afterwards.
+ *
+ * @returns The result of the prompts
+ */
+async function withNewSession<T>(
+	createSession: SessionFactory,
+	run: (session: IntentAnalysisSession) => Promise<T>,
+): Promise<T> {
+	const session = await createSession();
+	try {
+		return await run(session);
+	} finally {
+		await session.delete().catch((error) => {
+			core.warning(`Failed to delete analysis session: ${error}`);
+		});
+	}
+}
+
+/**
+ * Log the size of a budgeted prompt, as a warning if anything was cut.
+ */
+function logPromptBudget(description: string, report: PromptBudgetReport) {
+	const message = `${description}: ${formatPromptBudgetReport(report)}`;
+	if (isPromptTrimmed(report)) {
+		core.warning(message);
+	} else {
+		core.info(message);
+	}
+}
+
+/**
+ * Prompt the LLM to revise a proposed update after reviewer feedback.
+ *
+ * @param session - Active analysis session
+ * @param nodeWithContent - The intent node with its current content
+ * @param changedFiles - Changed files that led to the original proposal
+ * @param prMetadata - PR metadata for context
+ * @param reviewerFeedback - The previous proposal and the reviewer's feedback
+ * @param promptResolver - Optional resolver for pattern-matched prompts
+ * @returns The revised update for the node, or undefined if none was proposed
+ * @throws Error if the LLM response cannot be parsed
+ */
+export async function requestRevisedUpdate(
+	session: IntentAnalysisSession,
+	nodeWithContent: IntentNodeWithContent,
+	changedFiles: PRChangedFile[],
+	prMetadata: PRMetadata,
+	reviewerFeedback: ReviewerFeedback,
+	promptResolver?: PatternMatchedPromptResolver,
+): Promise<IntentUpdate | undefined> {
+	const nodePath = nodeWithContent.node.file.path;
+	const { prompt, report } = assembleSingleNodeUpdatePrompt(
+		nodeWithContent,
+		changedFiles,
+		reviewerFeedback.previousUpdate.reason,
+		prMetadata,
+		nodeWithContent.node.file.type,
+		promptResolver,
+		reviewerFeedback,
+		session.getPromptTokenBudget(),
+	);
+	if (isPromptTrimmed(report)) {
+		logPromptBudget(`Revision prompt for ${nodePath}`, report);
+	}
+
+	try {
+		core.info(
+			`Sending revision prompt for ${nodePath} to LLM (prompt length: ${prompt.length} chars)...`,
+		);
+		const result = await session.prompt({ prompt });
+		if (!result.parsedOutput) {
+			throw new Error(
+				`Invalid LLM output: ${result.parseError ?? "Unknown parse error"}`,
+			);
+		}
+		return result.parsedOutput.updates.find(
+			(update) => update.nodePath === nodePath,
+		);
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	}
+}
+
+/**
+ * Prompt the LLM to refresh the nodes flagged by a repository audit.
+ *
+ * Updates for paths that are neither a stale node nor, when new nodes are
+ * allowed in its directory, a suggested hotspot node are dropped.
+ *
+ * @param session - Active analysis session
+ * @param audit - Audit findings for one intent file type
+ * @param config - Parsed action inputs
+ * @param promptResolver - Optional resolver for pattern-matched prompts
+ * @param directoryConfigs - Directory configuration overrides of `new_nodes`
+ * @returns Proposed intent updates
+ * @throws Error if the LLM response cannot be parsed
+ */
+export async function requestAuditUpdates(
+	session: IntentAnalysisSession,
+	audit: HierarchyAudit,
+	config: ActionInputs,
+	promptResolver?: PatternMatchedPromptResolver,
+	directoryConfigs: DirectoryConfig[] = [],
+): Promise<IntentUpdate[]> {
+	const { fileType } = audit.hierarchy;
+	const hotspots = audit.hotspots.filter(
+		(hotspot) =>
+			resolveDirectoryConfig(config, directoryConfigs, hotspot.directory).config
+				.new_nodes,
+	);
+	const auditedPaths = new Set([
+		...audit.staleNodes.map((stale) => stale.node.file.path),
+		...hotspots.map((hotspot) => hotspot.suggestedNodePath),
+	]);
+	if (auditedPaths.size === 0) {
+		return [];
+	}
+
+	const coveredFiles = new Map(
+		[...audit.coveredFilesMap].map(([nodePath, result]) => [
+			nodePath,
+			result.coveredFiles,
+		]),
+	);
+	const tokenBudget = session.getPromptTokenBudget();
+	const { prompt, report } = assembleAuditPrompt(
+		audit.staleNodes,
+		hotspots,
+		{
+			fileType: getPromptFileType(config, fileType),
+			newNodesAllowed: hotspots.length > 0,
+			splitLargeNodes: config.split_large_nodes,
+			tokenBudget,
+			promptResolver,
+		},
+		coveredFiles,
+	);
+	if (tokenBudget !== undefined) {
+		logPromptBudget(`Audit prompt for ${fileType}`, report);
+	}
+
+	try {
+		core.info(
+			`Sending ${fileType} audit prompt to LLM (prompt length: ${prompt.length} chars)...`,
+		);
+		const result = await session.prompt({ prompt });
+		if (!result.parsedOutput) {
+			throw new Error(
+				`Invalid LLM output: ${result.parseError ?? "Unknown parse error"}`,
+			);
+		}
+		return result.parsedOutput.updates.filter((update) =>
+			auditedPaths.has(update.nodePath),
+		);
+	} catch (error) {
+		checkAndHandleModelAccessError(error);
+		throw error;
+	}
+}
@@ -0,0 +1,220 @@
+/**
+ * Intent Node Staleness
+ *
+ * Scores how far each intent node has drifted from its code, using the
+ * commits that touched its covered files since the node file was last
+ * modified. Nodes can drift across many small PRs that each look too minor to
+ * warrant an update; the score lets analysis flag them anyway.
+ */
+
+import type { IntentLayerIgnore } from "../patterns/ignore";
+import type { RepositorySource } from "../repository/source";
+import {
+	findCoveringNode,
+	type IntentHierarchy,
+	type IntentNode,
+} from "./hierarchy";
+import { isIntentFilePath } from "./kinds";
+
+/**
+ * Staleness of a single intent node.
+ */
+export interface NodeStaleness {
+	/** Path to the intent node file */
+	nodePath: string;
+	/** Commit that last modified the node file, if found in the history */
+	lastModifiedSha?: string;
+	/** Commits that changed covered files since the node was last modified */
+	commitCount: number;
+	/** Lines added and deleted in covered files by those commits */
+	linesChurned: number;
+	/** Covered files added by those commits */
+	filesAdded: string[];
+	/** Covered files removed by those commits */
+	filesRemoved: string[];
+	/** Whether the history limit was reached before the node's last modification */
+	truncated: boolean;
+	/** Combined staleness score (higher means more drift) */
+	score: number;
+}
+
+/**
+ * Options controlling staleness calculation.
+ */
+export interface StalenessOptions {
+	/** Maximum commits of history to read per node */
+	historyLimit: number;
+}
+
+/**
+ * Default number of commits of history read per node.
+ */
+export const DEFAULT_STALENESS_HISTORY_LIMIT = 50;
+
+/**
+ * Lines churned that add one point to the staleness score.
+ */
+const LINES_PER_SCORE_POINT = 100;
+
+/**
+ * Points added to the staleness score per covered file added or removed,
+ * since new and deleted files usually change what a node should describe.
+ */
+const SCORE_PER_FILE_ADDED_OR_REMOVED = 2;
+
+/**
+ * Combine drift measurements into a staleness score.
+ *
+ * Each commit adds one point, each 100 lines churned add one point, and each
+ * covered file added or removed adds two points.
+ *
+ * @param staleness - Drift measurements for a node
+ * @returns Score rounded to one decimal place
+ */
+export function calculateStalenessScore(
+	staleness: Pick<
+		NodeStaleness,
+		"commitCount" | "linesChurned" | "filesAdded" | "filesRemoved"
+	>,
+): number {
+	const score =
+		staleness.commitCount +
+		staleness.linesChurned / LINES_PER_SCORE_POINT +
+		(staleness.filesAdded.length + staleness.filesRemoved.length) *
+			SCORE_PER_FILE_ADDED_OR_REMOVED;
+	return Math.round(score * 10) / 10;
+}
+
+/**
+ * Calculate the staleness of an intent node from repository history.
+ *
+ * Only changes to files the node covers count: files under a more specific
+ * node, other intent files, and ignored files are left out.
+ *
+ * @param source - Repository data source
+ * @param node - The intent node to score
+ * @param hierarchy - The hierarchy the node belongs to
+ * @param ref - Ref to read history from
+ * @param options - Staleness options
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @returns Staleness of the node
+ */
+export async function calculateNodeStaleness(
+	source: RepositorySource,
+	node: IntentNode,
+	hierarchy: IntentHierarchy,
+	ref: string,
+	options: StalenessOptions,
+	ignore?: IntentLayerIgnore,
+): Promise<NodeStaleness> {
+	const nodePath = node.file.path;
+	const [[lastModified], history] = await Promise.all([
+		source.getPathHistory(nodePath, ref, 1),
+		source.getPathHistory(node.directory, ref, options.historyLimit),
+	]);
+
+	let commitCount = 0;
+	let linesChurned = 0;
+	const filesAdded = new Set<string>();
+	const filesRemoved = new Set<string>();
+	let reachedLastModified = false;
+
+	for (const commit of history) {
+		if (commit.sha === lastModified?.sha) {
+			reachedLastModified = true;
+			break;
+		}
+
+		const coveredFiles = commit.files.filter(
+			(file) =>
+				!isIntentFilePath(file.filename) &&
+				!ignore?.ignores(file.filename) &&
+				findCoveringNode(file.filename, hierarchy) === node,
+		);
+		if (coveredFiles.length === 0) {
+			continue;
+		}
+
+		commitCount++;
+		for (const file of coveredFiles) {
+			linesChurned += file.additions + file.deletions;
+			if (file.status === "added") filesAdded.add(file.filename);
+			if (file.status === "removed") filesRemoved.add(file.filename);
+		}
+	}
+
+	const staleness = {
+		nodePath,
+		lastModifiedSha: lastModified?.sha,
+		commitCount,
+		linesChurned,
+		filesAdded: [...filesAdded].sort(),
+		filesRemoved: [...filesRemoved].sort(),
+		truncated: !reachedLastModified && history.length >= options.historyLimit,
+	};
+
+	return { ...staleness, score: calculateStalenessScore(staleness) };
+}
+
+/**
+ * Calculate the staleness of several nodes of a hierarchy.
+ *
+ * @param source - Repository data source
+ * @param nodes - The intent nodes to score
+ * @param hierarchy - The hierarchy the nodes belong to
+ * @param ref - Ref to read history from
+ * @param options - Staleness options
+ * @param ignore - Optional IntentLayerIgnore instance for excluding files
+ * @returns Staleness keyed by node path
+ */
+export async function calculateStalenessForNodes(
+	source: RepositorySource,
+	nodes: IntentNode[],
+	hierarchy: IntentHierarchy,
+	ref: string,
+	options: StalenessOptions,
+	ignore?: IntentLayerIgnore,
+): Promise<Map<string, NodeStaleness>> {
+	const results = new Map<string, NodeStaleness>();
+
+	for (const node of nodes) {
+		results.set(
+			node.file.path,
+			await calculateNodeStaleness(
+				source,
+				node,
+				hierarchy,
+				ref,
+				options,
+				ignore,
+			),
+		);
+	}
+
+	return results;
+}
+
+/**
+ * Describe a node's drift for update reasons and summaries.
+ *
+ * @param staleness - Staleness of a node
+ * @returns Description such as "12 commits, 340 lines churned, 2 files added
+ *   since the node was last updated"
+ */
+export function formatStaleness(staleness: NodeStaleness): string {
+	const parts = [
+		`${staleness.commitCount}${staleness.truncated ? "+" : ""} commit${staleness.commitCount === 1 ? "" : "s"}`,
+		`${staleness.linesChurned} line${staleness.linesChurned === 1 ? "" : "s"} churned`,
+	];
+	if (staleness.filesAdded.length > 0) {
+		parts.push(
+			`${staleness.filesAdded.length} file${staleness.filesAdded.length === 1 ? "" : "s"} added`,
+		);
+	}
+	if (staleness.filesRemoved.length > 0) {
+		parts.push(
+			`${staleness.filesRemoved.length} file${staleness.filesRemoved.length === 1 ? "" : "s"} removed`,
+		);
+	}
+	return `${parts.join(", ")} since the node was last updated`;
+}
@@ -480,7 +480,7 @@ const MIN_COVERAGE_PERCENT_FOR_SPLIT = 10;
  * @param budgetThresholdPercent - Budget threshold to determine if split is needed
  * @param existingNodeDirectories - Set of directories that already have intent nodes
  * @param options - Token counting options
- * @param intentFileName - Name of intent files (default "AGENTS.md")
+ * @param intentFileName - Path of new intent files relative to the directory they cover (default "AGENTS.md")
  * @returns Analysis with split suggestions
  */
 export function analyzeNodeForSplit(
@@ -604,7 +604,7 @@ export interface HierarchySplitAnalysis {
  * @param budgetThresholdPercent - Budget threshold
  * @param existingNodeDirectories - Set of directories that already have intent nodes
  * @param options - Token counting options
- * @param intentFileName - Name of intent files (default "AGENTS.md")
+ * @param intentFileName - Path of new intent files relative to the directory they cover (default "AGENTS.md")
  * @returns Analysis with split suggestions for all nodes
  */
 export function analyzeHierarchyForSplits(
@@ -0,0 +1,394 @@
+/**
+ * Workspace Packages
+ *
+ * Finds the package roots of a repository from its workspace manifests, so
+ * new intent nodes can be suggested at real package boundaries instead of
+ * directories that merely look like one.
+ *
+ * Workspace members are read from the manifests at the repository root:
+ * `package.json` `workspaces`, `pnpm-workspace.yaml`, Cargo `[workspace]`
+ * members, `go.work` `use` directives, and uv `[tool.uv.workspace]` members.
+ * Directories with a `go.mod` or `pyproject.toml` are package roots on their
+ * own, since each one is a separately built module, unless the root `go.work`
+ * or uv workspace lists the members. Standalone modules under vendored,
+ * test-data, fixture, or example directories, or ignored by
+ * .intentlayerignore, are not package roots.
+ */
+
+import { minimatch } from "minimatch";
+import YAML from "yaml";
+import type { IntentLayerIgnore } from "../patterns/ignore";
+import type { RepositoryTreeEntry } from "../repository/source";
+
+/**
+ * Directory names whose standalone modules are not package roots: vendored
+ * dependencies, test data, and sample code.
+ */
+const NON_PACKAGE_DIRECTORIES = new Set([
+	"vendor",
+	"node_modules",
+	"testdata",
+	"fixtures",
+	"__fixtures__",
+	"examples",
+]);
+
+/**
+ * Manifest a workspace package was found through.
+ */
+export type WorkspaceManifest =
+	| "package.json"
+	| "pnpm-workspace.yaml"
+	| "Cargo.toml"
+	| "go.work"
+	| "go.mod"
+	| "pyproject.toml";
+
+/**
+ * A package root declared by a workspace manifest.
+ */
+export interface WorkspacePackage {
+	/** Directory of the package, relative to the repository root */
+	directory: string;
+	/** Manifest that declares the package */
+	manifest: WorkspaceManifest;
+}
+
+/**
+ * Member patterns declared by a root workspace manifest.
+ */
+interface WorkspaceMembers {
+	manifest: WorkspaceManifest;
+	/** File that marks a matching directory as a package */
+	packageFile: string;
+	/** Glob patterns of member directories; `!` excludes */
+	patterns: string[];
+}
+
+/**
+ * Find the package roots declared by the repository's workspace manifests.
+ *
+ * The repository root is never returned, since it is a boundary anyway.
+ *
+ * @param entries - Recursive tree listing
+ * @param readFile - Reads a file from the repository, or undefined if missing
+ * @param ignore - Patterns of paths whose standalone modules are not packages
+ * @returns Package roots sorted by directory
+ */
+export async function findWorkspacePackages(
+	entries: RepositoryTreeEntry[],
+	readFile: (path: string) => Promise<string | undefined>,
+	ignore?: IntentLayerIgnore,
+): Promise<WorkspacePackage[]> {
+	const blobs = new Set(
+		entries.filter((entry) => entry.type === "blob").map((entry) => entry.path),
+	);
+	const packages = new Map<string, WorkspacePackage>();
+	const add = (directory: string, manifest: WorkspaceManifest) => {
+		if (directory !== "" && !packages.has(directory)) {
+			packages.set(directory, { directory, manifest });
+		}
+	};
+
+	const readRoot = async (path: string) =>
+		blobs.has(path) ? await readFile(path).catch(() => undefined) : undefined;
+	const members = parseWorkspaceMembers({
+		packageJson: await readRoot("package.json"),
+		pnpmWorkspace: await readRoot("pnpm-workspace.yaml"),
+		cargoToml: await readRoot("Cargo.toml"),
+		goWork: await readRoot("go.work"),
+		pyprojectToml: await readRoot("pyproject.toml"),
+	});
+
+	for (const { manifest, packageFile, patterns } of members) {
+		for (const directory of matchMemberDirectories(
+			blobs,
+			packageFile,
+			patterns,
+		)) {
+			add(directory, manifest);
+		}
+	}
+
+	// Go modules and Python projects are packages wherever they are, unless a
+	// root workspace lists which ones are
+	const listedPackageFiles = new Set(members.map((m) => m.packageFile));
+	for (const path of blobs) {
+		const fileName = path.substring(path.lastIndexOf("/") + 1);
+		if (
+			(fileName === "go.mod" || fileName === "pyproject.toml") &&
+			!listedPackageFiles.has(fileName) &&
+			!isNonPackagePath(path) &&
+			!ignore?.ignores(path)
+		) {
+			add(path.slice(0, -fileName.length - 1), fileName);
+		}
+	}
+
+	return [...packages.values()].sort((a, b) =>
+		a.directory.localeCompare(b.directory),
+	);
+}
+
+/**
+ * Find the innermost workspace package containing a path.
+ *
+ * @param path - File path relative to the repository root
+ * @param packages - Package roots from findWorkspacePackages
+ * @returns The package, or undefined if the path is in none
+ */
+export function findContainingPackage(
+	path: string,
+	packages: WorkspacePackage[],
+): WorkspacePackage | undefined {
+	let containing: WorkspacePackage | undefined;
+	for (const pkg of packages) {
+		if (
+			path.startsWith(`${pkg.directory}/`) &&
+			pkg.directory.length > (containing?.directory.length ?? -1)
+		) {
+			containing = pkg;
+		}
+	}
+	return containing;
+}
+
+/**
+ * Collect the member patterns of each root workspace manifest that declares
+ * any.
+ */
+function parseWorkspaceMembers(manifests: {
+	packageJson?: string;
+	pnpmWorkspace?: string;
+	cargoToml?: string;
+	goWork?: string;
+	pyprojectToml?: string;
+}): WorkspaceMembers[] {
+	const members: WorkspaceMembers[] = [];
+
+	if (manifests.packageJson) {
+		const workspaces = parseJson(manifests.packageJson)?.workspaces;
+		const patterns = Array.isArray(workspaces)
+			? workspaces
+			: isRecord(workspaces)
+				? workspaces.packages
+				: undefined;
+		members.push({
+			manifest: "package.json",
+			packageFile: "package.json",
+			patterns: toStrings(patterns),
+		});
+	}
+
+	if (manifests.pnpmWorkspace) {
+		let parsed: unknown;
+		try {
+			parsed = YAML.parse(manifests.pnpmWorkspace);
+		} catch {
+			parsed = undefined;
+		}
+		members.push({
+			manifest: "pnpm-workspace.yaml",
+			packageFile: "package.json",
+			patterns: toStrings(isRecord(parsed) ? parsed.packages : undefined),
+		});
+	}
+
+	if (manifests.cargoToml) {
+		members.push({
+			manifest: "Cargo.toml",
+			packageFile: "Cargo.toml",
+			patterns: readTomlMembers(manifests.cargoToml, "workspace"),
+		});
+	}
+
+	if (manifests.goWork) {
+		members.push({
+			manifest: "go.work",
+			packageFile: "go.mod",
+			patterns: parseGoWorkUses(manifests.goWork),
+		});
+	}
+
+	if (manifests.pyprojectToml) {
+		members.push({
+			manifest: "pyproject.toml",
+			packageFile: "pyproject.toml",
+			patterns: readTomlMembers(manifests.pyprojectToml, "tool.uv.workspace"),
+		});
+	}
+
+	return members.filter((member) => member.patterns.length > 0);
+}
+
+/**
+ * Find the directories matching member patterns that contain the package
+ * file. Later patterns starting with `!` exclude earlier matches.
+ */
+function matchMemberDirectories(
+	blobs: Set<string>,
+	packageFile: string,
+	patterns: string[],
+): string[] {
+	const candidates = [...blobs]
+		.filter((path) => path === packageFile || path.endsWith(`/${packageFile}`))
+		.map((path) => path.slice(0, -packageFile.length - 1));
+
+	return candidates.filter((directory) => {
+		let included = false;
+		for (const raw of patterns) {
+			const negated = raw.startsWith("!");
+			const pattern = normalizeMemberPattern(negated ? raw.slice(1) : raw);
+			if (minimatch(directory, pattern, { dot: true })) {
+				included = !negated;
+			}
+		}
+		return included;
+	});
+}
+
+/**
+ * Check whether a path is under a directory whose modules are not packages.
+ */
+function isNonPackagePath(path: string): boolean {
+	return path
+		.split("/")
+		.slice(0, -1)
+		.some((segment) => NON_PACKAGE_DIRECTORIES.has(segment));
+}
+
+/**
+ * Normalize a member pattern to a repository-relative directory glob.
+ */
+function normalizeMemberPattern(pattern: string): string {
+	return pattern.replace(/^\.\//, "").replace(/\/+$/, "") || ".";
+}
+
+/**
+ * Read the `members` and `exclude` arrays of a TOML table as member
+ * patterns.
+ *
+ * Only handles the subset of TOML used for workspace members: a table header
+ * followed by arrays of strings, which may span lines.
+ */
+function readTomlMembers(text: string, table: string): string[] {
+	return [
+		...readTomlStringArray(text, table, "members"),
+		...readTomlStringArray(text, table, "exclude").map(
+			(pattern) => `!${pattern}`,
+		),
+	];
+}
+
+/**
+ * Read an array of strings from a TOML table.
+ */
+function readTomlStringArray(
+	text: string,
+	table: string,
+	key: string,
+): string[] {
+	let currentTable = "";
+	const lines = text.split("\n");
+	for (let i = 0; i < lines.length; i++) {
+		const line = stripTomlComment(lines[i] ?? "").trim();
+		const header = line.match(/^\[([^[\]]+)\]$/);
+		if (header) {
+			currentTable = header[1]?.replace(/\s/g, "") ?? "";
+			continue;
+		}
+		if (currentTable !== table || !new RegExp(`^${key}\\s*=`).test(line)) {
+			continue;
+		}
+
+		let value = line.slice(line.indexOf("=") + 1);
+		while (!value.includes("]") && i + 1 < lines.length) {
+			i++;
+			value += ` ${stripTomlComment(lines[i] ?? "")}`;
+		}
+		return [...value.matchAll(/"([^"]*)"|'([^']*)'/g)].map(
+			(match) => match[1] ?? match[2] ?? "",
+		);
+	}
+	return [];
+}
+
+/**
+ * Remove a trailing `#` comment from a TOML line, ignoring `#` in strings.
+ */
+function stripTomlComment(line: string): string {
+	let quote: string | undefined;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quote) {
+			if (char === quote) quote = undefined;
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === "#") {
+			return line.slice(0, i);
+		}
+	}
+	return line;
+}
+
+/**
+ * Read the module directories of a go.work file's `use` directives, in both
+ * the single-line and block forms.
+ */
+function parseGoWorkUses(text: string): string[] {
+	const uses: string[] = [];
+	let inBlock = false;
+	for (const raw of text.split("\n")) {
+		const line = raw.replace(/\/\/.*$/, "").trim();
+		if (inBlock) {
+			if (line === ")") {
+				inBlock = false;
+			} else if (line) {
+				uses.push(unquote(line));
+			}
+			continue;
+		}
+		const match = line.match(/^use\s+(.+)$/);
+		if (match?.[1] === "(") {
+			inBlock = true;
+		} else if (match?.[1]) {
+			uses.push(unquote(match[1]));
+		}
+	}
+	return uses;
+}
+
+/**
+ * Remove the quotes around a go.work path, if any.
+ */
+function unquote(value: string): string {
+	return value.replace(/^"(.*)"$/, "$1").replace(/^`(.*)`$/, "$1");
+}
+
+/**
+ * Parse JSON, returning undefined if it is invalid or not an object.
+ */
+function parseJson(text: string): Record<string, unknown> | undefined {
+	try {
+		const parsed: unknown = JSON.parse(text);
+		return isRecord(parsed) ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Check whether a value is a plain object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keep the strings of a value that should be a string array.
+ */
+function toStrings(value: unknown): string[] {
+	return Array.isArray(value)
+		? value.filter((item): item is string => typeof item === "string")
+		: [];
+}
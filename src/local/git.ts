@@ -0,0 +1,513 @@
+/**
+ * Local Git Repository
+ *
+ * Reads repository data from a local git checkout by shelling out to the
+ * `git` CLI. Provides the same shapes the GitHub-backed modules produce
+ * (tree entries, PR diffs, commits) so the analysis pipeline can run
+ * against a working copy without any API access.
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import {
+	type PRChangedFile,
+	type PRCommit,
+	type PRDiff,
+	type PRFileStatus,
+	summarizeChangedFiles,
+} from "../github/context";
+import type {
+	PathHistoryCommit,
+	RepositorySource,
+	RepositoryTreeEntry,
+} from "../repository/source";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Maximum output size accepted from a single git command.
+ */
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+
+/**
+ * SHA git reports for the missing side of an added or deleted file.
+ */
+const NULL_SHA = "0000000000000000000000000000000000000000";
+
+/**
+ * Error thrown when a git command fails or its output cannot be read.
+ */
+export class LocalGitError extends Error {
+	public readonly originalCause?: unknown;
+
+	constructor(message: string, cause?: unknown) {
+		super(message);
+		this.name = "LocalGitError";
+		this.originalCause = cause;
+	}
+}
+
+/**
+ * Map a git diff status letter to the GitHub file status.
+ */
+const STATUS_BY_LETTER: Record<string, PRFileStatus> = {
+	A: "added",
+	D: "removed",
+	M: "modified",
+	R: "renamed",
+	C: "copied",
+	T: "changed",
+};
+
+/**
+ * Read-only access to a local git repository.
+ */
+export class LocalGitRepository implements RepositorySource {
+	/** Absolute path to the repository's working tree root */
+	public readonly root: string;
+
+	constructor(root: string) {
+		this.root = root;
+	}
+
+	/**
+	 * Open the repository containing a directory.
+	 *
+	 * @param cwd - Any directory inside the working tree
+	 * @returns Repository rooted at the working tree's top level
+	 * @throws {LocalGitError} If the directory is not inside a git working tree
+	 */
+	static async open(cwd: string): Promise<LocalGitRepository> {
+		const root = (
+			await runGit(cwd, ["rev-parse", "--show-toplevel"])
+		).trimEnd();
+		return new LocalGitRepository(root);
+	}
+
+	/**
+	 * Resolve a ref (branch, tag, HEAD, SHA, ...) to a commit SHA.
+	 *
+	 * @param ref - Ref to resolve
+	 * @returns Full commit SHA
+	 * @throws {LocalGitError} If the ref does not name a commit
+	 */
+	async resolveRef(ref: string): Promise<string> {
+		const output = await this.git([
+			"rev-parse",
+			"--verify",
+			"--end-of-options",
+			`${ref}^{commit}`,
+		]);
+		return output.trim();
+	}
+
+	/**
+	 * Get the name of the checked-out branch.
+	 *
+	 * @returns Branch name, or undefined when HEAD is detached
+	 */
+	async getCurrentBranch(): Promise<string | undefined> {
+		try {
+			const output = await this.git(["symbolic-ref", "--short", "-q", "HEAD"]);
+			return output.trim() || undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Find the merge base of two commits.
+	 *
+	 * @param base - Base ref
+	 * @param head - Head ref
+	 * @returns SHA of the best common ancestor
+	 */
+	async getMergeBase(base: string, head: string): Promise<string> {
+		const output = await this.git([
+			"merge-base",
+			"--end-of-options",
+			base,
+			head,
+		]);
+		return output.trim();
+	}
+
+	/**
+	 * List every entry in the tree of a commit, recursively.
+	 *
+	 * @param ref - Commit to list
+	 * @returns Tree entries with paths relative to the repository root
+	 */
+	async listTree(ref: string): Promise<RepositoryTreeEntry[]> {
+		const output = await this.git([
+			"ls-tree",
+			"-r",
+			"-l",
+			"-z",
+			"--full-tree",
+			"--end-of-options",
+			ref,
+		]);
+
+		const entries: RepositoryTreeEntry[] = [];
+		for (const record of output.split("\0")) {
+			if (!record) continue;
+			// Format: "<mode> <type> <sha> <size>\t<path>"
+			const tab = record.indexOf("\t");
+			const [mode, type, sha, size] = record.slice(0, tab).split(/\s+/);
+			if (!mode || !type || !sha) continue;
+			entries.push({
+				path: record.slice(tab + 1),
+				type,
+				mode,
+				sha,
+				size: size && size !== "-" ? Number(size) : undefined,
+			});
+		}
+		return entries;
+	}
+
+	/**
+	 * Read a blob's content as UTF-8.
+	 *
+	 * @param sha - Blob SHA
+	 * @returns Decoded blob content
+	 */
+	async readBlob(sha: string): Promise<string> {
+		return this.git(["cat-file", "blob", sha]);
+	}
+
+	/**
+	 * Read a file's content at a commit.
+	 *
+	 * @param path - Path relative to repository root
+	 * @param ref - Commit to read from
+	 * @returns File content, or undefined if the path does not exist at ref
+	 */
+	async readFile(path: string, ref: string): Promise<string | undefined> {
+		try {
+			return await this.git(["cat-file", "blob", `${ref}:${path}`]);
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Get the blob SHA of a file at a commit.
+	 *
+	 * @param path - Path relative to repository root
+	 * @param ref - Commit to look in
+	 * @returns Blob SHA, or undefined if the path is not a file at ref
+	 */
+	async getFileSha(path: string, ref: string): Promise<string | undefined> {
+		const output = await this.git([
+			"ls-tree",
+			"-z",
+			"--full-tree",
+			"--end-of-options",
+			ref,
+			"--",
+			path,
+		]);
+		// Format: "<mode> <type> <sha>\t<path>"
+		const [mode, type, sha] = output.slice(0, output.indexOf("\t")).split(" ");
+		return type === "blob" && mode && sha ? sha : undefined;
+	}
+
+	/**
+	 * Compute the changes a pull request from head into base would show.
+	 *
+	 * Like a GitHub PR, the diff is taken from the merge base of the two refs,
+	 * so commits made on base after head branched off are not included.
+	 *
+	 * @param base - Base ref
+	 * @param head - Head ref
+	 * @returns Diff with per-file patches (null for binary files)
+	 */
+	async getDiff(base: string, head: string): Promise<PRDiff> {
+		const range = `${base}...${head}`;
+		const [raw, numstat, patch] = await Promise.all([
+			this.git(["diff", "--raw", "-z", "-M", "--no-abbrev", range, "--"]),
+			this.git(["diff", "--numstat", "-z", "-M", range, "--"]),
+			this.git(["diff", "-M", "--no-color", "--no-ext-diff", range, "--"]),
+		]);
+
+		const stats = parseNumstat(numstat);
+		const patches = splitPatch(patch);
+
+		const files: PRChangedFile[] = parseRawDiff(raw).map((entry, index) => {
+			const stat = stats[index];
+			const additions = stat?.additions ?? 0;
+			const deletions = stat?.deletions ?? 0;
+			return {
+				sha: entry.status === "removed" ? entry.oldSha : entry.newSha,
+				filename: entry.path,
+				status: entry.status,
+				additions,
+				deletions,
+				changes: additions + deletions,
+				blobUrl: "",
+				rawUrl: "",
+				contentsUrl: "",
+				patch: stat?.binary ? null : (patches[index] ?? null),
+				previousFilename: entry.previousPath,
+			};
+		});
+
+		return {
+			files,
+			summary: summarizeChangedFiles(files),
+			rawDiff: null,
+		};
+	}
+
+	/**
+	 * List the commits reachable from head but not from base, oldest first.
+	 *
+	 * @param base - Base ref
+	 * @param head - Head ref
+	 * @returns Commits in the range
+	 */
+	async getCommits(base: string, head: string): Promise<PRCommit[]> {
+		const fields = ["%H", "%P", "%an", "%ae", "%aI", "%cn", "%ce", "%cI", "%B"];
+		const output = await this.git([
+			"log",
+			"--reverse",
+			`--format=${fields.join("%x00")}%x1e`,
+			`${base}..${head}`,
+			"--",
+		]);
+
+		const commits: PRCommit[] = [];
+		for (const record of output.split("\x1e")) {
+			const trimmed = record.replace(/^\n/, "");
+			if (!trimmed) continue;
+			const [sha, parents, an, ae, ad, cn, ce, cd, ...body] =
+				trimmed.split("\0");
+			if (!sha) continue;
+			commits.push({
+				sha,
+				message: body.join("\0").trimEnd(),
+				author: { name: an ?? "", email: ae ?? "", date: ad ?? "" },
+				committer: { name: cn ?? "", email: ce ?? "", date: cd ?? "" },
+				gitHubAuthor: null,
+				gitHubCommitter: null,
+				url: "",
+				commentCount: 0,
+				parentShas: parents ? parents.split(" ").filter(Boolean) : [],
+			});
+		}
+		return commits;
+	}
+
+	/**
+	 * List the commits reachable from ref that changed a path, newest first.
+	 *
+	 * Merge commits are left out, since git reports no changes for them
+	 * without a diff against each parent. In a shallow clone the history
+	 * stops at the shallow boundary.
+	 *
+	 * @param path - File or directory path (empty string for the whole repository)
+	 * @param ref - Ref to walk history from
+	 * @param limit - Maximum number of commits to return
+	 * @returns Commits with the changes each made under the path
+	 */
+	async getPathHistory(
+		path: string,
+		ref: string,
+		limit: number,
+	): Promise<PathHistoryCommit[]> {
+		const args = [
+			"log",
+			"--no-merges",
+			"--no-renames",
+			"-z",
+			"--format=%x1e%H",
+			`--max-count=${limit}`,
+		];
+		const [nameStatus, numstat] = await Promise.all([
+			this.git([...args, "--name-status", ref, "--", path || "."]),
+			this.git([...args, "--numstat", ref, "--", path || "."]),
+		]);
+
+		const stats = new Map<string, Map<string, [number, number]>>();
+		for (const { sha, tokens } of splitLogRecords(numstat)) {
+			const fileStats = new Map<string, [number, number]>();
+			for (const token of tokens) {
+				const [added = "0", deleted = "0", filePath = ""] = token.split("\t");
+				fileStats.set(filePath, [
+					added === "-" ? 0 : Number(added),
+					deleted === "-" ? 0 : Number(deleted),
+				]);
+			}
+			stats.set(sha, fileStats);
+		}
+
+		const history: PathHistoryCommit[] = [];
+		for (const { sha, tokens } of splitLogRecords(nameStatus)) {
+			const files: PathHistoryCommit["files"] = [];
+			for (let i = 0; i + 1 < tokens.length; i += 2) {
+				const filename = tokens[i + 1] ?? "";
+				const [additions, deletions] = stats.get(sha)?.get(filename) ?? [0, 0];
+				files.push({
+					filename,
+					status: STATUS_BY_LETTER[tokens[i]?.charAt(0) ?? ""] ?? "changed",
+					additions,
+					deletions,
+				});
+			}
+			history.push({ sha, files });
+		}
+		return history;
+	}
+
+	/**
+	 * Run a git command in the repository root.
+	 */
+	private git(args: string[]): Promise<string> {
+		return runGit(this.root, args);
+	}
+}
+
+/**
+ * Run a git command and return its stdout.
+ */
+async function runGit(cwd: string, args: string[]): Promise<string> {
+	try {
+		const { stdout } = await execFileAsync("git", args, {
+			cwd,
+			encoding: "utf-8",
+			maxBuffer: GIT_MAX_BUFFER,
+		});
+		return stdout;
+	} catch (error) {
+		const stderr =
+			error && typeof error === "object" && "stderr" in error
+				? String(error.stderr).trim()
+				: "";
+		throw new LocalGitError(
+			`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`,
+			error,
+		);
+	}
+}
+
+/**
+ * Split `git log -z --format=%x1e%H` output into per-commit records of
+ * NUL-separated tokens.
+ */
+function splitLogRecords(
+	output: string,
+): Array<{ sha: string; tokens: string[] }> {
+	const records: Array<{ sha: string; tokens: string[] }> = [];
+
+	for (const record of output.split("\x1e")) {
+		const [sha, ...tokens] = record.split("\0");
+		if (!sha) continue;
+		records.push({
+			sha: sha.trim(),
+			tokens: tokens.map((token) => token.replace(/^\n/, "")).filter(Boolean),
+		});
+	}
+
+	return records;
+}
+
+/**
+ * A file entry parsed from `git diff --raw -z`.
+ */
+interface RawDiffEntry {
+	path: string;
+	previousPath: string | null;
+	status: PRFileStatus;
+	oldSha: string;
+	newSha: string;
+}
+
+/**
+ * Parse `git diff --raw -z` output.
+ */
+function parseRawDiff(output: string): RawDiffEntry[] {
+	const tokens = output.split("\0");
+	const entries: RawDiffEntry[] = [];
+
+	let i = 0;
+	while (i < tokens.length) {
+		const header = tokens[i++];
+		if (!header?.startsWith(":")) continue;
+
+		// Format: ":<old mode> <new mode> <old sha> <new sha> <status>"
+		const [, , oldSha = NULL_SHA, newSha = NULL_SHA, statusField = "M"] = header
+			.slice(1)
+			.split(" ");
+		const letter = statusField.charAt(0);
+		const hasTwoPaths = letter === "R" || letter === "C";
+		const firstPath = tokens[i++] ?? "";
+		const secondPath = hasTwoPaths ? (tokens[i++] ?? "") : undefined;
+
+		entries.push({
+			path: secondPath ?? firstPath,
+			previousPath: secondPath !== undefined ? firstPath : null,
+			status: STATUS_BY_LETTER[letter] ?? "changed",
+			oldSha,
+			newSha,
+		});
+	}
+
+	return entries;
+}
+
+/**
+ * Parse `git diff --numstat -z` output, in diff order.
+ */
+function parseNumstat(
+	output: string,
+): Array<{ additions: number; deletions: number; binary: boolean }> {
+	const tokens = output.split("\0");
+	const stats: Array<{
+		additions: number;
+		deletions: number;
+		binary: boolean;
+	}> = [];
+
+	let i = 0;
+	while (i < tokens.length) {
+		const record = tokens[i++];
+		if (!record) continue;
+
+		// Format: "<added>\t<deleted>\t<path>", where renames leave the path
+		// empty and follow with separate old and new path tokens
+		const [added = "0", deleted = "0", path] = record.split("\t");
+		if (path === "") {
+			i += 2;
+		}
+
+		const binary = added === "-" && deleted === "-";
+		stats.push({
+			additions: binary ? 0 : Number(added),
+			deletions: binary ? 0 : Number(deleted),
+			binary,
+		});
+	}
+
+	return stats;
+}
+
+/**
+ * Split a multi-file patch into per-file hunks, in diff order.
+ *
+ * File headers are dropped to match the `patch` field of the GitHub API,
+ * which starts at the first hunk. Files without hunks map to null.
+ */
+function splitPatch(output: string): Array<string | null> {
+	const patches: Array<string | null> = [];
+
+	for (const section of output.split(/^diff --git /m).slice(1)) {
+		const hunkStart = section.search(/^@@/m);
+		patches.push(
+			hunkStart === -1 ? null : section.slice(hunkStart).replace(/\n$/, ""),
+		);
+	}
+
+	return patches;
+}
@@ -0,0 +1,126 @@
+/**
+ * Local Working Tree Updates
+ *
+ * Applies intent layer updates directly to files in a local working tree,
+ * mirroring the file changes the GitHub commit flow would make (including
+ * symlinked AGENTS.md/CLAUDE.md pairs).
+ */
+
+import { mkdir, rm, symlink, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import {
+	getIntentFileType,
+	type IntentFileType,
+	isRepositoryIntentFilePath,
+} from "../intent/kinds";
+import type { IntentUpdate } from "../opencode/output-schema";
+
+/**
+ * Error thrown when an update names a path that is not an intent file inside
+ * the working tree.
+ */
+export class UnsafeUpdatePathError extends Error {
+	public readonly path: string;
+
+	constructor(path: string) {
+		super(`Refusing to write outside the intent layer: ${path}`);
+		this.name = "UnsafeUpdatePathError";
+		this.path = path;
+	}
+}
+
+/**
+ * Options for writing updates to the working tree.
+ */
+export interface WriteUpdatesOptions {
+	/** Whether paired intent files are managed as a source file plus symlink */
+	symlink?: boolean;
+	/** Which file type holds the content when symlinking */
+	symlinkSource?: IntentFileType;
+}
+
+/**
+ * Write intent layer updates into a working tree.
+ *
+ * Creates and updates write `suggestedContent`; deletes remove the file.
+ * When an update has an `otherNodePath` and symlinking is enabled, the
+ * source file receives the content and the other file becomes a relative
+ * symlink to it. Without symlinking, the other file receives a copy.
+ *
+ * Every path is checked before anything is written, so no file is touched
+ * when one of them is not an intent file inside the working tree.
+ *
+ * @param root - Absolute path to the working tree root
+ * @param updates - Updates to apply
+ * @param options - Symlink options
+ * @returns Paths (relative to root) that were written or removed
+ * @throws {UnsafeUpdatePathError} If a path is absolute, leaves the working
+ *   tree, or is not an intent file
+ */
+export async function writeUpdatesToWorkingTree(
+	root: string,
+	updates: IntentUpdate[],
+	options: WriteUpdatesOptions = {},
+): Promise<string[]> {
+	const { symlink: useSymlink = false, symlinkSource = "agents" } = options;
+	const changedPaths: string[] = [];
+
+	const unsafePath = updates
+		.flatMap((update) => [update.nodePath, update.otherNodePath ?? ""])
+		.find((path) => path !== "" && !isRepositoryIntentFilePath(path));
+	if (unsafePath !== undefined) {
+		throw new UnsafeUpdatePathError(unsafePath);
+	}
+
+	for (const update of updates) {
+		const paths = update.otherNodePath
+			? [update.nodePath, update.otherNodePath]
+			: [update.nodePath];
+
+		if (update.action === "delete") {
+			for (const path of paths) {
+				await rm(join(root, path), { force: true });
+				changedPaths.push(path);
+			}
+			continue;
+		}
+
+		const content = update.suggestedContent ?? "";
+
+		if (update.otherNodePath && useSymlink) {
+			const sourceIsNode = getIntentFileType(update.nodePath) === symlinkSource;
+			const sourcePath = sourceIsNode ? update.nodePath : update.otherNodePath;
+			const linkPath = sourceIsNode ? update.otherNodePath : update.nodePath;
+
+			await writeWorkingTreeFile(root, sourcePath, content);
+			await mkdir(dirname(join(root, linkPath)), { recursive: true });
+			await rm(join(root, linkPath), { force: true });
+			// Both files live in the same directory, so the target is the filename
+			await symlink(basename(sourcePath), join(root, linkPath));
+			changedPaths.push(sourcePath, linkPath);
+			continue;
+		}
+
+		for (const path of paths) {
+			await writeWorkingTreeFile(root, path, content);
+			changedPaths.push(path);
+		}
+	}
+
+	return changedPaths;
+}
+
+/**
+ * Write a regular file, replacing any existing file or symlink at the path.
+ */
+async function writeWorkingTreeFile(
+	root: string,
+	path: string,
+	content: string,
+): Promise<void> {
+	const fullPath = join(root, path);
+	await mkdir(dirname(fullPath), { recursive: true });
+	// Remove first so an existing symlink is replaced rather than followed
+	await rm(fullPath, { force: true });
+	await writeFile(fullPath, content, "utf-8");
+}
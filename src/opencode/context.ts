@@ -34,6 +34,7 @@ import {
 } from "../intent/analyzer";
 import type { IntentLayerDetectionResult } from "../intent/detector";
 import { buildHierarchies, type IntentHierarchy } from "../intent/hierarchy";
+import type { IntentFileType } from "../intent/kinds";
 import type { IntentLayerIgnore } from "../patterns/ignore";
 import type {
 	IntentContext,
@@ -62,8 +63,8 @@ export class ContextBuildError extends Error {
  * Configuration for building the context payload.
  */
 export interface ContextBuildConfig {
-	/** Which file type to manage: 'agents', 'claude', or 'both' */
-	fileType: "agents" | "claude" | "both";
+	/** Which file type to manage, or 'both' for AGENTS.md and CLAUDE.md */
+	fileType: IntentFileType | "both";
 	/** Whether new node creation is allowed */
 	newNodesAllowed: boolean;
 	/** Optional IntentLayerIgnore instance for filtering files */
@@ -161,14 +162,13 @@ export async function buildAnalysisContextPayload(
 		const prContext = await buildPRContext(client, pullNumber);
 
 		// Build intent hierarchies
-		const { agents: agentsHierarchy, claude: claudeHierarchy } =
-			buildHierarchies(detectionResult);
+		const hierarchies = buildHierarchies(detectionResult);
 
 		// Determine which hierarchy to use based on config
-		const primaryHierarchy =
-			config.fileType === "claude" ? claudeHierarchy : agentsHierarchy;
-		const primaryFileType: "agents" | "claude" =
+		const primaryFileType: IntentFileType =
 			config.fileType === "both" ? "agents" : config.fileType;
+		const primaryHierarchy = hierarchies[primaryFileType];
+		const { agents: agentsHierarchy, claude: claudeHierarchy } = hierarchies;
 
 		// Map changed files to intent nodes
 		const prDiff = await extractPRDiff(client, pullNumber);
@@ -192,9 +192,9 @@ export async function buildAnalysisContextPayload(
 		);
 
 		// Check if this is an initialization scenario (no intent layer exists)
-		const intentLayerExists =
-			agentsHierarchy.nodesByPath.size > 0 ||
-			claudeHierarchy.nodesByPath.size > 0;
+		const intentLayerExists = Object.values(hierarchies).some(
+			(hierarchy) => hierarchy.nodesByPath.size > 0,
+		);
 
 		// For initialization, filter to only suggest root AGENTS.md/CLAUDE.md
 		// Per PLAN.md: "When no intent layer exists: Only suggest creating root AGENTS.md"
@@ -403,14 +403,13 @@ export async function buildAnalysisContextPayloadFromPRContext(
 	config: ContextBuildConfig,
 ): Promise<AnalysisContextPayload> {
 	// Build intent hierarchies
-	const { agents: agentsHierarchy, claude: claudeHierarchy } =
-		buildHierarchies(detectionResult);
+	const hierarchies = buildHierarchies(detectionResult);
 
 	// Determine which hierarchy to use based on config
-	const primaryHierarchy =
-		config.fileType === "claude" ? claudeHierarchy : agentsHierarchy;
-	const primaryFileType: "agents" | "claude" =
+	const primaryFileType: IntentFileType =
 		config.fileType === "both" ? "agents" : config.fileType;
+	const primaryHierarchy = hierarchies[primaryFileType];
+	const { agents: agentsHierarchy, claude: claudeHierarchy } = hierarchies;
 
 	// Create PRDiff from changedFiles
 	const prDiff = {
@@ -459,9 +458,9 @@ export async function buildAnalysisContextPayloadFromPRContext(
 	);
 
 	// Check if this is an initialization scenario (no intent layer exists)
-	const intentLayerExists =
-		agentsHierarchy.nodesByPath.size > 0 ||
-		claudeHierarchy.nodesByPath.size > 0;
+	const intentLayerExists = Object.values(hierarchies).some(
+		(hierarchy) => hierarchy.nodesByPath.size > 0,
+	);
 
 	// For initialization, filter to only suggest root AGENTS.md/CLAUDE.md
 	// Per PLAN.md: "When no intent layer exists: Only suggest creating root AGENTS.md"
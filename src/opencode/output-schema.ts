@@ -30,10 +30,9 @@ export const IntentUpdateSchema = z
 		nodePath: z.string().min(1, "nodePath is required"),
 
 		/**
-		 * Path to the corresponding other intent file when both AGENTS.md and CLAUDE.md
-		 * are managed (based on `files` config). Only populated when `files: "both"`.
-		 * For example, if nodePath is "packages/api/AGENTS.md", otherNodePath would be
-		 * "packages/api/CLAUDE.md".
+		 * Path to the corresponding other intent file when two kinds are symlinked
+		 * (based on the `files` and `symlink` config). For example, if nodePath is
+		 * "packages/api/AGENTS.md", otherNodePath would be "packages/api/CLAUDE.md".
 		 */
 		otherNodePath: z.string().optional(),
 
@@ -126,6 +125,18 @@ export const LLMOutputSchema = z.object({
 
 export type LLMOutput = z.infer<typeof LLMOutputSchema>;
 
+/**
+ * Get the JSON Schema of the LLM output, for requiring responses to match it.
+ *
+ * Refinements cannot be expressed in JSON Schema, so the per-action content
+ * requirements are only checked when the output is parsed.
+ *
+ * @returns JSON Schema of the complete LLM output
+ */
+export function getLLMOutputJSONSchema(): Record<string, unknown> {
+	return z.toJSONSchema(LLMOutputSchema);
+}
+
 /**
  * Parse and validate LLM output from a JSON string.
  *
@@ -289,3 +300,36 @@ export function getDeleteUpdates(output: LLMOutput): IntentUpdate[] {
 export function createEmptyOutput(): LLMOutput {
 	return { updates: [] };
 }
+
+/**
+ * Merge additional updates into an existing list of updates.
+ *
+ * When both lists contain an update for the same node path, the update from
+ * `additional` replaces the earlier one in place. Updates for new paths are
+ * appended in order.
+ *
+ * @param updates - Base list of updates
+ * @param additional - Updates that take precedence over the base list
+ * @returns Merged list with at most one update per node path
+ */
+export function mergeIntentUpdates(
+	updates: IntentUpdate[],
+	additional: IntentUpdate[],
+): IntentUpdate[] {
+	const merged = [...updates];
+	const indexByPath = new Map(
+		merged.map((update, index) => [update.nodePath, index]),
+	);
+
+	for (const update of additional) {
+		const existingIndex = indexByPath.get(update.nodePath);
+		if (existingIndex !== undefined) {
+			merged[existingIndex] = update;
+		} else {
+			indexByPath.set(update.nodePath, merged.length);
+			merged.push(update);
+		}
+	}
+
+	return merged;
+}
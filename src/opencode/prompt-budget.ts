@@ -0,0 +1,204 @@
+/**
+ * Prompt Budgeting
+ *
+ * Assembles prompts from prioritized sections so they fit the model's context
+ * window. Sections keep their order in the prompt; when it is over budget, the
+ * lowest-priority sections are summarized first and elided if that is not
+ * enough, one priority tier at a time. The report records what was cut.
+ */
+
+import { countTokens } from "../intent/tokenizer";
+import type { ModelLimits } from "./session";
+
+/**
+ * Tokens reserved for the response when the model's output limit is unknown.
+ */
+export const DEFAULT_OUTPUT_RESERVE_TOKENS = 16_000;
+
+/**
+ * Priorities of prompt sections, from kept longest to cut first.
+ */
+export const SECTION_PRIORITY = {
+	/** Instructions, PR metadata, and the task: never cut */
+	essential: 0,
+	/** Content of the nodes to update and the patches of the files they cover */
+	coveredChanges: 1,
+	/** Content of the parent nodes under review */
+	parentNodes: 2,
+	/** Changed files no node covers, and the commit list */
+	uncoveredChanges: 3,
+} as const;
+
+/** Priority of a prompt section */
+export type SectionPriority =
+	(typeof SECTION_PRIORITY)[keyof typeof SECTION_PRIORITY];
+
+/**
+ * A part of a prompt that can be cut independently.
+ */
+export interface PromptSection {
+	/** What the section holds, as named in the report */
+	label: string;
+	/** Section text */
+	content: string;
+	/** How long the section is kept when the prompt is over budget */
+	priority: SectionPriority;
+	/** Shorter text to use before eliding the section entirely */
+	summary?: string;
+}
+
+/**
+ * What had to be cut for a prompt to fit its token budget.
+ */
+export interface PromptBudgetReport {
+	/** Tokens the prompt may use, or undefined when it is not limited */
+	budgetTokens?: number;
+	/** Tokens in the assembled prompt */
+	promptTokens: number;
+	/** Labels of the sections replaced by their summary */
+	summarized: string[];
+	/** Labels of the sections left out */
+	elided: string[];
+}
+
+/**
+ * A prompt assembled within a token budget.
+ */
+export interface AssembledPrompt {
+	/** Prompt text */
+	prompt: string;
+	/** What was cut to fit the budget */
+	report: PromptBudgetReport;
+}
+
+/**
+ * Compute how many tokens a prompt may use, leaving room in the context window
+ * for the response.
+ *
+ * @param contextWindowTokens - Configured context window (0 to use the model's)
+ * @param modelLimits - Token limits of the model, if known
+ * @returns The prompt token budget, or undefined if the context window is unknown
+ */
+export function getPromptTokenBudget(
+	contextWindowTokens: number,
+	modelLimits?: ModelLimits,
+): number | undefined {
+	const context =
+		contextWindowTokens > 0 ? contextWindowTokens : modelLimits?.context;
+	if (!context) {
+		return undefined;
+	}
+
+	const outputReserve = Math.min(
+		modelLimits?.output ?? DEFAULT_OUTPUT_RESERVE_TOKENS,
+		Math.floor(context / 2),
+	);
+	return context - outputReserve;
+}
+
+/**
+ * Assemble a prompt from its sections, cutting lower-priority sections until
+ * it fits the budget.
+ *
+ * Within each tier, starting from the lowest priority, sections are first
+ * replaced by their summary and then elided, later sections before earlier
+ * ones. Essential sections are never cut, so the prompt may still exceed the
+ * budget.
+ *
+ * @param sections - Sections in prompt order
+ * @param budgetTokens - Tokens the prompt may use (unlimited if undefined)
+ * @returns The prompt and a report of what was cut
+ */
+export function assemblePrompt(
+	sections: PromptSection[],
+	budgetTokens?: number,
+): AssembledPrompt {
+	const chosen: Array<string | undefined> = sections.map((s) => s.content);
+	const summarized = new Set<number>();
+	const elided = new Set<number>();
+	let totalTokens = sections.reduce(
+		(total, section) => total + countTokens(section.content),
+		0,
+	);
+	const overBudget = () =>
+		budgetTokens !== undefined && totalTokens > budgetTokens;
+
+	const tiers = [...new Set(sections.map((s) => s.priority))]
+		.filter((priority) => priority !== SECTION_PRIORITY.essential)
+		.sort((a, b) => b - a);
+	for (const priority of tiers) {
+		const indexes = sections
+			.map((_, index) => index)
+			.filter((index) => sections[index]?.priority === priority)
+			.reverse();
+
+		for (const index of indexes) {
+			const { content, summary } = sections[index] as PromptSection;
+			if (!overBudget()) {
+				break;
+			}
+			if (summary !== undefined && summary.length < content.length) {
+				totalTokens += countTokens(summary) - countTokens(content);
+				chosen[index] = summary;
+				summarized.add(index);
+			}
+		}
+
+		for (const index of indexes) {
+			if (!overBudget()) {
+				break;
+			}
+			totalTokens -= countTokens(chosen[index] ?? "");
+			chosen[index] = undefined;
+			summarized.delete(index);
+			elided.add(index);
+		}
+	}
+
+	const prompt = chosen.filter((content) => content !== undefined).join("\n");
+	const labelsOf = (indexes: Set<number>) =>
+		[...indexes]
+			.sort((a, b) => a - b)
+			.map((index) => sections[index]?.label ?? "");
+
+	return {
+		prompt,
+		report: {
+			budgetTokens,
+			promptTokens: countTokens(prompt),
+			summarized: labelsOf(summarized),
+			elided: labelsOf(elided),
+		},
+	};
+}
+
+/**
+ * Check whether anything was cut from a prompt to fit its budget.
+ *
+ * @param report - Prompt budget report
+ * @returns True if any section was summarized or elided
+ */
+export function isPromptTrimmed(report: PromptBudgetReport): boolean {
+	return report.summarized.length > 0 || report.elided.length > 0;
+}
+
+/**
+ * Format a prompt budget report for logs and summaries.
+ *
+ * @param report - Prompt budget report
+ * @returns One-line description of the prompt size and what was cut
+ */
+export function formatPromptBudgetReport(report: PromptBudgetReport): string {
+	const size =
+		report.budgetTokens === undefined
+			? `~${report.promptTokens} tokens`
+			: `~${report.promptTokens} of ${report.budgetTokens} tokens`;
+	const cuts = [
+		report.summarized.length > 0
+			? `summarized ${report.summarized.join(", ")}`
+			: "",
+		report.elided.length > 0 ? `omitted ${report.elided.join(", ")}` : "",
+	].filter(Boolean);
+
+	return cuts.length > 0 ? `${size}; ${cuts.join("; ")}` : size;
+}
@@ -4,9 +4,11 @@
  * This module contains prompt templates and builders for generating prompts
  * that elicit valid structured JSON output from LLMs during intent layer analysis.
  * The prompts guide the LLM to analyze code changes and propose updates to
- * AGENTS.md / CLAUDE.md files in the repository.
+ * intent files (AGENTS.md, CLAUDE.md, and the other registered kinds) in the
+ * repository.
  */
 
+import { DEFAULTS } from "../config/defaults";
 import type {
 	LinkedIssue,
 	PRChangedFile,
@@ -19,8 +21,26 @@ import type {
 	ParentNodeReviewCandidate,
 	SemanticBoundaryCandidate,
 } from "../intent/analyzer";
+import type { StaleNode, UncoveredHotspot } from "../intent/audit";
 import type { IntentNode } from "../intent/hierarchy";
+import {
+	getIntentFileKind,
+	getIntentFilePath,
+	type IntentFileType,
+} from "../intent/kinds";
 import type { PatternMatchedPromptResolver } from "../patterns/prompts";
+import type { IntentUpdate } from "./output-schema";
+import {
+	type AssembledPrompt,
+	assemblePrompt,
+	type PromptSection,
+	SECTION_PRIORITY,
+} from "./prompt-budget";
+
+/**
+ * Note standing in for material elided to fit the context window.
+ */
+const OMITTED_NOTE = "omitted to fit the context window";
 
 /**
  * The JSON output schema description that is included in prompts
@@ -43,7 +63,7 @@ export const OUTPUT_SCHEMA_DESCRIPTION = `You MUST respond with ONLY a valid JSO
 
 CRITICAL RULES:
 - Output ONLY the JSON object, no markdown code blocks, no explanatory text before or after
-- "nodePath" must be a valid file path ending in AGENTS.md or CLAUDE.md
+- "nodePath" must be the path of an intent file of the managed type (e.g. ending in AGENTS.md)
 - "action" must be exactly one of: "create", "update", "delete"
 - For "create": include "suggestedContent", do NOT include "currentContent"
 - For "update": include BOTH "currentContent" (exact current file content) AND "suggestedContent"
@@ -83,12 +103,16 @@ export const CONTENT_GUIDELINES = `When writing intent layer content:
  * Configuration for prompt building.
  */
 export interface PromptConfig {
-	/** Which file type is being managed: 'agents', 'claude', or 'both' */
-	fileType: "agents" | "claude" | "both";
+	/** Which file type is being managed, or 'both' for symlinked AGENTS.md and CLAUDE.md */
+	fileType: IntentFileType | "both";
 	/** Whether new node creation is allowed */
 	newNodesAllowed: boolean;
 	/** Whether to suggest splitting large nodes */
 	splitLargeNodes: boolean;
+	/** Maximum patch lines shown per changed file (default: 100) */
+	maxPatchLines?: number;
+	/** Tokens the analysis prompt may use; lower-priority material is cut to fit (default: unlimited) */
+	tokenBudget?: number;
 	/** Pattern-matched custom prompts resolver from user config */
 	promptResolver?: PatternMatchedPromptResolver;
 }
@@ -196,36 +220,58 @@ export function formatLinkedIssues(issues: LinkedIssue[]): string {
  */
 export function formatChangedFiles(
 	files: PRChangedFile[],
-	maxPatchLines = 100,
+	maxPatchLines: number = DEFAULTS.maxPatchLines,
 ): string {
 	const lines: string[] = ["## Changed Files"];
 
 	for (const file of files) {
 		lines.push("");
-		lines.push(`### ${file.filename} (${file.status})`);
-		lines.push(`+${file.additions} / -${file.deletions}`);
+		lines.push(formatChangedFile(file, maxPatchLines));
+	}
 
-		if (file.previousFilename) {
-			lines.push(`Renamed from: ${file.previousFilename}`);
-		}
+	return lines.join("\n");
+}
 
-		if (file.patch) {
-			const patchLines = file.patch.split("\n");
-			if (patchLines.length > maxPatchLines) {
-				lines.push("```diff");
-				lines.push(patchLines.slice(0, maxPatchLines).join("\n"));
-				lines.push(
-					`... (${patchLines.length - maxPatchLines} more lines truncated)`,
-				);
-				lines.push("```");
-			} else {
-				lines.push("```diff");
-				lines.push(file.patch);
-				lines.push("```");
-			}
+/**
+ * Format a single changed file with its patch for inclusion in prompt.
+ *
+ * @param file - The changed file
+ * @param maxPatchLines - Patch lines shown before the rest is truncated
+ * @param includePatch - Whether to show the patch (default: true)
+ * @returns The file's heading, stats, and patch
+ */
+export function formatChangedFile(
+	file: PRChangedFile,
+	maxPatchLines: number = DEFAULTS.maxPatchLines,
+	includePatch = true,
+): string {
+	const lines: string[] = [
+		`### ${file.filename} (${file.status})`,
+		`+${file.additions} / -${file.deletions}`,
+	];
+
+	if (file.previousFilename) {
+		lines.push(`Renamed from: ${file.previousFilename}`);
+	}
+
+	if (!includePatch) {
+		lines.push(`(patch ${OMITTED_NOTE})`);
+	} else if (file.patch) {
+		const patchLines = file.patch.split("\n");
+		if (patchLines.length > maxPatchLines) {
+			lines.push("```diff");
+			lines.push(patchLines.slice(0, maxPatchLines).join("\n"));
+			lines.push(
+				`... (${patchLines.length - maxPatchLines} more lines truncated)`,
+			);
+			lines.push("```");
 		} else {
-			lines.push("(patch not available - binary or large file)");
+			lines.push("```diff");
+			lines.push(file.patch);
+			lines.push("```");
 		}
+	} else {
+		lines.push("(patch not available - binary or large file)");
 	}
 
 	return lines.join("\n");
@@ -301,29 +347,55 @@ export function formatParentNodeCandidates(
 		return "";
 	}
 
+	const lines: string[] = [...PARENT_NODES_HEADER];
+
+	for (const candidate of candidates) {
+		lines.push(formatParentNodeCandidate(candidate));
+		lines.push("");
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Heading and instructions of the parent nodes section.
+ */
+const PARENT_NODES_HEADER = [
+	"## Parent Nodes (Review for Potential Updates)",
+	"",
+	"The following parent nodes have children being updated. By default, parent nodes should NOT be updated unless there are clear cross-cutting changes. Review conservatively.",
+	"",
+];
+
+/**
+ * Format a single parent node review candidate for inclusion in prompt.
+ *
+ * @param candidate - The parent node with its current content
+ * @param includeContent - Whether to show the node's content (default: true)
+ * @returns The node's recommendation and content
+ */
+export function formatParentNodeCandidate(
+	candidate: ParentNodeReviewCandidateWithContent,
+	includeContent = true,
+): string {
 	const lines: string[] = [
-		"## Parent Nodes (Review for Potential Updates)",
+		`### ${candidate.node.file.path}`,
 		"",
-		"The following parent nodes have children being updated. By default, parent nodes should NOT be updated unless there are clear cross-cutting changes. Review conservatively.",
+		`**Recommendation:** ${candidate.recommendUpdate ? "Consider updating" : "No update needed"}`,
+		`**Reason:** ${candidate.recommendationReason}`,
+		`**Updated children:** ${candidate.updatedChildren.map((c) => c.node.file.path).join(", ")}`,
 		"",
 	];
 
-	for (const candidate of candidates) {
-		lines.push(`### ${candidate.node.file.path}`);
-		lines.push("");
-		lines.push(
-			`**Recommendation:** ${candidate.recommendUpdate ? "Consider updating" : "No update needed"}`,
-		);
-		lines.push(`**Reason:** ${candidate.recommendationReason}`);
-		lines.push(
-			`**Updated children:** ${candidate.updatedChildren.map((c) => c.node.file.path).join(", ")}`,
-		);
-		lines.push("");
+	if (includeContent) {
 		lines.push("**Current Content:**");
 		lines.push("```markdown");
 		lines.push(candidate.currentContent || "(empty file)");
 		lines.push("```");
-		lines.push("");
+	} else {
+		lines.push(
+			`(content ${OMITTED_NOTE}; do not propose an update to this node)`,
+		);
 	}
 
 	return lines.join("\n");
@@ -367,40 +439,82 @@ export function formatSemanticBoundaryCandidates(
 	return lines.join("\n");
 }
 
+/**
+ * Format the content format required by the managed file type, for kinds
+ * whose files are not plain markdown.
+ *
+ * @param fileType - Which file type is being managed
+ * @returns Lines describing the format, or none for plain markdown files
+ */
+export function formatContentFormat(
+	fileType: IntentFileType | "both",
+): string[] {
+	const contentFormat =
+		fileType === "both" ? undefined : getIntentFileKind(fileType).contentFormat;
+	return contentFormat ? [`- File format: ${contentFormat}`] : [];
+}
+
 /**
  * Collect custom prompts for a set of changed files using the pattern resolver.
  *
  * Groups files by their matched prompt to avoid duplication, and returns
- * formatted output suitable for inclusion in analysis prompts.
+ * formatted output suitable for inclusion in analysis prompts. When managing
+ * both file types, prompts that differ between AGENTS.md and CLAUDE.md are
+ * listed separately and labeled with the file they apply to.
  *
  * @param changedFiles - Files that changed in the PR
  * @param resolver - Pattern-matched prompt resolver
- * @param fileType - Which file type is being managed ('agents' or 'claude')
+ * @param fileType - Which file type is being managed, or 'both' for AGENTS.md and CLAUDE.md
  * @returns Formatted custom prompts section, or empty string if no matches
  */
 export function collectCustomPrompts(
-	changedFiles: PRChangedFile[],
+	changedFiles: Pick<PRChangedFile, "filename">[],
 	resolver: PatternMatchedPromptResolver | undefined,
-	fileType: "agents" | "claude",
+	fileType: IntentFileType | "both",
 ): string {
 	if (!resolver || !resolver.hasPatterns()) {
 		return "";
 	}
 
-	// Group files by their resolved prompt text to avoid duplicating instructions
-	const promptToFiles = new Map<string, string[]>();
+	// Group files by their resolved prompt text (and target file) to avoid duplicating instructions
+	const promptGroups = new Map<
+		string,
+		{ promptText: string; label?: string; files: string[] }
+	>();
+	const addToGroup = (promptText: string, file: string, label?: string) => {
+		const key = `${label ?? ""}\n${promptText}`;
+		let group = promptGroups.get(key);
+		if (!group) {
+			group = { promptText, label, files: [] };
+			promptGroups.set(key, group);
+		}
+		group.files.push(file);
+	};
 
 	for (const file of changedFiles) {
-		const promptText = resolver.getPromptForFile(file.filename, fileType);
-		if (promptText) {
-			if (!promptToFiles.has(promptText)) {
-				promptToFiles.set(promptText, []);
+		if (fileType !== "both") {
+			const promptText = resolver.getPromptForFile(file.filename, fileType);
+			if (promptText) {
+				addToGroup(promptText, file.filename);
 			}
-			promptToFiles.get(promptText)?.push(file.filename);
+			continue;
+		}
+
+		const agentsPrompt = resolver.getPromptForFile(file.filename, "agents");
+		const claudePrompt = resolver.getPromptForFile(file.filename, "claude");
+		if (agentsPrompt && agentsPrompt === claudePrompt) {
+			addToGroup(agentsPrompt, file.filename);
+			continue;
+		}
+		if (agentsPrompt) {
+			addToGroup(agentsPrompt, file.filename, "AGENTS.md");
+		}
+		if (claudePrompt) {
+			addToGroup(claudePrompt, file.filename, "CLAUDE.md");
 		}
 	}
 
-	if (promptToFiles.size === 0) {
+	if (promptGroups.size === 0) {
 		return "";
 	}
 
@@ -411,9 +525,13 @@ export function collectCustomPrompts(
 		"",
 	];
 
-	for (const [promptText, files] of promptToFiles) {
+	for (const { promptText, label, files } of promptGroups.values()) {
+		const fileList =
+			files.length > 3
+				? `${files.slice(0, 3).join(", ")} (+${files.length - 3} more)`
+				: files.join(", ");
 		lines.push(
-			`### Files: ${files.length > 3 ? `${files.slice(0, 3).join(", ")} (+${files.length - 3} more)` : files.join(", ")}`,
+			`### Files: ${fileList}${label ? ` (applies to ${label})` : ""}`,
 		);
 		lines.push("");
 		lines.push(promptText);
@@ -436,74 +554,134 @@ export function buildAnalysisPrompt(
 	intentContext: IntentContext,
 	config: PromptConfig,
 ): string {
-	const sections: string[] = [];
+	return assembleAnalysisPrompt(prContext, intentContext, config).prompt;
+}
+
+/**
+ * Build the complete analysis prompt within the configured token budget.
+ *
+ * When the prompt does not fit, material is cut in reverse order of priority:
+ * first the commit list and the patches of files no node covers, then the
+ * content of parent nodes, and only then the patches of covered files and the
+ * content of the nodes to update. Patches and parent nodes are summarized
+ * before they are elided.
+ *
+ * @param prContext - Context about the pull request
+ * @param intentContext - Context about existing intent nodes
+ * @param config - Prompt configuration
+ * @returns The prompt and a report of what was cut to fit
+ */
+export function assembleAnalysisPrompt(
+	prContext: PRContext,
+	intentContext: IntentContext,
+	config: PromptConfig,
+): AssembledPrompt {
+	const builder = new PromptSectionBuilder();
+	const { lines } = builder;
 
 	// Role and schema
-	sections.push(ANALYST_ROLE);
-	sections.push("");
-	sections.push(OUTPUT_SCHEMA_DESCRIPTION);
-	sections.push("");
-	sections.push(CONTENT_GUIDELINES);
-	sections.push("");
+	lines.push(ANALYST_ROLE);
+	lines.push("");
+	lines.push(OUTPUT_SCHEMA_DESCRIPTION);
+	lines.push("");
+	lines.push(CONTENT_GUIDELINES);
+	lines.push("");
 
 	// Configuration context
 	const fileTypeDesc =
 		config.fileType === "both"
 			? "AGENTS.md and CLAUDE.md files"
-			: `${config.fileType === "agents" ? "AGENTS.md" : "CLAUDE.md"} files`;
+			: `${getIntentFileKind(config.fileType).label} files`;
 
-	sections.push("## Configuration");
-	sections.push(`- Managing: ${fileTypeDesc}`);
-	sections.push(
+	lines.push("## Configuration");
+	lines.push(`- Managing: ${fileTypeDesc}`);
+	lines.push(...formatContentFormat(config.fileType));
+	lines.push(
 		`- New node creation: ${config.newNodesAllowed ? "allowed" : "NOT allowed"}`,
 	);
-	sections.push(
-		`- Suggest node splits: ${config.splitLargeNodes ? "yes" : "no"}`,
-	);
-	sections.push("");
+	lines.push(`- Suggest node splits: ${config.splitLargeNodes ? "yes" : "no"}`);
+	lines.push("");
 
 	// PR context
-	sections.push(formatPRMetadata(prContext.metadata));
-	sections.push("");
-	sections.push(formatCommits(prContext.commits));
-	sections.push("");
+	lines.push(formatPRMetadata(prContext.metadata));
+	lines.push("");
+	builder.add({
+		label: "commit list",
+		content: formatCommits(prContext.commits),
+		summary: `## Commits\n- ${prContext.commits.length} commits (list ${OMITTED_NOTE})`,
+		priority: SECTION_PRIORITY.uncoveredChanges,
+	});
+	lines.push("");
 
 	if (prContext.linkedIssues.length > 0) {
-		sections.push(formatLinkedIssues(prContext.linkedIssues));
-		sections.push("");
+		lines.push(formatLinkedIssues(prContext.linkedIssues));
+		lines.push("");
 	}
 
-	// Changed files
-	sections.push(formatChangedFiles(prContext.changedFiles));
-	sections.push("");
+	// Changed files, with the patches of files covered by a node kept longest
+	const coveredFiles = new Set(
+		intentContext.nodesToUpdate.flatMap((candidate) =>
+			candidate.changedFiles.map((coverage) => coverage.file.filename),
+		),
+	);
+	lines.push("## Changed Files");
+	for (const file of prContext.changedFiles) {
+		lines.push("");
+		builder.add({
+			label: `patch of ${file.filename}`,
+			content: formatChangedFile(file, config.maxPatchLines),
+			summary: formatChangedFile(file, config.maxPatchLines, false),
+			priority: coveredFiles.has(file.filename)
+				? SECTION_PRIORITY.coveredChanges
+				: SECTION_PRIORITY.uncoveredChanges,
+		});
+	}
+	lines.push("");
 
 	// Intent nodes to update
 	if (intentContext.nodesToUpdate.length > 0) {
-		sections.push("## Intent Nodes Requiring Update");
-		sections.push("");
-		sections.push(
+		lines.push("## Intent Nodes Requiring Update");
+		lines.push("");
+		lines.push(
 			"The following intent nodes cover changed files and should be reviewed for updates:",
 		);
-		sections.push("");
+		lines.push("");
 
 		for (const candidate of intentContext.nodesToUpdate) {
-			sections.push(formatNodeUpdateCandidate(candidate));
-			sections.push("");
+			builder.add({
+				label: `intent node ${candidate.node.file.path}`,
+				content: formatNodeUpdateCandidate(candidate),
+				priority: SECTION_PRIORITY.coveredChanges,
+			});
+			lines.push("");
 		}
 	} else {
-		sections.push("## Intent Nodes");
-		sections.push("");
-		sections.push(
+		lines.push("## Intent Nodes");
+		lines.push("");
+		lines.push(
 			"No existing intent nodes directly cover the changed files. Consider whether new nodes are needed (if allowed).",
 		);
-		sections.push("");
+		lines.push("");
 	}
 
 	// Parent nodes
-	sections.push(formatParentNodeCandidates(intentContext.parentNodesToReview));
+	if (intentContext.parentNodesToReview.length > 0) {
+		lines.push(...PARENT_NODES_HEADER);
+		for (const candidate of intentContext.parentNodesToReview) {
+			builder.add({
+				label: `parent node ${candidate.node.file.path}`,
+				content: formatParentNodeCandidate(candidate),
+				summary: formatParentNodeCandidate(candidate, false),
+				priority: SECTION_PRIORITY.parentNodes,
+			});
+			lines.push("");
+		}
+	} else {
+		lines.push("");
+	}
 
 	// Potential new nodes
-	sections.push(
+	lines.push(
 		formatSemanticBoundaryCandidates(
 			intentContext.potentialNewNodes,
 			config.newNodesAllowed,
@@ -511,53 +689,66 @@ export function buildAnalysisPrompt(
 	);
 
 	// Custom prompts from pattern-matched configuration
-	// For "both" fileType, we use "agents" as the primary type for custom prompts
-	const effectiveFileType =
-		config.fileType === "both" ? "agents" : config.fileType;
 	const customPromptsSection = collectCustomPrompts(
 		prContext.changedFiles,
 		config.promptResolver,
-		effectiveFileType,
+		config.fileType,
 	);
 	if (customPromptsSection) {
-		sections.push(customPromptsSection);
+		lines.push(customPromptsSection);
 	}
 
 	// Final instructions
-	sections.push("## Your Task");
-	sections.push("");
-	sections.push(
+	lines.push("## Your Task");
+	lines.push("");
+	lines.push(
 		"Analyze the changes above and determine what updates (if any) should be made to the intent layer files.",
 	);
-	sections.push("");
-	sections.push("Remember:");
-	sections.push("- Be conservative - only update when genuinely needed");
-	sections.push(
+	lines.push("");
+	lines.push("Remember:");
+	lines.push("- Be conservative - only update when genuinely needed");
+	lines.push(
 		"- Focus on the nearest covering node; parent nodes rarely need updates",
 	);
-	sections.push(
+	lines.push(
 		"- For updates, you MUST include the exact current content in currentContent",
 	);
-	sections.push("- Write concise, high-signal documentation");
+	lines.push("- Write concise, high-signal documentation");
 	if (!config.newNodesAllowed) {
-		sections.push("- New node creation is NOT allowed for this repository");
+		lines.push("- New node creation is NOT allowed for this repository");
 	}
-	sections.push("");
-	sections.push("Respond with ONLY the JSON object. No other text.");
+	lines.push("");
+	lines.push("Respond with ONLY the JSON object. No other text.");
 
-	return sections.join("\n");
+	return assemblePrompt(builder.build(), config.tokenBudget);
+}
+
+/**
+ * Reviewer feedback on a previously proposed update.
+ */
+export interface ReviewerFeedback {
+	/** The update that was proposed before the feedback */
+	previousUpdate: IntentUpdate;
+	/** The reviewer's guidance for the revision */
+	feedback: string;
+	/** Login of the reviewer, if known */
+	reviewer?: string;
 }
 
 /**
  * Build a prompt for updating a single node.
  * This is a simpler prompt for targeted single-node updates.
  *
+ * When reviewer feedback is given, the previous proposal and the feedback are
+ * included so the LLM revises the proposal rather than starting over.
+ *
  * @param nodeWithContent - The intent node with its current content
  * @param changedFiles - Files that changed in this node's coverage area
  * @param updateReason - Why this node needs updating
  * @param prMetadata - PR metadata for context
  * @param fileType - Which file type is being managed
  * @param promptResolver - Optional pattern-matched prompt resolver for custom guidance
+ * @param reviewerFeedback - Optional feedback on a previous proposal to revise
  * @returns Prompt string for single-node update
  */
 export function buildSingleNodeUpdatePrompt(
@@ -565,71 +756,117 @@ export function buildSingleNodeUpdatePrompt(
 	changedFiles: PRChangedFile[],
 	updateReason: string,
 	prMetadata: PRMetadata,
-	fileType: "agents" | "claude",
+	fileType: IntentFileType,
 	promptResolver?: PatternMatchedPromptResolver,
+	reviewerFeedback?: ReviewerFeedback,
 ): string {
-	const sections: string[] = [];
+	return assembleSingleNodeUpdatePrompt(
+		nodeWithContent,
+		changedFiles,
+		updateReason,
+		prMetadata,
+		fileType,
+		promptResolver,
+		reviewerFeedback,
+	).prompt;
+}
+
+/**
+ * Build the prompt for updating a single node within a token budget.
+ *
+ * When the prompt does not fit, file patches are omitted, later files first.
+ * The node's content and the list of changed files are always kept.
+ *
+ * @param nodeWithContent - The intent node with its current content
+ * @param changedFiles - Files that changed in this node's coverage area
+ * @param updateReason - Why this node needs updating
+ * @param prMetadata - PR metadata for context
+ * @param fileType - Which file type is being managed
+ * @param promptResolver - Optional pattern-matched prompt resolver for custom guidance
+ * @param reviewerFeedback - Optional feedback on a previous proposal to revise
+ * @param budgetTokens - Tokens the prompt may use (unlimited if undefined)
+ * @returns The prompt and a report of what was cut to fit
+ */
+export function assembleSingleNodeUpdatePrompt(
+	nodeWithContent: IntentNodeWithContent,
+	changedFiles: PRChangedFile[],
+	updateReason: string,
+	prMetadata: PRMetadata,
+	fileType: IntentFileType,
+	promptResolver?: PatternMatchedPromptResolver,
+	reviewerFeedback?: ReviewerFeedback,
+	budgetTokens?: number,
+): AssembledPrompt {
+	const builder = new PromptSectionBuilder();
+	const { lines } = builder;
 	const { node, currentContent } = nodeWithContent;
 
-	sections.push(ANALYST_ROLE);
-	sections.push("");
-	sections.push(OUTPUT_SCHEMA_DESCRIPTION);
-	sections.push("");
-	sections.push(CONTENT_GUIDELINES);
-	sections.push("");
+	lines.push(ANALYST_ROLE);
+	lines.push("");
+	lines.push(OUTPUT_SCHEMA_DESCRIPTION);
+	lines.push("");
+	lines.push(CONTENT_GUIDELINES);
+	lines.push("");
 
-	sections.push("## Task: Update Single Intent Node");
-	sections.push("");
-	sections.push(
+	lines.push("## Task: Update Single Intent Node");
+	lines.push("");
+	lines.push(
 		`Update the ${node.file.path} file based on the following changes.`,
 	);
-	sections.push("");
-	sections.push(`**Update Reason:** ${updateReason}`);
-	sections.push("");
+	lines.push(...formatContentFormat(fileType));
+	lines.push("");
+	lines.push(`**Update Reason:** ${updateReason}`);
+	lines.push("");
 
 	// PR context (brief)
-	sections.push(`## PR: ${prMetadata.title}`);
-	sections.push(prMetadata.description || "(no description)");
-	sections.push("");
+	lines.push(`## PR: ${prMetadata.title}`);
+	lines.push(prMetadata.description || "(no description)");
+	lines.push("");
 
 	// Current content
-	sections.push("## Current Content");
-	sections.push("```markdown");
-	sections.push(currentContent || "(empty file)");
-	sections.push("```");
-	sections.push("");
+	lines.push("## Current Content");
+	lines.push("```markdown");
+	lines.push(currentContent || "(empty file)");
+	lines.push("```");
+	lines.push("");
 
 	// Changed files
-	sections.push(`## Changed Files (${changedFiles.length})`);
+	lines.push(`## Changed Files (${changedFiles.length})`);
 	for (const file of changedFiles.slice(0, 20)) {
-		sections.push(
+		lines.push(
 			`- ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})`,
 		);
 	}
 	if (changedFiles.length > 20) {
-		sections.push(`- ... and ${changedFiles.length - 20} more files`);
+		lines.push(`- ... and ${changedFiles.length - 20} more files`);
 	}
-	sections.push("");
+	lines.push("");
 
 	// File patches (truncated)
-	sections.push("## File Patches");
+	lines.push("## File Patches");
 	for (const file of changedFiles.slice(0, 5)) {
 		if (file.patch) {
-			sections.push(`### ${file.filename}`);
+			const patch = [`### ${file.filename}`];
 			const patchLines = file.patch.split("\n");
 			if (patchLines.length > 50) {
-				sections.push("```diff");
-				sections.push(patchLines.slice(0, 50).join("\n"));
-				sections.push("... (truncated)");
-				sections.push("```");
+				patch.push("```diff");
+				patch.push(patchLines.slice(0, 50).join("\n"));
+				patch.push("... (truncated)");
+				patch.push("```");
 			} else {
-				sections.push("```diff");
-				sections.push(file.patch);
-				sections.push("```");
+				patch.push("```diff");
+				patch.push(file.patch);
+				patch.push("```");
 			}
+			builder.add({
+				label: `patch of ${file.filename}`,
+				content: patch.join("\n"),
+				summary: `### ${file.filename}\n(patch ${OMITTED_NOTE})`,
+				priority: SECTION_PRIORITY.coveredChanges,
+			});
 		}
 	}
-	sections.push("");
+	lines.push("");
 
 	// Custom prompts from pattern-matched configuration
 	const customPromptsSection = collectCustomPrompts(
@@ -638,12 +875,207 @@ export function buildSingleNodeUpdatePrompt(
 		fileType,
 	);
 	if (customPromptsSection) {
-		sections.push(customPromptsSection);
+		lines.push(customPromptsSection);
 	}
 
-	sections.push("Respond with ONLY the JSON object. No other text.");
+	if (reviewerFeedback) {
+		lines.push(formatReviewerFeedback(reviewerFeedback));
+	}
 
-	return sections.join("\n");
+	lines.push("Respond with ONLY the JSON object. No other text.");
+
+	return assemblePrompt(builder.build(), budgetTokens);
+}
+
+/**
+ * Format reviewer feedback and the proposal it refers to for inclusion in
+ * a prompt.
+ *
+ * @param reviewerFeedback - Feedback on a previous proposal
+ * @returns Formatted markdown section
+ */
+export function formatReviewerFeedback(
+	reviewerFeedback: ReviewerFeedback,
+): string {
+	const { previousUpdate, feedback, reviewer } = reviewerFeedback;
+	const lines: string[] = [];
+
+	lines.push("## Reviewer Feedback");
+	lines.push("");
+	lines.push(
+		`A reviewer${reviewer ? ` (@${reviewer})` : ""} asked for changes to the previous proposal for ${previousUpdate.nodePath}. Revise the proposal to address their feedback, keeping what they did not object to, and propose an update for ${previousUpdate.nodePath} only.`,
+	);
+	lines.push("");
+	lines.push(`### Previous Proposal (${previousUpdate.action})`);
+	lines.push(`**Reason:** ${previousUpdate.reason}`);
+	if (previousUpdate.suggestedContent !== undefined) {
+		lines.push("```markdown");
+		lines.push(previousUpdate.suggestedContent);
+		lines.push("```");
+	}
+	lines.push("");
+	lines.push("### Feedback");
+	lines.push(
+		feedback
+			.split("\n")
+			.map((line) => `> ${line}`)
+			.join("\n"),
+	);
+	lines.push("");
+
+	return lines.join("\n");
+}
+
+/**
+ * Build the prompt for the final pass of a chunked analysis.
+ *
+ * In a chunked analysis each affected node is prompted for on its own. This
+ * pass sees the outcome of those prompts and decides on the parent nodes and
+ * new nodes, whose updates depend on the PR as a whole.
+ *
+ * @param prContext - Context about the changes being analyzed
+ * @param nodeUpdates - Updates proposed for the affected nodes
+ * @param reviewedNodePaths - Paths of every affected node that was prompted for
+ * @param intentContext - Parent nodes to review and potential new nodes
+ * @param config - Prompt configuration
+ * @returns Prompt string for the reconciliation pass
+ */
+export function buildReconciliationPrompt(
+	prContext: PRContext,
+	nodeUpdates: IntentUpdate[],
+	reviewedNodePaths: string[],
+	intentContext: Pick<
+		IntentContext,
+		"parentNodesToReview" | "potentialNewNodes"
+	>,
+	config: PromptConfig,
+): string {
+	return assembleReconciliationPrompt(
+		prContext,
+		nodeUpdates,
+		reviewedNodePaths,
+		intentContext,
+		config,
+	).prompt;
+}
+
+/**
+ * Build the prompt for the final pass of a chunked analysis within the
+ * configured token budget.
+ *
+ * When the prompt does not fit, the content of parent nodes is summarized and
+ * then elided, later nodes first.
+ *
+ * @param prContext - Context about the changes being analyzed
+ * @param nodeUpdates - Updates proposed for the affected nodes
+ * @param reviewedNodePaths - Paths of every affected node that was prompted for
+ * @param intentContext - Parent nodes to review and potential new nodes
+ * @param config - Prompt configuration
+ * @returns The prompt and a report of what was cut to fit
+ */
+export function assembleReconciliationPrompt(
+	prContext: PRContext,
+	nodeUpdates: IntentUpdate[],
+	reviewedNodePaths: string[],
+	intentContext: Pick<
+		IntentContext,
+		"parentNodesToReview" | "potentialNewNodes"
+	>,
+	config: PromptConfig,
+): AssembledPrompt {
+	const builder = new PromptSectionBuilder();
+	const { lines } = builder;
+	lines.push(ANALYST_ROLE);
+	lines.push("");
+	lines.push(OUTPUT_SCHEMA_DESCRIPTION);
+	lines.push("");
+	lines.push(CONTENT_GUIDELINES);
+	lines.push("");
+
+	const fileTypeDesc =
+		config.fileType === "both"
+			? "AGENTS.md and CLAUDE.md files"
+			: `${getIntentFileKind(config.fileType).label} files`;
+
+	lines.push("## Configuration");
+	lines.push(`- Managing: ${fileTypeDesc}`);
+	lines.push(...formatContentFormat(config.fileType));
+	lines.push(
+		`- New node creation: ${config.newNodesAllowed ? "allowed" : "NOT allowed"}`,
+	);
+	lines.push("");
+
+	lines.push(formatPRMetadata(prContext.metadata));
+	lines.push("");
+
+	// Outcome of the per-node prompts
+	const updatesByPath = new Map(
+		nodeUpdates.map((update) => [update.nodePath, update]),
+	);
+	lines.push("## Node Updates Already Decided");
+	lines.push("");
+	lines.push(
+		"This PR is too large to analyze in one prompt, so each intent node covering changed files was reviewed on its own. These decisions are final:",
+	);
+	lines.push("");
+	for (const nodePath of reviewedNodePaths) {
+		const update = updatesByPath.get(nodePath);
+		lines.push(
+			update
+				? `- ${nodePath}: ${update.action} (${update.reason})`
+				: `- ${nodePath}: no change`,
+		);
+	}
+	lines.push("");
+
+	if (intentContext.parentNodesToReview.length > 0) {
+		lines.push(...PARENT_NODES_HEADER);
+		for (const candidate of intentContext.parentNodesToReview) {
+			builder.add({
+				label: `parent node ${candidate.node.file.path}`,
+				content: formatParentNodeCandidate(candidate),
+				summary: formatParentNodeCandidate(candidate, false),
+				priority: SECTION_PRIORITY.parentNodes,
+			});
+			lines.push("");
+		}
+	} else {
+		lines.push("");
+	}
+	lines.push(
+		formatSemanticBoundaryCandidates(
+			intentContext.potentialNewNodes,
+			config.newNodesAllowed,
+		),
+	);
+
+	const customPromptsSection = collectCustomPrompts(
+		prContext.changedFiles,
+		config.promptResolver,
+		config.fileType,
+	);
+	if (customPromptsSection) {
+		lines.push(customPromptsSection);
+	}
+
+	lines.push("## Your Task");
+	lines.push("");
+	lines.push(
+		"Given the node updates above, decide whether any parent node needs a cross-cutting update and whether any new node should be created. Do NOT propose updates for the nodes listed as already decided.",
+	);
+	lines.push("");
+	lines.push("Remember:");
+	lines.push("- Be conservative - parent nodes rarely need updates");
+	lines.push(
+		"- For updates, you MUST include the exact current content in currentContent",
+	);
+	if (!config.newNodesAllowed) {
+		lines.push("- New node creation is NOT allowed for this repository");
+	}
+	lines.push("");
+	lines.push("Respond with ONLY the JSON object. No other text.");
+
+	return assemblePrompt(builder.build(), config.tokenBudget);
 }
 
 /**
@@ -694,103 +1126,130 @@ export interface SplitSuggestionContext {
 export function buildNodeSplitPrompt(
 	splitContext: NodeSplitContext,
 	prMetadata: PRMetadata,
-	fileType: "agents" | "claude",
+	fileType: IntentFileType,
 ): string {
-	const sections: string[] = [];
-	const intentFileName = fileType === "agents" ? "AGENTS.md" : "CLAUDE.md";
-
-	sections.push(ANALYST_ROLE);
-	sections.push("");
-	sections.push(OUTPUT_SCHEMA_DESCRIPTION);
-	sections.push("");
-	sections.push(CONTENT_GUIDELINES);
-	sections.push("");
+	return assembleNodeSplitPrompt(splitContext, prMetadata, fileType).prompt;
+}
 
-	sections.push("## Task: Split Large Intent Node");
-	sections.push("");
-	sections.push(
+/**
+ * Build the prompt for suggesting node splits within a token budget.
+ *
+ * When the prompt does not fit, the file lists of the suggested child nodes
+ * are omitted, later suggestions first. The node's content is always kept.
+ *
+ * @param splitContext - Context about the node that needs splitting
+ * @param prMetadata - PR metadata for context
+ * @param fileType - Which file type is being managed
+ * @param budgetTokens - Tokens the prompt may use (unlimited if undefined)
+ * @returns The prompt and a report of what was cut to fit
+ */
+export function assembleNodeSplitPrompt(
+	splitContext: NodeSplitContext,
+	prMetadata: PRMetadata,
+	fileType: IntentFileType,
+	budgetTokens?: number,
+): AssembledPrompt {
+	const builder = new PromptSectionBuilder();
+	const { lines } = builder;
+	const intentFileName = getIntentFilePath(fileType, "");
+
+	lines.push(ANALYST_ROLE);
+	lines.push("");
+	lines.push(OUTPUT_SCHEMA_DESCRIPTION);
+	lines.push("");
+	lines.push(CONTENT_GUIDELINES);
+	lines.push("");
+
+	lines.push("## Task: Split Large Intent Node");
+	lines.push("");
+	lines.push(
 		`The intent node at \`${splitContext.nodePath}\` exceeds the token budget threshold and should be split into smaller, more focused nodes.`,
 	);
-	sections.push("");
-	sections.push("**Budget Analysis:**");
-	sections.push(`- Current budget: ${splitContext.budgetPercent.toFixed(1)}%`);
-	sections.push(`- Threshold: ${splitContext.budgetThreshold}%`);
-	sections.push(
+	lines.push(...formatContentFormat(fileType));
+	lines.push("");
+	lines.push("**Budget Analysis:**");
+	lines.push(`- Current budget: ${splitContext.budgetPercent.toFixed(1)}%`);
+	lines.push(`- Threshold: ${splitContext.budgetThreshold}%`);
+	lines.push(
 		`- Status: Exceeds budget by ${(splitContext.budgetPercent - splitContext.budgetThreshold).toFixed(1)} percentage points`,
 	);
-	sections.push("");
+	lines.push("");
 
 	// PR context (brief)
-	sections.push(`## PR Context: ${prMetadata.title}`);
-	sections.push(prMetadata.description || "(no description)");
-	sections.push("");
+	lines.push(`## PR Context: ${prMetadata.title}`);
+	lines.push(prMetadata.description || "(no description)");
+	lines.push("");
 
 	// Current content
-	sections.push("## Current Content");
-	sections.push(`**File:** ${splitContext.nodePath}`);
-	sections.push("```markdown");
-	sections.push(splitContext.currentContent || "(empty file)");
-	sections.push("```");
-	sections.push("");
+	lines.push("## Current Content");
+	lines.push(`**File:** ${splitContext.nodePath}`);
+	lines.push("```markdown");
+	lines.push(splitContext.currentContent || "(empty file)");
+	lines.push("```");
+	lines.push("");
 
 	// Split suggestions
-	sections.push("## Suggested Splits");
-	sections.push("");
-	sections.push(
+	lines.push("## Suggested Splits");
+	lines.push("");
+	lines.push(
 		"The following directories contain enough code to warrant their own intent nodes:",
 	);
-	sections.push("");
+	lines.push("");
 
 	for (const suggestion of splitContext.splitSuggestions) {
-		sections.push(`### ${suggestion.suggestedNodePath}`);
-		sections.push("");
-		sections.push(`**Directory:** ${suggestion.suggestedDirectory}`);
-		sections.push(
+		const heading = [
+			`### ${suggestion.suggestedNodePath}`,
+			"",
+			`**Directory:** ${suggestion.suggestedDirectory}`,
 			`**Coverage:** ${suggestion.coveragePercent.toFixed(1)}% of parent's covered code`,
-		);
-		sections.push(`**Files (${suggestion.coveredFiles.length}):**`);
-		for (const file of suggestion.coveredFiles.slice(0, 10)) {
-			sections.push(`- ${file}`);
-		}
+			`**Files (${suggestion.coveredFiles.length}):**`,
+		];
+		const files = suggestion.coveredFiles
+			.slice(0, 10)
+			.map((file) => `- ${file}`);
 		if (suggestion.coveredFiles.length > 10) {
-			sections.push(
-				`- ... and ${suggestion.coveredFiles.length - 10} more files`,
-			);
+			files.push(`- ... and ${suggestion.coveredFiles.length - 10} more files`);
 		}
-		sections.push("");
+		builder.add({
+			label: `file list of ${suggestion.suggestedNodePath}`,
+			content: [...heading, ...files].join("\n"),
+			summary: [...heading, `- (list ${OMITTED_NOTE})`].join("\n"),
+			priority: SECTION_PRIORITY.uncoveredChanges,
+		});
+		lines.push("");
 	}
 
 	// Instructions
-	sections.push("## Instructions");
-	sections.push("");
-	sections.push(
+	lines.push("## Instructions");
+	lines.push("");
+	lines.push(
 		"Generate a JSON response with updates that split this node. This should include:",
 	);
-	sections.push("");
-	sections.push(
+	lines.push("");
+	lines.push(
 		`1. **Update the parent node** (\`${splitContext.nodePath}\`): Remove content that is specific to the directories being split out. Keep only high-level, cross-cutting information that applies to the entire directory.`,
 	);
-	sections.push("");
-	sections.push(
+	lines.push("");
+	lines.push(
 		`2. **Create new child nodes**: For each suggested split above, create a new ${intentFileName} file with content specific to that directory. The content should:`,
 	);
-	sections.push("   - Focus on the specific directory's purpose and patterns");
-	sections.push("   - Include relevant details moved from the parent node");
-	sections.push("   - Be self-contained but avoid duplicating parent context");
-	sections.push("");
-	sections.push("**Important:**");
-	sections.push(
+	lines.push("   - Focus on the specific directory's purpose and patterns");
+	lines.push("   - Include relevant details moved from the parent node");
+	lines.push("   - Be self-contained but avoid duplicating parent context");
+	lines.push("");
+	lines.push("**Important:**");
+	lines.push(
 		"- The parent node should become leaner and more focused on cross-cutting concerns",
 	);
-	sections.push(
+	lines.push(
 		"- Child nodes should be detailed and specific to their directories",
 	);
-	sections.push("- Avoid duplicating information between parent and children");
-	sections.push("- Each child node should be able to stand alone for its area");
-	sections.push("");
-	sections.push("Respond with ONLY the JSON object. No other text.");
+	lines.push("- Avoid duplicating information between parent and children");
+	lines.push("- Each child node should be able to stand alone for its area");
+	lines.push("");
+	lines.push("Respond with ONLY the JSON object. No other text.");
 
-	return sections.join("\n");
+	return assemblePrompt(builder.build(), budgetTokens);
 }
 
 /**
@@ -805,7 +1264,7 @@ export function buildNodeSplitPrompt(
 export function buildNewNodePrompt(
 	candidate: SemanticBoundaryCandidate,
 	prMetadata: PRMetadata,
-	fileType: "agents" | "claude",
+	fileType: IntentFileType,
 	promptResolver?: PatternMatchedPromptResolver,
 ): string {
 	const sections: string[] = [];
@@ -822,6 +1281,7 @@ export function buildNewNodePrompt(
 	sections.push(
 		`Create a new ${candidate.suggestedNodePath} file for the "${candidate.directory || "root"}" directory.`,
 	);
+	sections.push(...formatContentFormat(fileType));
 	sections.push("");
 	sections.push(`**Reason:** ${candidate.reason}`);
 	sections.push("");
@@ -893,46 +1353,82 @@ export function buildNewNodePrompt(
 export function buildInitializationPrompt(
 	prMetadata: PRMetadata,
 	changedFiles: PRChangedFile[],
-	fileType: "agents" | "claude",
+	fileType: IntentFileType,
 	promptResolver?: PatternMatchedPromptResolver,
 ): string {
-	const sections: string[] = [];
-	const fileName = fileType === "agents" ? "AGENTS.md" : "CLAUDE.md";
-
-	sections.push(ANALYST_ROLE);
-	sections.push("");
-	sections.push(OUTPUT_SCHEMA_DESCRIPTION);
-	sections.push("");
-	sections.push(CONTENT_GUIDELINES);
-	sections.push("");
+	return assembleInitializationPrompt(
+		prMetadata,
+		changedFiles,
+		fileType,
+		promptResolver,
+	).prompt;
+}
 
-	sections.push("## Task: Initialize Intent Layer");
-	sections.push("");
-	sections.push(
+/**
+ * Build the initialization prompt within a token budget.
+ *
+ * When the prompt does not fit, the list of changed files is omitted.
+ *
+ * @param prMetadata - PR metadata for context
+ * @param changedFiles - Files changed in the PR
+ * @param fileType - Which file type to initialize
+ * @param promptResolver - Optional pattern-matched prompt resolver for custom guidance
+ * @param budgetTokens - Tokens the prompt may use (unlimited if undefined)
+ * @returns The prompt and a report of what was cut to fit
+ */
+export function assembleInitializationPrompt(
+	prMetadata: PRMetadata,
+	changedFiles: PRChangedFile[],
+	fileType: IntentFileType,
+	promptResolver?: PatternMatchedPromptResolver,
+	budgetTokens?: number,
+): AssembledPrompt {
+	const builder = new PromptSectionBuilder();
+	const { lines } = builder;
+	const fileName = getIntentFilePath(fileType, "");
+
+	lines.push(ANALYST_ROLE);
+	lines.push("");
+	lines.push(OUTPUT_SCHEMA_DESCRIPTION);
+	lines.push("");
+	lines.push(CONTENT_GUIDELINES);
+	lines.push("");
+
+	lines.push("## Task: Initialize Intent Layer");
+	lines.push("");
+	lines.push(
 		`This repository does not have an intent layer yet. Create a root ${fileName} file that provides high-level context about the repository.`,
 	);
-	sections.push("");
-	sections.push("For initial creation, focus on:");
-	sections.push("- What the repository/project is about");
-	sections.push("- Key technologies and patterns used");
-	sections.push("- How the codebase is organized");
-	sections.push("- Important conventions for AI agents to follow");
-	sections.push("");
+	lines.push(...formatContentFormat(fileType));
+	lines.push("");
+	lines.push("For initial creation, focus on:");
+	lines.push("- What the repository/project is about");
+	lines.push("- Key technologies and patterns used");
+	lines.push("- How the codebase is organized");
+	lines.push("- Important conventions for AI agents to follow");
+	lines.push("");
 
 	// PR context
-	sections.push(`## Current PR: ${prMetadata.title}`);
-	sections.push(prMetadata.description || "(no description)");
-	sections.push("");
+	lines.push(`## Current PR: ${prMetadata.title}`);
+	lines.push(prMetadata.description || "(no description)");
+	lines.push("");
 
 	// Changed files (to understand repo structure)
-	sections.push(`## Changed Files (${changedFiles.length})`);
-	for (const file of changedFiles.slice(0, 30)) {
-		sections.push(`- ${file.filename}`);
-	}
+	const fileList = changedFiles
+		.slice(0, 30)
+		.map((file) => `- ${file.filename}`);
 	if (changedFiles.length > 30) {
-		sections.push(`- ... and ${changedFiles.length - 30} more files`);
+		fileList.push(`- ... and ${changedFiles.length - 30} more files`);
 	}
-	sections.push("");
+	builder.add({
+		label: "changed file list",
+		content: [`## Changed Files (${changedFiles.length})`, ...fileList].join(
+			"\n",
+		),
+		summary: `## Changed Files (${changedFiles.length})\n- (list ${OMITTED_NOTE})`,
+		priority: SECTION_PRIORITY.uncoveredChanges,
+	});
+	lines.push("");
 
 	// Custom prompts from pattern-matched configuration
 	const customPromptsSection = collectCustomPrompts(
@@ -941,10 +1437,201 @@ export function buildInitializationPrompt(
 		fileType,
 	);
 	if (customPromptsSection) {
-		sections.push(customPromptsSection);
+		lines.push(customPromptsSection);
 	}
 
-	sections.push("Respond with ONLY the JSON object. No other text.");
+	lines.push("Respond with ONLY the JSON object. No other text.");
 
-	return sections.join("\n");
+	return assemblePrompt(builder.build(), budgetTokens);
+}
+
+/**
+ * Build a prompt for refreshing the nodes flagged by a repository audit.
+ *
+ * Unlike the other prompts there is no PR: the LLM is given the stale nodes
+ * with their current content and the files they cover, and, when new nodes
+ * are allowed, the uncovered hotspots that should get a node of their own.
+ *
+ * @param staleNodes - Nodes flagged by the audit
+ * @param hotspots - Directories that should get an intent node
+ * @param config - Prompt configuration
+ * @param coveredFiles - Files covered by each stale node, keyed by node path
+ * @returns Prompt string for the audit refresh
+ */
+export function buildAuditPrompt(
+	staleNodes: StaleNode[],
+	hotspots: UncoveredHotspot[],
+	config: PromptConfig,
+	coveredFiles: Map<string, string[]>,
+): string {
+	return assembleAuditPrompt(staleNodes, hotspots, config, coveredFiles).prompt;
+}
+
+/**
+ * Build the audit prompt within the configured token budget.
+ *
+ * When the prompt does not fit, the file lists of the uncovered hotspots are
+ * cut first, then the content and covered files of the stale nodes, later
+ * entries first within each. Both are summarized before they are elided.
+ *
+ * @param staleNodes - Nodes flagged by the audit
+ * @param hotspots - Directories that should get an intent node
+ * @param config - Prompt configuration
+ * @param coveredFiles - Files covered by each stale node, keyed by node path
+ * @returns The prompt and a report of what was cut to fit
+ */
+export function assembleAuditPrompt(
+	staleNodes: StaleNode[],
+	hotspots: UncoveredHotspot[],
+	config: PromptConfig,
+	coveredFiles: Map<string, string[]>,
+): AssembledPrompt {
+	const builder = new PromptSectionBuilder();
+	const { lines } = builder;
+	const fileName =
+		config.fileType === "both"
+			? "AGENTS.md"
+			: getIntentFileKind(config.fileType).label;
+
+	lines.push(ANALYST_ROLE);
+	lines.push("");
+	lines.push(OUTPUT_SCHEMA_DESCRIPTION);
+	lines.push("");
+	lines.push(CONTENT_GUIDELINES);
+	lines.push("");
+
+	lines.push("## Task: Refresh Intent Layer");
+	lines.push("");
+	lines.push(
+		"This is a scheduled audit of the whole repository, not a pull request review. The intent nodes below were flagged as stale. Propose updates that bring them back in line with the code they cover.",
+	);
+	lines.push(...formatContentFormat(config.fileType));
+	lines.push("");
+	lines.push("- Nodes over the token budget should be condensed");
+	lines.push(
+		"- Nodes that no longer cover any code should be deleted, unless they still describe something useful",
+	);
+	lines.push(
+		"- Nodes whose code drifted since their last update should describe the code as it is now",
+	);
+	lines.push("");
+
+	for (const stale of staleNodes) {
+		const nodePath = stale.node.file.path;
+		const files = coveredFiles.get(nodePath) ?? [];
+		const fileList = [
+			`Covered files (${files.length}):`,
+			...files.slice(0, 30).map((file) => `- ${file}`),
+		];
+		if (files.length > 30) {
+			fileList.push(`- ... and ${files.length - 30} more files`);
+		}
+		const heading = [
+			`### ${nodePath}`,
+			`**Finding:** ${stale.description}`,
+			"",
+		];
+		builder.add({
+			label: `stale node ${nodePath}`,
+			content: [
+				...heading,
+				"```markdown",
+				stale.currentContent || "(empty file)",
+				"```",
+				"",
+				...fileList,
+			].join("\n"),
+			summary: [
+				...heading,
+				`(content ${OMITTED_NOTE}; do not propose an update to this node)`,
+			].join("\n"),
+			priority: SECTION_PRIORITY.coveredChanges,
+		});
+		lines.push("");
+	}
+
+	if (config.newNodesAllowed && hotspots.length > 0) {
+		lines.push("## Uncovered Hotspots");
+		lines.push("");
+		lines.push(
+			`These directories hold substantial code without a ${fileName} of their own. Create a node for each one that has a distinct purpose.`,
+		);
+		lines.push("");
+		for (const hotspot of hotspots) {
+			const heading = `### ${hotspot.suggestedNodePath} (${hotspot.files.length} files)`;
+			const fileList = hotspot.files.slice(0, 20).map((file) => `- ${file}`);
+			if (hotspot.files.length > 20) {
+				fileList.push(`- ... and ${hotspot.files.length - 20} more files`);
+			}
+			builder.add({
+				label: `file list of ${hotspot.suggestedNodePath}`,
+				content: [heading, ...fileList].join("\n"),
+				summary: `${heading}\n- (list ${OMITTED_NOTE})`,
+				priority: SECTION_PRIORITY.uncoveredChanges,
+			});
+			lines.push("");
+		}
+	}
+
+	// Custom prompts from pattern-matched configuration
+	const auditedFiles = [
+		...staleNodes.flatMap(
+			(stale) => coveredFiles.get(stale.node.file.path) ?? [],
+		),
+		...(config.newNodesAllowed ? hotspots.flatMap((h) => h.files) : []),
+	].map((filename) => ({ filename }));
+	const customPromptsSection = collectCustomPrompts(
+		auditedFiles,
+		config.promptResolver,
+		config.fileType,
+	);
+	if (customPromptsSection) {
+		lines.push(customPromptsSection);
+	}
+
+	lines.push(
+		"Only propose updates for the nodes and hotspots listed above. Respond with ONLY the JSON object. No other text.",
+	);
+
+	return assemblePrompt(builder.build(), config.tokenBudget);
+}
+
+/**
+ * Collects the sections of a prompt, grouping the essential lines written
+ * between cuttable sections into sections of their own.
+ */
+class PromptSectionBuilder {
+	/** Essential lines written since the last cuttable section */
+	readonly lines: string[] = [];
+	private readonly sections: PromptSection[] = [];
+
+	/**
+	 * Add a cuttable section after the lines written so far.
+	 *
+	 * @param section - Section to add
+	 */
+	add(section: PromptSection): void {
+		this.flushLines();
+		this.sections.push(section);
+	}
+
+	/**
+	 * Finish the prompt.
+	 *
+	 * @returns Sections in prompt order
+	 */
+	build(): PromptSection[] {
+		this.flushLines();
+		return this.sections;
+	}
+
+	private flushLines(): void {
+		if (this.lines.length > 0) {
+			this.sections.push({
+				label: "instructions",
+				content: this.lines.splice(0).join("\n"),
+				priority: SECTION_PRIORITY.essential,
+			});
+		}
+	}
 }
@@ -11,7 +11,14 @@
 
 import * as core from "@actions/core";
 import type { OpencodeClient } from "@opencode-ai/sdk";
-import { type LLMOutput, parseRawLLMOutput } from "./output-schema";
+import { DEFAULTS } from "../config/defaults";
+import { countTokens } from "../intent/tokenizer";
+import {
+	getLLMOutputJSONSchema,
+	type LLMOutput,
+	parseRawLLMOutput,
+} from "./output-schema";
+import { getPromptTokenBudget } from "./prompt-budget";
 
 /**
  * Error thrown when session operations fail.
@@ -281,6 +288,49 @@ export function formatModelAccessErrorMessage(
 	);
 }
 
+/**
+ * Default time to wait for an LLM response in milliseconds.
+ */
+export const DEFAULT_RESPONSE_TIMEOUT_MS = DEFAULTS.sessionTimeoutMs;
+
+/**
+ * Default number of times an invalid LLM response is sent back for repair.
+ */
+export const DEFAULT_OUTPUT_REPAIR_ATTEMPTS = DEFAULTS.outputRepairAttempts;
+
+/**
+ * Prompt asking for a corrected response after the validation issues have
+ * been sent to the session.
+ */
+export const OUTPUT_REPAIR_PROMPT =
+	"Respond again with the complete corrected JSON object, fixing every validation issue above. Output only the JSON.";
+
+/**
+ * Build the system instructions requiring responses to match the LLM output
+ * schema.
+ *
+ * @returns Instructions including the JSON Schema of the expected output
+ */
+export function buildOutputFormatInstructions(): string {
+	return [
+		"Respond with a single JSON object that conforms to the following JSON Schema, with no surrounding prose or code fences.",
+		"Create and update actions require suggestedContent; update and delete actions require currentContent.",
+		"",
+		JSON.stringify(getLLMOutputJSONSchema(), null, 2),
+	].join("\n");
+}
+
+/**
+ * Build the context sent back to the session when a response fails
+ * validation.
+ *
+ * @param parseError - Why the response could not be parsed or validated
+ * @returns Context describing the issues to fix
+ */
+export function buildOutputRepairContext(parseError: string): string {
+	return `Your previous response could not be used because it does not match the required output schema.\n\nIssues:\n${parseError}`;
+}
+
 /**
  * Model configuration for session prompts.
  */
@@ -291,6 +341,16 @@ export interface ModelConfig {
 	modelID: string;
 }
 
+/**
+ * Token limits of a model, as reported by its provider.
+ */
+export interface ModelLimits {
+	/** Tokens in the model's context window */
+	context: number;
+	/** Maximum tokens in a response */
+	output: number;
+}
+
 /**
  * Parse a model string into provider and model ID.
  *
@@ -338,6 +398,32 @@ export function parseModelString(model: string): ModelConfig {
 	};
 }
 
+/**
+ * Look up the token limits of a model from the providers OpenCode knows.
+ *
+ * @param client - OpenCode client instance
+ * @param model - Model configuration
+ * @returns The model's limits, or undefined if they are not known
+ */
+export async function getModelLimits(
+	client: OpencodeClient,
+	model: ModelConfig,
+): Promise<ModelLimits | undefined> {
+	try {
+		const response = await client.config.providers();
+		const provider = response.data?.providers.find(
+			(p) => p.id === model.providerID,
+		);
+		const limit = provider?.models[model.modelID]?.limit;
+		return limit && limit.context > 0
+			? { context: limit.context, output: limit.output }
+			: undefined;
+	} catch {
+		// Limits are optional; prompts are then not fit to a context window
+		return undefined;
+	}
+}
+
 /**
  * Session information returned from OpenCode API.
  */
@@ -358,6 +444,12 @@ export interface CreateSessionConfig {
 	title: string;
 	/** Model configuration */
 	model: ModelConfig;
+	/** Time to wait for an LLM response in milliseconds (default: 300000) */
+	responseTimeoutMs?: number;
+	/** Times an invalid response is sent back for repair (default: 2) */
+	repairAttempts?: number;
+	/** Context window in tokens, 0 to use the model's (default: 0) */
+	contextWindowTokens?: number;
 }
 
 /**
@@ -392,6 +484,16 @@ export class IntentAnalysisSession {
 	private readonly client: OpencodeClient;
 	private readonly sessionId: string;
 	private readonly defaultModel: ModelConfig;
+	private readonly responseTimeoutMs: number;
+	private readonly repairAttempts: number;
+	/** ID of the last response received, so it is not mistaken for the next */
+	private lastResponseId?: string;
+	/** Tokens of the messages sent and received so far */
+	private conversationTokens = 0;
+	/** Token limits of the default model, if known */
+	readonly modelLimits?: ModelLimits;
+	/** Configured context window, 0 to use the model's */
+	readonly contextWindowTokens: number;
 
 	/**
 	 * Create a new IntentAnalysisSession wrapper.
@@ -399,15 +501,27 @@ export class IntentAnalysisSession {
 	 * @param client - OpenCode client instance
 	 * @param sessionId - Session ID from OpenCode
 	 * @param defaultModel - Default model configuration
+	 * @param responseTimeoutMs - Time to wait for an LLM response in milliseconds
+	 * @param repairAttempts - Times an invalid response is sent back for repair
+	 * @param modelLimits - Token limits of the default model, if known
+	 * @param contextWindowTokens - Configured context window, 0 to use the model's
 	 */
 	constructor(
 		client: OpencodeClient,
 		sessionId: string,
 		defaultModel: ModelConfig,
+		responseTimeoutMs: number = DEFAULT_RESPONSE_TIMEOUT_MS,
+		repairAttempts: number = DEFAULT_OUTPUT_REPAIR_ATTEMPTS,
+		modelLimits?: ModelLimits,
+		contextWindowTokens = 0,
 	) {
 		this.client = client;
 		this.sessionId = sessionId;
 		this.defaultModel = defaultModel;
+		this.responseTimeoutMs = responseTimeoutMs;
+		this.repairAttempts = repairAttempts;
+		this.modelLimits = modelLimits;
+		this.contextWindowTokens = contextWindowTokens;
 	}
 
 	/**
@@ -417,16 +531,87 @@ export class IntentAnalysisSession {
 		return this.sessionId;
 	}
 
+	/**
+	 * Compute how many tokens the next prompt may use.
+	 *
+	 * OpenCode sends the whole conversation and the output format system
+	 * prompt along with every prompt, so both are taken out of the context
+	 * window as well as the room for the response.
+	 *
+	 * @returns The prompt token budget, or undefined if the context window is unknown
+	 */
+	getPromptTokenBudget(): number | undefined {
+		const budget = getPromptTokenBudget(
+			this.contextWindowTokens,
+			this.modelLimits,
+		);
+		if (budget === undefined) {
+			return undefined;
+		}
+
+		return (
+			budget -
+			countTokens(buildOutputFormatInstructions()) -
+			this.conversationTokens
+		);
+	}
+
 	/**
 	 * Send a prompt to the session and get the response.
 	 *
+	 * The response is required to match the LLM output schema. When it does
+	 * not, the validation issues are sent back to the session and the model is
+	 * asked for a corrected response, up to the session's repair attempts.
+	 * Repairs stop early once the conversation leaves no room for another turn
+	 * in the context window.
+	 *
 	 * @param config - Prompt configuration
-	 * @returns Prompt result with raw and parsed output
+	 * @returns Prompt result with raw and parsed output of the last response
 	 * @throws {SessionError} If the prompt fails
 	 */
 	async prompt(config: PromptConfig): Promise<PromptResult> {
 		const model = config.model ?? this.defaultModel;
+		let result = await this.sendPrompt(config.prompt, model);
+
+		for (
+			let attempt = 1;
+			result.parseError !== undefined && attempt <= this.repairAttempts;
+			attempt++
+		) {
+			const repairContext = buildOutputRepairContext(result.parseError);
+			const budget = this.getPromptTokenBudget();
+			if (
+				budget !== undefined &&
+				countTokens(repairContext) + countTokens(OUTPUT_REPAIR_PROMPT) > budget
+			) {
+				core.warning(
+					`LLM response failed validation (${result.parseError}); the conversation is too long for the context window to request a corrected response`,
+				);
+				break;
+			}
+
+			core.warning(
+				`LLM response failed validation (${result.parseError}); requesting a corrected response (attempt ${attempt} of ${this.repairAttempts})`,
+			);
+			await this.injectContext(repairContext);
+			result = await this.sendPrompt(OUTPUT_REPAIR_PROMPT, model);
+		}
+
+		return result;
+	}
 
+	/**
+	 * Send a prompt and wait for a new completed assistant response.
+	 *
+	 * @param text - The prompt text to send
+	 * @param model - Model to answer with
+	 * @returns Prompt result with raw and parsed output
+	 * @throws {SessionError} If the prompt fails or times out
+	 */
+	private async sendPrompt(
+		text: string,
+		model: ModelConfig,
+	): Promise<PromptResult> {
 		try {
 			core.info(
 				`Sending prompt to session ${this.sessionId} with model ${model.providerID}/${model.modelID}`,
@@ -441,11 +626,14 @@ export class IntentAnalysisSession {
 						providerID: model.providerID,
 						modelID: model.modelID,
 					},
+					// The prompt API has no response format option, so the output
+					// schema is required through the system prompt instead
+					system: buildOutputFormatInstructions(),
 					tools: {}, // Disable all tools
 					parts: [
 						{
 							type: "text",
-							text: config.prompt,
+							text,
 						},
 					],
 				},
@@ -454,7 +642,7 @@ export class IntentAnalysisSession {
 			core.info("Prompt sent, waiting for LLM response...");
 
 			// Poll for the response by checking session messages
-			const maxWaitTime = 300000; // 5 minutes max wait
+			const maxWaitTime = this.responseTimeoutMs;
 			const pollInterval = 1000; // Check every 1 second
 			const startTime = Date.now();
 
@@ -479,7 +667,7 @@ export class IntentAnalysisSession {
 				const messages = (
 					Array.isArray(messagesData) ? messagesData : []
 				) as Array<{
-					info: { role: string; time?: { completed?: number } };
+					info: { id?: string; role: string; time?: { completed?: number } };
 					parts: Array<{ type: string; text?: string }>;
 				}>;
 
@@ -488,18 +676,25 @@ export class IntentAnalysisSession {
 					(m) => m.info.role === "assistant",
 				);
 				const latestAssistant = assistantMessages[assistantMessages.length - 1];
-				if (latestAssistant) {
+				// Skip the response to the previous prompt until the new one appears
+				const isPreviousResponse =
+					latestAssistant?.info.id !== undefined &&
+					latestAssistant.info.id === this.lastResponseId;
+				if (latestAssistant && !isPreviousResponse) {
 					// Check if the message is complete (has completed timestamp)
 					if (latestAssistant.info.time?.completed) {
 						core.info(
 							`LLM response completed after ${Date.now() - startTime}ms`,
 						);
+						this.lastResponseId = latestAssistant.info.id;
 
 						// Extract text from parts
 						const textParts = latestAssistant.parts
 							.filter((p) => p.type === "text" && p.text)
 							.map((p) => p.text as string);
 						const rawResponse = textParts.join("");
+						this.conversationTokens +=
+							countTokens(text) + countTokens(rawResponse);
 
 						// Try to parse as LLM output
 						const parseResult = parseRawLLMOutput(rawResponse);
@@ -596,6 +791,7 @@ export class IntentAnalysisSession {
 					],
 				},
 			});
+			this.conversationTokens += countTokens(context);
 		} catch (error) {
 			throw new SessionError(
 				`Failed to inject context into session ${this.sessionId}`,
@@ -757,8 +953,17 @@ export async function createIntentAnalysisSession(
 
 		// Extract session ID from response
 		const sessionId = extractSessionId(response);
-
-		return new IntentAnalysisSession(client, sessionId, config.model);
+		const modelLimits = await getModelLimits(client, config.model);
+
+		return new IntentAnalysisSession(
+			client,
+			sessionId,
+			config.model,
+			config.responseTimeoutMs,
+			config.repairAttempts,
+			modelLimits,
+			config.contextWindowTokens,
+		);
 	} catch (error) {
 		throw new SessionError(
 			`Failed to create intent analysis session: ${config.title}`,
@@ -775,6 +980,9 @@ export async function createIntentAnalysisSession(
  * @param client - OpenCode client instance
  * @param title - Session title
  * @param model - Model string (e.g., "anthropic/claude-sonnet-4-20250514")
+ * @param responseTimeoutMs - Time to wait for an LLM response in milliseconds
+ * @param repairAttempts - Times an invalid response is sent back for repair
+ * @param contextWindowTokens - Context window in tokens, 0 to use the model's
  * @returns Intent analysis session wrapper
  * @throws {SessionError} If model parsing or session creation fails
  */
@@ -782,11 +990,17 @@ export async function createSessionFromModelString(
 	client: OpencodeClient,
 	title: string,
 	model: string,
+	responseTimeoutMs?: number,
+	repairAttempts?: number,
+	contextWindowTokens?: number,
 ): Promise<IntentAnalysisSession> {
 	const modelConfig = parseModelString(model);
 	return createIntentAnalysisSession(client, {
 		title,
 		model: modelConfig,
+		responseTimeoutMs,
+		repairAttempts,
+		contextWindowTokens,
 	});
 }
 
@@ -832,6 +1046,17 @@ export function buildSessionTitle(prNumber: number, repoName?: string): string {
 	return repoName ? `${base} (${repoName})` : base;
 }
 
+/**
+ * Build a session title for a repository audit.
+ *
+ * @param repoName - Optional repository name
+ * @returns Session title string
+ */
+export function buildAuditSessionTitle(repoName?: string): string {
+	const base = "Intent Layer Audit";
+	return repoName ? `${base} (${repoName})` : base;
+}
+
 /**
  * Handle a model access error by failing the GitHub Action with a clear error message.
  *
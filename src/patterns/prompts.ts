@@ -1,6 +1,7 @@
 import { minimatch } from "minimatch";
 import YAML from "yaml";
 import type { PromptConfig } from "../config/schema";
+import type { IntentFileType } from "../intent/kinds";
 
 /**
  * Result of resolving prompts for a file path.
@@ -257,15 +258,14 @@ export class PatternMatchedPromptResolver {
 	/**
 	 * Get the prompt text for a specific file type.
 	 * Falls back to the general 'prompt' if a type-specific prompt is not provided.
+	 * Only AGENTS.md and CLAUDE.md have type-specific prompts; other kinds use
+	 * the general prompt.
 	 *
 	 * @param filePath - Relative file path to resolve prompts for
-	 * @param fileType - Which file type: 'agents' or 'claude'
+	 * @param fileType - Which intent file type
 	 * @returns The prompt text for the file type, or null if no matching prompt
 	 */
-	getPromptForFile(
-		filePath: string,
-		fileType: "agents" | "claude",
-	): string | null {
+	getPromptForFile(filePath: string, fileType: IntentFileType): string | null {
 		const resolved = this.resolve(filePath);
 		if (!resolved) {
 			return null;
@@ -274,7 +274,10 @@ export class PatternMatchedPromptResolver {
 		if (fileType === "agents") {
 			return resolved.agents_prompt ?? resolved.prompt ?? null;
 		}
-		return resolved.claude_prompt ?? resolved.prompt ?? null;
+		if (fileType === "claude") {
+			return resolved.claude_prompt ?? resolved.prompt ?? null;
+		}
+		return resolved.prompt ?? null;
 	}
 
 	/**
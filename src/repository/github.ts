@@ -0,0 +1,214 @@
+/**
+ * GitHub Repository Source
+ *
+ * RepositorySource backed by the GitHub REST API through a GitHubClient.
+ */
+
+import type { GitHubClient } from "../github/client";
+import {
+	type PRCommit,
+	type PRDiff,
+	summarizeChangedFiles,
+	toPRChangedFile,
+	toPRCommit,
+} from "../github/context";
+import {
+	isWithinPath,
+	type PathHistoryCommit,
+	type RepositorySource,
+	type RepositoryTreeEntry,
+} from "./source";
+
+/**
+ * Maximum commits GitHub returns in a single commit listing page.
+ */
+const MAX_COMMITS_PER_PAGE = 100;
+
+/**
+ * Error thrown when the GitHub API cannot return complete repository data.
+ */
+export class RepositoryTreeTooLargeError extends Error {
+	public readonly originalCause?: unknown;
+
+	constructor(message: string, cause?: unknown) {
+		super(message);
+		this.name = "RepositoryTreeTooLargeError";
+		this.originalCause = cause;
+	}
+}
+
+/**
+ * Repository source that reads through the GitHub REST API.
+ */
+export class GitHubRepositorySource implements RepositorySource {
+	private readonly client: GitHubClient;
+	/** Changed files of commits already fetched, keyed by SHA */
+	private readonly commitFiles = new Map<
+		string,
+		Promise<PathHistoryCommit["files"]>
+	>();
+
+	constructor(client: GitHubClient) {
+		this.client = client;
+	}
+
+	async resolveRef(ref: string): Promise<string> {
+		const commit = await this.client.getCommit(ref);
+		return commit.sha;
+	}
+
+	/**
+	 * @throws {RepositoryTreeTooLargeError} If GitHub truncates the tree listing
+	 */
+	async listTree(ref: string): Promise<RepositoryTreeEntry[]> {
+		const commit = await this.client.getCommit(ref);
+		const tree = await this.client.getTree(commit.commit.tree.sha, true);
+
+		if (tree.truncated) {
+			throw new RepositoryTreeTooLargeError(
+				`Repository tree at ${ref} is too large to list in a single request`,
+			);
+		}
+
+		const entries: RepositoryTreeEntry[] = [];
+		for (const item of tree.tree) {
+			if (!item.path || !item.sha || !item.type || !item.mode) {
+				continue;
+			}
+			entries.push({
+				path: item.path,
+				type: item.type,
+				mode: item.mode,
+				sha: item.sha,
+				size: item.size,
+			});
+		}
+		return entries;
+	}
+
+	async readBlob(sha: string): Promise<string> {
+		const blob = await this.client.getBlob(sha);
+		// Blob content is base64 encoded
+		return Buffer.from(blob.content, "base64").toString("utf-8");
+	}
+
+	async readFile(path: string, ref: string): Promise<string | undefined> {
+		const data = await this.getContent(path, ref);
+		if (!data || Array.isArray(data) || !("content" in data)) {
+			return undefined;
+		}
+		return Buffer.from(data.content, "base64").toString("utf-8");
+	}
+
+	async getFileSha(path: string, ref: string): Promise<string | undefined> {
+		const data = await this.getContent(path, ref);
+		// Directory listings have no single file SHA
+		if (!data || Array.isArray(data)) {
+			return undefined;
+		}
+		return data.sha;
+	}
+
+	async getDiff(base: string, head: string): Promise<PRDiff> {
+		const comparison = await this.client.compareCommits(base, head);
+		const files = (comparison.files ?? []).map(toPRChangedFile);
+		return {
+			files,
+			summary: summarizeChangedFiles(files),
+			rawDiff: null,
+		};
+	}
+
+	async getCommits(base: string, head: string): Promise<PRCommit[]> {
+		const comparison = await this.client.compareCommits(base, head);
+		return comparison.commits.map(toPRCommit);
+	}
+
+	/**
+	 * Commits are listed in one page, so at most 100 are returned. Changed
+	 * files are fetched per commit and cached, since node histories overlap.
+	 */
+	async getPathHistory(
+		path: string,
+		ref: string,
+		limit: number,
+	): Promise<PathHistoryCommit[]> {
+		const commits = await this.client.listCommits(
+			ref,
+			path,
+			Math.min(limit, MAX_COMMITS_PER_PAGE),
+		);
+
+		const history: PathHistoryCommit[] = [];
+		for (const commit of commits.slice(0, limit)) {
+			const files = (await this.getCommitFiles(commit.sha)).filter((file) =>
+				isWithinPath(file.filename, path),
+			);
+			history.push({ sha: commit.sha, files });
+		}
+		return history;
+	}
+
+	/**
+	 * Fetch the changed files of a commit, splitting renames into a removal
+	 * and an addition.
+	 */
+	private getCommitFiles(sha: string): Promise<PathHistoryCommit["files"]> {
+		let files = this.commitFiles.get(sha);
+		if (!files) {
+			files = this.client.getCommit(sha).then((commit) =>
+				(commit.files ?? []).flatMap((file) =>
+					file.status === "renamed" && file.previous_filename
+						? [
+								{
+									filename: file.previous_filename,
+									status: "removed" as const,
+									additions: 0,
+									deletions: 0,
+								},
+								{
+									filename: file.filename,
+									status: "added" as const,
+									additions: file.additions,
+									deletions: file.deletions,
+								},
+							]
+						: [
+								{
+									filename: file.filename,
+									status: file.status,
+									additions: file.additions,
+									deletions: file.deletions,
+								},
+							],
+				),
+			);
+			this.commitFiles.set(sha, files);
+		}
+		return files;
+	}
+
+	/**
+	 * Fetch contents API data for a path, treating 404 as missing.
+	 */
+	private async getContent(path: string, ref: string) {
+		try {
+			return await this.client.getFileContent(path, ref);
+		} catch (error) {
+			if (isNotFoundError(error)) {
+				return undefined;
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Check if an error is a GitHub 404 Not Found error.
+ */
+function isNotFoundError(error: unknown): boolean {
+	if (error && typeof error === "object" && "status" in error) {
+		return (error as { status: number }).status === 404;
+	}
+	return false;
+}
@@ -0,0 +1,311 @@
+/**
+ * In-Memory Repository Source
+ *
+ * RepositorySource backed by plain objects describing commits and their
+ * files. Used as a fixture in tests and for dry runs that should not touch
+ * git or the network. Blob SHAs are computed the same way git computes them.
+ */
+
+import { createHash } from "node:crypto";
+import { createPatch } from "diff";
+import {
+	type PRChangedFile,
+	type PRCommit,
+	type PRDiff,
+	summarizeChangedFiles,
+} from "../github/context";
+import { calculateDiffStats } from "../utils/diff";
+import {
+	isWithinPath,
+	type PathHistoryCommit,
+	type RepositorySource,
+	type RepositoryTreeEntry,
+	SYMLINK_MODE,
+} from "./source";
+
+/**
+ * A file in an in-memory commit: plain content, or a symlink to a target path.
+ */
+export type InMemoryFile = string | { symlink: string };
+
+/**
+ * A commit in an in-memory repository.
+ */
+export interface InMemoryCommit {
+	/** Commit SHA (any unique string) */
+	sha: string;
+	/** Parent commit SHAs (first parent is followed for history) */
+	parents?: string[];
+	/** Commit message */
+	message?: string;
+	/** Files in the commit's tree, keyed by path */
+	files: Record<string, InMemoryFile>;
+}
+
+/**
+ * Error thrown when an in-memory ref or object does not exist.
+ */
+export class InMemoryObjectNotFoundError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "InMemoryObjectNotFoundError";
+	}
+}
+
+/**
+ * Repository source that serves commits held in memory.
+ */
+export class InMemoryRepositorySource implements RepositorySource {
+	private readonly commits = new Map<string, InMemoryCommit>();
+	private readonly refs: Map<string, string>;
+	private readonly blobs = new Map<string, string>();
+
+	/**
+	 * @param commits - Commits in the repository
+	 * @param refs - Named refs (branches, tags) mapped to commit SHAs
+	 */
+	constructor(commits: InMemoryCommit[], refs: Record<string, string> = {}) {
+		for (const commit of commits) {
+			this.commits.set(commit.sha, commit);
+			for (const file of Object.values(commit.files)) {
+				const content = getFileContent(file);
+				this.blobs.set(hashBlob(content), content);
+			}
+		}
+		this.refs = new Map(Object.entries(refs));
+	}
+
+	async resolveRef(ref: string): Promise<string> {
+		return this.getCommit(ref).sha;
+	}
+
+	async listTree(ref: string): Promise<RepositoryTreeEntry[]> {
+		const commit = this.getCommit(ref);
+		const entries: RepositoryTreeEntry[] = [];
+		const directories = new Set<string>();
+
+		for (const [path, file] of Object.entries(commit.files)) {
+			const content = getFileContent(file);
+			entries.push({
+				path,
+				type: "blob",
+				mode: typeof file === "string" ? "100644" : SYMLINK_MODE,
+				sha: hashBlob(content),
+				size: Buffer.byteLength(content),
+			});
+
+			const segments = path.split("/");
+			for (let i = 1; i < segments.length; i++) {
+				directories.add(segments.slice(0, i).join("/"));
+			}
+		}
+
+		for (const directory of directories) {
+			entries.push({
+				path: directory,
+				type: "tree",
+				mode: "040000",
+				sha: hashBlob(`tree:${commit.sha}:${directory}`),
+			});
+		}
+
+		return entries.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	async readBlob(sha: string): Promise<string> {
+		const content = this.blobs.get(sha);
+		if (content === undefined) {
+			throw new InMemoryObjectNotFoundError(`Blob ${sha} not found`);
+		}
+		return content;
+	}
+
+	async readFile(path: string, ref: string): Promise<string | undefined> {
+		const file = this.getCommit(ref).files[path];
+		return file === undefined ? undefined : getFileContent(file);
+	}
+
+	async getFileSha(path: string, ref: string): Promise<string | undefined> {
+		const file = this.getCommit(ref).files[path];
+		return file === undefined ? undefined : hashBlob(getFileContent(file));
+	}
+
+	async getDiff(base: string, head: string): Promise<PRDiff> {
+		const baseFiles = this.getCommit(this.getMergeBase(base, head)).files;
+		const headFiles = this.getCommit(head).files;
+		const paths = [
+			...new Set([...Object.keys(baseFiles), ...Object.keys(headFiles)]),
+		].sort();
+
+		const files: PRChangedFile[] = [];
+		for (const path of paths) {
+			const before = baseFiles[path];
+			const after = headFiles[path];
+			const oldContent = before === undefined ? "" : getFileContent(before);
+			const newContent = after === undefined ? "" : getFileContent(after);
+			if (before !== undefined && after !== undefined) {
+				if (oldContent === newContent) continue;
+			}
+
+			const stats = calculateDiffStats(oldContent, newContent);
+			const patch = createPatch(path, oldContent, newContent);
+			const hunkStart = patch.search(/^@@/m);
+			files.push({
+				sha: hashBlob(after === undefined ? oldContent : newContent),
+				filename: path,
+				status:
+					before === undefined
+						? "added"
+						: after === undefined
+							? "removed"
+							: "modified",
+				additions: stats.additions,
+				deletions: stats.deletions,
+				changes: stats.totalChanges,
+				blobUrl: "",
+				rawUrl: "",
+				contentsUrl: "",
+				patch: hunkStart === -1 ? null : patch.slice(hunkStart).trimEnd(),
+				previousFilename: null,
+			});
+		}
+
+		return {
+			files,
+			summary: summarizeChangedFiles(files),
+			rawDiff: null,
+		};
+	}
+
+	async getCommits(base: string, head: string): Promise<PRCommit[]> {
+		const mergeBase = this.getMergeBase(base, head);
+		const commits: PRCommit[] = [];
+
+		for (const commit of this.getFirstParentHistory(head)) {
+			if (commit.sha === mergeBase) break;
+			commits.push({
+				sha: commit.sha,
+				message: commit.message ?? "",
+				author: { name: "", email: "", date: "" },
+				committer: { name: "", email: "", date: "" },
+				gitHubAuthor: null,
+				gitHubCommitter: null,
+				url: "",
+				commentCount: 0,
+				parentShas: commit.parents ?? [],
+			});
+		}
+
+		return commits.reverse();
+	}
+
+	async getPathHistory(
+		path: string,
+		ref: string,
+		limit: number,
+	): Promise<PathHistoryCommit[]> {
+		const history: PathHistoryCommit[] = [];
+
+		for (const commit of this.getFirstParentHistory(ref)) {
+			if (history.length >= limit) break;
+
+			const parent = commit.parents?.[0];
+			const before = parent ? (this.commits.get(parent)?.files ?? {}) : {};
+			const after = commit.files;
+			const paths = [
+				...new Set([...Object.keys(before), ...Object.keys(after)]),
+			]
+				.filter((filePath) => isWithinPath(filePath, path))
+				.sort();
+
+			const files: PathHistoryCommit["files"] = [];
+			for (const filePath of paths) {
+				const oldFile = before[filePath];
+				const newFile = after[filePath];
+				const oldContent = oldFile === undefined ? "" : getFileContent(oldFile);
+				const newContent = newFile === undefined ? "" : getFileContent(newFile);
+				if (
+					oldFile !== undefined &&
+					newFile !== undefined &&
+					oldContent === newContent
+				) {
+					continue;
+				}
+
+				const stats = calculateDiffStats(oldContent, newContent);
+				files.push({
+					filename: filePath,
+					status:
+						oldFile === undefined
+							? "added"
+							: newFile === undefined
+								? "removed"
+								: "modified",
+					additions: stats.additions,
+					deletions: stats.deletions,
+				});
+			}
+
+			if (files.length > 0) {
+				history.push({ sha: commit.sha, files });
+			}
+		}
+
+		return history;
+	}
+
+	/**
+	 * Look up a commit by ref name or SHA.
+	 */
+	private getCommit(ref: string): InMemoryCommit {
+		const commit = this.commits.get(this.refs.get(ref) ?? ref);
+		if (!commit) {
+			throw new InMemoryObjectNotFoundError(`Ref ${ref} not found`);
+		}
+		return commit;
+	}
+
+	/**
+	 * Walk first parents from a ref, starting with the ref's own commit.
+	 */
+	private *getFirstParentHistory(ref: string): Generator<InMemoryCommit> {
+		let commit: InMemoryCommit | undefined = this.getCommit(ref);
+		while (commit) {
+			yield commit;
+			const parent: string | undefined = commit.parents?.[0];
+			commit = parent ? this.commits.get(parent) : undefined;
+		}
+	}
+
+	/**
+	 * Find the first commit on head's first-parent history that base also has.
+	 */
+	private getMergeBase(base: string, head: string): string {
+		const baseHistory = new Set(
+			[...this.getFirstParentHistory(base)].map((commit) => commit.sha),
+		);
+		for (const commit of this.getFirstParentHistory(head)) {
+			if (baseHistory.has(commit.sha)) {
+				return commit.sha;
+			}
+		}
+		return this.getCommit(base).sha;
+	}
+}
+
+/**
+ * Get the blob content stored for a file (symlinks store their target).
+ */
+function getFileContent(file: InMemoryFile): string {
+	return typeof file === "string" ? file : file.symlink;
+}
+
+/**
+ * Compute the git blob SHA for content.
+ */
+function hashBlob(content: string): string {
+	return createHash("sha1")
+		.update(`blob ${Buffer.byteLength(content)}\0`)
+		.update(content)
+		.digest("hex");
+}
@@ -0,0 +1,43 @@
+/**
+ * Repository Source Selection
+ *
+ * Chooses where the action reads repository data from. When the workflow
+ * has already checked out a clone that contains the analyzed commit (for
+ * example with `actions/checkout` and `fetch-depth: 0`), reads go to the
+ * local clone instead of the GitHub API.
+ */
+
+import * as core from "@actions/core";
+import type { GitHubClient } from "../github/client";
+import { LocalGitRepository } from "../local/git";
+import { GitHubRepositorySource } from "./github";
+import type { RepositorySource } from "./source";
+
+/**
+ * Create the repository source used by the action.
+ *
+ * @param client - GitHub client, used when no suitable checkout exists
+ * @param commitSha - Commit the analysis reads from
+ * @param workspace - Directory of the checkout (defaults to GITHUB_WORKSPACE)
+ * @returns Local git source if the checkout has the commit, otherwise the GitHub API source
+ */
+export async function createRepositorySource(
+	client: GitHubClient,
+	commitSha: string,
+	workspace: string | undefined = process.env.GITHUB_WORKSPACE,
+): Promise<RepositorySource> {
+	if (workspace) {
+		try {
+			const local = await LocalGitRepository.open(workspace);
+			await local.resolveRef(commitSha);
+			core.info(`Reading repository data from local checkout at ${local.root}`);
+			return local;
+		} catch {
+			core.debug(
+				`Commit ${commitSha} is not available in ${workspace}, reading repository data from the GitHub API`,
+			);
+		}
+	}
+
+	return new GitHubRepositorySource(client);
+}
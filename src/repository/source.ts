@@ -0,0 +1,115 @@
+/**
+ * Repository Data Source
+ *
+ * Read-only view of a repository's trees, blobs, diffs and commits. The
+ * detector, budget evaluation, staleness scoring and node content loading
+ * read through this interface so they can run against the GitHub REST API, a
+ * local git checkout, or an in-memory fixture.
+ */
+
+import type { PRChangedFile, PRCommit, PRDiff } from "../github/context";
+
+/**
+ * Git file mode for symbolic links.
+ */
+export const SYMLINK_MODE = "120000";
+
+/**
+ * An entry from a recursive tree listing.
+ */
+export interface RepositoryTreeEntry {
+	/** Path relative to repository root */
+	path: string;
+	/** Object type (blob, tree, or commit for submodules) */
+	type: string;
+	/** Git file mode (e.g. "100644", "120000") */
+	mode: string;
+	/** Git object SHA */
+	sha: string;
+	/** Blob size in bytes, when known */
+	size?: number;
+}
+
+/**
+ * A commit from the history of a path, with the changes it made there.
+ */
+export interface PathHistoryCommit {
+	/** Commit SHA */
+	sha: string;
+	/** Files the commit changed under the path */
+	files: Array<
+		Pick<PRChangedFile, "filename" | "status" | "additions" | "deletions">
+	>;
+}
+
+/**
+ * Read-only access to repository contents.
+ */
+export interface RepositorySource {
+	/**
+	 * Resolve a ref (branch, tag, or SHA) to a commit SHA.
+	 *
+	 * @throws If the ref does not name a commit
+	 */
+	resolveRef(ref: string): Promise<string>;
+
+	/**
+	 * List every entry in the tree of a commit, recursively.
+	 */
+	listTree(ref: string): Promise<RepositoryTreeEntry[]>;
+
+	/**
+	 * Read a blob's content as UTF-8.
+	 */
+	readBlob(sha: string): Promise<string>;
+
+	/**
+	 * Read a file's content at a ref.
+	 *
+	 * @returns File content, or undefined if the path is not a file at ref
+	 */
+	readFile(path: string, ref: string): Promise<string | undefined>;
+
+	/**
+	 * Get the blob SHA of a file at a ref.
+	 *
+	 * @returns Blob SHA, or undefined if the path is not a file at ref
+	 */
+	getFileSha(path: string, ref: string): Promise<string | undefined>;
+
+	/**
+	 * Compute the changes on head since its merge base with base.
+	 */
+	getDiff(base: string, head: string): Promise<PRDiff>;
+
+	/**
+	 * List the commits reachable from head but not from base, oldest first.
+	 */
+	getCommits(base: string, head: string): Promise<PRCommit[]>;
+
+	/**
+	 * List the commits reachable from ref that changed a file or anything
+	 * under a directory, newest first. Renames are reported as a removal and
+	 * an addition.
+	 *
+	 * @param path - File or directory path (empty string for the whole repository)
+	 * @param ref - Ref to walk history from
+	 * @param limit - Maximum number of commits to return
+	 */
+	getPathHistory(
+		path: string,
+		ref: string,
+		limit: number,
+	): Promise<PathHistoryCommit[]>;
+}
+
+/**
+ * Check whether a file is a path or lies under it.
+ *
+ * @param filePath - File path relative to repository root
+ * @param path - File or directory path (empty string for the whole repository)
+ * @returns True if the file is the path or inside it
+ */
+export function isWithinPath(filePath: string, path: string): boolean {
+	return path === "" || filePath === path || filePath.startsWith(`${path}/`);
+}
@@ -6,13 +6,13 @@
  *
  * When `output: new_pr`:
  * 1. Create a separate branch (`intent-layer/<pr-number>`)
- * 2. Apply all suggested changes to that branch (no approval checkboxes needed)
+ * 2. Apply all suggested changes to that branch in a single commit (no approval checkboxes needed)
  * 3. Open a PR targeting the original PR's branch
  * 4. Post a single comment on the original PR linking to the intent layer PR
  */
 
 import { describe, expect, mock, test } from "bun:test";
-import type { GitHubClient } from "../../src/github/client";
+import type { FileChange, GitHubClient } from "../../src/github/client";
 import {
 	generateIntentLayerLinkComment,
 	hasIntentLayerLinkMarker,
@@ -27,6 +27,8 @@ import {
 	generateIntentLayerPRTitle,
 	openIntentLayerPullRequest,
 } from "../../src/github/commits";
+import type { PRMetadata } from "../../src/github/context";
+import { resolveOutputTarget } from "../../src/github/fork";
 import type { IntentUpdate } from "../../src/opencode/output-schema";
 import { createMockGitHubClient, errors } from "../mocks";
 
@@ -48,6 +50,14 @@ function createMockClient(overrides: Record<string, unknown> = {}) {
 				sha: "blobsha123",
 			},
 		})),
+		getRef: mock(async (ref: string) => ({
+			ref: `refs/${ref}`,
+			object: { sha: "headsha123", type: "commit" },
+		})),
+		commitFileChanges: mock(async () => ({
+			sha: "newcommitsha123",
+			url: "https://github.com/owner/repo/commit/newcommitsha123",
+		})),
 		createBranch: mock(async (branchName: string, baseSha: string) => ({
 			ref: `refs/heads/${branchName}`,
 			object: { sha: baseSha, type: "commit" },
@@ -110,11 +120,81 @@ describe("Integration: output new_pr mode", () => {
 			expect(generateIntentLayerBranchName(42)).toBe("intent-layer/42");
 			expect(generateIntentLayerBranchName(9999)).toBe("intent-layer/9999");
 		});
+
+		test("starts a fork PR's branch at the base commit, not the fork's head", async () => {
+			const prMetadata: PRMetadata = {
+				number: 42,
+				title: "Fork PR",
+				description: null,
+				labels: [],
+				author: { login: "contributor", id: 2, avatarUrl: "", isBot: false },
+				state: "open",
+				isDraft: false,
+				merged: false,
+				baseBranch: "main",
+				headBranch: "patch-1",
+				headSha: "fork-head-sha",
+				headRepo: "contributor/repo",
+				isFork: true,
+				baseSha: "base-sha-def456",
+				createdAt: "",
+				updatedAt: "",
+				commitsCount: 1,
+				changedFilesCount: 1,
+				additions: 1,
+				deletions: 0,
+				url: "",
+			};
+			const mockCreateBranch = mock(
+				async (branchName: string, sha: string) => ({
+					ref: `refs/heads/${branchName}`,
+					object: { sha, type: "commit" },
+				}),
+			);
+			const mockCommitFileChanges = mock(
+				async (
+					_changes: FileChange[],
+					_message: string,
+					_branch: string,
+					_parentSha: string,
+				) => ({ sha: "intentsha", url: "" }),
+			);
+			const client = createMockClient({
+				createBranch: mockCreateBranch,
+				commitFileChanges: mockCommitFileChanges,
+			});
+
+			const target = resolveOutputTarget("new_pr", prMetadata);
+			const branchResult = await createIntentLayerBranch(
+				client,
+				prMetadata.number,
+				target.newPrStartSha,
+			);
+			await applyUpdatesToBranch(
+				client,
+				[
+					{
+						nodePath: "AGENTS.md",
+						action: "create",
+						reason: "Initialize intent layer",
+						suggestedContent: "# Root\n",
+					},
+				],
+				{ branch: branchResult.branchName, expectedHeadSha: branchResult.sha },
+			);
+
+			expect(mockCreateBranch).toHaveBeenCalledWith(
+				"intent-layer/42",
+				"base-sha-def456",
+			);
+			expect(branchResult.sha).not.toBe(prMetadata.headSha);
+			expect(mockCommitFileChanges.mock.calls[0]?.[3]).toBe("base-sha-def456");
+			expect(target.newPrBaseBranch).toBe("main");
+		});
 	});
 
 	describe("Applying updates to branch", () => {
-		test("applies multiple intent updates without approval checkboxes", async () => {
-			let commitCount = 0;
+		test("applies multiple intent updates in a single commit", async () => {
 			const mockGetFileContent = mock(async () => {
 				const error = new Error("Not Found") as Error & { status: number };
 				error.status = 404;
@@ -122,20 +202,21 @@ describe("Integration: output new_pr mode", () => {
 			});
 
 			const createdFiles: string[] = [];
-			const mockCreateOrUpdateFile = mock(async (path: string) => {
-				createdFiles.push(path);
-				return {
-					commit: {
-						sha: `sha${++commitCount}`,
-						html_url: `https://github.com/commit/sha${commitCount}`,
-					},
-					content: { sha: "blobsha" },
-				};
-			});
+			const mockCommitFileChanges = mock(
+				async (changes: FileChange[], _message: string, _branch: string) => {
+					for (const change of changes) {
+						createdFiles.push(change.path);
+					}
+					return {
+						sha: "batchsha",
+						url: "https://github.com/commit/batchsha",
+					};
+				},
+			);
 
 			const client = createMockClient({
 				getFileContent: mockGetFileContent,
-				createOrUpdateFile: mockCreateOrUpdateFile,
+				commitFileChanges: mockCommitFileChanges,
 			});
 
 			const updates: IntentUpdate[] = [
@@ -166,6 +247,11 @@ describe("Integration: output new_pr mode", () => {
 			expect(result.appliedCount).toBe(3);
 			expect(result.totalCount).toBe(3);
 			expect(result.errors).toHaveLength(0);
+			expect(result.commit?.sha).toBe("batchsha");
+			expect(result.commit?.message).toBe(
+				"[INTENT] apply intent layer updates",
+			);
+			expect(mockCommitFileChanges).toHaveBeenCalledTimes(1);
 			expect(createdFiles).toContain("AGENTS.md");
 			expect(createdFiles).toContain("packages/api/AGENTS.md");
 			expect(createdFiles).toContain("packages/core/AGENTS.md");
@@ -189,18 +275,14 @@ describe("Integration: output new_pr mode", () => {
 				throw error;
 			});
 
-			let commitCount = 0;
-			const mockCreateOrUpdateFile = mock(async () => ({
-				commit: {
-					sha: `sha${++commitCount}`,
-					html_url: `https://github.com/commit/sha${commitCount}`,
-				},
-				content: { sha: "blobsha" },
+			const mockCommitFileChanges = mock(async () => ({
+				sha: "batchsha",
+				url: "https://github.com/commit/batchsha",
 			}));
 
 			const client = createMockClient({
 				getFileContent: mockGetFileContent,
-				createOrUpdateFile: mockCreateOrUpdateFile,
+				commitFileChanges: mockCommitFileChanges,
 			});
 
 			const updates: IntentUpdate[] = [
@@ -226,9 +308,21 @@ describe("Integration: output new_pr mode", () => {
 			expect(result.appliedCount).toBe(2);
 			expect(result.totalCount).toBe(2);
 			expect(result.errors).toHaveLength(0);
+			expect(mockCommitFileChanges).toHaveBeenCalledWith(
+				[
+					{
+						path: "AGENTS.md",
+						content: "# Updated Root\n\nNew content.\n",
+					},
+					{ path: "packages/new/AGENTS.md", content: "# New Package\n" },
+				],
+				"[INTENT] apply intent layer updates",
+				"intent-layer/42",
+				"headsha123",
+			);
 		});
 
-		test("continues applying updates even if one fails", async () => {
+		test("applies nothing if any update fails", async () => {
 			const mockGetFileContent = mock(async (path: string) => {
 				if (path === "packages/failing/AGENTS.md") {
 					// This file doesn't exist but we're trying to update it (will fail)
@@ -242,17 +336,14 @@ describe("Integration: output new_pr mode", () => {
 				throw error;
 			});
 
-			const mockCreateOrUpdateFile = mock(async () => ({
-				commit: {
-					sha: "successsha",
-					html_url: "https://github.com/commit/successsha",
-				},
-				content: { sha: "blobsha" },
+			const mockCommitFileChanges = mock(async () => ({
+				sha: "successsha",
+				url: "https://github.com/commit/successsha",
 			}));
 
 			const client = createMockClient({
 				getFileContent: mockGetFileContent,
-				createOrUpdateFile: mockCreateOrUpdateFile,
+				commitFileChanges: mockCommitFileChanges,
 			});
 
 			const updates: IntentUpdate[] = [
@@ -265,7 +356,7 @@ describe("Integration: output new_pr mode", () => {
 				},
 				{
 					nodePath: "packages/success/AGENTS.md",
-					action: "create", // Will succeed
+					action: "create", // Valid, but not applied alone
 					reason: "This should succeed",
 					suggestedContent: "# Success\n",
 				},
@@ -273,16 +364,16 @@ describe("Integration: output new_pr mode", () => {
 
 			const result = await applyUpdatesToBranch(client, updates, {
 				branch: "intent-layer/42",
-				stopOnError: false, // Continue on errors
 			});
 
-			expect(result.appliedCount).toBe(1);
+			expect(result.appliedCount).toBe(0);
 			expect(result.totalCount).toBe(2);
 			expect(result.errors).toHaveLength(1);
 			expect(result.errors[0]?.update.nodePath).toBe(
 				"packages/failing/AGENTS.md",
 			);
-			expect(result.commits[0]?.filePath).toBe("packages/success/AGENTS.md");
+			expect(result.commit).toBeUndefined();
+			expect(mockCommitFileChanges).not.toHaveBeenCalled();
 		});
 	});
 
@@ -506,16 +597,22 @@ describe("Integration: output new_pr mode", () => {
 				throw error;
 			});
 
-			const mockCreateOrUpdateFile = mock(async (path: string) => {
-				operations.push(`apply-update:${path}`);
-				return {
-					commit: {
+			const mockCommitFileChanges = mock(
+				async (
+					changes: FileChange[],
+					_message: string,
+					_branch: string,
+					expectedHeadSha?: string,
+				) => {
+					operations.push(
+						`apply-updates@${expectedHeadSha}:${changes.map((c) => c.path).join(",")}`,
+					);
+					return {
 						sha: "commitsha",
-						html_url: "https://github.com/commit/commitsha",
-					},
-					content: { sha: "blobsha" },
-				};
-			});
+						url: "https://github.com/commit/commitsha",
+					};
+				},
+			);
 
 			const mockCreatePullRequest = mock(
 				async (title: string, _body: string, head: string, _base: string) => {
@@ -544,7 +641,7 @@ describe("Integration: output new_pr mode", () => {
 			const client = createMockClient({
 				createBranch: mockCreateBranch,
 				getFileContent: mockGetFileContent,
-				createOrUpdateFile: mockCreateOrUpdateFile,
+				commitFileChanges: mockCommitFileChanges,
 				createPullRequest: mockCreatePullRequest,
 				getIssueComments: mockGetIssueComments,
 				createComment: mockCreateComment,
@@ -576,6 +673,7 @@ describe("Integration: output new_pr mode", () => {
 
 			const applyResult = await applyUpdatesToBranch(client, updates, {
 				branch: branchResult.branchName,
+				expectedHeadSha: branchResult.sha,
 			});
 			expect(applyResult.appliedCount).toBe(2);
 
@@ -599,8 +697,7 @@ describe("Integration: output new_pr mode", () => {
 			// Verify operation order
 			expect(operations).toEqual([
 				"create-branch:intent-layer/42",
-				"apply-update:AGENTS.md",
-				"apply-update:packages/api/AGENTS.md",
+				"apply-updates@base-sha:AGENTS.md,packages/api/AGENTS.md",
 				"create-pr:intent-layer/42",
 				"get-comments",
 				"create-link-comment",
@@ -619,7 +716,7 @@ describe("Integration: output new_pr mode", () => {
 			expect(applyResult.appliedCount).toBe(0);
 			expect(applyResult.totalCount).toBe(0);
 			expect(applyResult.errors).toHaveLength(0);
-			expect(applyResult.commits).toHaveLength(0);
+			expect(applyResult.commit).toBeUndefined();
 		});
 
 		test("symlink options are passed through to apply updates", async () => {
@@ -629,28 +726,20 @@ describe("Integration: output new_pr mode", () => {
 				throw error;
 			});
 
-			const filesCreated: Array<{
-				path: string;
-				content: string;
-				isSymlink: boolean;
-			}> = [];
-			const mockCreateFilesWithSymlinks = mock(
-				async (
-					files: Array<{ path: string; content: string; isSymlink: boolean }>,
-				) => {
-					for (const f of files) {
-						filesCreated.push(f);
-					}
-					return {
-						sha: "symlinksha",
-						url: "https://github.com/commit/symlinksha",
-					};
-				},
-			);
+			const filesCreated: FileChange[] = [];
+			const mockCommitFileChanges = mock(async (files: FileChange[]) => {
+				for (const f of files) {
+					filesCreated.push(f);
+				}
+				return {
+					sha: "symlinksha",
+					url: "https://github.com/commit/symlinksha",
+				};
+			});
 
 			const client = createMockClient({
 				getFileContent: mockGetFileContent,
-				createFilesWithSymlinks: mockCreateFilesWithSymlinks,
+				commitFileChanges: mockCommitFileChanges,
 			});
 
 			const updates: IntentUpdate[] = [
@@ -670,7 +759,7 @@ describe("Integration: output new_pr mode", () => {
 			});
 
 			expect(result.appliedCount).toBe(1);
-			expect(mockCreateFilesWithSymlinks).toHaveBeenCalled();
+			expect(mockCommitFileChanges).toHaveBeenCalledTimes(1);
 			expect(filesCreated.length).toBe(2);
 
 			// AGENTS.md should be source
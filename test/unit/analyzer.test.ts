@@ -1,4 +1,5 @@
 import { describe, expect, test } from "bun:test";
+import { DEFAULTS } from "../../src/config/defaults";
 import type { PRChangedFile, PRDiff } from "../../src/github/context";
 import {
 	determineNodesNeedingUpdate,
@@ -144,6 +145,38 @@ describe("mapChangedFileToCoveringNode", () => {
 
 		expect(result.coveringNode?.file.path).toBe("src/AGENTS.md");
 	});
+
+	test("records the node covering a renamed file's previous path", () => {
+		const intentFiles = [
+			createIntentFile("packages/a/AGENTS.md"),
+			createIntentFile("packages/b/AGENTS.md"),
+		];
+		const hierarchy = buildHierarchy(intentFiles, "agents");
+		const changedFile = {
+			...createChangedFile("packages/b/util.ts", "renamed"),
+			previousFilename: "packages/a/util.ts",
+		};
+
+		const result = mapChangedFileToCoveringNode(changedFile, hierarchy);
+
+		expect(result.coveringNode?.file.path).toBe("packages/b/AGENTS.md");
+		expect(result.previousCoveringNode?.file.path).toBe("packages/a/AGENTS.md");
+	});
+
+	test("omits the previous node when a rename stays within a node", () => {
+		const hierarchy = buildHierarchy(
+			[createIntentFile("src/AGENTS.md")],
+			"agents",
+		);
+		const changedFile = {
+			...createChangedFile("src/new.ts", "renamed"),
+			previousFilename: "src/old.ts",
+		};
+
+		const result = mapChangedFileToCoveringNode(changedFile, hierarchy);
+
+		expect(result.previousCoveringNode).toBeUndefined();
+	});
 });
 
 describe("mapChangedFilesToNodes", () => {
@@ -316,6 +349,30 @@ describe("getAffectedNodes", () => {
 
 		expect(nodes).toHaveLength(1);
 	});
+
+	test("includes both nodes for files moved between them", () => {
+		const intentFiles = [
+			createIntentFile("packages/a/AGENTS.md"),
+			createIntentFile("packages/b/AGENTS.md"),
+		];
+		const hierarchy = buildHierarchy(intentFiles, "agents");
+		const diff = createDiff([
+			{
+				...createChangedFile("packages/b/util.ts", "renamed"),
+				previousFilename: "packages/a/util.ts",
+			},
+		]);
+
+		const mapping = mapChangedFilesToNodes(diff, hierarchy);
+		const nodes = getAffectedNodes(mapping);
+
+		expect(nodes.map((n) => n.file.path)).toEqual([
+			"packages/a/AGENTS.md",
+			"packages/b/AGENTS.md",
+		]);
+		expect(mapping.byNode.get("packages/a/AGENTS.md")).toHaveLength(1);
+		expect(mapping.summary.coveredFiles).toBe(1);
+	});
 });
 
 describe("getChangedFilesForNode", () => {
@@ -929,6 +986,70 @@ describe("determineNodesNeedingUpdate - updateReason", () => {
 		expect(result.candidates[0]?.updateReason).toContain("significant");
 		expect(result.candidates[0]?.updateReason).toContain("100 lines added");
 	});
+
+	test("updateReason calls out drift at the staleness threshold", () => {
+		const intentFiles = [
+			createIntentFile("src/AGENTS.md"),
+			createIntentFile("lib/AGENTS.md"),
+		];
+		const hierarchy = buildHierarchy(intentFiles, "agents");
+		const diff = createDiff([
+			createChangedFile("src/a.ts", "modified", 1, 0),
+			createChangedFile("lib/b.ts", "modified", 1, 0),
+		]);
+		const mapping = mapChangedFilesToNodes(diff, hierarchy);
+		const staleness = (nodePath: string, score: number) => ({
+			nodePath,
+			commitCount: 9,
+			linesChurned: 100,
+			filesAdded: [],
+			filesRemoved: [],
+			truncated: false,
+			score,
+		});
+
+		const result = determineNodesNeedingUpdate(mapping, {
+			staleness: new Map([
+				["src/AGENTS.md", staleness("src/AGENTS.md", 10)],
+				["lib/AGENTS.md", staleness("lib/AGENTS.md", 9.9)],
+			]),
+			stalenessThreshold: 10,
+		});
+
+		const [lib, src] = result.candidates;
+		expect(src?.staleness?.score).toBe(10);
+		expect(src?.updateReason).toContain(
+			"drifted: 9 commits, 100 lines churned since the node was last updated",
+		);
+		expect(lib?.staleness?.score).toBe(9.9);
+		expect(lib?.updateReason).not.toContain("drifted");
+	});
+
+	test("updateReason ignores staleness when the threshold is 0", () => {
+		const hierarchy = buildHierarchy([createIntentFile("AGENTS.md")], "agents");
+		const diff = createDiff([createChangedFile("a.ts", "modified", 1, 0)]);
+		const mapping = mapChangedFilesToNodes(diff, hierarchy);
+
+		const result = determineNodesNeedingUpdate(mapping, {
+			staleness: new Map([
+				[
+					"AGENTS.md",
+					{
+						nodePath: "AGENTS.md",
+						commitCount: 50,
+						linesChurned: 0,
+						filesAdded: [],
+						filesRemoved: [],
+						truncated: true,
+						score: 50,
+					},
+				],
+			]),
+			stalenessThreshold: 0,
+		});
+
+		expect(result.candidates[0]?.updateReason).not.toContain("drifted");
+	});
 });
 
 describe("getNodesNeedingUpdate", () => {
@@ -1263,6 +1384,69 @@ describe("identifySemanticBoundaries", () => {
 		expect(result.newNodesAllowed).toBe(true);
 	});
 
+	test("applies configured thresholds and standard directories", () => {
+		const hierarchy = buildHierarchy(
+			[createIntentFile("packages/api/AGENTS.md")],
+			"agents",
+		);
+		const diff = createDiff([
+			createChangedFile("engine/index.ts", "modified", 10, 0),
+			createChangedFile("engine/run.ts", "modified", 10, 0),
+		]);
+		const mapping = mapChangedFilesToNodes(diff, hierarchy);
+
+		const defaults = identifySemanticBoundaries(mapping, true, "agents");
+		const configured = identifySemanticBoundaries(mapping, true, "agents", {
+			thresholds: {
+				...DEFAULTS.boundaryThresholds,
+				minFilesForNode: 2,
+				minChangesForNode: 20,
+			},
+			standardDirs: ["Engine"],
+		});
+
+		expect(defaults.hasCandidates).toBe(false);
+		expect(configured.candidates.map((c) => c.directory)).toEqual(["engine"]);
+		expect(configured.candidates[0]?.confidence).toBeCloseTo(0.5);
+		expect(configured.candidates[0]?.reason).toContain(
+			'"engine" is a common semantic boundary',
+		);
+	});
+
+	test("suggests workspace package roots instead of their subdirectories", () => {
+		const hierarchy = buildHierarchy(
+			[createIntentFile("docs/AGENTS.md")],
+			"agents",
+		);
+		const diff = createDiff([
+			createChangedFile("packages/api/src/index.ts", "modified", 20, 0),
+			createChangedFile("packages/api/src/utils/format.ts", "modified", 20, 0),
+			createChangedFile("packages/api/test/index.test.ts", "modified", 20, 0),
+			createChangedFile("tools/utils/a.ts", "modified", 20, 0),
+			createChangedFile("tools/utils/b.ts", "modified", 20, 0),
+			createChangedFile("tools/utils/c.ts", "modified", 20, 0),
+		]);
+		const mapping = mapChangedFilesToNodes(diff, hierarchy);
+
+		const result = identifySemanticBoundaries(mapping, true, "agents", {
+			packages: [{ directory: "packages/api", manifest: "package.json" }],
+		});
+
+		expect(result.candidates.map((c) => c.directory)).toEqual([
+			"packages/api",
+			"tools/utils",
+		]);
+		expect(result.candidates[0]?.uncoveredFiles).toHaveLength(3);
+		expect(result.candidates[0]?.confidence).toBeCloseTo(
+			DEFAULTS.boundaryThresholds.workspacePackageConfidence,
+		);
+		expect(result.candidates[0]?.reason).toContain(
+			"package root declared by package.json",
+		);
+		// Base confidence plus the standard directory boost for "utils"
+		expect(result.candidates[1]?.confidence).toBeCloseTo(0.5);
+	});
+
 	test("identifies semantic boundary for uncovered directory with multiple files", () => {
 		// No root AGENTS.md, only in packages/api/
 		const intentFiles = [createIntentFile("packages/api/AGENTS.md")];
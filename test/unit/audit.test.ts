@@ -0,0 +1,238 @@
+import { describe, expect, test } from "bun:test";
+import {
+	auditRepository,
+	formatAuditReport,
+	hasAuditFindings,
+} from "../../src/intent/audit";
+import type { IntentFile } from "../../src/intent/detector";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+import { parseIntentLayerIgnore } from "../../src/patterns/ignore";
+import { InMemoryRepositorySource } from "../../src/repository/memory";
+
+/**
+ * Builds an AGENTS.md hierarchy for the intent files in a file map.
+ */
+function buildAgentsHierarchy(files: Record<string, string>) {
+	const intentFiles: IntentFile[] = Object.keys(files)
+		.filter((path) => path.endsWith("AGENTS.md"))
+		.map((path) => ({
+			path,
+			type: "agents",
+			sha: `sha-${path}`,
+			isSymlink: false,
+		}));
+	return buildHierarchy(intentFiles, "agents");
+}
+
+/**
+ * Audits a single-commit in-memory repository.
+ */
+async function audit(files: Record<string, string>, ignoreText?: string) {
+	const source = new InMemoryRepositorySource([{ sha: "head", files }]);
+	const [result] = await auditRepository(
+		source,
+		[buildAgentsHierarchy(files)],
+		"head",
+		{ budgetThresholdPercent: 5 },
+		ignoreText ? parseIntentLayerIgnore(ignoreText) : undefined,
+	);
+	if (!result) throw new Error("missing audit");
+	return result;
+}
+
+describe("auditRepository", () => {
+	const files = {
+		"AGENTS.md": "# Root\n",
+		"README.md": "r".repeat(400),
+		"src/a.ts": "a".repeat(400),
+		"src/b.ts": "b".repeat(400),
+		"src/c.ts": "c".repeat(400),
+		"lib/AGENTS.md": "l".repeat(400),
+		"lib/x.ts": "x".repeat(40),
+		"old/AGENTS.md": "# Old\n",
+	};
+
+	test("flags over-budget nodes and nodes without covered code", async () => {
+		const result = await audit(files);
+
+		expect(result.budget.totalNodes).toBe(3);
+		expect(
+			result.staleNodes.map((stale) => [stale.node.file.path, stale.reason]),
+		).toEqual([
+			["lib/AGENTS.md", "over-budget"],
+			["old/AGENTS.md", "no-covered-code"],
+		]);
+		expect(result.staleNodes[0]?.currentContent).toBe("l".repeat(400));
+		expect(result.staleNodes[1]?.description).toBe(
+			"No files remain in this directory",
+		);
+	});
+
+	test("flags nodes against their own budget thresholds", async () => {
+		const source = new InMemoryRepositorySource([{ sha: "head", files }]);
+
+		const [result] = await auditRepository(
+			source,
+			[buildAgentsHierarchy(files)],
+			"head",
+			{
+				budgetThresholdPercent: 5,
+				nodeBudgetThresholds: new Map([["lib/AGENTS.md", 2000]]),
+			},
+		);
+
+		expect(
+			result?.staleNodes.map((stale) => [stale.node.file.path, stale.reason]),
+		).toEqual([["old/AGENTS.md", "no-covered-code"]]);
+		expect(result?.budget.nodeResults.get("lib/AGENTS.md")?.exceedsBudget).toBe(
+			false,
+		);
+		expect([...(result?.budget.nodeResults.keys() ?? [])]).toEqual([
+			"AGENTS.md",
+			"lib/AGENTS.md",
+			"old/AGENTS.md",
+		]);
+	});
+
+	test("reports directories holding much of their node's code", async () => {
+		const result = await audit(files);
+
+		expect(result.hotspots).toEqual([
+			{
+				directory: "src",
+				suggestedNodePath: "src/AGENTS.md",
+				coveringNodePath: "AGENTS.md",
+				files: ["src/a.ts", "src/b.ts", "src/c.ts"],
+				tokens: 300,
+				coveragePercent: 75,
+			},
+		]);
+		expect(result.uncoveredFiles).toEqual([]);
+	});
+
+	test("groups uncovered files by top-level directory", async () => {
+		const result = await audit({
+			"packages/api/AGENTS.md": "# API\n",
+			"packages/api/index.ts": "i".repeat(400),
+			"tools/a.js": "a".repeat(40),
+			"tools/b.js": "b".repeat(40),
+			"tools/nested/c.js": "c".repeat(40),
+			"scripts/one.sh": "s".repeat(40),
+		});
+
+		expect(result.uncoveredFiles).toEqual([
+			"scripts/one.sh",
+			"tools/a.js",
+			"tools/b.js",
+			"tools/nested/c.js",
+		]);
+		expect(result.hotspots).toEqual([
+			{
+				directory: "tools",
+				suggestedNodePath: "tools/AGENTS.md",
+				coveringNodePath: undefined,
+				files: ["tools/a.js", "tools/b.js", "tools/nested/c.js"],
+				tokens: 30,
+				coveragePercent: undefined,
+			},
+		]);
+	});
+
+	test("explains nodes whose files are all ignored", async () => {
+		const result = await audit(
+			{
+				"AGENTS.md": "# Root\n",
+				"index.ts": "i".repeat(4000),
+				"snapshots/AGENTS.md": "# Snapshots\n",
+				"snapshots/a.snap": "a",
+			},
+			"*.snap",
+		);
+
+		expect(result.staleNodes).toHaveLength(1);
+		expect(result.staleNodes[0]?.description).toContain(".intentlayerignore");
+		expect(hasAuditFindings(result)).toBe(true);
+	});
+
+	test("flags nodes whose code drifted past the staleness threshold", async () => {
+		const base = {
+			"AGENTS.md": "# Root\n",
+			"index.ts": "i".repeat(4000),
+			"api/AGENTS.md": "# API\n",
+			"api/a.ts": "a".repeat(4000),
+		};
+		const source = new InMemoryRepositorySource([
+			{ sha: "c1", files: base },
+			{
+				sha: "c2",
+				parents: ["c1"],
+				files: { ...base, "api/b.ts": "b".repeat(4000) },
+			},
+			{
+				sha: "c3",
+				parents: ["c2"],
+				files: {
+					...base,
+					"api/b.ts": "b".repeat(4000),
+					"api/c.ts": "c".repeat(4000),
+				},
+			},
+		]);
+		const hierarchy = buildAgentsHierarchy(base);
+
+		const [result] = await auditRepository(source, [hierarchy], "c3", {
+			budgetThresholdPercent: 50,
+			stalenessThreshold: 5,
+		});
+
+		expect(
+			result?.staleNodes.map((stale) => [stale.node.file.path, stale.reason]),
+		).toEqual([["api/AGENTS.md", "drifted"]]);
+		expect(result?.staleNodes[0]?.staleness?.filesAdded).toEqual([
+			"api/b.ts",
+			"api/c.ts",
+		]);
+		expect(result?.staleNodes[0]?.description).toContain("threshold: 5");
+
+		const [unflagged] = await auditRepository(source, [hierarchy], "c3", {
+			budgetThresholdPercent: 50,
+		});
+		expect(unflagged?.staleNodes).toEqual([]);
+	});
+});
+
+describe("formatAuditReport", () => {
+	test("lists stale nodes and hotspots per file type", async () => {
+		const result = await audit({
+			"AGENTS.md": "# Root\n",
+			"src/a.ts": "a".repeat(400),
+			"src/b.ts": "b".repeat(400),
+			"src/c.ts": "c".repeat(400),
+			"lib/AGENTS.md": "l".repeat(400),
+			"lib/x.ts": "x".repeat(40),
+		});
+
+		const report = formatAuditReport([result]);
+
+		expect(report).toStartWith("### AGENTS.md\n\nAudited 2 nodes;");
+		expect(report).toContain("**Stale nodes**");
+		expect(report).toContain(
+			"- `lib/AGENTS.md`: Uses 1000.0% of its covered code's tokens (budget: 5%)",
+		);
+		expect(report).toContain(
+			"- `src/`: 3 files, ~300 tokens, 100% of `AGENTS.md`'s code (suggested: `src/AGENTS.md`)",
+		);
+	});
+
+	test("says when nothing was found", async () => {
+		const result = await audit({
+			"AGENTS.md": "# Root\n",
+			"index.ts": "i".repeat(4000),
+		});
+
+		expect(hasAuditFindings(result)).toBe(false);
+		expect(formatAuditReport([result])).toContain(
+			"No stale nodes or uncovered hotspots found.",
+		);
+	});
+});
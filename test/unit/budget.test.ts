@@ -0,0 +1,306 @@
+import { describe, expect, mock, test } from "bun:test";
+import { GitHubClient } from "../../src/github/client";
+import {
+	analyzeNodeBudgets,
+	evaluateNodeBudgets,
+	fetchFileContents,
+	listRepositoryFiles,
+} from "../../src/intent/budget";
+import type { IntentFile } from "../../src/intent/detector";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+import { parseIntentLayerIgnore } from "../../src/patterns/ignore";
+import { GitHubRepositorySource } from "../../src/repository/github";
+
+/**
+ * Creates a GitHub-backed repository source with a mocked octokit serving
+ * an in-memory repository tree.
+ */
+function createMockedBudgetClient(
+	files: Record<string, string>,
+	extraTreeItems: Array<{ path: string; type: string; mode: string }> = [],
+	truncated = false,
+) {
+	const treeItems = [
+		...Object.keys(files).map((path) => ({
+			path,
+			type: "blob",
+			mode: "100644",
+			sha: `sha-${path}`,
+		})),
+		...extraTreeItems.map((item) => ({ ...item, sha: `sha-${item.path}` })),
+	];
+
+	const getCommit = mock(() =>
+		Promise.resolve({
+			data: { sha: "commit-sha", commit: { tree: { sha: "tree-sha-456" } } },
+		}),
+	);
+	const getTree = mock(() =>
+		Promise.resolve({
+			data: { sha: "tree-sha-456", tree: treeItems, truncated },
+		}),
+	);
+	const getBlob = mock((params: { file_sha: string }) => {
+		const path = params.file_sha.replace(/^sha-/, "");
+		const content = files[path];
+		if (content === undefined) {
+			return Promise.reject(
+				Object.assign(new Error("Not Found"), { status: 404 }),
+			);
+		}
+		return Promise.resolve({
+			data: {
+				sha: params.file_sha,
+				content: Buffer.from(content).toString("base64"),
+				encoding: "base64",
+			},
+		});
+	});
+
+	const mockOctokit = {
+		rest: {
+			repos: { getCommit },
+			git: { getTree, getBlob },
+		},
+	};
+
+	const client = new GitHubClient({ token: "test-token" });
+
+	// Replace the octokit instance with our mock
+	(client as unknown as { octokit: typeof mockOctokit }).octokit = mockOctokit;
+
+	// Mock the repo accessor
+	Object.defineProperty(client, "repo", {
+		get: () => ({ owner: "test-owner", repo: "test-repo" }),
+	});
+
+	return {
+		source: new GitHubRepositorySource(client),
+		mocks: { getCommit, getTree, getBlob },
+	};
+}
+
+function createIntentFile(path: string): IntentFile {
+	return { path, type: "agents", sha: `sha-${path}`, isSymlink: false };
+}
+
+/** 400 characters = 100 tokens */
+const HUNDRED_TOKENS = "x".repeat(400);
+
+describe("listRepositoryFiles", () => {
+	test("lists regular blobs and excludes symlinks and submodules", async () => {
+		const { source, mocks } = createMockedBudgetClient(
+			{ "AGENTS.md": "# Root", "src/index.ts": "code" },
+			[
+				{ path: "CLAUDE.md", type: "blob", mode: "120000" },
+				{ path: "vendor/lib", type: "commit", mode: "160000" },
+				{ path: "src", type: "tree", mode: "040000" },
+			],
+		);
+
+		const files = await listRepositoryFiles(source, "feature");
+
+		expect(files.map((f) => f.path)).toEqual(["AGENTS.md", "src/index.ts"]);
+		expect(mocks.getCommit).toHaveBeenCalledWith({
+			owner: "test-owner",
+			repo: "test-repo",
+			ref: "feature",
+		});
+		expect(mocks.getTree).toHaveBeenCalledWith({
+			owner: "test-owner",
+			repo: "test-repo",
+			tree_sha: "tree-sha-456",
+			recursive: "true",
+		});
+	});
+
+	test("throws when the tree listing is truncated", async () => {
+		const { source } = createMockedBudgetClient({ "a.ts": "a" }, [], true);
+
+		await expect(listRepositoryFiles(source, "main")).rejects.toThrow(
+			"too large",
+		);
+	});
+});
+
+describe("fetchFileContents", () => {
+	test("decodes requested blobs and skips unknown paths", async () => {
+		const { source, mocks } = createMockedBudgetClient({
+			"a.ts": "const a = 1;",
+			"b.ts": "const b = 2;",
+		});
+		const treeFiles = await listRepositoryFiles(source, "main");
+
+		const contents = await fetchFileContents(source, treeFiles, [
+			"a.ts",
+			"a.ts",
+			"missing.ts",
+		]);
+
+		expect(contents.get("a.ts")).toBe("const a = 1;");
+		expect(contents.has("b.ts")).toBe(false);
+		expect(contents.has("missing.ts")).toBe(false);
+		expect(mocks.getBlob).toHaveBeenCalledTimes(1);
+	});
+
+	test("omits blobs that cannot be read", async () => {
+		const { source } = createMockedBudgetClient({ "a.ts": "a" });
+		const contents = await fetchFileContents(
+			source,
+			[{ path: "gone.ts", sha: "sha-gone.ts" }],
+			["gone.ts"],
+		);
+
+		expect(contents.size).toBe(0);
+	});
+});
+
+describe("evaluateNodeBudgets", () => {
+	const hierarchy = buildHierarchy(
+		[createIntentFile("AGENTS.md"), createIntentFile("packages/api/AGENTS.md")],
+		"agents",
+	);
+	const allFiles = [
+		"AGENTS.md",
+		"packages/api/AGENTS.md",
+		"src/core/a.ts",
+		"src/core/b.ts",
+		"src/core/c.ts",
+		"README.md",
+		"packages/api/index.ts",
+	];
+	const fileContents = new Map(
+		allFiles
+			.filter((path) => !path.endsWith("AGENTS.md"))
+			.map((path) => [path, HUNDRED_TOKENS]),
+	);
+
+	test("evaluates only the requested nodes", () => {
+		const result = evaluateNodeBudgets(
+			hierarchy,
+			new Map([["AGENTS.md", "x".repeat(40)]]),
+			allFiles,
+			fileContents,
+			{ budgetThresholdPercent: 5, splitLargeNodes: false },
+		);
+
+		expect(result.budget.totalNodes).toBe(1);
+		expect(result.coveredFilesMap.get("AGENTS.md")?.coveredFiles).toEqual([
+			"README.md",
+			"src/core/a.ts",
+			"src/core/b.ts",
+			"src/core/c.ts",
+		]);
+		// 10 node tokens / 400 covered tokens = 2.5%
+		expect(result.budget.nodeResults.get("AGENTS.md")?.budgetPercent).toBe(2.5);
+		expect(result.budget.exceedingCount).toBe(0);
+	});
+
+	test("skips split analysis when splitting is disabled", () => {
+		const result = evaluateNodeBudgets(
+			hierarchy,
+			new Map([["AGENTS.md", HUNDRED_TOKENS]]),
+			allFiles,
+			fileContents,
+			{ budgetThresholdPercent: 5, splitLargeNodes: false },
+		);
+
+		expect(result.budget.exceedingCount).toBe(1);
+		expect(result.splitAnalysis.nodeAnalyses).toEqual([]);
+	});
+
+	test("suggests splits into directories without intent nodes", () => {
+		const result = evaluateNodeBudgets(
+			hierarchy,
+			new Map([["AGENTS.md", HUNDRED_TOKENS]]),
+			allFiles,
+			fileContents,
+			{ budgetThresholdPercent: 5, splitLargeNodes: true },
+		);
+
+		expect(result.splitAnalysis.nodesToSplit).toEqual(["AGENTS.md"]);
+		expect(
+			result.splitAnalysis.nodeAnalyses[0]?.suggestions.map(
+				(s) => s.suggestedNodePath,
+			),
+		).toEqual(["src/AGENTS.md"]);
+	});
+
+	test("uses CLAUDE.md for split suggestions in claude hierarchies", () => {
+		const claudeHierarchy = buildHierarchy(
+			[{ ...createIntentFile("CLAUDE.md"), type: "claude" }],
+			"claude",
+		);
+		const result = evaluateNodeBudgets(
+			claudeHierarchy,
+			new Map([["CLAUDE.md", HUNDRED_TOKENS]]),
+			allFiles,
+			fileContents,
+			{ budgetThresholdPercent: 5, splitLargeNodes: true },
+		);
+
+		const suggestedPaths =
+			result.splitAnalysis.nodeAnalyses[0]?.suggestions.map(
+				(s) => s.suggestedNodePath,
+			);
+		expect(suggestedPaths).toContain("src/CLAUDE.md");
+	});
+
+	test("honors token count options and ignore patterns", () => {
+		const contents = new Map(fileContents);
+		contents.set("src/core/a.ts", "binary\0data");
+		const result = evaluateNodeBudgets(
+			hierarchy,
+			new Map([["AGENTS.md", "x".repeat(40)]]),
+			allFiles,
+			contents,
+			{
+				budgetThresholdPercent: 5,
+				splitLargeNodes: false,
+				tokenCountOptions: { skipBinaryFiles: true },
+			},
+			parseIntentLayerIgnore("README.md"),
+		);
+
+		const nodeResult = result.budget.nodeResults.get("AGENTS.md");
+		expect(nodeResult?.filesCounted).toBe(2);
+		expect(nodeResult?.filesSkipped).toBe(1);
+		expect(result.coveredFilesMap.get("AGENTS.md")?.ignoredFiles).toEqual([
+			"README.md",
+		]);
+	});
+});
+
+describe("analyzeNodeBudgets", () => {
+	test("fetches only files covered by the evaluated nodes", async () => {
+		const { source, mocks } = createMockedBudgetClient({
+			"AGENTS.md": "# Root",
+			"packages/api/AGENTS.md": "# API",
+			"packages/api/index.ts": HUNDRED_TOKENS,
+			"src/index.ts": HUNDRED_TOKENS,
+		});
+		const hierarchy = buildHierarchy(
+			[
+				createIntentFile("AGENTS.md"),
+				createIntentFile("packages/api/AGENTS.md"),
+			],
+			"agents",
+		);
+
+		const result = await analyzeNodeBudgets(
+			source,
+			hierarchy,
+			new Map([["packages/api/AGENTS.md", HUNDRED_TOKENS]]),
+			await listRepositoryFiles(source, "feature"),
+			{ budgetThresholdPercent: 5, splitLargeNodes: true },
+		);
+
+		expect(mocks.getBlob).toHaveBeenCalledTimes(1);
+		expect(
+			result.budget.nodeResults.get("packages/api/AGENTS.md")?.budgetPercent,
+		).toBe(100);
+		expect(result.budget.exceedingCount).toBe(1);
+		// Not enough files in subdirectories to suggest a split
+		expect(result.splitAnalysis.nodeAnalyses[0]?.suggestions).toEqual([]);
+	});
+});
@@ -1,4 +1,5 @@
 import { describe, expect, mock, test } from "bun:test";
+import { createHash } from "node:crypto";
 import {
 	DEFAULT_DEBOUNCE_DELAY_MS,
 	debounceCheckboxToggle,
@@ -10,6 +11,9 @@ import {
 } from "../../src/github/checkbox-handler";
 import type { GitHubClient } from "../../src/github/client";
 import {
+	ContentPayloadError,
+	generateComment,
+	generateContentPayload,
 	INTENT_LAYER_MARKER_PREFIX,
 	INTENT_LAYER_MARKER_SUFFIX,
 } from "../../src/github/comments";
@@ -485,6 +489,86 @@ Reason: Updated to reflect new architecture
 
 		expect(result.reason).toBe("Approved via checkbox");
 	});
+
+	test("uses exact content from hidden payload", () => {
+		const suggestedContent =
+			"# API\n\n```ts\nconst x = 1;\n```\n\n- unchanged line\n\n";
+		const commentBody = generateComment(
+			{
+				nodePath: "packages/api/AGENTS.md",
+				action: "update",
+				reason: "Document code fences",
+				currentContent: "# API\n\n- unchanged line\n",
+				suggestedContent,
+			},
+			"abc123",
+		);
+
+		const result = reconstructIntentUpdateFromComment(
+			commentBody,
+			{ nodePath: "packages/api/AGENTS.md", headSha: "abc123" },
+			"update",
+		);
+
+		expect(result.suggestedContent).toBe(suggestedContent);
+		// Current content is read from the branch, not the rendered diff
+		expect(result.currentContent).toBeUndefined();
+	});
+
+	test("ignores reason-like text inside the hidden payload", () => {
+		// Find content whose encoded payload contains "reason" or "why"
+		let suggestedContent = "";
+		for (let i = 0; i < 1000; i++) {
+			const candidate = Array.from({ length: 50 }, (_, j) =>
+				createHash("sha256").update(`${i}-${j}`).digest("hex"),
+			).join("\n");
+			if (/reason|why/i.test(generateContentPayload(candidate))) {
+				suggestedContent = candidate;
+				break;
+			}
+		}
+		expect(suggestedContent).not.toBe("");
+
+		const commentBody = generateComment(
+			{
+				nodePath: "AGENTS.md",
+				action: "update",
+				reason: "Document the cache",
+				currentContent: "# Root\n",
+				suggestedContent,
+			},
+			"abc123",
+		);
+
+		const result = reconstructIntentUpdateFromComment(
+			commentBody,
+			{ nodePath: "AGENTS.md", headSha: "abc123" },
+			"update",
+		);
+
+		expect(result.reason).toBe("Document the cache");
+		expect(result.suggestedContent).toBe(suggestedContent);
+	});
+
+	test("throws ContentPayloadError when payload checksum does not match", () => {
+		const commentBody = generateComment(
+			{
+				nodePath: "AGENTS.md",
+				action: "create",
+				reason: "Init",
+				suggestedContent: "# Root",
+			},
+			"abc123",
+		).replace(/sha256=[0-9a-f]{64}/, `sha256=${"0".repeat(64)}`);
+
+		expect(() =>
+			reconstructIntentUpdateFromComment(
+				commentBody,
+				{ nodePath: "AGENTS.md", headSha: "abc123" },
+				"create",
+			),
+		).toThrow(ContentPayloadError);
+	});
 });
 
 describe("handleCheckedCheckbox", () => {
@@ -497,6 +581,7 @@ describe("handleCheckedCheckbox", () => {
 		suggestedContent?: string;
 		currentContent?: string;
 		reason?: string;
+		action?: string;
 	}): string {
 		const nodePath = options.nodePath ?? "packages/api/AGENTS.md";
 		const headSha = options.headSha ?? "abc123";
@@ -509,6 +594,9 @@ describe("handleCheckedCheckbox", () => {
 		}
 		parts.push(`appliedCommit=${options.appliedCommit ?? ""}`);
 		parts.push(`headSha=${headSha}`);
+		if (options.action) {
+			parts.push(`action=${options.action}`);
+		}
 
 		let content = `${INTENT_LAYER_MARKER_PREFIX} ${parts.join(" ")} ${INTENT_LAYER_MARKER_SUFFIX}
 
@@ -682,6 +770,99 @@ ${suggestedContent}
 		expect(updatedCommentBody).toContain("appliedCommit=update-commit-sha");
 	});
 
+	test("creates DELETE commit when marker records a delete", async () => {
+		const commentBody = createFullCommentBody({
+			nodePath: "packages/legacy/AGENTS.md",
+			headSha: "current-sha",
+			reason: "Package was removed",
+			action: "delete",
+		});
+		const markerData = {
+			nodePath: "packages/legacy/AGENTS.md",
+			headSha: "current-sha",
+			action: "delete" as const,
+		};
+
+		let updatedCommentBody = "";
+		const mockDeleteFile = mock(() =>
+			Promise.resolve({
+				commit: {
+					sha: "delete-commit-sha",
+					html_url: "https://github.com/test/repo/commit/delete-commit-sha",
+				},
+			}),
+		);
+		const mockCreateOrUpdateFile = mock(() => Promise.resolve({}));
+		const mockClient = {
+			getFileContent: mock(() =>
+				Promise.resolve({ sha: "existing-file-sha", content: "" }),
+			),
+			deleteFile: mockDeleteFile,
+			createOrUpdateFile: mockCreateOrUpdateFile,
+			updateComment: mock((id: number, body: string) => {
+				updatedCommentBody = body;
+				return Promise.resolve({ id, body });
+			}),
+		} as unknown as GitHubClient;
+
+		const result = await handleCheckedCheckbox(
+			mockClient,
+			123,
+			commentBody,
+			markerData,
+			"current-sha",
+			{ branch: "feature-branch" },
+		);
+
+		expect(result.success).toBe(true);
+		expect(result.commitResult?.sha).toBe("delete-commit-sha");
+		expect(result.commitResult?.message).toContain("[INTENT:DELETE]");
+		expect(mockDeleteFile).toHaveBeenCalledWith(
+			"packages/legacy/AGENTS.md",
+			expect.stringContaining("[INTENT:DELETE]"),
+			"feature-branch",
+			"existing-file-sha",
+		);
+		expect(mockCreateOrUpdateFile).not.toHaveBeenCalled();
+		expect(updatedCommentBody).toContain("appliedCommit=delete-commit-sha");
+		expect(updatedCommentBody).toContain("action=delete");
+	});
+
+	test("returns error when file to delete no longer exists", async () => {
+		const commentBody = createFullCommentBody({
+			nodePath: "packages/legacy/AGENTS.md",
+			headSha: "current-sha",
+			action: "delete",
+		});
+		const markerData = {
+			nodePath: "packages/legacy/AGENTS.md",
+			headSha: "current-sha",
+			action: "delete" as const,
+		};
+
+		const mockClient = {
+			getFileContent: mock(() => {
+				const error = new Error("Not Found") as Error & { status: number };
+				error.status = 404;
+				return Promise.reject(error);
+			}),
+			createOrUpdateFile: mock(() => Promise.resolve({})),
+		} as unknown as GitHubClient;
+
+		const result = await handleCheckedCheckbox(
+			mockClient,
+			123,
+			commentBody,
+			markerData,
+			"current-sha",
+			{ branch: "feature-branch" },
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("does not exist");
+		expect(mockClient.createOrUpdateFile).not.toHaveBeenCalled();
+	});
+
 	test("returns error when commit creation fails", async () => {
 		const commentBody = createFullCommentBody({
 			headSha: "current-sha",
@@ -716,6 +897,88 @@ ${suggestedContent}
 		expect(result.error).toContain("Permission denied");
 	});
 
+	test("commits payload content byte-for-byte", async () => {
+		const suggestedContent = `# Large Node\n\n${"- item\n".repeat(500)}\ttrailing\n\n`;
+		const commentBody = generateComment(
+			{
+				nodePath: "packages/new/AGENTS.md",
+				action: "create",
+				reason: "New package",
+				suggestedContent,
+			},
+			"current-sha",
+		);
+
+		const mockCreateOrUpdateFile = mock(() =>
+			Promise.resolve({
+				commit: {
+					sha: "new-commit-sha",
+					html_url: "https://github.com/test/repo/commit/new-commit-sha",
+				},
+			}),
+		);
+		const mockClient = {
+			getFileContent: mock(() => {
+				const error = new Error("Not Found") as Error & { status: number };
+				error.status = 404;
+				return Promise.reject(error);
+			}),
+			createOrUpdateFile: mockCreateOrUpdateFile,
+			updateComment: mock((id: number, body: string) =>
+				Promise.resolve({ id, body }),
+			),
+		} as unknown as GitHubClient;
+
+		const result = await handleCheckedCheckbox(
+			mockClient,
+			123,
+			commentBody,
+			{ nodePath: "packages/new/AGENTS.md", headSha: "current-sha" },
+			"current-sha",
+			{ branch: "feature-branch" },
+		);
+
+		expect(result.success).toBe(true);
+		const calls = mockCreateOrUpdateFile.mock.calls as unknown as unknown[][];
+		expect(calls[0]?.[1]).toBe(suggestedContent);
+	});
+
+	test("refuses to commit when payload is corrupted", async () => {
+		const commentBody = generateComment(
+			{
+				nodePath: "packages/new/AGENTS.md",
+				action: "create",
+				reason: "New package",
+				suggestedContent: "# New Package",
+			},
+			"current-sha",
+		).replace(/sha256=[0-9a-f]{64}/, `sha256=${"f".repeat(64)}`);
+
+		const mockCreateOrUpdateFile = mock(() => Promise.resolve({}));
+		const mockClient = {
+			getFileContent: mock(() => {
+				const error = new Error("Not Found") as Error & { status: number };
+				error.status = 404;
+				return Promise.reject(error);
+			}),
+			createOrUpdateFile: mockCreateOrUpdateFile,
+		} as unknown as GitHubClient;
+
+		const result = await handleCheckedCheckbox(
+			mockClient,
+			123,
+			commentBody,
+			{ nodePath: "packages/new/AGENTS.md", headSha: "current-sha" },
+			"current-sha",
+			{ branch: "feature-branch" },
+		);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toContain("Refusing to apply change");
+		expect(result.error).toContain("checksum");
+		expect(mockCreateOrUpdateFile).not.toHaveBeenCalled();
+	});
+
 	test("passes symlink options to commit function", async () => {
 		const suggestedContent = "# Package\n\nContent.";
 		const commentBody = createFullCommentBody({
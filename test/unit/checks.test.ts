@@ -0,0 +1,224 @@
+import { describe, expect, mock, test } from "bun:test";
+import {
+	buildCheckRunAnnotations,
+	buildCheckRunOutput,
+	getCheckConclusion,
+	MAX_ANNOTATIONS_PER_REQUEST,
+	MAX_CHECK_TEXT_LENGTH,
+	publishCheckRun,
+} from "../../src/github/checks";
+import type { GitHubClient } from "../../src/github/client";
+import type { PRChangedFile } from "../../src/github/context";
+import {
+	type AnalysisReport,
+	createAnalysisReport,
+} from "../../src/github/outputs";
+import type { IntentUpdate } from "../../src/opencode/output-schema";
+
+/**
+ * Creates a changed file entry with the given status.
+ */
+function createChangedFile(
+	filename: string,
+	status: PRChangedFile["status"] = "modified",
+): PRChangedFile {
+	return {
+		sha: "sha",
+		filename,
+		status,
+		additions: 1,
+		deletions: 0,
+		changes: 1,
+		blobUrl: "",
+		rawUrl: "",
+		contentsUrl: "",
+		patch: null,
+		previousFilename: null,
+	};
+}
+
+const update: IntentUpdate = {
+	nodePath: "src/AGENTS.md",
+	action: "update",
+	reason: "Parser now streams input",
+	currentContent: "# Src\n",
+	suggestedContent: "# Src\n\nStreams input.\n",
+};
+
+/**
+ * Creates a report proposing one update triggered by two files.
+ */
+function createReport(overrides: Partial<AnalysisReport> = {}): AnalysisReport {
+	return {
+		...createAnalysisReport("check"),
+		headSha: "head-sha",
+		updates: [update],
+		triggeringFiles: new Map([
+			[
+				"src/AGENTS.md",
+				[
+					createChangedFile("src/parser.ts"),
+					createChangedFile("src/old.ts", "removed"),
+				],
+			],
+		]),
+		...overrides,
+	};
+}
+
+describe("getCheckConclusion", () => {
+	test("uses the configured conclusion when updates are proposed", () => {
+		expect(getCheckConclusion(createReport(), "failure")).toBe("failure");
+		expect(getCheckConclusion(createReport(), "neutral")).toBe("neutral");
+	});
+
+	test("succeeds when no updates are needed", () => {
+		expect(getCheckConclusion(createReport({ updates: [] }), "failure")).toBe(
+			"success",
+		);
+	});
+
+	test("stays neutral when analysis was skipped", () => {
+		const report = createReport({ updates: [], skippedReason: "Too large" });
+
+		expect(getCheckConclusion(report, "failure")).toBe("neutral");
+	});
+});
+
+describe("buildCheckRunAnnotations", () => {
+	test("annotates triggering files that exist at the head", () => {
+		const report = createReport();
+
+		const annotations = buildCheckRunAnnotations(
+			report.updates,
+			report.triggeringFiles,
+			"failure",
+		);
+
+		expect(annotations).toEqual([
+			{
+				path: "src/parser.ts",
+				start_line: 1,
+				end_line: 1,
+				annotation_level: "failure",
+				title: "Update src/AGENTS.md",
+				message: "Parser now streams input",
+			},
+		]);
+	});
+
+	test("returns no annotations for updates without triggering files", () => {
+		const annotations = buildCheckRunAnnotations(
+			[{ ...update, nodePath: "lib/AGENTS.md" }],
+			createReport().triggeringFiles,
+			"warning",
+		);
+
+		expect(annotations).toEqual([]);
+	});
+});
+
+describe("buildCheckRunOutput", () => {
+	test("lists updates in the summary and diffs in the text", () => {
+		const output = buildCheckRunOutput(createReport());
+
+		expect(output.title).toBe("1 intent node out of date");
+		expect(output.summary).toContain(
+			"- `src/AGENTS.md` (update): Parser now streams input",
+		);
+		expect(output.text).toContain("```diff");
+		expect(output.text).toContain("+Streams input.");
+	});
+
+	test("reports an up-to-date intent layer", () => {
+		const output = buildCheckRunOutput(createReport({ updates: [] }));
+
+		expect(output.title).toBe("Intent layer is up to date");
+		expect(output.text).toBeUndefined();
+	});
+
+	test("reports skipped analysis", () => {
+		const output = buildCheckRunOutput(
+			createReport({ updates: [], skippedReason: "PR is too large" }),
+		);
+
+		expect(output.title).toBe("Intent layer analysis skipped");
+		expect(output.summary).toBe("PR is too large");
+	});
+
+	test("truncates long diffs", () => {
+		const output = buildCheckRunOutput(
+			createReport({
+				updates: [
+					{ ...update, suggestedContent: "x\n".repeat(MAX_CHECK_TEXT_LENGTH) },
+				],
+			}),
+		);
+
+		expect(output.text?.length).toBe(MAX_CHECK_TEXT_LENGTH);
+		expect(output.text).toEndWith("_Diffs truncated._");
+	});
+});
+
+describe("publishCheckRun", () => {
+	test("creates the check run and appends extra annotation batches", async () => {
+		const files = Array.from(
+			{ length: MAX_ANNOTATIONS_PER_REQUEST + 5 },
+			(_, i) => createChangedFile(`src/file-${i}.ts`),
+		);
+		const createCheckRun = mock(async () => ({
+			id: 7,
+			html_url: "https://github.com/owner/repo/runs/7",
+		}));
+		const updateCheckRun = mock(async () => ({}));
+		const client = {
+			createCheckRun,
+			updateCheckRun,
+		} as unknown as GitHubClient;
+
+		const result = await publishCheckRun(
+			client,
+			createReport({ triggeringFiles: new Map([["src/AGENTS.md", files]]) }),
+			"neutral",
+		);
+
+		expect(result).toEqual({
+			id: 7,
+			url: "https://github.com/owner/repo/runs/7",
+			conclusion: "neutral",
+			annotationCount: MAX_ANNOTATIONS_PER_REQUEST + 5,
+		});
+		expect(createCheckRun).toHaveBeenCalledWith(
+			"Intent Layer",
+			"head-sha",
+			"neutral",
+			expect.objectContaining({
+				annotations: expect.arrayContaining([
+					expect.objectContaining({ annotation_level: "warning" }),
+				]),
+			}),
+		);
+		const [, , , output] = createCheckRun.mock.calls[0] as unknown as [
+			string,
+			string,
+			string,
+			{ annotations: unknown[] },
+		];
+		expect(output.annotations).toHaveLength(MAX_ANNOTATIONS_PER_REQUEST);
+		expect(updateCheckRun).toHaveBeenCalledTimes(1);
+		expect(updateCheckRun).toHaveBeenCalledWith(
+			7,
+			expect.objectContaining({
+				annotations: expect.any(Array),
+			}),
+		);
+	});
+
+	test("requires the analyzed head SHA", async () => {
+		const client = {} as GitHubClient;
+
+		await expect(
+			publishCheckRun(client, createReport({ headSha: undefined }), "failure"),
+		).rejects.toThrow("head SHA");
+	});
+});
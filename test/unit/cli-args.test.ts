@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { CliUsageError, parseCliArgs } from "../../src/cli/args";
+import { parseActionInputs } from "../../src/config/schema";
+
+describe("parseCliArgs", () => {
+	test("parses analyze with base and head", () => {
+		const args = parseCliArgs(["analyze", "--base", "main", "--head", "HEAD"]);
+
+		expect(args).toMatchObject({
+			command: "analyze",
+			base: "main",
+			head: "HEAD",
+			write: false,
+		});
+	});
+
+	test("defaults head to HEAD and accepts --write", () => {
+		const args = parseCliArgs(["analyze", "--base=origin/main", "--write"]);
+
+		expect(args).toMatchObject({
+			command: "analyze",
+			base: "origin/main",
+			head: "HEAD",
+			write: true,
+		});
+	});
+
+	test("maps config flags to action input names", () => {
+		const args = parseCliArgs([
+			"analyze",
+			"--base",
+			"main",
+			"--files",
+			"both",
+			"--symlink",
+			"true",
+			"--token-budget-percent",
+			"10",
+		]);
+		if (args.command !== "analyze") throw new Error("expected analyze");
+
+		const config = parseActionInputs(args.inputs);
+		expect(config.files).toEqual(["agents", "claude"]);
+		expect(config.symlink).toBe(true);
+		expect(config.token_budget_percent).toBe(10);
+		expect(args.inputs.model).toBeUndefined();
+	});
+
+	test("returns help for -h and --help", () => {
+		expect(parseCliArgs(["-h"])).toEqual({ command: "help" });
+		expect(parseCliArgs(["analyze", "--help"])).toEqual({ command: "help" });
+	});
+
+	test("rejects a missing or unknown command", () => {
+		expect(() => parseCliArgs(["--base", "main"])).toThrow("Missing command");
+		expect(() => parseCliArgs(["review", "--base", "main"])).toThrow(
+			"Unknown command: review",
+		);
+	});
+
+	test("requires --base", () => {
+		expect(() => parseCliArgs(["analyze"])).toThrow(CliUsageError);
+		expect(() => parseCliArgs(["analyze"])).toThrow("--base is required");
+	});
+
+	test("rejects unknown flags and extra arguments", () => {
+		expect(() =>
+			parseCliArgs(["analyze", "--base", "main", "--output", "x"]),
+		).toThrow(CliUsageError);
+		expect(() => parseCliArgs(["analyze", "extra", "--base", "main"])).toThrow(
+			"Unexpected argument: extra",
+		);
+	});
+});
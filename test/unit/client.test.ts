@@ -1,5 +1,9 @@
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
-import { createGitHubClient, GitHubClient } from "../../src/github/client";
+import {
+	BranchConflictError,
+	createGitHubClient,
+	GitHubClient,
+} from "../../src/github/client";
 
 /**
  * Note: The @actions/github context is instantiated at module load time,
@@ -236,6 +240,17 @@ function createMockedGitHubClient(mocks: {
 	reposCreateOrUpdateFileContents?: ReturnType<typeof mock>;
 	reposGet?: ReturnType<typeof mock>;
 	gitCreateRef?: ReturnType<typeof mock>;
+	gitGetTree?: ReturnType<typeof mock>;
+	gitGetBlob?: ReturnType<typeof mock>;
+	gitGetRef?: ReturnType<typeof mock>;
+	gitGetCommit?: ReturnType<typeof mock>;
+	gitCreateBlob?: ReturnType<typeof mock>;
+	gitCreateTree?: ReturnType<typeof mock>;
+	gitCreateCommit?: ReturnType<typeof mock>;
+	gitUpdateRef?: ReturnType<typeof mock>;
+	checksCreate?: ReturnType<typeof mock>;
+	checksUpdate?: ReturnType<typeof mock>;
+	reactionsCreateForIssueComment?: ReturnType<typeof mock>;
 }) {
 	const mockOctokit = {
 		rest: {
@@ -274,6 +289,28 @@ function createMockedGitHubClient(mocks: {
 			git: {
 				createRef:
 					mocks.gitCreateRef ?? mock(() => Promise.resolve({ data: {} })),
+				getTree: mocks.gitGetTree ?? mock(() => Promise.resolve({ data: {} })),
+				getBlob: mocks.gitGetBlob ?? mock(() => Promise.resolve({ data: {} })),
+				getRef: mocks.gitGetRef ?? mock(() => Promise.resolve({ data: {} })),
+				getCommit:
+					mocks.gitGetCommit ?? mock(() => Promise.resolve({ data: {} })),
+				createBlob:
+					mocks.gitCreateBlob ?? mock(() => Promise.resolve({ data: {} })),
+				createTree:
+					mocks.gitCreateTree ?? mock(() => Promise.resolve({ data: {} })),
+				createCommit:
+					mocks.gitCreateCommit ?? mock(() => Promise.resolve({ data: {} })),
+				updateRef:
+					mocks.gitUpdateRef ?? mock(() => Promise.resolve({ data: {} })),
+			},
+			checks: {
+				create: mocks.checksCreate ?? mock(() => Promise.resolve({ data: {} })),
+				update: mocks.checksUpdate ?? mock(() => Promise.resolve({ data: {} })),
+			},
+			reactions: {
+				createForIssueComment:
+					mocks.reactionsCreateForIssueComment ??
+					mock(() => Promise.resolve({ data: {} })),
 			},
 		},
 	};
@@ -788,6 +825,184 @@ describe("GitHubClient API methods with mocked responses", () => {
 		});
 	});
 
+	describe("getTree", () => {
+		test("calls git.getTree with recursive flag when requested", async () => {
+			const mockTree = {
+				sha: "tree-sha-123",
+				truncated: false,
+				tree: [{ path: "src/index.ts", type: "blob", sha: "blob-sha" }],
+			};
+			const mockGetTree = mock(() => Promise.resolve({ data: mockTree }));
+			const { client } = createMockedGitHubClient({ gitGetTree: mockGetTree });
+
+			const result = await client.getTree("tree-sha-123", true);
+
+			expect(mockGetTree).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				tree_sha: "tree-sha-123",
+				recursive: "true",
+			});
+			expect(result.tree).toHaveLength(1);
+		});
+
+		test("omits recursive flag by default", async () => {
+			const mockGetTree = mock(() =>
+				Promise.resolve({ data: { sha: "tree-sha-123", tree: [] } }),
+			);
+			const { client } = createMockedGitHubClient({ gitGetTree: mockGetTree });
+
+			await client.getTree("tree-sha-123");
+
+			expect(mockGetTree).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				tree_sha: "tree-sha-123",
+				recursive: undefined,
+			});
+		});
+	});
+
+	describe("getBlob", () => {
+		test("calls git.getBlob with correct parameters", async () => {
+			const mockBlob = {
+				sha: "blob-sha-123",
+				content: Buffer.from("hello").toString("base64"),
+				encoding: "base64",
+			};
+			const mockGetBlob = mock(() => Promise.resolve({ data: mockBlob }));
+			const { client } = createMockedGitHubClient({ gitGetBlob: mockGetBlob });
+
+			const result = await client.getBlob("blob-sha-123");
+
+			expect(mockGetBlob).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				file_sha: "blob-sha-123",
+			});
+			expect(Buffer.from(result.content, "base64").toString()).toBe("hello");
+		});
+	});
+
+	describe("commitFileChanges", () => {
+		function createCommitMocks() {
+			return {
+				gitGetRef: mock(() =>
+					Promise.resolve({ data: { object: { sha: "head-sha" } } }),
+				),
+				gitGetCommit: mock(() =>
+					Promise.resolve({ data: { tree: { sha: "base-tree-sha" } } }),
+				),
+				gitCreateBlob: mock(() =>
+					Promise.resolve({ data: { sha: "symlink-blob-sha" } }),
+				),
+				gitCreateTree: mock(() =>
+					Promise.resolve({ data: { sha: "new-tree-sha" } }),
+				),
+				gitCreateCommit: mock(() =>
+					Promise.resolve({
+						data: {
+							sha: "new-commit-sha",
+							html_url: "https://github.com/commit/new-commit-sha",
+						},
+					}),
+				),
+				gitUpdateRef: mock(() => Promise.resolve({ data: {} })),
+			};
+		}
+
+		test("writes, symlinks, and deletes files in one commit", async () => {
+			const mocks = createCommitMocks();
+			const { client } = createMockedGitHubClient(mocks);
+
+			const result = await client.commitFileChanges(
+				[
+					{ path: "AGENTS.md", content: "# Root\n" },
+					{ path: "CLAUDE.md", content: "AGENTS.md", isSymlink: true },
+					{ path: "old/AGENTS.md", content: null },
+				],
+				"[INTENT] apply intent layer updates",
+				"feature",
+				"head-sha",
+			);
+
+			expect(result).toEqual({
+				sha: "new-commit-sha",
+				url: "https://github.com/commit/new-commit-sha",
+			});
+			expect(mocks.gitCreateTree).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				base_tree: "base-tree-sha",
+				tree: [
+					{
+						path: "AGENTS.md",
+						mode: "100644",
+						type: "blob",
+						content: "# Root\n",
+					},
+					{
+						path: "CLAUDE.md",
+						mode: "120000",
+						type: "blob",
+						sha: "symlink-blob-sha",
+					},
+					{ path: "old/AGENTS.md", mode: "100644", type: "blob", sha: null },
+				],
+			});
+			expect(mocks.gitCreateCommit).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				message: "[INTENT] apply intent layer updates",
+				tree: "new-tree-sha",
+				parents: ["head-sha"],
+				author: undefined,
+			});
+			expect(mocks.gitUpdateRef).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				ref: "heads/feature",
+				sha: "new-commit-sha",
+				force: false,
+			});
+		});
+
+		test("throws BranchConflictError when the branch moved from the expected head", async () => {
+			const mocks = createCommitMocks();
+			const { client } = createMockedGitHubClient(mocks);
+
+			await expect(
+				client.commitFileChanges(
+					[{ path: "AGENTS.md", content: "# Root\n" }],
+					"message",
+					"feature",
+					"analyzed-sha",
+				),
+			).rejects.toBeInstanceOf(BranchConflictError);
+			expect(mocks.gitCreateTree).not.toHaveBeenCalled();
+		});
+
+		test("throws BranchConflictError when the ref update is not a fast-forward", async () => {
+			const mocks = createCommitMocks();
+			mocks.gitUpdateRef.mockImplementation(() =>
+				Promise.reject(
+					Object.assign(new Error("Update is not a fast forward"), {
+						status: 422,
+					}),
+				),
+			);
+			const { client } = createMockedGitHubClient(mocks);
+
+			await expect(
+				client.commitFileChanges(
+					[{ path: "AGENTS.md", content: "# Root\n" }],
+					"message",
+					"feature",
+				),
+			).rejects.toThrow("no changes were applied");
+		});
+	});
+
 	describe("createPullRequest", () => {
 		test("calls pulls.create with correct parameters", async () => {
 			const mockPR = {
@@ -824,6 +1039,71 @@ describe("GitHubClient API methods with mocked responses", () => {
 		});
 	});
 
+	describe("createCheckRun", () => {
+		test("creates a completed check run on the head SHA", async () => {
+			const mockCreate = mock(() =>
+				Promise.resolve({ data: { id: 7, html_url: "https://example/7" } }),
+			);
+			const { client } = createMockedGitHubClient({ checksCreate: mockCreate });
+			const output = { title: "Title", summary: "Summary" };
+
+			const result = await client.createCheckRun(
+				"Intent Layer",
+				"head-sha",
+				"failure",
+				output,
+			);
+
+			expect(mockCreate).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				name: "Intent Layer",
+				head_sha: "head-sha",
+				status: "completed",
+				conclusion: "failure",
+				output,
+			});
+			expect(result.id).toBe(7);
+		});
+	});
+
+	describe("createCommentReaction", () => {
+		test("adds the reaction to the issue comment", async () => {
+			const mockCreate = mock(() =>
+				Promise.resolve({ data: { id: 3, content: "eyes" } }),
+			);
+			const { client } = createMockedGitHubClient({
+				reactionsCreateForIssueComment: mockCreate,
+			});
+
+			await client.createCommentReaction(123, "eyes");
+
+			expect(mockCreate).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				comment_id: 123,
+				content: "eyes",
+			});
+		});
+	});
+
+	describe("updateCheckRun", () => {
+		test("updates the check run output", async () => {
+			const mockUpdate = mock(() => Promise.resolve({ data: { id: 7 } }));
+			const { client } = createMockedGitHubClient({ checksUpdate: mockUpdate });
+			const output = { title: "Title", summary: "Summary", annotations: [] };
+
+			await client.updateCheckRun(7, output);
+
+			expect(mockUpdate).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				check_run_id: 7,
+				output,
+			});
+		});
+	});
+
 	describe("getDefaultBranch", () => {
 		test("calls repos.get and returns default_branch", async () => {
 			const mockRepo = {
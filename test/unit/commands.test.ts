@@ -0,0 +1,343 @@
+import { describe, expect, mock, test } from "bun:test";
+import type { GitHubClient } from "../../src/github/client";
+import {
+	applyAllSuggestions,
+	canRunCommands,
+	explainFileCoverage,
+	formatCommandReply,
+	parseIntentLayerCommand,
+	revertAllSuggestions,
+	skipPendingSuggestions,
+	validateCommandEvent,
+} from "../../src/github/commands";
+import {
+	generateComment,
+	markCommentAsResolved,
+	parseCommentMarker,
+	updateCommentMarkerWithCommit,
+} from "../../src/github/comments";
+import type { IntentFile } from "../../src/intent/detector";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+import type { IntentUpdate } from "../../src/opencode/output-schema";
+import { IntentLayerIgnore } from "../../src/patterns/ignore";
+
+describe("parseIntentLayerCommand", () => {
+	test("returns null for comments without a command", () => {
+		expect(parseIntentLayerCommand("Looks good to me")).toBeNull();
+		expect(parseIntentLayerCommand("/intent-layerx skip")).toBeNull();
+	});
+
+	test("parses commands without arguments", () => {
+		expect(parseIntentLayerCommand("/intent-layer apply-all")).toEqual({
+			command: { name: "apply-all" },
+		});
+		expect(parseIntentLayerCommand("/intent-layer revert-all")).toEqual({
+			command: { name: "revert-all" },
+		});
+		expect(
+			parseIntentLayerCommand("Thanks!\n\n  /intent-layer skip  "),
+		).toEqual({ command: { name: "skip" } });
+	});
+
+	test("parses path arguments, stripping backticks and ./", () => {
+		expect(
+			parseIntentLayerCommand(
+				"/intent-layer regenerate `./packages/api/AGENTS.md`",
+			),
+		).toEqual({
+			command: { name: "regenerate", nodePath: "packages/api/AGENTS.md" },
+		});
+		expect(parseIntentLayerCommand("/intent-layer explain src/foo.ts")).toEqual(
+			{ command: { name: "explain", filePath: "src/foo.ts" } },
+		);
+	});
+
+	test("ignores commands inside code blocks", () => {
+		expect(
+			parseIntentLayerCommand("Try this:\n```\n/intent-layer skip\n```"),
+		).toBeNull();
+	});
+
+	test("reports invalid commands", () => {
+		expect(parseIntentLayerCommand("/intent-layer")?.error).toBe(
+			"No command given",
+		);
+		expect(
+			parseIntentLayerCommand("/intent-layer frobnicate")?.error,
+		).toContain("Unknown command");
+		expect(parseIntentLayerCommand("/intent-layer skip now")?.error).toContain(
+			"does not take arguments",
+		);
+		expect(
+			parseIntentLayerCommand("/intent-layer regenerate")?.error,
+		).toContain("one intent file");
+		expect(
+			parseIntentLayerCommand("/intent-layer regenerate src/foo.ts")?.error,
+		).toContain("AGENTS.md or CLAUDE.md");
+		expect(
+			parseIntentLayerCommand("/intent-layer explain a b")?.error,
+		).toContain("one file");
+	});
+});
+
+describe("validateCommandEvent", () => {
+	const payload = {
+		action: "created",
+		comment: {
+			id: 5,
+			body: "/intent-layer skip",
+			user: { login: "octocat" },
+			author_association: "MEMBER",
+		},
+		issue: { number: 42, pull_request: {} },
+	};
+
+	test("extracts the command context from a created comment", () => {
+		expect(validateCommandEvent(payload)).toEqual({
+			commentId: 5,
+			commentBody: "/intent-layer skip",
+			issueNumber: 42,
+			isPullRequest: true,
+			author: "octocat",
+			authorAssociation: "MEMBER",
+		});
+	});
+
+	test("ignores edited comments", () => {
+		expect(validateCommandEvent({ ...payload, action: "edited" })).toBeNull();
+	});
+
+	test("returns null when the comment or issue is missing", () => {
+		expect(validateCommandEvent({ action: "created" })).toBeNull();
+		expect(
+			validateCommandEvent({ action: "created", comment: payload.comment }),
+		).toBeNull();
+	});
+});
+
+describe("canRunCommands", () => {
+	test("allows owners, members, and collaborators only", () => {
+		expect(canRunCommands("OWNER")).toBe(true);
+		expect(canRunCommands("MEMBER")).toBe(true);
+		expect(canRunCommands("COLLABORATOR")).toBe(true);
+		expect(canRunCommands("CONTRIBUTOR")).toBe(false);
+		expect(canRunCommands("NONE")).toBe(false);
+	});
+});
+
+/**
+ * Creates an intent update proposing a new node.
+ */
+function createUpdate(nodePath: string): IntentUpdate {
+	return {
+		nodePath,
+		action: "create",
+		reason: `Document ${nodePath}`,
+		suggestedContent: `# ${nodePath}\n`,
+	};
+}
+
+/**
+ * Creates a client serving the given comments and recording writes.
+ */
+function createCommandClient(
+	comments: Array<{ id: number; body: string }>,
+	overrides: Record<string, unknown> = {},
+) {
+	const updateComment = mock(async (_id: number, _body: string) => ({}));
+	const client = {
+		getIssueComments: mock(async () => comments),
+		updateComment,
+		...overrides,
+	} as unknown as GitHubClient;
+	return { client, updateComment };
+}
+
+describe("applyAllSuggestions", () => {
+	test("commits each pending suggestion and records it on the comment", async () => {
+		const pending = generateComment(createUpdate("src/AGENTS.md"), "head");
+		const committed = updateCommentMarkerWithCommit(
+			generateComment(createUpdate("lib/AGENTS.md"), "head"),
+			"abcdef1234567",
+		);
+		const resolved = markCommentAsResolved(
+			generateComment(createUpdate("old/AGENTS.md"), "head"),
+		);
+		const createOrUpdateFile = mock(async () => ({
+			commit: { sha: "1234567890abc", html_url: "url" },
+		}));
+		const { client, updateComment } = createCommandClient(
+			[
+				{ id: 1, body: pending },
+				{ id: 2, body: committed },
+				{ id: 3, body: resolved },
+			],
+			{
+				getFileContent: mock(async () => {
+					throw Object.assign(new Error("Not Found"), { status: 404 });
+				}),
+				createOrUpdateFile,
+			},
+		);
+
+		const result = await applyAllSuggestions(client, 42, "head", {
+			branch: "feature",
+		});
+
+		expect(result).toEqual({
+			success: true,
+			message: "- `src/AGENTS.md`: committed 1234567",
+		});
+		expect(createOrUpdateFile).toHaveBeenCalledTimes(1);
+		const [commentId, body] = updateComment.mock.calls[0] ?? [];
+		expect(commentId).toBe(1);
+		expect(body).toContain("- [x] Apply this change");
+		expect(parseCommentMarker(body ?? "")?.appliedCommit).toBe("1234567890abc");
+	});
+
+	test("resolves suggestions generated at an older head", async () => {
+		const { client } = createCommandClient([
+			{ id: 1, body: generateComment(createUpdate("src/AGENTS.md"), "old") },
+		]);
+
+		const result = await applyAllSuggestions(client, 42, "new", {
+			branch: "feature",
+		});
+
+		expect(result.success).toBe(true);
+		expect(result.message).toContain("resolved (PR head has changed)");
+	});
+
+	test("reports when nothing is pending", async () => {
+		const { client } = createCommandClient([]);
+
+		const result = await applyAllSuggestions(client, 42, "head", {
+			branch: "feature",
+		});
+
+		expect(result.message).toBe(
+			"No pending intent layer suggestions to apply.",
+		);
+	});
+});
+
+describe("revertAllSuggestions", () => {
+	test("reverts committed suggestions newest first and reports failures", async () => {
+		const { client } = createCommandClient([
+			{ id: 1, body: generateComment(createUpdate("src/AGENTS.md"), "head") },
+			{
+				id: 2,
+				body: updateCommentMarkerWithCommit(
+					generateComment(createUpdate("a/AGENTS.md"), "head"),
+					"aaaaaaa",
+				),
+			},
+			{
+				id: 3,
+				body: updateCommentMarkerWithCommit(
+					generateComment(createUpdate("b/AGENTS.md"), "head"),
+					"bbbbbbb",
+				),
+			},
+		]);
+
+		const result = await revertAllSuggestions(client, 42, {
+			branch: "feature",
+		});
+
+		expect(result.success).toBe(false);
+		const lines = result.message.split("\n");
+		expect(lines).toHaveLength(2);
+		expect(lines[0]).toStartWith("- `b/AGENTS.md`: failed");
+		expect(lines[1]).toStartWith("- `a/AGENTS.md`: failed");
+	});
+
+	test("reports when nothing is committed", async () => {
+		const { client } = createCommandClient([
+			{ id: 1, body: generateComment(createUpdate("src/AGENTS.md"), "head") },
+		]);
+
+		const result = await revertAllSuggestions(client, 42, {
+			branch: "feature",
+		});
+
+		expect(result).toEqual({
+			success: true,
+			message: "No committed intent layer suggestions to revert.",
+		});
+	});
+});
+
+describe("skipPendingSuggestions", () => {
+	test("resolves pending suggestions and keeps committed ones", async () => {
+		const { client, updateComment } = createCommandClient([
+			{ id: 1, body: generateComment(createUpdate("src/AGENTS.md"), "head") },
+			{
+				id: 2,
+				body: updateCommentMarkerWithCommit(
+					generateComment(createUpdate("lib/AGENTS.md"), "head"),
+					"abcdef1",
+				),
+			},
+		]);
+
+		const result = await skipPendingSuggestions(client, 42);
+
+		expect(result.message).toBe(
+			"Skipped 1 pending suggestion: `src/AGENTS.md`",
+		);
+		expect(updateComment).toHaveBeenCalledTimes(1);
+		expect(updateComment.mock.calls[0]?.[0]).toBe(1);
+		expect(updateComment.mock.calls[0]?.[1]).toContain("**RESOLVED**");
+	});
+});
+
+describe("explainFileCoverage", () => {
+	const files: IntentFile[] = ["AGENTS.md", "src/AGENTS.md"].map((path) => ({
+		path,
+		type: "agents",
+		sha: `sha-${path}`,
+		isSymlink: false,
+	}));
+	const hierarchy = buildHierarchy(files, "agents");
+
+	test("lists the covering nodes nearest first", () => {
+		const result = explainFileCoverage("src/api/foo.ts", [hierarchy]);
+
+		expect(result.message).toBe(
+			"- AGENTS.md: covered by `src/AGENTS.md` → `AGENTS.md` (nearest first)",
+		);
+	});
+
+	test("mentions ignored and uncovered files", () => {
+		const ignore = new IntentLayerIgnore().add("*.snap");
+
+		const result = explainFileCoverage(
+			"test/a.snap",
+			[buildHierarchy([], "claude")],
+			ignore,
+		);
+
+		expect(result.message).toContain("excluded by `.intentlayerignore`");
+		expect(result.message).toContain(
+			"- CLAUDE.md: no intent node covers `test/a.snap`",
+		);
+	});
+});
+
+describe("formatCommandReply", () => {
+	test("quotes the command and flags failures", () => {
+		expect(
+			formatCommandReply(
+				{ name: "skip" },
+				{ success: true, message: "Skipped 1 pending suggestion" },
+			),
+		).toBe("**`/intent-layer skip`**\n\nSkipped 1 pending suggestion\n");
+		expect(
+			formatCommandReply(
+				{ name: "explain", filePath: "src/a.ts" },
+				{ success: false, message: "Boom" },
+			),
+		).toStartWith("**`/intent-layer explain src/a.ts`** (with errors)");
+	});
+});
@@ -1,29 +1,40 @@
 import { describe, expect, mock, test } from "bun:test";
 import type { GitHubClient } from "../../src/github/client";
 import {
+	addCommittedStatus,
+	addNotAppliedStatus,
 	type CommentMarkerData,
+	ContentPayloadError,
 	clearCommentMarkerAppliedCommit,
+	computeContentChecksum,
 	detectCheckboxState,
 	findCommentForNode,
 	findIntentLayerComments,
 	generateComment,
 	generateCommentMarker,
+	generateContentPayload,
 	generateIntentLayerLinkComment,
 	hasCheckbox,
 	hasIntentLayerLinkMarker,
 	hasIntentLayerMarker,
+	INTENT_LAYER_CONTENT_MARKER_PREFIX,
 	INTENT_LAYER_LINK_MARKER,
 	INTENT_LAYER_MARKER_PREFIX,
 	INTENT_LAYER_MARKER_SUFFIX,
 	isCheckboxChecked,
+	isCommentForProposal,
 	isCommentResolved,
 	markCommentAsResolved,
+	NOT_APPLIED_STATUS_MARKER,
 	parseCommentMarker,
+	parseContentPayload,
 	postCommentsForUpdates,
 	postIntentLayerLinkComment,
+	removeStatusMessage,
 	resolveAndPostComments,
 	shouldSkipCheckboxProcessing,
 	updateCheckboxState,
+	updateCommentMarkerHeadSha,
 	updateCommentMarkerWithCommit,
 } from "../../src/github/comments";
 import type { IntentUpdate } from "../../src/opencode/output-schema";
@@ -68,6 +79,18 @@ describe("generateCommentMarker", () => {
 		expect(marker).toContain("appliedCommit=def456");
 	});
 
+	test("generates marker with action", () => {
+		const data: CommentMarkerData = {
+			nodePath: "packages/api/AGENTS.md",
+			headSha: "abc123",
+			action: "delete",
+		};
+
+		const marker = generateCommentMarker(data);
+
+		expect(marker).toContain("action=delete");
+	});
+
 	test("properly escapes paths with special characters", () => {
 		const data: CommentMarkerData = {
 			nodePath: "packages/my package/AGENTS.md",
@@ -105,6 +128,22 @@ describe("parseCommentMarker", () => {
 		expect(result?.headSha).toBe("abc123");
 	});
 
+	test("parses marker with action", () => {
+		const marker = `${INTENT_LAYER_MARKER_PREFIX} node=AGENTS.md appliedCommit= headSha=abc123 action=delete ${INTENT_LAYER_MARKER_SUFFIX}`;
+
+		const result = parseCommentMarker(marker);
+
+		expect(result?.action).toBe("delete");
+	});
+
+	test("leaves action undefined for markers without one", () => {
+		const marker = `${INTENT_LAYER_MARKER_PREFIX} node=AGENTS.md appliedCommit= headSha=abc123 ${INTENT_LAYER_MARKER_SUFFIX}`;
+
+		const result = parseCommentMarker(marker);
+
+		expect(result?.action).toBeUndefined();
+	});
+
 	test("parses marker embedded in comment body", () => {
 		const body = `${INTENT_LAYER_MARKER_PREFIX} node=AGENTS.md appliedCommit= headSha=abc123 ${INTENT_LAYER_MARKER_SUFFIX}
 
@@ -212,6 +251,99 @@ describe("generateComment", () => {
 
 		expect(comment).toContain("otherNode=packages%2Fapi%2FCLAUDE.md");
 	});
+
+	test("embeds hidden content payload for create and update", () => {
+		const update: IntentUpdate = {
+			nodePath: "AGENTS.md",
+			action: "create",
+			reason: "Initialize intent layer",
+			suggestedContent: "# Root\n",
+		};
+
+		const comment = generateComment(update, "abc123");
+
+		expect(parseCommentMarker(comment)?.nodePath).toBe("AGENTS.md");
+		expect(parseContentPayload(comment)?.content).toBe("# Root\n");
+	});
+
+	test("omits content payload for delete", () => {
+		const update: IntentUpdate = {
+			nodePath: "old/AGENTS.md",
+			action: "delete",
+			reason: "Directory removed",
+			currentContent: "# Old\n",
+		};
+
+		const comment = generateComment(update, "abc123");
+
+		expect(comment).not.toContain(INTENT_LAYER_CONTENT_MARKER_PREFIX);
+	});
+
+	test("records the action in the marker", () => {
+		const update: IntentUpdate = {
+			nodePath: "old/AGENTS.md",
+			action: "delete",
+			reason: "Directory removed",
+			currentContent: "# Old\n",
+		};
+
+		const comment = generateComment(update, "abc123");
+		const updated = updateCommentMarkerWithCommit(comment, "commitsha456");
+
+		expect(parseCommentMarker(comment)?.action).toBe("delete");
+		expect(parseCommentMarker(updated)?.action).toBe("delete");
+	});
+});
+
+describe("content payload", () => {
+	test("round-trips content exactly", () => {
+		const content =
+			"# Title\r\n\n```md\n<!-- nested -->\n```\n\t- ünïcode ✓\n\n";
+
+		const payload = generateContentPayload(content);
+		const parsed = parseContentPayload(`intro\n${payload}\noutro`);
+
+		expect(parsed?.content).toBe(content);
+		expect(parsed?.checksum).toBe(computeContentChecksum(content));
+	});
+
+	test("round-trips empty content", () => {
+		expect(parseContentPayload(generateContentPayload(""))?.content).toBe("");
+	});
+
+	test("parses payload after line ending normalization", () => {
+		const payload = generateContentPayload("# Root\n").replace(/\n/g, "\r\n");
+
+		expect(parseContentPayload(payload)?.content).toBe("# Root\n");
+	});
+
+	test("returns null when comment has no payload", () => {
+		expect(parseContentPayload("Just a comment")).toBeNull();
+	});
+
+	test("throws when checksum does not match", () => {
+		const payload = generateContentPayload("# Root").replace(
+			/sha256=[0-9a-f]{64}/,
+			`sha256=${computeContentChecksum("# Other")}`,
+		);
+
+		expect(() => parseContentPayload(payload)).toThrow(
+			"does not match its checksum",
+		);
+	});
+
+	test("throws when payload is truncated", () => {
+		const payload = generateContentPayload("# Root\n".repeat(50));
+		const truncated = payload.slice(0, payload.length - 20);
+
+		expect(() => parseContentPayload(truncated)).toThrow(ContentPayloadError);
+	});
+
+	test("throws when payload data cannot be decoded", () => {
+		const payload = `${INTENT_LAYER_CONTENT_MARKER_PREFIX} sha256=${computeContentChecksum("x")}\nAAAA\n-->`;
+
+		expect(() => parseContentPayload(payload)).toThrow("could not be decoded");
+	});
 });
 
 describe("updateCommentMarkerWithCommit", () => {
@@ -438,6 +570,45 @@ describe("markCommentAsResolved", () => {
 	});
 });
 
+describe("addNotAppliedStatus", () => {
+	const comment = updateCheckboxState(
+		generateComment(
+			{
+				nodePath: "AGENTS.md",
+				action: "update",
+				reason: "Test",
+				currentContent: "old\n",
+				suggestedContent: "new\n",
+			},
+			"abc123",
+		),
+		true,
+	);
+
+	test("adds the fork repository after the checkbox", () => {
+		const body = addNotAppliedStatus(comment, "contributor/repo");
+
+		expect(body).toContain(
+			`- [x] Apply this change\n\n${NOT_APPLIED_STATUS_MARKER} - The PR branch lives in \`contributor/repo\``,
+		);
+	});
+
+	test("replaces an existing status message", () => {
+		const committed = addCommittedStatus(comment, "abcdef1234567");
+
+		const body = addNotAppliedStatus(committed, null);
+
+		expect(body).not.toContain("**COMMITTED**");
+		expect(body).toContain("lives in a fork");
+	});
+
+	test("is removed with other status messages", () => {
+		const body = addNotAppliedStatus(comment, "contributor/repo");
+
+		expect(removeStatusMessage(body)).toBe(comment);
+	});
+});
+
 describe("isCommentResolved", () => {
 	test("returns true for resolved comment", () => {
 		const body = "**RESOLVED** - Some message\n\nContent";
@@ -894,6 +1065,219 @@ describe("resolveAndPostComments", () => {
 	});
 });
 
+describe("isCommentForProposal", () => {
+	const update: IntentUpdate = {
+		nodePath: "src/AGENTS.md",
+		action: "update",
+		reason: "Parser change",
+		currentContent: "old\n",
+		suggestedContent: "new\n",
+	};
+
+	test("matches a comment generated at another head SHA", () => {
+		expect(
+			isCommentForProposal(generateComment(update, "oldsha"), update),
+		).toBe(true);
+	});
+
+	test("ignores checkbox state, status, and applied commit", () => {
+		const committed = addCommittedStatus(
+			updateCommentMarkerWithCommit(
+				updateCheckboxState(generateComment(update, "oldsha"), true),
+				"abcdef1234567",
+			),
+			"abcdef1234567",
+		);
+
+		expect(isCommentForProposal(committed, update)).toBe(true);
+	});
+
+	test("does not match a changed proposal", () => {
+		const comment = generateComment(update, "oldsha");
+
+		expect(
+			isCommentForProposal(comment, { ...update, suggestedContent: "newer\n" }),
+		).toBe(false);
+		expect(
+			isCommentForProposal(comment, { ...update, reason: "Other reason" }),
+		).toBe(false);
+	});
+});
+
+describe("updateCommentMarkerHeadSha", () => {
+	test("replaces only the head SHA in the marker", () => {
+		const comment = generateComment(
+			{
+				nodePath: "AGENTS.md",
+				action: "create",
+				reason: "Init",
+				suggestedContent: "# Root\n",
+			},
+			"oldsha",
+		);
+
+		const updated = updateCommentMarkerHeadSha(comment, "newsha");
+
+		expect(parseCommentMarker(updated)?.headSha).toBe("newsha");
+		expect(updated.replace("newsha", "oldsha")).toBe(comment);
+	});
+});
+
+describe("resolveAndPostComments reconciliation", () => {
+	const update: IntentUpdate = {
+		nodePath: "src/AGENTS.md",
+		action: "update",
+		reason: "Parser change",
+		currentContent: "old\n",
+		suggestedContent: "new\n",
+	};
+
+	/**
+	 * Creates a client serving the given comments and recording writes.
+	 */
+	function createReconcileClient(
+		comments: Array<{ id: number; body: string }>,
+	) {
+		const updateComment = mock(async (_id: number, _body: string) => ({}));
+		const createComment = mock(async () => ({
+			id: 999,
+			html_url: "https://github.com/test/999",
+		}));
+		const client = createMockClient({
+			getIssueComments: mock(async () =>
+				comments.map((c) => ({
+					...c,
+					html_url: `https://github.com/test/${c.id}`,
+				})),
+			),
+			updateComment,
+			createComment,
+		});
+		return { client, updateComment, createComment };
+	}
+
+	test("leaves identical proposals alone apart from the head SHA", async () => {
+		const body = generateComment(update, "oldsha");
+		const { client, updateComment, createComment } = createReconcileClient([
+			{ id: 1, body },
+		]);
+
+		const result = await resolveAndPostComments(client, 42, [update], "newsha");
+
+		expect(result.unchangedComments.map((c) => c.commentId)).toEqual([1]);
+		expect(result.resolvedComments).toEqual([]);
+		expect(result.postedComments).toEqual([]);
+		expect(createComment).not.toHaveBeenCalled();
+		expect(updateComment).toHaveBeenCalledWith(
+			1,
+			updateCommentMarkerHeadSha(body, "newsha"),
+		);
+	});
+
+	test("does not touch identical proposals at the same head", async () => {
+		const { client, updateComment } = createReconcileClient([
+			{ id: 1, body: generateComment(update, "headsha") },
+		]);
+
+		const result = await resolveAndPostComments(
+			client,
+			42,
+			[update],
+			"headsha",
+		);
+
+		expect(result.unchangedComments).toHaveLength(1);
+		expect(updateComment).not.toHaveBeenCalled();
+	});
+
+	test("rewrites changed proposals in place", async () => {
+		const { client, updateComment, createComment } = createReconcileClient([
+			{ id: 1, body: generateComment(update, "oldsha") },
+		]);
+		const changed = { ...update, suggestedContent: "newer\n" };
+
+		const result = await resolveAndPostComments(
+			client,
+			42,
+			[changed],
+			"newsha",
+		);
+
+		expect(result.updatedComments.map((c) => c.commentId)).toEqual([1]);
+		expect(createComment).not.toHaveBeenCalled();
+		expect(updateComment).toHaveBeenCalledWith(
+			1,
+			generateComment(changed, "newsha"),
+		);
+	});
+
+	test("keeps committed comments for nodes that no longer need changes", async () => {
+		const committed = addCommittedStatus(
+			updateCommentMarkerWithCommit(
+				updateCheckboxState(generateComment(update, "oldsha"), true),
+				"abcdef1234567",
+			),
+			"abcdef1234567",
+		);
+		const { client, updateComment } = createReconcileClient([
+			{ id: 1, body: committed },
+		]);
+
+		const result = await resolveAndPostComments(client, 42, [], "newsha");
+
+		expect(result.resolvedComments).toEqual([]);
+		expect(updateComment).not.toHaveBeenCalled();
+	});
+
+	test("posts a new comment when a committed node gets a new proposal", async () => {
+		const committed = updateCommentMarkerWithCommit(
+			updateCheckboxState(generateComment(update, "oldsha"), true),
+			"abcdef1234567",
+		);
+		const { client, updateComment, createComment } = createReconcileClient([
+			{ id: 1, body: committed },
+		]);
+
+		const result = await resolveAndPostComments(
+			client,
+			42,
+			[{ ...update, currentContent: "new\n", suggestedContent: "newer\n" }],
+			"newsha",
+		);
+
+		expect(result.postedComments).toHaveLength(1);
+		expect(createComment).toHaveBeenCalledTimes(1);
+		expect(updateComment).not.toHaveBeenCalled();
+	});
+
+	test("resolves older duplicate comments for the same node", async () => {
+		const { client, updateComment } = createReconcileClient([
+			{ id: 1, body: generateComment(update, "sha1") },
+			{ id: 2, body: generateComment(update, "sha2") },
+		]);
+
+		const result = await resolveAndPostComments(client, 42, [update], "sha2");
+
+		expect(result.unchangedComments.map((c) => c.commentId)).toEqual([2]);
+		expect(result.resolvedComments.map((c) => c.commentId)).toEqual([1]);
+		expect(updateComment).toHaveBeenCalledTimes(1);
+	});
+
+	test("leaves comments outside the given node paths alone", async () => {
+		const other = { ...update, nodePath: "lib/AGENTS.md" };
+		const { client, updateComment } = createReconcileClient([
+			{ id: 1, body: generateComment(other, "sha1") },
+		]);
+
+		const result = await resolveAndPostComments(client, 42, [], "sha2", {
+			nodePaths: new Set(["src/AGENTS.md"]),
+		});
+
+		expect(result.resolvedComments).toEqual([]);
+		expect(updateComment).not.toHaveBeenCalled();
+	});
+});
+
 describe("generateIntentLayerLinkComment", () => {
 	test("generates comment with correct structure", () => {
 		const comment = generateIntentLayerLinkComment(
@@ -1,13 +1,25 @@
 import { describe, expect, mock, test } from "bun:test";
-import type { GitHubClient } from "../../src/github/client";
+import {
+	BranchConflictError,
+	type FileChange,
+	type GitHubClient,
+} from "../../src/github/client";
 import {
 	applyUpdatesToBranch,
+	createAuditBranch,
 	createIntentAddCommit,
+	createIntentDeleteCommit,
 	createIntentLayerBranch,
 	createIntentRevertCommit,
 	createIntentUpdateCommit,
+	exportDerivedFiles,
 	generateAddCommitMessage,
+	generateAuditBranchName,
+	generateAuditPRBody,
+	generateAuditPRTitle,
 	generateBatchCommitMessage,
+	generateDeleteCommitMessage,
+	generateExportCommitMessage,
 	generateIntentLayerBranchName,
 	generateIntentLayerPRBody,
 	generateIntentLayerPRTitle,
@@ -71,6 +83,26 @@ describe("generateUpdateCommitMessage", () => {
 	});
 });
 
+describe("generateDeleteCommitMessage", () => {
+	test("generates commit message with path and reason", () => {
+		const message = generateDeleteCommitMessage(
+			"packages/legacy/AGENTS.md",
+			"Package was removed",
+		);
+
+		expect(message).toBe(
+			"[INTENT:DELETE] packages/legacy/AGENTS.md - Package was removed",
+		);
+	});
+
+	test("truncates long reasons to 100 characters", () => {
+		const message = generateDeleteCommitMessage("AGENTS.md", "D".repeat(150));
+
+		expect(message).toContain("...");
+		expect(message.length).toBeLessThan(200);
+	});
+});
+
 describe("generateRevertCommitMessage", () => {
 	test("generates commit message with default reason", () => {
 		const message = generateRevertCommitMessage("packages/api/AGENTS.md");
@@ -109,8 +141,8 @@ describe("getCommitPrefix", () => {
 		expect(getCommitPrefix("update")).toBe("[INTENT:UPDATE]");
 	});
 
-	test("returns REVERT for delete action", () => {
-		expect(getCommitPrefix("delete")).toBe("[INTENT:REVERT]");
+	test("returns DELETE for delete action", () => {
+		expect(getCommitPrefix("delete")).toBe("[INTENT:DELETE]");
 	});
 });
 
@@ -148,6 +180,17 @@ describe("parseIntentCommitMessage", () => {
 		expect(result?.reason).toBe("Reverted via checkbox");
 	});
 
+	test("parses DELETE commit message", () => {
+		const result = parseIntentCommitMessage(
+			"[INTENT:DELETE] packages/legacy/AGENTS.md - Package was removed",
+		);
+
+		expect(result).not.toBeNull();
+		expect(result?.type).toBe("DELETE");
+		expect(result?.nodePath).toBe("packages/legacy/AGENTS.md");
+		expect(result?.reason).toBe("Package was removed");
+	});
+
 	test("returns null for non-intent commit", () => {
 		const result = parseIntentCommitMessage("feat: add new feature");
 
@@ -188,6 +231,12 @@ describe("isIntentCommit", () => {
 		).toBe(true);
 	});
 
+	test("returns true for DELETE commit", () => {
+		expect(
+			isIntentCommit("[INTENT:DELETE] AGENTS.md - Delete intent file"),
+		).toBe(true);
+	});
+
 	test("returns false for regular commit", () => {
 		expect(isIntentCommit("feat: add new feature")).toBe(false);
 	});
@@ -701,6 +750,135 @@ describe("createIntentUpdateCommit", () => {
 	});
 });
 
+describe("createIntentDeleteCommit", () => {
+	test("deletes an existing intent file", async () => {
+		const mockGetFileContent = mock(async (path: string) => {
+			if (path === "packages/legacy/AGENTS.md") {
+				return { sha: "existingsha", type: "file", content: "" };
+			}
+			const error = new Error("Not Found") as Error & { status: number };
+			error.status = 404;
+			throw error;
+		});
+
+		const mockDeleteFile = mock(async () => ({
+			commit: {
+				sha: "deletecommitsha",
+				html_url: "https://github.com/owner/repo/commit/deletecommitsha",
+			},
+		}));
+
+		const client = {
+			getFileContent: mockGetFileContent,
+			deleteFile: mockDeleteFile,
+			deleteFiles: mock(async () => ({})),
+		} as unknown as GitHubClient;
+
+		const update: IntentUpdate = {
+			nodePath: "packages/legacy/AGENTS.md",
+			otherNodePath: "packages/legacy/CLAUDE.md",
+			action: "delete",
+			reason: "Package was removed",
+			currentContent: "# Legacy\n",
+		};
+
+		const result = await createIntentDeleteCommit(client, update, {
+			branch: "feature-branch",
+		});
+
+		expect(result.sha).toBe("deletecommitsha");
+		expect(result.filePath).toBe("packages/legacy/AGENTS.md");
+		expect(result.message).toBe(
+			"[INTENT:DELETE] packages/legacy/AGENTS.md - Package was removed",
+		);
+		expect(mockDeleteFile).toHaveBeenCalledWith(
+			"packages/legacy/AGENTS.md",
+			"[INTENT:DELETE] packages/legacy/AGENTS.md - Package was removed",
+			"feature-branch",
+			"existingsha",
+		);
+	});
+
+	test("deletes both files in one commit when otherNodePath exists", async () => {
+		const mockGetFileContent = mock(async (path: string) => ({
+			sha: `sha-${path}`,
+			type: "file",
+			content: "",
+		}));
+
+		const mockDeleteFiles = mock(async () => ({
+			sha: "bothdeletedsha",
+			url: "https://github.com/owner/repo/commit/bothdeletedsha",
+		}));
+		const mockDeleteFile = mock(async () => ({}));
+
+		const client = {
+			getFileContent: mockGetFileContent,
+			deleteFile: mockDeleteFile,
+			deleteFiles: mockDeleteFiles,
+		} as unknown as GitHubClient;
+
+		const update: IntentUpdate = {
+			nodePath: "packages/legacy/AGENTS.md",
+			otherNodePath: "packages/legacy/CLAUDE.md",
+			action: "delete",
+			reason: "Package was removed",
+		};
+
+		const result = await createIntentDeleteCommit(client, update, {
+			branch: "feature-branch",
+			symlink: true,
+		});
+
+		expect(result.sha).toBe("bothdeletedsha");
+		expect(result.filePath).toBe("packages/legacy/AGENTS.md");
+		expect(mockDeleteFiles).toHaveBeenCalledWith(
+			["packages/legacy/AGENTS.md", "packages/legacy/CLAUDE.md"],
+			"[INTENT:DELETE] packages/legacy/AGENTS.md - Package was removed",
+			"feature-branch",
+		);
+		expect(mockDeleteFile).not.toHaveBeenCalled();
+	});
+
+	test("throws if file does not exist", async () => {
+		const mockGetFileContent = mock(async () => {
+			const error = new Error("Not Found") as Error & { status: number };
+			error.status = 404;
+			throw error;
+		});
+
+		const client = {
+			getFileContent: mockGetFileContent,
+		} as unknown as GitHubClient;
+
+		const update: IntentUpdate = {
+			nodePath: "packages/missing/AGENTS.md",
+			action: "delete",
+			reason: "Remove",
+		};
+
+		await expect(
+			createIntentDeleteCommit(client, update, { branch: "feature-branch" }),
+		).rejects.toThrow("file does not exist");
+	});
+
+	test("throws if action is not delete", async () => {
+		const client = {} as GitHubClient;
+
+		const update: IntentUpdate = {
+			nodePath: "AGENTS.md",
+			action: "update",
+			reason: "Update",
+			currentContent: "# Old\n",
+			suggestedContent: "# New\n",
+		};
+
+		await expect(
+			createIntentDeleteCommit(client, update, { branch: "feature-branch" }),
+		).rejects.toThrow('requires action="delete"');
+	});
+});
+
 describe("commit message round-trip", () => {
 	test("generated messages can be parsed", () => {
 		const addMessage = generateAddCommitMessage(
@@ -727,6 +905,14 @@ describe("commit message round-trip", () => {
 		const parsedRevert = parseIntentCommitMessage(revertMessage);
 		expect(parsedRevert?.type).toBe("REVERT");
 		expect(parsedRevert?.nodePath).toBe("AGENTS.md");
+
+		const deleteMessage = generateDeleteCommitMessage(
+			"packages/legacy/AGENTS.md",
+			"Package was removed",
+		);
+		const parsedDelete = parseIntentCommitMessage(deleteMessage);
+		expect(parsedDelete?.type).toBe("DELETE");
+		expect(parsedDelete?.nodePath).toBe("packages/legacy/AGENTS.md");
 	});
 });
 
@@ -872,6 +1058,117 @@ describe("createIntentRevertCommit", () => {
 		);
 	});
 
+	test("recreates file that was removed by a delete commit", async () => {
+		const mockGetCommit = mock(async () => ({
+			sha: "deletecommitsha",
+			parents: [{ sha: "parentsha123" }],
+		}));
+
+		const mockGetFileContent = mock(async (_path: string, ref?: string) => {
+			if (ref === "parentsha123") {
+				return {
+					sha: "oldcontentsha",
+					type: "file",
+					content: Buffer.from("# Legacy\n").toString("base64"),
+				};
+			}
+			// File no longer exists on the branch
+			const error = new Error("Not Found") as Error & { status: number };
+			error.status = 404;
+			throw error;
+		});
+
+		const mockCreateOrUpdateFile = mock(async () => ({
+			commit: {
+				sha: "revertcommitsha",
+				html_url: "https://github.com/owner/repo/commit/revertcommitsha",
+			},
+			content: { sha: "blobsha" },
+		}));
+
+		const client = {
+			getCommit: mockGetCommit,
+			getFileContent: mockGetFileContent,
+			createOrUpdateFile: mockCreateOrUpdateFile,
+		} as unknown as GitHubClient;
+
+		const result = await createIntentRevertCommit(client, {
+			branch: "feature-branch",
+			appliedCommit: "deletecommitsha",
+			nodePath: "packages/legacy/AGENTS.md",
+		});
+
+		expect(result.sha).toBe("revertcommitsha");
+		expect(mockCreateOrUpdateFile).toHaveBeenCalledWith(
+			"packages/legacy/AGENTS.md",
+			"# Legacy\n",
+			expect.stringContaining("[INTENT:REVERT]"),
+			"feature-branch",
+			undefined,
+		);
+	});
+
+	test("recreates source file and symlink removed by a delete commit", async () => {
+		const mockGetCommit = mock(async () => ({
+			sha: "deletecommitsha",
+			parents: [{ sha: "parentsha123" }],
+		}));
+
+		const mockGetFileContent = mock(async (_path: string, ref?: string) => {
+			if (ref === "parentsha123") {
+				return {
+					sha: "oldcontentsha",
+					type: "file",
+					content: Buffer.from("# Legacy\n").toString("base64"),
+				};
+			}
+			const error = new Error("Not Found") as Error & { status: number };
+			error.status = 404;
+			throw error;
+		});
+
+		const mockCreateFilesWithSymlinks = mock(async () => ({
+			sha: "restoredsha",
+			url: "https://github.com/owner/repo/commit/restoredsha",
+		}));
+		const mockCreateOrUpdateFile = mock(async () => ({}));
+
+		const client = {
+			getCommit: mockGetCommit,
+			getFileContent: mockGetFileContent,
+			createFilesWithSymlinks: mockCreateFilesWithSymlinks,
+			createOrUpdateFile: mockCreateOrUpdateFile,
+		} as unknown as GitHubClient;
+
+		const result = await createIntentRevertCommit(client, {
+			branch: "feature-branch",
+			appliedCommit: "deletecommitsha",
+			nodePath: "packages/legacy/AGENTS.md",
+			otherNodePath: "packages/legacy/CLAUDE.md",
+			symlink: true,
+			symlinkSource: "agents",
+		});
+
+		expect(result.sha).toBe("restoredsha");
+		expect(mockCreateFilesWithSymlinks).toHaveBeenCalledWith(
+			[
+				{
+					path: "packages/legacy/AGENTS.md",
+					content: "# Legacy\n",
+					isSymlink: false,
+				},
+				{
+					path: "packages/legacy/CLAUDE.md",
+					content: "AGENTS.md",
+					isSymlink: true,
+				},
+			],
+			expect.stringContaining("[INTENT:REVERT]"),
+			"feature-branch",
+		);
+		expect(mockCreateOrUpdateFile).not.toHaveBeenCalled();
+	});
+
 	test("throws if file no longer exists on branch", async () => {
 		const mockGetCommit = mock(async () => ({
 			sha: "appliedcommitsha",
@@ -1470,27 +1767,53 @@ describe("createIntentLayerBranch", () => {
 });
 
 describe("applyUpdatesToBranch", () => {
-	test("applies multiple create updates successfully", async () => {
-		let commitCount = 0;
-		const mockGetFileContent = mock(async () => {
+	/**
+	 * Create a mock client whose branch contains the given files.
+	 */
+	function createBatchClient(existingFiles: string[] = []) {
+		const mockGetFileContent = mock(async (path: string, _ref?: string) => {
+			if (existingFiles.includes(path)) {
+				return { sha: `sha-${path}`, type: "file", content: "" };
+			}
 			const error = new Error("Not Found") as Error & { status: number };
 			error.status = 404;
 			throw error;
 		});
-
-		const mockCreateOrUpdateFile = mock(async (_path: string) => ({
-			commit: {
-				sha: `sha${++commitCount}`,
-				html_url: `https://github.com/commit/sha${commitCount}`,
-			},
-			content: { sha: "blobsha" },
+		const mockGetRef = mock(async () => ({
+			ref: "refs/heads/intent-layer/42",
+			object: { sha: "headsha", type: "commit" },
 		}));
+		const mockCommitFileChanges = mock(
+			async (
+				_changes: FileChange[],
+				_message: string,
+				_branch: string,
+				_expectedHeadSha?: string,
+			) => ({
+				sha: "batchsha",
+				url: "https://github.com/commit/batchsha",
+			}),
+		);
 
 		const client = {
 			getFileContent: mockGetFileContent,
-			createOrUpdateFile: mockCreateOrUpdateFile,
+			getRef: mockGetRef,
+			commitFileChanges: mockCommitFileChanges,
 		} as unknown as GitHubClient;
 
+		return {
+			client,
+			mocks: {
+				getFileContent: mockGetFileContent,
+				getRef: mockGetRef,
+				commitFileChanges: mockCommitFileChanges,
+			},
+		};
+	}
+
+	test("applies all updates in a single commit", async () => {
+		const { client, mocks } = createBatchClient();
+
 		const updates: IntentUpdate[] = [
 			{
 				nodePath: "packages/api/AGENTS.md",
@@ -1513,46 +1836,74 @@ describe("applyUpdatesToBranch", () => {
 		expect(result.appliedCount).toBe(2);
 		expect(result.totalCount).toBe(2);
 		expect(result.errors).toHaveLength(0);
-		expect(result.commits).toHaveLength(2);
-		expect(result.commits[0]?.filePath).toBe("packages/api/AGENTS.md");
-		expect(result.commits[1]?.filePath).toBe("packages/core/AGENTS.md");
+		expect(result.commit).toEqual({
+			sha: "batchsha",
+			url: "https://github.com/commit/batchsha",
+			message: "[INTENT] apply intent layer updates",
+			filePaths: ["packages/api/AGENTS.md", "packages/core/AGENTS.md"],
+		});
+		expect(mocks.commitFileChanges).toHaveBeenCalledTimes(1);
+		expect(mocks.commitFileChanges).toHaveBeenCalledWith(
+			[
+				{ path: "packages/api/AGENTS.md", content: "# API\n" },
+				{ path: "packages/core/AGENTS.md", content: "# Core\n" },
+			],
+			"[INTENT] apply intent layer updates",
+			"intent-layer/42",
+			"headsha",
+		);
 	});
 
-	test("applies multiple update updates successfully", async () => {
-		let commitCount = 0;
-		const mockGetFileContent = mock(async () => ({
-			sha: `existingsha${++commitCount}`,
-			type: "file",
-			content: "SGVsbG8=",
-		}));
+	test("validates and commits against the expected head SHA", async () => {
+		const { client, mocks } = createBatchClient(["AGENTS.md"]);
 
-		const mockCreateOrUpdateFile = mock(async (_path: string) => ({
-			commit: {
-				sha: `newsha${commitCount}`,
-				html_url: `https://github.com/commit/newsha${commitCount}`,
+		const updates: IntentUpdate[] = [
+			{
+				nodePath: "AGENTS.md",
+				action: "update",
+				reason: "Update root",
+				currentContent: "# Old\n",
+				suggestedContent: "# New\n",
 			},
-			content: { sha: "blobsha" },
-		}));
+		];
 
-		const client = {
-			getFileContent: mockGetFileContent,
-			createOrUpdateFile: mockCreateOrUpdateFile,
-		} as unknown as GitHubClient;
+		await applyUpdatesToBranch(client, updates, {
+			branch: "feature-branch",
+			expectedHeadSha: "analyzedsha",
+		});
+
+		expect(mocks.getRef).not.toHaveBeenCalled();
+		expect(mocks.getFileContent).toHaveBeenCalledWith(
+			"AGENTS.md",
+			"analyzedsha",
+		);
+		expect(mocks.commitFileChanges.mock.calls[0]?.[3]).toBe("analyzedsha");
+	});
+
+	test("combines create, update, and delete changes", async () => {
+		const { client, mocks } = createBatchClient([
+			"AGENTS.md",
+			"packages/old/AGENTS.md",
+		]);
 
 		const updates: IntentUpdate[] = [
 			{
 				nodePath: "AGENTS.md",
 				action: "update",
-				reason: "Update root docs",
+				reason: "Update root",
 				currentContent: "# Old\n",
+				suggestedContent: "# Root\n",
+			},
+			{
+				nodePath: "packages/new/AGENTS.md",
+				action: "create",
+				reason: "New package",
 				suggestedContent: "# New\n",
 			},
 			{
-				nodePath: "packages/AGENTS.md",
-				action: "update",
-				reason: "Update packages docs",
-				currentContent: "# Old packages\n",
-				suggestedContent: "# New packages\n",
+				nodePath: "packages/old/AGENTS.md",
+				action: "delete",
+				reason: "Package removed",
 			},
 		];
 
@@ -1560,209 +1911,182 @@ describe("applyUpdatesToBranch", () => {
 			branch: "intent-layer/42",
 		});
 
-		expect(result.appliedCount).toBe(2);
-		expect(result.totalCount).toBe(2);
-		expect(result.errors).toHaveLength(0);
+		expect(result.appliedCount).toBe(3);
+		expect(mocks.commitFileChanges.mock.calls[0]?.[0]).toEqual([
+			{ path: "AGENTS.md", content: "# Root\n" },
+			{ path: "packages/new/AGENTS.md", content: "# New\n" },
+			{ path: "packages/old/AGENTS.md", content: null },
+		]);
 	});
 
-	test("handles mixed create and update actions", async () => {
-		let _fileCallCount = 0;
-		const mockGetFileContent = mock(async (path: string) => {
-			_fileCallCount++;
-			if (path === "AGENTS.md") {
-				// Root file exists
-				return {
-					sha: "existingsha",
-					type: "file",
-					content: "SGVsbG8=",
-				};
-			}
-			// New file doesn't exist
-			const error = new Error("Not Found") as Error & { status: number };
-			error.status = 404;
-			throw error;
-		});
+	test("keeps otherNodePath in sync without symlinks", async () => {
+		const { client, mocks } = createBatchClient([
+			"AGENTS.md",
+			"CLAUDE.md",
+			"packages/old/AGENTS.md",
+			"packages/old/CLAUDE.md",
+		]);
 
-		let commitCount = 0;
-		const mockCreateOrUpdateFile = mock(async () => ({
-			commit: {
-				sha: `sha${++commitCount}`,
-				html_url: `https://github.com/commit/sha${commitCount}`,
+		const updates: IntentUpdate[] = [
+			{
+				nodePath: "AGENTS.md",
+				otherNodePath: "CLAUDE.md",
+				action: "update",
+				reason: "Update root",
+				currentContent: "# Old\n",
+				suggestedContent: "# Root\n",
 			},
-			content: { sha: "blobsha" },
-		}));
+			{
+				nodePath: "packages/api/AGENTS.md",
+				otherNodePath: "packages/api/CLAUDE.md",
+				action: "create",
+				reason: "New package",
+				suggestedContent: "# API\n",
+			},
+			{
+				nodePath: "packages/old/AGENTS.md",
+				otherNodePath: "packages/old/CLAUDE.md",
+				action: "delete",
+				reason: "Package removed",
+			},
+		];
 
-		const client = {
-			getFileContent: mockGetFileContent,
-			createOrUpdateFile: mockCreateOrUpdateFile,
-		} as unknown as GitHubClient;
+		await applyUpdatesToBranch(client, updates, { branch: "intent-layer/42" });
+
+		expect(mocks.commitFileChanges.mock.calls[0]?.[0]).toEqual([
+			{ path: "AGENTS.md", content: "# Root\n" },
+			{ path: "CLAUDE.md", content: "# Root\n" },
+			{ path: "packages/api/AGENTS.md", content: "# API\n" },
+			{ path: "packages/api/CLAUDE.md", content: "# API\n" },
+			{ path: "packages/old/AGENTS.md", content: null },
+			{ path: "packages/old/CLAUDE.md", content: null },
+		]);
+	});
+
+	test("creates symlinks and updates only the source file in symlink mode", async () => {
+		const { client, mocks } = createBatchClient(["AGENTS.md", "CLAUDE.md"]);
 
 		const updates: IntentUpdate[] = [
 			{
-				nodePath: "AGENTS.md",
+				nodePath: "CLAUDE.md",
+				otherNodePath: "AGENTS.md",
 				action: "update",
 				reason: "Update root",
 				currentContent: "# Old\n",
-				suggestedContent: "# New\n",
+				suggestedContent: "# Root\n",
 			},
 			{
-				nodePath: "packages/new/AGENTS.md",
+				nodePath: "packages/api/AGENTS.md",
+				otherNodePath: "packages/api/CLAUDE.md",
 				action: "create",
 				reason: "New package",
-				suggestedContent: "# New package\n",
+				suggestedContent: "# API\n",
 			},
 		];
 
 		const result = await applyUpdatesToBranch(client, updates, {
 			branch: "intent-layer/42",
+			symlink: true,
+			symlinkSource: "agents",
 		});
 
 		expect(result.appliedCount).toBe(2);
-		expect(result.totalCount).toBe(2);
-		expect(result.errors).toHaveLength(0);
-	});
-
-	test("continues on error when stopOnError is false", async () => {
-		let _callCount = 0;
-		const mockGetFileContent = mock(async (path: string) => {
-			_callCount++;
-			if (path === "packages/failing/AGENTS.md") {
-				// First file doesn't exist for update (will fail)
-				const error = new Error("Not Found") as Error & { status: number };
-				error.status = 404;
-				throw error;
-			}
-			// Second file doesn't exist for create (will succeed)
-			const error = new Error("Not Found") as Error & { status: number };
-			error.status = 404;
-			throw error;
-		});
-
-		const mockCreateOrUpdateFile = mock(async () => ({
-			commit: {
-				sha: "successsha",
-				html_url: "https://github.com/commit/successsha",
+		expect(mocks.commitFileChanges.mock.calls[0]?.[0]).toEqual([
+			{ path: "AGENTS.md", content: "# Root\n" },
+			{
+				path: "packages/api/AGENTS.md",
+				content: "# API\n",
+				isSymlink: false,
 			},
-			content: { sha: "blobsha" },
-		}));
+			{
+				path: "packages/api/CLAUDE.md",
+				content: "AGENTS.md",
+				isSymlink: true,
+			},
+		]);
+	});
 
-		const client = {
-			getFileContent: mockGetFileContent,
-			createOrUpdateFile: mockCreateOrUpdateFile,
-		} as unknown as GitHubClient;
+	test("applies nothing if any update is invalid", async () => {
+		const { client, mocks } = createBatchClient();
 
 		const updates: IntentUpdate[] = [
 			{
 				nodePath: "packages/failing/AGENTS.md",
-				action: "update", // This will fail because file doesn't exist
+				action: "update", // File doesn't exist
 				reason: "This should fail",
 				currentContent: "# Old\n",
 				suggestedContent: "# New\n",
 			},
 			{
 				nodePath: "packages/success/AGENTS.md",
-				action: "create", // This should succeed
-				reason: "This should succeed",
+				action: "create",
+				reason: "Valid on its own",
 				suggestedContent: "# Success\n",
 			},
 		];
 
 		const result = await applyUpdatesToBranch(client, updates, {
 			branch: "intent-layer/42",
-			stopOnError: false,
 		});
 
-		expect(result.appliedCount).toBe(1);
+		expect(result.appliedCount).toBe(0);
 		expect(result.totalCount).toBe(2);
+		expect(result.commit).toBeUndefined();
 		expect(result.errors).toHaveLength(1);
 		expect(result.errors[0]?.update.nodePath).toBe(
 			"packages/failing/AGENTS.md",
 		);
 		expect(result.errors[0]?.error).toContain("does not exist");
-		expect(result.commits[0]?.filePath).toBe("packages/success/AGENTS.md");
+		expect(mocks.commitFileChanges).not.toHaveBeenCalled();
 	});
 
-	test("stops on first error when stopOnError is true", async () => {
-		const mockGetFileContent = mock(async () => {
-			// File doesn't exist - update will fail
-			const error = new Error("Not Found") as Error & { status: number };
-			error.status = 404;
-			throw error;
-		});
-
-		const mockCreateOrUpdateFile = mock(async () => ({
-			commit: {
-				sha: "sha",
-				html_url: "https://github.com/commit/sha",
-			},
-			content: { sha: "blobsha" },
-		}));
-
-		const client = {
-			getFileContent: mockGetFileContent,
-			createOrUpdateFile: mockCreateOrUpdateFile,
-		} as unknown as GitHubClient;
+	test("rejects updates that change the same file", async () => {
+		const { client, mocks } = createBatchClient();
 
 		const updates: IntentUpdate[] = [
 			{
-				nodePath: "packages/failing/AGENTS.md",
-				action: "update", // This will fail
-				reason: "This should fail",
-				currentContent: "# Old\n",
-				suggestedContent: "# New\n",
+				nodePath: "AGENTS.md",
+				otherNodePath: "CLAUDE.md",
+				action: "create",
+				reason: "Create root",
+				suggestedContent: "# Root\n",
 			},
 			{
-				nodePath: "packages/success/AGENTS.md",
-				action: "create", // This would succeed but won't be reached
-				reason: "This should succeed",
-				suggestedContent: "# Success\n",
+				nodePath: "CLAUDE.md",
+				action: "create",
+				reason: "Create root again",
+				suggestedContent: "# Other\n",
 			},
 		];
 
 		const result = await applyUpdatesToBranch(client, updates, {
 			branch: "intent-layer/42",
-			stopOnError: true,
 		});
 
 		expect(result.appliedCount).toBe(0);
-		expect(result.totalCount).toBe(2);
-		expect(result.errors).toHaveLength(1);
-		// Second update was not attempted due to stopOnError
-		expect(mockCreateOrUpdateFile).not.toHaveBeenCalled();
+		expect(result.errors[0]?.update.nodePath).toBe("CLAUDE.md");
+		expect(result.errors[0]?.error).toContain("more than one update");
+		expect(mocks.commitFileChanges).not.toHaveBeenCalled();
 	});
 
-	test("skips delete actions", async () => {
-		const mockGetFileContent = mock(async () => {
-			const error = new Error("Not Found") as Error & { status: number };
-			error.status = 404;
-			throw error;
+	test("reports every update as failed when the commit is rejected", async () => {
+		const { client, mocks } = createBatchClient();
+		mocks.commitFileChanges.mockImplementation(async () => {
+			throw new BranchConflictError("Branch intent-layer/42 moved");
 		});
 
-		const mockCreateOrUpdateFile = mock(async () => ({
-			commit: {
-				sha: "sha",
-				html_url: "https://github.com/commit/sha",
-			},
-			content: { sha: "blobsha" },
-		}));
-
-		const client = {
-			getFileContent: mockGetFileContent,
-			createOrUpdateFile: mockCreateOrUpdateFile,
-		} as unknown as GitHubClient;
-
 		const updates: IntentUpdate[] = [
 			{
-				nodePath: "packages/delete/AGENTS.md",
-				action: "delete", // This will be skipped
-				reason: "Remove old package",
-				currentContent: "# Old\n",
+				nodePath: "a/AGENTS.md",
+				action: "create",
+				reason: "A",
+				suggestedContent: "# A\n",
 			},
 			{
-				nodePath: "packages/new/AGENTS.md",
+				nodePath: "b/AGENTS.md",
 				action: "create",
-				reason: "New package",
-				suggestedContent: "# New\n",
+				reason: "B",
+				suggestedContent: "# B\n",
 			},
 		];
 
@@ -1770,11 +2094,10 @@ describe("applyUpdatesToBranch", () => {
 			branch: "intent-layer/42",
 		});
 
-		// Delete was skipped, create succeeded
-		expect(result.appliedCount).toBe(1);
-		expect(result.totalCount).toBe(2);
-		expect(result.errors).toHaveLength(0);
-		expect(result.commits[0]?.filePath).toBe("packages/new/AGENTS.md");
+		expect(result.appliedCount).toBe(0);
+		expect(result.commit).toBeUndefined();
+		expect(result.errors).toHaveLength(2);
+		expect(result.errors[1]?.error).toContain("moved");
 	});
 
 	test("returns empty result for empty updates array", async () => {
@@ -1787,67 +2110,110 @@ describe("applyUpdatesToBranch", () => {
 		expect(result.appliedCount).toBe(0);
 		expect(result.totalCount).toBe(0);
 		expect(result.errors).toHaveLength(0);
-		expect(result.commits).toHaveLength(0);
+		expect(result.commit).toBeUndefined();
 	});
+});
 
-	test("passes symlink options to commit functions", async () => {
-		const mockGetFileContent = mock(async () => {
-			const error = new Error("Not Found") as Error & { status: number };
-			error.status = 404;
-			throw error;
-		});
+describe("generateBatchCommitMessage", () => {
+	test("returns standard batch commit message", () => {
+		const message = generateBatchCommitMessage();
+		expect(message).toBe("[INTENT] apply intent layer updates");
+	});
+});
 
-		const filesCreated: Array<{
-			path: string;
-			content: string;
-			isSymlink: boolean;
-		}> = [];
-		const mockCreateFilesWithSymlinks = mock(
+describe("exportDerivedFiles", () => {
+	/**
+	 * Create a mock client whose branch contains the given files.
+	 */
+	function createExportClient(files: Record<string, string>) {
+		const mockCommitFileChanges = mock(
 			async (
-				files: Array<{ path: string; content: string; isSymlink: boolean }>,
-			) => {
-				for (const f of files) {
-					filesCreated.push(f);
-				}
-				return {
-					sha: "symlinksha",
-					url: "https://github.com/commit/symlinksha",
-				};
-			},
+				_changes: FileChange[],
+				_message: string,
+				_branch: string,
+				_expectedHeadSha?: string,
+			) => ({
+				sha: "exportsha",
+				url: "https://github.com/commit/exportsha",
+			}),
 		);
+		const encode = (path: string) =>
+			Buffer.from(files[path] ?? "").toString("base64");
 
 		const client = {
-			getFileContent: mockGetFileContent,
-			createFilesWithSymlinks: mockCreateFilesWithSymlinks,
-			createOrUpdateFile: mock(async () => ({})),
+			getRef: mock(async () => ({
+				ref: "refs/heads/feature",
+				object: { sha: "headsha", type: "commit" },
+			})),
+			getCommit: mock(async () => ({ commit: { tree: { sha: "treesha" } } })),
+			getTree: mock(async () => ({
+				truncated: false,
+				tree: Object.keys(files).map((path) => ({
+					path,
+					type: "blob",
+					mode: "100644",
+					sha: path,
+				})),
+			})),
+			getBlob: mock(async (sha: string) => ({ content: encode(sha) })),
+			getFileContent: mock(async (path: string) => ({
+				type: "file",
+				sha: path,
+				content: encode(path),
+			})),
+			commitFileChanges: mockCommitFileChanges,
 		} as unknown as GitHubClient;
 
-		const updates: IntentUpdate[] = [
-			{
-				nodePath: "packages/api/AGENTS.md",
-				otherNodePath: "packages/api/CLAUDE.md",
-				action: "create",
-				reason: "New API package",
-				suggestedContent: "# API\n",
-			},
-		];
+		return { client, commitFileChanges: mockCommitFileChanges };
+	}
 
-		const result = await applyUpdatesToBranch(client, updates, {
-			branch: "intent-layer/42",
-			symlink: true,
-			symlinkSource: "agents",
+	test("commits regenerated rule files to the branch head", async () => {
+		const { client, commitFileChanges } = createExportClient({
+			"AGENTS.md": "# Repo\n",
+			"packages/api/AGENTS.md": "# API\n",
+			"src/index.ts": "export {};\n",
 		});
 
-		expect(result.appliedCount).toBe(1);
-		expect(mockCreateFilesWithSymlinks).toHaveBeenCalled();
-		expect(filesCreated).toHaveLength(2);
+		const result = await exportDerivedFiles(client, {
+			branch: "feature",
+			targets: ["cursor"],
+			sourceType: "agents",
+		});
+
+		expect(result.commit?.filePaths).toEqual([
+			".cursor/rules/intent-layer.mdc",
+			".cursor/rules/intent-layer-packages-api.mdc",
+		]);
+		expect(commitFileChanges).toHaveBeenCalledTimes(1);
+		const [, message, branch, expectedHeadSha] =
+			commitFileChanges.mock.calls[0] ?? [];
+		expect(message).toBe(generateExportCommitMessage());
+		expect(branch).toBe("feature");
+		expect(expectedHeadSha).toBe("headsha");
 	});
-});
 
-describe("generateBatchCommitMessage", () => {
-	test("returns standard batch commit message", () => {
-		const message = generateBatchCommitMessage();
-		expect(message).toBe("[INTENT] apply intent layer updates");
+	test("does not commit when the derived files are up to date", async () => {
+		const files: Record<string, string> = { "AGENTS.md": "# Repo\n" };
+		const first = createExportClient(files);
+		await exportDerivedFiles(first.client, {
+			branch: "feature",
+			targets: ["copilot"],
+			sourceType: "agents",
+		});
+		const [changes] = first.commitFileChanges.mock.calls[0] ?? [];
+		for (const change of changes ?? []) {
+			files[change.path] = change.content ?? "";
+		}
+
+		const second = createExportClient(files);
+		const result = await exportDerivedFiles(second.client, {
+			branch: "feature",
+			targets: ["copilot"],
+			sourceType: "agents",
+		});
+
+		expect(result).toEqual({ skipped: [] });
+		expect(second.commitFileChanges).not.toHaveBeenCalled();
 	});
 });
 
@@ -1928,6 +2294,34 @@ describe("openIntentLayerPullRequest", () => {
 		);
 	});
 
+	test("targets an explicit base branch when given", async () => {
+		const mockCreatePullRequest = mock(
+			async (title: string, _body: string, _head: string, _base: string) => ({
+				number: 102,
+				title,
+				html_url: "https://github.com/owner/repo/pull/102",
+			}),
+		);
+
+		const client = {
+			createPullRequest: mockCreatePullRequest,
+		} as unknown as GitHubClient;
+
+		const result = await openIntentLayerPullRequest(client, {
+			originalPrNumber: 42,
+			originalPrHeadBranch: "feature/my-changes",
+			baseBranch: "main",
+		});
+
+		expect(result.baseBranch).toBe("main");
+		expect(mockCreatePullRequest).toHaveBeenCalledWith(
+			expect.any(String),
+			expect.any(String),
+			"intent-layer/42",
+			"main",
+		);
+	});
+
 	test("creates PR with custom title", async () => {
 		const mockCreatePullRequest = mock(
 			async (title: string, _body: string, _head: string, _base: string) => ({
@@ -2056,4 +2450,71 @@ describe("openIntentLayerPullRequest", () => {
 		expect(capturedHead).toBe("intent-layer/789");
 		expect(capturedBase).toBe("develop");
 	});
+
+	test("opens an audit PR with explicit branches, title, and body", async () => {
+		const mockCreatePullRequest = mock(
+			async (title: string, _body: string, _head: string, _base: string) => ({
+				number: 104,
+				title,
+				html_url: "https://github.com/owner/repo/pull/104",
+			}),
+		);
+
+		const client = {
+			createPullRequest: mockCreatePullRequest,
+		} as unknown as GitHubClient;
+
+		const result = await openIntentLayerPullRequest(client, {
+			baseBranch: "main",
+			headBranch: "intent-layer/audit-abc1234",
+			title: generateAuditPRTitle(),
+			body: generateAuditPRBody("- `src/AGENTS.md`: stale"),
+		});
+
+		expect(result.headBranch).toBe("intent-layer/audit-abc1234");
+		expect(result.baseBranch).toBe("main");
+		expect(mockCreatePullRequest).toHaveBeenCalledWith(
+			"[Intent Layer] Refresh stale intent nodes",
+			expect.stringContaining("- `src/AGENTS.md`: stale"),
+			"intent-layer/audit-abc1234",
+			"main",
+		);
+	});
+
+	test("requires a title and body without an original PR", async () => {
+		const client = {
+			createPullRequest: mock(async () => ({})),
+		} as unknown as GitHubClient;
+
+		await expect(
+			openIntentLayerPullRequest(client, {
+				baseBranch: "main",
+				headBranch: "intent-layer/audit-abc1234",
+			}),
+		).rejects.toThrow("requires a base branch, head branch, title, and body");
+	});
+});
+
+describe("createAuditBranch", () => {
+	test("names the branch after the audited commit", async () => {
+		const mockCreateBranch = mock(async (branchName: string, sha: string) => ({
+			ref: `refs/heads/${branchName}`,
+			object: { sha, type: "commit" },
+		}));
+
+		const client = {
+			createBranch: mockCreateBranch,
+		} as unknown as GitHubClient;
+
+		const result = await createAuditBranch(client, "abc1234567890");
+
+		expect(generateAuditBranchName("abc1234567890")).toBe(
+			"intent-layer/audit-abc1234",
+		);
+		expect(result.branchName).toBe("intent-layer/audit-abc1234");
+		expect(mockCreateBranch).toHaveBeenCalledWith(
+			"intent-layer/audit-abc1234",
+			"abc1234567890",
+		);
+	});
 });
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import {
+	applyDirectoryIgnores,
+	type DirectoryConfig,
+	getDirectoryPrompts,
+	loadDirectoryConfigs,
+	resolveDirectoryConfig,
+} from "../../src/config/directories";
+import { ConfigFileError } from "../../src/config/file";
+import { parseActionInputs } from "../../src/config/schema";
+import type { RepositoryTreeEntry } from "../../src/repository/source";
+
+/**
+ * Creates blob tree entries for the given paths.
+ */
+function blobs(paths: string[]): RepositoryTreeEntry[] {
+	return paths.map((path) => ({ path, type: "blob", mode: "100644", sha: "" }));
+}
+
+const directoryConfigs: DirectoryConfig[] = [
+	{
+		directory: "packages",
+		path: "packages/.intentlayer.yml",
+		settings: { token_budget_percent: 8, ignore: ["*.snap"] },
+	},
+	{
+		directory: "packages/api",
+		path: "packages/api/.intentlayer.yml",
+		settings: {
+			new_nodes: false,
+			prompts: [{ pattern: "src/**", prompt: "Document endpoints" }],
+			ignore: ["/generated/", "!keep.snap"],
+		},
+	},
+];
+
+describe("loadDirectoryConfigs", () => {
+	test("loads nested files shallowest first, skipping the root file", async () => {
+		const files: Record<string, string> = {
+			".intentlayer.yml": "output: pr_commit\n",
+			"packages/api/.intentlayer.yml": "new_nodes: false\n",
+			"packages/.intentlayer.yml": "token_budget_percent: 8\n",
+		};
+
+		const configs = await loadDirectoryConfigs(
+			blobs([...Object.keys(files), "packages/api/src/index.ts"]),
+			async (path) => files[path],
+		);
+
+		expect(configs).toEqual([
+			{
+				directory: "packages",
+				path: "packages/.intentlayer.yml",
+				settings: { token_budget_percent: 8 },
+			},
+			{
+				directory: "packages/api",
+				path: "packages/api/.intentlayer.yml",
+				settings: { new_nodes: false },
+			},
+		]);
+	});
+
+	test("rejects settings that only the root configuration may set", async () => {
+		const load = loadDirectoryConfigs(
+			blobs(["packages/api/.intentlayer.yml"]),
+			async () => "output: pr_commit\n",
+		);
+
+		await expect(load).rejects.toBeInstanceOf(ConfigFileError);
+	});
+});
+
+describe("resolveDirectoryConfig", () => {
+	const config = parseActionInputs({ token_budget_percent: "5" });
+
+	test("applies the nearest setting of the directory and its ancestors", () => {
+		const effective = resolveDirectoryConfig(
+			config,
+			directoryConfigs,
+			"packages/api/src",
+		);
+
+		expect(effective.sources).toEqual([
+			"packages/.intentlayer.yml",
+			"packages/api/.intentlayer.yml",
+		]);
+		expect(effective.config.token_budget_percent).toBe(8);
+		expect(effective.config.new_nodes).toBe(false);
+		expect(effective.prompts.map((prompt) => prompt.pattern)).toEqual([
+			"packages/api/src/**",
+		]);
+		expect(effective.ignore).toEqual([
+			"/packages/**/*.snap",
+			"/packages/api/generated/",
+			"!/packages/api/**/keep.snap",
+		]);
+	});
+
+	test("keeps the root settings outside configured directories", () => {
+		const effective = resolveDirectoryConfig(
+			config,
+			directoryConfigs,
+			"packages-old",
+		);
+
+		expect(effective.sources).toEqual([]);
+		expect(effective.config).toEqual(config);
+	});
+});
+
+describe("getDirectoryPrompts", () => {
+	test("prefixes patterns with the configuration's directory", () => {
+		expect(getDirectoryPrompts(directoryConfigs)).toEqual([
+			{ pattern: "packages/api/src/**", prompt: "Document endpoints" },
+		]);
+	});
+});
+
+describe("applyDirectoryIgnores", () => {
+	test("ignores matching files only below the configuration's directory", () => {
+		const ignore = applyDirectoryIgnores(undefined, directoryConfigs);
+
+		expect(ignore?.ignores("packages/web/__snapshots__/app.snap")).toBe(true);
+		expect(ignore?.ignores("packages/api/keep.snap")).toBe(false);
+		expect(ignore?.ignores("packages/api/generated/client.ts")).toBe(true);
+		expect(ignore?.ignores("apps/web/app.snap")).toBe(false);
+		expect(ignore?.ignores("generated/client.ts")).toBe(false);
+	});
+
+	test("returns the original rules without directory patterns", () => {
+		expect(applyDirectoryIgnores(undefined, [])).toBeUndefined();
+	});
+});
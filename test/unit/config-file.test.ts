@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import {
+	ConfigFileError,
+	loadConfigFile,
+	parseConfigFile,
+} from "../../src/config/file";
+import { parseActionInputs } from "../../src/config/schema";
+
+/**
+ * Parses a file that is expected to be invalid and returns its error.
+ */
+function parseInvalid(text: string): ConfigFileError {
+	try {
+		parseConfigFile(".github/intent-layer.yml", text);
+	} catch (error) {
+		if (error instanceof ConfigFileError) return error;
+		throw error;
+	}
+	throw new Error("expected a ConfigFileError");
+}
+
+describe("parseConfigFile", () => {
+	test("returns the settings as written", () => {
+		const file = parseConfigFile(
+			".intentlayer.yml",
+			[
+				"output: pr_commit",
+				"new_nodes: false",
+				"prompts:",
+				"  - pattern: src/**",
+				"    prompt: Focus on public APIs",
+				"boundary_thresholds:",
+				"  min_files_for_node: 5",
+			].join("\n"),
+		);
+
+		expect(file).toEqual({
+			path: ".intentlayer.yml",
+			settings: {
+				output: "pr_commit",
+				new_nodes: false,
+				prompts: [{ pattern: "src/**", prompt: "Focus on public APIs" }],
+				boundary_thresholds: { min_files_for_node: 5 },
+			},
+		});
+	});
+
+	test("treats an empty file as no settings", () => {
+		expect(parseConfigFile(".intentlayer.yml", "# nothing yet\n")).toEqual({
+			path: ".intentlayer.yml",
+			settings: {},
+		});
+	});
+
+	test("reports invalid values at their location", () => {
+		const error = parseInvalid(
+			"model: anthropic/claude\noutput: comments\nnew_nodes: true\n",
+		);
+
+		expect(error.issues).toHaveLength(1);
+		expect(error.issues[0]).toMatchObject({
+			key: "output",
+			line: 2,
+			column: 9,
+		});
+		expect(error.message).toStartWith(
+			"Invalid configuration in .github/intent-layer.yml:\n  .github/intent-layer.yml:2:9: output: ",
+		);
+	});
+
+	test("reports nested and unknown keys at their location", () => {
+		const error = parseInvalid(
+			[
+				"boundary_thresholds:",
+				"  min_files: 2",
+				"standard_boundary_dirs:",
+				"  - src",
+				"  - 3",
+			].join("\n"),
+		);
+
+		expect(
+			error.issues.map(({ key, line, column }) => [key, line, column]),
+		).toEqual([
+			["boundary_thresholds.min_files", 2, 3],
+			["standard_boundary_dirs.1", 5, 5],
+		]);
+	});
+
+	test("rejects mode, which belongs to the workflow", () => {
+		const error = parseInvalid("mode: audit\n");
+
+		expect(error.issues[0]).toMatchObject({ key: "mode", line: 1, column: 1 });
+	});
+
+	test("reports YAML syntax errors", () => {
+		const error = parseInvalid("output: [pr_commit\n");
+
+		expect(error.issues[0]?.key).toBeUndefined();
+		expect(error.issues[0]?.line).toBeGreaterThan(0);
+	});
+
+	test("rejects files that are not a mapping", () => {
+		const error = parseInvalid("- output: pr_commit\n");
+
+		expect(error.issues[0]?.message).toBe("Expected a mapping of settings");
+	});
+});
+
+describe("loadConfigFile", () => {
+	test("prefers .github/intent-layer.yml", async () => {
+		const files: Record<string, string> = {
+			".github/intent-layer.yml": "output: check\n",
+			".intentlayer.yml": "output: new_pr\n",
+		};
+
+		const file = await loadConfigFile(async (path) => files[path]);
+
+		expect(file?.path).toBe(".github/intent-layer.yml");
+	});
+
+	test("returns undefined without a configuration file", async () => {
+		expect(await loadConfigFile(async () => undefined)).toBeUndefined();
+	});
+});
+
+describe("parseActionInputs with file settings", () => {
+	test("applies inputs over file settings over defaults", () => {
+		const file = parseConfigFile(
+			".intentlayer.yml",
+			"output: pr_commit\nfile_max_lines: 4000\nmax_patch_lines: 40\n",
+		);
+
+		const config = parseActionInputs(
+			{ output: "check", file_max_lines: undefined },
+			file.settings,
+		);
+
+		expect(config.output).toBe("check");
+		expect(config.file_max_lines).toBe(4000);
+		expect(config.max_patch_lines).toBe(40);
+		expect(config.model).toBe("anthropic/claude-sonnet-4-20250514");
+	});
+});
@@ -67,10 +67,12 @@ const samplePRData = {
 	base: {
 		ref: "main",
 		sha: "abc123base",
+		repo: { full_name: "owner/repo" },
 	},
 	head: {
 		ref: "feature/new-feature",
 		sha: "def456head",
+		repo: { full_name: "owner/repo" },
 	},
 	html_url: "https://github.com/owner/repo/pull/42",
 	created_at: "2024-01-15T10:30:00Z",
@@ -244,6 +246,38 @@ describe("extractPRMetadata", () => {
 		expect(metadata.author.id).toBe(0);
 	});
 
+	test("treats same-repository head branches as not forked", async () => {
+		const client = createMockClient(samplePRData);
+		const metadata = await extractPRMetadata(client, 42);
+
+		expect(metadata.headRepo).toBe("owner/repo");
+		expect(metadata.isFork).toBe(false);
+	});
+
+	test("detects head branches in forks", async () => {
+		const forkPRData = {
+			...samplePRData,
+			head: { ...samplePRData.head, repo: { full_name: "contributor/repo" } },
+		};
+		const client = createMockClient(forkPRData);
+		const metadata = await extractPRMetadata(client, 42);
+
+		expect(metadata.headRepo).toBe("contributor/repo");
+		expect(metadata.isFork).toBe(true);
+	});
+
+	test("treats a deleted head repository as a fork", async () => {
+		const deletedForkPRData = {
+			...samplePRData,
+			head: { ...samplePRData.head, repo: null },
+		};
+		const client = createMockClient(deletedForkPRData);
+		const metadata = await extractPRMetadata(client, 42);
+
+		expect(metadata.headRepo).toBeNull();
+		expect(metadata.isFork).toBe(true);
+	});
+
 	test("calls getPullRequest with correct pull number", async () => {
 		const mockGetPR = mock(() => Promise.resolve(samplePRData));
 		const client = {
@@ -304,6 +338,8 @@ describe("PRMetadata type structure", () => {
 			"baseBranch",
 			"headBranch",
 			"headSha",
+			"headRepo",
+			"isFork",
 			"baseSha",
 			"createdAt",
 			"updatedAt",
@@ -1913,7 +1949,7 @@ describe("isPRTooLarge", () => {
 		expect(result.message).toContain("exceeds maximum size limit");
 		expect(result.message).toContain("110,000");
 		expect(result.message).toContain("100,000");
-		expect(result.message).toContain("Skipping analysis");
+		expect(result.message).not.toContain("Skipping analysis");
 	});
 
 	test("provides descriptive message when PR is within limits", () => {
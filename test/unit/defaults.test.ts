@@ -57,6 +57,10 @@ describe("DEFAULTS", () => {
 		test("fileMaxLines default is 8000", () => {
 			expect(DEFAULTS.fileMaxLines).toBe(8000);
 		});
+
+		test("stalenessThreshold default is 10", () => {
+			expect(DEFAULTS.stalenessThreshold).toBe(10);
+		});
 	});
 
 	describe("type safety", () => {
@@ -73,12 +77,15 @@ describe("DEFAULTS", () => {
 				"files",
 				"symlink",
 				"symlinkSource",
+				"exportTargets",
 				"output",
+				"checkConclusion",
 				"newNodes",
 				"splitLargeNodes",
 				"tokenBudgetPercent",
 				"skipBinaryFiles",
 				"fileMaxLines",
+				"stalenessThreshold",
 			];
 
 			for (const key of expectedKeys) {
@@ -87,12 +94,24 @@ describe("DEFAULTS", () => {
 		});
 
 		test("mode is a valid Mode type", () => {
-			const validModes = ["analyze", "checkbox-handler"];
+			const validModes = [
+				"analyze",
+				"checkbox-handler",
+				"command-handler",
+				"audit",
+			];
 			expect(validModes).toContain(DEFAULTS.mode);
 		});
 
 		test("files is a valid Files type", () => {
-			const validFiles = ["agents", "claude", "both"];
+			const validFiles = [
+				"agents",
+				"claude",
+				"gemini",
+				"copilot",
+				"cursor",
+				"both",
+			];
 			expect(validFiles).toContain(DEFAULTS.files);
 		});
 
@@ -102,7 +121,7 @@ describe("DEFAULTS", () => {
 		});
 
 		test("output is a valid Output type", () => {
-			const validOutputs = ["pr_comments", "pr_commit", "new_pr"];
+			const validOutputs = ["pr_comments", "pr_commit", "new_pr", "check"];
 			expect(validOutputs).toContain(DEFAULTS.output);
 		});
 
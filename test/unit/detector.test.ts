@@ -4,37 +4,36 @@ import {
 	detectAgentsFiles,
 	detectClaudeFiles,
 	detectIntentLayer,
+	detectIntentLayerInTree,
 	detectSymlinkRelationships,
+	formatDetectedFileCounts,
+	getDetectedFiles,
 	getRootIntentFile,
 	hasIntentLayer,
 	type IntentFile,
 	type IntentLayerDetectionResult,
 	validateSymlinkConfig,
 } from "../../src/intent/detector";
+import { GitHubRepositorySource } from "../../src/repository/github";
 
 /**
- * Creates a mock GitHubClient for testing the detector.
+ * Creates a GitHub-backed repository source with a mocked octokit for
+ * testing the detector.
  */
 function createMockedDetectorClient(mocks: {
-	getRef?: ReturnType<typeof mock>;
 	getCommit?: ReturnType<typeof mock>;
 	getTree?: ReturnType<typeof mock>;
 	getBlob?: ReturnType<typeof mock>;
-	getDefaultBranch?: ReturnType<typeof mock>;
 }) {
 	const mockOctokit = {
 		rest: {
 			git: {
-				getRef: mocks.getRef ?? mock(() => Promise.resolve({ data: {} })),
-				getCommit: mocks.getCommit ?? mock(() => Promise.resolve({ data: {} })),
 				getTree:
 					mocks.getTree ?? mock(() => Promise.resolve({ data: { tree: [] } })),
 				getBlob: mocks.getBlob ?? mock(() => Promise.resolve({ data: {} })),
 			},
 			repos: {
-				get:
-					mocks.getDefaultBranch ??
-					mock(() => Promise.resolve({ data: { default_branch: "main" } })),
+				getCommit: mocks.getCommit ?? mock(() => Promise.resolve({ data: {} })),
 			},
 		},
 	};
@@ -49,7 +48,7 @@ function createMockedDetectorClient(mocks: {
 		get: () => ({ owner: "test-owner", repo: "test-repo" }),
 	});
 
-	return { client, mockOctokit };
+	return { source: new GitHubRepositorySource(client), mockOctokit };
 }
 
 /**
@@ -63,18 +62,11 @@ function createTreeMocks(
 		sha?: string;
 	}>,
 ) {
-	const getRef = mock(() =>
-		Promise.resolve({
-			data: {
-				object: { sha: "commit-sha-123" },
-			},
-		}),
-	);
-
 	const getCommit = mock(() =>
 		Promise.resolve({
 			data: {
-				tree: { sha: "tree-sha-456" },
+				sha: "commit-sha-123",
+				commit: { tree: { sha: "tree-sha-456" } },
 			},
 		}),
 	);
@@ -83,11 +75,12 @@ function createTreeMocks(
 		Promise.resolve({
 			data: {
 				tree: treeItems,
+				truncated: false,
 			},
 		}),
 	);
 
-	return { getRef, getCommit, getTree };
+	return { getCommit, getTree };
 }
 
 describe("detectAgentsFiles", () => {
@@ -96,9 +89,9 @@ describe("detectAgentsFiles", () => {
 			{ path: "README.md", type: "blob", mode: "100644", sha: "sha1" },
 			{ path: "src/index.ts", type: "blob", mode: "100644", sha: "sha2" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result).toHaveLength(0);
 	});
@@ -108,9 +101,9 @@ describe("detectAgentsFiles", () => {
 			{ path: "AGENTS.md", type: "blob", mode: "100644", sha: "agents-sha" },
 			{ path: "README.md", type: "blob", mode: "100644", sha: "readme-sha" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result).toHaveLength(1);
 		expect(result[0]).toEqual({
@@ -133,9 +126,9 @@ describe("detectAgentsFiles", () => {
 				sha: "api-sha",
 			},
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result).toHaveLength(3);
 		// Should be sorted by depth (root first) then alphabetically
@@ -149,9 +142,9 @@ describe("detectAgentsFiles", () => {
 			{ path: "AGENTS.md", type: "tree", mode: "040000", sha: "dir-sha" },
 			{ path: "real/AGENTS.md", type: "blob", mode: "100644", sha: "file-sha" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result).toHaveLength(1);
 		expect(result[0]?.path).toBe("real/AGENTS.md");
@@ -164,9 +157,9 @@ describe("detectAgentsFiles", () => {
 			{ path: "AGENTS.md.bak", type: "blob", mode: "100644", sha: "fake2-sha" },
 			{ path: "agents.md", type: "blob", mode: "100644", sha: "lowercase-sha" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result).toHaveLength(1);
 		expect(result[0]?.path).toBe("AGENTS.md");
@@ -186,9 +179,9 @@ describe("detectAgentsFiles", () => {
 			}),
 		);
 
-		const { client } = createMockedDetectorClient({ ...mocks, getBlob });
+		const { source } = createMockedDetectorClient({ ...mocks, getBlob });
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result).toHaveLength(1);
 		expect(result[0]).toEqual({
@@ -207,34 +200,33 @@ describe("detectAgentsFiles", () => {
 
 		const getBlob = mock(() => Promise.reject(new Error("Blob not found")));
 
-		const { client } = createMockedDetectorClient({ ...mocks, getBlob });
+		const { source } = createMockedDetectorClient({ ...mocks, getBlob });
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result).toHaveLength(1);
 		expect(result[0]?.isSymlink).toBe(true);
 		expect(result[0]?.symlinkTarget).toBeUndefined();
 	});
 
-	test("uses default branch when ref not provided", async () => {
+	test("reads the tree of the given ref", async () => {
 		const mocks = createTreeMocks([
 			{ path: "AGENTS.md", type: "blob", mode: "100644", sha: "sha1" },
 		]);
 
-		const getDefaultBranch = mock(() =>
-			Promise.resolve({ data: { default_branch: "develop" } }),
-		);
-
-		const { client, mockOctokit } = createMockedDetectorClient({
-			...mocks,
-			getDefaultBranch,
-		});
+		const { source } = createMockedDetectorClient(mocks);
 
-		await detectAgentsFiles(client);
+		await detectAgentsFiles(source, "develop");
 
-		expect(mocks.getRef).toHaveBeenCalledWith(
+		expect(mocks.getCommit).toHaveBeenCalledWith(
+			expect.objectContaining({
+				ref: "develop",
+			}),
+		);
+		expect(mocks.getTree).toHaveBeenCalledWith(
 			expect.objectContaining({
-				ref: "heads/develop",
+				tree_sha: "tree-sha-456",
+				recursive: "true",
 			}),
 		);
 	});
@@ -245,9 +237,9 @@ describe("detectClaudeFiles", () => {
 		const mocks = createTreeMocks([
 			{ path: "README.md", type: "blob", mode: "100644", sha: "sha1" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectClaudeFiles(client, "main");
+		const result = await detectClaudeFiles(source, "main");
 
 		expect(result).toHaveLength(0);
 	});
@@ -256,9 +248,9 @@ describe("detectClaudeFiles", () => {
 		const mocks = createTreeMocks([
 			{ path: "CLAUDE.md", type: "blob", mode: "100644", sha: "claude-sha" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectClaudeFiles(client, "main");
+		const result = await detectClaudeFiles(source, "main");
 
 		expect(result).toHaveLength(1);
 		expect(result[0]).toEqual({
@@ -280,9 +272,9 @@ describe("detectClaudeFiles", () => {
 				sha: "core-sha",
 			},
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectClaudeFiles(client, "main");
+		const result = await detectClaudeFiles(source, "main");
 
 		expect(result).toHaveLength(2);
 		expect(result[0]?.path).toBe("CLAUDE.md");
@@ -302,9 +294,9 @@ describe("detectIntentLayer", () => {
 				sha: "src-agents-sha",
 			},
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectIntentLayer(client, "main");
+		const result = await detectIntentLayer(source, "main");
 
 		expect(result.agentsFiles).toHaveLength(2);
 		expect(result.claudeFiles).toHaveLength(1);
@@ -314,15 +306,103 @@ describe("detectIntentLayer", () => {
 		const mocks = createTreeMocks([
 			{ path: "README.md", type: "blob", mode: "100644", sha: "sha1" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectIntentLayer(client, "main");
+		const result = await detectIntentLayer(source, "main");
 
 		expect(result.agentsFiles).toHaveLength(0);
 		expect(result.claudeFiles).toHaveLength(0);
 	});
 });
 
+describe("detectIntentLayerInTree", () => {
+	test("detects intent files from a tree listing", async () => {
+		const readSymlinkTarget = mock(async () => "AGENTS.md");
+
+		const result = await detectIntentLayerInTree(
+			[
+				{ path: "src/AGENTS.md", type: "blob", mode: "100644", sha: "a2" },
+				{ path: "AGENTS.md", type: "blob", mode: "100644", sha: "a1" },
+				{ path: "CLAUDE.md", type: "blob", mode: "120000", sha: "c1" },
+				{ path: "docs", type: "tree", mode: "040000", sha: "t1" },
+			],
+			readSymlinkTarget,
+		);
+
+		expect(result.agentsFiles.map((f) => f.path)).toEqual([
+			"AGENTS.md",
+			"src/AGENTS.md",
+		]);
+		expect(result.claudeFiles).toEqual([
+			{
+				path: "CLAUDE.md",
+				type: "claude",
+				sha: "c1",
+				isSymlink: true,
+				symlinkTarget: "AGENTS.md",
+			},
+		]);
+		expect(readSymlinkTarget).toHaveBeenCalledWith("c1");
+	});
+
+	test("leaves symlink target undefined when it cannot be read", async () => {
+		const result = await detectIntentLayerInTree(
+			[{ path: "CLAUDE.md", type: "blob", mode: "120000", sha: "c1" }],
+			async () => {
+				throw new Error("missing blob");
+			},
+		);
+
+		expect(result.claudeFiles[0]?.isSymlink).toBe(true);
+		expect(result.claudeFiles[0]?.symlinkTarget).toBeUndefined();
+	});
+
+	test("detects the other registered kinds", async () => {
+		const result = await detectIntentLayerInTree(
+			[
+				{ path: "GEMINI.md", type: "blob", mode: "100644", sha: "g1" },
+				{
+					path: ".github/copilot-instructions.md",
+					type: "blob",
+					mode: "100644",
+					sha: "p1",
+				},
+				{
+					path: "src/.cursor/rules/api.mdc",
+					type: "blob",
+					mode: "100644",
+					sha: "r1",
+				},
+				{ path: "src/index.ts", type: "blob", mode: "100644", sha: "s1" },
+			],
+			async () => "",
+		);
+
+		expect(result.agentsFiles).toEqual([]);
+		expect(getDetectedFiles(result, "gemini").map((f) => f.path)).toEqual([
+			"GEMINI.md",
+		]);
+		expect(getDetectedFiles(result, "copilot")[0]?.type).toBe("copilot");
+		expect(getDetectedFiles(result, "cursor").map((f) => f.path)).toEqual([
+			"src/.cursor/rules/api.mdc",
+		]);
+		expect(hasIntentLayer(result)).toBe(true);
+		expect(formatDetectedFileCounts(result)).toBe(
+			"0 AGENTS.md, 0 CLAUDE.md, 1 GEMINI.md, 1 .github/copilot-instructions.md, 1 .cursor/rules/*.mdc",
+		);
+	});
+
+	test("omits other kinds when none are found", async () => {
+		const result = await detectIntentLayerInTree(
+			[{ path: "AGENTS.md", type: "blob", mode: "100644", sha: "a1" }],
+			async () => "",
+		);
+
+		expect(result.otherFiles).toBeUndefined();
+		expect(formatDetectedFileCounts(result)).toBe("1 AGENTS.md, 0 CLAUDE.md");
+	});
+});
+
 describe("hasIntentLayer", () => {
 	test("returns false when no intent files exist", () => {
 		const result: IntentLayerDetectionResult = {
@@ -435,9 +515,9 @@ describe("file sorting", () => {
 			{ path: "AGENTS.md", type: "blob", mode: "100644", sha: "root-sha" },
 			{ path: "a/b/AGENTS.md", type: "blob", mode: "100644", sha: "ab-sha" },
 		]);
-		const { client } = createMockedDetectorClient(mocks);
+		const { source } = createMockedDetectorClient(mocks);
 
-		const result = await detectAgentsFiles(client, "main");
+		const result = await detectAgentsFiles(source, "main");
 
 		expect(result.map((f) => f.path)).toEqual([
 			"AGENTS.md", // depth 1
@@ -1049,4 +1129,43 @@ describe("validateSymlinkConfig", () => {
 		expect(validation.valid).toBe(false);
 		expect(validation.conflictDirectories).toEqual(["(root)"]);
 	});
+
+	test("validates the configured pair of kinds", () => {
+		const result: IntentLayerDetectionResult = {
+			agentsFiles: [
+				{ path: "AGENTS.md", type: "agents", sha: "sha1", isSymlink: false },
+			],
+			claudeFiles: [
+				{ path: "CLAUDE.md", type: "claude", sha: "sha2", isSymlink: false },
+			],
+			otherFiles: {
+				gemini: [
+					{
+						path: "GEMINI.md",
+						type: "gemini",
+						sha: "sha3",
+						isSymlink: true,
+						symlinkTarget: "AGENTS.md",
+					},
+					{
+						path: "src/GEMINI.md",
+						type: "gemini",
+						sha: "sha4",
+						isSymlink: false,
+					},
+				],
+			},
+		};
+
+		expect(validateSymlinkConfig(result, true, ["agents", "gemini"])).toEqual({
+			valid: true,
+		});
+		expect(
+			detectSymlinkRelationships(result, ["agents", "gemini"]),
+		).toMatchObject([{ directory: "", sourceType: "agents" }]);
+
+		const conflict = validateSymlinkConfig(result, true, ["claude", "gemini"]);
+		expect(conflict.valid).toBe(false);
+		expect(conflict.error).toContain("both CLAUDE.md and GEMINI.md");
+	});
 });
@@ -0,0 +1,178 @@
+import { describe, expect, test } from "bun:test";
+import type { IntentFile } from "../../src/intent/detector";
+import {
+	getDerivedFileChanges,
+	isExportPath,
+	isGeneratedFile,
+	renderDerivedFiles,
+} from "../../src/intent/export";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+
+/**
+ * Helper to create an AGENTS.md IntentFile for testing.
+ */
+function createIntentFile(path: string): IntentFile {
+	return {
+		path,
+		type: "agents",
+		sha: `sha-${path.replace(/\//g, "-")}`,
+		isSymlink: false,
+	};
+}
+
+const hierarchy = buildHierarchy(
+	[
+		createIntentFile("AGENTS.md"),
+		createIntentFile("packages/api/AGENTS.md"),
+		createIntentFile("packages/api/src/AGENTS.md"),
+		createIntentFile("docs/AGENTS.md"),
+	],
+	"agents",
+);
+
+const contents = new Map([
+	["AGENTS.md", "# Repo\n\nUse bun.\n"],
+	["packages/api/AGENTS.md", "# API\n\nREST handlers.\n"],
+	["packages/api/src/AGENTS.md", "# API source\n"],
+	["docs/AGENTS.md", "# Docs\n"],
+]);
+
+describe("renderDerivedFiles", () => {
+	test("renders a single copilot instructions file in pre-order", () => {
+		const [file] = renderDerivedFiles(hierarchy, ["copilot"], contents);
+
+		expect(file?.path).toBe(".github/copilot-instructions.md");
+		expect(isGeneratedFile(file?.content ?? "")).toBe(true);
+		expect(file?.content).toContain("# Repo\n\nUse bun.");
+		expect(file?.content).toContain(
+			"## packages/api\n\nApplies to files matching `packages/api/**`.\n\n# API",
+		);
+
+		const content = file?.content ?? "";
+		const order = [
+			"# Repo",
+			"## docs",
+			"## packages/api\n",
+			"## packages/api/src",
+		]
+			.map((heading) => content.indexOf(heading))
+			.filter((index) => index !== -1);
+		expect(order).toHaveLength(4);
+		expect(order).toEqual([...order].sort((a, b) => a - b));
+	});
+
+	test("renders a cursor rule per node scoped by glob", () => {
+		const files = renderDerivedFiles(hierarchy, ["cursor"], contents);
+
+		expect(files.map((file) => file.path)).toEqual([
+			".cursor/rules/intent-layer.mdc",
+			".cursor/rules/intent-layer-docs.mdc",
+			".cursor/rules/intent-layer-packages-api.mdc",
+			".cursor/rules/intent-layer-packages-api-src.mdc",
+		]);
+
+		const [root, , api] = files;
+		expect(root?.content.startsWith("---\n")).toBe(true);
+		expect(root?.content).toContain("alwaysApply: true");
+		expect(root?.content).not.toContain("globs:");
+		expect(api?.content).toContain(
+			"globs: packages/api/**\nalwaysApply: false",
+		);
+		expect(api?.content).toContain(
+			"description: Intent layer context for packages/api, generated from packages/api/AGENTS.md",
+		);
+		expect(api?.content.trimEnd().endsWith("# API\n\nREST handlers.")).toBe(
+			true,
+		);
+	});
+
+	test("gives directories with the same slug distinct cursor rules", () => {
+		const paths = ["a/b/AGENTS.md", "a-b/AGENTS.md", "a b/AGENTS.md"];
+		const files = renderDerivedFiles(
+			buildHierarchy(paths.map(createIntentFile), "agents"),
+			["cursor"],
+			new Map(paths.map((path) => [path, "# Node\n"])),
+		);
+
+		const rulePaths = files.map((file) => file.path);
+		expect(rulePaths).toContain(".cursor/rules/intent-layer-a-b.mdc");
+		expect(rulePaths).toHaveLength(3);
+		expect(new Set(rulePaths).size).toBe(3);
+		for (const path of rulePaths) {
+			expect(path).toMatch(
+				/^\.cursor\/rules\/intent-layer-[A-Za-z0-9._-]+\.mdc$/,
+			);
+		}
+	});
+
+	test("skips nodes without content and empty hierarchies", () => {
+		const files = renderDerivedFiles(
+			hierarchy,
+			["cursor"],
+			new Map([["AGENTS.md", "# Repo\n"]]),
+		);
+		expect(files).toHaveLength(1);
+		expect(
+			renderDerivedFiles(hierarchy, ["copilot", "cursor"], new Map()),
+		).toEqual([]);
+	});
+});
+
+describe("getDerivedFileChanges", () => {
+	const derived = renderDerivedFiles(hierarchy, ["copilot"], contents);
+
+	test("writes files that are missing or out of date", () => {
+		const stale = new Map([
+			[".github/copilot-instructions.md", "<!-- Generated by Intent Layer -->"],
+		]);
+		expect(getDerivedFileChanges(derived, new Map()).changes).toEqual(derived);
+		expect(getDerivedFileChanges(derived, stale).changes).toEqual(derived);
+	});
+
+	test("leaves up-to-date files alone", () => {
+		const current = new Map(derived.map((file) => [file.path, file.content]));
+		expect(getDerivedFileChanges(derived, current)).toEqual({
+			changes: [],
+			skipped: [],
+		});
+	});
+
+	test("never overwrites hand-written files", () => {
+		const handWritten = new Map([
+			[".github/copilot-instructions.md", "# Our own instructions\n"],
+		]);
+		expect(getDerivedFileChanges(derived, handWritten)).toEqual({
+			changes: [],
+			skipped: [".github/copilot-instructions.md"],
+		});
+	});
+
+	test("deletes generated files that are no longer rendered", () => {
+		const existing = new Map([
+			[
+				".cursor/rules/intent-layer-old.mdc",
+				"---\n---\n\n<!-- Generated by Intent Layer from AGENTS.md files. -->\n",
+			],
+			[".cursor/rules/style.mdc", "---\n---\n\nHand-written\n"],
+		]);
+		expect(getDerivedFileChanges([], existing).changes).toEqual([
+			{ path: ".cursor/rules/intent-layer-old.mdc", content: null },
+		]);
+	});
+});
+
+describe("isExportPath", () => {
+	test("matches root export locations of configured targets", () => {
+		expect(isExportPath(".github/copilot-instructions.md", ["copilot"])).toBe(
+			true,
+		);
+		expect(isExportPath(".cursor/rules/intent-layer.mdc", ["cursor"])).toBe(
+			true,
+		);
+		expect(isExportPath(".cursor/rules/intent-layer.mdc", ["copilot"])).toBe(
+			false,
+		);
+		expect(isExportPath("src/.cursor/rules/api.mdc", ["cursor"])).toBe(false);
+		expect(isExportPath("AGENTS.md", ["copilot", "cursor"])).toBe(false);
+	});
+});
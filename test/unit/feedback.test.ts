@@ -0,0 +1,133 @@
+import { describe, expect, test } from "bun:test";
+import {
+	generateComment,
+	markCommentAsResolved,
+	parseCommentMarker,
+} from "../../src/github/comments";
+import {
+	extractFeedbackText,
+	findFeedbackTarget,
+	generateRevisedComment,
+} from "../../src/github/feedback";
+import type { IntentUpdate } from "../../src/opencode/output-schema";
+
+/**
+ * Creates an intent update for a node.
+ */
+function createUpdate(nodePath: string): IntentUpdate {
+	return {
+		nodePath,
+		action: "update",
+		reason: `Refresh ${nodePath}`,
+		currentContent: "# Old\n",
+		suggestedContent: "# New\n",
+	};
+}
+
+describe("extractFeedbackText", () => {
+	test("drops quoted lines and comment links", () => {
+		const body = [
+			"> ### Update: `src/AGENTS.md`",
+			"> **Reason:** Refresh",
+			"",
+			"Re https://github.com/o/r/pull/1#issuecomment-123:",
+			"don't mention the cache, mention the retry policy",
+		].join("\n");
+
+		expect(extractFeedbackText(body)).toBe(
+			"Re \ndon't mention the cache, mention the retry policy",
+		);
+	});
+
+	test("returns an empty string for a bare quote", () => {
+		expect(extractFeedbackText("> quoted only\n\n")).toBe("");
+	});
+});
+
+describe("findFeedbackTarget", () => {
+	const root = { id: 1, body: generateComment(createUpdate("AGENTS.md"), "h") };
+	const src = {
+		id: 2,
+		body: generateComment(createUpdate("src/AGENTS.md"), "h"),
+	};
+	const comments = [root, src, { id: 3, body: "Unrelated comment" }];
+
+	test("finds the suggestion a quote-reply mentions", () => {
+		const target = findFeedbackTarget(
+			"> ### Update: `src/AGENTS.md`\n\nMention the retry policy",
+			comments,
+		);
+
+		expect(target?.commentId).toBe(2);
+		expect(target?.marker.nodePath).toBe("src/AGENTS.md");
+		expect(target?.feedback).toBe("Mention the retry policy");
+	});
+
+	test("does not match a root node inside a nested path", () => {
+		const target = findFeedbackTarget(
+			"> Update: src/AGENTS.md\n\nShorter please",
+			[root],
+		);
+
+		expect(target).toBeNull();
+	});
+
+	test("prefers a linked comment over quoted text", () => {
+		const target = findFeedbackTarget(
+			"> Update: `src/AGENTS.md`\n\nhttps://github.com/o/r/pull/1#issuecomment-1 shorter please",
+			comments,
+		);
+
+		expect(target?.commentId).toBe(1);
+		expect(target?.feedback).toBe("shorter please");
+	});
+
+	test("prefers the newest comment for the same node", () => {
+		const newer = {
+			id: 5,
+			body: generateComment(createUpdate("src/AGENTS.md"), "h2"),
+		};
+
+		const target = findFeedbackTarget("> `src/AGENTS.md`\n\nShorter", [
+			src,
+			newer,
+		]);
+
+		expect(target?.commentId).toBe(5);
+	});
+
+	test("ignores resolved suggestions, bare quotes and unquoted comments", () => {
+		const resolved = { id: 2, body: markCommentAsResolved(src.body) };
+
+		expect(
+			findFeedbackTarget("> `src/AGENTS.md`\n\nShorter", [resolved]),
+		).toBeNull();
+		expect(findFeedbackTarget("> `src/AGENTS.md`", comments)).toBeNull();
+		expect(findFeedbackTarget("Looks good overall", comments)).toBeNull();
+	});
+});
+
+describe("generateRevisedComment", () => {
+	test("keeps the node paths recorded in the marker", () => {
+		const original = generateComment(
+			{ ...createUpdate("AGENTS.md"), otherNodePath: "CLAUDE.md" },
+			"old",
+		);
+		const marker = parseCommentMarker(original);
+		if (!marker) throw new Error("missing marker");
+
+		const revised = generateRevisedComment(
+			{ ...createUpdate("AGENTS.md"), suggestedContent: "# Revised\n" },
+			marker,
+			"new",
+		);
+
+		expect(parseCommentMarker(revised)).toEqual({
+			nodePath: "AGENTS.md",
+			otherNodePath: "CLAUDE.md",
+			headSha: "new",
+			action: "update",
+		});
+		expect(revised).toContain("+# Revised");
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import type { PRMetadata } from "../../src/github/context";
+import { canPushToPRHead, resolveOutputTarget } from "../../src/github/fork";
+
+/**
+ * Creates PR metadata with the head branch in the base repository or a fork.
+ */
+function createMetadata(overrides: Partial<PRMetadata> = {}): PRMetadata {
+	return {
+		number: 42,
+		title: "Test PR",
+		description: null,
+		labels: [],
+		author: { login: "user", id: 1, avatarUrl: "", isBot: false },
+		state: "open",
+		isDraft: false,
+		merged: false,
+		baseBranch: "main",
+		headBranch: "feature",
+		headSha: "head-sha",
+		headRepo: "owner/repo",
+		isFork: false,
+		baseSha: "base-sha",
+		createdAt: "",
+		updatedAt: "",
+		commitsCount: 1,
+		changedFilesCount: 1,
+		additions: 1,
+		deletions: 0,
+		url: "",
+		...overrides,
+	};
+}
+
+const forkMetadata = createMetadata({
+	headRepo: "contributor/repo",
+	isFork: true,
+});
+
+describe("canPushToPRHead", () => {
+	test("allows pushing to same-repository branches", () => {
+		expect(canPushToPRHead(createMetadata())).toBe(true);
+	});
+
+	test("disallows pushing to fork branches", () => {
+		expect(canPushToPRHead(forkMetadata)).toBe(false);
+	});
+});
+
+describe("resolveOutputTarget", () => {
+	test("keeps the configured output for same-repository PRs", () => {
+		for (const output of ["pr_comments", "pr_commit", "new_pr"] as const) {
+			expect(resolveOutputTarget(output, createMetadata())).toEqual({
+				output,
+				newPrBaseBranch: "feature",
+				newPrStartSha: "head-sha",
+			});
+		}
+	});
+
+	test("falls back from pr_commit to pr_comments for forks", () => {
+		const target = resolveOutputTarget("pr_commit", forkMetadata);
+
+		expect(target.output).toBe("pr_comments");
+		expect(target.fallbackReason).toContain("contributor/repo");
+	});
+
+	test("opens new_pr against the base branch for forks", () => {
+		const target = resolveOutputTarget("new_pr", forkMetadata);
+
+		expect(target.output).toBe("new_pr");
+		expect(target.newPrBaseBranch).toBe("main");
+		expect(target.fallbackReason).toContain("from main");
+	});
+
+	test("starts the new_pr branch at the base commit for forks", () => {
+		const target = resolveOutputTarget("new_pr", forkMetadata);
+
+		expect(target.newPrStartSha).toBe("base-sha");
+		expect(target.newPrStartSha).not.toBe(forkMetadata.headSha);
+	});
+
+	test("keeps pr_comments for forks without a fallback reason", () => {
+		const target = resolveOutputTarget("pr_comments", forkMetadata);
+
+		expect(target.output).toBe("pr_comments");
+		expect(target.fallbackReason).toBeUndefined();
+	});
+
+	test("names deleted forks", () => {
+		const target = resolveOutputTarget(
+			"pr_commit",
+			createMetadata({ headRepo: null, isFork: true }),
+		);
+
+		expect(target.fallbackReason).toContain("a deleted fork");
+	});
+});
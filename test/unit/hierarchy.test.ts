@@ -21,6 +21,7 @@ import {
 	traversePostOrder,
 	traversePreOrder,
 } from "../../src/intent/hierarchy";
+import type { IntentFileType } from "../../src/intent/kinds";
 import { IntentLayerIgnore } from "../../src/patterns/ignore";
 
 /**
@@ -28,7 +29,7 @@ import { IntentLayerIgnore } from "../../src/patterns/ignore";
  */
 function createIntentFile(
 	path: string,
-	type: "agents" | "claude" = "agents",
+	type: IntentFileType = "agents",
 ): IntentFile {
 	return {
 		path,
@@ -319,6 +320,32 @@ describe("buildHierarchies", () => {
 
 		expect(hierarchies.claude.fileType).toBe("claude");
 		expect(hierarchies.claude.nodesByPath.size).toBe(2);
+		expect(hierarchies.gemini.nodesByPath.size).toBe(0);
+	});
+
+	test("builds hierarchies of the other registered kinds", () => {
+		const detectionResult: IntentLayerDetectionResult = {
+			agentsFiles: [],
+			claudeFiles: [],
+			otherFiles: {
+				cursor: [
+					createIntentFile(".cursor/rules/style.mdc", "cursor"),
+					createIntentFile("src/.cursor/rules/api.mdc", "cursor"),
+					createIntentFile("src/.cursor/rules/intent-layer.mdc", "cursor"),
+				],
+			},
+		};
+
+		const hierarchy = buildHierarchies(detectionResult).cursor;
+		const root = hierarchy.roots[0];
+
+		// One node per covered directory, preferring the action's own file
+		expect(hierarchy.nodesByPath.size).toBe(2);
+		expect(root?.directory).toBe("");
+		expect(root?.children.map((child) => child.file.path)).toEqual([
+			"src/.cursor/rules/intent-layer.mdc",
+		]);
+		expect(root?.children[0]?.directory).toBe("src");
 	});
 });
 
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getCoveredDirectory,
+	getIntentFilePath,
+	getIntentFileType,
+	INTENT_FILE_TYPES,
+	isIntentFilePath,
+	isRepositoryIntentFilePath,
+	isSymlinkableKind,
+} from "../../src/intent/kinds";
+
+describe("getIntentFileType", () => {
+	test("recognizes files named after their kind at any level", () => {
+		expect(getIntentFileType("AGENTS.md")).toBe("agents");
+		expect(getIntentFileType("packages/api/CLAUDE.md")).toBe("claude");
+		expect(getIntentFileType("src/GEMINI.md")).toBe("gemini");
+	});
+
+	test("recognizes the copilot file only at the repository root", () => {
+		expect(getIntentFileType(".github/copilot-instructions.md")).toBe(
+			"copilot",
+		);
+		expect(
+			getIntentFileType("packages/api/.github/copilot-instructions.md"),
+		).toBeUndefined();
+	});
+
+	test("recognizes any rule file in a cursor rules directory", () => {
+		expect(getIntentFileType(".cursor/rules/style.mdc")).toBe("cursor");
+		expect(getIntentFileType("packages/api/.cursor/rules/api.mdc")).toBe(
+			"cursor",
+		);
+		expect(getIntentFileType(".cursor/style.mdc")).toBeUndefined();
+		expect(getIntentFileType(".cursor/rules/README.md")).toBeUndefined();
+	});
+
+	test("returns undefined for other files", () => {
+		expect(getIntentFileType("src/index.ts")).toBeUndefined();
+		expect(getIntentFileType("docs/AGENTS.md.bak")).toBeUndefined();
+		expect(isIntentFilePath("README.md")).toBe(false);
+	});
+});
+
+describe("isRepositoryIntentFilePath", () => {
+	test("accepts intent files inside the repository", () => {
+		expect(isRepositoryIntentFilePath("AGENTS.md")).toBe(true);
+		expect(isRepositoryIntentFilePath("src/./lib/../CLAUDE.md")).toBe(true);
+	});
+
+	test("rejects paths leaving the repository or naming other files", () => {
+		expect(isRepositoryIntentFilePath("../AGENTS.md")).toBe(false);
+		expect(isRepositoryIntentFilePath("src/../../AGENTS.md")).toBe(false);
+		expect(isRepositoryIntentFilePath("/etc/AGENTS.md")).toBe(false);
+		expect(isRepositoryIntentFilePath("src/index.ts")).toBe(false);
+	});
+});
+
+describe("getIntentFilePath", () => {
+	test("places the node file relative to the covered directory", () => {
+		expect(getIntentFilePath("agents", "")).toBe("AGENTS.md");
+		expect(getIntentFilePath("gemini", "packages/api")).toBe(
+			"packages/api/GEMINI.md",
+		);
+		expect(getIntentFilePath("copilot", "")).toBe(
+			".github/copilot-instructions.md",
+		);
+		expect(getIntentFilePath("cursor", "packages/api")).toBe(
+			"packages/api/.cursor/rules/intent-layer.mdc",
+		);
+	});
+
+	test("round-trips with getCoveredDirectory for every kind", () => {
+		for (const type of INTENT_FILE_TYPES) {
+			for (const directory of ["", "packages/api"]) {
+				const path = getIntentFilePath(type, directory);
+				expect(getCoveredDirectory(path, type)).toBe(directory);
+			}
+		}
+	});
+});
+
+describe("getCoveredDirectory", () => {
+	test("strips the kind's subdirectory", () => {
+		expect(getCoveredDirectory("src/.cursor/rules/style.mdc", "cursor")).toBe(
+			"src",
+		);
+		expect(getCoveredDirectory(".cursor/rules/style.mdc", "cursor")).toBe("");
+		expect(getCoveredDirectory("src/CLAUDE.md", "claude")).toBe("src");
+	});
+});
+
+describe("isSymlinkableKind", () => {
+	test("only allows fixed-name files in the covered directory", () => {
+		expect(INTENT_FILE_TYPES.filter(isSymlinkableKind)).toEqual([
+			"agents",
+			"claude",
+			"gemini",
+		]);
+	});
+});
@@ -0,0 +1,312 @@
+import { describe, expect, test } from "bun:test";
+import type { PRChangedFile } from "../../src/github/context";
+import type { IntentFile } from "../../src/intent/detector";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+import {
+	applyLintFixes,
+	applyReferenceFixes,
+	buildPathIndex,
+	extractPathReferences,
+	lintIntentLayer,
+	lintIntentNode,
+	rebaseReferences,
+} from "../../src/intent/linter";
+import { InMemoryRepositorySource } from "../../src/repository/memory";
+
+/**
+ * Builds a path index for a list of file paths.
+ */
+function indexPaths(paths: string[]) {
+	return buildPathIndex(
+		paths.map((path) => ({ path, type: "blob", mode: "100644", sha: "" })),
+	);
+}
+
+/**
+ * Creates a changed file with only the fields the linter reads.
+ */
+function changedFile(
+	filename: string,
+	status: PRChangedFile["status"],
+	previousFilename: string | null = null,
+): PRChangedFile {
+	return {
+		sha: "",
+		filename,
+		status,
+		additions: 0,
+		deletions: 0,
+		changes: 0,
+		patch: null,
+		previousFilename,
+		blobUrl: "",
+		rawUrl: "",
+		contentsUrl: "",
+	};
+}
+
+const paths = indexPaths([
+	"AGENTS.md",
+	"src/AGENTS.md",
+	"src/github/commits.ts",
+	"src/utils/diff.ts",
+	"docs/guide.md",
+]);
+
+describe("buildPathIndex", () => {
+	test("includes files and their directories", () => {
+		expect([...paths].sort()).toEqual([
+			"",
+			"AGENTS.md",
+			"docs",
+			"docs/guide.md",
+			"src",
+			"src/AGENTS.md",
+			"src/github",
+			"src/github/commits.ts",
+			"src/utils",
+			"src/utils/diff.ts",
+		]);
+	});
+});
+
+describe("extractPathReferences", () => {
+	const extract = (content: string, nodeDirectory = "") =>
+		extractPathReferences(content, nodeDirectory, (path) =>
+			paths.has(path),
+		).map((reference) => [reference.kind, reference.raw, reference.path]);
+
+	test("finds links, inline code, and prose paths", () => {
+		expect(
+			extract(
+				[
+					"See [the guide](docs/guide.md#setup) and `src/github/commits.ts`.",
+					"Diffs live in src/utils/diff.ts.",
+				].join("\n"),
+			),
+		).toEqual([
+			["link", "docs/guide.md", "docs/guide.md"],
+			["code", "src/github/commits.ts", "src/github/commits.ts"],
+			["text", "src/utils/diff.ts", "src/utils/diff.ts"],
+		]);
+	});
+
+	test("resolves links against the node directory", () => {
+		expect(
+			extract("[commits](./github/commits.ts) and [root](../AGENTS.md)", "src"),
+		).toEqual([
+			["link", "./github/commits.ts", "src/github/commits.ts"],
+			["link", "../AGENTS.md", "AGENTS.md"],
+		]);
+	});
+
+	test("resolves other references against the node or the root", () => {
+		expect(extract("`github/commits.ts` and `src/utils/`", "src")).toEqual([
+			["code", "github/commits.ts", "src/github/commits.ts"],
+			["code", "src/utils/", "src/utils"],
+		]);
+	});
+
+	test("ignores URLs, packages, code blocks, and unknown prefixes", () => {
+		expect(
+			extract(
+				[
+					"[site](https://example.com/a.md) [top](#top)",
+					"Uses `@actions/core`, `text/plain`, and and/or.",
+					"```",
+					"cat src/missing.ts",
+					"```",
+				].join("\n"),
+			),
+		).toEqual([]);
+	});
+});
+
+describe("lintIntentNode", () => {
+	test("reports references to missing paths with their line", () => {
+		const findings = lintIntentNode(
+			"AGENTS.md",
+			"# Root\n\nSee `src/github/missing.ts` and [old](old/README.md).\n",
+			paths,
+		);
+
+		expect(
+			findings.map((finding) => [finding.reference.line, finding.message]),
+		).toEqual([
+			[3, "References `old/README.md`, which does not exist"],
+			[3, "References `src/github/missing.ts`, which does not exist"],
+		]);
+		expect(findings.every((finding) => !finding.replacement)).toBe(true);
+	});
+
+	test("proposes replacements for files renamed in the PR", () => {
+		const findings = lintIntentNode(
+			"src/AGENTS.md",
+			"Commits: `src/github/git.ts`, [git](./github/git.ts).\n",
+			indexPaths(["src/AGENTS.md", "src/github/commits.ts"]),
+			[changedFile("src/github/commits.ts", "renamed", "src/github/git.ts")],
+		);
+
+		expect(
+			findings.map((finding) => [finding.reference.raw, finding.replacement]),
+		).toEqual([
+			["./github/git.ts", "./github/commits.ts"],
+			["src/github/git.ts", "src/github/commits.ts"],
+		]);
+		expect(findings[0]?.message).toBe(
+			"References `./github/git.ts`, which was renamed to `src/github/commits.ts` in this PR",
+		);
+	});
+
+	test("follows directories whose files all moved", () => {
+		const findings = lintIntentNode(
+			"AGENTS.md",
+			"Helpers live in `lib/helpers/`.\n",
+			indexPaths(["AGENTS.md", "src/helpers/a.ts", "src/helpers/b.ts"]),
+			[
+				changedFile("src/helpers/a.ts", "renamed", "lib/helpers/a.ts"),
+				changedFile("src/helpers/b.ts", "renamed", "lib/helpers/b.ts"),
+			],
+		);
+
+		expect(findings[0]?.replacement).toBe("src/helpers/");
+	});
+
+	test("explains references to files removed in the PR", () => {
+		const findings = lintIntentNode(
+			"AGENTS.md",
+			"Old code in `legacy/run.ts`.\n",
+			indexPaths(["AGENTS.md"]),
+			[changedFile("legacy/run.ts", "removed")],
+		);
+
+		expect(findings[0]?.message).toBe(
+			"References `legacy/run.ts`, which was removed in this PR",
+		);
+		expect(findings[0]?.replacement).toBeUndefined();
+	});
+});
+
+describe("applyReferenceFixes", () => {
+	test("replaces whole references only", () => {
+		const [finding] = lintIntentNode(
+			"AGENTS.md",
+			"`src/a.ts`\n",
+			indexPaths(["AGENTS.md", "src/b.ts"]),
+			[changedFile("src/b.ts", "renamed", "src/a.ts")],
+		);
+		if (!finding) throw new Error("missing finding");
+
+		expect(
+			applyReferenceFixes("Edit src/a.ts. Not src/a.tsx or lib/src/a.ts.", [
+				finding,
+			]),
+		).toBe("Edit src/b.ts. Not src/a.tsx or lib/src/a.ts.");
+	});
+});
+
+describe("rebaseReferences", () => {
+	test("keeps references resolving from the new location", () => {
+		const content = [
+			"Handlers in [api](./api/handler.ts) and `api/`.",
+			"Shared code: [utils](../shared/utils.ts), `packages/shared/utils.ts`.",
+		].join("\n");
+
+		expect(
+			rebaseReferences(
+				content,
+				"packages/a/AGENTS.md",
+				"services/a/AGENTS.md",
+				indexPaths(["services/a/api/handler.ts", "packages/shared/utils.ts"]),
+				[
+					changedFile(
+						"services/a/api/handler.ts",
+						"renamed",
+						"packages/a/api/handler.ts",
+					),
+				],
+			),
+		).toBe(
+			[
+				"Handlers in [api](./api/handler.ts) and `api/`.",
+				"Shared code: [utils](../../packages/shared/utils.ts), `packages/shared/utils.ts`.",
+			].join("\n"),
+		);
+	});
+});
+
+describe("lintIntentLayer", () => {
+	const files = {
+		"AGENTS.md": "# Root\n\nEntry point: `src/main.ts`.\n",
+		"CLAUDE.md": { symlink: "AGENTS.md" },
+		"src/index.ts": "export {};\n",
+	};
+	const source = new InMemoryRepositorySource([{ sha: "head", files }]);
+	const agentsFiles: IntentFile[] = [
+		{ path: "AGENTS.md", type: "agents", sha: "a", isSymlink: false },
+	];
+	const claudeFiles: IntentFile[] = [
+		{
+			path: "CLAUDE.md",
+			type: "claude",
+			sha: "c",
+			isSymlink: true,
+			symlinkTarget: "AGENTS.md",
+		},
+	];
+	const nodes = [
+		...buildHierarchy(agentsFiles, "agents").nodesByPath.values(),
+		...buildHierarchy(claudeFiles, "claude").nodesByPath.values(),
+	];
+
+	test("fixes renamed references without the LLM", async () => {
+		const lint = await lintIntentLayer(
+			source,
+			nodes,
+			await source.listTree("head"),
+			"head",
+			[changedFile("src/index.ts", "renamed", "src/main.ts")],
+		);
+
+		expect(lint.findings).toHaveLength(1);
+		expect(lint.fixes).toEqual([
+			{
+				nodePath: "AGENTS.md",
+				action: "update",
+				reason:
+					"Update references to paths renamed in this PR: `src/main.ts` → `src/index.ts`",
+				currentContent: "# Root\n\nEntry point: `src/main.ts`.\n",
+				suggestedContent: "# Root\n\nEntry point: `src/index.ts`.\n",
+			},
+		]);
+	});
+
+	test("applies fixes to updates the LLM already proposed", async () => {
+		const lint = await lintIntentLayer(
+			source,
+			nodes,
+			await source.listTree("head"),
+			"head",
+			[changedFile("src/index.ts", "renamed", "src/main.ts")],
+		);
+
+		const [merged, ...rest] = applyLintFixes(
+			[
+				{
+					nodePath: "AGENTS.md",
+					action: "update",
+					reason: "Describe startup",
+					currentContent: files["AGENTS.md"],
+					suggestedContent: "# Root\n\nStarts in `src/main.ts`.\n",
+				},
+			],
+			lint,
+		);
+
+		expect(rest).toEqual([]);
+		expect(merged?.reason).toBe("Describe startup");
+		expect(merged?.suggestedContent).toBe(
+			"# Root\n\nStarts in `src/index.ts`.\n",
+		);
+	});
+});
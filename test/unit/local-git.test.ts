@@ -0,0 +1,383 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import {
+	lstatSync,
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	readlinkSync,
+	rmSync,
+	symlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildLocalPRMetadata } from "../../src/cli/analyze";
+import { LocalGitError, LocalGitRepository } from "../../src/local/git";
+import {
+	UnsafeUpdatePathError,
+	writeUpdatesToWorkingTree,
+} from "../../src/local/workspace";
+
+/**
+ * Creates a temporary git repository with a base commit on main and two
+ * commits on a feature branch.
+ */
+function createTempRepository(): string {
+	const root = mkdtempSync(join(tmpdir(), "intent-layer-git-"));
+	const git = (...args: string[]) =>
+		execFileSync("git", args, { cwd: root, encoding: "utf-8" });
+
+	git("init", "-q", "-b", "main");
+	git("config", "user.name", "Test User");
+	git("config", "user.email", "test@example.com");
+	git("config", "commit.gpgsign", "false");
+
+	mkdirSync(join(root, "src"));
+	writeFileSync(join(root, "AGENTS.md"), "# Root\n");
+	symlinkSync("AGENTS.md", join(root, "CLAUDE.md"));
+	writeFileSync(join(root, "src/index.ts"), "export const a = 1;\n");
+	writeFileSync(join(root, "old-name.ts"), "export const moved = true;\n");
+	git("add", "-A");
+	git("commit", "-q", "-m", "Initial commit");
+
+	git("checkout", "-q", "-b", "feature");
+	writeFileSync(
+		join(root, "src/index.ts"),
+		"export const a = 1;\nexport const b = 2;\n",
+	);
+	writeFileSync(join(root, "src/new.ts"), "export const c = 3;\n");
+	git("add", "-A");
+	git("commit", "-q", "-m", "Add b and c\n\nLonger description.");
+
+	git("mv", "old-name.ts", "src/new-name.ts");
+	writeFileSync(join(root, "image.bin"), Buffer.from([0, 1, 2, 0, 255]));
+	git("add", "-A");
+	git("commit", "-q", "-m", "Move file and add binary");
+
+	return root;
+}
+
+let root: string;
+let repo: LocalGitRepository;
+
+beforeAll(async () => {
+	root = createTempRepository();
+	repo = await LocalGitRepository.open(join(root, "src"));
+});
+
+afterAll(() => {
+	rmSync(root, { recursive: true, force: true });
+});
+
+describe("LocalGitRepository", () => {
+	test("opens the repository at the working tree root", () => {
+		expect(readFileSync(join(repo.root, "AGENTS.md"), "utf-8")).toBe(
+			"# Root\n",
+		);
+	});
+
+	test("throws LocalGitError outside a repository", async () => {
+		const outside = mkdtempSync(join(tmpdir(), "intent-layer-nogit-"));
+		try {
+			await expect(LocalGitRepository.open(outside)).rejects.toBeInstanceOf(
+				LocalGitError,
+			);
+		} finally {
+			rmSync(outside, { recursive: true, force: true });
+		}
+	});
+
+	test("resolves refs and reports the current branch", async () => {
+		const sha = await repo.resolveRef("HEAD");
+		expect(sha).toMatch(/^[0-9a-f]{40}$/);
+		expect(await repo.resolveRef("feature")).toBe(sha);
+		expect(await repo.getCurrentBranch()).toBe("feature");
+		await expect(repo.resolveRef("does-not-exist")).rejects.toBeInstanceOf(
+			LocalGitError,
+		);
+	});
+
+	test("lists the tree with modes, SHAs, and sizes", async () => {
+		const tree = await repo.listTree("main");
+		const byPath = new Map(tree.map((entry) => [entry.path, entry]));
+
+		expect(byPath.get("AGENTS.md")).toMatchObject({
+			type: "blob",
+			mode: "100644",
+			size: 7,
+		});
+		expect(byPath.get("CLAUDE.md")?.mode).toBe("120000");
+		expect(byPath.get("src/index.ts")?.type).toBe("blob");
+		expect(byPath.has("src")).toBe(false);
+
+		const symlinkSha = byPath.get("CLAUDE.md")?.sha as string;
+		expect(await repo.readBlob(symlinkSha)).toBe("AGENTS.md");
+	});
+
+	test("reads files at a ref", async () => {
+		expect(await repo.readFile("src/index.ts", "main")).toBe(
+			"export const a = 1;\n",
+		);
+		expect(await repo.readFile("src/new.ts", "main")).toBeUndefined();
+		expect(await repo.readFile("src/new.ts", "feature")).toBe(
+			"export const c = 3;\n",
+		);
+	});
+
+	test("reports blob SHAs only for files", async () => {
+		const tree = await repo.listTree("feature");
+		const indexSha = tree.find((entry) => entry.path === "src/index.ts")?.sha;
+
+		expect(await repo.getFileSha("src/index.ts", "feature")).toBe(
+			indexSha as string,
+		);
+		expect(await repo.getFileSha("src", "feature")).toBeUndefined();
+		expect(await repo.getFileSha("src/new.ts", "main")).toBeUndefined();
+	});
+
+	test("computes the diff between base and head", async () => {
+		const diff = await repo.getDiff("main", "feature");
+		const byName = new Map(diff.files.map((file) => [file.filename, file]));
+
+		expect(byName.get("src/index.ts")).toMatchObject({
+			status: "modified",
+			additions: 1,
+			deletions: 0,
+			changes: 1,
+			previousFilename: null,
+		});
+		expect(byName.get("src/index.ts")?.patch).toStartWith("@@");
+		expect(byName.get("src/index.ts")?.patch).toContain("+export const b = 2;");
+
+		expect(byName.get("src/new.ts")?.status).toBe("added");
+		expect(byName.get("src/new-name.ts")).toMatchObject({
+			status: "renamed",
+			previousFilename: "old-name.ts",
+		});
+		expect(byName.get("image.bin")?.patch).toBeNull();
+
+		expect(diff.summary).toMatchObject({
+			totalFiles: 4,
+			filesAdded: 2,
+			filesModified: 1,
+			filesRenamed: 1,
+		});
+	});
+
+	test("lists commits in the range oldest first", async () => {
+		const commits = await repo.getCommits("main", "feature");
+
+		expect(commits.map((c) => c.message)).toEqual([
+			"Add b and c\n\nLonger description.",
+			"Move file and add binary",
+		]);
+		expect(commits[0]?.author).toMatchObject({
+			name: "Test User",
+			email: "test@example.com",
+		});
+		expect(commits[1]?.parentShas).toEqual([commits[0]?.sha as string]);
+	});
+
+	test("lists the history of a path with file stats", async () => {
+		const history = await repo.getPathHistory("src", "feature", 10);
+
+		expect(history).toHaveLength(3);
+		expect(history[0]?.files).toEqual([
+			{
+				filename: "src/new-name.ts",
+				status: "added",
+				additions: 1,
+				deletions: 0,
+			},
+		]);
+		expect(history[1]?.files).toEqual([
+			{
+				filename: "src/index.ts",
+				status: "modified",
+				additions: 1,
+				deletions: 0,
+			},
+			{ filename: "src/new.ts", status: "added", additions: 1, deletions: 0 },
+		]);
+		expect(await repo.getPathHistory("", "feature", 2)).toHaveLength(2);
+		expect(
+			(await repo.getPathHistory("old-name.ts", "feature", 10))[0]?.files,
+		).toEqual([
+			{
+				filename: "old-name.ts",
+				status: "removed",
+				additions: 0,
+				deletions: 1,
+			},
+		]);
+	});
+});
+
+describe("buildLocalPRMetadata", () => {
+	test("describes a commit range as a pull request", async () => {
+		const baseSha = await repo.getMergeBase("main", "feature");
+		const headSha = await repo.resolveRef("feature");
+		const diff = await repo.getDiff(baseSha, headSha);
+		const commits = await repo.getCommits(baseSha, headSha);
+
+		const metadata = buildLocalPRMetadata(
+			"repo",
+			"main",
+			"feature",
+			baseSha,
+			headSha,
+			commits,
+			diff,
+		);
+
+		expect(metadata).toMatchObject({
+			number: 0,
+			title: "repo: main...feature",
+			description: null,
+			baseBranch: "main",
+			headBranch: "feature",
+			baseSha,
+			headSha,
+			commitsCount: 2,
+			changedFilesCount: 4,
+		});
+	});
+
+	test("uses the commit subject and body for a single commit", async () => {
+		const baseSha = await repo.resolveRef("main");
+		const headSha = await repo.resolveRef("feature~1");
+		const diff = await repo.getDiff(baseSha, headSha);
+		const commits = await repo.getCommits(baseSha, headSha);
+
+		const metadata = buildLocalPRMetadata(
+			"repo",
+			"main",
+			"feature~1",
+			baseSha,
+			headSha,
+			commits,
+			diff,
+		);
+
+		expect(metadata.title).toBe("Add b and c");
+		expect(metadata.description).toBe("Longer description.");
+	});
+});
+
+describe("writeUpdatesToWorkingTree", () => {
+	let workDir: string;
+
+	beforeAll(() => {
+		workDir = mkdtempSync(join(tmpdir(), "intent-layer-work-"));
+	});
+
+	afterAll(() => {
+		rmSync(workDir, { recursive: true, force: true });
+	});
+
+	test("creates, updates, and deletes files", async () => {
+		writeFileSync(join(workDir, "AGENTS.md"), "old\n");
+		mkdirSync(join(workDir, "stale"));
+		writeFileSync(join(workDir, "stale/AGENTS.md"), "stale\n");
+
+		const written = await writeUpdatesToWorkingTree(workDir, [
+			{
+				nodePath: "AGENTS.md",
+				action: "update",
+				reason: "Update root",
+				currentContent: "old\n",
+				suggestedContent: "new\n",
+			},
+			{
+				nodePath: "packages/api/AGENTS.md",
+				action: "create",
+				reason: "New package",
+				suggestedContent: "# API\n",
+			},
+			{
+				nodePath: "stale/AGENTS.md",
+				action: "delete",
+				reason: "Obsolete",
+				currentContent: "stale\n",
+			},
+		]);
+
+		expect(written).toEqual([
+			"AGENTS.md",
+			"packages/api/AGENTS.md",
+			"stale/AGENTS.md",
+		]);
+		expect(readFileSync(join(workDir, "AGENTS.md"), "utf-8")).toBe("new\n");
+		expect(readFileSync(join(workDir, "packages/api/AGENTS.md"), "utf-8")).toBe(
+			"# API\n",
+		);
+		expect(() => lstatSync(join(workDir, "stale/AGENTS.md"))).toThrow();
+	});
+
+	test("writes the source file and symlinks the other file", async () => {
+		const written = await writeUpdatesToWorkingTree(
+			workDir,
+			[
+				{
+					nodePath: "lib/CLAUDE.md",
+					otherNodePath: "lib/AGENTS.md",
+					action: "create",
+					reason: "New node",
+					suggestedContent: "# Lib\n",
+				},
+			],
+			{ symlink: true, symlinkSource: "agents" },
+		);
+
+		expect(written).toEqual(["lib/AGENTS.md", "lib/CLAUDE.md"]);
+		expect(readFileSync(join(workDir, "lib/AGENTS.md"), "utf-8")).toBe(
+			"# Lib\n",
+		);
+		expect(lstatSync(join(workDir, "lib/CLAUDE.md")).isSymbolicLink()).toBe(
+			true,
+		);
+		expect(readlinkSync(join(workDir, "lib/CLAUDE.md"))).toBe("AGENTS.md");
+	});
+
+	test("refuses paths that leave the working tree", async () => {
+		mkdirSync(join(workDir, "safe"), { recursive: true });
+
+		await expect(
+			writeUpdatesToWorkingTree(workDir, [
+				{
+					nodePath: "safe/AGENTS.md",
+					action: "create",
+					reason: "New node",
+					suggestedContent: "# Safe\n",
+				},
+				{
+					nodePath: "../outside/AGENTS.md",
+					action: "create",
+					reason: "Escape",
+					suggestedContent: "# Escaped\n",
+				},
+			]),
+		).rejects.toThrow(UnsafeUpdatePathError);
+		expect(() => lstatSync(join(workDir, "safe/AGENTS.md"))).toThrow();
+		expect(() => lstatSync(join(workDir, "../outside/AGENTS.md"))).toThrow();
+	});
+
+	test("refuses paths that are not intent files", async () => {
+		writeFileSync(join(workDir, "index.ts"), "export {};\n");
+
+		await expect(
+			writeUpdatesToWorkingTree(workDir, [
+				{
+					nodePath: "index.ts",
+					action: "delete",
+					reason: "Not a node",
+					currentContent: "export {};\n",
+				},
+			]),
+		).rejects.toThrow("Refusing to write outside the intent layer: index.ts");
+		expect(readFileSync(join(workDir, "index.ts"), "utf-8")).toBe(
+			"export {};\n",
+		);
+	});
+});
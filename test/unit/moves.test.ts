@@ -0,0 +1,189 @@
+import { describe, expect, test } from "bun:test";
+import type { PRChangedFile } from "../../src/github/context";
+import type { IntentFile } from "../../src/intent/detector";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+import { applyNodeMoves, findNodeMoves } from "../../src/intent/moves";
+import { InMemoryRepositorySource } from "../../src/repository/memory";
+
+/**
+ * Creates a renamed file with only the fields node moves read.
+ */
+function renamedFile(
+	filename: string,
+	previousFilename: string,
+): PRChangedFile {
+	return {
+		sha: "",
+		filename,
+		status: "renamed",
+		additions: 0,
+		deletions: 0,
+		changes: 0,
+		patch: null,
+		previousFilename,
+		blobUrl: "",
+		rawUrl: "",
+		contentsUrl: "",
+	};
+}
+
+const hierarchy = buildHierarchy(
+	["AGENTS.md", "packages/a/AGENTS.md"].map(
+		(path): IntentFile => ({ path, type: "agents", sha: "", isSymlink: false }),
+	),
+	"agents",
+);
+const nodeContent =
+	"# A\n\nEntry: [index](./src/index.ts). Docs: `README.md`.\n";
+const movedFiles = [
+	renamedFile("services/a/src/index.ts", "packages/a/src/index.ts"),
+	renamedFile("services/a/src/util.ts", "packages/a/src/util.ts"),
+];
+
+/**
+ * Creates a repository at the head of a PR that moved packages/a to
+ * services/a but left its AGENTS.md behind.
+ */
+function createMovedSource(extraFiles: Record<string, string> = {}) {
+	return new InMemoryRepositorySource([
+		{
+			sha: "head",
+			files: {
+				"AGENTS.md": "# Root\n",
+				"README.md": "# Readme\n",
+				"packages/a/AGENTS.md": nodeContent,
+				"services/a/src/index.ts": "export {};\n",
+				"services/a/src/util.ts": "export {};\n",
+				...extraFiles,
+			},
+		},
+	]);
+}
+
+describe("findNodeMoves", () => {
+	test("moves a node whose directory moved wholesale", async () => {
+		const source = createMovedSource();
+
+		const moves = await findNodeMoves(
+			source,
+			hierarchy,
+			movedFiles,
+			await source.listTree("head"),
+			"head",
+		);
+
+		expect(moves).toEqual([
+			{
+				fromPath: "packages/a/AGENTS.md",
+				toPath: "services/a/AGENTS.md",
+				fromDirectory: "packages/a",
+				toDirectory: "services/a",
+				currentContent: nodeContent,
+			},
+		]);
+	});
+
+	test("leaves the node when code remains in its directory", async () => {
+		const source = createMovedSource({ "packages/a/keep.ts": "export {};\n" });
+
+		const moves = await findNodeMoves(
+			source,
+			hierarchy,
+			movedFiles,
+			await source.listTree("head"),
+			"head",
+		);
+
+		expect(moves).toEqual([]);
+	});
+
+	test("leaves the node when files moved to different directories", async () => {
+		const source = createMovedSource();
+
+		const moves = await findNodeMoves(
+			source,
+			hierarchy,
+			[
+				renamedFile("services/a/src/index.ts", "packages/a/src/index.ts"),
+				renamedFile("lib/src/util.ts", "packages/a/src/util.ts"),
+			],
+			await source.listTree("head"),
+			"head",
+		);
+
+		expect(moves).toEqual([]);
+	});
+
+	test("leaves the node when the destination has one", async () => {
+		const source = createMovedSource({ "services/a/AGENTS.md": "# Moved\n" });
+
+		const moves = await findNodeMoves(
+			source,
+			hierarchy,
+			movedFiles,
+			await source.listTree("head"),
+			"head",
+		);
+
+		expect(moves).toEqual([]);
+	});
+});
+
+describe("applyNodeMoves", () => {
+	const move = {
+		fromPath: "packages/a/AGENTS.md",
+		toPath: "services/a/AGENTS.md",
+		fromDirectory: "packages/a",
+		toDirectory: "services/a",
+		currentContent: nodeContent,
+	};
+
+	test("proposes a delete and create with rebased references", async () => {
+		const entries = await createMovedSource().listTree("head");
+
+		expect(applyNodeMoves([], [move], entries, movedFiles)).toEqual([
+			{
+				nodePath: "packages/a/AGENTS.md",
+				action: "delete",
+				reason: "Moved to `services/a/AGENTS.md` with its directory",
+				currentContent: nodeContent,
+			},
+			{
+				nodePath: "services/a/AGENTS.md",
+				action: "create",
+				reason: "Move with its directory from `packages/a/` to `services/a/`",
+				suggestedContent: nodeContent,
+			},
+		]);
+	});
+
+	test("moves the content of an update proposed for the node", async () => {
+		const entries = await createMovedSource().listTree("head");
+
+		const updates = applyNodeMoves(
+			[
+				{
+					nodePath: "packages/a/AGENTS.md",
+					action: "update",
+					reason: "Describe utilities",
+					currentContent: nodeContent,
+					suggestedContent: "# A\n\nUtilities: [util](./src/util.ts).\n",
+				},
+			],
+			[move],
+			entries,
+			movedFiles,
+		);
+
+		expect(updates.map((update) => update.action)).toEqual([
+			"delete",
+			"create",
+		]);
+		expect(updates[1]?.reason).toBe(
+			"Move with its directory from `packages/a/` to `services/a/`; Describe utilities",
+		);
+		expect(updates[1]?.suggestedContent).toBe(
+			"# A\n\nUtilities: [util](./src/util.ts).\n",
+		);
+	});
+});
@@ -39,6 +39,8 @@ describe("OpenCode Context", () => {
 			baseBranch: "main",
 			headBranch: "feature/test",
 			headSha: "abc123",
+			headRepo: "owner/repo",
+			isFork: false,
 			baseSha: "def456",
 			createdAt: "2024-01-01T00:00:00Z",
 			updatedAt: "2024-01-02T00:00:00Z",
@@ -6,13 +6,22 @@ import type {
 	PRMetadata,
 } from "../../src/github/context";
 import type { SemanticBoundaryCandidate } from "../../src/intent/analyzer";
+import type { StaleNode, UncoveredHotspot } from "../../src/intent/audit";
 import type { IntentFile } from "../../src/intent/detector";
 import {
 	ANALYST_ROLE,
+	assembleAnalysisPrompt,
+	assembleAuditPrompt,
+	assembleInitializationPrompt,
+	assembleNodeSplitPrompt,
+	assembleReconciliationPrompt,
+	assembleSingleNodeUpdatePrompt,
 	buildAnalysisPrompt,
+	buildAuditPrompt,
 	buildInitializationPrompt,
 	buildNewNodePrompt,
 	buildNodeSplitPrompt,
+	buildReconciliationPrompt,
 	buildSingleNodeUpdatePrompt,
 	CONTENT_GUIDELINES,
 	collectCustomPrompts,
@@ -68,6 +77,8 @@ function createMockPRMetadata(overrides: Partial<PRMetadata> = {}): PRMetadata {
 		baseBranch: "main",
 		headBranch: "feature/new-feature",
 		headSha: "def456",
+		headRepo: "owner/repo",
+		isFork: false,
 		baseSha: "abc123",
 		createdAt: "2024-01-01T00:00:00Z",
 		updatedAt: "2024-01-02T00:00:00Z",
@@ -600,6 +611,120 @@ describe("buildAnalysisPrompt", () => {
 	});
 });
 
+describe("assembleAnalysisPrompt", () => {
+	const patch = (name: string) =>
+		Array.from(
+			{ length: 100 },
+			(_, i) => `+${name} line ${i} of the change`,
+		).join("\n");
+	const coveredFile = createMockChangedFile({
+		filename: "src/a.ts",
+		patch: patch("covered"),
+	});
+	const uncoveredFile = createMockChangedFile({
+		filename: "docs/b.md",
+		patch: patch("uncovered"),
+	});
+	const prContext: PRContext = {
+		metadata: createMockPRMetadata(),
+		commits: [createMockCommit()],
+		linkedIssues: [],
+		reviewComments: [],
+		changedFiles: [coveredFile, uncoveredFile],
+	};
+	const node = (path: string, directory: string) => ({
+		file: createMockIntentFile(path),
+		directory,
+		parent: undefined,
+		children: [],
+		depth: directory ? 1 : 0,
+	});
+	const intentContext: IntentContext = {
+		nodesToUpdate: [
+			{
+				node: node("src/AGENTS.md", "src"),
+				changedFiles: [
+					{ file: coveredFile, coveringNode: undefined, isIgnored: false },
+				],
+				changeSummary: {
+					filesAdded: 0,
+					filesModified: 1,
+					filesRemoved: 0,
+					filesRenamed: 0,
+					totalAdditions: 10,
+					totalDeletions: 5,
+				},
+				updateReason: "1 file modified",
+				currentContent: "# Src",
+			},
+		],
+		parentNodesToReview: [
+			{
+				node: node("AGENTS.md", ""),
+				updatedChildren: [],
+				totalChangedFilesInChildren: 1,
+				totalAdditionsInChildren: 10,
+				totalDeletionsInChildren: 5,
+				recommendUpdate: false,
+				recommendationReason: "Parent nodes typically don't need updates",
+				currentContent: `# Root\n\n${"Root guidance. ".repeat(200)}`,
+			},
+		],
+		potentialNewNodes: [],
+	};
+	const config: PromptConfig = {
+		fileType: "agents",
+		newNodesAllowed: true,
+		splitLargeNodes: false,
+	};
+
+	test("matches buildAnalysisPrompt when not budgeted", () => {
+		const { prompt, report } = assembleAnalysisPrompt(
+			prContext,
+			intentContext,
+			config,
+		);
+
+		expect(prompt).toBe(buildAnalysisPrompt(prContext, intentContext, config));
+		expect(report.summarized).toEqual([]);
+		expect(report.elided).toEqual([]);
+	});
+
+	test("cuts uncovered files before parent nodes and covered files", () => {
+		const full = assembleAnalysisPrompt(prContext, intentContext, config);
+
+		const { prompt, report } = assembleAnalysisPrompt(
+			prContext,
+			intentContext,
+			{ ...config, tokenBudget: full.report.promptTokens - 500 },
+		);
+
+		expect(report.summarized).toEqual(["patch of docs/b.md"]);
+		expect(prompt).toContain("### docs/b.md (modified)");
+		expect(prompt).toContain("(patch omitted to fit the context window)");
+		expect(prompt).not.toContain("+uncovered line 0");
+		expect(prompt).toContain("+covered line 0");
+		expect(prompt).toContain("Root guidance.");
+	});
+
+	test("summarizes parent nodes before touching covered files", () => {
+		const full = assembleAnalysisPrompt(prContext, intentContext, config);
+
+		const { prompt, report } = assembleAnalysisPrompt(
+			prContext,
+			intentContext,
+			{ ...config, tokenBudget: full.report.promptTokens - 1500 },
+		);
+
+		expect(report.summarized).toEqual(["parent node AGENTS.md"]);
+		expect(report.elided).toEqual(["commit list", "patch of docs/b.md"]);
+		expect(prompt).not.toContain("Root guidance.");
+		expect(prompt).toContain("do not propose an update to this node");
+		expect(prompt).toContain("+covered line 0");
+		expect(prompt).toContain("Respond with ONLY the JSON object");
+	});
+});
+
 describe("buildSingleNodeUpdatePrompt", () => {
 	test("builds single node update prompt", () => {
 		const nodeWithContent: IntentNodeWithContent = {
@@ -632,6 +757,50 @@ describe("buildSingleNodeUpdatePrompt", () => {
 		expect(result).toContain("# API Package");
 		expect(result).toContain("packages/api/client.ts");
 		expect(result).toContain("Respond with ONLY the JSON object");
+		expect(result).not.toContain("Reviewer Feedback");
+	});
+
+	test("includes reviewer feedback and the previous proposal", () => {
+		const nodeWithContent: IntentNodeWithContent = {
+			node: {
+				file: createMockIntentFile("packages/api/AGENTS.md"),
+				directory: "packages/api",
+				parent: undefined,
+				children: [],
+				depth: 1,
+			},
+			currentContent: "# API Package\n",
+		};
+
+		const result = buildSingleNodeUpdatePrompt(
+			nodeWithContent,
+			[],
+			"API endpoints changed",
+			createMockPRMetadata(),
+			"agents",
+			undefined,
+			{
+				previousUpdate: {
+					nodePath: "packages/api/AGENTS.md",
+					action: "update",
+					reason: "Document the cache",
+					suggestedContent: "# API Package\n\nResponses are cached.\n",
+				},
+				feedback: "Don't mention the cache.\nMention the retry policy.",
+				reviewer: "octocat",
+			},
+		);
+
+		expect(result).toContain("## Reviewer Feedback");
+		expect(result).toContain("A reviewer (@octocat) asked for changes");
+		expect(result).toContain("### Previous Proposal (update)");
+		expect(result).toContain("Responses are cached.");
+		expect(result).toContain(
+			"> Don't mention the cache.\n> Mention the retry policy.",
+		);
+		expect(result.indexOf("## Reviewer Feedback")).toBeLessThan(
+			result.indexOf("Respond with ONLY the JSON object"),
+		);
 	});
 });
 
@@ -720,6 +889,197 @@ describe("buildInitializationPrompt", () => {
 
 		expect(result).toContain("... and 20 more files");
 	});
+
+	test("summarizes the changed file list to fit the budget", () => {
+		const changedFiles = Array(20)
+			.fill(null)
+			.map((_, i) => createMockChangedFile({ filename: `src/file${i}.ts` }));
+		const full = assembleInitializationPrompt(
+			createMockPRMetadata(),
+			changedFiles,
+			"agents",
+		);
+		expect(full.prompt).toContain("- src/file0.ts");
+
+		const { prompt, report } = assembleInitializationPrompt(
+			createMockPRMetadata(),
+			changedFiles,
+			"agents",
+			undefined,
+			full.report.promptTokens - 20,
+		);
+
+		expect(report.summarized).toEqual(["changed file list"]);
+		expect(prompt).not.toContain("- src/file0.ts");
+		expect(prompt).toContain("## Changed Files (20)");
+		expect(prompt).toContain("Initialize Intent Layer");
+	});
+});
+
+describe("assembleSingleNodeUpdatePrompt", () => {
+	const nodeWithContent: IntentNodeWithContent = {
+		node: {
+			file: createMockIntentFile("packages/api/AGENTS.md"),
+			directory: "packages/api",
+			parent: undefined,
+			children: [],
+			depth: 1,
+		},
+		currentContent: "# API Package\n",
+	};
+	const changedFiles = ["client", "server"].map((name) =>
+		createMockChangedFile({
+			filename: `packages/api/${name}.ts`,
+			patch: Array.from({ length: 40 }, (_, i) => `+${name} line ${i}`).join(
+				"\n",
+			),
+		}),
+	);
+
+	test("matches buildSingleNodeUpdatePrompt when not budgeted", () => {
+		const { prompt, report } = assembleSingleNodeUpdatePrompt(
+			nodeWithContent,
+			changedFiles,
+			"API endpoints changed",
+			createMockPRMetadata(),
+			"agents",
+		);
+
+		expect(prompt).toBe(
+			buildSingleNodeUpdatePrompt(
+				nodeWithContent,
+				changedFiles,
+				"API endpoints changed",
+				createMockPRMetadata(),
+				"agents",
+			),
+		);
+		expect(report.elided).toEqual([]);
+	});
+
+	test("omits the later patches first to fit the budget", () => {
+		const full = assembleSingleNodeUpdatePrompt(
+			nodeWithContent,
+			changedFiles,
+			"API endpoints changed",
+			createMockPRMetadata(),
+			"agents",
+		);
+
+		const { prompt, report } = assembleSingleNodeUpdatePrompt(
+			nodeWithContent,
+			changedFiles,
+			"API endpoints changed",
+			createMockPRMetadata(),
+			"agents",
+			undefined,
+			undefined,
+			full.report.promptTokens - 50,
+		);
+
+		expect(report.summarized).toEqual(["patch of packages/api/server.ts"]);
+		expect(prompt).toContain("+client line 0");
+		expect(prompt).not.toContain("+server line 0");
+		expect(prompt).toContain(
+			"### packages/api/server.ts\n(patch omitted to fit the context window)",
+		);
+		expect(prompt).toContain("# API Package");
+	});
+});
+
+describe("buildReconciliationPrompt", () => {
+	const prContext: PRContext = {
+		metadata: createMockPRMetadata({ additions: 150_000 }),
+		commits: [],
+		linkedIssues: [],
+		reviewComments: [],
+		changedFiles: [],
+	};
+
+	test("lists the per-node decisions as final", () => {
+		const result = buildReconciliationPrompt(
+			prContext,
+			[
+				{
+					nodePath: "packages/api/AGENTS.md",
+					action: "update",
+					reason: "New endpoints",
+					currentContent: "# API",
+					suggestedContent: "# API\n\nEndpoints.",
+				},
+			],
+			["packages/api/AGENTS.md", "packages/web/AGENTS.md"],
+			{ parentNodesToReview: [], potentialNewNodes: [] },
+			{ fileType: "agents", newNodesAllowed: false, splitLargeNodes: false },
+		);
+
+		expect(result).toContain("## Node Updates Already Decided");
+		expect(result).toContain(
+			"- packages/api/AGENTS.md: update (New endpoints)",
+		);
+		expect(result).toContain("- packages/web/AGENTS.md: no change");
+		expect(result).toContain("Do NOT propose updates for the nodes listed");
+		expect(result).toContain("New node creation is NOT allowed");
+		expect(result).not.toContain("Endpoints.");
+		expect(result).toContain("Respond with ONLY the JSON object");
+	});
+});
+
+describe("assembleReconciliationPrompt", () => {
+	const prContext: PRContext = {
+		metadata: createMockPRMetadata({ additions: 150_000 }),
+		commits: [],
+		linkedIssues: [],
+		reviewComments: [],
+		changedFiles: [],
+	};
+	const parentNodesToReview: ParentNodeReviewCandidateWithContent[] = [
+		{
+			node: {
+				file: createMockIntentFile("AGENTS.md"),
+				directory: "",
+				parent: undefined,
+				children: [],
+				depth: 0,
+			},
+			updatedChildren: [],
+			totalChangedFilesInChildren: 1,
+			totalAdditionsInChildren: 10,
+			totalDeletionsInChildren: 5,
+			recommendUpdate: false,
+			recommendationReason: "Parent nodes typically don't need updates",
+			currentContent: `# Root\n\n${"Root guidance. ".repeat(200)}`,
+		},
+	];
+	const config: PromptConfig = {
+		fileType: "agents",
+		newNodesAllowed: false,
+		splitLargeNodes: false,
+	};
+
+	test("summarizes parent nodes to fit the budget", () => {
+		const full = assembleReconciliationPrompt(
+			prContext,
+			[],
+			["packages/api/AGENTS.md"],
+			{ parentNodesToReview, potentialNewNodes: [] },
+			config,
+		);
+		expect(full.prompt).toContain("Root guidance.");
+
+		const { prompt, report } = assembleReconciliationPrompt(
+			prContext,
+			[],
+			["packages/api/AGENTS.md"],
+			{ parentNodesToReview, potentialNewNodes: [] },
+			{ ...config, tokenBudget: full.report.promptTokens - 500 },
+		);
+
+		expect(report.summarized).toEqual(["parent node AGENTS.md"]);
+		expect(prompt).not.toContain("Root guidance.");
+		expect(prompt).toContain("do not propose an update to this node");
+		expect(prompt).toContain("- packages/api/AGENTS.md: no change");
+	});
 });
 
 describe("buildNodeSplitPrompt", () => {
@@ -903,6 +1263,30 @@ describe("buildNodeSplitPrompt", () => {
 		expect(result).toContain("(empty file)");
 	});
 
+	test("summarizes later suggestions first to fit the budget", () => {
+		const splitContext = createMockSplitContext();
+		const full = assembleNodeSplitPrompt(
+			splitContext,
+			createMockPRMetadata(),
+			"agents",
+		);
+
+		const { prompt, report } = assembleNodeSplitPrompt(
+			splitContext,
+			createMockPRMetadata(),
+			"agents",
+			full.report.promptTokens - 5,
+		);
+
+		expect(report.summarized).toEqual([
+			"file list of packages/core/services/AGENTS.md",
+		]);
+		expect(prompt).toContain("- packages/core/utils/helpers.ts");
+		expect(prompt).not.toContain("- packages/core/services/api.ts");
+		expect(prompt).toContain("### packages/core/services/AGENTS.md");
+		expect(prompt).toContain("This package contains utilities and helpers.");
+	});
+
 	test("includes schema description", () => {
 		const splitContext = createMockSplitContext();
 
@@ -996,6 +1380,36 @@ describe("collectCustomPrompts", () => {
 		// Should show truncated file list with +N more
 		expect(result).toContain("+1 more");
 	});
+
+	test("includes both file-type prompts when managing both files", () => {
+		const changedFiles = [createMockChangedFile({ filename: "src/index.ts" })];
+		const resolver = new PatternMatchedPromptResolver([
+			{
+				pattern: "**/*",
+				agents_prompt: "Agents-specific guidance",
+				claude_prompt: "Claude-specific guidance",
+			},
+		]);
+
+		const result = collectCustomPrompts(changedFiles, resolver, "both");
+
+		expect(result).toContain("Agents-specific guidance");
+		expect(result).toContain("Claude-specific guidance");
+		expect(result).toContain("(applies to AGENTS.md)");
+		expect(result).toContain("(applies to CLAUDE.md)");
+	});
+
+	test("does not label shared prompts when managing both files", () => {
+		const changedFiles = [createMockChangedFile({ filename: "src/index.ts" })];
+		const resolver = new PatternMatchedPromptResolver([
+			{ pattern: "**/*", prompt: "Shared guidance" },
+		]);
+
+		const result = collectCustomPrompts(changedFiles, resolver, "both");
+
+		expect(result.match(/Shared guidance/g)).toHaveLength(1);
+		expect(result).not.toContain("applies to");
+	});
 });
 
 describe("buildAnalysisPrompt with custom prompts", () => {
@@ -1159,3 +1573,111 @@ describe("buildInitializationPrompt with custom prompts", () => {
 		expect(result).toContain("Source file guidance");
 	});
 });
+
+describe("buildAuditPrompt", () => {
+	const staleNode: StaleNode = {
+		node: {
+			file: createMockIntentFile("lib/AGENTS.md"),
+			directory: "lib",
+			parent: undefined,
+			children: [],
+			depth: 0,
+		},
+		currentContent: "# Lib\n\nVery long content.",
+		reason: "over-budget",
+		description: "Uses 12.0% of its covered code's tokens (budget: 5%)",
+		budget: {
+			nodePath: "lib/AGENTS.md",
+			nodeTokens: 12,
+			coveredCodeTokens: 100,
+			budgetPercent: 12,
+			exceedsBudget: true,
+			filesCounted: 1,
+			filesSkipped: 0,
+		},
+	};
+	const hotspot: UncoveredHotspot = {
+		directory: "tools",
+		suggestedNodePath: "tools/AGENTS.md",
+		files: ["tools/a.js", "tools/b.js", "tools/c.js"],
+		tokens: 300,
+	};
+	const coveredFiles = new Map([["lib/AGENTS.md", ["lib/index.ts"]]]);
+
+	test("includes stale nodes with their content and covered files", () => {
+		const result = buildAuditPrompt(
+			[staleNode],
+			[hotspot],
+			{ fileType: "agents", newNodesAllowed: true, splitLargeNodes: true },
+			coveredFiles,
+		);
+
+		expect(result).toContain("## Task: Refresh Intent Layer");
+		expect(result).toContain("### lib/AGENTS.md");
+		expect(result).toContain(
+			"**Finding:** Uses 12.0% of its covered code's tokens (budget: 5%)",
+		);
+		expect(result).toContain("Very long content.");
+		expect(result).toContain("- lib/index.ts");
+		expect(result).toContain("### tools/AGENTS.md (3 files)");
+		expect(result).toContain("Respond with ONLY the JSON object");
+	});
+
+	test("leaves out hotspots when new nodes are not allowed", () => {
+		const result = buildAuditPrompt(
+			[staleNode],
+			[hotspot],
+			{ fileType: "agents", newNodesAllowed: false, splitLargeNodes: true },
+			coveredFiles,
+		);
+
+		expect(result).not.toContain("Uncovered Hotspots");
+		expect(result).not.toContain("tools/AGENTS.md");
+	});
+
+	test("includes custom prompts for audited files", () => {
+		const resolver = new PatternMatchedPromptResolver([
+			{ pattern: "lib/**", prompt: "Library guidance" },
+		]);
+
+		const result = buildAuditPrompt(
+			[staleNode],
+			[],
+			{
+				fileType: "agents",
+				newNodesAllowed: true,
+				splitLargeNodes: true,
+				promptResolver: resolver,
+			},
+			coveredFiles,
+		);
+
+		expect(result).toContain("Library guidance");
+	});
+
+	test("summarizes stale nodes to fit the budget", () => {
+		const longNode: StaleNode = {
+			...staleNode,
+			currentContent: `# Lib\n\n${"Library details. ".repeat(100)}`,
+		};
+		const config: PromptConfig = {
+			fileType: "agents",
+			newNodesAllowed: false,
+			splitLargeNodes: true,
+		};
+		const full = assembleAuditPrompt([longNode], [], config, coveredFiles);
+
+		const { prompt, report } = assembleAuditPrompt(
+			[longNode],
+			[],
+			{ ...config, tokenBudget: full.report.promptTokens - 100 },
+			coveredFiles,
+		);
+
+		expect(report.summarized).toEqual(["stale node lib/AGENTS.md"]);
+		expect(prompt).not.toContain("Library details.");
+		expect(prompt).not.toContain("- lib/index.ts");
+		expect(prompt).toContain("### lib/AGENTS.md");
+		expect(prompt).toContain("do not propose an update to this node");
+	});
+});
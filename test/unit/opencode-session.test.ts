@@ -3,14 +3,20 @@
  */
 
 import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { countTokens } from "../../src/intent/tokenizer";
 import {
+	buildOutputFormatInstructions,
+	buildOutputRepairContext,
 	buildSessionTitle,
 	checkAndHandleModelAccessError,
+	DEFAULT_RESPONSE_TIMEOUT_MS,
 	detectModelAccessError,
 	formatModelAccessErrorMessage,
+	getModelLimits,
 	handleModelAccessError,
 	IntentAnalysisSession,
 	ModelAccessError,
+	OUTPUT_REPAIR_PROMPT,
 	parseModelString,
 	SessionError,
 } from "../../src/opencode/session";
@@ -83,6 +89,47 @@ describe("OpenCode Session", () => {
 		});
 	});
 
+	describe("getModelLimits", () => {
+		const model = { providerID: "anthropic", modelID: "claude-sonnet-4" };
+		const createClient = (providers: () => Promise<unknown>) =>
+			({ config: { providers } }) as never;
+
+		test("returns the limits of the model from its provider", async () => {
+			const client = createClient(async () => ({
+				data: {
+					providers: [
+						{
+							id: "anthropic",
+							models: {
+								"claude-sonnet-4": {
+									limit: { context: 200000, output: 64000 },
+								},
+							},
+						},
+					],
+					default: {},
+				},
+			}));
+
+			expect(await getModelLimits(client, model)).toEqual({
+				context: 200000,
+				output: 64000,
+			});
+		});
+
+		test("returns undefined for unknown models and failed lookups", async () => {
+			const empty = createClient(async () => ({
+				data: { providers: [], default: {} },
+			}));
+			const failing = createClient(async () => {
+				throw new Error("connection refused");
+			});
+
+			expect(await getModelLimits(empty, model)).toBeUndefined();
+			expect(await getModelLimits(failing, model)).toBeUndefined();
+		});
+	});
+
 	describe("buildSessionTitle", () => {
 		test("builds title with PR number only", () => {
 			const title = buildSessionTitle(123);
@@ -212,6 +259,8 @@ describe("OpenCode Session", () => {
 				mockClient as never,
 				"test-id",
 				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+				DEFAULT_RESPONSE_TIMEOUT_MS,
+				0,
 			);
 
 			const result = await session.prompt({ prompt: "test prompt" });
@@ -260,6 +309,8 @@ describe("OpenCode Session", () => {
 				mockClient as never,
 				"test-id",
 				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+				DEFAULT_RESPONSE_TIMEOUT_MS,
+				0,
 			);
 
 			await expect(
@@ -267,6 +318,180 @@ describe("OpenCode Session", () => {
 			).rejects.toThrow(SessionError);
 		});
 
+		test("prompt requires the output schema through the system prompt", async () => {
+			let capturedBody: { system?: string } | undefined;
+			const mockClient = createMockClient({
+				promptAsync: async (args: { body: { system?: string } }) => {
+					capturedBody = args.body;
+					return {};
+				},
+			});
+
+			const session = new IntentAnalysisSession(
+				mockClient as never,
+				"test-id",
+				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+			);
+
+			await session.prompt({ prompt: "test prompt" });
+
+			expect(capturedBody?.system).toContain("JSON Schema");
+			expect(capturedBody?.system).toContain('"updates"');
+		});
+
+		test("prompt sends validation issues back and retries", async () => {
+			const sentPrompts: string[] = [];
+			const injected: string[] = [];
+			const invalid = {
+				info: { id: "m1", role: "assistant", time: { completed: 1 } },
+				parts: [
+					{
+						type: "text",
+						text: '{"updates":[{"nodePath":"AGENTS.md","action":"create","reason":"test"}]}',
+					},
+				],
+			};
+			const valid = {
+				info: { id: "m2", role: "assistant", time: { completed: 2 } },
+				parts: [{ type: "text", text: '{"updates":[]}' }],
+			};
+			const mockClient = createMockClient({
+				promptAsync: async (args: { body: { parts: { text: string }[] } }) => {
+					sentPrompts.push(args.body.parts[0]?.text ?? "");
+					return {};
+				},
+				prompt: async (args: { body: { parts: { text: string }[] } }) => {
+					injected.push(args.body.parts[0]?.text ?? "");
+					return {};
+				},
+				messages: async () => ({
+					data: sentPrompts.length === 1 ? [invalid] : [invalid, valid],
+				}),
+			});
+
+			const session = new IntentAnalysisSession(
+				mockClient as never,
+				"test-id",
+				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+			);
+
+			const result = await session.prompt({ prompt: "test prompt" });
+
+			expect(result.parsedOutput).toEqual({ updates: [] });
+			expect(sentPrompts).toEqual(["test prompt", OUTPUT_REPAIR_PROMPT]);
+			expect(injected).toHaveLength(1);
+			expect(injected[0]).toContain(
+				"suggestedContent is required for create action",
+			);
+		});
+
+		test("prompt gives up after the configured repair attempts", async () => {
+			let sendCount = 0;
+			const mockClient = createMockClient({
+				promptAsync: async () => {
+					sendCount++;
+					return {};
+				},
+				messages: async () => ({
+					data: [
+						{
+							info: { role: "assistant", time: { completed: Date.now() } },
+							parts: [{ type: "text", text: "still not json" }],
+						},
+					],
+				}),
+			});
+
+			const session = new IntentAnalysisSession(
+				mockClient as never,
+				"test-id",
+				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+				DEFAULT_RESPONSE_TIMEOUT_MS,
+				1,
+			);
+
+			const result = await session.prompt({ prompt: "test prompt" });
+
+			expect(sendCount).toBe(2);
+			expect(result.parseError).toBeDefined();
+			expect(result.rawResponse).toBe("still not json");
+		});
+
+		test("prompt stops repairing when the context window is full", async () => {
+			let sendCount = 0;
+			const mockClient = createMockClient({
+				promptAsync: async () => {
+					sendCount++;
+					return {};
+				},
+				messages: async () => ({
+					data: [
+						{
+							info: { role: "assistant", time: { completed: Date.now() } },
+							parts: [{ type: "text", text: "x".repeat(4000) }],
+						},
+					],
+				}),
+			});
+
+			const session = new IntentAnalysisSession(
+				mockClient as never,
+				"test-id",
+				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+				DEFAULT_RESPONSE_TIMEOUT_MS,
+				2,
+				{ context: 10_000, output: 4_000 },
+			);
+
+			const result = await session.prompt({ prompt: "p".repeat(20_000) });
+
+			expect(sendCount).toBe(1);
+			expect(result.parseError).toBeDefined();
+		});
+
+		test("getPromptTokenBudget leaves out the system prompt and the conversation", async () => {
+			const mockClient = createMockClient();
+			const session = new IntentAnalysisSession(
+				mockClient as never,
+				"test-id",
+				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+				DEFAULT_RESPONSE_TIMEOUT_MS,
+				2,
+				{ context: 200_000, output: 64_000 },
+				100_000,
+			);
+			const initialBudget =
+				100_000 - 50_000 - countTokens(buildOutputFormatInstructions());
+
+			expect(session.getPromptTokenBudget()).toBe(initialBudget);
+
+			await session.injectContext("background context");
+			await session.prompt({ prompt: "test prompt" });
+
+			expect(session.getPromptTokenBudget()).toBe(
+				initialBudget -
+					countTokens("background context") -
+					countTokens("test prompt") -
+					countTokens('{"updates":[]}'),
+			);
+		});
+
+		test("getPromptTokenBudget is unlimited when the context window is unknown", () => {
+			const session = new IntentAnalysisSession(
+				createMockClient() as never,
+				"test-id",
+				{ providerID: "anthropic", modelID: "claude-sonnet-4-20250514" },
+			);
+
+			expect(session.getPromptTokenBudget()).toBeUndefined();
+		});
+
+		test("buildOutputRepairContext lists the issues", () => {
+			expect(buildOutputRepairContext("Invalid JSON: oops")).toContain(
+				"Issues:\nInvalid JSON: oops",
+			);
+		});
+
 		test("injectContext calls prompt with noReply", async () => {
 			let capturedBody: unknown;
 			const mockClient = createMockClient({
@@ -11,6 +11,7 @@ import {
 	IntentUpdateSchema,
 	type LLMOutput,
 	LLMOutputSchema,
+	mergeIntentUpdates,
 	parseLLMOutput,
 	parseRawLLMOutput,
 	safeParseLLMOutput,
@@ -520,4 +521,50 @@ describe("helper functions", () => {
 			expect(hasUpdates(empty)).toBe(false);
 		});
 	});
+
+	describe("mergeIntentUpdates", () => {
+		test("replaces updates for the same node path in place", () => {
+			const merged = mergeIntentUpdates(sampleOutput.updates, [
+				{
+					nodePath: "packages/api/AGENTS.md",
+					action: "create",
+					reason: "Split from root",
+					suggestedContent: "# API (split)",
+				},
+			]);
+
+			expect(merged).toHaveLength(sampleOutput.updates.length);
+			expect(merged[1]?.suggestedContent).toBe("# API (split)");
+			expect(merged[0]?.nodePath).toBe("AGENTS.md");
+		});
+
+		test("appends updates for new node paths", () => {
+			const merged = mergeIntentUpdates(sampleOutput.updates, [
+				{
+					nodePath: "packages/api/handlers/AGENTS.md",
+					action: "create",
+					reason: "Split from API",
+					suggestedContent: "# Handlers",
+				},
+			]);
+
+			expect(merged).toHaveLength(sampleOutput.updates.length + 1);
+			expect(merged.at(-1)?.nodePath).toBe("packages/api/handlers/AGENTS.md");
+		});
+
+		test("does not mutate the base list", () => {
+			const base = [...sampleOutput.updates];
+			mergeIntentUpdates(base, [
+				{
+					nodePath: "AGENTS.md",
+					action: "update",
+					reason: "Leaner root",
+					currentContent: "# Root",
+					suggestedContent: "# Root (lean)",
+				},
+			]);
+
+			expect(base).toEqual(sampleOutput.updates);
+		});
+	});
 });
@@ -0,0 +1,300 @@
+import {
+	afterAll,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	test,
+} from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseActionInputs } from "../../src/config/schema";
+import {
+	type AnalysisReport,
+	type AuditReport,
+	buildActionOutputs,
+	buildAuditOutputs,
+	buildConfigSummaryRows,
+	buildUpdateSummaryRows,
+	createAnalysisReport,
+	createAuditReport,
+	writeJobSummary,
+} from "../../src/github/outputs";
+import type { NodeTokenBudgetResult } from "../../src/intent/tokenizer";
+
+/**
+ * Creates a report with one update and one new node.
+ */
+function createReport(): AnalysisReport {
+	const budget: NodeTokenBudgetResult = {
+		nodePath: "src/AGENTS.md",
+		nodeTokens: 2,
+		coveredCodeTokens: 100,
+		budgetPercent: 2,
+		exceedsBudget: false,
+		filesCounted: 3,
+		filesSkipped: 0,
+	};
+
+	return {
+		...createAnalysisReport("pr_commit"),
+		updates: [
+			{
+				nodePath: "src/AGENTS.md",
+				action: "update",
+				reason: "Document <Parser> changes",
+				currentContent: "# Src\n",
+				suggestedContent: "# Src\n\nParses input.\n",
+			},
+			{
+				nodePath: "lib/AGENTS.md",
+				action: "create",
+				reason: "New library",
+				suggestedContent: "# Lib\n",
+			},
+		],
+		nodeBudgets: new Map([["src/AGENTS.md", budget]]),
+		nodeStaleness: new Map([
+			[
+				"src/AGENTS.md",
+				{
+					nodePath: "src/AGENTS.md",
+					lastModifiedSha: "abc",
+					commitCount: 8,
+					linesChurned: 50,
+					filesAdded: ["src/parser.ts"],
+					filesRemoved: [],
+					truncated: false,
+					score: 10.5,
+				},
+			],
+		]),
+		commitShas: ["0123456789abcdef"],
+	};
+}
+
+describe("buildUpdateSummaryRows", () => {
+	test("includes diff stats and the proposed content budget", () => {
+		const [updated, created] = buildUpdateSummaryRows(createReport());
+
+		expect(updated).toEqual({
+			nodePath: "src/AGENTS.md",
+			action: "update",
+			reason: "Document <Parser> changes",
+			additions: 2,
+			deletions: 0,
+			// 22 characters -> 6 tokens, against 100 covered tokens
+			budgetPercent: 6,
+			stalenessScore: 10.5,
+		});
+		expect(created).toMatchObject({
+			nodePath: "lib/AGENTS.md",
+			additions: 1,
+			budgetPercent: undefined,
+			stalenessScore: undefined,
+		});
+	});
+
+	test("omits the budget for deletions", () => {
+		const report = createReport();
+		report.updates = [
+			{
+				nodePath: "src/AGENTS.md",
+				action: "delete",
+				reason: "Obsolete",
+				currentContent: "# Src\n",
+			},
+		];
+
+		const [row] = buildUpdateSummaryRows(report);
+
+		expect(row?.deletions).toBe(1);
+		expect(row?.budgetPercent).toBeUndefined();
+	});
+});
+
+describe("buildConfigSummaryRows", () => {
+	const config = parseActionInputs({});
+
+	test("lists the settings of each node when a directory overrides them", () => {
+		const report = createReport();
+		report.nodeConfigs = new Map([
+			["src/AGENTS.md", { config, sources: [], prompts: [], ignore: [] }],
+			[
+				"lib/AGENTS.md",
+				{
+					config: { ...config, token_budget_percent: 8 },
+					sources: ["lib/.intentlayer.yml"],
+					prompts: [{ pattern: "lib/**", prompt: "Note stability" }],
+					ignore: ["/lib/**/*.snap"],
+				},
+			],
+		]);
+
+		expect(buildConfigSummaryRows(report)).toEqual([
+			{
+				nodePath: "lib/AGENTS.md",
+				sources: ["lib/.intentlayer.yml"],
+				tokenBudgetPercent: 8,
+				newNodes: config.new_nodes,
+				promptPatterns: ["lib/**"],
+				ignorePatterns: ["/lib/**/*.snap"],
+			},
+			{
+				nodePath: "src/AGENTS.md",
+				sources: [],
+				tokenBudgetPercent: config.token_budget_percent,
+				newNodes: config.new_nodes,
+				promptPatterns: [],
+				ignorePatterns: [],
+			},
+		]);
+	});
+
+	test("omits the table when every node uses the root settings", () => {
+		const report = createReport();
+		report.nodeConfigs = new Map([
+			["src/AGENTS.md", { config, sources: [], prompts: [], ignore: [] }],
+		]);
+
+		expect(buildConfigSummaryRows(report)).toEqual([]);
+	});
+});
+
+describe("buildActionOutputs", () => {
+	test("serializes counts, paths, commits, and the LLM output", () => {
+		const report = createReport();
+		report.pullRequest = {
+			number: 7,
+			url: "https://github.com/owner/repo/pull/7",
+		};
+
+		const outputs = buildActionOutputs(report);
+
+		expect(outputs.updates_count).toBe("2");
+		expect(JSON.parse(outputs.node_paths ?? "")).toEqual([
+			"src/AGENTS.md",
+			"lib/AGENTS.md",
+		]);
+		expect(JSON.parse(outputs.commit_shas ?? "")).toEqual(["0123456789abcdef"]);
+		expect(outputs.pr_number).toBe("7");
+		expect(outputs.pr_url).toBe("https://github.com/owner/repo/pull/7");
+		expect(JSON.parse(outputs.llm_output ?? "").updates).toHaveLength(2);
+	});
+
+	test("reports empty values when nothing was proposed", () => {
+		const outputs = buildActionOutputs(createAnalysisReport("pr_comments"));
+
+		expect(outputs).toEqual({
+			updates_count: "0",
+			node_paths: "[]",
+			commit_shas: "[]",
+			pr_number: "",
+			pr_url: "",
+			check_run_url: "",
+			llm_output: '{"updates":[]}',
+		});
+	});
+});
+
+describe("buildAuditOutputs", () => {
+	test("adds the stale node and hotspot paths", () => {
+		const report = createAuditReport("new_pr");
+		report.audits = [
+			{
+				staleNodes: [{ node: { file: { path: "lib/AGENTS.md" } } }],
+				hotspots: [{ suggestedNodePath: "src/AGENTS.md" }],
+			} as unknown as AuditReport["audits"][number],
+		];
+
+		const outputs = buildAuditOutputs(report);
+
+		expect(outputs.updates_count).toBe("0");
+		expect(JSON.parse(outputs.stale_nodes ?? "")).toEqual(["lib/AGENTS.md"]);
+		expect(JSON.parse(outputs.uncovered_hotspots ?? "")).toEqual([
+			"src/AGENTS.md",
+		]);
+	});
+});
+
+describe("writeJobSummary", () => {
+	let dir: string;
+	let summaryPath: string;
+	const originalSummary = process.env.GITHUB_STEP_SUMMARY;
+
+	// The summary writer caches the file path, so all tests share one file
+	beforeAll(() => {
+		dir = mkdtempSync(join(tmpdir(), "intent-layer-summary-"));
+		summaryPath = join(dir, "summary.md");
+		process.env.GITHUB_STEP_SUMMARY = summaryPath;
+	});
+
+	beforeEach(() => {
+		writeFileSync(summaryPath, "");
+	});
+
+	afterAll(() => {
+		if (originalSummary === undefined) {
+			delete process.env.GITHUB_STEP_SUMMARY;
+		} else {
+			process.env.GITHUB_STEP_SUMMARY = originalSummary;
+		}
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("writes a table row per update", async () => {
+		await writeJobSummary(createReport());
+
+		const summary = readFileSync(summaryPath, "utf-8");
+		expect(summary).toContain("<h2>Intent Layer</h2>");
+		expect(summary).toContain("<th>Budget</th>");
+		expect(summary).toContain("<td><code>src/AGENTS.md</code></td>");
+		expect(summary).toContain("<td>Document &lt;Parser&gt; changes</td>");
+		expect(summary).toContain("<td>+2 / -0</td>");
+		expect(summary).toContain("<td>6.0%</td>");
+		expect(summary).toContain("<th>Staleness</th>");
+		expect(summary).toContain("<td>10.5</td>");
+		expect(summary).toContain("<td>—</td>");
+		expect(summary).toContain("<code>0123456</code>");
+	});
+
+	test("writes the skip reason when analysis stopped early", async () => {
+		await writeJobSummary({
+			...createAnalysisReport("pr_comments"),
+			skippedReason: "No intent layer updates needed for this PR.",
+		});
+
+		const summary = readFileSync(summaryPath, "utf-8");
+		expect(summary).toContain("No intent layer updates needed for this PR.");
+		expect(summary).not.toContain("<table>");
+	});
+
+	test("lists what was cut from trimmed analysis prompts", async () => {
+		const report = createReport();
+		report.promptBudgets = new Map([
+			[
+				"agents",
+				{
+					budgetTokens: 1000,
+					promptTokens: 990,
+					summarized: ["patch of docs/b.md"],
+					elided: [],
+				},
+			],
+			[
+				"claude",
+				{ budgetTokens: 1000, promptTokens: 10, summarized: [], elided: [] },
+			],
+		]);
+
+		await writeJobSummary(report);
+
+		const summary = readFileSync(summaryPath, "utf-8");
+		expect(summary).toContain("<h3>Prompt Budget</h3>");
+		expect(summary).toContain(
+			"<code>agents</code>: ~990 of 1000 tokens; summarized patch of docs/b.md",
+		);
+		expect(summary).not.toContain("<code>claude</code>");
+	});
+});
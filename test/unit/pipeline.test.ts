@@ -0,0 +1,875 @@
+import { describe, expect, test } from "bun:test";
+import type { DirectoryConfig } from "../../src/config/directories";
+import { parseActionInputs } from "../../src/config/schema";
+import type { PRChangedFile, PRDiff } from "../../src/github/context";
+import { auditHierarchy } from "../../src/intent/audit";
+import type { IntentFile } from "../../src/intent/detector";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+import {
+	assignOtherNodePaths,
+	finalizeAnalysisUpdates,
+	focusAnalysisOnNodes,
+	getAnalyzedFileTypes,
+	getExportSourceType,
+	getNodeBudgetThresholds,
+	getSymlinkedFileTypes,
+	hasAnalysisWork,
+	planAnalysis,
+	planFileTypeAnalysis,
+	requestAuditUpdates,
+	requestChunkedIntentUpdates,
+	requestRevisedUpdate,
+	type SessionFactory,
+	SymlinkConfigError,
+} from "../../src/intent/pipeline";
+import type { IntentUpdate } from "../../src/opencode/output-schema";
+import type { IntentContext, PRContext } from "../../src/opencode/prompts";
+import type { IntentAnalysisSession } from "../../src/opencode/session";
+import { InMemoryRepositorySource } from "../../src/repository/memory";
+
+/**
+ * Helper to create a modified PRChangedFile for testing.
+ */
+function createChangedFile(filename: string): PRChangedFile {
+	return {
+		sha: `sha-${filename}`,
+		filename,
+		status: "modified",
+		additions: 10,
+		deletions: 5,
+		changes: 15,
+		blobUrl: "",
+		rawUrl: "",
+		contentsUrl: "",
+		patch: null,
+		previousFilename: null,
+	};
+}
+
+/**
+ * Helper to create a PRDiff for testing.
+ */
+function createDiff(filenames: string[]): PRDiff {
+	const files = filenames.map(createChangedFile);
+	return {
+		files,
+		summary: {
+			totalFiles: files.length,
+			totalAdditions: files.length * 10,
+			totalDeletions: files.length * 5,
+			filesAdded: 0,
+			filesRemoved: 0,
+			filesModified: files.length,
+			filesRenamed: 0,
+		},
+		rawDiff: null,
+	};
+}
+
+describe("getAnalyzedFileTypes", () => {
+	test("analyzes every managed kind without symlinks", () => {
+		const config = parseActionInputs({ files: "both,cursor" });
+		expect(getSymlinkedFileTypes(config)).toBeUndefined();
+		expect(getAnalyzedFileTypes(config)).toEqual([
+			"agents",
+			"claude",
+			"cursor",
+		]);
+	});
+
+	test("analyzes only the source of a symlinked pair", () => {
+		const config = parseActionInputs({
+			files: "agents,copilot,gemini",
+			symlink: "true",
+			symlink_source: "gemini",
+		});
+		expect(getSymlinkedFileTypes(config)).toEqual(["gemini", "agents"]);
+		expect(getAnalyzedFileTypes(config)).toEqual(["copilot", "gemini"]);
+	});
+
+	test("pairs counterpart paths of the symlinked kinds", () => {
+		const config = parseActionInputs({
+			files: "agents,gemini",
+			symlink: "true",
+		});
+		const [update] = assignOtherNodePaths(
+			[
+				{
+					nodePath: "src/AGENTS.md",
+					action: "create",
+					reason: "New module",
+					suggestedContent: "# src",
+				},
+			],
+			config,
+		);
+		expect(update?.otherNodePath).toBe("src/GEMINI.md");
+	});
+});
+
+describe("getExportSourceType", () => {
+	test("exports from the first analyzed kind that can be a source", () => {
+		expect(getExportSourceType(parseActionInputs({}))).toBe("agents");
+		expect(
+			getExportSourceType(
+				parseActionInputs({
+					files: "both",
+					symlink: "true",
+					symlink_source: "claude",
+				}),
+			),
+		).toBe("claude");
+		expect(
+			getExportSourceType(parseActionInputs({ files: "cursor" })),
+		).toBeUndefined();
+	});
+});
+
+describe("focusAnalysisOnNodes", () => {
+	const files: IntentFile[] = [
+		"AGENTS.md",
+		"packages/api/AGENTS.md",
+		"packages/web/AGENTS.md",
+	].map((path) => ({
+		path,
+		type: "agents",
+		sha: `sha-${path}`,
+		isSymlink: false,
+	}));
+	const analysis = planFileTypeAnalysis(
+		buildHierarchy(files, "agents"),
+		createDiff(["packages/api/a.ts", "packages/web/b.ts"]),
+		parseActionInputs({}),
+	);
+
+	test("keeps only the requested direct updates", () => {
+		const focused = focusAnalysisOnNodes(
+			analysis,
+			new Set(["packages/api/AGENTS.md"]),
+		);
+
+		expect(
+			focused.directUpdates.candidates.map((c) => c.node.file.path),
+		).toEqual(["packages/api/AGENTS.md"]);
+		expect(focused.directUpdates.totalNodes).toBe(1);
+		expect(focused.parentReview.candidates).toEqual([]);
+		expect(hasAnalysisWork(focused)).toBe(true);
+	});
+
+	test("recommends requested parent nodes for update", () => {
+		const focused = focusAnalysisOnNodes(analysis, new Set(["AGENTS.md"]));
+
+		expect(focused.directUpdates.hasUpdates).toBe(false);
+		expect(focused.parentReview.candidates).toHaveLength(1);
+		expect(focused.parentReview.candidates[0]?.recommendUpdate).toBe(true);
+		expect(focused.parentReview.hasRecommendedUpdates).toBe(true);
+	});
+
+	test("leaves no work for nodes outside the analysis", () => {
+		const focused = focusAnalysisOnNodes(analysis, new Set(["docs/AGENTS.md"]));
+
+		expect(hasAnalysisWork(focused)).toBe(false);
+	});
+});
+
+describe("planFileTypeAnalysis", () => {
+	const hierarchy = buildHierarchy(
+		[
+			{
+				path: "docs/AGENTS.md",
+				type: "agents",
+				sha: "sha-docs",
+				isSymlink: false,
+			},
+		],
+		"agents",
+	);
+	const diff = createDiff(
+		["api", "web"].flatMap((pkg) =>
+			["a", "b", "c", "d"].map((name) => `packages/${pkg}/src/${name}.ts`),
+		),
+	);
+	const directoryConfigs: DirectoryConfig[] = [
+		{
+			directory: "packages/web",
+			path: "packages/web/.intentlayer.yml",
+			settings: { new_nodes: true, token_budget_percent: 10 },
+		},
+	];
+
+	test("allows new nodes only where a directory configuration does", () => {
+		const analysis = planFileTypeAnalysis(
+			hierarchy,
+			diff,
+			parseActionInputs({ new_nodes: "false" }),
+			undefined,
+			undefined,
+			directoryConfigs,
+		);
+
+		const directories = analysis.semanticBoundaries.candidates.map(
+			(candidate) => candidate.directory,
+		);
+		expect(directories.length).toBeGreaterThan(0);
+		expect(
+			directories.every((directory) => directory.startsWith("packages/web")),
+		).toBe(true);
+		expect(analysis.semanticBoundaries.totalCandidates).toBe(
+			directories.length,
+		);
+	});
+
+	test("records the effective settings of each analyzed node", () => {
+		const analysis = planFileTypeAnalysis(
+			hierarchy,
+			diff,
+			parseActionInputs({ new_nodes: "false" }),
+			undefined,
+			undefined,
+			directoryConfigs,
+		);
+
+		expect([...analysis.nodeConfigs.keys()]).toEqual([
+			"packages/web/src/AGENTS.md",
+		]);
+		const effective = analysis.nodeConfigs.get("packages/web/src/AGENTS.md");
+		expect(effective?.sources).toEqual(["packages/web/.intentlayer.yml"]);
+		expect(effective?.config.token_budget_percent).toBe(10);
+		expect(effective?.config.new_nodes).toBe(true);
+	});
+});
+
+describe("planAnalysis", () => {
+	const baseFiles = {
+		"AGENTS.md": "# Root\n",
+		"lib/AGENTS.md": "# Lib\n",
+		"lib/old.ts": "export {};\n",
+		"docs/AGENTS.md": "# Docs\n",
+		"docs/guide.md": "Guide\n",
+		".intentlayerignore": "*.snap\n",
+	};
+	const source = new InMemoryRepositorySource([
+		{ sha: "base", files: baseFiles },
+		{
+			sha: "head",
+			parents: ["base"],
+			files: {
+				...baseFiles,
+				"lib/old.ts": "export const changed = true;\n",
+				"docs/guide.md": "Guide, revised\n",
+				"docs/notes.snap": "snapshot\n",
+			},
+		},
+	]);
+
+	test("plans every analyzed file type from the repository at the ref", async () => {
+		const diff = await source.getDiff("base", "head");
+
+		const plan = await planAnalysis(
+			source,
+			"head",
+			"base",
+			diff,
+			parseActionInputs({}),
+		);
+
+		expect(plan.plans.map((analysis) => analysis.fileType)).toEqual(["agents"]);
+		expect(plan.ignore?.ignores("docs/notes.snap")).toBe(true);
+		expect(
+			plan.analyses[0]?.directUpdates.candidates.map(
+				(candidate) => candidate.node.file.path,
+			),
+		).toEqual(["docs/AGENTS.md", "lib/AGENTS.md"]);
+		expect(plan.moves).toEqual([]);
+	});
+
+	test("restricts the plan to the requested nodes", async () => {
+		const diff = await source.getDiff("base", "head");
+
+		const plan = await planAnalysis(
+			source,
+			"head",
+			"base",
+			diff,
+			parseActionInputs({}),
+			new Set(["lib/AGENTS.md"]),
+		);
+
+		expect(
+			plan.analyses[0]?.directUpdates.candidates.map(
+				(candidate) => candidate.node.file.path,
+			),
+		).toEqual(["lib/AGENTS.md"]);
+	});
+
+	test("rejects separate files for a symlinked pair", async () => {
+		const conflicted = new InMemoryRepositorySource([
+			{
+				sha: "head",
+				files: { "AGENTS.md": "# Agents\n", "CLAUDE.md": "# Claude\n" },
+			},
+		]);
+
+		await expect(
+			planAnalysis(
+				conflicted,
+				"head",
+				"head",
+				createDiff(["src/index.ts"]),
+				parseActionInputs({ files: "both", symlink: "true" }),
+			),
+		).rejects.toBeInstanceOf(SymlinkConfigError);
+	});
+});
+
+describe("finalizeAnalysisUpdates", () => {
+	const source = new InMemoryRepositorySource([
+		{ sha: "base", files: { "AGENTS.md": "# Root\n", "src/a.ts": "a\n" } },
+		{
+			sha: "head",
+			parents: ["base"],
+			files: { "AGENTS.md": "# Root\n", "src/a.ts": "b\n" },
+		},
+	]);
+
+	test("drops updates to paths outside the intent layer", async () => {
+		const diff = await source.getDiff("base", "head");
+		const config = parseActionInputs({});
+		const plan = await planAnalysis(source, "head", "base", diff, config);
+		const update = (nodePath: string): IntentUpdate => ({
+			nodePath,
+			action: "create",
+			reason: "Suggested",
+			suggestedContent: "# Content\n",
+		});
+
+		const updates = finalizeAnalysisUpdates(
+			[
+				update("src/AGENTS.md"),
+				update("../../AGENTS.md"),
+				update("/etc/AGENTS.md"),
+				update("src/index.ts"),
+				update("src/../../.bashrc"),
+			],
+			plan,
+			diff.files,
+			config,
+		);
+
+		expect(updates.map((u) => u.nodePath)).toEqual(["src/AGENTS.md"]);
+	});
+
+	test("drops node creations where the directory does not allow new nodes", async () => {
+		const files = {
+			"AGENTS.md": "# Root\n",
+			"lib/.intentlayer.yml": "new_nodes: false\n",
+			"lib/core/a.ts": "a\n",
+			"app/a.ts": "a\n",
+		};
+		const configured = new InMemoryRepositorySource([
+			{ sha: "base", files },
+			{
+				sha: "head",
+				parents: ["base"],
+				files: { ...files, "lib/core/a.ts": "b\n", "app/a.ts": "b\n" },
+			},
+		]);
+		const diff = await configured.getDiff("base", "head");
+		const config = parseActionInputs({ new_nodes: "true" });
+		const plan = await planAnalysis(configured, "head", "base", diff, config);
+		const create = (nodePath: string): IntentUpdate => ({
+			nodePath,
+			action: "create",
+			reason: "New area",
+			suggestedContent: "# Content\n",
+		});
+
+		const updates = finalizeAnalysisUpdates(
+			[
+				create("app/AGENTS.md"),
+				create("lib/core/AGENTS.md"),
+				{
+					nodePath: "AGENTS.md",
+					action: "update",
+					reason: "Mention lib",
+					currentContent: "# Root\n",
+					suggestedContent: "# Root\n\nLib.\n",
+				},
+			],
+			plan,
+			diff.files,
+			config,
+		);
+
+		expect(updates.map((u) => u.nodePath)).toEqual([
+			"app/AGENTS.md",
+			"AGENTS.md",
+		]);
+	});
+});
+
+describe("requestRevisedUpdate", () => {
+	const node = buildHierarchy(
+		[
+			{
+				path: "src/AGENTS.md",
+				type: "agents",
+				sha: "sha",
+				isSymlink: false,
+			},
+		],
+		"agents",
+	).nodesByPath.get("src/AGENTS.md");
+	const previousUpdate: IntentUpdate = {
+		nodePath: "src/AGENTS.md",
+		action: "update",
+		reason: "Document the cache",
+		suggestedContent: "# Src\n\nCached.\n",
+	};
+	const prMetadata = {
+		title: "Add retries",
+		description: "",
+	} as unknown as Parameters<typeof requestRevisedUpdate>[3];
+
+	/**
+	 * Creates a session stub answering every prompt with the given updates.
+	 */
+	function createSession(
+		updates: IntentUpdate[],
+		prompts: string[] = [],
+		budgetTokens?: number,
+	) {
+		return {
+			getPromptTokenBudget: () => budgetTokens,
+			prompt: async ({ prompt }: { prompt: string }) => {
+				prompts.push(prompt);
+				return { rawResponse: "{}", parsedOutput: { updates } };
+			},
+		} as unknown as IntentAnalysisSession;
+	}
+
+	test("sends the feedback and returns the update for the node", async () => {
+		if (!node) throw new Error("missing node");
+		const prompts: string[] = [];
+		const revised = {
+			...previousUpdate,
+			suggestedContent: "# Src\n\nRetries.\n",
+		};
+
+		const result = await requestRevisedUpdate(
+			createSession(
+				[{ ...revised, nodePath: "other/AGENTS.md" }, revised],
+				prompts,
+			),
+			{ node, currentContent: "# Src\n" },
+			[],
+			prMetadata,
+			{ previousUpdate, feedback: "Mention the retry policy" },
+		);
+
+		expect(result).toEqual(revised);
+		expect(prompts[0]).toContain("> Mention the retry policy");
+		expect(prompts[0]).toContain("Cached.");
+	});
+
+	test("returns undefined when the node is not updated", async () => {
+		if (!node) throw new Error("missing node");
+
+		const result = await requestRevisedUpdate(
+			createSession([]),
+			{ node, currentContent: "# Src\n" },
+			[],
+			prMetadata,
+			{ previousUpdate, feedback: "Never mind" },
+		);
+
+		expect(result).toBeUndefined();
+	});
+});
+
+describe("requestAuditUpdates", () => {
+	const hierarchy = buildHierarchy(
+		["AGENTS.md", "lib/AGENTS.md"].map((path) => ({
+			path,
+			type: "agents",
+			sha: `sha-${path}`,
+			isSymlink: false,
+		})),
+		"agents",
+	);
+	const fileContents = new Map([
+		["lib/x.ts", "x".repeat(40)],
+		["src/a.ts", "a".repeat(400)],
+		["src/b.ts", "b".repeat(400)],
+		["src/c.ts", "c".repeat(400)],
+	]);
+	const audit = auditHierarchy(
+		hierarchy,
+		new Map([
+			["AGENTS.md", "# Root\n"],
+			["lib/AGENTS.md", "l".repeat(400)],
+		]),
+		[...fileContents.keys()],
+		fileContents,
+		{ budgetThresholdPercent: 5 },
+	);
+
+	/**
+	 * Creates a session stub answering every prompt with the given updates.
+	 */
+	function createSession(
+		updates: IntentUpdate[],
+		prompts: string[] = [],
+		budgetTokens?: number,
+	) {
+		return {
+			getPromptTokenBudget: () => budgetTokens,
+			prompt: async ({ prompt }: { prompt: string }) => {
+				prompts.push(prompt);
+				return { rawResponse: "{}", parsedOutput: { updates } };
+			},
+		} as unknown as IntentAnalysisSession;
+	}
+
+	const updates: IntentUpdate[] = [
+		{
+			nodePath: "lib/AGENTS.md",
+			action: "update",
+			reason: "Condense",
+			suggestedContent: "# Lib\n",
+		},
+		{
+			nodePath: "src/AGENTS.md",
+			action: "create",
+			reason: "Document src",
+			suggestedContent: "# Src\n",
+		},
+		{
+			nodePath: "AGENTS.md",
+			action: "update",
+			reason: "Unrelated",
+			suggestedContent: "# Root\n",
+		},
+	];
+
+	test("keeps updates for stale nodes and hotspots only", async () => {
+		const prompts: string[] = [];
+
+		const result = await requestAuditUpdates(
+			createSession(updates, prompts),
+			audit,
+			parseActionInputs({}),
+		);
+
+		expect(result.map((update) => update.nodePath)).toEqual([
+			"lib/AGENTS.md",
+			"src/AGENTS.md",
+		]);
+		expect(prompts).toHaveLength(1);
+		expect(prompts[0]).toContain("### lib/AGENTS.md");
+	});
+
+	test("fits the audit prompt to the session's budget", async () => {
+		const prompts: string[] = [];
+
+		await requestAuditUpdates(
+			createSession(updates, prompts, 1),
+			audit,
+			parseActionInputs({}),
+		);
+
+		expect(prompts[0]).not.toContain("l".repeat(400));
+		expect(prompts[0]).toContain("Only propose updates for the nodes");
+	});
+
+	test("drops hotspot nodes when new nodes are disabled", async () => {
+		const result = await requestAuditUpdates(
+			createSession(updates),
+			audit,
+			parseActionInputs({ new_nodes: "false" }),
+		);
+
+		expect(result.map((update) => update.nodePath)).toEqual(["lib/AGENTS.md"]);
+	});
+
+	test("allows hotspot nodes where a directory configuration does", async () => {
+		const prompts: string[] = [];
+
+		const result = await requestAuditUpdates(
+			createSession(updates, prompts),
+			audit,
+			parseActionInputs({ new_nodes: "false" }),
+			undefined,
+			[
+				{
+					directory: "src",
+					path: "src/.intentlayer.yml",
+					settings: { new_nodes: true },
+				},
+			],
+		);
+
+		expect(result.map((update) => update.nodePath)).toEqual([
+			"lib/AGENTS.md",
+			"src/AGENTS.md",
+		]);
+		expect(prompts[0]).toContain("## Uncovered Hotspots");
+	});
+});
+
+describe("getNodeBudgetThresholds", () => {
+	test("keeps the budgets that directory configurations override", () => {
+		const hierarchy = buildHierarchy(
+			["AGENTS.md", "lib/AGENTS.md", "lib/core/AGENTS.md"].map((path) => ({
+				path,
+				type: "agents",
+				sha: `sha-${path}`,
+				isSymlink: false,
+			})),
+			"agents",
+		);
+
+		const thresholds = getNodeBudgetThresholds(
+			[hierarchy],
+			parseActionInputs({}),
+			[
+				{
+					directory: "lib",
+					path: "lib/.intentlayer.yml",
+					settings: { token_budget_percent: 20 },
+				},
+			],
+		);
+
+		expect(thresholds).toEqual(
+			new Map([
+				["lib/AGENTS.md", 20],
+				["lib/core/AGENTS.md", 20],
+			]),
+		);
+	});
+});
+
+describe("requestChunkedIntentUpdates", () => {
+	const hierarchy = buildHierarchy(
+		["AGENTS.md", "packages/api/AGENTS.md", "packages/web/AGENTS.md"].map(
+			(path) => ({
+				path,
+				type: "agents",
+				sha: `sha-${path}`,
+				isSymlink: false,
+			}),
+		),
+		"agents",
+	);
+	const diff = createDiff(["packages/api/src/a.ts", "packages/web/src/b.ts"]);
+	const config = parseActionInputs({});
+	const analysis = planFileTypeAnalysis(hierarchy, diff, config);
+	const intentContext: IntentContext = {
+		nodesToUpdate: analysis.directUpdates.candidates.map((candidate) => ({
+			...candidate,
+			currentContent: `# ${candidate.node.directory}\n`,
+		})),
+		parentNodesToReview: analysis.parentReview.candidates.map((candidate) => ({
+			...candidate,
+			currentContent: "# Root\n",
+		})),
+		potentialNewNodes: [],
+	};
+	const prContext: PRContext = {
+		metadata: {
+			number: 1,
+			title: "Large refactor",
+			description: "",
+			additions: 200_000,
+			deletions: 0,
+			labels: [],
+		} as unknown as PRContext["metadata"],
+		commits: [],
+		linkedIssues: [],
+		reviewComments: [],
+		changedFiles: diff.files,
+	};
+
+	/**
+	 * Creates an update to a node.
+	 */
+	function createUpdate(nodePath: string): IntentUpdate {
+		return {
+			nodePath,
+			action: "update",
+			reason: `Update ${nodePath}`,
+			currentContent: "# Old\n",
+			suggestedContent: `# ${nodePath}\n`,
+		};
+	}
+
+	/** Prompts sent and sessions created and deleted by a test */
+	interface SessionLog {
+		prompts: string[];
+		created: number;
+		deleted: number;
+		/** Most sessions open at once */
+		maxOpen: number;
+	}
+
+	/**
+	 * Creates an empty session log.
+	 */
+	function createLog(): SessionLog {
+		return { prompts: [], created: 0, deleted: 0, maxOpen: 0 };
+	}
+
+	/**
+	 * Creates a session factory whose sessions answer node prompts with
+	 * updates to every node and the reconciliation prompt with the given
+	 * updates, recording the prompts and sessions.
+	 */
+	function createSessions(
+		reconciled: IntentUpdate[],
+		log: SessionLog,
+		unparseableNode?: string,
+		budgetTokens?: number,
+	): SessionFactory {
+		const session = {
+			getPromptTokenBudget: () => budgetTokens,
+			prompt: async ({ prompt }: { prompt: string }) => {
+				await Promise.resolve();
+				log.prompts.push(prompt);
+				if (prompt.includes("## Node Updates Already Decided")) {
+					return { rawResponse: "{}", parsedOutput: { updates: reconciled } };
+				}
+				if (unparseableNode && prompt.includes(unparseableNode)) {
+					return { rawResponse: "nope", parseError: "Invalid JSON" };
+				}
+				return {
+					rawResponse: "{}",
+					parsedOutput: {
+						updates: ["packages/api/AGENTS.md", "packages/web/AGENTS.md"].map(
+							createUpdate,
+						),
+					},
+				};
+			},
+			delete: async () => {
+				log.deleted++;
+			},
+		} as unknown as IntentAnalysisSession;
+		return async () => {
+			log.created++;
+			log.maxOpen = Math.max(log.maxOpen, log.created - log.deleted);
+			return session;
+		};
+	}
+
+	test("prompts each node separately and reconciles the parent", async () => {
+		const log = createLog();
+		const createSession = createSessions(
+			[createUpdate("AGENTS.md"), createUpdate("packages/web/AGENTS.md")],
+			log,
+		);
+
+		const result = await requestChunkedIntentUpdates(
+			createSession,
+			analysis,
+			prContext,
+			intentContext,
+			[],
+			config,
+		);
+
+		expect(result.map((update) => update.nodePath)).toEqual([
+			"packages/api/AGENTS.md",
+			"packages/web/AGENTS.md",
+			"AGENTS.md",
+		]);
+		expect(log.prompts).toHaveLength(3);
+		expect(log.prompts[2]).toContain(
+			"packages/web/AGENTS.md: update (Update packages/web/AGENTS.md)",
+		);
+		expect(log.created).toBe(3);
+		expect(log.deleted).toBe(3);
+	});
+
+	test("runs each prompt on a new session, up to the concurrency at once", async () => {
+		const log = createLog();
+		const createSession = createSessions([], log);
+
+		await requestChunkedIntentUpdates(
+			createSession,
+			analysis,
+			prContext,
+			intentContext,
+			[],
+			parseActionInputs({}, { analysis_concurrency: 1 }),
+		);
+
+		expect(log.created).toBe(3);
+		expect(log.maxOpen).toBe(1);
+
+		const concurrentLog = createLog();
+		await requestChunkedIntentUpdates(
+			createSessions([], concurrentLog),
+			analysis,
+			prContext,
+			intentContext,
+			[],
+			parseActionInputs({}, { analysis_concurrency: 2 }),
+		);
+
+		expect(concurrentLog.maxOpen).toBe(2);
+	});
+
+	test("skips nodes whose response cannot be parsed", async () => {
+		const log = createLog();
+		const createSession = createSessions([], log, "# packages/api");
+
+		const result = await requestChunkedIntentUpdates(
+			createSession,
+			analysis,
+			prContext,
+			intentContext,
+			[],
+			config,
+		);
+
+		expect(result.map((update) => update.nodePath)).toEqual([
+			"packages/web/AGENTS.md",
+		]);
+	});
+
+	test("fits the node and reconciliation prompts to each session's budget", async () => {
+		const patchedContext: IntentContext = {
+			...intentContext,
+			nodesToUpdate: intentContext.nodesToUpdate.map((candidate) => ({
+				...candidate,
+				changedFiles: candidate.changedFiles.map((coverage) => ({
+					...coverage,
+					file: { ...coverage.file, patch: "@@ -1 +1 @@\n-old\n+new" },
+				})),
+			})),
+		};
+		const requestPrompts = async (budgetTokens?: number) => {
+			const log = createLog();
+			await requestChunkedIntentUpdates(
+				createSessions([], log, undefined, budgetTokens),
+				analysis,
+				prContext,
+				patchedContext,
+				[],
+				config,
+			);
+			return log.prompts;
+		};
+
+		const full = await requestPrompts();
+		expect(full[0]).toContain("+new");
+		expect(full[2]).toContain("# Root");
+
+		const trimmed = await requestPrompts(1);
+		expect(trimmed).toHaveLength(3);
+		expect(trimmed[0]).not.toContain("+new");
+		expect(trimmed[1]).not.toContain("+new");
+		expect(trimmed[2]).not.toContain("# Root");
+	});
+});
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "bun:test";
+import {
+	assemblePrompt,
+	DEFAULT_OUTPUT_RESERVE_TOKENS,
+	formatPromptBudgetReport,
+	getPromptTokenBudget,
+	isPromptTrimmed,
+	type PromptSection,
+	SECTION_PRIORITY,
+} from "../../src/opencode/prompt-budget";
+
+/**
+ * Helper to create a section of the given size in tokens (4 chars each).
+ */
+function createSection(
+	label: string,
+	tokens: number,
+	priority: PromptSection["priority"],
+	summary?: string,
+): PromptSection {
+	return {
+		label,
+		content: label[0]?.repeat(tokens * 4) ?? "",
+		priority,
+		summary,
+	};
+}
+
+describe("getPromptTokenBudget", () => {
+	test("leaves room for the model's output", () => {
+		expect(getPromptTokenBudget(0, { context: 200_000, output: 64_000 })).toBe(
+			136_000,
+		);
+	});
+
+	test("prefers the configured context window", () => {
+		expect(
+			getPromptTokenBudget(50_000, { context: 200_000, output: 8_000 }),
+		).toBe(42_000);
+		expect(getPromptTokenBudget(100_000)).toBe(
+			100_000 - DEFAULT_OUTPUT_RESERVE_TOKENS,
+		);
+	});
+
+	test("reserves at most half the window for output", () => {
+		expect(getPromptTokenBudget(0, { context: 32_000, output: 32_000 })).toBe(
+			16_000,
+		);
+	});
+
+	test("is unlimited when the context window is unknown", () => {
+		expect(getPromptTokenBudget(0)).toBeUndefined();
+	});
+});
+
+describe("assemblePrompt", () => {
+	const sections = [
+		createSection("intro", 10, SECTION_PRIORITY.essential),
+		createSection("node", 40, SECTION_PRIORITY.coveredChanges),
+		createSection("parent", 40, SECTION_PRIORITY.parentNodes, "p"),
+		createSection("uncovered", 40, SECTION_PRIORITY.uncoveredChanges, "u"),
+		createSection("task", 10, SECTION_PRIORITY.essential),
+	];
+
+	test("keeps every section in order when within budget", () => {
+		const { prompt, report } = assemblePrompt(sections, 1000);
+
+		expect(prompt).toBe(sections.map((s) => s.content).join("\n"));
+		expect(report.summarized).toEqual([]);
+		expect(report.elided).toEqual([]);
+		expect(isPromptTrimmed(report)).toBe(false);
+		expect(assemblePrompt(sections).prompt).toBe(prompt);
+	});
+
+	test("summarizes the lowest-priority sections first", () => {
+		const { prompt, report } = assemblePrompt(sections, 110);
+
+		expect(report.summarized).toEqual(["uncovered"]);
+		expect(report.elided).toEqual([]);
+		expect(prompt).toContain("\nu\n");
+		expect(prompt).toContain("p".repeat(160));
+	});
+
+	test("elides sections when summaries are not enough", () => {
+		const { prompt, report } = assemblePrompt(sections, 65);
+
+		expect(report.summarized).toEqual(["parent"]);
+		expect(report.elided).toEqual(["uncovered"]);
+		expect(prompt).not.toContain("\nu\n");
+		expect(prompt).toContain("n".repeat(160));
+	});
+
+	test("never cuts essential sections", () => {
+		const { prompt, report } = assemblePrompt(sections, 5);
+
+		expect(report.elided).toEqual(["node", "parent", "uncovered"]);
+		expect(prompt).toBe(`${"i".repeat(40)}\n${"t".repeat(40)}`);
+		expect(report.promptTokens).toBeGreaterThan(5);
+	});
+});
+
+describe("formatPromptBudgetReport", () => {
+	test("describes the size and what was cut", () => {
+		expect(
+			formatPromptBudgetReport({
+				budgetTokens: 100,
+				promptTokens: 90,
+				summarized: ["patch of src/a.ts"],
+				elided: ["commit list"],
+			}),
+		).toBe(
+			"~90 of 100 tokens; summarized patch of src/a.ts; omitted commit list",
+		);
+		expect(
+			formatPromptBudgetReport({
+				promptTokens: 90,
+				summarized: [],
+				elided: [],
+			}),
+		).toBe("~90 tokens");
+	});
+});
@@ -0,0 +1,425 @@
+import { describe, expect, mock, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { GitHubClient } from "../../src/github/client";
+import { detectIntentLayer } from "../../src/intent/detector";
+import { LocalGitRepository } from "../../src/local/git";
+import {
+	GitHubRepositorySource,
+	RepositoryTreeTooLargeError,
+} from "../../src/repository/github";
+import {
+	InMemoryObjectNotFoundError,
+	InMemoryRepositorySource,
+} from "../../src/repository/memory";
+import { createRepositorySource } from "../../src/repository/resolve";
+
+/**
+ * Creates an in-memory repository with a base commit on main and one
+ * commit on a feature branch.
+ */
+function createFixtureSource() {
+	return new InMemoryRepositorySource(
+		[
+			{
+				sha: "c1",
+				message: "Initial commit",
+				files: {
+					"AGENTS.md": "# Root\n",
+					"CLAUDE.md": { symlink: "AGENTS.md" },
+					"src/index.ts": "export const a = 1;\n",
+					"src/old.ts": "old\n",
+				},
+			},
+			{
+				sha: "c2",
+				parents: ["c1"],
+				message: "Add b",
+				files: {
+					"AGENTS.md": "# Root\n",
+					"CLAUDE.md": { symlink: "AGENTS.md" },
+					"src/index.ts": "export const a = 1;\nexport const b = 2;\n",
+					"src/new.ts": "new\n",
+				},
+			},
+		],
+		{ main: "c1", feature: "c2" },
+	);
+}
+
+describe("InMemoryRepositorySource", () => {
+	test("resolves named refs and SHAs", async () => {
+		const source = createFixtureSource();
+
+		expect(await source.resolveRef("feature")).toBe("c2");
+		expect(await source.resolveRef("c1")).toBe("c1");
+		await expect(source.resolveRef("missing")).rejects.toBeInstanceOf(
+			InMemoryObjectNotFoundError,
+		);
+	});
+
+	test("lists files, symlinks and directories with git blob SHAs", async () => {
+		const source = createFixtureSource();
+
+		const tree = await source.listTree("main");
+		const byPath = new Map(tree.map((entry) => [entry.path, entry]));
+
+		// Same SHA git assigns to a blob containing "# Root\n"
+		expect(byPath.get("AGENTS.md")?.sha).toBe(
+			"9a167ce9209e19d153f84b6d4a7a054ff3ee9bc4",
+		);
+		expect(byPath.get("CLAUDE.md")?.mode).toBe("120000");
+		expect(byPath.get("src")?.type).toBe("tree");
+		expect(await source.readBlob(byPath.get("CLAUDE.md")?.sha as string)).toBe(
+			"AGENTS.md",
+		);
+	});
+
+	test("reads files and SHAs at a ref", async () => {
+		const source = createFixtureSource();
+
+		expect(await source.readFile("src/new.ts", "feature")).toBe("new\n");
+		expect(await source.readFile("src/new.ts", "main")).toBeUndefined();
+		expect(await source.getFileSha("src/new.ts", "main")).toBeUndefined();
+		expect(await source.getFileSha("src/new.ts", "feature")).toMatch(
+			/^[0-9a-f]{40}$/,
+		);
+	});
+
+	test("computes the diff from the merge base", async () => {
+		const source = createFixtureSource();
+
+		const diff = await source.getDiff("main", "feature");
+
+		expect(
+			diff.files.map((file) => [file.filename, file.status, file.changes]),
+		).toEqual([
+			["src/index.ts", "modified", 1],
+			["src/new.ts", "added", 1],
+			["src/old.ts", "removed", 1],
+		]);
+		expect(diff.files[0]?.patch).toStartWith("@@");
+		expect(diff.summary).toMatchObject({
+			totalFiles: 3,
+			filesAdded: 1,
+			filesRemoved: 1,
+			filesModified: 1,
+		});
+	});
+
+	test("lists commits since the merge base", async () => {
+		const source = createFixtureSource();
+
+		const commits = await source.getCommits("main", "feature");
+
+		expect(commits.map((c) => [c.sha, c.message])).toEqual([["c2", "Add b"]]);
+	});
+
+	test("lists the history of a path, newest first", async () => {
+		const source = createFixtureSource();
+
+		const history = await source.getPathHistory("src", "feature", 10);
+
+		expect(history.map((commit) => commit.sha)).toEqual(["c2", "c1"]);
+		expect(history[0]?.files).toEqual([
+			{
+				filename: "src/index.ts",
+				status: "modified",
+				additions: 1,
+				deletions: 0,
+			},
+			{ filename: "src/new.ts", status: "added", additions: 1, deletions: 0 },
+			{ filename: "src/old.ts", status: "removed", additions: 0, deletions: 1 },
+		]);
+		expect(
+			(await source.getPathHistory("AGENTS.md", "feature", 10)).map(
+				(commit) => commit.sha,
+			),
+		).toEqual(["c1"]);
+		expect(await source.getPathHistory("", "feature", 1)).toHaveLength(1);
+	});
+
+	test("serves intent layer detection", async () => {
+		const source = createFixtureSource();
+
+		const result = await detectIntentLayer(source, "feature");
+
+		expect(result.agentsFiles.map((f) => f.path)).toEqual(["AGENTS.md"]);
+		expect(result.claudeFiles[0]).toMatchObject({
+			path: "CLAUDE.md",
+			isSymlink: true,
+			symlinkTarget: "AGENTS.md",
+		});
+	});
+});
+
+/**
+ * Creates a stub GitHubClient with only the methods the source calls.
+ */
+function createStubClient(overrides: Partial<Record<string, unknown>>) {
+	return overrides as unknown as GitHubClient;
+}
+
+describe("GitHubRepositorySource", () => {
+	test("lists the recursive tree of the ref's commit", async () => {
+		const getCommit = mock(async () => ({
+			sha: "abc",
+			commit: { tree: { sha: "tree-sha" } },
+		}));
+		const getTree = mock(async () => ({
+			truncated: false,
+			tree: [
+				{ path: "AGENTS.md", type: "blob", mode: "100644", sha: "s1", size: 3 },
+				{ path: "src", type: "tree", mode: "040000", sha: "s2" },
+			],
+		}));
+		const source = new GitHubRepositorySource(
+			createStubClient({ getCommit, getTree }),
+		);
+
+		const tree = await source.listTree("main");
+
+		expect(getCommit).toHaveBeenCalledWith("main");
+		expect(getTree).toHaveBeenCalledWith("tree-sha", true);
+		expect(tree).toEqual([
+			{ path: "AGENTS.md", type: "blob", mode: "100644", sha: "s1", size: 3 },
+			{
+				path: "src",
+				type: "tree",
+				mode: "040000",
+				sha: "s2",
+				size: undefined,
+			},
+		]);
+	});
+
+	test("throws RepositoryTreeTooLargeError for truncated trees", async () => {
+		const source = new GitHubRepositorySource(
+			createStubClient({
+				getCommit: async () => ({ sha: "abc", commit: { tree: { sha: "t" } } }),
+				getTree: async () => ({ truncated: true, tree: [] }),
+			}),
+		);
+
+		await expect(source.listTree("main")).rejects.toBeInstanceOf(
+			RepositoryTreeTooLargeError,
+		);
+	});
+
+	test("decodes blobs and file contents", async () => {
+		const encoded = Buffer.from("# Root\n").toString("base64");
+		const source = new GitHubRepositorySource(
+			createStubClient({
+				getBlob: async () => ({ content: encoded }),
+				getFileContent: async () => ({
+					type: "file",
+					sha: "file-sha",
+					content: encoded,
+				}),
+			}),
+		);
+
+		expect(await source.readBlob("s1")).toBe("# Root\n");
+		expect(await source.readFile("AGENTS.md", "main")).toBe("# Root\n");
+		expect(await source.getFileSha("AGENTS.md", "main")).toBe("file-sha");
+	});
+
+	test("treats missing files and directories as absent", async () => {
+		const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+		const missing = new GitHubRepositorySource(
+			createStubClient({
+				getFileContent: async () => {
+					throw notFound;
+				},
+			}),
+		);
+		const directory = new GitHubRepositorySource(
+			createStubClient({ getFileContent: async () => [] }),
+		);
+
+		expect(await missing.readFile("AGENTS.md", "main")).toBeUndefined();
+		expect(await missing.getFileSha("AGENTS.md", "main")).toBeUndefined();
+		expect(await directory.readFile("src", "main")).toBeUndefined();
+		expect(await directory.getFileSha("src", "main")).toBeUndefined();
+	});
+
+	test("rethrows errors other than not found", async () => {
+		const source = new GitHubRepositorySource(
+			createStubClient({
+				getFileContent: async () => {
+					throw Object.assign(new Error("Server Error"), { status: 500 });
+				},
+			}),
+		);
+
+		await expect(source.readFile("AGENTS.md", "main")).rejects.toThrow(
+			"Server Error",
+		);
+	});
+
+	test("builds diffs and commits from the compare API", async () => {
+		const compareCommits = mock(async () => ({
+			files: [
+				{
+					sha: "f1",
+					filename: "src/a.ts",
+					status: "modified",
+					additions: 2,
+					deletions: 1,
+					changes: 3,
+					blob_url: "blob",
+					raw_url: "raw",
+					contents_url: "contents",
+					patch: "@@ -1 +1,2 @@",
+				},
+			],
+			commits: [
+				{
+					sha: "c2",
+					commit: {
+						message: "Change a",
+						author: { name: "A", email: "a@example.com", date: "d" },
+						committer: { name: "A", email: "a@example.com", date: "d" },
+						comment_count: 0,
+					},
+					author: null,
+					committer: null,
+					html_url: "url",
+					parents: [{ sha: "c1" }],
+				},
+			],
+		}));
+		const source = new GitHubRepositorySource(
+			createStubClient({ compareCommits }),
+		);
+
+		const diff = await source.getDiff("main", "feature");
+		const commits = await source.getCommits("main", "feature");
+
+		expect(compareCommits).toHaveBeenCalledWith("main", "feature");
+		expect(diff.files[0]).toMatchObject({
+			filename: "src/a.ts",
+			status: "modified",
+			patch: "@@ -1 +1,2 @@",
+			previousFilename: null,
+		});
+		expect(diff.summary.totalAdditions).toBe(2);
+		expect(commits[0]).toMatchObject({
+			sha: "c2",
+			message: "Change a",
+			parentShas: ["c1"],
+		});
+	});
+});
+
+describe("GitHubRepositorySource.getPathHistory", () => {
+	test("lists commits for the path and splits renames", async () => {
+		const listCommits = mock(async () => [{ sha: "c2" }, { sha: "c1" }]);
+		const getCommit = mock(async (sha: string) => ({
+			files:
+				sha === "c2"
+					? [
+							{
+								filename: "src/b.ts",
+								previous_filename: "src/a.ts",
+								status: "renamed",
+								additions: 1,
+								deletions: 2,
+							},
+							{
+								filename: "docs/readme.md",
+								status: "modified",
+								additions: 1,
+								deletions: 0,
+							},
+						]
+					: [
+							{
+								filename: "src/a.ts",
+								status: "added",
+								additions: 3,
+								deletions: 0,
+							},
+						],
+		}));
+		const source = new GitHubRepositorySource(
+			createStubClient({ listCommits, getCommit }),
+		);
+
+		const history = await source.getPathHistory("src", "head", 500);
+		await source.getPathHistory("src", "head", 500);
+
+		expect(listCommits).toHaveBeenCalledWith("head", "src", 100);
+		expect(getCommit).toHaveBeenCalledTimes(2);
+		expect(history).toEqual([
+			{
+				sha: "c2",
+				files: [
+					{
+						filename: "src/a.ts",
+						status: "removed",
+						additions: 0,
+						deletions: 0,
+					},
+					{ filename: "src/b.ts", status: "added", additions: 1, deletions: 2 },
+				],
+			},
+			{
+				sha: "c1",
+				files: [
+					{ filename: "src/a.ts", status: "added", additions: 3, deletions: 0 },
+				],
+			},
+		]);
+	});
+});
+
+describe("createRepositorySource", () => {
+	const client = createStubClient({});
+
+	test("uses the GitHub API without a workspace", async () => {
+		const source = await createRepositorySource(client, "abc", undefined);
+
+		expect(source).toBeInstanceOf(GitHubRepositorySource);
+	});
+
+	test("uses the GitHub API when the workspace is not a git checkout", async () => {
+		const workspace = mkdtempSync(join(tmpdir(), "intent-layer-nogit-"));
+		try {
+			const source = await createRepositorySource(client, "abc", workspace);
+
+			expect(source).toBeInstanceOf(GitHubRepositorySource);
+		} finally {
+			rmSync(workspace, { recursive: true, force: true });
+		}
+	});
+
+	test("uses the local checkout when it contains the commit", async () => {
+		const workspace = mkdtempSync(join(tmpdir(), "intent-layer-git-"));
+		const git = (...args: string[]) =>
+			execFileSync("git", args, { cwd: workspace, encoding: "utf-8" });
+		try {
+			git("init", "-q");
+			git("config", "user.name", "Test User");
+			git("config", "user.email", "test@example.com");
+			writeFileSync(join(workspace, "AGENTS.md"), "# Root\n");
+			git("add", "-A");
+			git("commit", "-q", "-m", "Initial commit");
+			const headSha = git("rev-parse", "HEAD").trim();
+
+			const local = await createRepositorySource(client, headSha, workspace);
+			const missing = await createRepositorySource(
+				client,
+				"0123456789012345678901234567890123456789",
+				workspace,
+			);
+
+			expect(local).toBeInstanceOf(LocalGitRepository);
+			expect(missing).toBeInstanceOf(GitHubRepositorySource);
+		} finally {
+			rmSync(workspace, { recursive: true, force: true });
+		}
+	});
+});
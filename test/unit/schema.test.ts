@@ -1,4 +1,5 @@
 import { describe, expect, test } from "bun:test";
+import { DEFAULTS } from "../../src/config/defaults";
 import {
 	ActionInputsSchema,
 	FilesSchema,
@@ -15,16 +16,37 @@ describe("ActionInputsSchema", () => {
 
 			expect(result.mode).toBe("analyze");
 			expect(result.model).toBe("anthropic/claude-sonnet-4-20250514");
-			expect(result.files).toBe("agents");
+			expect(result.files).toEqual(["agents"]);
 			expect(result.symlink).toBe(false);
 			expect(result.symlink_source).toBe("agents");
+			expect(result.export_targets).toEqual([]);
 			expect(result.output).toBe("pr_comments");
+			expect(result.check_conclusion).toBe("failure");
 			expect(result.new_nodes).toBe(true);
 			expect(result.split_large_nodes).toBe(true);
 			expect(result.token_budget_percent).toBe(5);
 			expect(result.skip_binary_files).toBe(true);
 			expect(result.file_max_lines).toBe(8000);
+			expect(result.staleness_threshold).toBe(10);
 			expect(result.prompts).toEqual([]);
+			expect(result.boundary_thresholds.min_files_for_node).toBe(3);
+			expect(result.standard_boundary_dirs).toContain("packages");
+			expect(result.max_pr_lines_changed).toBe(100_000);
+			expect(result.session_timeout_ms).toBe(300_000);
+			expect(result.output_repair_attempts).toBe(2);
+			expect(result.analysis_concurrency).toBe(4);
+			expect(result.context_window_tokens).toBe(0);
+		});
+	});
+
+	describe("boundary_thresholds", () => {
+		test("fills unset thresholds with defaults", () => {
+			const result = ActionInputsSchema.parse({
+				boundary_thresholds: { min_files_for_node: 5 },
+			});
+
+			expect(result.boundary_thresholds.min_files_for_node).toBe(5);
+			expect(result.boundary_thresholds.min_changes_for_node).toBe(50);
 		});
 	});
 
@@ -39,6 +61,16 @@ describe("ActionInputsSchema", () => {
 			expect(result.mode).toBe("checkbox-handler");
 		});
 
+		test("accepts 'command-handler'", () => {
+			const result = ActionInputsSchema.parse({ mode: "command-handler" });
+			expect(result.mode).toBe("command-handler");
+		});
+
+		test("accepts 'audit'", () => {
+			const result = ActionInputsSchema.parse({ mode: "audit" });
+			expect(result.mode).toBe("audit");
+		});
+
 		test("rejects invalid mode", () => {
 			expect(() => ActionInputsSchema.parse({ mode: "invalid" })).toThrow();
 		});
@@ -47,21 +79,42 @@ describe("ActionInputsSchema", () => {
 	describe("files", () => {
 		test("accepts 'agents'", () => {
 			const result = ActionInputsSchema.parse({ files: "agents" });
-			expect(result.files).toBe("agents");
+			expect(result.files).toEqual(["agents"]);
 		});
 
 		test("accepts 'claude'", () => {
 			const result = ActionInputsSchema.parse({ files: "claude" });
-			expect(result.files).toBe("claude");
+			expect(result.files).toEqual(["claude"]);
 		});
 
-		test("accepts 'both'", () => {
+		test("expands 'both' to AGENTS.md and CLAUDE.md", () => {
 			const result = ActionInputsSchema.parse({ files: "both" });
-			expect(result.files).toBe("both");
+			expect(result.files).toEqual(["agents", "claude"]);
+		});
+
+		test("accepts a comma-separated list without duplicates", () => {
+			const result = ActionInputsSchema.parse({
+				files: "gemini, both, agents",
+			});
+			expect(result.files).toEqual(["gemini", "agents", "claude"]);
+		});
+
+		test("accepts an array of kinds", () => {
+			const result = ActionInputsSchema.parse({
+				files: ["copilot", "cursor"],
+			});
+			expect(result.files).toEqual(["copilot", "cursor"]);
 		});
 
 		test("rejects invalid files value", () => {
 			expect(() => ActionInputsSchema.parse({ files: "invalid" })).toThrow();
+			expect(() =>
+				ActionInputsSchema.parse({ files: "agents,invalid" }),
+			).toThrow();
+		});
+
+		test("rejects an empty list", () => {
+			expect(() => ActionInputsSchema.parse({ files: " , " })).toThrow();
 		});
 	});
 
@@ -81,11 +134,29 @@ describe("ActionInputsSchema", () => {
 			expect(result.output).toBe("new_pr");
 		});
 
+		test("accepts 'check'", () => {
+			const result = ActionInputsSchema.parse({ output: "check" });
+			expect(result.output).toBe("check");
+		});
+
 		test("rejects invalid output value", () => {
 			expect(() => ActionInputsSchema.parse({ output: "invalid" })).toThrow();
 		});
 	});
 
+	describe("check_conclusion", () => {
+		test("accepts 'neutral'", () => {
+			const result = ActionInputsSchema.parse({ check_conclusion: "neutral" });
+			expect(result.check_conclusion).toBe("neutral");
+		});
+
+		test("rejects invalid conclusion", () => {
+			expect(() =>
+				ActionInputsSchema.parse({ check_conclusion: "success" }),
+			).toThrow();
+		});
+	});
+
 	describe("boolean coercion", () => {
 		test("coerces string 'true' to true", () => {
 			const result = ActionInputsSchema.parse({ symlink: "true" });
@@ -142,6 +213,11 @@ describe("ActionInputsSchema", () => {
 			expect(result.file_max_lines).toBe(10000);
 		});
 
+		test("coerces staleness_threshold correctly", () => {
+			const result = ActionInputsSchema.parse({ staleness_threshold: "0" });
+			expect(result.staleness_threshold).toBe(0);
+		});
+
 		test("throws on invalid number string", () => {
 			expect(() =>
 				ActionInputsSchema.parse({ token_budget_percent: "not-a-number" }),
@@ -160,6 +236,11 @@ describe("ActionInputsSchema", () => {
 			expect(result.symlink_source).toBe("claude");
 		});
 
+		test("accepts any intent file kind", () => {
+			const result = ActionInputsSchema.parse({ symlink_source: "gemini" });
+			expect(result.symlink_source).toBe("gemini");
+		});
+
 		test("rejects invalid symlink_source value", () => {
 			expect(() =>
 				ActionInputsSchema.parse({ symlink_source: "invalid" }),
@@ -218,7 +299,7 @@ describe("parseActionInputs", () => {
 
 		expect(result.mode).toBe("analyze");
 		expect(result.model).toBe("anthropic/claude-sonnet-4-20250514"); // default
-		expect(result.files).toBe("both");
+		expect(result.files).toEqual(["agents", "claude"]);
 	});
 
 	test("filters out empty string values", () => {
@@ -240,39 +321,99 @@ describe("parseActionInputs", () => {
 			files: "both",
 			symlink: "true",
 			symlink_source: "claude",
+			export_targets: "copilot",
 			output: "pr_commit",
+			check_conclusion: "neutral",
 			new_nodes: "false",
 			split_large_nodes: "true",
 			token_budget_percent: "10",
 			skip_binary_files: "false",
 			file_max_lines: "5000",
+			staleness_threshold: "20",
 			prompts: "",
 		});
 
 		expect(result).toEqual({
 			mode: "analyze",
 			model: "anthropic/claude-3-opus",
-			files: "both",
+			files: ["agents", "claude"],
 			symlink: true,
 			symlink_source: "claude",
+			export_targets: ["copilot"],
 			output: "pr_commit",
+			check_conclusion: "neutral",
 			new_nodes: false,
 			split_large_nodes: true,
 			token_budget_percent: 10,
 			skip_binary_files: false,
 			file_max_lines: 5000,
+			staleness_threshold: 20,
 			prompts: [],
+			boundary_thresholds: {
+				min_files_for_node: 3,
+				min_changes_for_node: 50,
+				standard_dir_confidence_boost: 0.2,
+				package_boundary_confidence_boost: 0.15,
+				base_confidence: 0.3,
+				per_file_confidence_boost: 0.05,
+				max_file_count_confidence: 0.3,
+				workspace_package_confidence: 0.9,
+			},
+			standard_boundary_dirs: [...DEFAULTS.standardBoundaryDirs],
+			max_pr_lines_changed: 100_000,
+			debounce_delay_ms: 1500,
+			max_patch_lines: 100,
+			session_timeout_ms: 300_000,
+			output_repair_attempts: 2,
+			analysis_concurrency: 4,
+			context_window_tokens: 0,
 		});
 	});
+
+	test("rejects symlinking more than two symlinkable kinds", () => {
+		expect(() =>
+			parseActionInputs({ files: "agents,claude,gemini", symlink: "true" }),
+		).toThrow("symlink pairs two kinds of intent file");
+		expect(
+			parseActionInputs({ files: "agents,claude,gemini" }).files,
+		).toHaveLength(3);
+	});
+
+	test("allows symlinking with kinds that cannot be symlinked", () => {
+		const result = parseActionInputs({
+			files: "both,copilot,cursor",
+			symlink: "true",
+		});
+		expect(result.files).toEqual(["agents", "claude", "copilot", "cursor"]);
+	});
+
+	test("parses export targets from a comma-separated list", () => {
+		const result = parseActionInputs({
+			export_targets: "cursor, copilot,cursor",
+		});
+		expect(result.export_targets).toEqual(["cursor", "copilot"]);
+	});
+
+	test("rejects export targets that are also managed kinds", () => {
+		expect(() =>
+			parseActionInputs({ files: "agents,cursor", export_targets: "cursor" }),
+		).toThrow("export_targets cannot include kinds that are also managed");
+		expect(() => parseActionInputs({ export_targets: "claude" })).toThrow();
+	});
 });
 
 describe("individual enum schemas", () => {
 	test("ModeSchema exports correct values", () => {
-		expect(ModeSchema.options).toEqual(["analyze", "checkbox-handler"]);
+		expect(ModeSchema.options).toEqual([
+			"analyze",
+			"checkbox-handler",
+			"command-handler",
+			"audit",
+		]);
 	});
 
-	test("FilesSchema exports correct values", () => {
-		expect(FilesSchema.options).toEqual(["agents", "claude", "both"]);
+	test("FilesSchema parses a single kind to a list", () => {
+		expect(FilesSchema.parse("claude")).toEqual(["claude"]);
 	});
 
 	test("OutputSchema exports correct values", () => {
@@ -280,10 +421,17 @@ describe("individual enum schemas", () => {
 			"pr_comments",
 			"pr_commit",
 			"new_pr",
+			"check",
 		]);
 	});
 
 	test("SymlinkSourceSchema exports correct values", () => {
-		expect(SymlinkSourceSchema.options).toEqual(["agents", "claude"]);
+		expect(SymlinkSourceSchema.options).toEqual([
+			"agents",
+			"claude",
+			"gemini",
+			"copilot",
+			"cursor",
+		]);
 	});
 });
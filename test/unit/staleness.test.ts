@@ -0,0 +1,193 @@
+import { describe, expect, test } from "bun:test";
+import type { IntentFile } from "../../src/intent/detector";
+import { buildHierarchy } from "../../src/intent/hierarchy";
+import {
+	calculateNodeStaleness,
+	calculateStalenessForNodes,
+	calculateStalenessScore,
+	formatStaleness,
+} from "../../src/intent/staleness";
+import { parseIntentLayerIgnore } from "../../src/patterns/ignore";
+import { InMemoryRepositorySource } from "../../src/repository/memory";
+
+const hierarchy = buildHierarchy(
+	["AGENTS.md", "src/AGENTS.md", "src/api/AGENTS.md"].map(
+		(path): IntentFile => ({
+			path,
+			type: "agents",
+			sha: `sha-${path}`,
+			isSymlink: false,
+		}),
+	),
+	"agents",
+);
+
+/**
+ * Creates a repository where src/AGENTS.md was written in c1 and its code
+ * changed over the following commits.
+ */
+function createHistorySource() {
+	const nodes = {
+		"AGENTS.md": "# Root\n",
+		"src/AGENTS.md": "# Src\n",
+		"src/api/AGENTS.md": "# API\n",
+	};
+	const added = {
+		"src/a.ts": "a\nb\nc\n",
+		"src/api/route.ts": "route\n",
+		"src/new.ts": "new\n",
+		"src/snapshot.snap": "snap\n",
+	};
+	return new InMemoryRepositorySource([
+		{
+			sha: "c1",
+			files: { ...nodes, "src/a.ts": "a\n", "src/old.ts": "old\n" },
+		},
+		{
+			sha: "c2",
+			parents: ["c1"],
+			files: { ...nodes, "src/a.ts": "a\nb\nc\n", "src/old.ts": "old\n" },
+		},
+		{
+			sha: "c3",
+			parents: ["c2"],
+			files: { ...nodes, ...added, "src/old.ts": "old\n" },
+		},
+		{ sha: "c4", parents: ["c3"], files: { ...nodes, ...added } },
+	]);
+}
+
+describe("calculateNodeStaleness", () => {
+	test("measures changes to covered files since the node was modified", async () => {
+		const source = createHistorySource();
+		const node = hierarchy.nodesByPath.get("src/AGENTS.md");
+		if (!node) throw new Error("missing node");
+
+		const staleness = await calculateNodeStaleness(
+			source,
+			node,
+			hierarchy,
+			"c4",
+			{ historyLimit: 10 },
+			parseIntentLayerIgnore("*.snap"),
+		);
+
+		expect(staleness).toEqual({
+			nodePath: "src/AGENTS.md",
+			lastModifiedSha: "c1",
+			commitCount: 3,
+			linesChurned: 4,
+			filesAdded: ["src/new.ts"],
+			filesRemoved: ["src/old.ts"],
+			truncated: false,
+			score: 7,
+		});
+	});
+
+	test("starts over when the node file changes", async () => {
+		const source = new InMemoryRepositorySource([
+			{ sha: "c1", files: { "AGENTS.md": "# Root\n", "a.ts": "a\n" } },
+			{
+				sha: "c2",
+				parents: ["c1"],
+				files: { "AGENTS.md": "# Root\n", "a.ts": "a\nb\n" },
+			},
+			{
+				sha: "c3",
+				parents: ["c2"],
+				files: { "AGENTS.md": "# Root v2\n", "a.ts": "a\nb\n" },
+			},
+		]);
+		const rootHierarchy = buildHierarchy(
+			[{ path: "AGENTS.md", type: "agents", sha: "sha", isSymlink: false }],
+			"agents",
+		);
+		const node = rootHierarchy.nodesByPath.get("AGENTS.md");
+		if (!node) throw new Error("missing node");
+
+		const staleness = await calculateNodeStaleness(
+			source,
+			node,
+			rootHierarchy,
+			"c3",
+			{ historyLimit: 10 },
+		);
+
+		expect(staleness.lastModifiedSha).toBe("c3");
+		expect(staleness.score).toBe(0);
+	});
+
+	test("reports truncated history", async () => {
+		const source = createHistorySource();
+		const node = hierarchy.nodesByPath.get("src/AGENTS.md");
+		if (!node) throw new Error("missing node");
+
+		const staleness = await calculateNodeStaleness(
+			source,
+			node,
+			hierarchy,
+			"c4",
+			{ historyLimit: 2 },
+		);
+
+		expect(staleness.commitCount).toBe(2);
+		expect(staleness.truncated).toBe(true);
+		expect(formatStaleness(staleness)).toStartWith("2+ commits");
+	});
+});
+
+describe("calculateStalenessForNodes", () => {
+	test("keys results by node path", async () => {
+		const source = createHistorySource();
+		const nodes = [...hierarchy.nodesByPath.values()];
+
+		const results = await calculateStalenessForNodes(
+			source,
+			nodes,
+			hierarchy,
+			"c4",
+			{ historyLimit: 10 },
+		);
+
+		expect([...results.keys()]).toEqual([
+			"AGENTS.md",
+			"src/AGENTS.md",
+			"src/api/AGENTS.md",
+		]);
+		expect(results.get("AGENTS.md")?.commitCount).toBe(0);
+		expect(results.get("src/api/AGENTS.md")?.filesAdded).toEqual([
+			"src/api/route.ts",
+		]);
+	});
+});
+
+describe("calculateStalenessScore", () => {
+	test("weights commits, churn, and added or removed files", () => {
+		expect(
+			calculateStalenessScore({
+				commitCount: 4,
+				linesChurned: 250,
+				filesAdded: ["a.ts"],
+				filesRemoved: ["b.ts", "c.ts"],
+			}),
+		).toBe(12.5);
+	});
+});
+
+describe("formatStaleness", () => {
+	test("describes drift since the last update", () => {
+		expect(
+			formatStaleness({
+				nodePath: "AGENTS.md",
+				commitCount: 1,
+				linesChurned: 12,
+				filesAdded: ["a.ts", "b.ts"],
+				filesRemoved: [],
+				truncated: false,
+				score: 5.1,
+			}),
+		).toBe(
+			"1 commit, 12 lines churned, 2 files added since the node was last updated",
+		);
+	});
+});
@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+import {
+	findContainingPackage,
+	findWorkspacePackages,
+} from "../../src/intent/workspaces";
+import { parseIntentLayerIgnore } from "../../src/patterns/ignore";
+import type { RepositoryTreeEntry } from "../../src/repository/source";
+
+/**
+ * Finds the workspace packages of a repository with the given files.
+ */
+function findPackages(files: Record<string, string>) {
+	const entries: RepositoryTreeEntry[] = Object.keys(files).map((path) => ({
+		path,
+		type: "blob",
+		mode: "100644",
+		sha: "",
+	}));
+	return findWorkspacePackages(entries, async (path) => files[path]);
+}
+
+describe("findWorkspacePackages", () => {
+	test("reads package.json workspaces, requiring a package.json in each member", async () => {
+		const packages = await findPackages({
+			"package.json": JSON.stringify({
+				workspaces: ["packages/*", "!packages/legacy"],
+			}),
+			"packages/api/package.json": "{}",
+			"packages/web/package.json": "{}",
+			"packages/legacy/package.json": "{}",
+			"packages/utils/index.ts": "",
+			"examples/demo/package.json": "{}",
+		});
+
+		expect(packages).toEqual([
+			{ directory: "packages/api", manifest: "package.json" },
+			{ directory: "packages/web", manifest: "package.json" },
+		]);
+	});
+
+	test("reads pnpm-workspace.yaml packages", async () => {
+		const packages = await findPackages({
+			"pnpm-workspace.yaml": "packages:\n  - 'apps/**'\n",
+			"apps/site/package.json": "{}",
+			"apps/tools/cli/package.json": "{}",
+		});
+
+		expect(packages.map((pkg) => pkg.directory)).toEqual([
+			"apps/site",
+			"apps/tools/cli",
+		]);
+	});
+
+	test("reads Cargo workspace members and exclusions", async () => {
+		const packages = await findPackages({
+			"Cargo.toml": [
+				"[package]",
+				'name = "root" # members = ["ignored"]',
+				"",
+				"[workspace]",
+				"members = [",
+				'  "crates/*", # all crates',
+				"]",
+				'exclude = ["crates/scratch"]',
+			].join("\n"),
+			"crates/core/Cargo.toml": "",
+			"crates/scratch/Cargo.toml": "",
+		});
+
+		expect(packages).toEqual([
+			{ directory: "crates/core", manifest: "Cargo.toml" },
+		]);
+	});
+
+	test("reads go.work uses and finds standalone Python modules", async () => {
+		const packages = await findPackages({
+			"go.work": "go 1.22\n\nuse (\n\t./services/auth // auth\n\t./lib\n)\n",
+			"services/auth/go.mod": "",
+			"lib/go.mod": "",
+			"py/worker/pyproject.toml": "",
+			"pyproject.toml": "",
+		});
+
+		expect(packages).toEqual([
+			{ directory: "lib", manifest: "go.work" },
+			{ directory: "py/worker", manifest: "pyproject.toml" },
+			{ directory: "services/auth", manifest: "go.work" },
+		]);
+	});
+
+	test("finds standalone modules only when no root workspace lists them", async () => {
+		const packages = await findPackages({
+			"go.work": "go 1.22\n\nuse ./lib\n",
+			"lib/go.mod": "",
+			"tools/gen/go.mod": "",
+			"api/pyproject.toml": "",
+		});
+
+		expect(packages).toEqual([
+			{ directory: "api", manifest: "pyproject.toml" },
+			{ directory: "lib", manifest: "go.work" },
+		]);
+	});
+
+	test("skips standalone modules that are vendored, test data, or ignored", async () => {
+		const files: Record<string, string> = {
+			"api/go.mod": "",
+			"api/testdata/sample/go.mod": "",
+			"vendor/github.com/x/y/go.mod": "",
+			"examples/demo/pyproject.toml": "",
+			"scripts/pyproject.toml": "",
+		};
+		const entries: RepositoryTreeEntry[] = Object.keys(files).map((path) => ({
+			path,
+			type: "blob",
+			mode: "100644",
+			sha: "",
+		}));
+
+		const packages = await findWorkspacePackages(
+			entries,
+			async (path) => files[path],
+			parseIntentLayerIgnore("scripts/\n"),
+		);
+
+		expect(packages).toEqual([{ directory: "api", manifest: "go.mod" }]);
+	});
+
+	test("returns no packages without workspace manifests", async () => {
+		expect(
+			await findPackages({ "package.json": "{}", "src/index.ts": "" }),
+		).toEqual([]);
+	});
+});
+
+describe("findContainingPackage", () => {
+	test("returns the innermost package containing the path", () => {
+		const packages = [
+			{ directory: "packages/api", manifest: "package.json" as const },
+			{
+				directory: "packages/api/plugins/auth",
+				manifest: "package.json" as const,
+			},
+		];
+
+		expect(
+			findContainingPackage("packages/api/plugins/auth/index.ts", packages)
+				?.directory,
+		).toBe("packages/api/plugins/auth");
+		expect(
+			findContainingPackage("packages/api-v2/index.ts", packages),
+		).toBeUndefined();
+	});
+});